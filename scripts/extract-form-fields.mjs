@@ -0,0 +1,42 @@
+// Guarda los nombres de los campos AcroForm de los PDF del IRS para comprobar los mapeos sin los PDF.
+// Uso: node scripts/extract-form-fields.mjs [directorio] (por defecto IRS_FORMS_DIR o data/irs-forms)
+import fs from 'fs/promises';
+import path from 'path';
+import { PDFCheckBox, PDFDocument, PDFRadioGroup, PDFTextField } from 'pdf-lib';
+
+const OUTPUT_DIR = path.join(process.cwd(), 'src', 'modules', 'taxAdvisor', 'forms', 'mappings', 'fields');
+
+function describeField(field) {
+  if (field instanceof PDFTextField) {
+    const maxLength = field.getMaxLength();
+    return maxLength === undefined ? { type: 'TEXT' } : { type: 'TEXT', maxLength };
+  }
+  if (field instanceof PDFCheckBox) return { type: 'CHECKBOX' };
+  if (field instanceof PDFRadioGroup) return { type: 'RADIO', options: field.getOptions() };
+  return { type: 'OTHER' };
+}
+
+async function main() {
+  const dir = process.argv[2] ?? process.env.IRS_FORMS_DIR ?? path.join(process.cwd(), 'data', 'irs-forms');
+  const templates = (await fs.readdir(dir)).filter((file) => file.endsWith('.pdf'));
+  await fs.mkdir(OUTPUT_DIR, { recursive: true });
+
+  for (const template of templates) {
+    const pdf = await PDFDocument.load(await fs.readFile(path.join(dir, template)));
+    const fields = Object.fromEntries(
+      pdf
+        .getForm()
+        .getFields()
+        .map((field) => [field.getName(), describeField(field)])
+        .sort(([a], [b]) => a.localeCompare(b))
+    );
+    const output = path.join(OUTPUT_DIR, template.replace(/\.pdf$/, '.json'));
+    await fs.writeFile(output, `${JSON.stringify({ template, fields }, null, 2)}\n`);
+    console.log(`${template}: ${Object.keys(fields).length} fields -> ${path.relative(process.cwd(), output)}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,25 @@
+import { actionJournal } from '@/core-hub/chat/services/action-journal.service';
+import { AppError } from '@/shared/utils/error-handler';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request): Promise<Response> {
+  const userId = new URL(request.url).searchParams.get('userId');
+  if (!userId) {
+    return Response.json({ error: 'userId is required' }, { status: 400 });
+  }
+
+  try {
+    const entries = await actionJournal.list(userId);
+    return Response.json({ entries });
+  } catch (error) {
+    return Response.json(
+      {
+        error: error instanceof AppError ? error.code : 'JOURNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: error instanceof AppError ? error.status : 500 }
+    );
+  }
+}
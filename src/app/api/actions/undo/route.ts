@@ -0,0 +1,38 @@
+import { actionService } from '@/core-hub/chat/services/action.service';
+import { AppError } from '@/shared/utils/error-handler';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Sin entryId se deshace la última acción aplicada
+export async function POST(request: Request): Promise<Response> {
+  let body: {
+    userId?: string;
+    entryId?: string;
+  };
+  try {
+    body = (await request.json()) ?? {};
+  } catch {
+    return Response.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+  }
+  const { userId, entryId } = body;
+
+  if (!userId) {
+    return Response.json({ error: 'userId is required' }, { status: 400 });
+  }
+
+  try {
+    const entry = entryId
+      ? await actionService.undoAction(entryId, userId)
+      : await actionService.undoLastAction(userId);
+    return Response.json({ entry });
+  } catch (error) {
+    return Response.json(
+      {
+        error: error instanceof AppError ? error.code : 'UNDO_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: error instanceof AppError ? error.status : 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { actionService } from '@/core-hub/chat/services/action.service';
+import { approvalQueue } from '@/core-hub/chat/services/approval-queue.service';
+import { ApprovalDecision } from '@/core-hub/chat/interfaces/approval.types';
+import { AppError } from '@/shared/utils/error-handler';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DECISIONS: ApprovalDecision[] = ['APPROVED', 'REJECTED'];
+
+function errorResponse(error: unknown): Response {
+  return Response.json(
+    {
+      error: error instanceof AppError ? error.code : 'APPROVAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    },
+    { status: error instanceof AppError ? error.status : 500 }
+  );
+}
+
+// Detalle de la solicitud con su registro de auditoría
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<Response> {
+  const userId = new URL(request.url).searchParams.get('userId');
+  if (!userId) {
+    return Response.json({ error: 'userId is required' }, { status: 400 });
+  }
+
+  try {
+    const approval = await approvalQueue.get(params.id, userId);
+    const audit = await approvalQueue.getAuditTrail(params.id, userId);
+    return Response.json({ approval, audit });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<Response> {
+  let body: { userId?: string; decision?: ApprovalDecision; reason?: string };
+  try {
+    body = (await request.json()) ?? {};
+  } catch {
+    return Response.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+  }
+  const { userId, decision, reason } = body;
+
+  if (!userId || !decision || !DECISIONS.includes(decision)) {
+    return Response.json(
+      { error: 'userId and decision (APPROVED or REJECTED) are required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const approval = await actionService.resolveApproval(
+      params.id,
+      userId,
+      decision,
+      reason
+    );
+    return Response.json({ approval });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
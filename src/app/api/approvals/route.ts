@@ -0,0 +1,25 @@
+import { approvalQueue } from '@/core-hub/chat/services/approval-queue.service';
+import { AppError } from '@/shared/utils/error-handler';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request): Promise<Response> {
+  const userId = new URL(request.url).searchParams.get('userId');
+  if (!userId) {
+    return Response.json({ error: 'userId is required' }, { status: 400 });
+  }
+
+  try {
+    const approvals = await approvalQueue.listPending(userId);
+    return Response.json({ approvals });
+  } catch (error) {
+    return Response.json(
+      {
+        error: error instanceof AppError ? error.code : 'APPROVALS_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: error instanceof AppError ? error.status : 500 }
+    );
+  }
+}
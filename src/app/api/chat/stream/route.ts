@@ -0,0 +1,79 @@
+import { chatService } from '@/core-hub/chat/services/chat.service';
+import { ChatStreamEvent } from '@/core-hub/chat/interfaces/chat.types';
+import { validationService } from '@/core-hub/chat/services/validation.service';
+import { AppError } from '@/shared/utils/error-handler';
+import { encodeSSE } from '@/shared/utils/sse';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request): Promise<Response> {
+  let body: {
+    userId?: string;
+    message?: string;
+    sessionId?: string;
+  };
+  try {
+    body = (await request.json()) ?? {};
+  } catch {
+    return Response.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+  }
+  const { userId, message, sessionId } = body;
+
+  if (!userId || typeof message !== 'string') {
+    return Response.json(
+      { error: 'userId and message are required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await validationService.validateMessage(message);
+  } catch (error) {
+    return Response.json(
+      {
+        error: error instanceof AppError ? error.code : 'INVALID_MESSAGE',
+        message: error instanceof Error ? error.message : 'Invalid message',
+      },
+      { status: 400 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // request.signal se aborta cuando el cliente cancela o se desconecta
+      const send = (event: ChatStreamEvent) => {
+        if (!request.signal.aborted) {
+          controller.enqueue(encoder.encode(encodeSSE(event.type, event)));
+        }
+      };
+
+      try {
+        for await (const event of chatService.streamMessage(userId, message, {
+          signal: request.signal,
+          sessionId,
+        })) {
+          send(event);
+        }
+      } catch (error) {
+        send({
+          type: 'error',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      } finally {
+        if (!request.signal.aborted) {
+          controller.close();
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
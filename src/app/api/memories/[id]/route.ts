@@ -0,0 +1,64 @@
+import { memoryService } from '@/core-hub/chat/services/memory.service';
+import { MemoryUpdate } from '@/core-hub/chat/interfaces/memory.types';
+import { AppError } from '@/shared/utils/error-handler';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: unknown): Response {
+  return Response.json(
+    {
+      error: error instanceof AppError ? error.code : 'MEMORY_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    },
+    { status: error instanceof AppError ? error.status : 500 }
+  );
+}
+
+// Editar, fijar o cambiar la importancia de un recuerdo
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<Response> {
+  let body: {
+    userId?: string;
+  } & MemoryUpdate;
+  try {
+    body = (await request.json()) ?? {};
+  } catch {
+    return Response.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+  }
+  const { userId, description, pinned, importance } = body;
+
+  if (!userId) {
+    return Response.json({ error: 'userId is required' }, { status: 400 });
+  }
+
+  try {
+    const memory = await memoryService.updateMemory(userId, params.id, {
+      description,
+      pinned,
+      importance,
+    });
+    return Response.json({ memory });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<Response> {
+  const userId = new URL(request.url).searchParams.get('userId');
+  if (!userId) {
+    return Response.json({ error: 'userId is required' }, { status: 400 });
+  }
+
+  try {
+    await memoryService.forgetMemory(userId, params.id);
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,35 @@
+import { memoryService } from '@/core-hub/chat/services/memory.service';
+import { AppError } from '@/shared/utils/error-handler';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: unknown): Response {
+  return Response.json(
+    {
+      error: error instanceof AppError ? error.code : 'MEMORY_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    },
+    { status: error instanceof AppError ? error.status : 500 }
+  );
+}
+
+// Para un planificador externo (cron): consolida, aplica el olvido y el tope
+export async function POST(request: Request): Promise<Response> {
+  let body: { userId?: string };
+  try {
+    body = (await request.json()) ?? {};
+  } catch {
+    return Response.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+  }
+  const { userId } = body;
+  if (!userId) {
+    return Response.json({ error: 'userId is required' }, { status: 400 });
+  }
+
+  try {
+    return Response.json({ report: await memoryService.runMaintenance(userId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
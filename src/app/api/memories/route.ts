@@ -0,0 +1,29 @@
+import { memoryService } from '@/core-hub/chat/services/memory.service';
+import { AppError } from '@/shared/utils/error-handler';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: unknown): Response {
+  return Response.json(
+    {
+      error: error instanceof AppError ? error.code : 'MEMORY_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    },
+    { status: error instanceof AppError ? error.status : 500 }
+  );
+}
+
+// Lo que Andy recuerda del usuario, fijados primero
+export async function GET(request: Request): Promise<Response> {
+  const userId = new URL(request.url).searchParams.get('userId');
+  if (!userId) {
+    return Response.json({ error: 'userId is required' }, { status: 400 });
+  }
+
+  try {
+    return Response.json({ memories: await memoryService.listMemories(userId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,57 @@
+import { contextService } from '@/core-hub/chat/services/context.service';
+import { SessionExportFormat } from '@/core-hub/chat/interfaces/session.types';
+import { isLocale } from '@/shared/i18n/i18n';
+import { AppError } from '@/shared/utils/error-handler';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const FORMATS: SessionExportFormat[] = ['markdown', 'json', 'pdf'];
+
+function errorResponse(error: unknown): Response {
+  return Response.json(
+    {
+      error: error instanceof AppError ? error.code : 'SESSION_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    },
+    { status: error instanceof AppError ? error.status : 500 }
+  );
+}
+
+// Descarga la conversación: ?format=markdown|json|pdf (&locale=en|es)
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<Response> {
+  const searchParams = new URL(request.url).searchParams;
+  const userId = searchParams.get('userId');
+  const format = searchParams.get('format') || 'markdown';
+  const locale = searchParams.get('locale');
+
+  if (!userId) {
+    return Response.json({ error: 'userId is required' }, { status: 400 });
+  }
+  if (!FORMATS.includes(format as SessionExportFormat)) {
+    return Response.json(
+      { error: `format must be one of ${FORMATS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const file = await contextService.exportSession(
+      params.id,
+      userId,
+      format as SessionExportFormat,
+      isLocale(locale) ? locale : undefined
+    );
+    return new Response(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,40 @@
+import { contextService } from '@/core-hub/chat/services/context.service';
+import { AppError } from '@/shared/utils/error-handler';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: unknown): Response {
+  return Response.json(
+    {
+      error: error instanceof AppError ? error.code : 'SESSION_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    },
+    { status: error instanceof AppError ? error.status : 500 }
+  );
+}
+
+// Restaura una exportación JSON como conversación nueva
+export async function POST(request: Request): Promise<Response> {
+  let body: {
+    userId?: string;
+    data?: unknown;
+  };
+  try {
+    body = (await request.json()) ?? {};
+  } catch {
+    return Response.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+  }
+  const { userId, data } = body;
+
+  if (!userId || data === undefined) {
+    return Response.json({ error: 'userId and data are required' }, { status: 400 });
+  }
+
+  try {
+    const session = await contextService.importSession(userId, data);
+    return Response.json({ session }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
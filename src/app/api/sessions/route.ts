@@ -0,0 +1,53 @@
+import { contextService } from '@/core-hub/chat/services/context.service';
+import { AppError } from '@/shared/utils/error-handler';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: unknown): Response {
+  return Response.json(
+    {
+      error: error instanceof AppError ? error.code : 'SESSION_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    },
+    { status: error instanceof AppError ? error.status : 500 }
+  );
+}
+
+// Conversaciones del usuario, más recientes primero (sin mensajes)
+export async function GET(request: Request): Promise<Response> {
+  const userId = new URL(request.url).searchParams.get('userId');
+  if (!userId) {
+    return Response.json({ error: 'userId is required' }, { status: 400 });
+  }
+
+  try {
+    return Response.json({ sessions: await contextService.listSessions(userId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(request: Request): Promise<Response> {
+  let body: {
+    userId?: string;
+    title?: string;
+  };
+  try {
+    body = (await request.json()) ?? {};
+  } catch {
+    return Response.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+  }
+  const { userId, title } = body;
+
+  if (!userId) {
+    return Response.json({ error: 'userId is required' }, { status: 400 });
+  }
+
+  try {
+    const session = await contextService.createNewSession(userId, 'general', title);
+    return Response.json({ session }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
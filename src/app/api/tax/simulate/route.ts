@@ -0,0 +1,143 @@
+import { z } from 'zod';
+import { profileBuilder } from '@/core-hub/chat/services/profile-builder.service';
+import { moduleStateService } from '@/core-hub/chat/services/module-state.service';
+import { TaxOptimizationService } from '@/modules/taxAdvisor/services/tax-optimization.service';
+import { taxReturnInputFromIncomeRecords } from '@/modules/taxAdvisor/engine/return-input';
+import { incomeRecordsFromDocuments } from '@/modules/taxAdvisor/extraction/income-records';
+import { TaxReturnInput } from '@/modules/taxAdvisor/interfaces/tax-engine.types';
+import { AppError } from '@/shared/utils/error-handler';
+import { Locale, SUPPORTED_LOCALES } from '@/shared/i18n/i18n';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const money = z.number().finite();
+const positive = z.number().finite().positive();
+const filingStatus = z.enum([
+  'SINGLE',
+  'MARRIED_FILING_JOINTLY',
+  'MARRIED_FILING_SEPARATELY',
+  'HEAD_OF_HOUSEHOLD',
+  'QUALIFYING_SURVIVING_SPOUSE',
+]);
+
+const deltaSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('RETIREMENT_CONTRIBUTION'),
+    account: z.enum(['401K', 'IRA']),
+    amount: positive,
+    roth: z.boolean().optional(),
+  }),
+  z.object({ type: z.literal('FILING_STATUS'), filingStatus, spouseWages: money.nonnegative().optional() }),
+  z.object({
+    type: z.literal('SELL_STOCK'),
+    proceeds: positive,
+    costBasis: money.nonnegative().optional(),
+    longTerm: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal('INCOME'),
+    source: z.enum(['WAGES', 'SELF_EMPLOYMENT', 'INTEREST', 'OTHER']),
+    amount: money,
+  }),
+  z.object({ type: z.literal('DEPENDENTS'), qualifyingChildren: z.number().int() }),
+]);
+
+const count = z.number().int().nonnegative().optional();
+const inputSchema: z.ZodType<TaxReturnInput> = z.object({
+  taxYear: z.number().int(),
+  filingStatus,
+  wages: money.optional(),
+  socialSecurityWages: money.optional(),
+  medicareWages: money.optional(),
+  electiveDeferrals: money.optional(),
+  coveredByWorkplacePlan: z.boolean().optional(),
+  taxableInterest: money.optional(),
+  ordinaryDividends: money.optional(),
+  qualifiedDividends: money.optional(),
+  shortTermCapitalGains: money.optional(),
+  longTermCapitalGains: money.optional(),
+  taxableRetirementDistributions: money.optional(),
+  selfEmploymentIncome: money.optional(),
+  otherIncome: money.optional(),
+  adjustments: z
+    .object({
+      iraDeduction: money.optional(),
+      studentLoanInterest: money.optional(),
+      hsaDeduction: money.optional(),
+      selfEmployedRetirement: money.optional(),
+      other: money.optional(),
+    })
+    .optional(),
+  itemizedDeductions: money.optional(),
+  qbiDeduction: money.optional(),
+  additionalDeductionCount: count,
+  qualifyingChildren: count,
+  eitcQualifyingChildren: count,
+  otherDependents: count,
+  federalWithholding: money.optional(),
+  estimatedTaxPayments: money.optional(),
+});
+
+const requestSchema = z
+  .object({
+    userId: z.string().min(1).optional(),
+    input: inputSchema.optional(),
+    deltas: z.array(deltaSchema).min(1),
+    explain: z.boolean().optional(),
+    locale: z.enum(SUPPORTED_LOCALES as [Locale, ...Locale[]]).optional(),
+  })
+  .refine(({ userId, input }) => userId || input, { message: 'userId or input is required' });
+
+/**
+ * Simula cambios sobre una declaración: la indicada en input o, sin ella, la
+ * que sale de los documentos procesados del usuario. Devuelve el escenario
+ * actual, cada cambio por separado y todos juntos.
+ */
+export async function POST(request: Request): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json(
+      { error: 'INVALID_SIMULATION', message: 'Request body must be valid JSON' },
+      { status: 400 }
+    );
+  }
+  const parsed = requestSchema.safeParse(body);
+  if (!parsed.success) {
+    return Response.json(
+      { error: 'INVALID_SIMULATION', message: parsed.error.issues.map((issue) => issue.message).join('; ') },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { userId, deltas, explain, locale } = parsed.data;
+    let input = parsed.data.input ?? null;
+    if (!input && userId) {
+      const [documents, taxProfile] = await Promise.all([
+        profileBuilder.listDocuments(userId),
+        moduleStateService.getTaxProfile(userId),
+      ]);
+      input = taxReturnInputFromIncomeRecords(incomeRecordsFromDocuments(documents), taxProfile);
+    }
+    if (!input) {
+      return Response.json(
+        { error: 'NO_TAX_DATA', message: 'No W-2 or 1099 documents to build the tax return from' },
+        { status: 404 }
+      );
+    }
+
+    const scenarios = await new TaxOptimizationService().simulateScenarios(input, deltas, { explain, locale });
+    return Response.json({ input, scenarios });
+  } catch (error) {
+    return Response.json(
+      {
+        error: error instanceof AppError ? error.code : 'SIMULATION_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: error instanceof AppError ? error.status : 500 }
+    );
+  }
+}
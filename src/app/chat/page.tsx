@@ -1,13 +1,34 @@
 'use client';
-import { useState, useEffect, useRef } from 'react';
-import { ChatService } from '@/core-hub/chat/services/chat.service';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { ChatSession, ChatStreamEvent } from '@/core-hub/chat/interfaces/chat.types';
+import type {
+  ChatSessionSummary,
+  SessionExportFormat,
+} from '@/core-hub/chat/interfaces/session.types';
+import type {
+  ApprovalDecision,
+  PendingApproval,
+} from '@/core-hub/chat/interfaces/approval.types';
+import { parseSSE } from '@/shared/utils/sse';
+import { DEFAULT_LOCALE, Locale, normalizeLocale, t } from '@/shared/i18n/i18n';
+import ApprovalCard from '@/app/components/chat/ApprovalCard';
+import SessionList from '@/app/components/chat/SessionList';
+
+const USER_ID = 'test-user';
 
 export default function ChatPage() {
   const [messages, setMessages] = useState<Array<{ content: string; role: 'user' | 'assistant' }>>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [approvals, setApprovals] = useState<PendingApproval[]>([]);
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<ChatSessionSummary[]>([]);
+  // Conversación abierta; null hasta elegir una o hasta que el servidor cree la primera
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  // Idioma del navegador hasta que el servidor detecte el de la conversación
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const chatService = ChatService.getInstance();
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -15,84 +36,307 @@ export default function ChatPage() {
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, approvals]);
+
+  const loadApprovals = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/approvals?userId=${encodeURIComponent(USER_ID)}`);
+      if (response.ok) {
+        const data = (await response.json()) as { approvals: PendingApproval[] };
+        setApprovals(data.approvals);
+      }
+    } catch (error) {
+      console.error('Error loading approvals:', error);
+    }
+  }, []);
+
+  const loadSessions = useCallback(async (): Promise<ChatSessionSummary[]> => {
+    try {
+      const response = await fetch(`/api/sessions?userId=${encodeURIComponent(USER_ID)}`);
+      if (response.ok) {
+        const data = (await response.json()) as { sessions: ChatSessionSummary[] };
+        setSessions(data.sessions);
+        return data.sessions;
+      }
+    } catch (error) {
+      console.error('Error loading sessions:', error);
+    }
+    return [];
+  }, []);
+
+  const openSession = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/sessions/${id}?userId=${encodeURIComponent(USER_ID)}`);
+      if (!response.ok) {
+        await loadSessions();
+        return;
+      }
+      const { session } = (await response.json()) as { session: ChatSession };
+      setSessionId(session.id);
+      setMessages(session.messages.map(({ content, role }) => ({ content, role })));
+      if (session.locale) {
+        setLocale(session.locale);
+      }
+    } catch (error) {
+      console.error('Error opening session:', error);
+    }
+  }, [loadSessions]);
+
+  const handleNewSession = async () => {
+    const response = await fetch('/api/sessions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ userId: USER_ID }),
+    });
+    if (response.ok) {
+      const { session } = (await response.json()) as { session: ChatSession };
+      setSessionId(session.id);
+      setMessages([]);
+      await loadSessions();
+    }
+  };
+
+  const handleRenameSession = async (id: string, title: string) => {
+    await fetch(`/api/sessions/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ userId: USER_ID, title }),
+    });
+    await loadSessions();
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    await fetch(`/api/sessions/${id}?userId=${encodeURIComponent(USER_ID)}`, { method: 'DELETE' });
+    if (id === sessionId) {
+      setSessionId(null);
+      setMessages([]);
+    }
+    await loadSessions();
+  };
+
+  const handleImportSession = async (file: File) => {
+    try {
+      const response = await fetch('/api/sessions/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId: USER_ID, data: JSON.parse(await file.text()) }),
+      });
+      const data = (await response.json()) as { session?: ChatSession; message?: string };
+      if (!response.ok || !data.session) {
+        throw new Error(data.message ?? response.statusText);
+      }
+      await loadSessions();
+      await openSession(data.session.id);
+    } catch (error) {
+      window.alert(
+        t(locale, 'ui.sessions.importFailed', {
+          message: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  };
+
+  const exportHref = (id: string, format: SessionExportFormat) =>
+    `/api/sessions/${id}/export?userId=${encodeURIComponent(USER_ID)}&format=${format}&locale=${locale}`;
+
+  useEffect(() => {
+    setLocale(normalizeLocale(navigator.language));
+    loadApprovals();
+    // Retoma la última conversación
+    loadSessions().then(list => {
+      if (list.length > 0) {
+        openSession(list[0].id);
+      }
+    });
+  }, [loadApprovals, loadSessions, openSession]);
+
+  const handleDecision = async (id: string, decision: ApprovalDecision) => {
+    setDecidingId(id);
+    try {
+      const response = await fetch(`/api/approvals/${id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId: USER_ID, decision }),
+      });
+      const data = (await response.json()) as { approval?: PendingApproval; message?: string };
+      const summary = !response.ok
+        ? t(locale, 'ui.approval.decisionFailed', { message: data.message ?? '' })
+        : data.approval?.status === 'EXECUTED'
+          ? t(locale, 'ui.approval.executed')
+          : data.approval?.status === 'REJECTED'
+            ? t(locale, 'ui.approval.rejected')
+            : t(locale, 'ui.approval.failed', { error: data.approval?.error ?? '' });
+      setMessages(prev => [...prev, { content: summary, role: 'assistant' }]);
+    } finally {
+      setDecidingId(null);
+      await loadApprovals();
+    }
+  };
+
+  // Actualiza el último mensaje del asistente mientras llega el stream
+  const updateAssistantMessage = (update: (content: string) => string) => {
+    setMessages(prev => {
+      const last = prev[prev.length - 1];
+      if (!last || last.role !== 'assistant') return prev;
+      return [...prev.slice(0, -1), { ...last, content: update(last.content) }];
+    });
+  };
 
   const handleSubmit = async (message: string) => {
     if (!message.trim()) return;
 
-    setMessages(prev => [...prev, { content: message, role: 'user' }]);
+    setMessages(prev => [
+      ...prev,
+      { content: message, role: 'user' },
+      { content: '', role: 'assistant' },
+    ]);
     setInput('');
     setIsLoading(true);
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     try {
-      const response = await chatService.processMessage('test-user', message);
-      setMessages(prev => [...prev, { content: response.content, role: 'assistant' }]);
+      const response = await fetch('/api/chat/stream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId: USER_ID, message, sessionId: sessionId ?? undefined }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Stream request failed: ${response.status}`);
+      }
+
+      for await (const { data: event } of parseSSE<ChatStreamEvent>(response.body)) {
+        if (event.type === 'delta') {
+          updateAssistantMessage(content => content + event.text);
+        } else if (event.type === 'done') {
+          updateAssistantMessage(() => event.response.content);
+          if (event.response.locale) {
+            setLocale(event.response.locale);
+          }
+          if (event.response.sessionId) {
+            setSessionId(event.response.sessionId);
+            await loadSessions();
+          }
+          if (event.response.requiresUserApproval) {
+            await loadApprovals();
+          }
+        } else if (event.type === 'error') {
+          updateAssistantMessage(() => event.message || t(locale, 'ui.chat.error'));
+        }
+      }
     } catch (error) {
-      setMessages(prev => [...prev, { content: 'Error al procesar el mensaje', role: 'assistant' }]);
+      if (controller.signal.aborted) {
+        updateAssistantMessage(content => content || t(locale, 'ui.chat.cancelled'));
+      } else {
+        updateAssistantMessage(() => t(locale, 'ui.chat.error'));
+      }
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
   return (
-    <div className="flex flex-col h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
-      <div className="p-4 border-b border-slate-700/50 backdrop-blur-sm bg-slate-900/50">
-        <h1 className="text-2xl font-semibold text-white text-center">Andy AI Tax Assistant</h1>
-      </div>
-      <div className="flex-1 overflow-y-auto px-4 py-6 max-w-5xl mx-auto w-full">
-        <div className="space-y-6">
-          {messages.map((message, index) => (
-            <div
-              key={index}
-              className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
-            >
-              <div className={`max-w-[80%] p-4 rounded-2xl shadow-xl backdrop-blur-sm border
-                ${message.role === 'user' 
-                  ? 'bg-blue-600/40 text-white ml-auto border-blue-500/30 hover:bg-blue-600/50 transition-colors' 
-                  : 'bg-slate-700/40 text-slate-100 border-slate-600/30 hover:bg-slate-700/50 transition-colors'}`}
+    <div className="flex h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      <SessionList
+        sessions={sessions}
+        activeId={sessionId}
+        locale={locale}
+        disabled={isLoading}
+        onSelect={openSession}
+        onNew={handleNewSession}
+        onRename={handleRenameSession}
+        onDelete={handleDeleteSession}
+        onImport={handleImportSession}
+        exportHref={exportHref}
+      />
+      <div className="flex flex-col flex-1 min-w-0">
+        <div className="p-4 border-b border-slate-700/50 backdrop-blur-sm bg-slate-900/50">
+          <h1 className="text-2xl font-semibold text-white text-center">{t(locale, 'ui.chat.title')}</h1>
+        </div>
+        <div className="flex-1 overflow-y-auto px-4 py-6 max-w-5xl mx-auto w-full">
+          <div className="space-y-6">
+            {messages.map((message, index) => (
+              <div
+                key={index}
+                className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
               >
-                <p className="text-sm md:text-base leading-relaxed">
-                  {message.content}
-                </p>
+                <div className={`max-w-[80%] p-4 rounded-2xl shadow-xl backdrop-blur-sm border
+                  ${message.role === 'user' 
+                    ? 'bg-blue-600/40 text-white ml-auto border-blue-500/30 hover:bg-blue-600/50 transition-colors' 
+                    : 'bg-slate-700/40 text-slate-100 border-slate-600/30 hover:bg-slate-700/50 transition-colors'}`}
+                >
+                  <p className="text-sm md:text-base leading-relaxed">
+                    {message.content}
+                  </p>
+                </div>
               </div>
-            </div>
-          ))}
-          <div ref={messagesEndRef} />
+            ))}
+            {approvals.map(approval => (
+              <div key={approval.id} className="flex justify-start">
+                <ApprovalCard
+                  approval={approval}
+                  locale={locale}
+                  disabled={decidingId !== null}
+                  onDecide={handleDecision}
+                />
+              </div>
+            ))}
+            <div ref={messagesEndRef} />
+          </div>
         </div>
-      </div>
 
-      <div className="border-t border-slate-700/50 bg-slate-800/50 backdrop-blur-md">
-        <div className="max-w-5xl mx-auto px-4 py-6">
-          <form 
-            onSubmit={(e) => {
-              e.preventDefault();
-              handleSubmit(input);
-            }} 
-            className="flex gap-2"
-          >
-            <input
-              type="text"
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              placeholder="Escribe tu mensaje..."
-              className="flex-1 p-4 rounded-xl border border-slate-600/50 
-                        bg-slate-700/30 backdrop-blur-md text-white
-                        focus:ring-2 focus:ring-blue-500 focus:border-blue-500/50
-                        transition-all duration-200 placeholder-slate-400"
-              disabled={isLoading}
-            />
-            <button
-              type="submit"
-              className="px-8 py-4 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl 
-                       hover:from-blue-700 hover:to-blue-800 transition-all disabled:opacity-50
-                       shadow-lg hover:shadow-xl font-medium"
-              disabled={isLoading}
+        <div className="border-t border-slate-700/50 bg-slate-800/50 backdrop-blur-md">
+          <div className="max-w-5xl mx-auto px-4 py-6">
+            <form 
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleSubmit(input);
+              }} 
+              className="flex gap-2"
             >
-              {isLoading ? 'Enviando...' : 'Enviar'}
-            </button>
-          </form>
+              <input
+                type="text"
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                placeholder={t(locale, 'ui.chat.placeholder')}
+                className="flex-1 p-4 rounded-xl border border-slate-600/50 
+                          bg-slate-700/30 backdrop-blur-md text-white
+                          focus:ring-2 focus:ring-blue-500 focus:border-blue-500/50
+                          transition-all duration-200 placeholder-slate-400"
+                disabled={isLoading}
+              />
+              {isLoading ? (
+                <button
+                  type="button"
+                  onClick={handleCancel}
+                  className="px-8 py-4 bg-gradient-to-r from-slate-600 to-slate-700 text-white rounded-xl 
+                           hover:from-slate-700 hover:to-slate-800 transition-all
+                           shadow-lg hover:shadow-xl font-medium"
+                >
+                  {t(locale, 'ui.chat.cancel')}
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  className="px-8 py-4 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl 
+                           hover:from-blue-700 hover:to-blue-800 transition-all disabled:opacity-50
+                           shadow-lg hover:shadow-xl font-medium"
+                >
+                  {t(locale, 'ui.chat.send')}
+                </button>
+              )}
+            </form>
+          </div>
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,55 @@
+'use client';
+import type {
+  ApprovalDecision,
+  PendingApproval,
+} from '@/core-hub/chat/interfaces/approval.types';
+import { Locale, t } from '@/shared/i18n/i18n';
+
+interface ApprovalCardProps {
+  approval: PendingApproval;
+  locale: Locale;
+  disabled?: boolean;
+  onDecide: (id: string, decision: ApprovalDecision) => void;
+}
+
+export default function ApprovalCard({ approval, locale, disabled, onDecide }: ApprovalCardProps) {
+  const { action } = approval;
+  const expiresAt = new Date(approval.expiresAt).toLocaleString(locale);
+
+  return (
+    <div className="max-w-[80%] p-4 rounded-2xl shadow-xl backdrop-blur-sm border
+                    bg-amber-600/20 text-slate-100 border-amber-500/30">
+      <p className="text-xs uppercase tracking-wide text-amber-300">{t(locale, 'ui.approval.required')}</p>
+      <p className="mt-1 font-medium">
+        {action.type} · {action.action}
+      </p>
+      <p className="mt-2 text-sm text-slate-300">{approval.riskExplanation}</p>
+      <pre className="mt-2 text-xs text-slate-400 whitespace-pre-wrap">
+        {JSON.stringify(action.params, null, 2)}
+      </pre>
+      <p className="mt-2 text-xs text-slate-400">
+        {t(locale, 'ui.approval.expires', { date: expiresAt })}
+      </p>
+      <div className="mt-3 flex gap-2">
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => onDecide(approval.id, 'APPROVED')}
+          className="px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl
+                   hover:from-blue-700 hover:to-blue-800 transition-all disabled:opacity-50 text-sm"
+        >
+          {t(locale, 'ui.approval.approve')}
+        </button>
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => onDecide(approval.id, 'REJECTED')}
+          className="px-4 py-2 bg-gradient-to-r from-slate-600 to-slate-700 text-white rounded-xl
+                   hover:from-slate-700 hover:to-slate-800 transition-all disabled:opacity-50 text-sm"
+        >
+          {t(locale, 'ui.approval.reject')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+'use client';
+import { useRef, useState } from 'react';
+import type {
+  ChatSessionSummary,
+  SessionExportFormat,
+} from '@/core-hub/chat/interfaces/session.types';
+import { Locale, t } from '@/shared/i18n/i18n';
+
+interface SessionListProps {
+  sessions: ChatSessionSummary[];
+  activeId: string | null;
+  locale: Locale;
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  exportHref: (id: string, format: SessionExportFormat) => string;
+}
+
+const EXPORT_FORMATS: Array<{ format: SessionExportFormat; label: string }> = [
+  { format: 'markdown', label: 'MD' },
+  { format: 'json', label: 'JSON' },
+  { format: 'pdf', label: 'PDF' },
+];
+
+export default function SessionList({
+  sessions,
+  activeId,
+  locale,
+  disabled,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+  onImport,
+  exportHref,
+}: SessionListProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState('');
+
+  const titleOf = (session: ChatSessionSummary) =>
+    session.title || t(locale, 'ui.sessions.untitled');
+
+  const submitRename = (id: string) => {
+    if (draft.trim()) {
+      onRename(id, draft);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <aside className="w-64 shrink-0 border-r border-slate-700/50 bg-slate-900/60 flex flex-col">
+      <div className="p-4 flex items-center justify-between">
+        <h2 className="text-sm uppercase tracking-wide text-slate-400">{t(locale, 'ui.sessions.title')}</h2>
+        <div className="flex gap-1">
+          <button
+            type="button"
+            disabled={disabled}
+            onClick={() => fileInput.current?.click()}
+            className="px-2 py-1 text-sm text-slate-300 rounded-lg hover:bg-slate-800 disabled:opacity-50"
+          >
+            {t(locale, 'ui.sessions.import')}
+          </button>
+          <button
+            type="button"
+            disabled={disabled}
+            onClick={onNew}
+            className="px-3 py-1 text-sm bg-blue-600/60 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+          >
+            {t(locale, 'ui.sessions.new')}
+          </button>
+        </div>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) {
+              onImport(file);
+            }
+            e.target.value = '';
+          }}
+        />
+      </div>
+      <ul className="flex-1 overflow-y-auto px-2 space-y-1">
+        {sessions.length === 0 && (
+          <li className="px-2 text-sm text-slate-500">{t(locale, 'ui.sessions.empty')}</li>
+        )}
+        {sessions.map(session => (
+          <li
+            key={session.id}
+            className={`group rounded-lg px-2 py-2 text-sm text-slate-200
+              ${session.id === activeId ? 'bg-slate-700/60' : 'hover:bg-slate-800/60'}`}
+          >
+            {editingId === session.id ? (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  submitRename(session.id);
+                }}
+              >
+                <input
+                  autoFocus
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onBlur={() => submitRename(session.id)}
+                  className="w-full bg-slate-800 text-white rounded px-1"
+                />
+              </form>
+            ) : (
+              <div className="flex items-center gap-1">
+                <button
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => onSelect(session.id)}
+                  className="flex-1 text-left truncate disabled:opacity-50"
+                >
+                  {titleOf(session)}
+                </button>
+                <button
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => {
+                    setDraft(session.title);
+                    setEditingId(session.id);
+                  }}
+                  className="hidden group-hover:block text-xs text-slate-400 hover:text-white"
+                >
+                  {t(locale, 'ui.sessions.rename')}
+                </button>
+                <button
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => {
+                    if (window.confirm(t(locale, 'ui.sessions.confirmDelete', { title: titleOf(session) }))) {
+                      onDelete(session.id);
+                    }
+                  }}
+                  className="hidden group-hover:block text-xs text-red-400 hover:text-red-300"
+                >
+                  {t(locale, 'ui.sessions.delete')}
+                </button>
+              </div>
+            )}
+            {editingId !== session.id && (
+              <div className="hidden group-hover:flex items-center gap-2 pt-1 text-xs text-slate-400">
+                <span>{t(locale, 'ui.sessions.export')}:</span>
+                {EXPORT_FORMATS.map(({ format, label }) => (
+                  <a key={format} href={exportHref(session.id, format)} download className="hover:text-white">
+                    {label}
+                  </a>
+                ))}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+}
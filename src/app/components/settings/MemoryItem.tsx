@@ -0,0 +1,122 @@
+'use client';
+import { useState } from 'react';
+import type { FinancialMemory } from '@/core-hub/chat/interfaces/memory.types';
+import { Locale, t } from '@/shared/i18n/i18n';
+
+interface MemoryItemProps {
+  memory: FinancialMemory;
+  locale: Locale;
+  disabled?: boolean;
+  onEdit: (id: string, description: string) => void;
+  onTogglePin: (id: string, pinned: boolean) => void;
+  onForget: (id: string) => void;
+}
+
+export default function MemoryItem({
+  memory,
+  locale,
+  disabled,
+  onEdit,
+  onTogglePin,
+  onForget,
+}: MemoryItemProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(memory.description);
+
+  const details = [
+    new Date(memory.timestamp).toLocaleDateString(locale),
+    memory.consolidatedFrom
+      ? t(locale, 'ui.memories.consolidated', { count: memory.consolidatedFrom })
+      : (memory.mentions ?? 1) > 1
+        ? t(locale, 'ui.memories.mentions', { count: memory.mentions ?? 1 })
+        : null,
+  ].filter(Boolean);
+
+  return (
+    <li
+      className={`p-4 rounded-2xl border backdrop-blur-sm text-slate-100
+        ${memory.pinned ? 'bg-blue-600/20 border-blue-500/30' : 'bg-slate-700/40 border-slate-600/30'}`}
+    >
+      <div className="flex items-center gap-2 text-xs uppercase tracking-wide text-slate-400">
+        <span>{memory.type}</span>
+        {memory.category && <span>· {memory.category}</span>}
+        {memory.pinned && <span className="text-blue-300">· {t(locale, 'ui.memories.pinned')}</span>}
+      </div>
+      {editing ? (
+        <form
+          className="mt-2 space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (draft.trim()) {
+              onEdit(memory.id, draft);
+            }
+            setEditing(false);
+          }}
+        >
+          <textarea
+            autoFocus
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={3}
+            className="w-full bg-slate-800 text-white rounded-lg p-2 text-sm"
+          />
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={disabled}
+              className="px-3 py-1 text-sm bg-blue-600/60 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+            >
+              {t(locale, 'ui.memories.save')}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setDraft(memory.description);
+                setEditing(false);
+              }}
+              className="px-3 py-1 text-sm text-slate-300 rounded-lg hover:bg-slate-800"
+            >
+              {t(locale, 'ui.memories.cancel')}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <p className="mt-2 text-sm leading-relaxed">{memory.description}</p>
+      )}
+      <div className="mt-3 flex items-center gap-3 text-xs text-slate-400">
+        <span className="flex-1">{details.join(' · ')}</span>
+        <button
+          type="button"
+          disabled={disabled || editing}
+          onClick={() => {
+            setDraft(memory.description);
+            setEditing(true);
+          }}
+          className="hover:text-white disabled:opacity-50"
+        >
+          {t(locale, 'ui.memories.edit')}
+        </button>
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => onTogglePin(memory.id, !memory.pinned)}
+          className="hover:text-white disabled:opacity-50"
+        >
+          {t(locale, memory.pinned ? 'ui.memories.unpin' : 'ui.memories.pin')}
+        </button>
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => {
+            if (window.confirm(t(locale, 'ui.memories.confirmForget'))) {
+              onForget(memory.id);
+            }
+          }}
+          className="text-red-400 hover:text-red-300 disabled:opacity-50"
+        >
+          {t(locale, 'ui.memories.forget')}
+        </button>
+      </div>
+    </li>
+  );
+}
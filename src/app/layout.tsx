@@ -26,6 +26,7 @@ export default function RootLayout({
               <div className="hidden sm:flex gap-4">
                 <a href="/documents" className="hover:underline text-gray-900">Documents</a>
                 <a href="/tax" className="hover:underline text-gray-900">Tax Advisor</a>
+                <a href="/settings/memories" className="hover:underline text-gray-900">Memories</a>
               </div>
             </div>
           </div>
@@ -0,0 +1,88 @@
+'use client';
+import { useState, useEffect } from 'react';
+import type { FinancialMemory, MemoryUpdate } from '@/core-hub/chat/interfaces/memory.types';
+import { DEFAULT_LOCALE, Locale, normalizeLocale, t } from '@/shared/i18n/i18n';
+import MemoryItem from '@/app/components/settings/MemoryItem';
+
+const USER_ID = 'test-user';
+
+export default function MemorySettingsPage() {
+  const [memories, setMemories] = useState<FinancialMemory[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE);
+
+  const loadMemories = async () => {
+    try {
+      const response = await fetch(`/api/memories?userId=${encodeURIComponent(USER_ID)}`);
+      if (response.ok) {
+        const data = (await response.json()) as { memories: FinancialMemory[] };
+        setMemories(data.memories);
+      }
+    } catch (error) {
+      console.error('Error loading memories:', error);
+    } finally {
+      setLoaded(true);
+    }
+  };
+
+  useEffect(() => {
+    setLocale(normalizeLocale(navigator.language));
+    loadMemories();
+  }, []);
+
+  const updateMemory = async (id: string, updates: MemoryUpdate) => {
+    setBusyId(id);
+    try {
+      const response = await fetch(`/api/memories/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId: USER_ID, ...updates }),
+      });
+      if (!response.ok) {
+        const data = (await response.json()) as { message?: string };
+        window.alert(t(locale, 'ui.memories.updateFailed', { message: data.message ?? '' }));
+      }
+    } finally {
+      setBusyId(null);
+      await loadMemories();
+    }
+  };
+
+  const handleForget = async (id: string) => {
+    setBusyId(id);
+    try {
+      await fetch(`/api/memories/${id}?userId=${encodeURIComponent(USER_ID)}`, {
+        method: 'DELETE',
+      });
+    } finally {
+      setBusyId(null);
+      await loadMemories();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 pt-24 pb-12">
+      <div className="max-w-3xl mx-auto px-4">
+        <h1 className="text-2xl font-semibold text-white">{t(locale, 'ui.memories.title')}</h1>
+        <p className="mt-2 text-sm text-slate-400">{t(locale, 'ui.memories.intro')}</p>
+        <ul className="mt-6 space-y-3">
+          {loaded && memories.length === 0 && (
+            <li className="text-sm text-slate-500">{t(locale, 'ui.memories.empty')}</li>
+          )}
+          {memories.map(memory => (
+            <MemoryItem
+              key={memory.id}
+              memory={memory}
+              locale={locale}
+              disabled={busyId !== null}
+              onEdit={(id, description) => updateMemory(id, { description })}
+              onTogglePin={(id, pinned) => updateMemory(id, { pinned })}
+              onForget={handleForget}
+            />
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
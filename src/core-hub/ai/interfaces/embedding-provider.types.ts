@@ -0,0 +1,11 @@
+// src/core-hub/ai/interfaces/embedding-provider.types.ts
+
+export type EmbeddingProviderName = 'local' | 'openai';
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  // Identifica el espacio vectorial: vectores de modelos distintos no son comparables
+  readonly model: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
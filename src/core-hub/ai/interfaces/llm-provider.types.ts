@@ -0,0 +1,70 @@
+// src/core-hub/ai/interfaces/llm-provider.types.ts
+
+export type LLMProviderName = 'anthropic' | 'openai' | 'fixture';
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  // Llamadas emitidas por el asistente en este turno
+  toolCalls?: LLMToolCall[];
+  // Resultados devueltos al modelo en un turno de usuario
+  toolResults?: LLMToolResult[];
+}
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  // JSON Schema del input que acepta la herramienta
+  inputSchema: Record<string, unknown>;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  input: unknown;
+}
+
+export interface LLMToolResult {
+  toolCallId: string;
+  content: string;
+  isError?: boolean;
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+  system?: string;
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  tools?: LLMToolDefinition[];
+}
+
+export interface LLMCompletionResponse {
+  text: string;
+  provider: LLMProviderName;
+  model: string;
+  stopReason?: string;
+  toolCalls?: LLMToolCall[];
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+  };
+}
+
+export type LLMStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; response: LLMCompletionResponse };
+
+export interface LLMStreamOptions {
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly defaultModel: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse>;
+  stream(
+    request: LLMCompletionRequest,
+    options?: LLMStreamOptions
+  ): AsyncIterable<LLMStreamEvent>;
+}
@@ -0,0 +1,180 @@
+import { Anthropic } from '@anthropic-ai/sdk';
+import {
+  LLMCompletionRequest,
+  LLMCompletionResponse,
+  LLMMessage,
+  LLMProvider,
+  LLMStreamEvent,
+  LLMToolCall,
+  LLMStreamOptions,
+} from '../interfaces/llm-provider.types';
+import { parseToolInput } from '../utils/parse-tool-input';
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  readonly defaultModel: string;
+  private client: Anthropic | null = null;
+  private readonly DEFAULT_MAX_TOKENS = 4096;
+
+  constructor(
+    private readonly options: { apiKey?: string; model?: string } = {}
+  ) {
+    this.defaultModel = options.model || 'claude-3-opus-20240229';
+  }
+
+  // El cliente se crea bajo demanda para no exigir la API key al importar
+  private getClient(): Anthropic {
+    if (!this.client) {
+      this.client = new Anthropic({
+        apiKey: this.options.apiKey ?? process.env.ANTHROPIC_API_KEY,
+      });
+    }
+    return this.client;
+  }
+
+  async complete(
+    request: LLMCompletionRequest
+  ): Promise<LLMCompletionResponse> {
+    const model = request.model || this.defaultModel;
+    const response = await this.getClient().messages.create(
+      this.buildParams(request, model)
+    );
+
+    const blocks = response.content || [];
+    const text = blocks
+      .map((block) => ('text' in block ? block.text : ''))
+      .join('');
+    const toolCalls: LLMToolCall[] = blocks.flatMap((block) =>
+      block.type === 'tool_use'
+        ? [{ id: block.id, name: block.name, input: block.input }]
+        : []
+    );
+
+    return {
+      text,
+      provider: this.name,
+      model: response.model || model,
+      stopReason: response.stop_reason ?? undefined,
+      ...(toolCalls.length > 0 && { toolCalls }),
+      usage: response.usage && {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      },
+    };
+  }
+
+  async *stream(
+    request: LLMCompletionRequest,
+    options: LLMStreamOptions = {}
+  ): AsyncIterable<LLMStreamEvent> {
+    const model = request.model || this.defaultModel;
+    const events = await this.getClient().messages.create(
+      { ...this.buildParams(request, model), stream: true },
+      { signal: options.signal }
+    );
+
+    let text = '';
+    let stopReason: string | undefined;
+    let inputTokens = 0;
+    let outputTokens = 0;
+    // Los argumentos de cada tool_use llegan como JSON parcial por bloque
+    const pendingTools = new Map<
+      number,
+      { id: string; name: string; json: string }
+    >();
+
+    for await (const event of events) {
+      if (event.type === 'content_block_delta') {
+        if (event.delta.type === 'text_delta') {
+          text += event.delta.text;
+          yield { type: 'delta', text: event.delta.text };
+        } else {
+          const pending = pendingTools.get(event.index);
+          if (pending) {
+            pending.json += event.delta.partial_json;
+          }
+        }
+      } else if (
+        event.type === 'content_block_start' &&
+        event.content_block.type === 'tool_use'
+      ) {
+        pendingTools.set(event.index, {
+          id: event.content_block.id,
+          name: event.content_block.name,
+          json: '',
+        });
+      } else if (event.type === 'message_start') {
+        inputTokens = event.message.usage.input_tokens;
+      } else if (event.type === 'message_delta') {
+        stopReason = event.delta.stop_reason ?? undefined;
+        outputTokens = event.usage.output_tokens;
+      }
+    }
+
+    const toolCalls: LLMToolCall[] = Array.from(pendingTools.values()).map(
+      (tool) => ({
+        id: tool.id,
+        name: tool.name,
+        input: parseToolInput(tool.json || '{}'),
+      })
+    );
+
+    yield {
+      type: 'done',
+      response: {
+        text,
+        provider: this.name,
+        model,
+        stopReason,
+        ...(toolCalls.length > 0 && { toolCalls }),
+        usage: { inputTokens, outputTokens },
+      },
+    };
+  }
+
+  private buildParams(request: LLMCompletionRequest, model: string) {
+    return {
+      model,
+      max_tokens: request.maxTokens ?? this.DEFAULT_MAX_TOKENS,
+      ...(request.temperature !== undefined && {
+        temperature: request.temperature,
+      }),
+      ...(request.system && { system: request.system }),
+      ...(request.tools?.length && {
+        tools: request.tools.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.inputSchema as Anthropic.Tool.InputSchema,
+        })),
+      }),
+      messages: request.messages.map((message) => this.toMessageParam(message)),
+    };
+  }
+
+  // Los tool_use y tool_result viajan como bloques de contenido
+  private toMessageParam(message: LLMMessage): Anthropic.MessageParam {
+    if (!message.toolCalls?.length && !message.toolResults?.length) {
+      return { role: message.role, content: message.content };
+    }
+
+    const content: Anthropic.ContentBlockParam[] = [
+      ...(message.toolResults || []).map((result) => ({
+        type: 'tool_result' as const,
+        tool_use_id: result.toolCallId,
+        content: result.content,
+        ...(result.isError && { is_error: true }),
+      })),
+      ...(message.content
+        ? [{ type: 'text' as const, text: message.content }]
+        : []),
+      ...(message.toolCalls || []).map((call) => ({
+        type: 'tool_use' as const,
+        id: call.id,
+        name: call.name,
+        input: call.input,
+      })),
+    ];
+
+    return { role: message.role, content };
+  }
+}
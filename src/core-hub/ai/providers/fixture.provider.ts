@@ -0,0 +1,134 @@
+import { readFileSync } from 'fs';
+import {
+  LLMCompletionRequest,
+  LLMCompletionResponse,
+  LLMProvider,
+  LLMStreamEvent,
+  LLMToolCall,
+  LLMStreamOptions,
+} from '../interfaces/llm-provider.types';
+
+export interface LLMFixture {
+  // Texto o expresión regular que se compara con el último mensaje del usuario
+  // (incluidos los resultados de herramientas que contenga)
+  match: string | RegExp;
+  response: string;
+  toolCalls?: LLMToolCall[];
+  // Si se indica, la fixture solo se usa una vez (útil para secuencias)
+  once?: boolean;
+}
+
+interface SerializedFixture {
+  match: string;
+  regex?: boolean;
+  response: string;
+  toolCalls?: LLMToolCall[];
+  once?: boolean;
+}
+
+/**
+ * Proveedor determinista que reproduce respuestas grabadas.
+ * Permite ejecutar todo el stack sin red (tests, demos, desarrollo offline).
+ */
+export class FixtureProvider implements LLMProvider {
+  readonly name = 'fixture' as const;
+  readonly defaultModel = 'fixture';
+  readonly calls: LLMCompletionRequest[] = [];
+  private fixtures: LLMFixture[];
+  private readonly fallback: string;
+
+  constructor(fixtures: LLMFixture[] = [], fallback = '') {
+    this.fixtures = [...fixtures];
+    this.fallback = fallback;
+  }
+
+  static fromFile(filePath: string): FixtureProvider {
+    const raw = JSON.parse(readFileSync(filePath, 'utf8')) as {
+      fixtures: SerializedFixture[];
+      fallback?: string;
+    };
+
+    return new FixtureProvider(
+      raw.fixtures.map((fixture) => ({
+        match: fixture.regex ? new RegExp(fixture.match, 'i') : fixture.match,
+        response: fixture.response,
+        toolCalls: fixture.toolCalls,
+        once: fixture.once,
+      })),
+      raw.fallback
+    );
+  }
+
+  record(fixture: LLMFixture): this {
+    this.fixtures.push(fixture);
+    return this;
+  }
+
+  async complete(
+    request: LLMCompletionRequest
+  ): Promise<LLMCompletionResponse> {
+    this.calls.push(request);
+    const prompt = this.getLastUserMessage(request);
+    const index = this.fixtures.findIndex((fixture) =>
+      typeof fixture.match === 'string'
+        ? prompt.includes(fixture.match)
+        : fixture.match.test(prompt)
+    );
+
+    let text = this.fallback;
+    let toolCalls: LLMToolCall[] | undefined;
+    if (index !== -1) {
+      text = this.fixtures[index].response;
+      toolCalls = this.fixtures[index].toolCalls;
+      if (this.fixtures[index].once) {
+        this.fixtures.splice(index, 1);
+      }
+    }
+
+    return {
+      text,
+      provider: this.name,
+      model: request.model || this.defaultModel,
+      stopReason: toolCalls?.length ? 'tool_use' : 'end_turn',
+      ...(toolCalls?.length && { toolCalls }),
+      usage: {
+        inputTokens: Math.ceil(prompt.length / 4),
+        outputTokens: Math.ceil(text.length / 4),
+      },
+    };
+  }
+
+  // Reproduce la respuesta palabra a palabra para simular un stream real
+  async *stream(
+    request: LLMCompletionRequest,
+    options: LLMStreamOptions = {}
+  ): AsyncIterable<LLMStreamEvent> {
+    const response = await this.complete(request);
+    const chunks = response.text.match(/\S+\s*|\s+/g) || [];
+
+    for (const chunk of chunks) {
+      if (options.signal?.aborted) {
+        return;
+      }
+      yield { type: 'delta', text: chunk };
+    }
+
+    yield { type: 'done', response };
+  }
+
+  private getLastUserMessage(request: LLMCompletionRequest): string {
+    const userMessages = request.messages.filter(
+      (message) => message.role === 'user'
+    );
+    const last = userMessages[userMessages.length - 1];
+    if (!last) {
+      return '';
+    }
+    return [
+      ...(last.toolResults || []).map((result) => result.content),
+      last.content,
+    ]
+      .filter(Boolean)
+      .join('\n');
+  }
+}
@@ -0,0 +1,78 @@
+// src/core-hub/ai/providers/hashing.embedder.ts
+
+import { EmbeddingProvider } from '../interfaces/embedding-provider.types';
+import { normalizeVector } from '../utils/vector';
+
+// Palabras vacías (en/es) que no aportan significado a la similitud
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'i', 'in',
+  'is', 'it', 'its', 'my', 'of', 'on', 'or', 'our', 'that', 'the', 'their', 'this', 'to',
+  'was', 'we', 'with', 'you', 'your', 'al', 'con', 'de', 'del', 'el', 'en', 'es', 'la',
+  'las', 'lo', 'los', 'mi', 'mis', 'para', 'por', 'que', 'se', 'su', 'sus', 'un', 'una',
+  'y', 'yo',
+]);
+
+// Peso de los trigramas de caracteres frente a la palabra completa
+const TRIGRAM_WEIGHT = 0.3;
+
+function tokenize(text: string): string[] {
+  return (
+    text
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .match(/[\p{L}\p{N}]+/gu) || []
+  ).filter((token) => !STOPWORDS.has(token));
+}
+
+// FNV-1a de 32 bits: estable entre procesos, a diferencia de un hash aleatorio
+function hash(feature: string): number {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    value ^= feature.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+/**
+ * Embedder local y determinista (sin red): palabras y trigramas de caracteres
+ * proyectados con el truco del hashing, TF sublineal y normalización L2.
+ * Captura solapamiento léxico y variantes morfológicas, no sinónimos.
+ */
+export class HashingEmbedder implements EmbeddingProvider {
+  readonly name = 'local' as const;
+  readonly model: string;
+
+  constructor(readonly dimensions: number = 512) {
+    this.model = `hashing-v1-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.vectorize(text));
+  }
+
+  private vectorize(text: string): number[] {
+    const counts = new Map<string, number>();
+    const add = (feature: string) => counts.set(feature, (counts.get(feature) || 0) + 1);
+
+    for (const token of tokenize(text)) {
+      add(`w:${token}`);
+      const padded = `#${token}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`c:${padded.slice(i, i + 3)}`);
+      }
+    }
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    counts.forEach((count, feature) => {
+      const value = hash(feature);
+      // El bit alto decide el signo: las colisiones tienden a cancelarse
+      const sign = value & 0x80000000 ? -1 : 1;
+      // TF sublineal sobre la cuenta en bruto; el peso se aplica después
+      const weight = feature.startsWith('c:') ? TRIGRAM_WEIGHT : 1;
+      vector[value % this.dimensions] += sign * weight * (1 + Math.log(count));
+    });
+    return normalizeVector(vector);
+  }
+}
@@ -0,0 +1,44 @@
+// src/core-hub/ai/providers/openai.embedder.ts
+
+import { OpenAI } from 'openai';
+import { EmbeddingProvider } from '../interfaces/embedding-provider.types';
+
+const MODEL_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+};
+
+export class OpenAIEmbedder implements EmbeddingProvider {
+  readonly name = 'openai' as const;
+  readonly model: string;
+  readonly dimensions: number;
+  private client: OpenAI | null = null;
+
+  constructor(private readonly options: { apiKey?: string; model?: string } = {}) {
+    this.model = options.model || 'text-embedding-3-small';
+    this.dimensions = MODEL_DIMENSIONS[this.model] ?? 1536;
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: this.options.apiKey ?? process.env.OPENAI_API_KEY,
+      });
+    }
+    return this.client;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+    const response = await this.getClient().embeddings.create({
+      model: this.model,
+      input: texts,
+    });
+    return [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
+}
@@ -0,0 +1,197 @@
+import { OpenAI } from 'openai';
+import {
+  LLMCompletionRequest,
+  LLMCompletionResponse,
+  LLMMessage,
+  LLMProvider,
+  LLMStreamEvent,
+  LLMToolCall,
+  LLMStreamOptions,
+} from '../interfaces/llm-provider.types';
+import { parseToolInput } from '../utils/parse-tool-input';
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  readonly defaultModel: string;
+  private client: OpenAI | null = null;
+
+  constructor(
+    private readonly options: { apiKey?: string; model?: string } = {}
+  ) {
+    this.defaultModel = options.model || 'gpt-4-turbo-preview';
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: this.options.apiKey ?? process.env.OPENAI_API_KEY,
+      });
+    }
+    return this.client;
+  }
+
+  async complete(
+    request: LLMCompletionRequest
+  ): Promise<LLMCompletionResponse> {
+    const model = request.model || this.defaultModel;
+    const response = await this.getClient().chat.completions.create(
+      this.buildParams(request, model)
+    );
+
+    const choice = response.choices[0];
+    const toolCalls: LLMToolCall[] = (choice?.message?.tool_calls || []).map(
+      (call) => ({
+        id: call.id,
+        name: call.function.name,
+        input: parseToolInput(call.function.arguments || '{}'),
+      })
+    );
+
+    return {
+      text: choice?.message?.content || '',
+      provider: this.name,
+      model: response.model || model,
+      stopReason: choice?.finish_reason ?? undefined,
+      ...(toolCalls.length > 0 && { toolCalls }),
+      usage: response.usage && {
+        inputTokens: response.usage.prompt_tokens,
+        outputTokens: response.usage.completion_tokens,
+      },
+    };
+  }
+
+  async *stream(
+    request: LLMCompletionRequest,
+    options: LLMStreamOptions = {}
+  ): AsyncIterable<LLMStreamEvent> {
+    const model = request.model || this.defaultModel;
+    const chunks = await this.getClient().chat.completions.create(
+      {
+        ...this.buildParams(request, model),
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      { signal: options.signal }
+    );
+
+    let text = '';
+    let stopReason: string | undefined;
+    let usage: LLMCompletionResponse['usage'];
+    const pendingTools = new Map<
+      number,
+      { id: string; name: string; json: string }
+    >();
+
+    for await (const chunk of chunks) {
+      const choice = chunk.choices[0];
+      const delta = choice?.delta?.content;
+      if (delta) {
+        text += delta;
+        yield { type: 'delta', text: delta };
+      }
+      for (const call of choice?.delta?.tool_calls || []) {
+        const pending = pendingTools.get(call.index) || {
+          id: '',
+          name: '',
+          json: '',
+        };
+        pending.id = call.id || pending.id;
+        pending.name = call.function?.name || pending.name;
+        pending.json += call.function?.arguments || '';
+        pendingTools.set(call.index, pending);
+      }
+      if (choice?.finish_reason) {
+        stopReason = choice.finish_reason;
+      }
+      if (chunk.usage) {
+        usage = {
+          inputTokens: chunk.usage.prompt_tokens,
+          outputTokens: chunk.usage.completion_tokens,
+        };
+      }
+    }
+
+    const toolCalls: LLMToolCall[] = Array.from(pendingTools.values()).map(
+      (tool) => ({
+        id: tool.id,
+        name: tool.name,
+        input: parseToolInput(tool.json || '{}'),
+      })
+    );
+
+    yield {
+      type: 'done',
+      response: {
+        text,
+        provider: this.name,
+        model,
+        stopReason,
+        ...(toolCalls.length > 0 && { toolCalls }),
+        usage,
+      },
+    };
+  }
+
+  private buildParams(request: LLMCompletionRequest, model: string) {
+    return {
+      model,
+      ...(request.maxTokens !== undefined && {
+        max_tokens: request.maxTokens,
+      }),
+      ...(request.temperature !== undefined && {
+        temperature: request.temperature,
+      }),
+      ...(request.tools?.length && {
+        tools: request.tools.map((tool) => ({
+          type: 'function' as const,
+          function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.inputSchema,
+          },
+        })),
+      }),
+      messages: [
+        ...(request.system
+          ? [{ role: 'system' as const, content: request.system }]
+          : []),
+        ...request.messages.flatMap((message) => this.toMessageParams(message)),
+      ],
+    };
+  }
+
+  // OpenAI espera un mensaje 'tool' por cada resultado
+  private toMessageParams(
+    message: LLMMessage
+  ): OpenAI.ChatCompletionMessageParam[] {
+    if (message.role === 'assistant') {
+      return [
+        {
+          role: 'assistant',
+          content: message.content || null,
+          ...(message.toolCalls?.length && {
+            tool_calls: message.toolCalls.map((call) => ({
+              id: call.id,
+              type: 'function' as const,
+              function: {
+                name: call.name,
+                arguments: JSON.stringify(call.input ?? {}),
+              },
+            })),
+          }),
+        },
+      ];
+    }
+
+    return [
+      ...(message.toolResults || []).map((result) => ({
+        role: 'tool' as const,
+        tool_call_id: result.toolCallId,
+        content: result.content,
+      })),
+      ...(message.content || !message.toolResults?.length
+        ? [{ role: 'user' as const, content: message.content }]
+        : []),
+    ];
+  }
+}
@@ -5,19 +5,25 @@ import { PredictiveHubService } from '../predictive-hub.service';
 vi.mock('@anthropic-ai/sdk', () => ({
   Anthropic: vi.fn().mockImplementation(() => ({
     messages: {
-      create: vi.fn().mockResolvedValue({
-        content: [{ 
-          text: JSON.stringify([
-            {
-              type: 'FINANCIAL',
-              severity: 'LOW',
-              probability: 0.2,
-              impact: 0.3,
-              description: 'Mock risk'
-            }
-          ]),
-          role: 'assistant' 
-        }],
+      create: vi.fn().mockImplementation(async (request: { messages: Array<{ content: string }> }) => {
+        const risks = [
+          {
+            type: 'FINANCIAL',
+            severity: 'LOW',
+            probability: 0.2,
+            impact: 0.3,
+            description: 'Mock risk'
+          }
+        ];
+        const prompt = request.messages[request.messages.length - 1].content;
+        return {
+          content: [{
+            text: prompt.includes('optimization strategies')
+              ? JSON.stringify({ confidence: 0.7, predictions: [], risks, recommendations: ['Mock'] })
+              : JSON.stringify(risks),
+            role: 'assistant'
+          }],
+        };
       }),
     },
   })),
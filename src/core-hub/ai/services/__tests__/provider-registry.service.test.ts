@@ -0,0 +1,78 @@
+import { describe, beforeEach, afterEach, it, expect } from 'vitest';
+import { ProviderRegistry } from '../provider-registry.service';
+import { FixtureProvider } from '../../providers/fixture.provider';
+
+describe('ProviderRegistry', () => {
+  let registry: ProviderRegistry;
+  const originalProvider = process.env.LLM_PROVIDER;
+
+  beforeEach(() => {
+    registry = ProviderRegistry.getInstance();
+    delete process.env.LLM_PROVIDER;
+  });
+
+  afterEach(() => {
+    if (originalProvider === undefined) {
+      delete process.env.LLM_PROVIDER;
+    } else {
+      process.env.LLM_PROVIDER = originalProvider;
+    }
+    registry.register(new FixtureProvider());
+  });
+
+  it('should resolve the preferred provider by default', () => {
+    expect(registry.resolve('openai').name).toBe('openai');
+    expect(registry.resolve().name).toBe('anthropic');
+  });
+
+  it('should let the environment force a provider', () => {
+    process.env.LLM_PROVIDER = 'fixture';
+    expect(registry.resolve('anthropic').name).toBe('fixture');
+    expect(registry.resolve('openai').name).toBe('fixture');
+  });
+
+  it('should reject unknown providers', () => {
+    process.env.LLM_PROVIDER = 'unknown';
+    expect(() => registry.resolve()).toThrow('Unknown LLM_PROVIDER value');
+  });
+
+  it('should return registered providers', () => {
+    const fixture = new FixtureProvider([], 'offline');
+    registry.register(fixture);
+    expect(registry.get('fixture')).toBe(fixture);
+  });
+});
+
+describe('FixtureProvider', () => {
+  it('should replay the first matching fixture', async () => {
+    const provider = new FixtureProvider([
+      { match: 'deductions', response: 'Deductions answer' },
+      { match: /w-?2/i, response: 'W2 answer' },
+    ]);
+
+    const response = await provider.complete({
+      messages: [{ role: 'user', content: 'Review my W2 please' }],
+    });
+
+    expect(response.text).toBe('W2 answer');
+    expect(response.provider).toBe('fixture');
+    expect(provider.calls).toHaveLength(1);
+  });
+
+  it('should consume one-shot fixtures in order', async () => {
+    const provider = new FixtureProvider(
+      [
+        { match: 'step', response: 'first', once: true },
+        { match: 'step', response: 'second', once: true },
+      ],
+      'done'
+    );
+    const request = {
+      messages: [{ role: 'user' as const, content: 'next step' }],
+    };
+
+    expect((await provider.complete(request)).text).toBe('first');
+    expect((await provider.complete(request)).text).toBe('second');
+    expect((await provider.complete(request)).text).toBe('done');
+  });
+});
@@ -0,0 +1,58 @@
+import { AppError } from '@/shared/utils/error-handler';
+import {
+  EmbeddingProvider,
+  EmbeddingProviderName,
+} from '../interfaces/embedding-provider.types';
+import { HashingEmbedder } from '../providers/hashing.embedder';
+import { OpenAIEmbedder } from '../providers/openai.embedder';
+
+const EMBEDDING_PROVIDER_NAMES: EmbeddingProviderName[] = ['local', 'openai'];
+
+export class EmbeddingRegistry {
+  private static instance: EmbeddingRegistry;
+  private providers: Map<EmbeddingProviderName, EmbeddingProvider> = new Map();
+
+  private constructor() {
+    this.providers.set('local', new HashingEmbedder());
+    this.providers.set(
+      'openai',
+      new OpenAIEmbedder({ model: process.env.OPENAI_EMBEDDING_MODEL })
+    );
+  }
+
+  static getInstance(): EmbeddingRegistry {
+    if (!EmbeddingRegistry.instance) {
+      EmbeddingRegistry.instance = new EmbeddingRegistry();
+    }
+    return EmbeddingRegistry.instance;
+  }
+
+  register(provider: EmbeddingProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  get(name: EmbeddingProviderName): EmbeddingProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new AppError(
+        'PROVIDER_NOT_FOUND',
+        `Embedding provider not registered: ${name}`
+      );
+    }
+    return provider;
+  }
+
+  // EMBEDDING_PROVIDER elige el proveedor; por defecto el local, que no necesita red
+  resolve(preferred: EmbeddingProviderName = 'local'): EmbeddingProvider {
+    const override = process.env.EMBEDDING_PROVIDER as EmbeddingProviderName | undefined;
+    if (override && !EMBEDDING_PROVIDER_NAMES.includes(override)) {
+      throw new AppError(
+        'INVALID_PROVIDER',
+        `Unknown EMBEDDING_PROVIDER value: ${override}`
+      );
+    }
+    return this.get(override || preferred);
+  }
+}
+
+export const embeddingRegistry = EmbeddingRegistry.getInstance();
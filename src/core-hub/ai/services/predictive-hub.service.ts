@@ -1,36 +1,40 @@
 
-import { Anthropic } from '@anthropic-ai/sdk';
+import { z } from 'zod';
+import { LLMProvider } from '../interfaces/llm-provider.types';
+import { providerRegistry } from './provider-registry.service';
+import { completeStructured } from '../utils/structured-output';
 import { firebaseApp } from '@/shared/config/firebase.config';
 import { getFirestore } from 'firebase/firestore';
 import { logger } from '@/shared/utils/logger';
 import { RateLimiter } from '@/shared/utils/rate-limiter';
 
-interface PredictionResult {
-  confidence: number;
-  predictions: any[];
-  risks: Risk[];
-  recommendations: string[];
-  timestamp: number;
-}
+const riskSchema = z.object({
+  type: z.enum(['FINANCIAL', 'CREDIT', 'TAX', 'MARKET']),
+  severity: z.enum(['LOW', 'MEDIUM', 'HIGH']),
+  probability: z.number().min(0).max(1),
+  impact: z.number(),
+  description: z.string(),
+});
+
+const predictionSchema = z.object({
+  confidence: z.number().min(0).max(1),
+  predictions: z.array(z.unknown()),
+  risks: z.array(riskSchema),
+  recommendations: z.array(z.string()),
+});
 
-interface Risk {
-  type: 'FINANCIAL' | 'CREDIT' | 'TAX' | 'MARKET';
-  severity: 'LOW' | 'MEDIUM' | 'HIGH';
-  probability: number;
-  impact: number;
-  description: string;
+type Risk = z.infer<typeof riskSchema>;
+
+interface PredictionResult extends z.infer<typeof predictionSchema> {
+  timestamp: number;
 }
 
 export class PredictiveHubService {
   private static instance: PredictiveHubService;
-  private anthropic: Anthropic;
   private db = getFirestore(firebaseApp);
   private rateLimiter: RateLimiter;
 
-  private constructor() {
-    this.anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY as string
-    });
+  private constructor(private llm: LLMProvider = providerRegistry.resolve()) {
     this.rateLimiter = new RateLimiter({ 
       maxRequests: 50,  // Ajusta según tus necesidades
       perMinute: 1 
@@ -51,17 +55,10 @@ export class PredictiveHubService {
       const userData = await this.collectUserData(userId);
       const marketData = await this.getMarketData();
       
-      const analysis = await retry(
-        async () => await this.anthropic.messages.create({
-          model: 'claude-3-opus-20240229',
-          messages: [{
-            role: 'user',
-            content: `Generate a detailed financial forecast for the next ${timeframe} months based on this data: ${JSON.stringify(userData)} and market conditions: ${JSON.stringify(marketData)}`
-          }]
-        })
+      return await this.predict(
+        `Generate a detailed financial forecast for the next ${timeframe} months based on this data: ${JSON.stringify(userData)} and market conditions: ${JSON.stringify(marketData)}`,
+        'financial forecast'
       );
-
-      return this.processPredictionResponse(analysis.content[0].text);
     } catch (error) {
       logger.error('Error generating financial forecast:', error);
       throw new Error('Failed to generate financial forecast');
@@ -70,15 +67,17 @@ export class PredictiveHubService {
 
   async analyzeRisks(userId: string, context: string): Promise<Risk[]> {
     const userProfile = await this.getUserRiskProfile(userId);
-    const response = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
-      messages: [{
-        role: 'user',
-        content: `Analyze potential risks considering this profile: ${JSON.stringify(userProfile)} and context: ${context}`
-      }]
-    });
-
-    return this.processRiskAnalysis(response.content[0].text);
+    return completeStructured(
+      this.llm,
+      {
+        messages: [{
+          role: 'user',
+          content: `Analyze potential risks considering this profile: ${JSON.stringify(userProfile)} and context: ${context}`
+        }]
+      },
+      z.array(riskSchema),
+      { name: 'risk analysis' }
+    );
   }
 
   async optimizeStrategy(
@@ -87,15 +86,10 @@ export class PredictiveHubService {
     goals: string[]
   ): Promise<PredictionResult> {
     const userContext = await this.getUserContext(userId);
-    const optimizationResponse = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
-      messages: [{
-        role: 'user',
-        content: `Generate optimization strategies for ${domain} considering these goals: ${goals.join(', ')} and user context: ${JSON.stringify(userContext)}`
-      }]
-    });
-
-    return this.processPredictionResponse(optimizationResponse.content[0].text);
+    return this.predict(
+      `Generate optimization strategies for ${domain} considering these goals: ${goals.join(', ')} and user context: ${JSON.stringify(userContext)}`,
+      `${domain.toLowerCase()} optimization`
+    );
   }
 
   private async collectUserData(userId: string): Promise<any> {
@@ -118,25 +112,14 @@ export class PredictiveHubService {
     return {};
   }
 
-  private processPredictionResponse(response: string): PredictionResult {
-    try {
-      return {
-        ...JSON.parse(response),
-        timestamp: Date.now()
-      };
-    } catch (error) {
-      logger.error('Error processing prediction response:', error);
-      throw new Error('Failed to process prediction response');
-    }
-  }
-
-  private processRiskAnalysis(response: string): Risk[] {
-    try {
-      return JSON.parse(response);
-    } catch (error) {
-      logger.error('Error processing risk analysis:', error);
-      throw new Error('Failed to process risk analysis');
-    }
+  private async predict(content: string, name: string): Promise<PredictionResult> {
+    const prediction = await completeStructured(
+      this.llm,
+      { messages: [{ role: 'user', content }] },
+      predictionSchema,
+      { name }
+    );
+    return { ...prediction, timestamp: Date.now() };
   }
 }
 
@@ -0,0 +1,84 @@
+import { logger } from '@/shared/utils/logger';
+import { AppError } from '@/shared/utils/error-handler';
+import {
+  LLMProvider,
+  LLMProviderName,
+} from '../interfaces/llm-provider.types';
+import { AnthropicProvider } from '../providers/anthropic.provider';
+import { OpenAIProvider } from '../providers/openai.provider';
+import { FixtureProvider } from '../providers/fixture.provider';
+
+const PROVIDER_NAMES: LLMProviderName[] = ['anthropic', 'openai', 'fixture'];
+
+export class ProviderRegistry {
+  private static instance: ProviderRegistry;
+  private providers: Map<LLMProviderName, LLMProvider> = new Map();
+
+  private constructor() {
+    this.registerDefaults();
+  }
+
+  static getInstance(): ProviderRegistry {
+    if (!ProviderRegistry.instance) {
+      ProviderRegistry.instance = new ProviderRegistry();
+    }
+    return ProviderRegistry.instance;
+  }
+
+  // Los modelos se pueden cambiar por entorno sin tocar los servicios
+  private registerDefaults(): void {
+    this.providers.set(
+      'anthropic',
+      new AnthropicProvider({ model: process.env.ANTHROPIC_MODEL })
+    );
+    this.providers.set(
+      'openai',
+      new OpenAIProvider({ model: process.env.OPENAI_MODEL })
+    );
+
+    const fixturesPath = process.env.LLM_FIXTURES_PATH;
+    try {
+      this.providers.set(
+        'fixture',
+        fixturesPath
+          ? FixtureProvider.fromFile(fixturesPath)
+          : new FixtureProvider()
+      );
+    } catch (error) {
+      logger.error('Failed to load LLM fixtures:', error);
+      this.providers.set('fixture', new FixtureProvider());
+    }
+  }
+
+  register(provider: LLMProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  get(name: LLMProviderName): LLMProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new AppError(
+        'PROVIDER_NOT_FOUND',
+        `LLM provider not registered: ${name}`
+      );
+    }
+    return provider;
+  }
+
+  /**
+   * Devuelve el proveedor preferido por el servicio, salvo que el entorno
+   * fuerce otro con LLM_PROVIDER (p.ej. 'fixture' para ejecutar offline).
+   */
+  resolve(preferred: LLMProviderName = 'anthropic'): LLMProvider {
+    const override = process.env.LLM_PROVIDER as LLMProviderName | undefined;
+    if (override && !PROVIDER_NAMES.includes(override)) {
+      throw new AppError(
+        'INVALID_PROVIDER',
+        `Unknown LLM_PROVIDER value: ${override}`
+      );
+    }
+    return this.get(override || preferred);
+  }
+}
+
+export const providerRegistry = ProviderRegistry.getInstance();
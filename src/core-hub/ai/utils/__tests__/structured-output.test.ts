@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { FixtureProvider } from '../../providers/fixture.provider';
+import { completeStructured, extractJson, parseStructured } from '../structured-output';
+
+const deductionSchema = z.array(
+  z.object({
+    category: z.string(),
+    estimatedSaving: z.number(),
+  })
+);
+
+const request = {
+  messages: [{ role: 'user' as const, content: 'List my deductions' }],
+};
+
+describe('structured output', () => {
+  it('should extract JSON from fenced blocks and from prose', () => {
+    expect(extractJson('Sure!\n```json\n{"a": 1}\n```\nAnything else?')).toEqual({ a: 1 });
+    expect(
+      extractJson('The result is {"note": "braces } inside [strings]", "items": [1, 2]}. Hope it helps.')
+    ).toEqual({ note: 'braces } inside [strings]', items: [1, 2] });
+    expect(extractJson('Found {two} candidates: [{"ok": true}]')).toEqual([{ ok: true }]);
+    expect(() => extractJson('No JSON here')).toThrow('does not contain valid JSON');
+  });
+
+  it('should describe schema mismatches by path', () => {
+    expect(() => parseStructured('[{"category": "Home", "estimatedSaving": "a lot"}]', deductionSchema)).toThrow(
+      '0.estimatedSaving: Expected number, received string'
+    );
+  });
+
+  it('should ask for the JSON schema and re-prompt with the validation error', async () => {
+    const llm = new FixtureProvider([
+      { match: 'List my deductions', response: 'I found a home office deduction worth about 1,200.', once: true },
+      {
+        match: 'previous answer could not be used',
+        response: '```json\n[{"category": "Home office", "estimatedSaving": 1200}]\n```',
+      },
+    ]);
+
+    const deductions = await completeStructured(llm, request, deductionSchema);
+
+    expect(deductions).toEqual([{ category: 'Home office', estimatedSaving: 1200 }]);
+    expect(llm.calls).toHaveLength(2);
+    expect(llm.calls[0].messages[0].content).toContain('JSON Schema');
+    expect(llm.calls[1].messages.map((message) => message.role)).toEqual(['user', 'assistant', 'user']);
+    expect(llm.calls[1].messages[2].content).toContain('does not contain valid JSON');
+  });
+
+  it('should give up with STRUCTURED_OUTPUT_ERROR after the configured retries', async () => {
+    const llm = new FixtureProvider([], '{"category": "Home office"}');
+
+    await expect(completeStructured(llm, request, deductionSchema, { retries: 1 })).rejects.toMatchObject({
+      code: 'STRUCTURED_OUTPUT_ERROR',
+    });
+    expect(llm.calls).toHaveLength(2);
+  });
+});
@@ -0,0 +1,9 @@
+// Si el modelo devuelve JSON inválido se conserva el texto para que la
+// validación del registro de herramientas lo rechace con un error claro
+export function parseToolInput(json: string): unknown {
+  try {
+    return JSON.parse(json);
+  } catch {
+    return json;
+  }
+}
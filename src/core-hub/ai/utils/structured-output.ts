@@ -0,0 +1,160 @@
+// src/core-hub/ai/utils/structured-output.ts
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { AppError } from '@/shared/utils/error-handler';
+import { logger } from '@/shared/utils/logger';
+import { LLMCompletionRequest, LLMMessage, LLMProvider } from '../interfaces/llm-provider.types';
+
+export const DEFAULT_STRUCTURED_RETRIES = 2;
+
+export interface StructuredOutputOptions {
+  // Reintentos tras la primera respuesta, devolviendo al modelo el error de validación
+  retries?: number;
+  // Nombre de la operación para logs y errores
+  name?: string;
+}
+
+class StructuredOutputError extends Error {}
+
+// Primer valor JSON completo a partir de `start`, respetando cadenas y escapes
+function balancedJson(text: string, start: number): string | null {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      if (stack.pop() !== char) {
+        return null;
+      }
+      if (stack.length === 0) {
+        return text.slice(start, i + 1);
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Extrae el JSON de la respuesta de un modelo: la respuesta entera, un bloque
+ * ```json``` o el primer objeto o array que se pueda parsear dentro de la prosa.
+ */
+export function extractJson(text: string): unknown {
+  const candidates = [text.trim()];
+  for (const match of text.matchAll(/```(?:json)?\s*([\s\S]*?)```/gi)) {
+    candidates.push(match[1].trim());
+  }
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '{' || text[i] === '[') {
+      const candidate = balancedJson(text, i);
+      if (candidate) {
+        candidates.push(candidate);
+      }
+    }
+  }
+
+  for (const candidate of candidates) {
+    if (!candidate) {
+      continue;
+    }
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Se prueba el siguiente candidato
+    }
+  }
+  throw new StructuredOutputError('The answer does not contain valid JSON');
+}
+
+function formatIssues(issues: z.ZodIssue[]): string {
+  return issues
+    .slice(0, 10)
+    .map((issue) =>
+      issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+    )
+    .join('; ');
+}
+
+// Valida el JSON de una respuesta contra el esquema; lanza con un mensaje apto para el modelo
+export function parseStructured<T>(text: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T {
+  const result = schema.safeParse(extractJson(text));
+  if (!result.success) {
+    throw new StructuredOutputError(
+      `The JSON does not match the schema: ${formatIssues(result.error.issues)}`
+    );
+  }
+  return result.data;
+}
+
+function formatInstruction(schema: z.ZodTypeAny): string {
+  const jsonSchema = zodToJsonSchema(schema, { target: 'openApi3' });
+  return (
+    'Answer only with JSON that matches this JSON Schema, without any other text:\n' +
+    JSON.stringify(jsonSchema)
+  );
+}
+
+function withInstruction(messages: LLMMessage[], instruction: string): LLMMessage[] {
+  const index = messages.map((message) => message.role).lastIndexOf('user');
+  return messages.map((message, i) =>
+    i === index ? { ...message, content: `${message.content}\n\n${instruction}` } : message
+  );
+}
+
+/**
+ * Pide al modelo una respuesta JSON y la devuelve validada y tipada. Si la
+ * respuesta no se puede usar, se reenvía al modelo con el error hasta `retries` veces.
+ */
+export async function completeStructured<T>(
+  llm: LLMProvider,
+  request: LLMCompletionRequest,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  options: StructuredOutputOptions = {}
+): Promise<T> {
+  const retries = options.retries ?? DEFAULT_STRUCTURED_RETRIES;
+  const name = options.name ?? 'structured output';
+  const messages = withInstruction(request.messages, formatInstruction(schema));
+  let lastError = '';
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    const response = await llm.complete({ ...request, messages: [...messages] });
+    try {
+      return parseStructured(response.text, schema);
+    } catch (error) {
+      if (!(error instanceof StructuredOutputError)) {
+        throw error;
+      }
+      lastError = error.message;
+      logger.warn(`Invalid ${name} from ${response.provider} (attempt ${attempt + 1}): ${lastError}`);
+      messages.push(
+        { role: 'assistant', content: response.text },
+        {
+          role: 'user',
+          content: `Your previous answer could not be used. ${lastError}. Reply again with only the corrected JSON.`,
+        }
+      );
+    }
+  }
+
+  throw new AppError(
+    'STRUCTURED_OUTPUT_ERROR',
+    `Invalid ${name} after ${retries + 1} attempts: ${lastError}`,
+    502
+  );
+}
@@ -0,0 +1,67 @@
+import { LLMMessage, LLMProviderName } from '../interfaces/llm-provider.types';
+
+// Aproximación sin tokenizer: cada proveedor trocea el texto de forma distinta.
+// Se cuenta por palabra para no subestimar textos con muchos números o símbolos.
+const CHARS_PER_TOKEN: Record<LLMProviderName, number> = {
+  anthropic: 3.5,
+  openai: 4,
+  fixture: 4,
+};
+
+// Coste fijo de cada mensaje (rol y delimitadores)
+const MESSAGE_OVERHEAD: Record<LLMProviderName, number> = {
+  anthropic: 5,
+  openai: 4,
+  fixture: 4,
+};
+
+const PIECE_PATTERN = /[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu;
+
+export function countTokens(text: string, provider: LLMProviderName): number {
+  const charsPerToken = CHARS_PER_TOKEN[provider];
+  let tokens = 0;
+  for (const [piece] of text.matchAll(PIECE_PATTERN)) {
+    // Los caracteres fuera de ASCII suelen ocupar más de un byte por token
+    const weight = /^[\x00-\x7f]+$/.test(piece) ? 1 : 1.5;
+    tokens += Math.max(1, Math.ceil((piece.length * weight) / charsPerToken));
+  }
+  return tokens;
+}
+
+export function countMessageTokens(
+  messages: LLMMessage[],
+  provider: LLMProviderName
+): number {
+  return messages.reduce(
+    (total, message) =>
+      total +
+      MESSAGE_OVERHEAD[provider] +
+      countTokens(message.content, provider) +
+      countTokens(JSON.stringify(message.toolCalls ?? ''), provider) +
+      countTokens(JSON.stringify(message.toolResults ?? ''), provider),
+    0
+  );
+}
+
+// Recorta el texto para que quepa en el presupuesto, por palabras completas
+export function truncateToTokens(
+  text: string,
+  maxTokens: number,
+  provider: LLMProviderName
+): string {
+  if (countTokens(text, provider) <= maxTokens) {
+    return text;
+  }
+  // El recuento es aditivo entre palabras separadas por espacios
+  const budget = maxTokens - countTokens('…', provider);
+  let result = '';
+  let used = 0;
+  for (const word of text.split(/(\s+)/)) {
+    used += countTokens(word, provider);
+    if (used > budget) {
+      break;
+    }
+    result += word;
+  }
+  return result.trimEnd() ? `${result.trimEnd()}…` : '';
+}
@@ -0,0 +1,37 @@
+// src/core-hub/ai/utils/vector.ts
+
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+// Los k elementos más parecidos al vector de consulta, de mayor a menor similitud
+export function topKBySimilarity<T>(
+  items: T[],
+  query: number[],
+  k: number,
+  vectorOf: (item: T) => number[] | undefined
+): Array<{ item: T; score: number }> {
+  return items
+    .flatMap((item) => {
+      const vector = vectorOf(item);
+      return vector ? [{ item, score: cosineSimilarity(query, vector) }] : [];
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k);
+}
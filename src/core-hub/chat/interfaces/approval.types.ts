@@ -0,0 +1,48 @@
+// src/core-hub/chat/interfaces/approval.types.ts
+
+import { ModuleAction } from '@/shared/types';
+
+export type ApprovalStatus =
+  | 'PENDING'
+  | 'APPROVED'
+  | 'REJECTED'
+  | 'EXPIRED'
+  | 'EXECUTED'
+  | 'FAILED';
+
+export type ApprovalDecision = 'APPROVED' | 'REJECTED';
+
+export interface PendingApproval {
+  id: string;
+  userId: string;
+  action: ModuleAction;
+  riskLevel: number;
+  riskExplanation: string;
+  status: ApprovalStatus;
+  createdAt: number;
+  expiresAt: number;
+  decidedAt?: number;
+  reason?: string;
+  error?: string;
+}
+
+export interface ApprovalAuditEntry {
+  approvalId: string;
+  userId: string;
+  event: ApprovalStatus | 'REQUESTED';
+  // 'system' para expiraciones y resultados de ejecución
+  actor: string;
+  timestamp: number;
+  details?: Record<string, unknown>;
+}
+
+export interface ApprovalStore {
+  save(approval: PendingApproval): Promise<void>;
+  // Guarda solo si la solicitud sigue en el estado esperado (comparar y
+  // asignar atómico); false si otra petición la cambió antes
+  saveIfStatus(approval: PendingApproval, expected: ApprovalStatus): Promise<boolean>;
+  get(id: string): Promise<PendingApproval | null>;
+  listByUser(userId: string, status?: ApprovalStatus): Promise<PendingApproval[]>;
+  appendAudit(entry: ApprovalAuditEntry): Promise<void>;
+  getAudit(approvalId: string): Promise<ApprovalAuditEntry[]>;
+}
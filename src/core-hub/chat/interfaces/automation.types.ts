@@ -0,0 +1,60 @@
+// src/core-hub/chat/interfaces/automation.types.ts
+
+import { ModuleAction } from '@/shared/types';
+import { IntentAnalysis } from '../utils/intent-analyzer';
+
+export type AutomationLevel = 'LOW' | 'MEDIUM' | 'HIGH';
+
+export interface AutomationUserContext {
+  userId: string;
+  // Acciones que ya esperan aprobación y no deben volver a planificarse
+  pendingActions: ModuleAction[];
+}
+
+export interface PlanStep {
+  id: string;
+  action: ModuleAction;
+  dependsOn: string[];
+  // Nivel mínimo con el que el paso se ejecuta sin confirmación del usuario
+  requiredLevel: AutomationLevel;
+}
+
+export interface AutomationPlan {
+  intent: IntentAnalysis;
+  // Ordenados de forma que cada paso va después de sus dependencias
+  steps: PlanStep[];
+}
+
+export type PlanStepStatus =
+  | 'succeeded'
+  | 'failed'
+  | 'skipped'
+  | 'requires_approval'
+  | 'rolled_back'
+  | 'rollback_failed';
+
+export interface PlanStepResult {
+  stepId: string;
+  action: ModuleAction;
+  status: PlanStepStatus;
+  error?: string;
+}
+
+export interface PlanExecutionResult {
+  success: boolean;
+  summary: string;
+  steps: PlanStepResult[];
+  // Acciones ejecutadas y que siguen aplicadas
+  actions: ModuleAction[];
+  pendingApproval: ModuleAction[];
+}
+
+export type ActionExecutor = (
+  action: ModuleAction,
+  userId: string
+) => Promise<boolean>;
+
+export type RollbackHandler = (
+  action: ModuleAction,
+  userId: string
+) => Promise<void>;
@@ -1,5 +1,26 @@
 // src/core/chat/interfaces/chat.types.ts
 
+import { ModuleAction } from '@/shared/types';
+import { LLMToolCall } from '@/core-hub/ai/interfaces/llm-provider.types';
+import { Locale } from '@/shared/i18n/i18n';
+import { ConversationSummary } from './context-window.types';
+import { PlanStepStatus } from './automation.types';
+
+// Documento adjunto a un mensaje: se guarda la referencia, no el contenido
+export interface MessageAttachment {
+  name: string;
+  type: string;
+  documentId?: string;
+}
+
+// Acción propuesta o ejecutada durante un turno y cómo terminó
+export interface MessageAction {
+  type: ModuleAction['type'];
+  action: string;
+  params: Record<string, unknown>;
+  status: AgentToolResult['status'] | PlanStepStatus;
+}
+
 export interface Message {
   id: string;
   content: string;
@@ -9,25 +30,78 @@ export interface Message {
     moduleType?: 'TAX' | 'FINANCIAL' | 'CREDIT';
     requiresAction?: boolean;
     actionType?: string;
+    confidence?: number;
+    source?: AIModel;
+    processingTime?: number;
+    attachments?: MessageAttachment[];
+    actions?: MessageAction[];
   };
 }
 
 export interface ChatSession {
   id: string;
   userId: string;
+  // Título visible en la lista de conversaciones
+  title: string;
   messages: Message[];
+  // Idioma de la conversación; se actualiza con cada mensaje detectado
+  locale?: Locale;
+  // Turnos antiguos plegados por el gestor de la ventana de contexto
+  summary?: ConversationSummary;
+  lastResponse?: ChatResponse;
   context: {
     activeModule?: string;
     lastInteraction: number;
     pendingActions?: string[];
+    // Estado que registran otros servicios (p.ej. la última acción ejecutada)
+    [key: string]: unknown;
+  };
+  metadata: {
+    createdAt: number;
+    lastAccessed: number;
+    lastModified?: number;
+    sessionType: string;
+    allowAutomatedActions?: boolean;
   };
 }
 
+export type AIModel = 'claude' | 'gpt4';
+
+export interface AgentToolResult {
+  toolCallId: string;
+  tool: string;
+  action?: ModuleAction;
+  status: 'executed' | 'failed' | 'rejected' | 'pending_approval' | 'not_executed';
+  output: string;
+}
+
+// Un paso del bucle agente: respuesta del modelo y resultado de sus herramientas
+export interface AgentStep {
+  index: number;
+  text: string;
+  toolCalls: LLMToolCall[];
+  results: AgentToolResult[];
+  stopReason?: string;
+}
+
 export interface ChatResponse {
-  message: string;
-  actions?: {
-    type: string;
-    payload: any;
-  }[];
+  content: string;
+  source?: AIModel;
+  confidence?: number;
+  actions?: ModuleAction[];
   requiresUserApproval?: boolean;
+  trace?: AgentStep[];
+  // Idioma en el que se generó la respuesta
+  locale?: Locale;
+  // Conversación a la que pertenece la respuesta
+  sessionId?: string;
+  metadata?: Record<string, unknown>;
 }
+
+export type ChatStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'action'; action: ModuleAction }
+  | { type: 'step'; step: AgentStep }
+  | { type: 'done'; response: ChatResponse }
+  | { type: 'cancelled' }
+  | { type: 'error'; message: string };
@@ -0,0 +1,69 @@
+// src/core-hub/chat/interfaces/context-window.types.ts
+
+import { LLMProvider } from '@/core-hub/ai/interfaces/llm-provider.types';
+import { Locale } from '@/shared/i18n/i18n';
+import { Message } from './chat.types';
+
+// Presupuestos en tokens del proveedor que recibe el prompt
+export interface ContextWindowConfig {
+  // Total del mensaje de usuario (sin prompt de sistema ni herramientas)
+  maxTokens: number;
+  summaryTokens: number;
+  memoryTokens: number;
+  profileTokens: number;
+  maxMemories: number;
+  // Mensajes que se guardan en la sesión; los anteriores solo quedan en el resumen
+  maxHistoryMessages: number;
+  // Vigencia del perfil financiero cacheado por sesión
+  profileTtlMs: number;
+}
+
+export type HistoryMessage = Pick<Message, 'role' | 'content' | 'timestamp'>;
+
+// Resumen incremental de los turnos que ya no caben literalmente
+export interface ConversationSummary {
+  text: string;
+  // Marca de tiempo del último turno incluido en el resumen
+  through: number;
+  updatedAt: number;
+}
+
+export interface ContextSources {
+  memories(userId: string, message: string, limit: number): Promise<string[]>;
+  profile(userId: string): Promise<Record<string, unknown> | null>;
+}
+
+export interface ContextWindowInput {
+  userId: string;
+  // Sin sesión, el perfil se vuelve a cargar en cada mensaje
+  sessionId?: string;
+  message: string;
+  attachmentContext: string;
+  history: HistoryMessage[];
+  summary?: ConversationSummary;
+  locale: Locale;
+  // Cuenta los tokens y genera el resumen
+  provider: LLMProvider;
+}
+
+export interface HistoryCompaction<T extends HistoryMessage> {
+  history: T[];
+  summary?: ConversationSummary;
+}
+
+export interface ContextWindowUsage {
+  total: number;
+  request: number;
+  profile: number;
+  memories: number;
+  summary: number;
+  history: number;
+}
+
+export interface ContextWindow {
+  prompt: string;
+  summary?: ConversationSummary;
+  // Turnos incluidos literalmente
+  recentTurns: number;
+  usage: ContextWindowUsage;
+}
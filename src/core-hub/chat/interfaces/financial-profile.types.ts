@@ -0,0 +1,159 @@
+// src/core-hub/chat/interfaces/financial-profile.types.ts
+
+export type ProfileDocumentType = 'W2' | '1099' | 'BANK_STATEMENT';
+
+export type Form1099Variant = 'NEC' | 'MISC' | 'INT' | 'DIV' | 'OTHER';
+
+export type StatementAccountType = 'CHECKING' | 'SAVINGS' | 'CREDIT_CARD';
+
+// Un importe leído de un documento, con la casilla o línea de la que sale
+export interface ExtractedField {
+  value: number;
+  line: string;
+  confidence: number;
+}
+
+export interface StatementTransaction {
+  date: string;
+  description: string;
+  // Negativo: salida de dinero
+  amount: number;
+  category?: string;
+}
+
+interface ProcessedDocumentBase {
+  id: string;
+  userId: string;
+  fileName: string;
+  processedAt: number;
+  // Empleador, pagador o banco
+  issuer?: string;
+  taxYear?: number;
+  fields: Record<string, ExtractedField>;
+}
+
+export type ProcessedDocument =
+  | (ProcessedDocumentBase & { documentType: 'W2' })
+  | (ProcessedDocumentBase & { documentType: '1099'; variant: Form1099Variant })
+  | (ProcessedDocumentBase & {
+      documentType: 'BANK_STATEMENT';
+      accountType: StatementAccountType;
+      periodStart: string;
+      periodEnd: string;
+      transactions: StatementTransaction[];
+    });
+
+export interface FieldProvenance {
+  documentId: string;
+  documentType: ProfileDocumentType;
+  fileName: string;
+  line: string;
+  value: number;
+  confidence: number;
+}
+
+// Origen de un campo del perfil: su valor, la confianza y los documentos que lo componen
+export interface ProfileFieldSource {
+  value: number;
+  confidence: number;
+  sources: FieldProvenance[];
+}
+
+export interface FinancialProfile {
+  income: {
+    salary: number;
+    investments: number;
+    otherSources: Record<string, number>;
+    frequency: 'MONTHLY' | 'YEARLY';
+    lastUpdated: number;
+  };
+  credit: {
+    score: number;
+    availableCredit: number;
+    totalDebt: number;
+    creditCards: Array<{
+      provider: string;
+      limit: number;
+      balance: number;
+    }>;
+    lastUpdated: number;
+  };
+  budget: {
+    monthlyExpenses: Record<string, number>;
+    savingsGoal: number;
+    emergencyFund: number;
+    investmentAllocation: number;
+    lastUpdated: number;
+  };
+  documents: {
+    required: string[];
+    provided: string[];
+    lastUpdated: number;
+  };
+  riskProfile: {
+    score: number;
+    factors: string[];
+    lastUpdated: number;
+  };
+  // Gasto medio real según los extractos; los presupuestos que fija el usuario
+  // están en budget.monthlyExpenses
+  spending?: {
+    monthlyAverages: Record<string, number>;
+    lastUpdated: number;
+  };
+  // Año fiscal de los ingresos; los de años anteriores no se suman
+  taxYear?: number;
+  // Por ruta del campo ('income.salary', 'spending.monthlyAverages.groceries', ...)
+  provenance?: Record<string, ProfileFieldSource>;
+}
+
+export interface ProcessedDocumentStore {
+  save(document: ProcessedDocument): Promise<void>;
+  listByUser(userId: string): Promise<ProcessedDocument[]>;
+}
+
+export interface FinancialProfileStore {
+  get(userId: string): Promise<FinancialProfile | null>;
+  // No modifica budget.monthlyExpenses: los presupuestos solo los cambia el usuario
+  save(userId: string, profile: FinancialProfile): Promise<void>;
+}
+
+// Campos que se extraen de cada documento y la casilla o línea de la que salen
+export const DOCUMENT_FIELD_LINES = {
+  W2: {
+    wages: 'W-2 box 1',
+    federalWithholding: 'W-2 box 2',
+    socialSecurityWages: 'W-2 box 3',
+    medicareWages: 'W-2 box 5',
+    stateWages: 'W-2 box 16',
+  },
+  '1099-NEC': {
+    nonemployeeCompensation: '1099-NEC box 1',
+    federalWithholding: '1099-NEC box 4',
+  },
+  '1099-MISC': {
+    rents: '1099-MISC box 1',
+    royalties: '1099-MISC box 2',
+    otherIncome: '1099-MISC box 3',
+    federalWithholding: '1099-MISC box 4',
+  },
+  '1099-INT': {
+    interestIncome: '1099-INT box 1',
+    federalWithholding: '1099-INT box 4',
+  },
+  '1099-DIV': {
+    ordinaryDividends: '1099-DIV box 1a',
+    qualifiedDividends: '1099-DIV box 1b',
+    federalWithholding: '1099-DIV box 4',
+  },
+  '1099-OTHER': {
+    federalWithholding: '1099 box 4',
+  },
+  BANK_STATEMENT: {
+    beginningBalance: 'Beginning balance',
+    endingBalance: 'Ending balance',
+    creditLimit: 'Credit limit',
+  },
+} as const;
+
+export type DocumentFieldSet = keyof typeof DOCUMENT_FIELD_LINES;
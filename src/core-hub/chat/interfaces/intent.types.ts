@@ -0,0 +1,43 @@
+// src/core-hub/chat/interfaces/intent.types.ts
+
+import { ModuleAction } from '@/shared/types';
+
+export type IntentModule = Exclude<ModuleAction['type'], 'SYSTEM'>;
+
+export interface LabelledUtterance {
+  text: string;
+  intent: string;
+}
+
+export interface ExtractedEntities {
+  amounts: number[];
+  years: number[];
+  formIds: string[];
+  dates: string[];
+  category?: string;
+  provider?: string;
+  transactionId?: string;
+  filingStatus?: string;
+  dependents?: number;
+  state?: string;
+  bureau?: string;
+}
+
+export interface IntentDefinition {
+  intent: string;
+  module: IntentModule | null;
+  // Acción que se propone para esta intención (si la hay)
+  action?: ModuleAction['action'];
+  // Construye los parámetros de la acción; null si faltan datos obligatorios
+  buildParams?: (
+    entities: ExtractedEntities,
+    message: string
+  ) => Record<string, unknown> | null;
+}
+
+export interface IntentPrediction {
+  intent: string;
+  // Probabilidad calibrada de la intención elegida
+  confidence: number;
+  scores: Record<string, number>;
+}
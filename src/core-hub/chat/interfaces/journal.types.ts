@@ -0,0 +1,24 @@
+// src/core-hub/chat/interfaces/journal.types.ts
+
+import { ModuleAction } from '@/shared/types';
+
+// SUPERSEDED: deshecha y luego invalidada por una acción nueva (ya no se puede rehacer)
+export type JournalEntryStatus = 'APPLIED' | 'UNDONE' | 'SUPERSEDED';
+
+export interface JournalEntry {
+  id: string;
+  userId: string;
+  action: ModuleAction;
+  // Acción que restaura el estado previo; null si la acción no es reversible
+  compensation: ModuleAction | null;
+  status: JournalEntryStatus;
+  executedAt: number;
+  undoneAt?: number;
+}
+
+export interface ActionJournalStore {
+  save(entry: JournalEntry): Promise<void>;
+  get(id: string): Promise<JournalEntry | null>;
+  // Más recientes primero
+  listByUser(userId: string): Promise<JournalEntry[]>;
+}
@@ -0,0 +1,72 @@
+// src/core-hub/chat/interfaces/memory.types.ts
+
+export type MemoryType = 'EXPENSE' | 'INCOME' | 'HABIT' | 'GOAL' | 'CONTEXT';
+
+// Recuerdos de hechos puntuales; los repetidos se consolidan en HABIT o GOAL
+export const EPISODIC_MEMORY_TYPES: MemoryType[] = ['EXPENSE', 'INCOME', 'CONTEXT'];
+
+export interface FinancialMemory {
+  id: string;
+  type: MemoryType;
+  category?: string;
+  amount?: number;
+  frequency?: 'ONE_TIME' | 'MONTHLY' | 'YEARLY';
+  timestamp: number;
+  description: string;
+  confidence: number;
+  sentiment?: 'POSITIVE' | 'NEGATIVE' | 'NEUTRAL';
+  impact?: 'HIGH' | 'MEDIUM' | 'LOW';
+  // 1-5: a mayor importancia, más lento el olvido
+  importance?: number;
+  lastAccessed?: number;
+  accessCount?: number;
+  // Fijado por el usuario: no decae, no se consolida ni se descarta por el tope
+  pinned?: boolean;
+  // Número de recuerdos episódicos que se consolidaron en este
+  consolidatedFrom?: number;
+  // Cuándo se guardó por primera vez y cuántas veces se ha repetido (fusiones)
+  firstSeen?: number;
+  mentions?: number;
+  embedding?: number[];
+  embeddingModel?: string;
+}
+
+// Lo que el usuario puede cambiar desde la gestión de recuerdos
+export interface MemoryUpdate {
+  description?: string;
+  pinned?: boolean;
+  importance?: number;
+}
+
+export interface MemoryLifecycleConfig {
+  // Vida media de un recuerdo de importancia 1 que nunca se ha vuelto a usar
+  halfLifeDays: number;
+  // Fuerza por debajo de la cual se olvida
+  forgetThreshold: number;
+  maxMemoriesPerUser: number;
+  // Solo se consolidan recuerdos episódicos con al menos esta antigüedad
+  consolidationMinAgeDays: number;
+  consolidationMinCluster: number;
+  consolidationSimilarity: number;
+  maintenanceIntervalHours: number;
+}
+
+export interface MemoryLifecycleReport {
+  consolidated: Array<{ id: string; type: MemoryType; sources: number }>;
+  forgotten: number;
+  capped: number;
+}
+
+export interface MemoryMatch {
+  memory: FinancialMemory;
+  score: number;
+}
+
+export interface MemoryVectorStore {
+  save(userId: string, memory: FinancialMemory): Promise<void>;
+  get(userId: string, id: string): Promise<FinancialMemory | null>;
+  listByUser(userId: string): Promise<FinancialMemory[]>;
+  // Similitud coseno contra todos los recuerdos del usuario indexados con `model`
+  search(userId: string, vector: number[], k: number, model: string): Promise<MemoryMatch[]>;
+  delete(userId: string, id: string): Promise<void>;
+}
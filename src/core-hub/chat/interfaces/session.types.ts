@@ -0,0 +1,37 @@
+// src/core-hub/chat/interfaces/session.types.ts
+
+import { ChatSession } from './chat.types';
+
+// Actualización parcial: context y metadata se fusionan con los guardados
+export type ChatSessionUpdate = Partial<
+  Omit<ChatSession, 'id' | 'userId' | 'context' | 'metadata'>
+> & {
+  context?: Partial<ChatSession['context']>;
+  metadata?: Partial<ChatSession['metadata']>;
+};
+
+// Entrada de la lista de conversaciones (sin mensajes)
+export interface ChatSessionSummary {
+  id: string;
+  title: string;
+  messageCount: number;
+  locale?: ChatSession['locale'];
+  createdAt: number;
+  lastAccessed: number;
+}
+
+export interface SessionRepository {
+  save(session: ChatSession): Promise<void>;
+  get(id: string): Promise<ChatSession | null>;
+  // Más recientes primero (metadata.lastAccessed)
+  listByUser(userId: string): Promise<ChatSession[]>;
+  delete(id: string): Promise<void>;
+}
+
+export type SessionExportFormat = 'markdown' | 'json' | 'pdf';
+
+export interface SessionExportFile {
+  filename: string;
+  contentType: string;
+  body: string | Uint8Array;
+}
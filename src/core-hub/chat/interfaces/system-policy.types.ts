@@ -0,0 +1,62 @@
+// src/core-hub/chat/interfaces/system-policy.types.ts
+
+export type SystemOperation = 'WRITE' | 'DELETE' | 'EXECUTE';
+
+// Comando permitido: los argumentos son literales o marcadores {nombre}
+// que deben cumplir el patrón declarado en placeholders
+export interface CommandTemplate {
+  id: string;
+  description: string;
+  executable: string;
+  args: string[];
+  placeholders?: Record<string, RegExp>;
+  timeoutMs: number;
+}
+
+export interface SystemQuota {
+  maxOperations: number;
+  windowMs: number;
+}
+
+export interface SystemPolicy {
+  // Directorios (relativos a la raíz del proyecto) donde se puede escribir
+  allowedRoots: string[];
+  // Se comprueban contra la ruta canónica relativa a la raíz
+  protectedPatterns: RegExp[];
+  maxFileBytes: number;
+  commands: CommandTemplate[];
+  quotas: Record<SystemOperation, SystemQuota>;
+  trashDir: string;
+  trashRetentionMs: number;
+}
+
+export interface ResolvedPath {
+  absolute: string;
+  relative: string;
+}
+
+export interface ResolvedCommand {
+  template: CommandTemplate;
+  args: string[];
+}
+
+export interface SystemCommandOutput {
+  template: string;
+  executable: string;
+  args: string[];
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+}
+
+export interface SystemActionResult {
+  action: string;
+  status: 'executed' | 'dry_run';
+  dryRun: boolean;
+  description: string;
+  path?: string;
+  trashPath?: string;
+  bytesWritten?: number;
+  command?: SystemCommandOutput;
+  durationMs: number;
+}
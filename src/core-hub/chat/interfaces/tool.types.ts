@@ -0,0 +1,30 @@
+// src/core-hub/chat/interfaces/tool.types.ts
+
+import { z } from 'zod';
+import { ModuleAction } from '@/shared/types';
+import { LLMToolCall } from '@/core-hub/ai/interfaces/llm-provider.types';
+
+export interface ActionToolDefinition<
+  TSchema extends z.ZodTypeAny = z.ZodTypeAny,
+> {
+  name: string;
+  description: string;
+  module: ModuleAction['type'];
+  action: string;
+  schema: TSchema;
+  // Las herramientas de sistema solo se validan, no se ofrecen al modelo
+  exposeToModel: boolean;
+  isReversible: boolean;
+  // Solo consulta datos; se puede automatizar con cualquier nivel
+  readOnly?: boolean;
+}
+
+export interface RejectedToolCall {
+  call: LLMToolCall;
+  error: string;
+}
+
+export interface ToolCallParseResult {
+  actions: ModuleAction[];
+  rejected: RejectedToolCall[];
+}
@@ -0,0 +1,184 @@
+import { describe, beforeEach, afterEach, it, expect, vi } from 'vitest';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { actionJournal } from '../action-journal.service';
+import { actionService } from '../action.service';
+import { approvalQueue } from '../approval-queue.service';
+import { contextService } from '../context.service';
+import { moduleStateService } from '../module-state.service';
+import { systemPolicy } from '../system-policy.service';
+import { DEFAULT_SYSTEM_POLICY } from '../../tools/system.policy';
+import { InMemoryJournalStore } from '../../stores/memory-journal.store';
+import { InMemoryApprovalStore } from '../../stores/memory-approval.store';
+import { parseChatCommand } from '../../utils/chat-commands';
+import { ModuleAction } from '@/shared/types';
+
+const setRent = (monthlyAmount: number): ModuleAction => ({
+  type: 'FINANCIAL',
+  action: 'UPDATE_BUDGET',
+  params: { category: 'rent', monthlyAmount },
+});
+const risk = { level: 0.8, explanation: 'High financial impact' };
+
+// Ejecuta la acción por la vía de aprobación, como lo haría el usuario
+async function approveAndRun(action: ModuleAction) {
+  const approval = await approvalQueue.enqueue('user-1', action, risk);
+  return actionService.resolveApproval(approval.id, 'user-1', 'APPROVED');
+}
+
+describe('ActionService undo/redo', () => {
+  let budget: Record<string, number>;
+
+  beforeEach(() => {
+    budget = { rent: 1500 };
+    actionJournal.setStore(new InMemoryJournalStore());
+    approvalQueue.setStore(new InMemoryApprovalStore());
+    vi.spyOn(contextService, 'updateActiveSession').mockResolvedValue();
+    vi.spyOn(moduleStateService, 'getBudget').mockImplementation(
+      async (_userId, category) => budget[category] ?? null
+    );
+    vi.spyOn(moduleStateService, 'setBudget').mockImplementation(
+      async (_userId, category, amount) => {
+        if (amount === null) {
+          delete budget[category];
+        } else {
+          budget[category] = amount;
+        }
+      }
+    );
+  });
+
+  it('should journal executed actions with their compensation', async () => {
+    await approveAndRun(setRent(1800));
+
+    const [entry] = await actionJournal.list('user-1');
+    expect(budget.rent).toBe(1800);
+    expect(entry).toMatchObject({
+      status: 'APPLIED',
+      compensation: {
+        type: 'FINANCIAL',
+        action: 'UPDATE_BUDGET',
+        params: { category: 'rent', monthlyAmount: 1500 },
+      },
+    });
+  });
+
+  it('should undo and redo the last action', async () => {
+    await approveAndRun(setRent(1800));
+
+    const undone = await actionService.undoLastAction('user-1');
+    expect(undone.status).toBe('UNDONE');
+    expect(budget.rent).toBe(1500);
+
+    const redone = await actionService.redoLastAction('user-1');
+    expect(redone.status).toBe('APPLIED');
+    expect(budget.rent).toBe(1800);
+  });
+
+  it('should remove a budget category that did not exist before', async () => {
+    await approveAndRun({
+      type: 'FINANCIAL',
+      action: 'UPDATE_BUDGET',
+      params: { category: 'travel', monthlyAmount: 200 },
+    });
+
+    await actionService.undoLastAction('user-1');
+    expect(budget).toEqual({ rent: 1500 });
+  });
+
+  it('should discard redo history when a new action runs', async () => {
+    await approveAndRun(setRent(1800));
+    await actionService.undoLastAction('user-1');
+    await approveAndRun(setRent(1600));
+
+    await expect(actionService.redoLastAction('user-1')).rejects.toMatchObject({
+      code: 'NOTHING_TO_REDO',
+    });
+    const statuses = (await actionJournal.list('user-1')).map((entry) => entry.status);
+    expect(statuses).toEqual(['APPLIED', 'SUPERSEDED']);
+  });
+
+  it('should refuse to undo actions without a compensation', async () => {
+    await actionJournal.record(
+      'user-1',
+      {
+        type: 'TAX',
+        action: 'SUBMIT_FORM',
+        params: { formType: '1040', data: {} },
+      },
+      null
+    );
+
+    await expect(actionService.undoLastAction('user-1')).rejects.toMatchObject({
+      code: 'ACTION_NOT_REVERSIBLE',
+    });
+  });
+
+  it('should revert plan steps through the journal', async () => {
+    await approveAndRun(setRent(1800));
+
+    await actionService.revertAction(setRent(1800), 'user-1');
+    expect(budget.rent).toBe(1500);
+    await expect(
+      actionService.revertAction(setRent(1800), 'user-1')
+    ).rejects.toMatchObject({ code: 'JOURNAL_ENTRY_NOT_FOUND' });
+  });
+});
+
+describe('ActionService file snapshots', () => {
+  let root: string;
+  const writeLogo = (content: Buffer): ModuleAction => ({
+    type: 'SYSTEM',
+    action: 'MODIFY_FILE',
+    params: { filePath: '/public/logo.png', content: content.toString('base64'), encoding: 'base64' },
+  });
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'action-snapshot-'));
+    mkdirSync(join(root, 'public'));
+    systemPolicy.configure({ policy: DEFAULT_SYSTEM_POLICY, root });
+    actionJournal.setStore(new InMemoryJournalStore());
+    approvalQueue.setStore(new InMemoryApprovalStore());
+    vi.spyOn(contextService, 'updateActiveSession').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should restore binary files byte for byte on undo', async () => {
+    // Bytes que no son UTF-8 válido
+    const original = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0xff, 0xfe, 0x00, 0xc3]);
+    writeFileSync(join(root, 'public/logo.png'), original);
+
+    await approveAndRun(writeLogo(Buffer.from([0x00, 0x01])));
+    await actionService.undoLastAction('user-1');
+
+    expect(readFileSync(join(root, 'public/logo.png')).equals(original)).toBe(true);
+  });
+
+  it('should refuse to change files it cannot keep a copy of', async () => {
+    const oversized = Buffer.alloc(DEFAULT_SYSTEM_POLICY.maxFileBytes + 1, 1);
+    writeFileSync(join(root, 'public/logo.png'), oversized);
+
+    const approval = await approveAndRun(writeLogo(Buffer.from([0x00])));
+
+    expect(approval).toMatchObject({ status: 'FAILED', error: expect.stringMatching(/Cannot keep a copy/) });
+    expect(readFileSync(join(root, 'public/logo.png')).equals(oversized)).toBe(true);
+    expect(await actionJournal.list('user-1')).toHaveLength(0);
+  });
+});
+
+describe('parseChatCommand', () => {
+  it('should recognise undo and redo in English and Spanish', () => {
+    expect(parseChatCommand('Undo last action')).toBe('UNDO');
+    expect(parseChatCommand('deshacer la última acción.')).toBe('UNDO');
+    expect(parseChatCommand('/redo')).toBe('REDO');
+    expect(parseChatCommand('Rehacer')).toBe('REDO');
+  });
+
+  it('should ignore ordinary messages', () => {
+    expect(parseChatCommand('How do I undo a tax payment?')).toBeNull();
+  });
+});
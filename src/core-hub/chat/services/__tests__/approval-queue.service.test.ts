@@ -0,0 +1,131 @@
+import { describe, beforeEach, it, expect, vi } from 'vitest';
+import { approvalQueue } from '../approval-queue.service';
+import { actionService } from '../action.service';
+import { contextService } from '../context.service';
+import { moduleStateService } from '../module-state.service';
+import { InMemoryApprovalStore } from '../../stores/memory-approval.store';
+import { ModuleAction } from '@/shared/types';
+
+const updateBudget: ModuleAction = {
+  type: 'FINANCIAL',
+  action: 'UPDATE_BUDGET',
+  params: { category: 'rent', monthlyAmount: 1800 },
+};
+const risk = { level: 0.8, explanation: 'High financial impact' };
+
+describe('ApprovalQueue', () => {
+  beforeEach(() => {
+    vi.useRealTimers();
+    approvalQueue.setStore(new InMemoryApprovalStore());
+  });
+
+  it('should park actions and list them as pending', async () => {
+    const approval = await approvalQueue.enqueue('user-1', updateBudget, risk);
+
+    expect(approval.status).toBe('PENDING');
+    expect(approval.expiresAt).toBeGreaterThan(approval.createdAt);
+    await expect(approvalQueue.listPending('user-1')).resolves.toEqual([approval]);
+    await expect(approvalQueue.listPending('user-2')).resolves.toEqual([]);
+  });
+
+  it('should record every decision in the audit trail', async () => {
+    const approval = await approvalQueue.enqueue('user-1', updateBudget, risk);
+    const decided = await approvalQueue.decide(
+      approval.id,
+      'user-1',
+      'REJECTED',
+      'Too high'
+    );
+
+    expect(decided).toMatchObject({ status: 'REJECTED', reason: 'Too high' });
+    await expect(
+      approvalQueue.decide(approval.id, 'user-1', 'APPROVED')
+    ).rejects.toMatchObject({ code: 'APPROVAL_ALREADY_DECIDED' });
+
+    const audit = await approvalQueue.getAuditTrail(approval.id, 'user-1');
+    expect(audit.map((entry) => [entry.event, entry.actor])).toEqual([
+      ['REQUESTED', 'user-1'],
+      ['REJECTED', 'user-1'],
+    ]);
+  });
+
+  it('should apply only one of two simultaneous decisions', async () => {
+    const approval = await approvalQueue.enqueue('user-1', updateBudget, risk);
+
+    const results = await Promise.allSettled([
+      approvalQueue.decide(approval.id, 'user-1', 'APPROVED'),
+      approvalQueue.decide(approval.id, 'user-1', 'REJECTED'),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect(results[1]).toMatchObject({ reason: { code: 'APPROVAL_ALREADY_DECIDED' } });
+    await expect(approvalQueue.get(approval.id, 'user-1')).resolves.toMatchObject({ status: 'APPROVED' });
+    const audit = await approvalQueue.getAuditTrail(approval.id, 'user-1');
+    expect(audit.map((entry) => entry.event)).toEqual(['REQUESTED', 'APPROVED']);
+  });
+
+  it('should expire stale approvals', async () => {
+    vi.useFakeTimers();
+    const approval = await approvalQueue.enqueue('user-1', updateBudget, risk);
+    vi.advanceTimersByTime(approval.expiresAt - approval.createdAt);
+
+    await expect(
+      approvalQueue.decide(approval.id, 'user-1', 'APPROVED')
+    ).rejects.toMatchObject({ code: 'APPROVAL_EXPIRED' });
+    await expect(approvalQueue.listPending('user-1')).resolves.toEqual([]);
+
+    const audit = await approvalQueue.getAuditTrail(approval.id, 'user-1');
+    expect(audit[audit.length - 1]).toMatchObject({
+      event: 'EXPIRED',
+      actor: 'system',
+    });
+  });
+
+  it('should not expose approvals to other users', async () => {
+    const approval = await approvalQueue.enqueue('user-1', updateBudget, risk);
+
+    await expect(
+      approvalQueue.decide(approval.id, 'user-2', 'APPROVED')
+    ).rejects.toMatchObject({ code: 'APPROVAL_NOT_FOUND', status: 404 });
+  });
+});
+
+describe('ActionService.resolveApproval', () => {
+  beforeEach(() => {
+    approvalQueue.setStore(new InMemoryApprovalStore());
+    vi.spyOn(contextService, 'updateActiveSession').mockResolvedValue();
+    vi.spyOn(moduleStateService, 'getBudget').mockResolvedValue(1500);
+    vi.spyOn(moduleStateService, 'setBudget').mockResolvedValue();
+  });
+
+  it('should execute the parked action once approved', async () => {
+    const approval = await approvalQueue.enqueue('user-1', updateBudget, risk);
+
+    const resolved = await actionService.resolveApproval(
+      approval.id,
+      'user-1',
+      'APPROVED'
+    );
+
+    expect(resolved.status).toBe('EXECUTED');
+    const audit = await approvalQueue.getAuditTrail(approval.id, 'user-1');
+    expect(audit.map((entry) => entry.event)).toEqual([
+      'REQUESTED',
+      'APPROVED',
+      'EXECUTED',
+    ]);
+  });
+
+  it('should cancel the parked action when rejected', async () => {
+    const approval = await approvalQueue.enqueue('user-1', updateBudget, risk);
+
+    const resolved = await actionService.resolveApproval(
+      approval.id,
+      'user-1',
+      'REJECTED'
+    );
+
+    expect(resolved.status).toBe('REJECTED');
+    expect(contextService.updateActiveSession).not.toHaveBeenCalled();
+  });
+});
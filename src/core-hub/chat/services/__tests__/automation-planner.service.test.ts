@@ -0,0 +1,130 @@
+import { describe, beforeEach, it, expect, vi } from 'vitest';
+import { automationPlanner } from '../automation-planner.service';
+import { automationExecutor } from '../automation-executor.service';
+import { actionService } from '../action.service';
+import { IntentAnalysis } from '../../utils/intent-analyzer';
+import { ModuleAction } from '@/shared/types';
+import { AppError } from '@/shared/utils/error-handler';
+
+const analyzeExpenses: ModuleAction = {
+  type: 'FINANCIAL',
+  action: 'ANALYZE_EXPENSES',
+  params: {},
+};
+const updateBudget: ModuleAction = {
+  type: 'FINANCIAL',
+  action: 'UPDATE_BUDGET',
+  params: { category: 'dining', monthlyAmount: 200 },
+};
+const createGoal: ModuleAction = {
+  type: 'FINANCIAL',
+  action: 'CREATE_SAVINGS_GOAL',
+  params: { name: 'Emergency fund', targetAmount: 5000 },
+};
+
+const intentWith = (suggestedActions: ModuleAction[]): IntentAnalysis => ({
+  intent: 'financial.update_budget',
+  module: 'FINANCIAL',
+  confidence: 0.8,
+  requiresAction: true,
+  suggestedActions,
+  entities: { amounts: [], years: [], formIds: [], dates: [] },
+});
+
+describe('AutomationPlanner', () => {
+  it('should order steps after their dependencies', () => {
+    const plan = automationPlanner.createPlan(
+      intentWith([createGoal, updateBudget, analyzeExpenses]),
+      { userId: 'user-1', pendingActions: [] }
+    );
+
+    expect(plan.steps.map((step) => step.action.action)).toEqual([
+      'ANALYZE_EXPENSES',
+      'UPDATE_BUDGET',
+      'CREATE_SAVINGS_GOAL',
+    ]);
+    expect(plan.steps[2].dependsOn).toEqual(['step-2', 'step-3']);
+    expect(plan.steps.map((step) => step.requiredLevel)).toEqual([
+      'LOW',
+      'MEDIUM',
+      'MEDIUM',
+    ]);
+  });
+
+  it('should drop invalid, system and already pending actions', () => {
+    const plan = automationPlanner.createPlan(
+      intentWith([
+        { type: 'FINANCIAL', action: 'UPDATE_BUDGET', params: {} },
+        { type: 'SYSTEM', action: 'DELETE_FILE', params: { filePath: '/src/a.ts' } },
+        createGoal,
+        analyzeExpenses,
+      ]),
+      { userId: 'user-1', pendingActions: [createGoal] }
+    );
+
+    expect(plan.steps.map((step) => step.action.action)).toEqual([
+      'ANALYZE_EXPENSES',
+    ]);
+  });
+});
+
+describe('AutomationExecutor', () => {
+  const plan = () =>
+    automationPlanner.createPlan(
+      intentWith([analyzeExpenses, updateBudget, createGoal]),
+      { userId: 'user-1', pendingActions: [] }
+    );
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should hold steps above the automation level for approval', async () => {
+    const execute = vi
+      .spyOn(actionService, 'executeAction')
+      .mockResolvedValue(true);
+
+    const result = await automationExecutor.execute(plan(), 'user-1', 'LOW');
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(result.steps.map((step) => step.status)).toEqual([
+      'succeeded',
+      'requires_approval',
+      'skipped',
+    ]);
+    expect(result.success).toBe(false);
+    expect(result.pendingApproval).toEqual([
+      expect.objectContaining({ action: 'UPDATE_BUDGET' }),
+    ]);
+  });
+
+  it('should roll back completed reversible steps when a step fails', async () => {
+    const rollback = vi.fn().mockResolvedValue(undefined);
+    automationExecutor.setRollbackHandler(rollback);
+    vi.spyOn(actionService, 'executeAction').mockImplementation(
+      async (action) => {
+        if (action.action === 'CREATE_SAVINGS_GOAL') {
+          throw new AppError('GOAL_ERROR', 'Goal service unavailable');
+        }
+        return true;
+      }
+    );
+
+    const result = await automationExecutor.execute(plan(), 'user-1', 'HIGH');
+
+    expect(result.steps).toEqual([
+      expect.objectContaining({ stepId: 'step-1', status: 'succeeded' }),
+      expect.objectContaining({ status: 'rolled_back' }),
+      expect.objectContaining({
+        status: 'failed',
+        error: 'Goal service unavailable',
+      }),
+    ]);
+    expect(rollback).toHaveBeenCalledTimes(1);
+    expect(rollback).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'UPDATE_BUDGET' }),
+      'user-1'
+    );
+    expect(result.actions).toHaveLength(1);
+  });
+});
@@ -2,14 +2,29 @@ import { describe, beforeEach, it, expect, vi } from 'vitest';
 import { ChatService } from '../chat.service';
 import { ValidationService } from '../validation.service';
 import { ContextService } from '../context.service';
-import { Message, ChatResponse } from '../../interfaces/chat.types';
+import { ChatStreamEvent } from '../../interfaces/chat.types';
+import { AutomationLevel } from '../../interfaces/automation.types';
+import { FixtureProvider } from '@/core-hub/ai/providers/fixture.provider';
+import { actionService } from '../action.service';
+import { approvalQueue } from '../approval-queue.service';
 
+// Con stream: true los SDK devuelven un iterable asíncrono de eventos
 vi.mock('@anthropic-ai/sdk', () => ({
   Anthropic: vi.fn().mockImplementation(() => ({
     messages: {
-      create: vi.fn().mockResolvedValue({
-        content: [{ text: 'Mocked Anthropic response', role: 'assistant' }],
-      }),
+      create: vi.fn().mockImplementation(async (params: { stream?: boolean }) =>
+        params.stream
+          ? (async function* () {
+              yield { type: 'message_start', message: { usage: { input_tokens: 5 } } };
+              yield {
+                type: 'content_block_delta',
+                index: 0,
+                delta: { type: 'text_delta', text: 'Mocked Anthropic response' },
+              };
+              yield { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 3 } };
+            })()
+          : { content: [{ text: 'Mocked Anthropic response', role: 'assistant' }] }
+      ),
     },
   })),
 }));
@@ -18,14 +33,21 @@ vi.mock('openai', () => ({
   OpenAI: vi.fn().mockImplementation(() => ({
     chat: {
       completions: {
-        create: vi.fn().mockResolvedValue({
-          choices: [{
-            message: {
-              content: 'Mocked OpenAI response',
-              role: 'assistant'
-            }
-          }]
-        }),
+        create: vi.fn().mockImplementation(async (params: { stream?: boolean }) =>
+          params.stream
+            ? (async function* () {
+                yield { choices: [{ delta: { content: 'Mocked OpenAI response' }, finish_reason: 'stop' }] };
+                yield { choices: [], usage: { prompt_tokens: 5, completion_tokens: 3 } };
+              })()
+            : {
+                choices: [{
+                  message: {
+                    content: 'Mocked OpenAI response',
+                    role: 'assistant'
+                  }
+                }]
+              }
+        ),
       },
     },
   })),
@@ -198,6 +220,205 @@ describe('ChatService', () => {
 
   it('should process messages', async () => {
     const response = await chatService.processMessage(mockUserId, mockMessage);
-    expect(response).toBeDefined();
+    expect(response.content).toMatch(/^Mocked (Anthropic|OpenAI) response$/);
+  });
+});
+describe('ChatService streaming', () => {
+  let chatService: ChatService;
+  let fixture: FixtureProvider;
+
+  beforeEach(() => {
+    chatService = ChatService.getInstance();
+    fixture = new FixtureProvider([], 'Here is your streamed answer');
+    chatService.setProvider('claude', fixture);
+    chatService.setProvider('gpt4', fixture);
+  });
+
+  it('should stream deltas followed by the full response', async () => {
+    const events: ChatStreamEvent[] = [];
+    for await (const event of chatService.streamMessage(
+      'stream-user',
+      'Hello there'
+    )) {
+      events.push(event);
+    }
+
+    const deltas = events.filter((event) => event.type === 'delta');
+    const done = events[events.length - 1];
+
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(done.type).toBe('done');
+    expect(done.type === 'done' && done.response.content).toBe(
+      'Here is your streamed answer'
+    );
+    const context = await chatService['getContext']('stream-user');
+    expect(context.lastMessage).toBe('Hello there');
+  });
+
+  it('should stop and report cancellation when aborted', async () => {
+    const controller = new AbortController();
+    const events: ChatStreamEvent[] = [];
+
+    for await (const event of chatService.streamMessage(
+      'cancel-user',
+      'Cancel me',
+      { signal: controller.signal }
+    )) {
+      events.push(event);
+      if (event.type === 'delta') {
+        controller.abort();
+      }
+    }
+
+    expect(events.map((event) => event.type)).toEqual(['delta', 'cancelled']);
+    const context = await chatService['getContext']('cancel-user');
+    expect(context.lastMessage).toBeUndefined();
+  });
+});
+
+describe('ChatService agent loop', () => {
+  let chatService: ChatService;
+  let fixture: FixtureProvider;
+  const budgetCall = {
+    id: 'call_budget',
+    name: 'financial_update_budget',
+    input: { category: 'groceries', monthlyAmount: 450 },
+  };
+
+  const collect = async (userId: string, message: string, automationLevel?: AutomationLevel) => {
+    const events: ChatStreamEvent[] = [];
+    for await (const event of chatService.streamMessage(userId, message, { automationLevel })) {
+      events.push(event);
+    }
+    return events;
+  };
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    chatService = ChatService.getInstance();
+    fixture = new FixtureProvider([], 'Final answer');
+    chatService.setProvider('claude', fixture);
+    chatService.setProvider('gpt4', fixture);
   });
-});
\ No newline at end of file
+
+  it('should execute tool calls and feed the results back to the model', async () => {
+    const execute = vi
+      .spyOn(actionService, 'executeAction')
+      .mockResolvedValue(true);
+    fixture
+      .record({
+        match: 'groceries budget',
+        response: 'Updating your budget.',
+        toolCalls: [budgetCall],
+        once: true,
+      })
+      .record({
+        match: 'completed successfully',
+        response: 'Your groceries budget is now $450.',
+      });
+
+    const events = await collect('agent-user', 'Set my groceries budget to 450');
+    const done = events[events.length - 1];
+
+    expect(execute).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'FINANCIAL', action: 'UPDATE_BUDGET' }),
+      'agent-user'
+    );
+    expect(fixture.calls).toHaveLength(2);
+    expect(fixture.calls[1].messages[2].toolResults).toEqual([
+      {
+        toolCallId: 'call_budget',
+        content: 'FINANCIAL.UPDATE_BUDGET completed successfully.',
+        isError: false,
+      },
+    ]);
+    expect(events.filter((event) => event.type === 'step')).toHaveLength(1);
+    expect(done.type === 'done' && done.response.content).toBe(
+      'Updating your budget.\n\nYour groceries budget is now $450.'
+    );
+    expect(done.type === 'done' && done.response.trace).toHaveLength(2);
+  });
+
+  it('should report invalid tool calls to the model without executing them', async () => {
+    const execute = vi.spyOn(actionService, 'executeAction');
+    fixture.record({
+      match: 'groceries budget',
+      response: '',
+      toolCalls: [{ ...budgetCall, input: { category: 'groceries' } }],
+      once: true,
+    });
+
+    const events = await collect('agent-user', 'Set my groceries budget');
+    const done = events[events.length - 1];
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(fixture.calls[1].messages[2].toolResults?.[0]).toMatchObject({
+      isError: true,
+      content: expect.stringContaining('monthlyAmount'),
+    });
+    expect(
+      done.type === 'done' && done.response.trace?.[0].results[0].status
+    ).toBe('rejected');
+  });
+
+  it('should stop at the step budget without leaving the last actions pending', async () => {
+    vi.spyOn(actionService, 'executeAction').mockResolvedValue(true);
+    fixture.record({ match: /budget/i, response: '', toolCalls: [budgetCall] });
+
+    const events = await collect('agent-user', 'Keep updating my budget');
+    const done = events[events.length - 1];
+
+    expect(done.type).toBe('done');
+    if (done.type !== 'done') return;
+    expect(done.response.trace).toHaveLength(5);
+    expect(actionService.executeAction).toHaveBeenCalledTimes(4);
+    expect(done.response.metadata).toEqual({ stepBudgetExhausted: true });
+    expect(done.response.requiresUserApproval).toBe(false);
+    expect(done.response.trace?.[4].results[0].status).toBe('not_executed');
+    expect(events.filter((event) => event.type === 'action')).toHaveLength(0);
+  });
+
+  it('should run the actions planned from the intent before asking the model', async () => {
+    const execute = vi.spyOn(actionService, 'executeAction').mockResolvedValue(true);
+
+    const events: ChatStreamEvent[] = [];
+    for await (const event of chatService.streamMessage('planner-user', 'Set my rent budget to $900', {
+      automationLevel: 'HIGH',
+    })) {
+      events.push(event);
+    }
+    const done = events[events.length - 1];
+
+    expect(execute).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'FINANCIAL',
+        action: 'UPDATE_BUDGET',
+        params: expect.objectContaining({ category: 'rent', monthlyAmount: 900 }),
+      }),
+      'planner-user'
+    );
+    expect(fixture.calls).toHaveLength(0);
+    expect(done.type === 'done' && done.response.metadata).toMatchObject({ automated: true, success: true });
+    const context = await chatService['getContext']('planner-user');
+    expect(context.lastMessage).toBe('Set my rent budget to $900');
+  });
+
+  it('should leave questions and read-only requests to the model', async () => {
+    const execute = vi.spyOn(actionService, 'executeAction');
+    const enqueue = vi.spyOn(approvalQueue, 'enqueue');
+
+    for (const message of [
+      'How much can I deduct for my home office?',
+      'check my credit score',
+      'analyze my expenses',
+      'how do I file form 1040?',
+      'My rent is 1500 dollars a month',
+    ]) {
+      await collect('planner-user', message, 'HIGH');
+    }
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(enqueue).not.toHaveBeenCalled();
+    expect(fixture.calls).toHaveLength(5);
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { contextWindow } from '../context-window.service';
+import { FixtureProvider } from '@/core-hub/ai/providers/fixture.provider';
+import { countTokens } from '@/core-hub/ai/utils/token-counter';
+import {
+  ContextWindowInput,
+  HistoryMessage,
+} from '../../interfaces/context-window.types';
+
+const SUMMARIZE = 'Update the running summary';
+
+function history(turns: number, from = 0): HistoryMessage[] {
+  return Array.from({ length: turns }, (_, index) => index + from).flatMap((turn) => [
+    { role: 'user' as const, content: `question ${turn} about my deductions`, timestamp: turn + 1 },
+    { role: 'assistant' as const, content: `answer ${turn} with some detail`, timestamp: turn + 1 },
+  ]);
+}
+
+describe('ContextWindowManager', () => {
+  const defaults = contextWindow.getConfig();
+  let provider: FixtureProvider;
+
+  const input = (overrides: Partial<ContextWindowInput>): ContextWindowInput => ({
+    userId: 'window-user',
+    message: 'How much can I save this year?',
+    attachmentContext: '',
+    history: [],
+    locale: 'en',
+    provider,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    provider = new FixtureProvider([
+      { match: SUMMARIZE, response: 'User asked about deductions.' },
+    ]);
+    contextWindow.configure({
+      maxTokens: 200,
+      summaryTokens: 40,
+      memoryTokens: 30,
+      profileTokens: 30,
+      maxMemories: 5,
+    });
+    contextWindow.setSources({
+      memories: async () => [],
+      profile: async () => null,
+    });
+  });
+
+  afterEach(() => {
+    contextWindow.configure(defaults);
+  });
+
+  it('should keep the whole conversation verbatim when it fits', async () => {
+    const window = await contextWindow.build(input({ history: history(2) }));
+
+    expect(window.recentTurns).toBe(2);
+    expect(window.summary).toBeUndefined();
+    expect(window.prompt).toContain('question 0 about my deductions');
+    expect(provider.calls).toHaveLength(0);
+  });
+
+  it('should fold older turns into a summary and stay within budget', async () => {
+    const window = await contextWindow.build(input({ history: history(20) }));
+
+    expect(window.recentTurns).toBeGreaterThan(0);
+    expect(window.recentTurns).toBeLessThan(20);
+    expect(window.prompt).toContain('User asked about deductions.');
+    expect(window.prompt).toContain('answer 19 with some detail');
+    expect(window.prompt).not.toContain('question 0 about');
+    expect(window.summary?.through).toBe(20 - window.recentTurns);
+    expect(window.usage.total).toBeLessThanOrEqual(200);
+  });
+
+  it('should only summarize turns that are not in the summary yet', async () => {
+    const first = await contextWindow.build(input({ history: history(20) }));
+    provider.calls.length = 0;
+
+    const second = await contextWindow.build(
+      input({ history: history(21), summary: first.summary })
+    );
+
+    expect(provider.calls).toHaveLength(1);
+    const prompt = provider.calls[0].messages[0].content;
+    expect(prompt).toContain('User asked about deductions.');
+    expect(prompt).not.toContain('question 0 about');
+    expect(second.summary!.through).toBeGreaterThan(first.summary!.through);
+  });
+
+  it('should keep an excerpt of the latest turns when summarization fails', async () => {
+    provider.complete = async () => {
+      throw new Error('model unavailable');
+    };
+
+    const window = await contextWindow.build(input({ history: history(20) }));
+
+    expect(window.summary?.text).toContain(`answer ${19 - window.recentTurns}`);
+    expect(window.usage.summary).toBeLessThanOrEqual(50);
+  });
+
+  it('should add profile and memories within their own budgets', async () => {
+    contextWindow.setSources({
+      memories: async () => [
+        'GOAL: saving for a house',
+        'HABIT: eats out every friday night with friends and family',
+        'EXPENSE: pays 1200 rent',
+      ],
+      profile: async () => ({
+        income: { salary: 85000, lastUpdated: 1 },
+        budget: { monthlyExpenses: { rent: 1200 } },
+      }),
+    });
+
+    const window = await contextWindow.build(input({}));
+
+    expect(window.prompt).toContain('income.salary: 85000');
+    expect(window.prompt).toContain('budget.monthlyExpenses.rent: 1200');
+    expect(window.prompt).not.toContain('lastUpdated');
+    expect(window.prompt).toContain('- GOAL: saving for a house');
+    expect(window.prompt).not.toContain('EXPENSE: pays 1200 rent');
+  });
+
+  it('should load the financial profile once per session', async () => {
+    let loads = 0;
+    contextWindow.setSources({
+      memories: async () => [],
+      profile: async () => {
+        loads += 1;
+        return { income: { salary: 85000 } };
+      },
+    });
+
+    await contextWindow.build(input({ sessionId: 'session-1' }));
+    const window = await contextWindow.build(input({ sessionId: 'session-1' }));
+    await contextWindow.build(input({ sessionId: 'session-2' }));
+
+    expect(window.prompt).toContain('income.salary: 85000');
+    expect(loads).toBe(2);
+  });
+
+  it('should build the prompt without sources that fail', async () => {
+    contextWindow.setSources({
+      memories: async () => {
+        throw new Error('firestore offline');
+      },
+      profile: async () => {
+        throw new Error('firestore offline');
+      },
+    });
+
+    const window = await contextWindow.build(input({ locale: 'es' }));
+
+    expect(window.prompt).toContain('Solicitud actual: How much can I save this year?');
+    expect(window.usage.memories).toBe(0);
+    expect(window.usage.profile).toBe(0);
+  });
+});
+
+describe('ContextWindowManager.compact', () => {
+  const defaults = contextWindow.getConfig();
+  let provider: FixtureProvider;
+
+  beforeEach(() => {
+    provider = new FixtureProvider([
+      { match: SUMMARIZE, response: 'User asked about deductions.' },
+    ]);
+    contextWindow.configure({ maxHistoryMessages: 20 });
+  });
+
+  afterEach(() => {
+    contextWindow.configure(defaults);
+  });
+
+  it('should fold the turns it drops into the summary', async () => {
+    const { history: kept, summary } = await contextWindow.compact(history(12), undefined, 'en', provider);
+
+    expect(kept).toHaveLength(20);
+    expect(kept[0].content).toBe('question 2 about my deductions');
+    expect(summary).toMatchObject({ text: 'User asked about deductions.', through: 2 });
+    expect(provider.calls[0].messages[0].content).toContain('answer 1 with some detail');
+  });
+
+  it('should drop turns already in the summary without summarizing again', async () => {
+    const previous = { text: 'Earlier talk.', through: 2, updatedAt: 1 };
+
+    const result = await contextWindow.compact(history(12), previous, 'en', provider);
+
+    expect(result.history).toHaveLength(20);
+    expect(result.summary).toBe(previous);
+    expect(provider.calls).toHaveLength(0);
+  });
+
+  it('should keep the conversation as it is within the limit', async () => {
+    const result = await contextWindow.compact(history(10), undefined, 'en', provider);
+
+    expect(result.history).toHaveLength(20);
+    expect(result.summary).toBeUndefined();
+  });
+});
+
+describe('countTokens', () => {
+  it('should count more tokens for providers with smaller tokens', () => {
+    const text = 'Itemized deductions exceeded the standard deduction by $2,350.';
+    expect(countTokens(text, 'anthropic')).toBeGreaterThanOrEqual(countTokens(text, 'openai'));
+    expect(countTokens(text, 'openai')).toBeGreaterThan(10);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, beforeEach, afterEach, it, expect, vi } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { ChatService } from '../chat.service';
+import { contextService } from '../context.service';
+import { InMemorySessionStore } from '../../stores/memory-session.store';
+import { SqliteSessionStore } from '../../stores/sqlite-session.store';
+import { FixtureProvider } from '@/core-hub/ai/providers/fixture.provider';
+import { ChatStreamEvent } from '../../interfaces/chat.types';
+
+async function send(userId: string, message: string, sessionId?: string) {
+  const events: ChatStreamEvent[] = [];
+  for await (const event of ChatService.getInstance().streamMessage(userId, message, {
+    sessionId,
+  })) {
+    events.push(event);
+  }
+  return events[events.length - 1];
+}
+
+describe('ContextService sessions', () => {
+  beforeEach(() => {
+    contextService.setRepository(new InMemorySessionStore());
+  });
+
+  it('should list, rename and delete a user sessions', async () => {
+    const first = await contextService.createNewSession('user-1');
+    await contextService.createNewSession('user-2');
+
+    await contextService.renameSession(first.id, 'user-1', '  2024 return  ');
+
+    const sessions = await contextService.listSessions('user-1');
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0]).toMatchObject({ id: first.id, title: '2024 return', messageCount: 0 });
+
+    await contextService.deleteSession(first.id, 'user-1');
+    expect(await contextService.listSessions('user-1')).toEqual([]);
+  });
+
+  it('should not expose sessions of other users', async () => {
+    const session = await contextService.createNewSession('user-1');
+
+    await expect(contextService.getSession(session.id, 'user-2')).rejects.toMatchObject({
+      code: 'SESSION_NOT_FOUND',
+      status: 404,
+    });
+    await expect(contextService.deleteSession(session.id, 'user-2')).rejects.toMatchObject({
+      code: 'SESSION_NOT_FOUND',
+    });
+    await expect(contextService.renameSession(session.id, 'user-1', ' ')).rejects.toMatchObject({
+      code: 'INVALID_SESSION_TITLE',
+    });
+  });
+
+  it('should merge updates into the active session', async () => {
+    await contextService.updateActiveSession('user-1', { context: { lastAction: 'ignored' } });
+    expect(await contextService.listSessions('user-1')).toEqual([]);
+
+    const session = await contextService.createNewSession('user-1');
+    await contextService.updateActiveSession('user-1', {
+      context: { lastSystemChange: 'Wrote src/a.ts' },
+    });
+
+    const stored = await contextService.getSession(session.id, 'user-1');
+    expect(stored.context.lastSystemChange).toBe('Wrote src/a.ts');
+    expect(stored.context.pendingActions).toEqual([]);
+  });
+
+  it('should not write the session when it is only read', async () => {
+    const repository = new InMemorySessionStore();
+    contextService.setRepository(repository);
+    const session = await contextService.createNewSession('user-1');
+    const save = vi.spyOn(repository, 'save');
+
+    await contextService.getSession(session.id, 'user-1');
+
+    expect(save).not.toHaveBeenCalled();
+  });
+});
+
+describe('ChatService conversations', () => {
+  let directory: string;
+  let stores: SqliteSessionStore[];
+  const openStore = () => {
+    const store = new SqliteSessionStore(path.join(directory, 'sessions.db'));
+    stores.push(store);
+    return store;
+  };
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'sessions-'));
+    stores = [];
+    contextService.setRepository(openStore());
+    const fixture = new FixtureProvider([], 'Noted.');
+    ChatService.getInstance().setProvider('claude', fixture);
+    ChatService.getInstance().setProvider('gpt4', fixture);
+  });
+
+  afterEach(async () => {
+    contextService.setRepository(new InMemorySessionStore());
+    stores.forEach((store) => store.close());
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should keep conversations across restarts of the store', async () => {
+    const done = await send('user-1', 'My rent is 1500 dollars a month');
+    const sessionId = done.type === 'done' ? done.response.sessionId : undefined;
+    expect(sessionId).toBeDefined();
+
+    // Un proceso nuevo solo tiene el fichero de la base de datos
+    contextService.setRepository(openStore());
+    const [session] = await contextService.getUserSessions('user-1');
+
+    expect(session.id).toBe(sessionId);
+    expect(session.title).toBe('My rent is 1500 dollars a month');
+    expect(session.messages.map((message) => message.content)).toEqual([
+      'My rent is 1500 dollars a month',
+      'Noted.',
+    ]);
+  });
+
+  it('should continue the requested session instead of the latest one', async () => {
+    const first = await send('user-1', 'First conversation');
+    const firstId = first.type === 'done' ? first.response.sessionId : undefined;
+    const latest = await contextService.createNewSession('user-1');
+
+    const done = await send('user-1', 'Back to the first one', firstId);
+
+    expect(done.type === 'done' && done.response.sessionId).toBe(firstId);
+    const sessions = await contextService.listSessions('user-1');
+    expect(sessions.find((session) => session.id === firstId)?.messageCount).toBe(4);
+    expect(sessions.find((session) => session.id === latest.id)?.messageCount).toBe(0);
+  });
+
+  it('should report unknown sessions', async () => {
+    const done = await send('user-1', 'Hello', 'missing-session');
+    expect(done).toEqual({ type: 'error', message: 'This conversation no longer exists.' });
+  });
+});
@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { memoryService } from '../memory.service';
+import { InMemoryVectorStore } from '../../stores/memory-vector.store';
+import { FixtureProvider } from '@/core-hub/ai/providers/fixture.provider';
+import { HashingEmbedder } from '@/core-hub/ai/providers/hashing.embedder';
+import { embeddingRegistry } from '@/core-hub/ai/services/embedding-registry.service';
+import { cosineSimilarity } from '@/core-hub/ai/utils/vector';
+
+const USER = 'memory-user';
+
+describe('HashingEmbedder', () => {
+  const embedder = new HashingEmbedder(256);
+
+  it('should produce deterministic unit vectors', async () => {
+    const [first, second] = await embedder.embed(['Mortgage interest paid', 'Mortgage interest paid']);
+    expect(first).toHaveLength(256);
+    expect(first).toEqual(second);
+    expect(Math.hypot(...first)).toBeCloseTo(1, 6);
+  });
+
+  it('should rank lexically related texts above unrelated ones', async () => {
+    const [query, related, unrelated] = await embedder.embed([
+      'home mortgage interest',
+      'I paid 8,000 in interest on my mortgage',
+      'Groceries at the supermarket every week',
+    ]);
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+
+  it('should count a repeated trigram as more evidence, not less', async () => {
+    const [query, once, twice] = await embedder.embed(['deduction', 'deductible', 'deductible deducted']);
+    expect(cosineSimilarity(query, once)).toBeGreaterThan(0);
+    expect(cosineSimilarity(query, twice)).toBeGreaterThan(cosineSimilarity(query, once));
+  });
+
+  it('should reject an unknown EMBEDDING_PROVIDER', () => {
+    vi.stubEnv('EMBEDDING_PROVIDER', 'nope');
+    expect(() => embeddingRegistry.resolve()).toThrow('Unknown EMBEDDING_PROVIDER');
+    vi.unstubAllEnvs();
+  });
+});
+
+describe('MemoryService vector retrieval', () => {
+  let store: InMemoryVectorStore;
+
+  beforeEach(() => {
+    store = new InMemoryVectorStore();
+    memoryService.setStore(store);
+    memoryService.setEmbedder(new HashingEmbedder());
+    memoryService.setProvider(new FixtureProvider([], '{"confidence":0.8}'));
+    vi.spyOn(memoryService, 'getFinancialProfile').mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should surface an old relevant memory among many recent ones', async () => {
+    await memoryService.storeMemory(USER, 'Paid 8,000 of mortgage interest on the house', 2, 'EXPENSE');
+    for (let i = 0; i < 25; i++) {
+      await memoryService.storeMemory(USER, `Weekly groceries receipt number ${i} from the market`, 1, 'EXPENSE');
+    }
+
+    const [top] = await memoryService.retrieveRelevantMemories(USER, 'Can I deduct my mortgage interest?', 3);
+
+    expect(top.description).toBe('Paid 8,000 of mortgage interest on the house');
+    expect(top.embedding).toBeUndefined();
+  });
+
+  it('should merge near-identical memories of the same type on write', async () => {
+    const first = await memoryService.storeMemory(USER, 'User pays 1200 dollars rent every month', 1, 'EXPENSE');
+    const merged = await memoryService.storeMemory(USER, 'The user pays 1200 dollars of rent every month', 3, 'EXPENSE');
+    await memoryService.storeMemory(USER, 'User pays 1200 dollars rent every month', 1, 'GOAL');
+
+    const memories = await store.listByUser(USER);
+    expect(memories).toHaveLength(2);
+    expect(merged).toMatchObject({
+      id: first.id,
+      description: 'The user pays 1200 dollars of rent every month',
+      importance: 3,
+      mentions: 2,
+      firstSeen: first.timestamp,
+    });
+  });
+
+  it('should keep distinct memories separate', async () => {
+    await memoryService.storeMemory(USER, 'Saving for a down payment on a house', 1, 'GOAL');
+    await memoryService.storeMemory(USER, 'Paying off the student loan by 2027', 1, 'GOAL');
+
+    expect(await store.listByUser(USER)).toHaveLength(2);
+  });
+
+  it('should index memories saved without an embedding before searching', async () => {
+    await store.save(USER, {
+      id: 'legacy',
+      type: 'INCOME',
+      description: 'Freelance design income from two clients',
+      confidence: 0.7,
+      timestamp: 1,
+    });
+
+    const matches = await memoryService.searchMemories(USER, 'freelance income', 1);
+
+    expect(matches[0].memory.id).toBe('legacy');
+    expect(matches[0].score).toBeGreaterThan(0.3);
+    expect((await store.listByUser(USER))[0].embeddingModel).toBe(new HashingEmbedder().model);
+  });
+
+  it('should store the raw context when the analysis is not valid JSON', async () => {
+    memoryService.setProvider(new FixtureProvider([], 'not json'));
+
+    const memory = await memoryService.storeMemory(USER, 'Bought a new laptop for work', 1, 'EXPENSE');
+
+    expect(memory).toMatchObject({ description: 'Bought a new laptop for work', type: 'EXPENSE' });
+  });
+});
+
+describe('MemoryService lifecycle and management', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  let store: InMemoryVectorStore;
+  const defaults = memoryService.getLifecycleConfig();
+
+  beforeEach(() => {
+    store = new InMemoryVectorStore();
+    memoryService.setStore(store);
+    memoryService.setEmbedder(new HashingEmbedder());
+    memoryService.setProvider(new FixtureProvider([], '{"confidence":0.8}'));
+    vi.spyOn(memoryService, 'getFinancialProfile').mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    memoryService.configureLifecycle(defaults);
+    vi.restoreAllMocks();
+  });
+
+  async function seedRent(now: number) {
+    for (let month = 3; month >= 1; month--) {
+      await store.save(USER, {
+        id: `rent-${month}`,
+        type: 'EXPENSE',
+        description: `Paid 1200 rent for the apartment, month ${month}`,
+        amount: 1200,
+        confidence: 0.9,
+        timestamp: now - month * 30 * DAY,
+        lastAccessed: now - month * 30 * DAY,
+      });
+    }
+  }
+
+  it('should consolidate repeated episodes into a habit during maintenance', async () => {
+    const now = Date.now();
+    await seedRent(now);
+    memoryService.setProvider(
+      new FixtureProvider([
+        {
+          match: 'Merge them into one long-term memory',
+          response: '{"type": "HABIT", "description": "Pays 1200 rent every month"}',
+        },
+      ])
+    );
+
+    const report = await memoryService.runMaintenance(USER, now);
+
+    const memories = await memoryService.listMemories(USER);
+    expect(report.consolidated).toEqual([{ id: memories[0].id, type: 'HABIT', sources: 3 }]);
+    expect(memories).toHaveLength(1);
+    expect(memories[0]).toMatchObject({
+      type: 'HABIT',
+      description: 'Pays 1200 rent every month',
+      amount: 1200,
+      frequency: 'MONTHLY',
+      consolidatedFrom: 3,
+    });
+  });
+
+  it('should forget faded memories and respect the per-user cap', async () => {
+    const now = Date.now();
+    memoryService.configureLifecycle({ maxMemoriesPerUser: 2, consolidationMinCluster: 99 });
+    await store.save(USER, {
+      id: 'old',
+      type: 'CONTEXT',
+      description: 'Asked about a 2019 refund',
+      confidence: 0.5,
+      timestamp: now - 400 * DAY,
+    });
+    await store.save(USER, {
+      id: 'kept',
+      type: 'CONTEXT',
+      description: 'Prefers paper checks',
+      confidence: 0.5,
+      timestamp: now - 400 * DAY,
+      pinned: true,
+    });
+    for (const id of ['a', 'b']) {
+      await store.save(USER, {
+        id,
+        type: 'CONTEXT',
+        description: `recent note ${id}`,
+        confidence: 0.5,
+        timestamp: now - (id === 'a' ? 10 : 1) * DAY,
+      });
+    }
+
+    const report = await memoryService.runMaintenance(USER, now);
+
+    expect(report).toMatchObject({ forgotten: 1, capped: 1 });
+    expect((await memoryService.listMemories(USER)).map((memory) => memory.id)).toEqual([
+      'kept',
+      'b',
+    ]);
+  });
+
+  it('should reinforce memories when they are retrieved', async () => {
+    const stored = await memoryService.storeMemory(USER, 'Contributes to a Roth IRA every year', 1, 'HABIT');
+
+    await memoryService.retrieveRelevantMemories(USER, 'Roth IRA contributions');
+
+    expect(await store.get(USER, stored.id)).toMatchObject({ accessCount: 1 });
+  });
+
+  it('should let the user edit, pin and forget a memory', async () => {
+    const stored = await memoryService.storeMemory(USER, 'Owns a rental condo', 1, 'CONTEXT');
+
+    const edited = await memoryService.updateMemory(USER, stored.id, {
+      description: 'Owns two rental condos',
+      pinned: true,
+    });
+    expect(edited).toMatchObject({ description: 'Owns two rental condos', pinned: true });
+    const [match] = await memoryService.searchMemories(USER, 'Owns two rental condos', 1);
+    expect(match.score).toBeCloseTo(1, 5);
+
+    await expect(
+      memoryService.updateMemory(USER, stored.id, { importance: 9 })
+    ).rejects.toMatchObject({ code: 'INVALID_MEMORY', status: 400 });
+
+    await memoryService.forgetMemory(USER, stored.id);
+    expect(await memoryService.listMemories(USER)).toEqual([]);
+    await expect(memoryService.forgetMemory(USER, stored.id)).rejects.toMatchObject({
+      code: 'MEMORY_NOT_FOUND',
+      status: 404,
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { profileBuilder } from '../profile-builder.service';
+import { memoryService } from '../memory.service';
+import {
+  InMemoryFinancialProfileStore,
+  InMemoryProcessedDocumentStore,
+} from '../../stores/memory-profile.store';
+import { ProcessedDocument } from '../../interfaces/financial-profile.types';
+import { documentExtractionSchema, toProcessedDocument } from '../../utils/document-extraction';
+import { parseStructured } from '@/core-hub/ai/utils/structured-output';
+
+const USER = 'profile-user';
+const NOW = Date.UTC(2025, 2, 1);
+
+const field = (value: number, line: string, confidence = 0.95) => ({ value, line, confidence });
+
+const w2 = (id: string, issuer: string, wages: number, taxYear = 2024, confidence = 0.95): ProcessedDocument => ({
+  id,
+  userId: USER,
+  fileName: `${id}.pdf`,
+  processedAt: NOW,
+  documentType: 'W2',
+  issuer,
+  taxYear,
+  fields: {
+    wages: field(wages, 'W-2 box 1', confidence),
+    federalWithholding: field(wages * 0.12, 'W-2 box 2', confidence),
+  },
+});
+
+const statement = (
+  id: string,
+  accountType: 'CHECKING' | 'CREDIT_CARD',
+  fields: ProcessedDocument['fields'],
+  transactions: Array<{ date: string; description: string; amount: number; category?: string }> = []
+): ProcessedDocument => ({
+  id,
+  userId: USER,
+  fileName: `${id}.pdf`,
+  processedAt: NOW,
+  documentType: 'BANK_STATEMENT',
+  issuer: accountType === 'CREDIT_CARD' ? 'Card Bank' : 'Main Bank',
+  accountType,
+  periodStart: '2025-01-01',
+  periodEnd: '2025-01-31',
+  fields,
+  transactions,
+});
+
+describe('ProfileBuilderService', () => {
+  beforeEach(() => {
+    profileBuilder.setStores(new InMemoryProcessedDocumentStore(), new InMemoryFinancialProfileStore());
+  });
+
+  it('should add up W-2 wages and keep the box each amount comes from', () => {
+    const profile = profileBuilder.build([w2('w2-a', 'Acme', 52000), w2('w2-b', 'Globex', 18000.5)], null, NOW);
+
+    expect(profile.income.salary).toBe(70000.5);
+    expect(profile.taxYear).toBe(2024);
+    expect(profile.provenance?.['income.salary'].sources).toEqual([
+      expect.objectContaining({ documentId: 'w2-a', line: 'W-2 box 1', value: 52000 }),
+      expect.objectContaining({ documentId: 'w2-b', line: 'W-2 box 1', value: 18000.5 }),
+    ]);
+    expect(profile.documents.provided).toEqual(['W2']);
+  });
+
+  it('should only count income from the latest tax year', () => {
+    const interest: ProcessedDocument = {
+      id: 'int-1',
+      userId: USER,
+      fileName: 'int.pdf',
+      processedAt: NOW,
+      documentType: '1099',
+      variant: 'INT',
+      taxYear: 2024,
+      fields: { interestIncome: field(310.25, '1099-INT box 1', 0.9) },
+    };
+    const freelance: ProcessedDocument = {
+      ...interest,
+      id: 'nec-1',
+      variant: 'NEC',
+      fields: { nonemployeeCompensation: field(8400, '1099-NEC box 1') },
+    };
+
+    const profile = profileBuilder.build([w2('w2-old', 'Acme', 40000, 2023), interest, freelance], null, NOW);
+
+    expect(profile.income.salary).toBe(0);
+    expect(profile.income.investments).toBe(310.25);
+    expect(profile.income.otherSources).toEqual({ selfEmployment: 8400 });
+    expect(profile.documents.provided).toEqual(
+      expect.arrayContaining(['W2', '1099-INT', 'INVESTMENT_STATEMENTS', '1099-NEC'])
+    );
+  });
+
+  it('should derive the budget and credit from bank and card statements', () => {
+    const checking = statement(
+      'chk-jan',
+      'CHECKING',
+      { endingBalance: field(5200, 'Ending balance', 0.8) },
+      [
+        { date: '2025-01-03', description: 'Supermarket', amount: -120.4, category: 'Groceries' },
+        { date: '2025-01-17', description: 'Supermarket', amount: -80, category: 'groceries' },
+        { date: '2025-01-20', description: 'To savings', amount: -500, category: 'transfer' },
+        { date: '2025-01-31', description: 'Payroll', amount: 3000 },
+      ]
+    );
+    const card = statement('card-jan', 'CREDIT_CARD', {
+      endingBalance: field(-1250, 'Ending balance', 0.9),
+      creditLimit: field(5000, 'Credit limit', 0.7),
+    });
+
+    const profile = profileBuilder.build([checking, card], null, NOW);
+
+    expect(profile.spending?.monthlyAverages).toEqual({ groceries: 200.4 });
+    expect(profile.budget.monthlyExpenses).toEqual({});
+    expect(profile.budget.emergencyFund).toBe(5200);
+    expect(profile.credit.totalDebt).toBe(1250);
+    expect(profile.credit.availableCredit).toBe(3750);
+    expect(profile.credit.creditCards).toEqual([{ provider: 'Card Bank', limit: 5000, balance: 1250 }]);
+    expect(profile.provenance?.['spending.monthlyAverages.groceries'].sources[0].line).toBe(
+      '2 transactions, 2025-01-01 to 2025-01-31'
+    );
+    // La confianza del crédito disponible es la de la casilla menos fiable
+    expect(profile.provenance?.['credit.availableCredit'].confidence).toBe(0.7);
+  });
+
+  it('should report the lowest confidence among the sources of a field', () => {
+    const profile = profileBuilder.build([w2('w2-a', 'Acme', 30000, 2024, 0.95), w2('w2-b', 'Globex', 20000, 2024, 0.6)]);
+    expect(profile.provenance?.['income.salary'].confidence).toBe(0.6);
+  });
+
+  it('should recompute the stored profile whenever a document is recorded', async () => {
+    await profileBuilder.recordDocument(w2('w2-a', 'Acme', 52000));
+    expect((await profileBuilder.getProfile(USER))?.income.salary).toBe(52000);
+
+    await profileBuilder.recordDocument(w2('w2-b', 'Globex', 8000));
+    // Sin extractos el perfil sigue incompleto: no pedir documentos a Firestore
+    const requestUpdate = vi.spyOn(memoryService, 'requestProfileUpdate').mockResolvedValue();
+    const profile = await memoryService.getFinancialProfile(USER);
+
+    expect(profile?.income.salary).toBe(60000);
+    expect(profile?.documents.provided).toContain('W2');
+    expect(requestUpdate).toHaveBeenCalledWith(USER, profile);
+    expect(memoryService.identifyNeededIntegrations(profile!)).toEqual(['BANK_ACCOUNT', 'CREDIT_BUREAU']);
+    requestUpdate.mockRestore();
+  });
+
+  it('should keep the budgets the user set when the statements are recorded', async () => {
+    const profiles = new InMemoryFinancialProfileStore();
+    profileBuilder.setStores(new InMemoryProcessedDocumentStore(), profiles);
+    const previous = profileBuilder.build([], null, NOW);
+    await profiles.save(USER, { ...previous, budget: { ...previous.budget, monthlyExpenses: { groceries: 450 } } });
+
+    const profile = await profileBuilder.recordDocument(
+      statement('chk-jan', 'CHECKING', { endingBalance: field(900, 'Ending balance') }, [
+        { date: '2025-01-03', description: 'Supermarket', amount: -610, category: 'groceries' },
+      ])
+    );
+    // Una reconstrucción con un perfil leído antes de que el usuario cambie el presupuesto
+    await profiles.save(USER, { ...profile, budget: { ...profile.budget, monthlyExpenses: {} } });
+
+    const stored = await profileBuilder.getProfile(USER);
+    expect(stored?.budget.monthlyExpenses).toEqual({ groceries: 450 });
+    expect(stored?.spending?.monthlyAverages).toEqual({ groceries: 610 });
+  });
+
+  it('should turn a model extraction into a document with known boxes only', () => {
+    const extraction = parseStructured(
+      'Here it is: {"issuer": "Acme", "taxYear": "2024", "fields": {"wages": {"value": "$52,000.00", "confidence": 0.9}, "bonus": {"value": 10}}}',
+      documentExtractionSchema
+    );
+    const document = toProcessedDocument('W2', extraction, {
+      id: 'doc-1',
+      userId: USER,
+      fileName: 'w2.pdf',
+      processedAt: NOW,
+      confidence: 0.5,
+    });
+
+    expect(document.taxYear).toBe(2024);
+    expect(document.fields).toEqual({ wages: { value: 52000, line: 'W-2 box 1', confidence: 0.9 } });
+  });
+});
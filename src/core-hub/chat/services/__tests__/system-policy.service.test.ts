@@ -0,0 +1,129 @@
+import { describe, beforeEach, afterEach, it, expect } from 'vitest';
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { systemPolicy } from '../system-policy.service';
+import { systemActionService } from '../system-action.service';
+import { DEFAULT_SYSTEM_POLICY } from '../../tools/system.policy';
+import { ModuleAction } from '@/shared/types';
+
+describe('SystemPolicyEngine', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'system-policy-'));
+    mkdirSync(join(root, 'data'));
+    systemPolicy.configure({ policy: DEFAULT_SYSTEM_POLICY, root });
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should resolve paths inside the allowed roots', () => {
+    expect(systemPolicy.resolvePath('/data/budget.json').relative).toBe(
+      'data/budget.json'
+    );
+  });
+
+  it('should not allow writing code that the command templates run', () => {
+    expect(() => systemPolicy.resolvePath('/src/app/page.tsx')).toThrow(/not allowed/);
+    expect(() => systemPolicy.resolvePath('/scripts/build.js')).toThrow(/not allowed/);
+    expect(() => systemPolicy.resolvePath('/data/../scripts/build.js')).toThrow(/not allowed/);
+  });
+
+  it('should canonicalise paths before checking them', () => {
+    expect(() => systemPolicy.resolvePath('/data/../.env')).toThrow(/protected: .env/);
+    expect(() => systemPolicy.resolvePath('/data/../../etc/passwd')).toThrow(
+      /escapes the project root/
+    );
+    expect(() => systemPolicy.resolvePath('/data/config/.env.local')).toThrow(/protected/);
+  });
+
+  it('should only run commands that match a template', () => {
+    expect(systemPolicy.resolveCommand('npm run lint')).toMatchObject({
+      template: { id: 'npm-run' },
+      args: ['run', 'lint'],
+    });
+    expect(() => systemPolicy.resolveCommand('npm run lint && rm -rf /')).toThrow(
+      /metacharacters/
+    );
+    expect(() => systemPolicy.resolveCommand('node ../evil.js')).toThrow(/not allowed/);
+    expect(() => systemPolicy.resolveCommand('node /scripts/evil.js')).toThrow(/not allowed/);
+    expect(systemPolicy.resolveCommand('node scripts/extract-form-fields.mjs').template.id).toBe('node-script');
+    expect(() => systemPolicy.resolveCommand('curl example.com')).toThrow(/not allowed/);
+  });
+
+  it('should only run package scripts that finish and leave the project as it is', () => {
+    for (const command of ['npm run format', 'npm run dev', 'yarn run start', 'pnpm run test:auto', 'npm install']) {
+      expect(() => systemPolicy.resolveCommand(command)).toThrow(/not allowed/);
+    }
+    expect(systemPolicy.resolveCommand('pnpm run test:coverage').template.id).toBe('pnpm-run');
+    expect(systemPolicy.resolveCommand('npm install --ignore-scripts').template.id).toBe('npm-install');
+  });
+
+  it('should enforce per-user quotas', () => {
+    systemPolicy.configure({
+      policy: {
+        ...DEFAULT_SYSTEM_POLICY,
+        quotas: {
+          ...DEFAULT_SYSTEM_POLICY.quotas,
+          EXECUTE: { maxOperations: 1, windowMs: 60_000 },
+        },
+      },
+    });
+
+    systemPolicy.checkQuota('user-1', 'EXECUTE');
+    expect(() => systemPolicy.checkQuota('user-1', 'EXECUTE')).toThrow(/Quota/);
+    expect(() => systemPolicy.checkQuota('user-2', 'EXECUTE')).not.toThrow();
+  });
+});
+
+describe('SystemActionService', () => {
+  let root: string;
+  const deleteAction = (dryRun?: boolean): ModuleAction => ({
+    type: 'SYSTEM',
+    action: 'DELETE_FILE',
+    params: { filePath: '/data/notes.txt', dryRun },
+  });
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'system-action-'));
+    mkdirSync(join(root, 'data'));
+    writeFileSync(join(root, 'data/notes.txt'), 'keep me');
+    systemPolicy.configure({ policy: DEFAULT_SYSTEM_POLICY, root });
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should move deleted files to the user trash', async () => {
+    const result = await systemActionService.execute(deleteAction(), 'user-1');
+
+    expect(result).toMatchObject({ status: 'executed', path: 'data/notes.txt' });
+    expect(existsSync(join(root, 'data/notes.txt'))).toBe(false);
+    expect(readdirSync(join(root, '.trash/user-1'))).toHaveLength(1);
+  });
+
+  it('should describe the change without applying it in dry-run mode', async () => {
+    const result = await systemActionService.execute(deleteAction(true), 'user-1');
+
+    expect(result).toMatchObject({ status: 'dry_run', dryRun: true });
+    expect(existsSync(join(root, 'data/notes.txt'))).toBe(true);
+  });
+
+  it('should create missing directories when writing files', async () => {
+    const result = await systemActionService.execute(
+      {
+        type: 'SYSTEM',
+        action: 'CREATE_FILE',
+        params: { filePath: '/data/budgets/new.json', content: '{}' },
+      },
+      'user-1'
+    );
+
+    expect(result).toMatchObject({ status: 'executed', bytesWritten: 2 });
+    expect(existsSync(join(root, 'data/budgets/new.json'))).toBe(true);
+  });
+});
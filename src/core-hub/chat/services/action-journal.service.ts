@@ -0,0 +1,133 @@
+// src/core-hub/chat/services/action-journal.service.ts
+
+import { randomUUID } from 'crypto';
+import { ModuleAction } from '@/shared/types';
+import { db } from '@/shared/config/firebase.config';
+import { AppError } from '@/shared/utils/error-handler';
+import { toolRegistry } from '../tools/tool-registry';
+import { ActionJournalStore, JournalEntry } from '../interfaces/journal.types';
+import { FirestoreJournalStore } from '../stores/firestore-journal.store';
+import { InMemoryJournalStore } from '../stores/memory-journal.store';
+
+export class ActionJournal {
+  private static instance: ActionJournal;
+  private store: ActionJournalStore;
+
+  private constructor() {
+    this.store =
+      process.env.NODE_ENV === 'test' || process.env.JOURNAL_STORE === 'memory'
+        ? new InMemoryJournalStore()
+        : new FirestoreJournalStore(db);
+  }
+
+  static getInstance(): ActionJournal {
+    if (!ActionJournal.instance) {
+      ActionJournal.instance = new ActionJournal();
+    }
+    return ActionJournal.instance;
+  }
+
+  setStore(store: ActionJournalStore): void {
+    this.store = store;
+  }
+
+  async record(
+    userId: string,
+    action: ModuleAction,
+    compensation: ModuleAction | null
+  ): Promise<JournalEntry> {
+    // Una acción nueva invalida lo que quedaba por rehacer
+    const entries = await this.store.listByUser(userId);
+    for (const entry of entries.filter((item) => item.status === 'UNDONE')) {
+      await this.store.save({ ...entry, status: 'SUPERSEDED' });
+    }
+
+    const entry: JournalEntry = {
+      id: randomUUID(),
+      userId,
+      action,
+      compensation,
+      status: 'APPLIED',
+      executedAt: Date.now(),
+    };
+    await this.store.save(entry);
+    return entry;
+  }
+
+  list(userId: string): Promise<JournalEntry[]> {
+    return this.store.listByUser(userId);
+  }
+
+  async get(id: string, userId: string): Promise<JournalEntry> {
+    const entry = await this.store.get(id);
+    if (!entry || entry.userId !== userId) {
+      throw new AppError('JOURNAL_ENTRY_NOT_FOUND', 'Journal entry not found', 404);
+    }
+    return entry;
+  }
+
+  // Última acción aplicada que cambió algo (las consultas no se deshacen)
+  async findUndoable(userId: string): Promise<JournalEntry | null> {
+    const entries = await this.store.listByUser(userId);
+    return (
+      entries.find(
+        (entry) =>
+          entry.status === 'APPLIED' &&
+          !toolRegistry.findByAction(entry.action.type, entry.action.action)
+            ?.readOnly
+      ) || null
+    );
+  }
+
+  async findRedoable(userId: string): Promise<JournalEntry | null> {
+    const entries = await this.store.listByUser(userId);
+    const undone = entries
+      .filter((entry) => entry.status === 'UNDONE')
+      .sort((a, b) => (b.undoneAt || 0) - (a.undoneAt || 0));
+    return undone[0] || null;
+  }
+
+  async findLatestFor(
+    userId: string,
+    action: ModuleAction
+  ): Promise<JournalEntry | null> {
+    const entries = await this.store.listByUser(userId);
+    return (
+      entries.find(
+        (entry) =>
+          entry.status === 'APPLIED' &&
+          entry.action.type === action.type &&
+          entry.action.action === action.action &&
+          JSON.stringify(entry.action.params) === JSON.stringify(action.params)
+      ) || null
+    );
+  }
+
+  async markUndone(entry: JournalEntry): Promise<JournalEntry> {
+    const undone: JournalEntry = {
+      ...entry,
+      status: 'UNDONE',
+      undoneAt: Date.now(),
+    };
+    await this.store.save(undone);
+    return undone;
+  }
+
+  // Al rehacer, la compensación se recalcula sobre el estado actual
+  async markRedone(
+    entry: JournalEntry,
+    compensation: ModuleAction | null
+  ): Promise<JournalEntry> {
+    const redone: JournalEntry = {
+      ...entry,
+      compensation,
+      status: 'APPLIED',
+      executedAt: Date.now(),
+      undoneAt: undefined,
+    };
+    await this.store.save(redone);
+    return redone;
+  }
+}
+
+export const actionJournal = ActionJournal.getInstance();
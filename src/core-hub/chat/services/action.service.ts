@@ -2,17 +2,24 @@ import { ModuleAction } from '@/shared/types';
 import { logger } from '@/shared/utils/logger';
 import { AppError } from '@/shared/utils/error-handler';
 import { contextService } from './context.service';
-import { readFileSync, writeFileSync } from 'fs';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import { join } from 'path';
-
-const execAsync = promisify(exec);
+import { approvalQueue } from './approval-queue.service';
+import { actionJournal } from './action-journal.service';
+import { moduleStateService } from './module-state.service';
+import { systemActionService } from './system-action.service';
+import { systemPolicy } from './system-policy.service';
+import { toolRegistry } from '../tools/tool-registry';
+import {
+  ApprovalDecision,
+  PendingApproval,
+} from '../interfaces/approval.types';
+import { JournalEntry } from '../interfaces/journal.types';
+import { SystemActionResult } from '../interfaces/system-policy.types';
+import { db } from '@/shared/config/firebase.config';
+import { doc, getDoc } from 'firebase/firestore';
+import { existsSync, readFileSync, statSync } from 'fs';
 
 export class ActionService {
   private static instance: ActionService;
-  private readonly ALLOWED_PATHS = ['/src', '/public', '/scripts'];
-  private readonly PROTECTED_FILES = ['.env', '.env.local', 'package.json', '.replit'];
 
   private constructor() {}
 
@@ -24,124 +31,242 @@ export class ActionService {
   }
 
   async executeAction(action: ModuleAction, userId: string): Promise<boolean> {
+    // Los parámetros se validan contra el esquema de la herramienta antes de pedir aprobación
+    action = { ...action, params: toolRegistry.validateAction(action) };
+
     try {
       logger.info('Executing action:', { action, userId });
 
       const userApproval = await this.verifyUserApproval(action, userId);
       if (!userApproval) {
-        throw new AppError('ACTION_UNAUTHORIZED', 'User did not approve this action');
+        throw new AppError('ACTION_UNAUTHORIZED', 'Action is awaiting user approval');
       }
 
-      await this.logActionStart(action, userId);
-
-      switch (action.type) {
-        case 'SYSTEM':
-          return await this.executeSystemAction(action, userId);
-        case 'TAX':
-          return await this.executeTaxAction(action, userId);
-        case 'FINANCIAL':
-          return await this.executeFinancialAction(action, userId);
-        case 'CREDIT':
-          return await this.executeCreditAction(action, userId);
-        default:
-          throw new AppError('INVALID_ACTION', 'Unsupported action type');
-      }
+      return await this.runAction(action, userId);
     } catch (error) {
       logger.error('Error executing action:', error);
       await this.logActionError(action, userId, error);
+      // Se conserva el código original (p. ej. ACTION_UNAUTHORIZED) para quien llama
+      if (error instanceof AppError) {
+        throw error;
+      }
       throw new AppError('ACTION_EXECUTION_ERROR', 'Failed to execute action');
     }
   }
 
-  private async executeSystemAction(action: ModuleAction, userId: string): Promise<boolean> {
-    const { params } = action;
+  // Reanuda o cancela una acción aparcada según la decisión del usuario
+  async resolveApproval(
+    approvalId: string,
+    userId: string,
+    decision: ApprovalDecision,
+    reason?: string
+  ): Promise<PendingApproval> {
+    const approval = await approvalQueue.decide(approvalId, userId, decision, reason);
+    if (decision === 'REJECTED') {
+      return approval;
+    }
 
-    switch (action.action) {
-      case 'MODIFY_FILE':
-        return await this.modifyFile(params.filePath, params.content, userId);
-      case 'CREATE_FILE':
-        return await this.createFile(params.filePath, params.content, userId);
-      case 'DELETE_FILE':
-        return await this.deleteFile(params.filePath, userId);
-      case 'EXECUTE_COMMAND':
-        return await this.executeCommand(params.command, userId);
-      default:
-        throw new AppError('INVALID_SYSTEM_ACTION', 'Unsupported system action');
+    try {
+      const executed = await this.runAction(approval.action, userId);
+      return await approvalQueue.complete(
+        approval,
+        executed ? undefined : 'Action did not complete'
+      );
+    } catch (error) {
+      logger.error('Error executing approved action:', error);
+      await this.logActionError(approval.action, userId, error);
+      return await approvalQueue.complete(
+        approval,
+        error instanceof Error ? error.message : 'Unknown error'
+      );
     }
   }
 
-  private async modifyFile(filePath: string, content: string, userId: string): Promise<boolean> {
-    if (!this.isPathAllowed(filePath)) {
-      throw new AppError('INVALID_PATH', 'Path not allowed for modification');
+  async undoLastAction(userId: string): Promise<JournalEntry> {
+    const entry = await actionJournal.findUndoable(userId);
+    if (!entry) {
+      throw new AppError('NOTHING_TO_UNDO', 'There is no action to undo', 404);
     }
+    return this.undoEntry(entry, userId);
+  }
 
-    try {
-      const fullPath = join(process.cwd(), filePath);
-      writeFileSync(fullPath, content, 'utf8');
-      await this.logSystemChange(userId, `Modified file: ${filePath}`);
-      return true;
-    } catch (error) {
-      throw new AppError('FILE_MODIFICATION_ERROR', `Failed to modify file: ${filePath}`);
+  async undoAction(entryId: string, userId: string): Promise<JournalEntry> {
+    const entry = await actionJournal.get(entryId, userId);
+    if (entry.status !== 'APPLIED') {
+      throw new AppError('ACTION_NOT_APPLIED', 'Only applied actions can be undone', 409);
     }
+    return this.undoEntry(entry, userId);
   }
 
-  private async createFile(filePath: string, content: string, userId: string): Promise<boolean> {
-    if (!this.isPathAllowed(filePath)) {
-      throw new AppError('INVALID_PATH', 'Path not allowed for file creation');
+  async redoLastAction(userId: string): Promise<JournalEntry> {
+    const entry = await actionJournal.findRedoable(userId);
+    if (!entry) {
+      throw new AppError('NOTHING_TO_REDO', 'There is no action to redo', 404);
     }
 
-    try {
-      const fullPath = join(process.cwd(), filePath);
-      writeFileSync(fullPath, content, 'utf8');
-      await this.logSystemChange(userId, `Created file: ${filePath}`);
-      return true;
-    } catch (error) {
-      throw new AppError('FILE_CREATION_ERROR', `Failed to create file: ${filePath}`);
+    const compensation = await this.captureCompensation(entry.action, userId);
+    if (!(await this.dispatch(entry.action, userId))) {
+      throw new AppError('REDO_FAILED', `Failed to redo ${this.actionKey(entry.action)}`);
     }
+    return actionJournal.markRedone(entry, compensation);
   }
 
-  private async deleteFile(filePath: string, userId: string): Promise<boolean> {
-    if (!this.isPathAllowed(filePath)) {
-      throw new AppError('INVALID_PATH', 'Path not allowed for deletion');
+  // Deshace la última ejecución de una acción concreta (rollback de planes)
+  async revertAction(action: ModuleAction, userId: string): Promise<void> {
+    const entry = await actionJournal.findLatestFor(userId, action);
+    if (!entry) {
+      throw new AppError(
+        'JOURNAL_ENTRY_NOT_FOUND',
+        `No applied journal entry for ${this.actionKey(action)}`,
+        404
+      );
     }
-    // Add actual file deletion logic here.  For simplicity, this is a placeholder.
-    try {
-      //Implementation to delete file
-      await this.logSystemChange(userId, `Deleted file: ${filePath}`);
-      return true;
-    } catch (error) {
-      throw new AppError('FILE_DELETION_ERROR', `Failed to delete file: ${filePath}`);
+    await this.undoEntry(entry, userId);
+  }
+
+  private async undoEntry(entry: JournalEntry, userId: string): Promise<JournalEntry> {
+    if (!entry.compensation) {
+      throw new AppError(
+        'ACTION_NOT_REVERSIBLE',
+        `${this.actionKey(entry.action)} cannot be undone`,
+        409,
+        { action: this.actionKey(entry.action) }
+      );
+    }
+
+    if (!(await this.dispatch(entry.compensation, userId))) {
+      throw new AppError('UNDO_FAILED', `Failed to undo ${this.actionKey(entry.action)}`);
     }
+    return actionJournal.markUndone(entry);
   }
 
-  private async executeCommand(command: string, userId: string): Promise<boolean> {
-    const allowedCommands = ['npm', 'yarn', 'pnpm', 'node'];
-    const commandBase = command.split(' ')[0];
+  private async runAction(action: ModuleAction, userId: string): Promise<boolean> {
+    await this.logActionStart(action, userId);
+
+    // El estado previo se captura antes de modificar nada (un dry-run no lo necesita)
+    const compensation = systemActionService.isDryRun(action)
+      ? null
+      : await this.captureCompensation(action, userId);
+    const executed = await this.dispatch(action, userId);
+    // Un dry-run no cambia nada, así que no hay nada que deshacer
+    if (executed && !systemActionService.isDryRun(action)) {
+      await actionJournal.record(userId, action, compensation);
+    }
+    return executed;
+  }
 
-    if (!allowedCommands.includes(commandBase)) {
-      throw new AppError('INVALID_COMMAND', 'Command not allowed');
+  private async dispatch(action: ModuleAction, userId: string): Promise<boolean> {
+    switch (action.type) {
+      case 'SYSTEM':
+        return await this.executeSystemAction(action, userId);
+      case 'TAX':
+        return await this.executeTaxAction(action, userId);
+      case 'FINANCIAL':
+        return await this.executeFinancialAction(action, userId);
+      case 'CREDIT':
+        return await this.executeCreditAction(action, userId);
+      default:
+        throw new AppError('INVALID_ACTION', 'Unsupported action type');
     }
+  }
 
-    try {
-      const { stdout, stderr } = await execAsync(command);
-      await this.logSystemChange(userId, `Executed command: ${command}\nOutput: ${stdout}`);
-      return true;
-    } catch (error) {
-      throw new AppError('COMMAND_EXECUTION_ERROR', `Failed to execute command: ${command}`);
+  private async captureCompensation(
+    action: ModuleAction,
+    userId: string
+  ): Promise<ModuleAction | null> {
+    const { params } = action;
+
+    switch (this.actionKey(action)) {
+      case 'SYSTEM.MODIFY_FILE':
+      case 'SYSTEM.CREATE_FILE': {
+        const prior = this.snapshotFile(params.filePath);
+        return prior === null
+          ? { type: 'SYSTEM', action: 'DELETE_FILE', params: { filePath: params.filePath } }
+          : { type: 'SYSTEM', action: 'MODIFY_FILE', params: prior };
+      }
+      case 'SYSTEM.DELETE_FILE': {
+        const prior = this.snapshotFile(params.filePath);
+        return prior === null ? null : { type: 'SYSTEM', action: 'CREATE_FILE', params: prior };
+      }
+      case 'FINANCIAL.UPDATE_BUDGET':
+        return {
+          type: 'FINANCIAL',
+          action: 'UPDATE_BUDGET',
+          params: {
+            category: params.category,
+            monthlyAmount: await moduleStateService.getBudget(userId, params.category),
+          },
+        };
+      case 'FINANCIAL.CREATE_SAVINGS_GOAL': {
+        const prior = await moduleStateService.getSavingsGoal(userId, params.name);
+        return prior
+          ? { type: 'FINANCIAL', action: 'CREATE_SAVINGS_GOAL', params: { ...prior } }
+          : { type: 'FINANCIAL', action: 'DELETE_SAVINGS_GOAL', params: { name: params.name } };
+      }
+      case 'TAX.UPDATE_PROFILE': {
+        const profile = await moduleStateService.getTaxProfile(userId);
+        return {
+          type: 'TAX',
+          action: 'UPDATE_PROFILE',
+          params: Object.fromEntries(
+            Object.keys(params).map((key) => [key, profile[key] ?? null])
+          ),
+        };
+      }
+      case 'CREDIT.UPDATE_CREDIT_PROFILE': {
+        const prior = await moduleStateService.getCreditAccount(userId, params.provider);
+        return {
+          type: 'CREDIT',
+          action: 'UPDATE_CREDIT_PROFILE',
+          params: prior ? { ...prior } : { provider: params.provider, remove: true },
+        };
+      }
+      default:
+        // Envíos, disputas, comandos y consultas no tienen compensación
+        return null;
     }
   }
 
-  private isPathAllowed(path: string): boolean {
-    if (this.PROTECTED_FILES.some(file => path.includes(file))) {
-      return false;
+  // Copia exacta (en base64) del archivo antes de tocarlo; sin copia la acción no se podría deshacer
+  private snapshotFile(filePath: string): ModuleAction['params'] | null {
+    const { absolute, relative } = systemPolicy.resolvePath(filePath);
+    if (!existsSync(absolute)) {
+      return null;
+    }
+
+    const unavailable = new AppError(
+      'SNAPSHOT_UNAVAILABLE',
+      `Cannot keep a copy of ${relative} to undo this action`,
+      409,
+      { path: relative }
+    );
+    // Una copia mayor que maxFileBytes no se podría volver a escribir
+    if (statSync(absolute).size > systemPolicy.getPolicy().maxFileBytes) {
+      throw unavailable;
     }
-    return this.ALLOWED_PATHS.some(allowedPath => path.startsWith(allowedPath));
+    try {
+      return { filePath, content: readFileSync(absolute).toString('base64'), encoding: 'base64' };
+    } catch {
+      throw unavailable;
+    }
+  }
+
+  private actionKey(action: ModuleAction): string {
+    return `${action.type}.${action.action}`;
+  }
+
+  // La política de sistema decide rutas, comandos y cuotas
+  private async executeSystemAction(action: ModuleAction, userId: string): Promise<boolean> {
+    const result = await systemActionService.execute(action, userId);
+    await this.logSystemChange(userId, result);
+    return true;
   }
 
-  private async logSystemChange(userId: string, change: string): Promise<void> {
-    await contextService.updateSessionContext(userId, {
+  private async logSystemChange(userId: string, result: SystemActionResult): Promise<void> {
+    await contextService.updateActiveSession(userId, {
       context: {
-        lastSystemChange: change,
+        lastSystemChange: result.description,
+        lastSystemResult: result,
         timestamp: Date.now()
       }
     });
@@ -156,15 +281,20 @@ export class ActionService {
     }
 
     if (action.type === 'SYSTEM' && action.metadata?.isReversible) {
-      const context = await contextService.getSessionContext(userId);
+      const context = await contextService.getActiveSession(userId);
       return context?.metadata?.allowAutomatedActions || false;
     }
 
-    return await this.requestUserConfirmation(userId, action);
+    return await this.requestUserConfirmation(
+      userId,
+      action,
+      riskLevel,
+      userPreferences.automationThreshold
+    );
   }
 
   private calculateActionRisk(action: ModuleAction): number {
-    const riskFactors = {
+    const riskFactors: Record<string, number> = {
       FINANCIAL: 0.8,
       TAX: 0.9,
       SYSTEM: 0.5,
@@ -178,21 +308,56 @@ export class ActionService {
     automationThreshold: number;
     allowedActions: string[];
   }> {
-    const userDoc = await this.db.collection('users').doc(userId).get();
-    return userDoc.data()?.automationPreferences || {
+    const defaults = {
       automationThreshold: 0.5,
       allowedActions: ['READ', 'ANALYZE', 'SUGGEST']
     };
+
+    try {
+      const userDoc = await getDoc(doc(db, 'users', userId));
+      return userDoc.data()?.automationPreferences || defaults;
+    } catch (error) {
+      logger.warn('Using default automation preferences:', error);
+      return defaults;
+    }
+  }
+
+  // Aparca la acción en la cola de aprobación; se ejecuta cuando el usuario decide
+  private async requestUserConfirmation(
+    userId: string,
+    action: ModuleAction,
+    riskLevel: number,
+    threshold: number
+  ): Promise<boolean> {
+    await approvalQueue.enqueue(userId, action, {
+      level: riskLevel,
+      explanation: this.explainRisk(action, riskLevel, threshold),
+    });
+    return false;
   }
 
-  private async requestUserConfirmation(userId: string, action: ModuleAction): Promise<boolean> {
-    // Implementar sistema de confirmación en tiempo real
-    // Por ahora retornamos false para acciones de alto riesgo
-    return action.metadata?.riskLevel < 0.8;
+  private explainRisk(action: ModuleAction, riskLevel: number, threshold: number): string {
+    const reasons = [
+      `${action.type}.${action.action} has a risk level of ${riskLevel.toFixed(2)}, above your automation threshold of ${threshold.toFixed(2)}`,
+    ];
+
+    const tool = toolRegistry.findByAction(action.type, action.action);
+    if (tool && !tool.isReversible) {
+      reasons.push('it cannot be undone once executed');
+    }
+
+    const amount = ['amount', 'monthlyAmount', 'targetAmount']
+      .map((key) => action.params[key])
+      .find((value) => typeof value === 'number');
+    if (amount !== undefined) {
+      reasons.push(`it involves $${amount.toLocaleString('en-US')}`);
+    }
+
+    return `${reasons.join('; ')}.`;
   }
 
   private async logActionStart(action: ModuleAction, userId: string): Promise<void> {
-    await contextService.updateSessionContext(userId, {
+    await contextService.updateActiveSession(userId, {
       context: {
         lastAction: action,
         actionStatus: 'STARTED',
@@ -202,7 +367,7 @@ export class ActionService {
   }
 
   private async logActionError(action: ModuleAction, userId: string, error: any): Promise<void> {
-    await contextService.updateSessionContext(userId, {
+    await contextService.updateActiveSession(userId, {
       context: {
         lastAction: action,
         actionStatus: 'ERROR',
@@ -235,6 +400,10 @@ export class ActionService {
         return await this.createSavingsGoal(params, userId);
       case 'ANALYZE_EXPENSES':
         return await this.analyzeExpenses(params, userId);
+      // Solo como compensación de CREATE_SAVINGS_GOAL
+      case 'DELETE_SAVINGS_GOAL':
+        await moduleStateService.deleteSavingsGoal(userId, params.name);
+        return true;
       default:
         throw new AppError('INVALID_FINANCIAL_ACTION', 'Unsupported financial action');
     }
@@ -259,6 +428,7 @@ export class ActionService {
   }
 
   private async updateTaxProfile(params: any, userId: string): Promise<boolean> {
+    await moduleStateService.updateTaxProfile(userId, params);
     return true;
   }
 
@@ -267,10 +437,16 @@ export class ActionService {
   }
 
   private async updateBudget(params: any, userId: string): Promise<boolean> {
+    await moduleStateService.setBudget(userId, params.category, params.monthlyAmount);
     return true;
   }
 
   private async createSavingsGoal(params: any, userId: string): Promise<boolean> {
+    await moduleStateService.saveSavingsGoal(userId, {
+      name: params.name,
+      targetAmount: params.targetAmount,
+      targetDate: params.targetDate,
+    });
     return true;
   }
 
@@ -283,6 +459,16 @@ export class ActionService {
   }
 
   private async updateCreditProfile(params: any, userId: string): Promise<boolean> {
+    if (params.remove) {
+      await moduleStateService.setCreditAccount(userId, params.provider, null);
+      return true;
+    }
+
+    const current = await moduleStateService.getCreditAccount(userId, params.provider);
+    await moduleStateService.setCreditAccount(userId, params.provider, {
+      limit: params.limit ?? current?.limit ?? 0,
+      balance: params.balance ?? current?.balance ?? 0,
+    });
     return true;
   }
 
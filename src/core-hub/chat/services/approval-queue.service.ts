@@ -0,0 +1,175 @@
+// src/core-hub/chat/services/approval-queue.service.ts
+
+import { randomUUID } from 'crypto';
+import { ModuleAction } from '@/shared/types';
+import { db } from '@/shared/config/firebase.config';
+import { logger } from '@/shared/utils/logger';
+import { AppError } from '@/shared/utils/error-handler';
+import {
+  ApprovalAuditEntry,
+  ApprovalDecision,
+  ApprovalStore,
+  PendingApproval,
+} from '../interfaces/approval.types';
+import { FirestoreApprovalStore } from '../stores/firestore-approval.store';
+import { InMemoryApprovalStore } from '../stores/memory-approval.store';
+
+export class ApprovalQueue {
+  private static instance: ApprovalQueue;
+  private store: ApprovalStore;
+  private readonly ttlMs =
+    Number(process.env.APPROVAL_TTL_MINUTES || 24 * 60) * 60 * 1000;
+
+  private constructor() {
+    this.store =
+      process.env.NODE_ENV === 'test' || process.env.APPROVAL_STORE === 'memory'
+        ? new InMemoryApprovalStore()
+        : new FirestoreApprovalStore(db);
+  }
+
+  static getInstance(): ApprovalQueue {
+    if (!ApprovalQueue.instance) {
+      ApprovalQueue.instance = new ApprovalQueue();
+    }
+    return ApprovalQueue.instance;
+  }
+
+  setStore(store: ApprovalStore): void {
+    this.store = store;
+  }
+
+  async enqueue(
+    userId: string,
+    action: ModuleAction,
+    risk: { level: number; explanation: string }
+  ): Promise<PendingApproval> {
+    const now = Date.now();
+    const approval: PendingApproval = {
+      id: randomUUID(),
+      userId,
+      action,
+      riskLevel: risk.level,
+      riskExplanation: risk.explanation,
+      status: 'PENDING',
+      createdAt: now,
+      expiresAt: now + this.ttlMs,
+    };
+
+    await this.store.save(approval);
+    await this.audit(approval, 'REQUESTED', userId, {
+      riskLevel: risk.level,
+    });
+    logger.info('Action parked for user approval:', {
+      approvalId: approval.id,
+      action: `${action.type}.${action.action}`,
+    });
+    return approval;
+  }
+
+  async listPending(userId: string): Promise<PendingApproval[]> {
+    const pending = await this.store.listByUser(userId, 'PENDING');
+    const active: PendingApproval[] = [];
+
+    for (const approval of pending) {
+      if (this.isExpired(approval)) {
+        await this.expire(approval);
+      } else {
+        active.push(approval);
+      }
+    }
+    return active;
+  }
+
+  async get(id: string, userId: string): Promise<PendingApproval> {
+    const approval = await this.store.get(id);
+    if (!approval || approval.userId !== userId) {
+      throw new AppError('APPROVAL_NOT_FOUND', 'Approval request not found', 404);
+    }
+    return approval;
+  }
+
+  async decide(
+    id: string,
+    userId: string,
+    decision: ApprovalDecision,
+    reason?: string
+  ): Promise<PendingApproval> {
+    const approval = await this.get(id, userId);
+
+    if (approval.status !== 'PENDING') {
+      throw new AppError(
+        'APPROVAL_ALREADY_DECIDED',
+        `Approval request is already ${approval.status.toLowerCase()}`,
+        409
+      );
+    }
+    if (this.isExpired(approval)) {
+      await this.expire(approval);
+      throw new AppError('APPROVAL_EXPIRED', 'Approval request has expired', 410);
+    }
+
+    const decided: PendingApproval = {
+      ...approval,
+      status: decision,
+      decidedAt: Date.now(),
+      reason,
+    };
+    // Dos decisiones simultáneas: solo la primera en escribir se aplica
+    if (!(await this.store.saveIfStatus(decided, 'PENDING'))) {
+      const current = await this.get(id, userId);
+      throw new AppError(
+        'APPROVAL_ALREADY_DECIDED',
+        `Approval request is already ${current.status.toLowerCase()}`,
+        409
+      );
+    }
+    await this.audit(decided, decision, userId, reason ? { reason } : undefined);
+    return decided;
+  }
+
+  // Registra el resultado de ejecutar una acción aprobada
+  async complete(approval: PendingApproval, error?: string): Promise<PendingApproval> {
+    const completed: PendingApproval = {
+      ...approval,
+      status: error ? 'FAILED' : 'EXECUTED',
+      error,
+    };
+    await this.store.save(completed);
+    await this.audit(completed, completed.status, 'system', error ? { error } : undefined);
+    return completed;
+  }
+
+  async getAuditTrail(id: string, userId: string): Promise<ApprovalAuditEntry[]> {
+    await this.get(id, userId);
+    return this.store.getAudit(id);
+  }
+
+  private isExpired(approval: PendingApproval): boolean {
+    return approval.expiresAt <= Date.now();
+  }
+
+  private async expire(approval: PendingApproval): Promise<void> {
+    const expired: PendingApproval = { ...approval, status: 'EXPIRED' };
+    if (await this.store.saveIfStatus(expired, 'PENDING')) {
+      await this.audit(expired, 'EXPIRED', 'system');
+    }
+  }
+
+  private async audit(
+    approval: PendingApproval,
+    event: ApprovalAuditEntry['event'],
+    actor: string,
+    details?: Record<string, unknown>
+  ): Promise<void> {
+    await this.store.appendAudit({
+      approvalId: approval.id,
+      userId: approval.userId,
+      event,
+      actor,
+      timestamp: Date.now(),
+      ...(details && { details }),
+    });
+  }
+}
+
+export const approvalQueue = ApprovalQueue.getInstance();
@@ -0,0 +1,171 @@
+// src/core-hub/chat/services/automation-executor.service.ts
+
+import { ModuleAction } from '@/shared/types';
+import { logger } from '@/shared/utils/logger';
+import { AppError } from '@/shared/utils/error-handler';
+import { actionService } from './action.service';
+import {
+  AutomationLevel,
+  AutomationPlan,
+  PlanExecutionResult,
+  PlanStep,
+  PlanStepResult,
+  RollbackHandler,
+} from '../interfaces/automation.types';
+
+const LEVEL_RANK: Record<AutomationLevel, number> = {
+  LOW: 0,
+  MEDIUM: 1,
+  HIGH: 2,
+};
+
+export class AutomationExecutor {
+  private static instance: AutomationExecutor;
+  // Por defecto se deshace con la compensación registrada en el diario de acciones
+  private rollbackHandler: RollbackHandler = (action, userId) =>
+    actionService.revertAction(action, userId);
+
+  private constructor() {}
+
+  static getInstance(): AutomationExecutor {
+    if (!AutomationExecutor.instance) {
+      AutomationExecutor.instance = new AutomationExecutor();
+    }
+    return AutomationExecutor.instance;
+  }
+
+  // Permite que el módulo que sabe deshacer acciones se registre
+  setRollbackHandler(handler: RollbackHandler): void {
+    this.rollbackHandler = handler;
+  }
+
+  async execute(
+    plan: AutomationPlan,
+    userId: string,
+    automationLevel: AutomationLevel
+  ): Promise<PlanExecutionResult> {
+    const results = new Map<string, PlanStepResult>();
+    const completed: PlanStep[] = [];
+    let failure: PlanStepResult | undefined;
+
+    for (const step of plan.steps) {
+      const result = failure
+        ? this.skip(step, `Plan aborted after ${failure.stepId} failed`)
+        : await this.runStep(step, userId, automationLevel, results);
+
+      results.set(step.id, result);
+      if (result.status === 'succeeded') {
+        completed.push(step);
+      } else if (result.status === 'failed') {
+        failure = result;
+      }
+    }
+
+    if (failure) {
+      await this.rollback(completed, userId, results);
+    }
+
+    const steps = plan.steps.map((step) => results.get(step.id)!);
+    return {
+      success: steps.every((result) => result.status === 'succeeded'),
+      summary: this.summarize(steps),
+      steps,
+      actions: steps
+        .filter((result) => result.status === 'succeeded')
+        .map((result) => result.action),
+      pendingApproval: steps
+        .filter((result) => result.status === 'requires_approval')
+        .map((result) => result.action),
+    };
+  }
+
+  private async runStep(
+    step: PlanStep,
+    userId: string,
+    automationLevel: AutomationLevel,
+    results: Map<string, PlanStepResult>
+  ): Promise<PlanStepResult> {
+    const blocked = step.dependsOn.find(
+      (id) => results.get(id)?.status !== 'succeeded'
+    );
+    if (blocked) {
+      return this.skip(step, `Dependency ${blocked} did not succeed`);
+    }
+
+    if (LEVEL_RANK[step.requiredLevel] > LEVEL_RANK[automationLevel]) {
+      return { stepId: step.id, action: step.action, status: 'requires_approval' };
+    }
+
+    try {
+      const executed = await actionService.executeAction(step.action, userId);
+      return executed
+        ? { stepId: step.id, action: step.action, status: 'succeeded' }
+        : {
+            stepId: step.id,
+            action: step.action,
+            status: 'failed',
+            error: 'Action did not complete',
+          };
+    } catch (error) {
+      if (error instanceof AppError && error.code === 'ACTION_UNAUTHORIZED') {
+        return { stepId: step.id, action: step.action, status: 'requires_approval' };
+      }
+      return {
+        stepId: step.id,
+        action: step.action,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  // Deshace en orden inverso los pasos reversibles ya aplicados
+  private async rollback(
+    completed: PlanStep[],
+    userId: string,
+    results: Map<string, PlanStepResult>
+  ): Promise<void> {
+    for (const step of [...completed].reverse()) {
+      if (step.requiredLevel === 'LOW' || !step.action.metadata?.isReversible) {
+        continue;
+      }
+
+      try {
+        await this.rollbackHandler(step.action, userId);
+        results.set(step.id, {
+          stepId: step.id,
+          action: step.action,
+          status: 'rolled_back',
+        });
+      } catch (error) {
+        logger.error('Failed to roll back plan step:', {
+          stepId: step.id,
+          action: this.actionKey(step.action),
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        results.set(step.id, {
+          stepId: step.id,
+          action: step.action,
+          status: 'rollback_failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  }
+
+  private skip(step: PlanStep, reason: string): PlanStepResult {
+    return { stepId: step.id, action: step.action, status: 'skipped', error: reason };
+  }
+
+  private summarize(steps: PlanStepResult[]): string {
+    return steps
+      .map((result) => `${this.actionKey(result.action)}: ${result.status}`)
+      .join(', ');
+  }
+
+  private actionKey(action: ModuleAction): string {
+    return `${action.type}.${action.action}`;
+  }
+}
+
+export const automationExecutor = AutomationExecutor.getInstance();
@@ -0,0 +1,151 @@
+// src/core-hub/chat/services/automation-planner.service.ts
+
+import { ModuleAction } from '@/shared/types';
+import { logger } from '@/shared/utils/logger';
+import { AppError } from '@/shared/utils/error-handler';
+import { IntentAnalysis } from '../utils/intent-analyzer';
+import { toolRegistry } from '../tools/tool-registry';
+import {
+  AutomationLevel,
+  AutomationPlan,
+  AutomationUserContext,
+  PlanStep,
+} from '../interfaces/automation.types';
+
+// Acciones que deben completarse antes, si forman parte del mismo plan
+const ACTION_PREREQUISITES: Record<string, string[]> = {
+  'TAX.CALCULATE_DEDUCTIONS': ['TAX.UPDATE_PROFILE'],
+  'TAX.SUBMIT_FORM': ['TAX.UPDATE_PROFILE', 'TAX.CALCULATE_DEDUCTIONS'],
+  'FINANCIAL.UPDATE_BUDGET': ['FINANCIAL.ANALYZE_EXPENSES'],
+  'FINANCIAL.CREATE_SAVINGS_GOAL': [
+    'FINANCIAL.ANALYZE_EXPENSES',
+    'FINANCIAL.UPDATE_BUDGET',
+  ],
+  'CREDIT.ANALYZE_SCORE': ['CREDIT.UPDATE_CREDIT_PROFILE'],
+};
+
+export class AutomationPlanner {
+  private static instance: AutomationPlanner;
+
+  private constructor() {}
+
+  static getInstance(): AutomationPlanner {
+    if (!AutomationPlanner.instance) {
+      AutomationPlanner.instance = new AutomationPlanner();
+    }
+    return AutomationPlanner.instance;
+  }
+
+  createPlan(
+    intent: IntentAnalysis,
+    userContext: AutomationUserContext
+  ): AutomationPlan {
+    const steps: PlanStep[] = [];
+
+    intent.suggestedActions.forEach((suggested) => {
+      const step = this.toStep(suggested, userContext, steps.length + 1);
+      if (step) {
+        steps.push(step);
+      }
+    });
+
+    for (const step of steps) {
+      const prerequisites = ACTION_PREREQUISITES[this.actionKey(step.action)] || [];
+      step.dependsOn = steps
+        .filter(
+          (other) =>
+            other !== step &&
+            prerequisites.includes(this.actionKey(other.action))
+        )
+        .map((other) => other.id);
+    }
+
+    return { intent, steps: this.sortByDependencies(steps) };
+  }
+
+  private toStep(
+    action: ModuleAction,
+    userContext: AutomationUserContext,
+    position: number
+  ): PlanStep | null {
+    // Las acciones de sistema nunca se planifican automáticamente
+    if (action.type === 'SYSTEM') {
+      return null;
+    }
+
+    if (userContext.pendingActions.some((pending) => this.isSameAction(pending, action))) {
+      return null;
+    }
+
+    const tool = toolRegistry.findByAction(action.type, action.action);
+    let params: ModuleAction['params'];
+    try {
+      params = toolRegistry.validateAction(action);
+    } catch (error) {
+      logger.warn('Discarding invalid suggested action:', {
+        action: this.actionKey(action),
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+
+    return {
+      id: `step-${position}`,
+      action: {
+        ...action,
+        params,
+        metadata: { ...action.metadata, isReversible: tool?.isReversible },
+      },
+      dependsOn: [],
+      requiredLevel: this.getRequiredLevel(tool?.readOnly, tool?.isReversible),
+    };
+  }
+
+  private getRequiredLevel(
+    readOnly?: boolean,
+    isReversible?: boolean
+  ): AutomationLevel {
+    if (readOnly) {
+      return 'LOW';
+    }
+    return isReversible ? 'MEDIUM' : 'HIGH';
+  }
+
+  // Orden topológico estable: respeta el orden sugerido cuando no hay dependencias
+  private sortByDependencies(steps: PlanStep[]): PlanStep[] {
+    const sorted: PlanStep[] = [];
+    const placed = new Set<string>();
+    const remaining = [...steps];
+
+    while (remaining.length > 0) {
+      const index = remaining.findIndex((step) =>
+        step.dependsOn.every((id) => placed.has(id))
+      );
+      if (index === -1) {
+        throw new AppError(
+          'PLAN_CYCLE',
+          `Circular dependency between steps: ${remaining.map((step) => step.id).join(', ')}`
+        );
+      }
+
+      const [next] = remaining.splice(index, 1);
+      sorted.push(next);
+      placed.add(next.id);
+    }
+
+    return sorted;
+  }
+
+  private isSameAction(a: ModuleAction, b: ModuleAction): boolean {
+    return (
+      this.actionKey(a) === this.actionKey(b) &&
+      JSON.stringify(a.params) === JSON.stringify(b.params)
+    );
+  }
+
+  private actionKey(action: ModuleAction): string {
+    return `${action.type}.${action.action}`;
+  }
+}
+
+export const automationPlanner = AutomationPlanner.getInstance();
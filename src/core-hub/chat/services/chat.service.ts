@@ -1,36 +1,79 @@
-import { Anthropic } from '@anthropic-ai/sdk';
-import { OpenAI } from 'openai';
-import { Message, ChatResponse, AIModel } from '../interfaces/chat.types';
+import { randomUUID } from 'crypto';
+import {
+  Message,
+  ChatResponse,
+  ChatSession,
+  MessageAction,
+  MessageAttachment,
+  AIModel,
+  ChatStreamEvent,
+  AgentStep,
+  AgentToolResult,
+} from '../interfaces/chat.types';
+import { toolRegistry } from '../tools/tool-registry';
+import { actionService } from './action.service';
+import { automationPlanner } from './automation-planner.service';
+import { automationExecutor } from './automation-executor.service';
+import { contextWindow } from './context-window.service';
+import { contextService } from './context.service';
+import { moduleStateService } from './module-state.service';
+import { profileBuilder } from './profile-builder.service';
+import { intentAnalyzer, isExplicitRequest } from '../utils/intent-analyzer';
+import { ChatCommand, parseChatCommand, parseWhatIfCommand } from '../utils/chat-commands';
+import { formatWhatIfReport } from '../utils/what-if-report';
+import {
+  AutomationLevel,
+  AutomationUserContext,
+  PlanStepResult,
+} from '../interfaces/automation.types';
+import { ConversationSummary } from '../interfaces/context-window.types';
+import {
+  LLMCompletionRequest,
+  LLMCompletionResponse,
+  LLMMessage,
+  LLMProvider,
+  LLMToolCall,
+} from '@/core-hub/ai/interfaces/llm-provider.types';
+import { providerRegistry } from '@/core-hub/ai/services/provider-registry.service';
 import { logger } from '@/shared/utils/logger';
 import { AppError } from '@/shared/utils/error-handler';
 import { RateLimiter } from '@/shared/utils/rate-limiter';
-import { Cache } from '@/shared/utils/cache';
-import { retry } from '@/shared/utils/retry';
-import { Timeout } from '@/shared/utils/timeout';
+import { ModuleAction } from '@/shared/types';
+import { DEFAULT_LOCALE, Locale, localizeError, t } from '@/shared/i18n/i18n';
+import { TaxOptimizationService } from '@/modules/taxAdvisor/services/tax-optimization.service';
+import { taxReturnInputFromIncomeRecords } from '@/modules/taxAdvisor/engine/return-input';
+import { incomeRecordsFromDocuments } from '@/modules/taxAdvisor/extraction/income-records';
+import { detectLanguage } from '@/shared/i18n/language-detector';
+
+// Vista de la sesión que usan el prompt y la selección de modelo
+interface ConversationContext {
+  session: ChatSession;
+  conversationHistory: Message[];
+  summary?: ConversationSummary;
+  lastMessage?: string;
+  lastResponse?: ChatResponse;
+  locale?: Locale;
+}
 
 export class ChatService {
   private static instance: ChatService;
-  private anthropic: Anthropic;
-  private openai: OpenAI;
+  private providers: Record<AIModel, LLMProvider>;
   private rateLimiter: RateLimiter;
-  private cache: Cache<string, ChatResponse>;
-  private readonly MAX_RETRIES = 3;
   private readonly TIMEOUT_MS = 30000;
-
-  private currentContext: Map<
-    string,
-    {
-      lastMessage: string;
-      lastResponse: ChatResponse;
-      timestamp: number;
-      conversationHistory: Message[];
+  // Máximo de llamadas al modelo por mensaje en el bucle agente
+  private readonly MAX_AGENT_STEPS = 5;
+  // Confianza mínima de la intención para ejecutar su plan sin pasar por el modelo
+  private readonly AUTOMATION_MIN_CONFIDENCE = 0.75;
+
+  private constructor(
+    providers: Record<AIModel, LLMProvider> = {
+      claude: providerRegistry.resolve('anthropic'),
+      gpt4: providerRegistry.resolve('openai'),
     }
-  > = new Map();
-
-  private constructor() {
+  ) {
+    this.providers = providers;
     this.initializeServices();
     this.rateLimiter = new RateLimiter({ maxRequests: 50, perMinute: 1 });
-    this.cache = new Cache({ maxSize: 1000, ttl: 3600000 });
   }
 
   private async initializeServices(): Promise<void> {
@@ -39,31 +82,15 @@ export class ChatService {
         return;
       }
 
-      if (!process.env.ANTHROPIC_API_KEY || !process.env.OPENAI_API_KEY) {
-        throw new Error('Missing required API keys');
-      }
-
-      this.anthropic = new Anthropic({
-        apiKey: process.env.ANTHROPIC_API_KEY,
-      });
-
-      this.openai = new OpenAI({
-        apiKey: process.env.OPENAI_API_KEY,
-      });
-
       // Validate connections with a simple test request
-      await Promise.all([
-        this.anthropic.messages.create({
-          model: 'claude-3-opus-20240229',
-          max_tokens: 10,
-          messages: [{ role: 'user', content: 'test' }]
-        }),
-        this.openai.chat.completions.create({
-          model: 'gpt-4-turbo-preview',
-          messages: [{ role: 'user', content: 'test' }],
-          max_tokens: 10
-        })
-      ]);
+      await Promise.all(
+        Object.values(this.providers).map((provider) =>
+          provider.complete({
+            maxTokens: 10,
+            messages: [{ role: 'user', content: 'test' }],
+          })
+        )
+      );
 
       logger.info('AI services initialized and validated successfully');
     } catch (error) {
@@ -80,6 +107,11 @@ export class ChatService {
     return ChatService.instance;
   }
 
+  // Permite sustituir el modelo por entorno o inyectar un proveedor en tests
+  setProvider(model: AIModel, provider: LLMProvider): void {
+    this.providers[model] = provider;
+  }
+
   async processMessage(
     userId: string,
     message: string,
@@ -89,100 +121,331 @@ export class ChatService {
       name: string;
       metadata?: Record<string, unknown>;
     }>,
-    automationLevel: 'LOW' | 'MEDIUM' | 'HIGH' = 'MEDIUM'
+    automationLevel: AutomationLevel = 'MEDIUM',
+    // Sin sessionId se continúa la última conversación del usuario
+    sessionId?: string
   ): Promise<ChatResponse> {
-    // Analyze user intent and context
-    const intent = await this.analyzeIntent(message);
-    const userContext = await this.getUserContext(userId);
-    const automationPlan = await this.createAutomationPlan(intent, userContext);
-
-    // Execute automated actions if appropriate
-    if (automationPlan.actions.length > 0) {
-      const executionResult = await this.executeAutomatedActions(
-        automationPlan.actions,
-        userId,
-        automationLevel
-      );
-      
-      if (executionResult.success) {
-        return {
-          content: `Automated actions completed: ${executionResult.summary}`,
-          actions: executionResult.actions,
-          metadata: { automated: true }
-        };
+    // Misma conversación que el stream; solo se espera a la respuesta completa
+    for await (const event of this.streamMessage(userId, message, {
+      attachments,
+      sessionId,
+      automationLevel,
+    })) {
+      if (event.type === 'done') {
+        return event.response;
       }
+      if (event.type === 'error') {
+        throw new AppError('CHAT_ERROR', event.message);
+      }
+    }
+    throw new AppError('CHAT_ERROR', 'Failed to process message: stream ended without a response');
+  }
+
+  /**
+   * Procesa el mensaje en streaming: emite los fragmentos de texto a medida
+   * que llegan, un evento 'step' por cada ronda de herramientas y, al
+   * terminar, las acciones pendientes y la respuesta completa. Si la señal se
+   * aborta, el mensaje no se guarda en el contexto.
+   */
+  async *streamMessage(
+    userId: string,
+    message: string,
+    options: {
+      attachments?: Array<{
+        type: string;
+        content: Buffer | string;
+        name: string;
+        metadata?: Record<string, unknown>;
+      }>;
+      signal?: AbortSignal;
+      sessionId?: string;
+      automationLevel?: AutomationLevel;
+    } = {}
+  ): AsyncGenerator<ChatStreamEvent> {
+    let context: ConversationContext;
+    try {
+      context = await this.getContext(userId, options.sessionId);
+    } catch (error) {
+      const fallback = detectLanguage(message) ?? DEFAULT_LOCALE;
+      yield { type: 'error', message: this.getErrorMessage(error, fallback) };
+      return;
+    }
+    const locale = this.resolveLocale(context, message);
+    if (!(await this.rateLimiter.checkLimit())) {
+      yield { type: 'error', message: t(locale, 'chat.rateLimited') };
+      return;
     }
-    await this.rateLimiter.checkLimit(userId);
 
-    const cacheKey = this.generateCacheKey(userId, message);
-    const cachedResponse = this.cache.get(cacheKey);
-    if (cachedResponse) {
-      return cachedResponse;
+    const command = parseChatCommand(message);
+    if (command) {
+      const response: ChatResponse = {
+        ...(await this.runChatCommand(command, userId, locale, message)),
+        sessionId: context.session.id,
+      };
+      yield { type: 'delta', text: response.content };
+      yield { type: 'done', response };
+      return;
     }
 
-    try {
-      const context = await this.getContext(userId);
-      const modelType = await this.determineAIModel(message, context);
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    options.signal?.addEventListener('abort', abort);
 
-      let attachmentContext = '';
-      if (attachments?.length) {
-        attachmentContext = await this.processAttachments(attachments);
+    // El timeout se reinicia con cada fragmento: solo corta streams inactivos
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+    const resetIdleTimer = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(abort, this.TIMEOUT_MS);
+    };
+
+    try {
+      const automated = await this.runAutomation(
+        userId,
+        message,
+        context,
+        locale,
+        options.automationLevel ?? 'MEDIUM'
+      );
+      if (automated) {
+        yield { type: 'delta', text: automated.content };
+        for (const action of automated.actions || []) {
+          yield { type: 'action', action };
+        }
+        await this.updateContext(context, message, automated, options.attachments);
+        yield { type: 'done', response: automated };
+        return;
       }
 
-      const response = await Timeout.wrap(
-        this.getAIResponseWithRetry(
-          message,
-          attachmentContext,
-          context,
-          modelType
-        ),
-        this.TIMEOUT_MS
+      const model = await this.determineAIModel(message, context);
+      const attachmentContext = options.attachments?.length
+        ? await this.processAttachments(options.attachments)
+        : '';
+      const prompt = await this.buildPrompt(
+        message,
+        attachmentContext,
+        context,
+        locale,
+        this.providers[model]
       );
 
-      await this.updateContext(userId, message, response);
-      this.cache.set(cacheKey, response);
+      const messages: LLMMessage[] = [{ role: 'user', content: prompt }];
+      const trace: AgentStep[] = [];
+      let response: LLMCompletionResponse | undefined;
+
+      do {
+        resetIdleTimer();
+        response = undefined;
+        // Separa visualmente el texto de pasos consecutivos
+        let separator = trace.some((step) => step.text) ? '\n\n' : '';
+
+        for await (const event of this.providers[model].stream(
+          this.buildRequest(model, messages, locale),
+          { signal: controller.signal }
+        )) {
+          if (controller.signal.aborted) {
+            break;
+          }
+          resetIdleTimer();
+
+          if (event.type === 'delta') {
+            yield { type: 'delta', text: separator + event.text };
+            separator = '';
+          } else {
+            response = event.response;
+          }
+        }
+
+        if (controller.signal.aborted) {
+          if (options.signal?.aborted) {
+            yield { type: 'cancelled' };
+            return;
+          }
+          throw new AppError('CHAT_TIMEOUT', 'Request timed out. Please try again.');
+        }
+        if (!response) {
+          throw new AppError('CHAT_STREAM_ERROR', 'Model stream ended unexpectedly');
+        }
+
+        // La ejecución de acciones no cuenta como inactividad del stream
+        clearTimeout(idleTimer);
+        const step = await this.runAgentStep(userId, trace.length, response, messages);
+        trace.push(step);
+        if (step.toolCalls.length > 0) {
+          yield { type: 'step', step };
+        }
+      } while (this.shouldContinue(trace));
+
+      const chatResponse: ChatResponse = {
+        ...this.buildAgentResponse(model, trace, response, locale),
+        sessionId: context.session.id,
+      };
+      for (const action of chatResponse.actions || []) {
+        yield { type: 'action', action };
+      }
 
-      return response;
+      await this.updateContext(context, message, chatResponse, options.attachments);
+      yield { type: 'done', response: chatResponse };
     } catch (error) {
-      logger.error('Error processing message:', {
+      if (options.signal?.aborted) {
+        yield { type: 'cancelled' };
+        return;
+      }
+      logger.error('Error streaming message:', {
         userId,
         messagePreview: message.substring(0, 100),
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: error instanceof Error ? error.message : 'Unknown error',
       });
-      throw new AppError(
-        'CHAT_ERROR',
-        'Failed to process message: ' + (error instanceof Error ? error.message : 'Unknown error')
-      );
+      yield { type: 'error', message: this.getErrorMessage(error, locale) };
+    } finally {
+      clearTimeout(idleTimer);
+      options.signal?.removeEventListener('abort', abort);
     }
   }
 
-  private async getAIResponseWithRetry(
+  /**
+   * Intención de una orden explícita -> plan -> ejecución de los pasos que
+   * permite el nivel de automatización. Devuelve la respuesta si se llegó a ejecutar
+   * algún paso; si no (sin pasos o todos pendientes de aprobación), null y
+   * responde el modelo.
+   */
+  private async runAutomation(
+    userId: string,
     message: string,
-    attachmentContext: string,
-    context: unknown,
-    model: AIModel
-  ): Promise<ChatResponse> {
-    return retry(
-      () => this.getAIResponse(message, attachmentContext, context, model),
-      this.MAX_RETRIES
+    context: ConversationContext,
+    locale: Locale,
+    automationLevel: AutomationLevel
+  ): Promise<ChatResponse | null> {
+    // Solo órdenes explícitas: una pregunta nunca ejecuta ni aparca acciones
+    if (!isExplicitRequest(message)) {
+      return null;
+    }
+    const intent = await intentAnalyzer.analyzeIntent(message);
+    if (intent.confidence < this.AUTOMATION_MIN_CONFIDENCE) {
+      return null;
+    }
+    const plan = automationPlanner.createPlan(intent, this.getUserContext(userId, context));
+    // Los análisis de solo lectura los hace el modelo con sus herramientas
+    if (plan.steps.every((step) => step.requiredLevel === 'LOW')) {
+      return null;
+    }
+
+    const result = await automationExecutor.execute(plan, userId, automationLevel);
+    const attempted = result.steps.some(
+      (step) => step.status !== 'requires_approval' && step.status !== 'skipped'
     );
+    if (!attempted) {
+      return null;
+    }
+    return {
+      content: t(locale, result.success ? 'chat.automation.completed' : 'chat.automation.incomplete', {
+        summary: result.summary,
+      }),
+      actions: result.pendingApproval,
+      requiresUserApproval: result.pendingApproval.length > 0,
+      locale,
+      sessionId: context.session.id,
+      metadata: { automated: true, success: result.success, steps: result.steps },
+    };
+  }
+
+  // El idioma detectado en el mensaje; si no es concluyente, el de la sesión
+  private resolveLocale(context: ConversationContext, message: string): Locale {
+    return detectLanguage(message) ?? context.locale ?? DEFAULT_LOCALE;
+  }
+
+  private async runChatCommand(
+    command: ChatCommand,
+    userId: string,
+    locale: Locale,
+    message: string
+  ): Promise<ChatResponse> {
+    try {
+      if (command === 'WHAT_IF') {
+        return await this.runWhatIf(userId, message, locale);
+      }
+      const entry =
+        command === 'UNDO'
+          ? await actionService.undoLastAction(userId)
+          : await actionService.redoLastAction(userId);
+      const action = `${entry.action.type}.${entry.action.action}`;
+      return {
+        content: t(locale, command === 'UNDO' ? 'chat.command.undone' : 'chat.command.redone', {
+          action,
+        }),
+        actions: [],
+        requiresUserApproval: false,
+        locale,
+        metadata: { command, journalEntryId: entry.id },
+      };
+    } catch (error) {
+      // Los errores esperados (nada que deshacer, acción irreversible) se explican al usuario
+      if (!(error instanceof AppError)) {
+        throw error;
+      }
+      return {
+        content: localizeError(error, locale),
+        actions: [],
+        requiresUserApproval: false,
+        locale,
+        metadata: { command, error: error.code },
+      };
+    }
   }
 
-  private generateCacheKey(userId: string, message: string): string {
-    return `${userId}:${message}`;
+  // Simula la pregunta con el motor fiscal sobre la declaración que sale de los documentos del usuario
+  private async runWhatIf(userId: string, message: string, locale: Locale): Promise<ChatResponse> {
+    const deltas = parseWhatIfCommand(message) ?? [];
+    const [documents, taxProfile] = await Promise.all([
+      profileBuilder.listDocuments(userId),
+      moduleStateService.getTaxProfile(userId),
+    ]);
+    const input = taxReturnInputFromIncomeRecords(incomeRecordsFromDocuments(documents), taxProfile);
+    if (!input) {
+      return {
+        content: t(locale, 'chat.whatIf.noIncome'),
+        actions: [],
+        requiresUserApproval: false,
+        locale,
+        metadata: { command: 'WHAT_IF', deltas },
+      };
+    }
+
+    const scenarios = await new TaxOptimizationService(this.providers.claude).simulateScenarios(
+      input,
+      deltas,
+      { explain: false, locale }
+    );
+    return {
+      content: formatWhatIfReport(scenarios, locale),
+      actions: [],
+      requiresUserApproval: false,
+      locale,
+      metadata: {
+        command: 'WHAT_IF',
+        deltas,
+        scenarios: scenarios.map(({ name, projectedTax, potentialSavings, notes, computation }) => ({
+          name,
+          projectedTax,
+          potentialSavings,
+          notes,
+          marginalRate: computation.marginalRate,
+          effectiveRate: computation.effectiveRate,
+        })),
+      },
+    };
   }
 
-  private getErrorMessage(error: unknown): string {
+  private getErrorMessage(error: unknown, locale: Locale = DEFAULT_LOCALE): string {
     if (error instanceof Error) {
       if (error.message.includes('timeout')) {
-        return 'Request timed out. Please try again.';
+        return t(locale, 'chat.timeout');
       }
       if (error.message.includes('rate limit')) {
-        return 'Too many requests. Please wait a moment.';
+        return t(locale, 'chat.rateLimited');
       }
-      return error.message;
+      return error instanceof AppError ? localizeError(error, locale) : error.message;
     }
-    return 'An unexpected error occurred';
+    return t(locale, 'errors.UNKNOWN_ERROR');
   }
 
   private async determineAIModel(
@@ -226,80 +489,159 @@ export class ChatService {
     return Math.min(complexity, 1);
   }
 
-  private async getAIResponse(
-    message: string,
-    attachmentContext: string,
-    context: unknown,
-    model: AIModel
-  ): Promise<ChatResponse> {
-    const prompt = this.buildPrompt(message, attachmentContext, context);
+  private buildRequest(
+    model: AIModel,
+    messages: LLMMessage[],
+    locale: Locale
+  ): LLMCompletionRequest {
+    return {
+      system: t(locale, `prompts.system.${model}`),
+      messages: [...messages],
+      tools: toolRegistry.getModelTools(),
+      temperature: 0.7,
+      ...(model === 'claude' && { maxTokens: 4096 }),
+    };
+  }
 
-    if (model === 'claude') {
-      return await this.getClaudeResponse(prompt);
-    } else {
-      return await this.getGPT4Response(prompt);
-    }
+  private shouldContinue(trace: AgentStep[]): boolean {
+    const last = trace[trace.length - 1];
+    return last.toolCalls.length > 0 && trace.length < this.MAX_AGENT_STEPS;
   }
 
-  private async getClaudeResponse(prompt: string): Promise<ChatResponse> {
-    const response = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
-      max_tokens: 4096,
-      temperature: 0.7,
-      messages: [
+  private async runAgentStep(
+    userId: string,
+    index: number,
+    response: LLMCompletionResponse,
+    messages: LLMMessage[]
+  ): Promise<AgentStep> {
+    const toolCalls = response.toolCalls || [];
+    // En el último paso no se ejecuta nada: el modelo ya no vería el resultado
+    const canExecute = index + 1 < this.MAX_AGENT_STEPS;
+    const results = await this.executeToolCalls(userId, toolCalls, canExecute);
+
+    if (toolCalls.length > 0) {
+      messages.push(
+        { role: 'assistant', content: response.text, toolCalls },
         {
           role: 'user',
-          content: prompt,
-        },
-      ],
-      system: `You are Andy AI, an advanced autonomous financial assistant with deep automation capabilities.
-        Core Capabilities:
-        1. Proactive Decision Making: Analyze user context and autonomously suggest/execute beneficial actions
-        2. Advanced Automation: Execute complex financial workflows without user intervention when appropriate
-        3. Contextual Memory: Build and maintain detailed user financial profiles
-        4. Predictive Analysis: Anticipate user needs and potential financial opportunities
-        5. Multi-step Planning: Break down complex financial tasks into automated sequences
-        
-        Authorization Levels:
-        - LOW: Information and suggestions only
-        - MEDIUM: Execute simple, reversible actions
-        - HIGH: Execute complex financial operations with user confirmation
-        
-        Always maintain security and seek explicit confirmation for sensitive operations.`,
-    });
+          content: '',
+          toolResults: results.map((result) => ({
+            toolCallId: result.toolCallId,
+            content: result.output,
+            isError: result.status !== 'executed',
+          })),
+        }
+      );
+    }
 
     return {
-      content: response.content[0].text,
-      source: 'claude',
-      actions: this.extractActions(response.content[0].text),
-      confidence: response.content[0].role === 'assistant' ? 0.9 : 0.7,
+      index,
+      text: response.text,
+      toolCalls,
+      results,
+      stopReason: response.stopReason,
     };
   }
 
-  private async getGPT4Response(prompt: string): Promise<ChatResponse> {
-    const response = await this.openai.chat.completions.create({
-      model: 'gpt-4-turbo-preview',
-      temperature: 0.7,
-      messages: [
-        {
-          role: 'system',
-          content:
-            'You are Andy AI, a sophisticated financial assistant specializing in tax preparation, financial analysis, and document processing. Prioritize accuracy in financial calculations and tax-related advice. Provide step-by-step explanations when analyzing complex financial scenarios.',
-        },
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-      response_format: { type: 'text' },
-      presence_penalty: 0.1,
-      frequency_penalty: 0.1,
-    });
+  // Secuencial: una acción puede depender del efecto de la anterior
+  private async executeToolCalls(
+    userId: string,
+    toolCalls: LLMToolCall[],
+    canExecute: boolean
+  ): Promise<AgentToolResult[]> {
+    const results: AgentToolResult[] = [];
+
+    for (const call of toolCalls) {
+      const { actions, rejected } = toolRegistry.parseToolCalls([call]);
+      if (rejected.length > 0) {
+        logger.warn('Rejected tool call from model:', {
+          tool: call.name,
+          error: rejected[0].error,
+        });
+        results.push({
+          toolCallId: call.id,
+          tool: call.name,
+          status: 'rejected',
+          output: `Invalid tool call: ${rejected[0].error}`,
+        });
+        continue;
+      }
+
+      const action = actions[0];
+      if (!canExecute) {
+        results.push({
+          toolCallId: call.id,
+          tool: call.name,
+          action,
+          status: 'not_executed',
+          output: 'Step budget exhausted; the action was not executed.',
+        });
+        continue;
+      }
+
+      results.push(await this.executeToolAction(userId, call, action));
+    }
+
+    return results;
+  }
+
+  private async executeToolAction(
+    userId: string,
+    call: LLMToolCall,
+    action: ModuleAction
+  ): Promise<AgentToolResult> {
+    const base = { toolCallId: call.id, tool: call.name, action };
+    const label = `${action.type}.${action.action}`;
+
+    try {
+      const executed = await actionService.executeAction(action, userId);
+      return executed
+        ? { ...base, status: 'executed', output: `${label} completed successfully.` }
+        : { ...base, status: 'failed', output: `${label} did not complete.` };
+    } catch (error) {
+      if (error instanceof AppError && error.code === 'ACTION_UNAUTHORIZED') {
+        return {
+          ...base,
+          status: 'pending_approval',
+          output: `${label} requires user approval before it can run.`,
+        };
+      }
+      return {
+        ...base,
+        status: 'failed',
+        output: `${label} failed: ${this.getErrorMessage(error)}`,
+      };
+    }
+  }
+
+  private buildAgentResponse(
+    model: AIModel,
+    trace: AgentStep[],
+    last: LLMCompletionResponse,
+    locale: Locale
+  ): ChatResponse {
+    // Solo las que el usuario debe aprobar; lo que quedó fuera del presupuesto
+    // de pasos se descarta y se avisa con stepBudgetExhausted
+    const actions = trace
+      .flatMap((step) => step.results)
+      .filter((result) => result.status === 'pending_approval')
+      .flatMap((result) => (result.action ? [result.action] : []));
+    const budgetExhausted = trace[trace.length - 1].toolCalls.length > 0;
 
     return {
-      content: response.choices[0].message.content || '',
-      source: 'gpt4',
-      actions: this.extractActions(response.choices[0].message.content || ''),
+      content: trace
+        .map((step) => step.text)
+        .filter(Boolean)
+        .join('\n\n'),
+      source: model,
+      actions,
+      requiresUserApproval: actions.length > 0,
+      trace,
+      locale,
+      ...(model === 'claude' && {
+        confidence: last.stopReason === 'max_tokens' ? 0.7 : 0.9,
+      }),
+      ...(budgetExhausted && { metadata: { stepBudgetExhausted: true } }),
     };
   }
 
@@ -336,56 +678,69 @@ export class ChatService {
     }
   }
 
-  private buildPrompt(
+  // Historial, resumen, recuerdos y perfil ajustados al presupuesto de tokens
+  private async buildPrompt(
     message: string,
     attachmentContext: string,
-    context: any
-  ): string {
-    const conversationHistory = context.conversationHistory || [];
-    const lastInteractions = conversationHistory.slice(-3); // Mantener últimas 3 interacciones
-
-    return `
-Previous Context: ${lastInteractions.map((msg) => `${msg.role}: ${msg.content}`).join('\n')}
-${attachmentContext ? `Document Analysis:\n${attachmentContext}\n` : ''}
-Current Request: ${message}
+    context: ConversationContext,
+    locale: Locale,
+    provider: LLMProvider
+  ): Promise<string> {
+    const window = await contextWindow.build({
+      userId: context.session.userId,
+      sessionId: context.session.id,
+      message,
+      attachmentContext,
+      history: context.conversationHistory,
+      summary: context.summary,
+      locale,
+      provider,
+    });
 
-Focus on providing specific, actionable financial guidance based on the complete context. If analyzing documents, highlight key financial implications and tax considerations.
-    `.trim();
+    // Se guarda con el resto de la sesión al terminar el mensaje
+    context.summary = window.summary;
+    return window.prompt;
   }
 
-  private extractActions(response: string): Array<{
-    type: string;
-    payload: unknown;
-  }> {
-    const actions = [];
-    const actionPatterns = [
-      { regex: /\[ACTION:FORM_REQUEST:(.*?)\]/g, type: 'FORM_REQUEST' },
-      { regex: /\[ACTION:CALCULATION:(.*?)\]/g, type: 'CALCULATION' },
-      { regex: /\[ACTION:VERIFICATION:(.*?)\]/g, type: 'VERIFICATION' }
-    ];
-
-    for (const pattern of actionPatterns) {
-      const matches = [...response.matchAll(pattern.regex)];
-      for (const match of matches) {
-        actions.push({
-          type: pattern.type,
-          payload: match[1].trim()
-        });
-      }
-    }
-
-    return actions;
+  private getUserContext(
+    userId: string,
+    context: ConversationContext
+  ): AutomationUserContext {
+    return {
+      userId,
+      pendingActions: context.lastResponse?.actions || [],
+    };
   }
 
-  private async getContext(userId: string): Promise<any> {
-    return this.currentContext.get(userId) || {};
+  private async getContext(
+    userId: string,
+    sessionId?: string
+  ): Promise<ConversationContext> {
+    const session = sessionId
+      ? await contextService.getSession(sessionId, userId)
+      : (await contextService.getActiveSession(userId)) ??
+        (await contextService.createNewSession(userId));
+    const lastUserMessage = [...session.messages]
+      .reverse()
+      .find((message) => message.role === 'user');
+
+    return {
+      session,
+      conversationHistory: session.messages,
+      summary: session.summary,
+      lastMessage: lastUserMessage?.content,
+      lastResponse: session.lastResponse,
+      locale: session.locale,
+    };
   }
 
   private async updateContext(
-    userId: string,
+    context: ConversationContext,
     message: string,
-    response: ChatResponse
+    response: ChatResponse,
+    attachments: Array<{ type: string; name: string; metadata?: Record<string, unknown> }> = []
   ): Promise<void> {
+    const { userId } = context.session;
     try {
       if (!userId || !message) {
         throw new AppError(
@@ -394,18 +749,24 @@ Focus on providing specific, actionable financial guidance based on the complete
         );
       }
 
-      const currentContext = this.currentContext.get(userId) || {};
+      // Otros servicios pueden haber anotado la sesión mientras se respondía
+      const session =
+        (await contextService.getSessionContext(context.session.id)) ??
+        context.session;
       const timestamp = Date.now();
-      const maxHistoryLength = 50; // Limitar el historial para evitar problemas de memoria
 
-      const newHistory = [
-        ...(currentContext.conversationHistory || []).slice(-maxHistoryLength),
+      const turn: Message[] = [
         {
+          id: randomUUID(),
           role: 'user',
           content: message,
           timestamp,
+          ...(attachments.length > 0 && {
+            metadata: { attachments: attachments.map((item) => this.attachmentRef(item)) },
+          }),
         },
         {
+          id: randomUUID(),
           role: 'assistant',
           content: response.content,
           timestamp,
@@ -413,28 +774,34 @@ Focus on providing specific, actionable financial guidance based on the complete
             confidence: response.confidence,
             source: response.source,
             processingTime: Date.now() - timestamp,
+            actions: this.actionsOf(response),
           },
         },
       ];
+      // El historial guardado tiene tope; lo que sale de él queda en el resumen
+      const { history: messages, summary } = await contextWindow.compact(
+        [...session.messages, ...turn],
+        context.summary ?? session.summary,
+        response.locale ?? session.locale ?? DEFAULT_LOCALE,
+        this.providers.claude
+      );
 
-      const contextUpdate = {
-        ...currentContext,
-        lastMessage: message,
+      await contextService.saveSession({
+        ...session,
+        title: session.title || contextService.titleFrom(message),
+        messages,
+        summary,
         lastResponse: response,
-        timestamp,
-        conversationHistory: newHistory,
-        metrics: {
-          ...currentContext.metrics,
-          totalInteractions:
-            (currentContext.metrics?.totalInteractions || 0) + 1,
-          lastUpdateTime: timestamp,
+        locale: response.locale ?? session.locale,
+        context: {
+          ...session.context,
+          lastInteraction: timestamp,
+          pendingActions: (response.actions || []).map(
+            (action) => `${action.type}.${action.action}`
+          ),
         },
-      };
-
-      this.currentContext.set(userId, contextUpdate);
-
-      // Persistir el contexto en caso de reinicio
-      await this.persistContext(userId, contextUpdate);
+        metadata: { ...session.metadata, lastAccessed: timestamp },
+      });
     } catch (error) {
       logger.error('Error updating context:', {
         userId,
@@ -447,18 +814,35 @@ Focus on providing specific, actionable financial guidance based on the complete
     }
   }
 
-  private async persistContext(userId: string, context: any): Promise<void> {
-    try {
-      const db = getFirestore(firebaseApp);
-      const contextRef = doc(db, `users/${userId}/context/current`);
-      await setDoc(contextRef, {
-        ...context,
-        lastUpdated: Timestamp.now(),
-      });
-    } catch (error) {
-      logger.warn('Failed to persist context:', error);
-      // No lanzar error para no interrumpir la conversación
-    }
+  private attachmentRef(attachment: {
+    type: string;
+    name: string;
+    metadata?: Record<string, unknown>;
+  }): MessageAttachment {
+    const documentId = attachment.metadata?.documentId;
+    return {
+      name: attachment.name,
+      type: attachment.type,
+      ...(typeof documentId === 'string' && { documentId }),
+    };
+  }
+
+  // Acciones del turno: las del bucle agente o las del plan automático
+  private actionsOf(response: ChatResponse): MessageAction[] {
+    const record = (action: ModuleAction, status: MessageAction['status']) => ({
+      type: action.type,
+      action: action.action,
+      params: action.params,
+      status,
+    });
+    const steps = (response.metadata?.steps as PlanStepResult[] | undefined) || [];
+
+    return [
+      ...(response.trace || [])
+        .flatMap((step) => step.results)
+        .flatMap((result) => (result.action ? [record(result.action, result.status)] : [])),
+      ...steps.map((step) => record(step.action, step.status)),
+    ];
   }
 
   private requiresTechnicalAnalysis(message: string): boolean {
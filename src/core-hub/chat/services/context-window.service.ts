@@ -0,0 +1,394 @@
+// src/core-hub/chat/services/context-window.service.ts
+
+import { LLMProvider } from '@/core-hub/ai/interfaces/llm-provider.types';
+import {
+  countTokens,
+  truncateToTokens,
+} from '@/core-hub/ai/utils/token-counter';
+import { logger } from '@/shared/utils/logger';
+import { Locale, t } from '@/shared/i18n/i18n';
+import {
+  ContextSources,
+  ContextWindow,
+  ContextWindowConfig,
+  ContextWindowInput,
+  ConversationSummary,
+  HistoryCompaction,
+  HistoryMessage,
+} from '../interfaces/context-window.types';
+import { memoryService } from './memory.service';
+
+const DEFAULT_CONFIG: ContextWindowConfig = {
+  maxTokens: Number(process.env.CHAT_CONTEXT_TOKENS) || 6000,
+  summaryTokens: 600,
+  memoryTokens: 800,
+  profileTokens: 600,
+  maxMemories: 5,
+  maxHistoryMessages: 50,
+  profileTtlMs: 5 * 60 * 1000,
+};
+
+const memoryServiceSources: ContextSources = {
+  async memories(userId, message, limit) {
+    const memories = await memoryService.retrieveRelevantMemories(
+      userId,
+      message,
+      limit
+    );
+    return memories.map((memory) => `${memory.type}: ${memory.description}`);
+  },
+  async profile(userId) {
+    const profile = await memoryService.getFinancialProfile(userId);
+    if (!profile) {
+      return null;
+    }
+    // La procedencia de cada campo no aporta al prompt y ocupa muchos tokens
+    const summary: Record<string, unknown> = { ...profile };
+    delete summary.provenance;
+    return summary;
+  },
+};
+
+const emptySources: ContextSources = {
+  memories: async () => [],
+  profile: async () => null,
+};
+
+/**
+ * Arma el prompt de cada mensaje dentro de un presupuesto de tokens:
+ * perfil financiero y recuerdos relevantes con tope propio, los turnos
+ * recientes literales y los anteriores plegados en un resumen incremental.
+ */
+export class ContextWindowManager {
+  private static instance: ContextWindowManager;
+  private config: ContextWindowConfig = { ...DEFAULT_CONFIG };
+  private sources: ContextSources =
+    process.env.NODE_ENV === 'test' ? emptySources : memoryServiceSources;
+  // Perfil por sesión: cargarlo puede escribir en Firestore si está desactualizado
+  private profiles = new Map<string, { profile: Record<string, unknown> | null; loadedAt: number }>();
+
+  private constructor() {}
+
+  static getInstance(): ContextWindowManager {
+    if (!ContextWindowManager.instance) {
+      ContextWindowManager.instance = new ContextWindowManager();
+    }
+    return ContextWindowManager.instance;
+  }
+
+  configure(config: Partial<ContextWindowConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): ContextWindowConfig {
+    return { ...this.config };
+  }
+
+  setSources(sources: ContextSources): void {
+    this.sources = sources;
+    this.profiles.clear();
+  }
+
+  async build(input: ContextWindowInput): Promise<ContextWindow> {
+    const { locale, provider } = input;
+    const count = (text: string) => countTokens(text, provider.name);
+
+    const request = [
+      input.attachmentContext
+        ? `${t(locale, 'prompts.context.documents')}:\n${input.attachmentContext}\n`
+        : '',
+      `${t(locale, 'prompts.context.request')}: ${input.message}`,
+      '',
+      t(locale, 'prompts.context.guidance'),
+    ].join('\n');
+
+    const [profile, memories] = await Promise.all([
+      this.loadProfile(input.userId, input.sessionId, locale, provider),
+      this.loadMemories(input.userId, input.message, locale, provider),
+    ]);
+
+    // Lo que queda para la conversación; si no cabe entera se reserva el resumen
+    const available =
+      this.config.maxTokens - count(request) - count(profile) - count(memories);
+    const turns = this.groupTurns(input.history);
+    const fitsEntirely =
+      !input.summary && this.packRecent(turns, available, provider).length === turns.length;
+    const recent = fitsEntirely
+      ? turns
+      : this.packRecent(turns, available - this.config.summaryTokens, provider);
+
+    const folded = turns
+      .slice(0, turns.length - recent.length)
+      .filter((turn) => turn[0].timestamp > (input.summary?.through ?? -Infinity));
+    const summary = folded.length
+      ? await this.fold(input.summary, folded, locale, provider)
+      : input.summary;
+
+    const summarySection = summary
+      ? `${t(locale, 'prompts.context.summary')}:\n${summary.text}`
+      : '';
+    const historySection = recent.length
+      ? `${t(locale, 'prompts.context.previous')}:\n${recent
+          .flat()
+          .map((message) => this.formatMessage(message))
+          .join('\n')}`
+      : '';
+
+    const prompt = [profile, memories, summarySection, historySection, request]
+      .filter(Boolean)
+      .join('\n\n');
+
+    const window: ContextWindow = {
+      prompt,
+      summary,
+      recentTurns: recent.length,
+      usage: {
+        total: count(prompt),
+        request: count(request),
+        profile: count(profile),
+        memories: count(memories),
+        summary: count(summarySection),
+        history: count(historySection),
+      },
+    };
+    logger.debug('Context window built:', {
+      userId: input.userId,
+      provider: provider.name,
+      recentTurns: window.recentTurns,
+      foldedTurns: folded.length,
+      ...window.usage,
+    });
+    return window;
+  }
+
+  /**
+   * Recorta el historial que se guarda a maxHistoryMessages, por turnos
+   * enteros y conservando siempre el último. Los turnos que se quitan y aún
+   * no estaban en el resumen se pliegan en él antes de descartarlos.
+   */
+  async compact<T extends HistoryMessage>(
+    history: T[],
+    summary: ConversationSummary | undefined,
+    locale: Locale,
+    provider: LLMProvider
+  ): Promise<HistoryCompaction<T>> {
+    const turns = this.groupTurns(history);
+    let kept = history.length;
+    let dropped = 0;
+    while (kept > this.config.maxHistoryMessages && dropped < turns.length - 1) {
+      kept -= turns[dropped].length;
+      dropped += 1;
+    }
+    if (dropped === 0) {
+      return { history, summary };
+    }
+
+    const folded = turns
+      .slice(0, dropped)
+      .filter((turn) => turn[0].timestamp > (summary?.through ?? -Infinity));
+    return {
+      history: turns.slice(dropped).flat(),
+      summary: folded.length ? await this.fold(summary, folded, locale, provider) : summary,
+    };
+  }
+
+  // Un turno agrupa los mensajes guardados con la misma marca de tiempo
+  // (pregunta y respuesta), para no partirlos entre resumen y literal
+  private groupTurns<T extends HistoryMessage>(history: T[]): T[][] {
+    const turns: T[][] = [];
+    for (const message of history) {
+      const last = turns[turns.length - 1];
+      if (last && last[0].timestamp === message.timestamp) {
+        last.push(message);
+      } else {
+        turns.push([message]);
+      }
+    }
+    return turns;
+  }
+
+  // Los turnos más recientes que caben en el presupuesto, en orden cronológico
+  private packRecent(
+    turns: HistoryMessage[][],
+    budget: number,
+    provider: LLMProvider
+  ): HistoryMessage[][] {
+    const recent: HistoryMessage[][] = [];
+    let used = 0;
+    for (const turn of [...turns].reverse()) {
+      const tokens = turn.reduce(
+        (total, message) =>
+          total + countTokens(this.formatMessage(message), provider.name),
+        0
+      );
+      if (used + tokens > budget) {
+        break;
+      }
+      used += tokens;
+      recent.unshift(turn);
+    }
+    return recent;
+  }
+
+  private async fold(
+    previous: ConversationSummary | undefined,
+    turns: HistoryMessage[][],
+    locale: Locale,
+    provider: LLMProvider
+  ): Promise<ConversationSummary> {
+    const { summaryTokens } = this.config;
+    const lines = turns
+      .flat()
+      .map((message) =>
+        truncateToTokens(this.formatMessage(message), summaryTokens, provider.name)
+      );
+    const through = turns[turns.length - 1][0].timestamp;
+
+    let text: string;
+    try {
+      const response = await provider.complete({
+        messages: [
+          {
+            role: 'user',
+            content: t(locale, 'prompts.context.summarize', {
+              summary: previous?.text || '-',
+              turns: lines.join('\n'),
+              maxWords: Math.floor(summaryTokens * 0.75),
+            }),
+          },
+        ],
+        maxTokens: summaryTokens,
+        temperature: 0,
+      });
+      text = response.text.trim();
+    } catch (error) {
+      // Sin modelo disponible se conservan literalmente los turnos más recientes
+      logger.warn('Failed to summarize conversation, keeping an excerpt:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      text = this.tail([previous?.text, ...lines].filter(Boolean).join('\n'), provider);
+    }
+
+    return {
+      text: truncateToTokens(text, summaryTokens, provider.name),
+      through,
+      updatedAt: Date.now(),
+    };
+  }
+
+  private tail(text: string, provider: LLMProvider): string {
+    const lines = text.split('\n');
+    const kept: string[] = [];
+    let used = 0;
+    for (const line of lines.reverse()) {
+      used += countTokens(line, provider.name);
+      if (used > this.config.summaryTokens) {
+        break;
+      }
+      kept.unshift(line);
+    }
+    return kept.join('\n');
+  }
+
+  private async loadProfile(
+    userId: string,
+    sessionId: string | undefined,
+    locale: Locale,
+    provider: LLMProvider
+  ): Promise<string> {
+    try {
+      const profile = await this.cachedProfile(userId, sessionId);
+      if (!profile) {
+        return '';
+      }
+      const lines = this.flatten(profile).join('\n');
+      const body = truncateToTokens(lines, this.config.profileTokens, provider.name);
+      return body ? `${t(locale, 'prompts.context.profile')}:\n${body}` : '';
+    } catch (error) {
+      logger.warn('Failed to load financial profile for context:', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return '';
+    }
+  }
+
+  private async cachedProfile(
+    userId: string,
+    sessionId: string | undefined
+  ): Promise<Record<string, unknown> | null> {
+    const now = Date.now();
+    const cached = sessionId ? this.profiles.get(sessionId) : undefined;
+    if (cached && now - cached.loadedAt < this.config.profileTtlMs) {
+      return cached.profile;
+    }
+
+    const profile = await this.sources.profile(userId);
+    if (sessionId) {
+      // Se aprovecha para soltar los perfiles de sesiones inactivas
+      for (const [id, entry] of this.profiles) {
+        if (now - entry.loadedAt >= this.config.profileTtlMs) {
+          this.profiles.delete(id);
+        }
+      }
+      this.profiles.set(sessionId, { profile, loadedAt: now });
+    }
+    return profile;
+  }
+
+  private async loadMemories(
+    userId: string,
+    message: string,
+    locale: Locale,
+    provider: LLMProvider
+  ): Promise<string> {
+    try {
+      const memories = await this.sources.memories(
+        userId,
+        message,
+        this.config.maxMemories
+      );
+      // Vienen ordenados por relevancia: se añaden mientras quepan
+      const kept: string[] = [];
+      let used = 0;
+      for (const memory of memories) {
+        const line = `- ${memory}`;
+        used += countTokens(line, provider.name);
+        if (used > this.config.memoryTokens) {
+          break;
+        }
+        kept.push(line);
+      }
+      return kept.length
+        ? `${t(locale, 'prompts.context.memories')}:\n${kept.join('\n')}`
+        : '';
+    } catch (error) {
+      logger.warn('Failed to load memories for context:', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return '';
+    }
+  }
+
+  // { income: { salary: 1 } } -> ['income.salary: 1']; omite marcas de tiempo
+  private flatten(value: unknown, prefix = ''): string[] {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return Object.entries(value as Record<string, unknown>)
+        .filter(([key]) => key !== 'lastUpdated')
+        .flatMap(([key, child]) =>
+          this.flatten(child, prefix ? `${prefix}.${key}` : key)
+        );
+    }
+    if (value === undefined || value === null || value === '') {
+      return [];
+    }
+    return [`${prefix}: ${typeof value === 'string' ? value : JSON.stringify(value)}`];
+  }
+
+  private formatMessage(message: HistoryMessage): string {
+    return `${message.role}: ${message.content}`;
+  }
+}
+
+export const contextWindow = ContextWindowManager.getInstance();
@@ -1,43 +1,48 @@
-
+import { randomUUID } from 'crypto';
+import path from 'path';
 import { ChatSession } from '../interfaces/chat.types';
-import { firebaseApp } from '@/shared/config/firebase.config';
+import {
+  ChatSessionSummary,
+  ChatSessionUpdate,
+  SessionExportFile,
+  SessionExportFormat,
+  SessionRepository,
+} from '../interfaces/session.types';
+import { FirestoreSessionStore } from '../stores/firestore-session.store';
+import { InMemorySessionStore } from '../stores/memory-session.store';
+import { SqliteSessionStore } from '../stores/sqlite-session.store';
+import { renderMarkdown, sessionExportSchema, toSessionExport } from '../utils/session-export';
+import { renderPdf } from '../utils/session-pdf';
+import { db } from '@/shared/config/firebase.config';
 import { logger } from '@/shared/utils/logger';
 import { AppError } from '@/shared/utils/error-handler';
-import {
-  getFirestore,
-  doc,
-  getDoc,
-  setDoc,
-  updateDoc,
-  query,
-  collection,
-  where,
-  getDocs,
-  orderBy,
-  limit,
-  DocumentSnapshot,
-  Timestamp,
-} from 'firebase/firestore';
+import { DEFAULT_LOCALE, Locale, isLocale } from '@/shared/i18n/i18n';
+
+// SESSION_STORE=memory|sqlite|firestore; en tests siempre en memoria
+function createRepository(): SessionRepository {
+  if (process.env.NODE_ENV === 'test' || process.env.SESSION_STORE === 'memory') {
+    return new InMemorySessionStore();
+  }
+  if (process.env.SESSION_STORE === 'sqlite') {
+    return new SqliteSessionStore(
+      path.resolve(process.env.SESSION_STORE_PATH || '.data/sessions.db')
+    );
+  }
+  return new FirestoreSessionStore(db);
+}
 
+/**
+ * Única fuente de las conversaciones: ChatService guarda aquí los mensajes,
+ * el resumen y el idioma, y los demás servicios registran su estado en la
+ * sesión activa del usuario.
+ */
 export class ContextService {
   private static instance: ContextService;
-  private db = getFirestore(firebaseApp);
-  private readonly SESSIONS_COLLECTION = 'sessions';
+  private repository: SessionRepository = createRepository();
   private readonly MAX_SESSION_AGE_DAYS = 30;
+  private readonly MAX_TITLE_LENGTH = 60;
 
-  private constructor() {
-    this.initializeService();
-  }
-
-  private async initializeService(): Promise<void> {
-    try {
-      await getFirestore(firebaseApp);
-      logger.info('ContextService initialized successfully');
-    } catch (error) {
-      logger.error('Failed to initialize ContextService:', error);
-      throw new AppError('SERVICE_INIT_ERROR', 'Failed to initialize ContextService');
-    }
-  }
+  private constructor() {}
 
   static getInstance(): ContextService {
     if (!ContextService.instance) {
@@ -46,96 +51,147 @@ export class ContextService {
     return ContextService.instance;
   }
 
+  setRepository(repository: SessionRepository): void {
+    this.repository = repository;
+  }
+
   async getSessionContext(sessionId: string): Promise<ChatSession | null> {
     try {
-      const sessionRef = doc(this.db, this.SESSIONS_COLLECTION, sessionId);
-      const sessionDoc = await getDoc(sessionRef);
+      const session = await this.repository.get(sessionId);
 
-      if (!sessionDoc.exists()) {
+      if (!session) {
         logger.warn(`Session not found: ${sessionId}`);
         return null;
       }
 
-      const session = this.validateAndTransformSession(sessionDoc);
-      await this.updateLastAccessed(sessionId);
-      return session;
+      // Leer no cuenta como uso: lastAccessed solo cambia al escribir en la sesión
+      return this.normalizeSession(session);
     } catch (error) {
       logger.error('Error retrieving session context:', error);
       throw new AppError('CONTEXT_RETRIEVAL_ERROR', 'Failed to retrieve session context');
     }
   }
 
-  private validateAndTransformSession(doc: DocumentSnapshot): ChatSession {
-    const data = doc.data();
-    if (!data) {
+  // Como getSessionContext, pero solo devuelve sesiones del usuario
+  async getSession(sessionId: string, userId: string): Promise<ChatSession> {
+    const session = await this.getSessionContext(sessionId);
+    if (!session || session.userId !== userId) {
+      throw new AppError('SESSION_NOT_FOUND', 'Chat session not found', 404);
+    }
+    return session;
+  }
+
+  // La conversación usada más recientemente
+  async getActiveSession(userId: string): Promise<ChatSession | null> {
+    const [latest] = await this.getUserSessions(userId, false);
+    return latest || null;
+  }
+
+  // Datos antiguos de Firestore pueden no tener todos los campos
+  private normalizeSession(data: ChatSession): ChatSession {
+    if (!data.userId) {
       throw new AppError('INVALID_SESSION', 'Session data is invalid');
     }
 
     return {
-      id: doc.id,
-      userId: data.userId,
+      ...data,
+      title: data.title || '',
       messages: data.messages || [],
+      locale: isLocale(data.locale) ? data.locale : undefined,
       context: {
+        ...data.context,
         lastInteraction: data.context?.lastInteraction || Date.now(),
         pendingActions: data.context?.pendingActions || [],
-        activeModule: data.context?.activeModule,
       },
       metadata: {
+        ...data.metadata,
         createdAt: data.metadata?.createdAt || Date.now(),
         lastAccessed: data.metadata?.lastAccessed || Date.now(),
         sessionType: data.metadata?.sessionType || 'general',
-      }
+      },
     };
   }
 
   async updateSessionContext(
     sessionId: string,
-    updates: Partial<ChatSession>
-  ): Promise<void> {
+    updates: ChatSessionUpdate
+  ): Promise<ChatSession> {
     try {
-      const sessionRef = doc(this.db, this.SESSIONS_COLLECTION, sessionId);
-      const timestamp = Timestamp.now();
-      
-      const sanitizedUpdates = {
+      const session = await this.repository.get(sessionId);
+      if (!session) {
+        throw new AppError('SESSION_NOT_FOUND', 'Chat session not found', 404);
+      }
+
+      const updated = this.normalizeSession({
+        ...session,
         ...updates,
+        context: { ...session.context, ...updates.context },
         metadata: {
+          ...session.metadata,
           ...updates.metadata,
-          lastModified: timestamp,
-        }
-      };
+          lastModified: Date.now(),
+        },
+      } as ChatSession);
 
-      await updateDoc(sessionRef, sanitizedUpdates);
+      await this.repository.save(updated);
       logger.info(`Session ${sessionId} updated successfully`);
+      return updated;
     } catch (error) {
+      if (error instanceof AppError && error.code === 'SESSION_NOT_FOUND') {
+        throw error;
+      }
       logger.error('Error updating session context:', error);
       throw new AppError('CONTEXT_UPDATE_ERROR', 'Failed to update session context');
     }
   }
 
-  async createNewSession(userId: string, type: string = 'general'): Promise<ChatSession> {
+  // Registra estado en la conversación activa; sin conversación no hay nada que anotar
+  async updateActiveSession(userId: string, updates: ChatSessionUpdate): Promise<void> {
+    const session = await this.getActiveSession(userId);
+    if (session) {
+      await this.updateSessionContext(session.id, updates);
+    }
+  }
+
+  // Guarda la sesión completa (mensajes incluidos) tal como la deja ChatService
+  async saveSession(session: ChatSession): Promise<void> {
     try {
-      const sessionId = `session_${Date.now()}_${userId}`;
-      const timestamp = Timestamp.now();
+      await this.repository.save({
+        ...session,
+        metadata: { ...session.metadata, lastModified: Date.now() },
+      });
+    } catch (error) {
+      logger.error('Error saving session:', error);
+      throw new AppError('CONTEXT_UPDATE_ERROR', 'Failed to update session context');
+    }
+  }
 
+  async createNewSession(
+    userId: string,
+    type: string = 'general',
+    title: string = ''
+  ): Promise<ChatSession> {
+    try {
+      const now = Date.now();
       const newSession: ChatSession = {
-        id: sessionId,
+        // Varias conversaciones del mismo usuario pueden crearse en el mismo milisegundo
+        id: `session_${now}_${randomUUID()}`,
         userId,
+        title: title.trim().slice(0, this.MAX_TITLE_LENGTH),
         messages: [],
         context: {
-          lastInteraction: timestamp.toMillis(),
+          lastInteraction: now,
           pendingActions: [],
-          activeModule: null,
         },
         metadata: {
-          createdAt: timestamp.toMillis(),
-          lastAccessed: timestamp.toMillis(),
+          createdAt: now,
+          lastAccessed: now,
           sessionType: type,
-        }
+        },
       };
 
-      const sessionRef = doc(this.db, this.SESSIONS_COLLECTION, sessionId);
-      await setDoc(sessionRef, newSession);
-      logger.info(`New session created: ${sessionId}`);
+      await this.repository.save(newSession);
+      logger.info(`New session created: ${newSession.id}`);
 
       return newSession;
     } catch (error) {
@@ -144,33 +200,144 @@ export class ContextService {
     }
   }
 
+  // active: solo las usadas en los últimos MAX_SESSION_AGE_DAYS días
   async getUserSessions(userId: string, active: boolean = true): Promise<ChatSession[]> {
     try {
-      const sessionsQuery = query(
-        collection(this.db, this.SESSIONS_COLLECTION),
-        where('userId', '==', userId),
-        where('metadata.lastAccessed', '>=', Date.now() - (this.MAX_SESSION_AGE_DAYS * 24 * 60 * 60 * 1000)),
-        orderBy('metadata.lastAccessed', 'desc'),
-        limit(10)
+      const since = Date.now() - this.MAX_SESSION_AGE_DAYS * 24 * 60 * 60 * 1000;
+      const sessions = (await this.repository.listByUser(userId)).map((session) =>
+        this.normalizeSession(session)
       );
-
-      const snapshot = await getDocs(sessionsQuery);
-      return snapshot.docs.map(doc => this.validateAndTransformSession(doc));
+      return active
+        ? sessions.filter((session) => session.metadata.lastAccessed >= since)
+        : sessions;
     } catch (error) {
       logger.error('Error retrieving user sessions:', error);
       throw new AppError('SESSION_RETRIEVAL_ERROR', 'Failed to retrieve user sessions');
     }
   }
 
-  private async updateLastAccessed(sessionId: string): Promise<void> {
-    try {
-      const sessionRef = doc(this.db, this.SESSIONS_COLLECTION, sessionId);
-      await updateDoc(sessionRef, {
-        'metadata.lastAccessed': Timestamp.now().toMillis(),
-      });
-    } catch (error) {
-      logger.warn('Failed to update last accessed timestamp:', error);
+  async listSessions(userId: string): Promise<ChatSessionSummary[]> {
+    const sessions = await this.getUserSessions(userId, false);
+    return sessions.map((session) => ({
+      id: session.id,
+      title: session.title,
+      messageCount: session.messages.length,
+      locale: session.locale,
+      createdAt: session.metadata.createdAt,
+      lastAccessed: session.metadata.lastAccessed,
+    }));
+  }
+
+  async renameSession(
+    sessionId: string,
+    userId: string,
+    title: string
+  ): Promise<ChatSession> {
+    const trimmed = title.trim();
+    if (!trimmed) {
+      throw new AppError('INVALID_SESSION_TITLE', 'Session title cannot be empty', 400);
+    }
+    await this.getSession(sessionId, userId);
+    return this.updateSessionContext(sessionId, {
+      title: trimmed.slice(0, this.MAX_TITLE_LENGTH),
+    });
+  }
+
+  async deleteSession(sessionId: string, userId: string): Promise<void> {
+    await this.getSession(sessionId, userId);
+    await this.repository.delete(sessionId);
+    logger.info(`Session deleted: ${sessionId}`);
+  }
+
+  async exportSession(
+    sessionId: string,
+    userId: string,
+    format: SessionExportFormat,
+    locale?: Locale
+  ): Promise<SessionExportFile> {
+    const session = await this.getSession(sessionId, userId);
+    const exportedAt = Date.now();
+    const exportLocale = locale ?? session.locale ?? DEFAULT_LOCALE;
+    const basename = this.exportBasename(session);
+
+    switch (format) {
+      case 'markdown':
+        return {
+          filename: `${basename}.md`,
+          contentType: 'text/markdown; charset=utf-8',
+          body: renderMarkdown(session, exportLocale, exportedAt),
+        };
+      case 'json':
+        return {
+          filename: `${basename}.json`,
+          contentType: 'application/json',
+          body: JSON.stringify(toSessionExport(session, exportedAt), null, 2),
+        };
+      case 'pdf':
+        return {
+          filename: `${basename}.pdf`,
+          contentType: 'application/pdf',
+          body: await renderPdf(session, exportLocale, exportedAt),
+        };
+      default:
+        throw new AppError('INVALID_SESSION_EXPORT', `Unsupported export format: ${format}`, 400);
+    }
+  }
+
+  // Restaura una exportación JSON como conversación nueva del usuario
+  async importSession(userId: string, data: unknown): Promise<ChatSession> {
+    const parsed = sessionExportSchema.safeParse(data);
+    if (!parsed.success) {
+      logger.warn('Rejected session import:', parsed.error.issues);
+      throw new AppError('INVALID_SESSION_EXPORT', 'Invalid chat session export', 400);
+    }
+
+    const imported = parsed.data.session;
+    const session = await this.createNewSession(userId, 'imported', imported.title);
+    const restored: ChatSession = {
+      ...session,
+      ...(imported.locale && { locale: imported.locale }),
+      ...(imported.summary && { summary: imported.summary }),
+      metadata: { ...session.metadata, createdAt: imported.createdAt },
+      messages: imported.messages.map((message) => ({
+        id: randomUUID(),
+        role: message.role,
+        content: message.content,
+        timestamp: message.timestamp,
+        ...((message.attachments || message.actions) && {
+          metadata: {
+            ...(message.attachments && { attachments: message.attachments }),
+            ...(message.actions && { actions: message.actions }),
+          },
+        }),
+      })),
+    };
+
+    await this.saveSession(restored);
+    logger.info(`Session ${restored.id} imported with ${restored.messages.length} messages`);
+    return restored;
+  }
+
+  private exportBasename(session: ChatSession): string {
+    const slug = session.title
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 40);
+    return slug || 'conversation';
+  }
+
+  // Título por defecto: el comienzo del primer mensaje, cortado en una palabra
+  titleFrom(message: string): string {
+    const text = message.replace(/\s+/g, ' ').trim();
+    if (text.length <= this.MAX_TITLE_LENGTH) {
+      return text;
     }
+    const cut = text.slice(0, this.MAX_TITLE_LENGTH - 1);
+    const boundary = cut.lastIndexOf(' ');
+    return `${boundary > 20 ? cut.slice(0, boundary) : cut}…`;
   }
 }
 
@@ -3,11 +3,22 @@ import { getStorage, ref, uploadBytes, getDownloadURL } from 'firebase/storage';
 import { firebaseApp } from '@/shared/config/firebase.config';
 import { logger } from '@/shared/utils/logger';
 import { AppError } from '@/shared/utils/error-handler';
-import { Anthropic } from '@anthropic-ai/sdk';
+import { DEFAULT_LOCALE, Locale, t } from '@/shared/i18n/i18n';
+import { LLMProvider } from '@/core-hub/ai/interfaces/llm-provider.types';
+import { providerRegistry } from '@/core-hub/ai/services/provider-registry.service';
+import { completeStructured } from '@/core-hub/ai/utils/structured-output';
 import { PDFDocument } from 'pdf-lib';
 import * as pdfjsLib from 'pdfjs-dist';
 import Papa from 'papaparse';
 import { createWorker } from 'tesseract.js';
+import { ProcessedDocument } from '../interfaces/financial-profile.types';
+import {
+  buildExtractionPrompt,
+  documentExtractionSchema,
+  toProcessedDocument,
+  toProfileDocumentType,
+} from '../utils/document-extraction';
+import { profileBuilder } from './profile-builder.service';
 
 interface DocumentMetadata {
   id: string;
@@ -36,12 +47,13 @@ interface ProcessingResult {
   metadata: DocumentMetadata;
   extractedText: string;
   confidence: number;
+  // Importes extraídos de W-2, 1099 y extractos bancarios
+  document?: ProcessedDocument;
 }
 
 export class DocumentService {
   private static instance: DocumentService;
   private storage = getStorage(firebaseApp);
-  private anthropic: Anthropic;
   private readonly ALLOWED_FILE_TYPES = new Set([
     'application/pdf',
     'image/png',
@@ -57,7 +69,7 @@ export class DocumentService {
   private readonly MAX_FILES_PER_UPLOAD = 7;
   private readonly db = getFirestore(firebaseApp);
 
-  private constructor() {
+  private constructor(private llm: LLMProvider = providerRegistry.resolve()) {
     this.initializeService();
   }
 
@@ -71,23 +83,19 @@ export class DocumentService {
   }
 
   private async classifyDocument(content: string, fileName: string): Promise<DocumentMetadata['documentType']> {
-    const response = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
-      max_tokens: 1024,
+    const response = await this.llm.complete({
+      maxTokens: 1024,
       messages: [{
         role: 'user',
         content: `Classify this document based on its content and filename. The document should be classified as one of: W2, 1099, ID, PASSPORT, ITIN, SSN, BANK_STATEMENT, or OTHER. Content: ${content}\nFilename: ${fileName}`
       }]
     });
 
-    return response.content[0].text as DocumentMetadata['documentType'];
+    return response.text as DocumentMetadata['documentType'];
   }
 
   private async initializeService(): Promise<void> {
     try {
-      this.anthropic = new Anthropic({
-        apiKey: process.env.ANTHROPIC_API_KEY as string,
-      });
       pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.js`;
     } catch (error) {
       logger.error('Failed to initialize DocumentService:', error);
@@ -106,7 +114,9 @@ export class DocumentService {
     userId: string,
     file: Buffer | File,
     fileName: string,
-    tags: string[] = []
+    tags: string[] = [],
+    // Idioma del análisis que se devuelve
+    locale: Locale = DEFAULT_LOCALE
   ): Promise<ProcessingResult> {
     await this.validateUploadLimit(userId);
     try {
@@ -116,14 +126,16 @@ export class DocumentService {
       const metadata = await this.createMetadata(userId, file, fileName, mimeType, tags);
       const url = await this.uploadDocument(userId, file, fileName, metadata);
       const content = await this.extractContent(file, mimeType);
-      const analysis = await this.analyzeWithClaude(content, metadata);
+      const analysis = await this.analyzeWithClaude(content, metadata, locale);
+      const document = await this.recordInProfile(content, metadata);
 
       return {
         url,
         analysis,
         metadata,
         extractedText: content,
-        confidence: this.calculateConfidence(content)
+        confidence: this.calculateConfidence(content),
+        document
       };
     } catch (error) {
       logger.error('Error processing file:', error);
@@ -305,24 +317,24 @@ export class DocumentService {
 
   private async analyzeWithClaude(
     content: string,
-    metadata: DocumentMetadata
+    metadata: DocumentMetadata,
+    locale: Locale
   ): Promise<string> {
     try {
       const documentType = await this.classifyDocument(content, metadata.fileName);
       metadata.documentType = documentType;
 
-      const response = await this.anthropic.messages.create({
-        model: 'claude-3-opus-20240229',
-        max_tokens: 4096,
+      const response = await this.llm.complete({
+        maxTokens: 4096,
         messages: [
           {
             role: 'user',
-            content: `Analyze this ${documentType} document. Extract and validate all relevant financial/tax information. For W2/1099: verify income amounts, tax withholdings, and employer details. For ID/PASSPORT: verify expiration and document validity. For bank statements: analyze transactions and balances.\n\nDocument content:\n${content}`
+            content: t(locale, 'prompts.documents.analyze', { documentType: documentType ?? 'OTHER', content })
           }
         ]
       });
 
-      const analysis = response.content[0].text;
+      const analysis = response.text;
       await this.updateDocumentInFirebase(metadata.id, {
         ...metadata,
         validationStatus: 'processed',
@@ -339,6 +351,44 @@ export class DocumentService {
     }
   }
 
+  // Extrae los importes y recalcula el perfil financiero; un fallo aquí no invalida la subida
+  private async recordInProfile(
+    content: string,
+    metadata: DocumentMetadata
+  ): Promise<ProcessedDocument | undefined> {
+    const documentType = toProfileDocumentType(metadata.documentType);
+    if (!documentType) {
+      return undefined;
+    }
+
+    try {
+      const extraction = await completeStructured(
+        this.llm,
+        {
+          maxTokens: 4096,
+          messages: [{ role: 'user', content: buildExtractionPrompt(documentType, content) }]
+        },
+        documentExtractionSchema,
+        { name: `${documentType} field extraction` }
+      );
+      const document = toProcessedDocument(documentType, extraction, {
+        id: metadata.id,
+        userId: metadata.userId,
+        fileName: metadata.fileName,
+        processedAt: Date.now(),
+        confidence: this.calculateConfidence(content)
+      });
+      await profileBuilder.recordDocument(document);
+      return document;
+    } catch (error) {
+      logger.warn('Failed to update financial profile from document:', {
+        documentId: metadata.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return undefined;
+    }
+  }
+
   private calculateConfidence(content: string): number {
     const wordCount = content.split(/\s+/).length;
     const characterCount = content.length;
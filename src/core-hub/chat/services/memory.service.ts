@@ -1,71 +1,82 @@
 import { Message } from '../interfaces/chat.types';
-import { firebaseApp } from '@/shared/config/firebase.config';
+import { randomUUID } from 'crypto';
+import {
+  FinancialMemory,
+  MemoryLifecycleConfig,
+  MemoryLifecycleReport,
+  MemoryMatch,
+  MemoryType,
+  MemoryUpdate,
+  MemoryVectorStore,
+} from '../interfaces/memory.types';
+import { FirestoreVectorStore } from '../stores/firestore-vector.store';
+import { InMemoryVectorStore } from '../stores/memory-vector.store';
+import { FinancialProfile } from '../interfaces/financial-profile.types';
+import { REQUIRED_DOCUMENTS, profileBuilder } from './profile-builder.service';
+import {
+  ConsolidationSummary,
+  DEFAULT_LIFECYCLE_CONFIG,
+  buildConsolidatedMemory,
+  fallbackConsolidation,
+  findConsolidationClusters,
+  planRetention,
+} from '../utils/memory-lifecycle';
+import { db, firebaseApp } from '@/shared/config/firebase.config';
 import { logger } from '@/shared/utils/logger';
 import { AppError } from '@/shared/utils/error-handler';
-import { getFirestore, doc, getDoc, setDoc, collection, query, where, orderBy, limit, getDocs } from 'firebase/firestore';
-import { Anthropic } from '@anthropic-ai/sdk';
-
-interface FinancialProfile {
-  income: {
-    salary: number;
-    investments: number;
-    otherSources: Record<string, number>;
-    frequency: 'MONTHLY' | 'YEARLY';
-    lastUpdated: number;
-  };
-  credit: {
-    score: number;
-    availableCredit: number;
-    totalDebt: number;
-    creditCards: Array<{
-      provider: string;
-      limit: number;
-      balance: number;
-    }>;
-    lastUpdated: number;
-  };
-  budget: {
-    monthlyExpenses: Record<string, number>;
-    savingsGoal: number;
-    emergencyFund: number;
-    investmentAllocation: number;
-    lastUpdated: number;
-  };
-  documents: {
-    required: string[];
-    provided: string[];
-    lastUpdated: number;
-  };
-  riskProfile: {
-    score: number;
-    factors: string[];
-    lastUpdated: number;
-  };
-}
-
-interface FinancialMemory {
-  type: 'EXPENSE' | 'INCOME' | 'HABIT' | 'GOAL' | 'CONTEXT';
-  category?: string;
-  amount?: number;
-  frequency?: 'ONE_TIME' | 'MONTHLY' | 'YEARLY';
-  timestamp: number;
-  description: string;
-  confidence: number;
-  sentiment?: 'POSITIVE' | 'NEGATIVE' | 'NEUTRAL';
-  impact?: 'HIGH' | 'MEDIUM' | 'LOW';
+import { getFirestore, doc, setDoc } from 'firebase/firestore';
+import { LLMProvider } from '@/core-hub/ai/interfaces/llm-provider.types';
+import { EmbeddingProvider } from '@/core-hub/ai/interfaces/embedding-provider.types';
+import { providerRegistry } from '@/core-hub/ai/services/provider-registry.service';
+import { embeddingRegistry } from '@/core-hub/ai/services/embedding-registry.service';
+import { completeStructured } from '@/core-hub/ai/utils/structured-output';
+import { DEFAULT_LOCALE, t } from '@/shared/i18n/i18n';
+import { z } from 'zod';
+
+const financialContextSchema = z.object({
+  type: z.enum(['EXPENSE', 'INCOME', 'HABIT', 'GOAL', 'CONTEXT']).optional(),
+  category: z.string().optional(),
+  amount: z.number().optional(),
+  frequency: z.enum(['ONE_TIME', 'MONTHLY', 'YEARLY']).optional(),
+  description: z.string().min(1).optional(),
+  confidence: z.number().min(0).max(1).optional(),
+  sentiment: z.enum(['POSITIVE', 'NEGATIVE', 'NEUTRAL']).optional(),
+  impact: z.enum(['HIGH', 'MEDIUM', 'LOW']).optional(),
+  importance: z.number().int().min(1).max(5).optional(),
+  requiresAction: z.boolean().optional(),
+  actions: z.array(z.unknown()).optional(),
+});
+
+type FinancialContextAnalysis = z.infer<typeof financialContextSchema> & { description: string };
+
+const consolidationSummarySchema: z.ZodType<ConsolidationSummary, z.ZodTypeDef, unknown> = z.object({
+  type: z.enum(['HABIT', 'GOAL']),
+  description: z.string().trim().min(1),
+});
+
+// MEMORY_STORE=memory para no depender de Firestore; en tests siempre en memoria
+function createStore(): MemoryVectorStore {
+  if (process.env.NODE_ENV === 'test' || process.env.MEMORY_STORE === 'memory') {
+    return new InMemoryVectorStore();
+  }
+  return new FirestoreVectorStore(db);
 }
 
 export class MemoryService {
   private static instance: MemoryService;
   private db = getFirestore(firebaseApp);
-  private anthropic: Anthropic;
   private readonly PROFILE_FRESHNESS_DAYS = 30;
-
-  private constructor() {
-    this.anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY as string
-    });
-  }
+  // Similitud a partir de la cual un recuerdo nuevo se fusiona con uno existente
+  private readonly DUPLICATE_SIMILARITY = Number(process.env.MEMORY_DEDUP_THRESHOLD) || 0.9;
+  private readonly DUPLICATE_CANDIDATES = 3;
+  private store: MemoryVectorStore = createStore();
+  private embedder: EmbeddingProvider = embeddingRegistry.resolve();
+  // Usuarios cuyos recuerdos ya están indexados con el modelo actual
+  private indexedUsers = new Set<string>();
+  private lifecycle: MemoryLifecycleConfig = { ...DEFAULT_LIFECYCLE_CONFIG };
+  private lastMaintenance = new Map<string, number>();
+
+  private constructor(private llm: LLMProvider = providerRegistry.resolve()) {}
 
   static getInstance(): MemoryService {
     if (!MemoryService.instance) {
@@ -74,16 +85,38 @@ export class MemoryService {
     return MemoryService.instance;
   }
 
+  setStore(store: MemoryVectorStore): void {
+    this.store = store;
+    this.indexedUsers.clear();
+    this.lastMaintenance.clear();
+  }
+
+  setEmbedder(embedder: EmbeddingProvider): void {
+    this.embedder = embedder;
+    this.indexedUsers.clear();
+  }
+
+  setProvider(llm: LLMProvider): void {
+    this.llm = llm;
+  }
+
+  configureLifecycle(config: Partial<MemoryLifecycleConfig>): void {
+    this.lifecycle = { ...this.lifecycle, ...config };
+    this.lastMaintenance.clear();
+  }
+
+  getLifecycleConfig(): MemoryLifecycleConfig {
+    return { ...this.lifecycle };
+  }
+
   async getFinancialProfile(userId: string): Promise<FinancialProfile | null> {
     try {
-      const profileRef = doc(this.db, `users/${userId}/profile/financial`);
-      const profileDoc = await getDoc(profileRef);
-
-      if (!profileDoc.exists()) {
+      // Lo construye ProfileBuilderService a partir de los documentos procesados
+      const profile = await profileBuilder.getProfile(userId);
+      if (!profile) {
         return null;
       }
 
-      const profile = profileDoc.data() as FinancialProfile;
       const needsUpdate = this.checkProfileFreshness(profile);
 
       if (needsUpdate) {
@@ -121,12 +154,9 @@ export class MemoryService {
   }
 
   private identifyMissingDocuments(profile: FinancialProfile): string[] {
-    const requiredDocs = new Set([
-      'BANK_STATEMENTS',
-      'TAX_RETURNS',
-      'CREDIT_REPORTS',
-      'INVESTMENT_STATEMENTS'
-    ]);
+    const requiredDocs = new Set(
+      profile.documents.required.length ? profile.documents.required : REQUIRED_DOCUMENTS
+    );
 
     const providedDocs = new Set(profile.documents.provided);
     return Array.from(requiredDocs).filter(doc => !providedDocs.has(doc));
@@ -153,22 +183,10 @@ export class MemoryService {
     await this.storeMemory(userId, analysis.description, analysis.importance, analysis.type);
 
     if (analysis.requiresAction) {
-      await this.createActionItems(userId, analysis.actions);
+      await this.createActionItems(userId, analysis.actions ?? []);
     }
   }
 
-  private async analyzeFinancialContext(context: string, profile: FinancialProfile | null): Promise<any> {
-    const response = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
-      messages: [{
-        role: 'user',
-        content: `Analyze this financial context with the following user profile: ${JSON.stringify(profile)}\n\nContext: ${context}`
-      }]
-    });
-
-    return JSON.parse(response.content[0].text);
-  }
-
   async identifyFinancialHabits(userId: string): Promise<void> {
     try {
       const profile = await this.getFinancialProfile(userId);
@@ -196,12 +214,33 @@ export class MemoryService {
     });
   }
 
-  private identifyNeededIntegrations(profile: FinancialProfile): string[] {
-    return []; // Placeholder - needs implementation based on profile data
+  // Datos que los documentos no aportan y que solo puede dar una conexión externa
+  identifyNeededIntegrations(profile: FinancialProfile): string[] {
+    const provided = new Set(profile.documents.provided);
+    const integrations: string[] = [];
+
+    if (!provided.has('BANK_STATEMENTS') && !profile.budget.lastUpdated) {
+      integrations.push('BANK_ACCOUNT');
+    }
+    if (!profile.credit.score) {
+      integrations.push('CREDIT_BUREAU');
+    }
+    if (profile.income.investments > 0 && !profile.budget.investmentAllocation) {
+      integrations.push('BROKERAGE');
+    }
+    if (!provided.has('W2') && !profile.income.salary) {
+      integrations.push('PAYROLL');
+    }
+    return integrations;
   }
 
   private async requestIntegrations(userId: string, integrations: string[]): Promise<void> {
-    // Placeholder - needs implementation to request integrations
+    const requestRef = doc(this.db, `users/${userId}/requests/integrations`);
+    await setDoc(requestRef, {
+      integrations,
+      status: 'PENDING',
+      createdAt: Date.now()
+    });
   }
 
   private async createActionItems(userId: string, actions: any[]): Promise<void> {
@@ -209,129 +248,353 @@ export class MemoryService {
   }
 
 
+  // Guarda un recuerdo; si ya hay uno casi idéntico del mismo tipo, los fusiona
   async storeMemory(
     userId: string,
     context: string,
     importance: number = 1,
-    type: FinancialMemory['type'] = 'CONTEXT'
-  ): Promise<void> {
+    type: MemoryType = 'CONTEXT'
+  ): Promise<FinancialMemory> {
     try {
-      const analysis = await this.analyzeFinancialContext(context, await this.getFinancialProfile(userId));
-      const memoryRef = doc(this.db, `users/${userId}/memories/${Date.now()}`);
-      
-      await setDoc(memoryRef, {
+      const analysis = await this.analyzeMemory(userId, context);
+      const now = Date.now();
+      const candidate: FinancialMemory = {
+        confidence: 0.5,
         ...analysis,
+        id: randomUUID(),
+        description: analysis.description || context,
         type,
         importance,
-        timestamp: Date.now(),
-        lastAccessed: Date.now()
-      });
+        timestamp: now,
+        lastAccessed: now,
+      };
+      const [embedding] = await this.embedder.embed([candidate.description]);
+      candidate.embedding = embedding;
+      candidate.embeddingModel = this.embedder.model;
+
+      await this.ensureIndexed(userId);
+      const duplicate = (
+        await this.store.search(userId, embedding, this.DUPLICATE_CANDIDATES, this.embedder.model)
+      ).find(
+        (match) => match.memory.type === type && match.score >= this.DUPLICATE_SIMILARITY
+      );
+
+      const memory = duplicate ? this.mergeMemories(duplicate.memory, candidate) : candidate;
+      await this.store.save(userId, memory);
+      if (duplicate) {
+        logger.info(`Memory ${memory.id} merged (similarity ${duplicate.score.toFixed(3)})`);
+      }
+      await this.maintainIfDue(userId);
+      return this.withoutEmbedding(memory);
     } catch (error) {
       logger.error('Error storing memory:', error);
       throw new AppError('MEMORY_STORAGE_ERROR', 'Failed to store memory');
     }
   }
 
+  // Top-k por similitud coseno entre todos los recuerdos del usuario, no solo los recientes
   async retrieveRelevantMemories(
     userId: string,
     context: string,
     limit: number = 5
   ): Promise<FinancialMemory[]> {
+    return (await this.searchMemories(userId, context, limit)).map((match) => match.memory);
+  }
+
+  async searchMemories(
+    userId: string,
+    context: string,
+    limit: number = 5
+  ): Promise<MemoryMatch[]> {
     try {
-      const keywords = await this.extractFinancialKeywords(context);
-      const memoriesRef = collection(this.db, `users/${userId}/memories`);
-      const recentMemories = query(
-        memoriesRef,
-        orderBy('timestamp', 'desc'),
-        limit(20)
+      await this.ensureIndexed(userId);
+      const [query] = await this.embedder.embed([context]);
+      const matches = (
+        await this.store.search(userId, query, limit, this.embedder.model)
+      ).filter((match) => match.score > 0);
+
+      // Cada uso refuerza el recuerdo y retrasa su olvido
+      const now = Date.now();
+      await Promise.all(
+        matches.map((match) =>
+          this.store.save(userId, {
+            ...match.memory,
+            lastAccessed: now,
+            accessCount: (match.memory.accessCount ?? 0) + 1,
+          })
+        )
       );
-
-      const snapshot = await getDocs(recentMemories);
-      const memories = snapshot.docs.map(doc => doc.data() as FinancialMemory);
-      
-      return this.rankMemoriesByRelevance(memories, keywords).slice(0, limit);
+      return matches.map((match) => ({ ...match, memory: this.withoutEmbedding(match.memory) }));
     } catch (error) {
       logger.error('Error retrieving memories:', error);
       throw new AppError('MEMORY_RETRIEVAL_ERROR', 'Failed to retrieve memories');
     }
   }
 
-  async summarizeFinancialStatus(userId: string): Promise<string> {
+  // Fijados primero; después, los más recientes
+  async listMemories(userId: string): Promise<FinancialMemory[]> {
+    try {
+      const memories = await this.store.listByUser(userId);
+      return memories
+        .sort(
+          (a, b) =>
+            Number(Boolean(b.pinned)) - Number(Boolean(a.pinned)) || b.timestamp - a.timestamp
+        )
+        .map((memory) => this.withoutEmbedding(memory));
+    } catch (error) {
+      logger.error('Error listing memories:', error);
+      throw new AppError('MEMORY_RETRIEVAL_ERROR', 'Failed to retrieve memories');
+    }
+  }
+
+  async updateMemory(
+    userId: string,
+    memoryId: string,
+    updates: MemoryUpdate
+  ): Promise<FinancialMemory> {
+    const memory = await this.getMemory(userId, memoryId);
+    const updated: FinancialMemory = { ...memory };
+
+    if (updates.description !== undefined) {
+      const description = updates.description.trim();
+      if (!description) {
+        throw new AppError('INVALID_MEMORY', 'Memory description cannot be empty', 400);
+      }
+      if (description !== memory.description) {
+        const [embedding] = await this.embedder.embed([description]);
+        Object.assign(updated, { description, embedding, embeddingModel: this.embedder.model });
+      }
+    }
+    if (updates.importance !== undefined) {
+      if (!Number.isInteger(updates.importance) || updates.importance < 1 || updates.importance > 5) {
+        throw new AppError('INVALID_MEMORY', 'Memory importance must be an integer from 1 to 5', 400);
+      }
+      updated.importance = updates.importance;
+    }
+    if (updates.pinned !== undefined) {
+      updated.pinned = updates.pinned;
+    }
+
+    await this.store.save(userId, updated);
+    logger.info(`Memory ${memoryId} updated by user ${userId}`);
+    return this.withoutEmbedding(updated);
+  }
+
+  async forgetMemory(userId: string, memoryId: string): Promise<void> {
+    await this.getMemory(userId, memoryId);
+    await this.store.delete(userId, memoryId);
+    logger.info(`Memory ${memoryId} forgotten by user ${userId}`);
+  }
+
+  /**
+   * Ciclo de vida: consolida los episodios repetidos en hábitos y metas,
+   * olvida lo que ha decaído y recorta hasta el tope por usuario.
+   */
+  async runMaintenance(userId: string, now: number = Date.now()): Promise<MemoryLifecycleReport> {
     try {
-      const memoriesRef = collection(this.db, `users/${userId}/memories`);
-      const recentMemories = query(
-        memoriesRef,
-        orderBy('timestamp', 'desc'),
-        limit(50)
+      await this.ensureIndexed(userId);
+      const report: MemoryLifecycleReport = { consolidated: [], forgotten: 0, capped: 0 };
+
+      const clusters = findConsolidationClusters(
+        await this.store.listByUser(userId),
+        this.lifecycle,
+        now
       );
+      for (const cluster of clusters) {
+        const memory = await this.consolidate(userId, cluster, now);
+        report.consolidated.push({ id: memory.id, type: memory.type, sources: cluster.length });
+      }
 
-      const snapshot = await getDocs(recentMemories);
-      const memories = snapshot.docs.map(doc => doc.data() as FinancialMemory);
+      const { forget, capped } = planRetention(
+        await this.store.listByUser(userId),
+        this.lifecycle,
+        now
+      );
+      await Promise.all([...forget, ...capped].map((id) => this.store.delete(userId, id)));
+      report.forgotten = forget.length;
+      report.capped = capped.length;
 
-      return await this.generateFinancialSummary(memories);
+      this.lastMaintenance.set(userId, now);
+      logger.info(
+        `Memory maintenance for ${userId}: ${clusters.length} consolidated, ${forget.length} forgotten, ${capped.length} capped`
+      );
+      return report;
     } catch (error) {
-      logger.error('Error summarizing financial status:', error);
-      throw new AppError('MEMORY_SUMMARY_ERROR', 'Failed to summarize financial status');
+      logger.error('Error running memory maintenance:', error);
+      throw new AppError('MEMORY_MAINTENANCE_ERROR', 'Failed to run memory maintenance');
     }
   }
 
-  private async analyzeFinancialContext(context: string, profile: FinancialProfile | null): Promise<Partial<FinancialMemory>> {
-    const response = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
-      messages: [{
-        role: 'user',
-        content: `Analyze this financial context and extract key information: ${context}  User Profile: ${JSON.stringify(profile)}`
-      }]
-    });
+  // Mantenimiento perezoso al escribir; POST /api/memories/maintenance permite programarlo
+  private async maintainIfDue(userId: string): Promise<void> {
+    const last = this.lastMaintenance.get(userId);
+    const interval = this.lifecycle.maintenanceIntervalHours * 60 * 60 * 1000;
+    if (last !== undefined && Date.now() - last < interval) {
+      return;
+    }
+    try {
+      await this.runMaintenance(userId);
+    } catch (error) {
+      logger.warn(`Skipped memory maintenance for ${userId}:`, error);
+    }
+  }
+
+  private async consolidate(
+    userId: string,
+    cluster: FinancialMemory[],
+    now: number
+  ): Promise<FinancialMemory> {
+    const summary = await this.summarizeCluster(cluster);
+    const memory = buildConsolidatedMemory(cluster, summary, randomUUID(), now);
+    const [embedding] = await this.embedder.embed([memory.description]);
+
+    await this.store.save(userId, { ...memory, embedding, embeddingModel: this.embedder.model });
+    await Promise.all(cluster.map((source) => this.store.delete(userId, source.id)));
+    return memory;
+  }
+
+  private async summarizeCluster(cluster: FinancialMemory[]): Promise<ConsolidationSummary> {
+    try {
+      return await completeStructured(
+        this.llm,
+        {
+          messages: [
+            {
+              role: 'user',
+              content: t(DEFAULT_LOCALE, 'prompts.memory.consolidate', {
+                memories: cluster
+                  .map(
+                    (memory) =>
+                      `- ${new Date(memory.timestamp).toISOString().slice(0, 10)}: ${memory.description}`
+                  )
+                  .join('\n'),
+              }),
+            },
+          ],
+          temperature: 0,
+        },
+        consolidationSummarySchema,
+        { name: 'memory consolidation' }
+      );
+    } catch (error) {
+      logger.warn('Memory consolidation summary failed, using the latest memory:', error);
+    }
+    return fallbackConsolidation(cluster);
+  }
+
+  private async getMemory(userId: string, memoryId: string): Promise<FinancialMemory> {
+    const memory = await this.store.get(userId, memoryId);
+    if (!memory) {
+      throw new AppError('MEMORY_NOT_FOUND', 'Memory not found', 404);
+    }
+    return memory;
+  }
+
+  // El análisis con el LLM enriquece el recuerdo, pero no es imprescindible para guardarlo
+  private async analyzeMemory(userId: string, context: string): Promise<Partial<FinancialMemory>> {
+    try {
+      const analysis = await this.analyzeFinancialContext(
+        context,
+        await this.getFinancialProfile(userId)
+      );
+      const memory: Partial<FinancialMemory> & Partial<FinancialContextAnalysis> = { ...analysis };
+      delete memory.requiresAction;
+      delete memory.actions;
+      return memory;
+    } catch (error) {
+      logger.warn('Memory analysis failed, storing the raw context:', error);
+      return {};
+    }
+  }
+
+  // Indexa los recuerdos sin vector o con un modelo distinto (datos antiguos, cambio de proveedor)
+  private async ensureIndexed(userId: string): Promise<void> {
+    if (this.indexedUsers.has(userId)) {
+      return;
+    }
+    const stale = (await this.store.listByUser(userId)).filter(
+      (memory) => memory.embeddingModel !== this.embedder.model || !memory.embedding
+    );
+    if (stale.length > 0) {
+      const embeddings = await this.embedder.embed(stale.map((memory) => memory.description));
+      await Promise.all(
+        stale.map((memory, index) =>
+          this.store.save(userId, {
+            ...memory,
+            embedding: embeddings[index],
+            embeddingModel: this.embedder.model,
+          })
+        )
+      );
+      logger.info(`Indexed ${stale.length} memories for user ${userId}`);
+    }
+    this.indexedUsers.add(userId);
+  }
 
-    const analysis = JSON.parse(response.content[0].text);
+  // Conserva la identidad y el historial del existente; los datos nuevos prevalecen
+  private mergeMemories(existing: FinancialMemory, incoming: FinancialMemory): FinancialMemory {
     return {
-      description: context,
-      ...analysis
+      ...existing,
+      ...incoming,
+      id: existing.id,
+      category: incoming.category ?? existing.category,
+      amount: incoming.amount ?? existing.amount,
+      frequency: incoming.frequency ?? existing.frequency,
+      confidence: Math.max(existing.confidence ?? 0, incoming.confidence ?? 0),
+      importance: Math.max(existing.importance ?? 1, incoming.importance ?? 1),
+      firstSeen: existing.firstSeen ?? existing.timestamp,
+      mentions: (existing.mentions ?? 1) + 1,
     };
   }
 
-  private async extractFinancialKeywords(context: string): Promise<string[]> {
-    const response = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
-      messages: [{
-        role: 'user',
-        content: `Extract key financial terms and concepts from: ${context}`
-      }]
-    });
-
-    return response.content[0].text.split(',').map(k => k.trim());
+  private withoutEmbedding(memory: FinancialMemory): FinancialMemory {
+    const copy = { ...memory };
+    delete copy.embedding;
+    return copy;
   }
 
-  private rankMemoriesByRelevance(memories: FinancialMemory[], keywords: string[]): FinancialMemory[] {
-    return memories.sort((a, b) => {
-      const scoreA = this.calculateRelevanceScore(a, keywords);
-      const scoreB = this.calculateRelevanceScore(b, keywords);
-      return scoreB - scoreA;
-    });
+  async summarizeFinancialStatus(userId: string): Promise<string> {
+    try {
+      const memories = (await this.store.listByUser(userId)).slice(0, 50);
+      return await this.generateFinancialSummary(memories);
+    } catch (error) {
+      logger.error('Error summarizing financial status:', error);
+      throw new AppError('MEMORY_SUMMARY_ERROR', 'Failed to summarize financial status');
+    }
   }
 
-  private calculateRelevanceScore(memory: FinancialMemory, keywords: string[]): number {
-    const recencyScore = (Date.now() - memory.timestamp) / (1000 * 60 * 60 * 24); // Days old
-    const keywordScore = keywords.reduce((score, keyword) => {
-      return score + (memory.description.toLowerCase().includes(keyword.toLowerCase()) ? 1 : 0);
-    }, 0);
-    
-    return (keywordScore * 0.7) + (1 / (recencyScore + 1) * 0.3);
+  private async analyzeFinancialContext(
+    context: string,
+    profile: FinancialProfile | null
+  ): Promise<FinancialContextAnalysis> {
+    const analysis = await completeStructured(
+      this.llm,
+      {
+        messages: [{
+          role: 'user',
+          content: `Analyze this financial context and extract key information: ${context}  User Profile: ${JSON.stringify(profile)}`
+        }]
+      },
+      financialContextSchema,
+      { name: 'financial context analysis' }
+    );
+    return {
+      description: context,
+      ...analysis
+    };
   }
 
   private async generateFinancialSummary(memories: FinancialMemory[]): Promise<string> {
     const context = memories.map(m => `${m.type}: ${m.description}`).join('\n');
     
-    const response = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
+    const response = await this.llm.complete({
       messages: [{
         role: 'user',
         content: `Generate a friendly and slightly sarcastic summary of this financial history. Focus on patterns and habits: ${context}`
       }]
     });
 
-    return response.content[0].text;
+    return response.text;
   }
 
   private analyzeSpendingPatterns(memories: FinancialMemory[], profile: FinancialProfile | null): any {
@@ -0,0 +1,150 @@
+// src/core-hub/chat/services/module-state.service.ts
+
+import { db } from '@/shared/config/firebase.config';
+import {
+  deleteDoc,
+  deleteField,
+  doc,
+  getDoc,
+  setDoc,
+} from 'firebase/firestore';
+
+export interface SavingsGoal {
+  name: string;
+  targetAmount: number;
+  targetDate?: string;
+}
+
+export interface CreditAccount {
+  provider: string;
+  limit: number;
+  balance: number;
+}
+
+// Lectura y escritura del estado que modifican las acciones de los módulos.
+// Usa los mismos documentos que MemoryService (users/{id}/profile/financial).
+export class ModuleStateService {
+  private static instance: ModuleStateService;
+
+  private constructor() {}
+
+  static getInstance(): ModuleStateService {
+    if (!ModuleStateService.instance) {
+      ModuleStateService.instance = new ModuleStateService();
+    }
+    return ModuleStateService.instance;
+  }
+
+  async getBudget(userId: string, category: string): Promise<number | null> {
+    const profile = await this.getFinancialProfile(userId);
+    const amount = profile?.budget?.monthlyExpenses?.[category];
+    return typeof amount === 'number' ? amount : null;
+  }
+
+  // null elimina la categoría del presupuesto
+  async setBudget(
+    userId: string,
+    category: string,
+    monthlyAmount: number | null
+  ): Promise<void> {
+    await setDoc(
+      this.financialProfileRef(userId),
+      {
+        budget: {
+          monthlyExpenses: {
+            [category]: monthlyAmount === null ? deleteField() : monthlyAmount,
+          },
+          lastUpdated: Date.now(),
+        },
+      },
+      { merge: true }
+    );
+  }
+
+  async getCreditAccount(
+    userId: string,
+    provider: string
+  ): Promise<CreditAccount | null> {
+    const profile = await this.getFinancialProfile(userId);
+    const cards: CreditAccount[] = profile?.credit?.creditCards || [];
+    return cards.find((card) => card.provider === provider) || null;
+  }
+
+  // null elimina la cuenta
+  async setCreditAccount(
+    userId: string,
+    provider: string,
+    account: Omit<CreditAccount, 'provider'> | null
+  ): Promise<void> {
+    const profile = await this.getFinancialProfile(userId);
+    const cards: CreditAccount[] = (profile?.credit?.creditCards || []).filter(
+      (card: CreditAccount) => card.provider !== provider
+    );
+
+    await setDoc(
+      this.financialProfileRef(userId),
+      {
+        credit: {
+          creditCards: account ? [...cards, { provider, ...account }] : cards,
+          lastUpdated: Date.now(),
+        },
+      },
+      { merge: true }
+    );
+  }
+
+  async getTaxProfile(userId: string): Promise<Record<string, unknown>> {
+    const snapshot = await getDoc(doc(db, `users/${userId}/profile/tax`));
+    return snapshot.exists() ? snapshot.data() : {};
+  }
+
+  // Los campos con valor null se eliminan del perfil
+  async updateTaxProfile(
+    userId: string,
+    fields: Record<string, unknown>
+  ): Promise<void> {
+    const update = Object.fromEntries(
+      Object.entries(fields).map(([key, value]) => [
+        key,
+        value === null ? deleteField() : value,
+      ])
+    );
+    await setDoc(
+      doc(db, `users/${userId}/profile/tax`),
+      { ...update, lastUpdated: Date.now() },
+      { merge: true }
+    );
+  }
+
+  async getSavingsGoal(userId: string, name: string): Promise<SavingsGoal | null> {
+    const snapshot = await getDoc(this.savingsGoalRef(userId, name));
+    return snapshot.exists() ? (snapshot.data() as SavingsGoal) : null;
+  }
+
+  async saveSavingsGoal(userId: string, goal: SavingsGoal): Promise<void> {
+    await setDoc(
+      this.savingsGoalRef(userId, goal.name),
+      JSON.parse(JSON.stringify({ ...goal, createdAt: Date.now() }))
+    );
+  }
+
+  async deleteSavingsGoal(userId: string, name: string): Promise<void> {
+    await deleteDoc(this.savingsGoalRef(userId, name));
+  }
+
+  private async getFinancialProfile(userId: string) {
+    const snapshot = await getDoc(this.financialProfileRef(userId));
+    return snapshot.exists() ? snapshot.data() : null;
+  }
+
+  private financialProfileRef(userId: string) {
+    return doc(db, `users/${userId}/profile/financial`);
+  }
+
+  private savingsGoalRef(userId: string, name: string) {
+    const id = name.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-');
+    return doc(db, `users/${userId}/savingsGoals/${id}`);
+  }
+}
+
+export const moduleStateService = ModuleStateService.getInstance();
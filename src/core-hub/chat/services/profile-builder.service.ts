@@ -0,0 +1,323 @@
+import {
+  ExtractedField,
+  FinancialProfile,
+  FinancialProfileStore,
+  ProcessedDocument,
+  ProcessedDocumentStore,
+  ProfileFieldSource,
+} from '../interfaces/financial-profile.types';
+import {
+  FirestoreFinancialProfileStore,
+  FirestoreProcessedDocumentStore,
+} from '../stores/firestore-profile.store';
+import {
+  InMemoryFinancialProfileStore,
+  InMemoryProcessedDocumentStore,
+} from '../stores/memory-profile.store';
+import { db } from '@/shared/config/firebase.config';
+import { logger } from '@/shared/utils/logger';
+import { AppError } from '@/shared/utils/error-handler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AVERAGE_MONTH_DAYS = 30.44;
+
+export const REQUIRED_DOCUMENTS = [
+  'BANK_STATEMENTS',
+  'TAX_RETURNS',
+  'CREDIT_REPORTS',
+  'INVESTMENT_STATEMENTS',
+];
+
+// Movimientos entre cuentas propias: no son gasto
+const NON_EXPENSE_CATEGORIES = new Set(['transfer', 'credit_card_payment']);
+
+// Campo de un 1099 -> a dónde va en el perfil
+const INCOME_TARGETS: Record<string, string> = {
+  nonemployeeCompensation: 'income.otherSources.selfEmployment',
+  rents: 'income.otherSources.rents',
+  royalties: 'income.otherSources.royalties',
+  otherIncome: 'income.otherSources.other',
+  interestIncome: 'income.investments',
+  ordinaryDividends: 'income.investments',
+};
+
+// PROFILE_STORE=memory para no depender de Firestore; en tests siempre en memoria
+function useMemoryStores(): boolean {
+  return process.env.NODE_ENV === 'test' || process.env.PROFILE_STORE === 'memory';
+}
+
+function emptyProfile(): FinancialProfile {
+  return {
+    income: { salary: 0, investments: 0, otherSources: {}, frequency: 'YEARLY', lastUpdated: 0 },
+    credit: { score: 0, availableCredit: 0, totalDebt: 0, creditCards: [], lastUpdated: 0 },
+    budget: {
+      monthlyExpenses: {},
+      savingsGoal: 0,
+      emergencyFund: 0,
+      investmentAllocation: 0,
+      lastUpdated: 0,
+    },
+    documents: { required: [...REQUIRED_DOCUMENTS], provided: [], lastUpdated: 0 },
+    riskProfile: { score: 0, factors: [], lastUpdated: 0 },
+  };
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Deriva el perfil financiero de los documentos procesados (W-2, 1099 y
+ * extractos). Cada campo derivado guarda de qué documento y casilla sale y
+ * con qué confianza; lo que no sale de documentos se conserva del perfil previo.
+ */
+export class ProfileBuilderService {
+  private static instance: ProfileBuilderService;
+  private documents: ProcessedDocumentStore = useMemoryStores()
+    ? new InMemoryProcessedDocumentStore()
+    : new FirestoreProcessedDocumentStore(db);
+  private profiles: FinancialProfileStore = useMemoryStores()
+    ? new InMemoryFinancialProfileStore()
+    : new FirestoreFinancialProfileStore(db);
+
+  private constructor() {}
+
+  static getInstance(): ProfileBuilderService {
+    if (!ProfileBuilderService.instance) {
+      ProfileBuilderService.instance = new ProfileBuilderService();
+    }
+    return ProfileBuilderService.instance;
+  }
+
+  setStores(documents: ProcessedDocumentStore, profiles: FinancialProfileStore): void {
+    this.documents = documents;
+    this.profiles = profiles;
+  }
+
+  async getProfile(userId: string): Promise<FinancialProfile | null> {
+    return this.profiles.get(userId);
+  }
+
+  async listDocuments(userId: string): Promise<ProcessedDocument[]> {
+    return this.documents.listByUser(userId);
+  }
+
+  // Guarda el documento recién procesado y recalcula el perfil del usuario
+  async recordDocument(document: ProcessedDocument): Promise<FinancialProfile> {
+    try {
+      await this.documents.save(document);
+    } catch (error) {
+      logger.error('Error saving processed document:', error);
+      throw new AppError('PROFILE_UPDATE_ERROR', 'Failed to save processed document');
+    }
+    return this.rebuild(document.userId);
+  }
+
+  async rebuild(userId: string): Promise<FinancialProfile> {
+    try {
+      const [documents, previous] = await Promise.all([
+        this.documents.listByUser(userId),
+        this.profiles.get(userId),
+      ]);
+      const profile = this.build(documents, previous);
+      await this.profiles.save(userId, profile);
+      logger.info(`Financial profile rebuilt for ${userId} from ${documents.length} documents`);
+      return profile;
+    } catch (error) {
+      logger.error('Error rebuilding financial profile:', error);
+      throw new AppError('PROFILE_UPDATE_ERROR', 'Failed to rebuild financial profile');
+    }
+  }
+
+  build(
+    documents: ProcessedDocument[],
+    previous: FinancialProfile | null = null,
+    now: number = Date.now()
+  ): FinancialProfile {
+    const base = previous ?? emptyProfile();
+    const profile: FinancialProfile = structuredClone(base);
+    const provenance: Record<string, ProfileFieldSource> = {};
+
+    const add = (path: string, document: ProcessedDocument, field: ExtractedField) => {
+      const entry = (provenance[path] ??= { value: 0, confidence: 1, sources: [] });
+      entry.value = round(entry.value + field.value);
+      // Un campo compuesto es tan fiable como su fuente menos fiable
+      entry.confidence = Math.min(entry.confidence, field.confidence);
+      entry.sources.push({
+        documentId: document.id,
+        documentType: document.documentType,
+        fileName: document.fileName,
+        line: field.line,
+        value: round(field.value),
+        confidence: field.confidence,
+      });
+    };
+    const valueOf = (path: string) => provenance[path]?.value ?? 0;
+    const pathsUnder = (prefix: string) =>
+      Object.keys(provenance).filter((path) => path.startsWith(prefix));
+
+    // Ingresos: solo el último año fiscal, para no sumar años distintos
+    const taxDocuments = documents.filter(
+      (document) => document.documentType === 'W2' || document.documentType === '1099'
+    );
+    const taxYear =
+      Math.max(0, ...taxDocuments.map((document) => document.taxYear ?? 0)) || undefined;
+    const currentTaxDocuments = taxDocuments.filter(
+      (document) => !taxYear || !document.taxYear || document.taxYear === taxYear
+    );
+    for (const document of currentTaxDocuments) {
+      if (document.documentType === 'W2') {
+        if (document.fields.wages) {
+          add('income.salary', document, document.fields.wages);
+        }
+      } else {
+        for (const [name, field] of Object.entries(document.fields)) {
+          if (INCOME_TARGETS[name]) {
+            add(INCOME_TARGETS[name], document, field);
+          }
+        }
+      }
+    }
+    if (currentTaxDocuments.length > 0) {
+      profile.taxYear = taxYear;
+      profile.income = {
+        salary: valueOf('income.salary'),
+        investments: valueOf('income.investments'),
+        otherSources: Object.fromEntries(
+          pathsUnder('income.otherSources.').map((path) => [
+            path.slice('income.otherSources.'.length),
+            valueOf(path),
+          ])
+        ),
+        frequency: 'YEARLY',
+        lastUpdated: now,
+      };
+    }
+
+    const statements = documents.filter(
+      (document): document is Extract<ProcessedDocument, { documentType: 'BANK_STATEMENT' }> =>
+        document.documentType === 'BANK_STATEMENT'
+    );
+
+    // Gasto mensual medio por categoría en el periodo que cubren los extractos
+    if (statements.length > 0) {
+      const start = Math.min(...statements.map((statement) => Date.parse(statement.periodStart)));
+      const end = Math.max(...statements.map((statement) => Date.parse(statement.periodEnd)));
+      const months = Math.max(1, (end - start) / DAY_MS / AVERAGE_MONTH_DAYS);
+
+      for (const statement of statements) {
+        const confidence = statement.fields.endingBalance?.confidence ?? 0.8;
+        const totals = new Map<string, { amount: number; count: number }>();
+        for (const transaction of statement.transactions) {
+          const category = (transaction.category || 'uncategorized').toLowerCase();
+          if (transaction.amount >= 0 || NON_EXPENSE_CATEGORIES.has(category)) {
+            continue;
+          }
+          const total = totals.get(category) ?? { amount: 0, count: 0 };
+          totals.set(category, {
+            amount: total.amount - transaction.amount,
+            count: total.count + 1,
+          });
+        }
+        totals.forEach(({ amount, count }, category) =>
+          add(`spending.monthlyAverages.${category}`, statement, {
+            value: amount / months,
+            line: `${count} transactions, ${statement.periodStart} to ${statement.periodEnd}`,
+            confidence,
+          })
+        );
+      }
+
+      // Saldos y tarjetas: solo el extracto más reciente de cada cuenta
+      const latest = new Map<string, (typeof statements)[number]>();
+      for (const statement of statements) {
+        const key = `${statement.issuer ?? statement.fileName}|${statement.accountType}`;
+        const current = latest.get(key);
+        if (!current || Date.parse(statement.periodEnd) > Date.parse(current.periodEnd)) {
+          latest.set(key, statement);
+        }
+      }
+      const creditCards: FinancialProfile['credit']['creditCards'] = [];
+      latest.forEach((statement) => {
+        const { endingBalance, creditLimit } = statement.fields;
+        if (!endingBalance) {
+          return;
+        }
+        if (statement.accountType !== 'CREDIT_CARD') {
+          add('budget.emergencyFund', statement, endingBalance);
+          return;
+        }
+        const balance = Math.abs(endingBalance.value);
+        add('credit.totalDebt', statement, { ...endingBalance, value: balance });
+        if (creditLimit) {
+          add('credit.availableCredit', statement, {
+            value: Math.max(0, creditLimit.value - balance),
+            line: `${creditLimit.line} minus ${endingBalance.line}`,
+            confidence: Math.min(creditLimit.confidence, endingBalance.confidence),
+          });
+        }
+        creditCards.push({
+          provider: statement.issuer ?? statement.fileName,
+          limit: creditLimit?.value ?? 0,
+          balance,
+        });
+      });
+
+      profile.spending = {
+        monthlyAverages: Object.fromEntries(
+          pathsUnder('spending.monthlyAverages.').map((path) => [
+            path.slice('spending.monthlyAverages.'.length),
+            valueOf(path),
+          ])
+        ),
+        lastUpdated: now,
+      };
+      profile.budget = {
+        ...profile.budget,
+        emergencyFund: valueOf('budget.emergencyFund'),
+        lastUpdated: now,
+      };
+      if (creditCards.length > 0) {
+        profile.credit = {
+          ...profile.credit,
+          creditCards,
+          totalDebt: valueOf('credit.totalDebt'),
+          availableCredit: valueOf('credit.availableCredit'),
+          lastUpdated: now,
+        };
+      }
+    }
+
+    if (documents.length > 0) {
+      profile.documents = {
+        required: base.documents.required.length
+          ? base.documents.required
+          : [...REQUIRED_DOCUMENTS],
+        provided: Array.from(
+          new Set([
+            ...base.documents.provided,
+            ...documents.flatMap((document) => this.documentCodes(document)),
+          ])
+        ),
+        lastUpdated: now,
+      };
+    }
+
+    profile.provenance = provenance;
+    return profile;
+  }
+
+  // Códigos con los que el documento cuenta como aportado
+  private documentCodes(document: ProcessedDocument): string[] {
+    switch (document.documentType) {
+      case 'W2':
+        return ['W2'];
+      case '1099':
+        return document.variant === 'INT' || document.variant === 'DIV'
+          ? [`1099-${document.variant}`, 'INVESTMENT_STATEMENTS']
+          : [`1099-${document.variant}`];
+      case 'BANK_STATEMENT':
+        return ['BANK_STATEMENTS'];
+    }
+  }
+}
+
+export const profileBuilder = ProfileBuilderService.getInstance();
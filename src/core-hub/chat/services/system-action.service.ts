@@ -0,0 +1,262 @@
+// src/core-hub/chat/services/system-action.service.ts
+
+import { execFile } from 'child_process';
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'fs';
+import { dirname, join, relative as relativePath, resolve } from 'path';
+import { promisify } from 'util';
+import { ModuleAction } from '@/shared/types';
+import { logger } from '@/shared/utils/logger';
+import { AppError } from '@/shared/utils/error-handler';
+import { systemPolicy } from './system-policy.service';
+import {
+  SystemActionResult,
+  SystemOperation,
+} from '../interfaces/system-policy.types';
+
+const execFileAsync = promisify(execFile);
+const MAX_OUTPUT_CHARS = 4000;
+
+const OPERATIONS: Record<string, SystemOperation> = {
+  MODIFY_FILE: 'WRITE',
+  CREATE_FILE: 'WRITE',
+  DELETE_FILE: 'DELETE',
+  EXECUTE_COMMAND: 'EXECUTE',
+};
+
+// Ejecuta las acciones SYSTEM una vez que la política las ha permitido
+export class SystemActionService {
+  private static instance: SystemActionService;
+
+  private constructor() {}
+
+  static getInstance(): SystemActionService {
+    if (!SystemActionService.instance) {
+      SystemActionService.instance = new SystemActionService();
+    }
+    return SystemActionService.instance;
+  }
+
+  // dry-run por acción (params.dryRun) o global (SYSTEM_ACTIONS_DRY_RUN=true)
+  isDryRun(action: ModuleAction): boolean {
+    return (
+      action.type === 'SYSTEM' &&
+      (action.params.dryRun === true || process.env.SYSTEM_ACTIONS_DRY_RUN === 'true')
+    );
+  }
+
+  async execute(action: ModuleAction, userId: string): Promise<SystemActionResult> {
+    const operation = OPERATIONS[action.action];
+    if (!operation) {
+      throw new AppError('INVALID_SYSTEM_ACTION', 'Unsupported system action');
+    }
+
+    const dryRun = this.isDryRun(action);
+    const startedAt = Date.now();
+    const { params } = action;
+
+    // La política se evalúa igual en dry-run, sin consumir cuota
+    let result: Omit<SystemActionResult, 'durationMs'>;
+    switch (action.action) {
+      case 'MODIFY_FILE':
+      case 'CREATE_FILE':
+        result = this.writeFile(
+          action.action,
+          params.filePath,
+          Buffer.from(params.content, params.encoding ?? 'utf8'),
+          userId,
+          dryRun
+        );
+        break;
+      case 'DELETE_FILE':
+        result = this.deleteFile(params.filePath, userId, dryRun);
+        break;
+      default:
+        result = await this.executeCommand(params.command, userId, dryRun);
+    }
+
+    const completed = { ...result, durationMs: Date.now() - startedAt };
+    logger.info('System action completed:', {
+      userId,
+      action: completed.action,
+      status: completed.status,
+      path: completed.path,
+      command: completed.command?.template,
+    });
+    return completed;
+  }
+
+  private writeFile(
+    action: string,
+    filePath: string,
+    content: Buffer,
+    userId: string,
+    dryRun: boolean
+  ): Omit<SystemActionResult, 'durationMs'> {
+    const { absolute, relative } = systemPolicy.resolvePath(filePath);
+    const bytes = content.length;
+    if (bytes > systemPolicy.getPolicy().maxFileBytes) {
+      throw new AppError('FILE_TOO_LARGE', `File exceeds the size limit: ${relative}`, 413);
+    }
+    systemPolicy.checkQuota(userId, 'WRITE', !dryRun);
+
+    const verb = action === 'CREATE_FILE' ? 'Create' : 'Modify';
+    if (dryRun) {
+      return this.dryRunResult(action, `${verb} ${relative} (${bytes} bytes)`, { path: relative });
+    }
+
+    try {
+      mkdirSync(dirname(absolute), { recursive: true });
+      writeFileSync(absolute, content);
+    } catch (error) {
+      throw new AppError(
+        action === 'CREATE_FILE' ? 'FILE_CREATION_ERROR' : 'FILE_MODIFICATION_ERROR',
+        `Failed to write file: ${relative}`
+      );
+    }
+
+    return {
+      action,
+      status: 'executed',
+      dryRun: false,
+      description: `${verb}d file: ${relative}`,
+      path: relative,
+      bytesWritten: bytes,
+    };
+  }
+
+  // Borrado suave: el archivo se mueve a la papelera del usuario
+  private deleteFile(
+    filePath: string,
+    userId: string,
+    dryRun: boolean
+  ): Omit<SystemActionResult, 'durationMs'> {
+    const { absolute, relative } = systemPolicy.resolvePath(filePath);
+    if (!existsSync(absolute) || !statSync(absolute).isFile()) {
+      throw new AppError('FILE_NOT_FOUND', `File not found: ${relative}`, 404);
+    }
+    systemPolicy.checkQuota(userId, 'DELETE', !dryRun);
+
+    const trashDir = this.userTrashDir(userId);
+    const trashPath = join(trashDir, `${Date.now()}-${relative.replace(/\//g, '__')}`);
+    const trashRelative = relativePath(systemPolicy.getRoot(), trashPath);
+
+    if (dryRun) {
+      return this.dryRunResult('DELETE_FILE', `Move ${relative} to ${trashRelative}`, {
+        path: relative,
+      });
+    }
+
+    try {
+      this.purgeTrash(trashDir);
+      mkdirSync(trashDir, { recursive: true });
+      renameSync(absolute, trashPath);
+    } catch (error) {
+      throw new AppError('FILE_DELETION_ERROR', `Failed to delete file: ${relative}`);
+    }
+
+    return {
+      action: 'DELETE_FILE',
+      status: 'executed',
+      dryRun: false,
+      description: `Moved file to trash: ${relative}`,
+      path: relative,
+      trashPath: trashRelative,
+    };
+  }
+
+  private async executeCommand(
+    command: string,
+    userId: string,
+    dryRun: boolean
+  ): Promise<Omit<SystemActionResult, 'durationMs'>> {
+    const { template, args } = systemPolicy.resolveCommand(command);
+    systemPolicy.checkQuota(userId, 'EXECUTE', !dryRun);
+
+    const output = {
+      template: template.id,
+      executable: template.executable,
+      args,
+    };
+    if (dryRun) {
+      return this.dryRunResult('EXECUTE_COMMAND', `Run ${command}`, {
+        command: { ...output, exitCode: 0, stdout: '', stderr: '' },
+      });
+    }
+
+    try {
+      // execFile sin shell: los argumentos llegan tal cual al ejecutable
+      const { stdout, stderr } = await execFileAsync(template.executable, args, {
+        cwd: systemPolicy.getRoot(),
+        timeout: template.timeoutMs,
+        shell: false,
+      });
+      return {
+        action: 'EXECUTE_COMMAND',
+        status: 'executed',
+        dryRun: false,
+        description: `Executed command: ${command}`,
+        command: {
+          ...output,
+          exitCode: 0,
+          stdout: this.truncate(stdout),
+          stderr: this.truncate(stderr),
+        },
+      };
+    } catch (error) {
+      logger.error('System command failed:', {
+        template: template.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new AppError('COMMAND_EXECUTION_ERROR', `Failed to execute command: ${command}`);
+    }
+  }
+
+  private dryRunResult(
+    action: string,
+    description: string,
+    details: Partial<SystemActionResult>
+  ): Omit<SystemActionResult, 'durationMs'> {
+    return {
+      action,
+      status: 'dry_run',
+      dryRun: true,
+      description: `[dry-run] ${description}`,
+      ...details,
+    };
+  }
+
+  private userTrashDir(userId: string): string {
+    const safeUserId = userId.replace(/[^\w-]/g, '_');
+    return resolve(systemPolicy.getRoot(), systemPolicy.getPolicy().trashDir, safeUserId);
+  }
+
+  // Elimina definitivamente lo que superó el tiempo de retención
+  private purgeTrash(trashDir: string): void {
+    if (!existsSync(trashDir)) {
+      return;
+    }
+
+    const cutoff = Date.now() - systemPolicy.getPolicy().trashRetentionMs;
+    for (const name of readdirSync(trashDir)) {
+      const deletedAt = Number(name.split('-')[0]);
+      if (deletedAt && deletedAt < cutoff) {
+        rmSync(join(trashDir, name), { force: true });
+      }
+    }
+  }
+
+  private truncate(output: string | Buffer): string {
+    const text = output.toString();
+    return text.length > MAX_OUTPUT_CHARS ? `${text.slice(0, MAX_OUTPUT_CHARS)}…` : text;
+  }
+}
+
+export const systemActionService = SystemActionService.getInstance();
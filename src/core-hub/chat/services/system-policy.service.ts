@@ -0,0 +1,139 @@
+// src/core-hub/chat/services/system-policy.service.ts
+
+import { existsSync, realpathSync } from 'fs';
+import { dirname, isAbsolute, relative, resolve, sep } from 'path';
+import { AppError } from '@/shared/utils/error-handler';
+import {
+  ResolvedCommand,
+  ResolvedPath,
+  SystemOperation,
+  SystemPolicy,
+} from '../interfaces/system-policy.types';
+import { DEFAULT_SYSTEM_POLICY } from '../tools/system.policy';
+
+// Caracteres de shell: los comandos nunca pasan por una shell, pero se
+// rechazan para que un intento de inyección no llegue a compararse
+const SHELL_METACHARACTERS = /[;&|`$<>\\"'(){}*?!~\n\r]/;
+
+// Decide qué acciones SYSTEM se permiten según una política declarativa
+export class SystemPolicyEngine {
+  private static instance: SystemPolicyEngine;
+  private policy: SystemPolicy = DEFAULT_SYSTEM_POLICY;
+  private root = process.cwd();
+  private usage = new Map<string, number[]>();
+
+  private constructor() {}
+
+  static getInstance(): SystemPolicyEngine {
+    if (!SystemPolicyEngine.instance) {
+      SystemPolicyEngine.instance = new SystemPolicyEngine();
+    }
+    return SystemPolicyEngine.instance;
+  }
+
+  // Permite cambiar la política o la raíz del proyecto (tests, despliegues)
+  configure(options: { policy?: SystemPolicy; root?: string }): void {
+    this.policy = options.policy ?? this.policy;
+    this.root = options.root ?? this.root;
+    this.usage.clear();
+  }
+
+  getPolicy(): SystemPolicy {
+    return this.policy;
+  }
+
+  getRoot(): string {
+    return this.root;
+  }
+
+  /**
+   * Convierte la ruta recibida en una ruta canónica dentro de la raíz. Los
+   * segmentos '..' y los enlaces simbólicos se resuelven antes de comprobar
+   * los directorios permitidos, así '/src/../.env' se evalúa como '.env'.
+   */
+  resolvePath(filePath: string): ResolvedPath {
+    const absolute = resolve(this.root, `.${sep}${filePath.replace(/^[/\\]+/, '')}`);
+    const canonical = this.resolveSymlinks(absolute);
+    const projectPath = relative(this.realRoot(), canonical).split(sep).join('/');
+
+    if (!projectPath || projectPath.startsWith('..') || isAbsolute(projectPath)) {
+      throw new AppError('INVALID_PATH', `Path escapes the project root: ${filePath}`, 403);
+    }
+    if (this.policy.protectedPatterns.some((pattern) => pattern.test(projectPath))) {
+      throw new AppError('INVALID_PATH', `Path is protected: ${projectPath}`, 403);
+    }
+    const allowed = this.policy.allowedRoots.some(
+      (allowedRoot) => projectPath.startsWith(`${allowedRoot}/`)
+    );
+    if (!allowed) {
+      throw new AppError('INVALID_PATH', `Path not allowed: ${projectPath}`, 403);
+    }
+
+    return { absolute: canonical, relative: projectPath };
+  }
+
+  // Busca la plantilla que coincide con el comando, argumento por argumento
+  resolveCommand(command: string): ResolvedCommand {
+    if (SHELL_METACHARACTERS.test(command)) {
+      throw new AppError('INVALID_COMMAND', 'Command contains shell metacharacters', 403);
+    }
+
+    const [executable, ...args] = command.trim().split(/\s+/);
+    const template = this.policy.commands.find(
+      (candidate) =>
+        candidate.executable === executable &&
+        candidate.args.length === args.length &&
+        candidate.args.every((expected, index) => {
+          const placeholder = expected.match(/^\{(\w+)\}$/);
+          return placeholder
+            ? candidate.placeholders?.[placeholder[1]]?.test(args[index]) ?? false
+            : expected === args[index];
+        })
+    );
+
+    if (!template) {
+      throw new AppError('INVALID_COMMAND', `Command not allowed: ${command}`, 403);
+    }
+    return { template, args };
+  }
+
+  // Ventana deslizante por usuario y operación; en dry-run solo se comprueba
+  checkQuota(userId: string, operation: SystemOperation, consume = true): void {
+    const { maxOperations, windowMs } = this.policy.quotas[operation];
+    const key = `${userId}:${operation}`;
+    const now = Date.now();
+    const recent = (this.usage.get(key) || []).filter(
+      (timestamp) => now - timestamp < windowMs
+    );
+
+    if (recent.length >= maxOperations) {
+      this.usage.set(key, recent);
+      throw new AppError(
+        'SYSTEM_QUOTA_EXCEEDED',
+        `Quota of ${maxOperations} ${operation.toLowerCase()} operations exceeded`,
+        429
+      );
+    }
+
+    if (consume) {
+      recent.push(now);
+    }
+    this.usage.set(key, recent);
+  }
+
+  private realRoot(): string {
+    return realpathSync(this.root);
+  }
+
+  // Resuelve los enlaces del antecesor existente más cercano; el resto de
+  // la ruta todavía no existe y no puede contener enlaces
+  private resolveSymlinks(absolute: string): string {
+    let existing = absolute;
+    while (!existsSync(existing) && dirname(existing) !== existing) {
+      existing = dirname(existing);
+    }
+    return resolve(realpathSync(existing), relative(existing, absolute));
+  }
+}
+
+export const systemPolicy = SystemPolicyEngine.getInstance();
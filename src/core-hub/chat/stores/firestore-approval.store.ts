@@ -0,0 +1,91 @@
+// src/core-hub/chat/stores/firestore-approval.store.ts
+
+import {
+  Firestore,
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  orderBy,
+  query,
+  runTransaction,
+  setDoc,
+  where,
+} from 'firebase/firestore';
+import {
+  ApprovalAuditEntry,
+  ApprovalStatus,
+  ApprovalStore,
+  PendingApproval,
+} from '../interfaces/approval.types';
+
+export class FirestoreApprovalStore implements ApprovalStore {
+  private readonly APPROVALS_COLLECTION = 'pending_approvals';
+  private readonly AUDIT_COLLECTION = 'approval_audit';
+
+  constructor(private readonly db: Firestore) {}
+
+  async save(approval: PendingApproval): Promise<void> {
+    await setDoc(
+      doc(this.db, this.APPROVALS_COLLECTION, approval.id),
+      this.toDocument(approval)
+    );
+  }
+
+  async saveIfStatus(approval: PendingApproval, expected: ApprovalStatus): Promise<boolean> {
+    const ref = doc(this.db, this.APPROVALS_COLLECTION, approval.id);
+    return runTransaction(this.db, async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      if (!snapshot.exists() || snapshot.data().status !== expected) {
+        return false;
+      }
+      transaction.set(ref, this.toDocument(approval));
+      return true;
+    });
+  }
+
+  async get(id: string): Promise<PendingApproval | null> {
+    const snapshot = await getDoc(doc(this.db, this.APPROVALS_COLLECTION, id));
+    return snapshot.exists() ? (snapshot.data() as PendingApproval) : null;
+  }
+
+  async listByUser(
+    userId: string,
+    status?: ApprovalStatus
+  ): Promise<PendingApproval[]> {
+    const constraints = [
+      where('userId', '==', userId),
+      ...(status ? [where('status', '==', status)] : []),
+      orderBy('createdAt', 'asc'),
+    ];
+    const snapshot = await getDocs(
+      query(collection(this.db, this.APPROVALS_COLLECTION), ...constraints)
+    );
+    return snapshot.docs.map((entry) => entry.data() as PendingApproval);
+  }
+
+  // El registro de auditoría es de solo inserción
+  async appendAudit(entry: ApprovalAuditEntry): Promise<void> {
+    await addDoc(
+      collection(this.db, this.AUDIT_COLLECTION),
+      this.toDocument(entry)
+    );
+  }
+
+  async getAudit(approvalId: string): Promise<ApprovalAuditEntry[]> {
+    const snapshot = await getDocs(
+      query(
+        collection(this.db, this.AUDIT_COLLECTION),
+        where('approvalId', '==', approvalId),
+        orderBy('timestamp', 'asc')
+      )
+    );
+    return snapshot.docs.map((entry) => entry.data() as ApprovalAuditEntry);
+  }
+
+  // Firestore rechaza campos con valor undefined
+  private toDocument<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value)) as T;
+  }
+}
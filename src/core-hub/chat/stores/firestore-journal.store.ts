@@ -0,0 +1,44 @@
+// src/core-hub/chat/stores/firestore-journal.store.ts
+
+import {
+  Firestore,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  orderBy,
+  query,
+  setDoc,
+  where,
+} from 'firebase/firestore';
+import { ActionJournalStore, JournalEntry } from '../interfaces/journal.types';
+
+export class FirestoreJournalStore implements ActionJournalStore {
+  private readonly JOURNAL_COLLECTION = 'action_journal';
+
+  constructor(private readonly db: Firestore) {}
+
+  async save(entry: JournalEntry): Promise<void> {
+    // Firestore rechaza campos con valor undefined
+    await setDoc(
+      doc(this.db, this.JOURNAL_COLLECTION, entry.id),
+      JSON.parse(JSON.stringify(entry))
+    );
+  }
+
+  async get(id: string): Promise<JournalEntry | null> {
+    const snapshot = await getDoc(doc(this.db, this.JOURNAL_COLLECTION, id));
+    return snapshot.exists() ? (snapshot.data() as JournalEntry) : null;
+  }
+
+  async listByUser(userId: string): Promise<JournalEntry[]> {
+    const snapshot = await getDocs(
+      query(
+        collection(this.db, this.JOURNAL_COLLECTION),
+        where('userId', '==', userId),
+        orderBy('executedAt', 'desc')
+      )
+    );
+    return snapshot.docs.map((entry) => entry.data() as JournalEntry);
+  }
+}
@@ -0,0 +1,60 @@
+// src/core-hub/chat/stores/firestore-profile.store.ts
+
+import {
+  Firestore,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  orderBy,
+  query,
+  setDoc,
+} from 'firebase/firestore';
+import {
+  FinancialProfile,
+  FinancialProfileStore,
+  ProcessedDocument,
+  ProcessedDocumentStore,
+} from '../interfaces/financial-profile.types';
+
+export class FirestoreProcessedDocumentStore implements ProcessedDocumentStore {
+  constructor(private readonly db: Firestore) {}
+
+  async save(document: ProcessedDocument): Promise<void> {
+    // Firestore rechaza campos con valor undefined
+    await setDoc(
+      doc(this.db, `users/${document.userId}/processed_documents/${document.id}`),
+      JSON.parse(JSON.stringify(document))
+    );
+  }
+
+  async listByUser(userId: string): Promise<ProcessedDocument[]> {
+    const snapshot = await getDocs(
+      query(collection(this.db, `users/${userId}/processed_documents`), orderBy('processedAt'))
+    );
+    return snapshot.docs.map(
+      (document) => ({ ...document.data(), id: document.id }) as ProcessedDocument
+    );
+  }
+}
+
+export class FirestoreFinancialProfileStore implements FinancialProfileStore {
+  constructor(private readonly db: Firestore) {}
+
+  async get(userId: string): Promise<FinancialProfile | null> {
+    const snapshot = await getDoc(doc(this.db, `users/${userId}/profile/financial`));
+    return snapshot.exists() ? (snapshot.data() as FinancialProfile) : null;
+  }
+
+  // Reemplaza cada campo del perfil salvo budget.monthlyExpenses, que puede
+  // haber cambiado (setBudget) desde que se leyó el perfil
+  async save(userId: string, profile: FinancialProfile): Promise<void> {
+    const data = JSON.parse(JSON.stringify(profile));
+    delete data.budget.monthlyExpenses;
+    await setDoc(doc(this.db, `users/${userId}/profile/financial`), data, {
+      mergeFields: Object.keys(data).flatMap((key) =>
+        key === 'budget' ? Object.keys(data.budget).map((field) => `budget.${field}`) : [key]
+      ),
+    });
+  }
+}
@@ -0,0 +1,52 @@
+// src/core-hub/chat/stores/firestore-session.store.ts
+
+import {
+  Firestore,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  orderBy,
+  query,
+  setDoc,
+  where,
+} from 'firebase/firestore';
+import { ChatSession } from '../interfaces/chat.types';
+import { SessionRepository } from '../interfaces/session.types';
+
+export class FirestoreSessionStore implements SessionRepository {
+  private readonly SESSIONS_COLLECTION = 'sessions';
+
+  constructor(private readonly db: Firestore) {}
+
+  async save(session: ChatSession): Promise<void> {
+    // Firestore rechaza campos con valor undefined
+    await setDoc(
+      doc(this.db, this.SESSIONS_COLLECTION, session.id),
+      JSON.parse(JSON.stringify(session))
+    );
+  }
+
+  async get(id: string): Promise<ChatSession | null> {
+    const snapshot = await getDoc(doc(this.db, this.SESSIONS_COLLECTION, id));
+    return snapshot.exists() ? ({ ...snapshot.data(), id } as ChatSession) : null;
+  }
+
+  async listByUser(userId: string): Promise<ChatSession[]> {
+    const snapshot = await getDocs(
+      query(
+        collection(this.db, this.SESSIONS_COLLECTION),
+        where('userId', '==', userId),
+        orderBy('metadata.lastAccessed', 'desc')
+      )
+    );
+    return snapshot.docs.map(
+      (session) => ({ ...session.data(), id: session.id }) as ChatSession
+    );
+  }
+
+  async delete(id: string): Promise<void> {
+    await deleteDoc(doc(this.db, this.SESSIONS_COLLECTION, id));
+  }
+}
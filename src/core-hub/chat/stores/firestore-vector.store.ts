@@ -0,0 +1,62 @@
+// src/core-hub/chat/stores/firestore-vector.store.ts
+
+import {
+  Firestore,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  orderBy,
+  query,
+  setDoc,
+} from 'firebase/firestore';
+import { topKBySimilarity } from '@/core-hub/ai/utils/vector';
+import {
+  FinancialMemory,
+  MemoryMatch,
+  MemoryVectorStore,
+} from '../interfaces/memory.types';
+
+// El SDK cliente no ofrece búsqueda vectorial: se comparan en proceso todos los recuerdos del usuario
+export class FirestoreVectorStore implements MemoryVectorStore {
+  constructor(private readonly db: Firestore) {}
+
+  async save(userId: string, memory: FinancialMemory): Promise<void> {
+    // Firestore rechaza campos con valor undefined
+    await setDoc(
+      doc(this.db, `users/${userId}/memories/${memory.id}`),
+      JSON.parse(JSON.stringify(memory))
+    );
+  }
+
+  async get(userId: string, id: string): Promise<FinancialMemory | null> {
+    const snapshot = await getDoc(doc(this.db, `users/${userId}/memories/${id}`));
+    return snapshot.exists() ? ({ ...snapshot.data(), id } as FinancialMemory) : null;
+  }
+
+  async listByUser(userId: string): Promise<FinancialMemory[]> {
+    const snapshot = await getDocs(
+      query(collection(this.db, `users/${userId}/memories`), orderBy('timestamp', 'desc'))
+    );
+    // Los recuerdos antiguos no guardaban el id en el documento
+    return snapshot.docs.map(
+      (memory) => ({ ...memory.data(), id: memory.id }) as FinancialMemory
+    );
+  }
+
+  async search(
+    userId: string,
+    vector: number[],
+    k: number,
+    model: string
+  ): Promise<MemoryMatch[]> {
+    return topKBySimilarity(await this.listByUser(userId), vector, k, (memory) =>
+      memory.embeddingModel === model ? memory.embedding : undefined
+    ).map(({ item, score }) => ({ memory: item, score }));
+  }
+
+  async delete(userId: string, id: string): Promise<void> {
+    await deleteDoc(doc(this.db, `users/${userId}/memories/${id}`));
+  }
+}
@@ -0,0 +1,53 @@
+// src/core-hub/chat/stores/memory-approval.store.ts
+
+import {
+  ApprovalAuditEntry,
+  ApprovalStatus,
+  ApprovalStore,
+  PendingApproval,
+} from '../interfaces/approval.types';
+
+// Almacén en memoria para tests y desarrollo sin Firestore
+export class InMemoryApprovalStore implements ApprovalStore {
+  private approvals = new Map<string, PendingApproval>();
+  private audit: ApprovalAuditEntry[] = [];
+
+  async save(approval: PendingApproval): Promise<void> {
+    this.approvals.set(approval.id, { ...approval });
+  }
+
+  // Sin await entre la comprobación y la escritura: atómico en un solo proceso
+  async saveIfStatus(approval: PendingApproval, expected: ApprovalStatus): Promise<boolean> {
+    if (this.approvals.get(approval.id)?.status !== expected) {
+      return false;
+    }
+    this.approvals.set(approval.id, { ...approval });
+    return true;
+  }
+
+  async get(id: string): Promise<PendingApproval | null> {
+    const approval = this.approvals.get(id);
+    return approval ? { ...approval } : null;
+  }
+
+  async listByUser(
+    userId: string,
+    status?: ApprovalStatus
+  ): Promise<PendingApproval[]> {
+    return Array.from(this.approvals.values())
+      .filter(
+        (approval) =>
+          approval.userId === userId && (!status || approval.status === status)
+      )
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map((approval) => ({ ...approval }));
+  }
+
+  async appendAudit(entry: ApprovalAuditEntry): Promise<void> {
+    this.audit.push({ ...entry });
+  }
+
+  async getAudit(approvalId: string): Promise<ApprovalAuditEntry[]> {
+    return this.audit.filter((entry) => entry.approvalId === approvalId);
+  }
+}
@@ -0,0 +1,25 @@
+// src/core-hub/chat/stores/memory-journal.store.ts
+
+import { ActionJournalStore, JournalEntry } from '../interfaces/journal.types';
+
+export class InMemoryJournalStore implements ActionJournalStore {
+  private entries = new Map<string, JournalEntry>();
+
+  async save(entry: JournalEntry): Promise<void> {
+    this.entries.set(entry.id, { ...entry });
+  }
+
+  async get(id: string): Promise<JournalEntry | null> {
+    const entry = this.entries.get(id);
+    return entry ? { ...entry } : null;
+  }
+
+  async listByUser(userId: string): Promise<JournalEntry[]> {
+    // Invertido antes de ordenar: a igual executedAt, primero la más reciente
+    return Array.from(this.entries.values())
+      .reverse()
+      .filter((entry) => entry.userId === userId)
+      .sort((a, b) => b.executedAt - a.executedAt)
+      .map((entry) => ({ ...entry }));
+  }
+}
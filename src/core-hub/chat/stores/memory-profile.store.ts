@@ -0,0 +1,40 @@
+// src/core-hub/chat/stores/memory-profile.store.ts
+
+import {
+  FinancialProfile,
+  FinancialProfileStore,
+  ProcessedDocument,
+  ProcessedDocumentStore,
+} from '../interfaces/financial-profile.types';
+
+export class InMemoryProcessedDocumentStore implements ProcessedDocumentStore {
+  private documents = new Map<string, ProcessedDocument>();
+
+  async save(document: ProcessedDocument): Promise<void> {
+    this.documents.set(document.id, structuredClone(document));
+  }
+
+  async listByUser(userId: string): Promise<ProcessedDocument[]> {
+    return Array.from(this.documents.values())
+      .filter((document) => document.userId === userId)
+      .sort((a, b) => a.processedAt - b.processedAt)
+      .map((document) => structuredClone(document));
+  }
+}
+
+export class InMemoryFinancialProfileStore implements FinancialProfileStore {
+  private profiles = new Map<string, FinancialProfile>();
+
+  async get(userId: string): Promise<FinancialProfile | null> {
+    const profile = this.profiles.get(userId);
+    return profile ? structuredClone(profile) : null;
+  }
+
+  async save(userId: string, profile: FinancialProfile): Promise<void> {
+    const budgets = this.profiles.get(userId)?.budget.monthlyExpenses ?? profile.budget.monthlyExpenses;
+    this.profiles.set(
+      userId,
+      structuredClone({ ...profile, budget: { ...profile.budget, monthlyExpenses: budgets } })
+    );
+  }
+}
@@ -0,0 +1,28 @@
+// src/core-hub/chat/stores/memory-session.store.ts
+
+import { ChatSession } from '../interfaces/chat.types';
+import { SessionRepository } from '../interfaces/session.types';
+
+export class InMemorySessionStore implements SessionRepository {
+  private sessions = new Map<string, ChatSession>();
+
+  async save(session: ChatSession): Promise<void> {
+    this.sessions.set(session.id, structuredClone(session));
+  }
+
+  async get(id: string): Promise<ChatSession | null> {
+    const session = this.sessions.get(id);
+    return session ? structuredClone(session) : null;
+  }
+
+  async listByUser(userId: string): Promise<ChatSession[]> {
+    return Array.from(this.sessions.values())
+      .filter((session) => session.userId === userId)
+      .sort((a, b) => b.metadata.lastAccessed - a.metadata.lastAccessed)
+      .map((session) => structuredClone(session));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.sessions.delete(id);
+  }
+}
@@ -0,0 +1,45 @@
+// src/core-hub/chat/stores/memory-vector.store.ts
+
+import { topKBySimilarity } from '@/core-hub/ai/utils/vector';
+import {
+  FinancialMemory,
+  MemoryMatch,
+  MemoryVectorStore,
+} from '../interfaces/memory.types';
+
+export class InMemoryVectorStore implements MemoryVectorStore {
+  private memories = new Map<string, Map<string, FinancialMemory>>();
+
+  async save(userId: string, memory: FinancialMemory): Promise<void> {
+    if (!this.memories.has(userId)) {
+      this.memories.set(userId, new Map());
+    }
+    this.memories.get(userId)!.set(memory.id, structuredClone(memory));
+  }
+
+  async get(userId: string, id: string): Promise<FinancialMemory | null> {
+    const memory = this.memories.get(userId)?.get(id);
+    return memory ? structuredClone(memory) : null;
+  }
+
+  async listByUser(userId: string): Promise<FinancialMemory[]> {
+    return Array.from(this.memories.get(userId)?.values() || [])
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .map((memory) => structuredClone(memory));
+  }
+
+  async search(
+    userId: string,
+    vector: number[],
+    k: number,
+    model: string
+  ): Promise<MemoryMatch[]> {
+    return topKBySimilarity(await this.listByUser(userId), vector, k, (memory) =>
+      memory.embeddingModel === model ? memory.embedding : undefined
+    ).map(({ item, score }) => ({ memory: item, score }));
+  }
+
+  async delete(userId: string, id: string): Promise<void> {
+    this.memories.get(userId)?.delete(id);
+  }
+}
@@ -0,0 +1,62 @@
+// src/core-hub/chat/stores/sqlite-session.store.ts
+
+import { mkdirSync } from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { ChatSession } from '../interfaces/chat.types';
+import { SessionRepository } from '../interfaces/session.types';
+
+// Un fichero SQLite local: persistencia sin Firestore (desarrollo, demos)
+export class SqliteSessionStore implements SessionRepository {
+  private readonly db: Database.Database;
+
+  // ':memory:' para una base que no sobrevive al proceso
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      mkdirSync(path.dirname(filename), { recursive: true });
+    }
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        last_accessed INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS sessions_by_user ON sessions (user_id, last_accessed DESC);
+    `);
+  }
+
+  async save(session: ChatSession): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO sessions (id, user_id, last_accessed, data) VALUES (?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           user_id = excluded.user_id, last_accessed = excluded.last_accessed, data = excluded.data`
+      )
+      .run(session.id, session.userId, session.metadata.lastAccessed, JSON.stringify(session));
+  }
+
+  async get(id: string): Promise<ChatSession | null> {
+    const row = this.db.prepare('SELECT data FROM sessions WHERE id = ?').get(id) as
+      | { data: string }
+      | undefined;
+    return row ? (JSON.parse(row.data) as ChatSession) : null;
+  }
+
+  async listByUser(userId: string): Promise<ChatSession[]> {
+    const rows = this.db
+      .prepare('SELECT data FROM sessions WHERE user_id = ? ORDER BY last_accessed DESC')
+      .all(userId) as Array<{ data: string }>;
+    return rows.map((row) => JSON.parse(row.data) as ChatSession);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM sessions WHERE id = ?').run(id);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { toolRegistry } from '../tool-registry';
+import { AppError } from '@/shared/utils/error-handler';
+
+describe('ToolRegistry', () => {
+  it('should offer only non-system tools to the model as JSON schema', () => {
+    const tools = toolRegistry.getModelTools();
+    const names = tools.map((tool) => tool.name);
+
+    expect(names).toContain('tax_submit_form');
+    expect(names).toContain('financial_update_budget');
+    expect(names).toContain('credit_dispute_transaction');
+    expect(names.some((name) => name.startsWith('system_'))).toBe(false);
+
+    const budget = tools.find((tool) => tool.name === 'financial_update_budget');
+    expect(budget?.inputSchema).toMatchObject({
+      type: 'object',
+      required: expect.arrayContaining(['category', 'monthlyAmount']),
+    });
+  });
+
+  it('should convert valid tool calls into module actions', () => {
+    const { actions, rejected } = toolRegistry.parseToolCalls([
+      {
+        id: 'call_1',
+        name: 'financial_update_budget',
+        input: { category: 'groceries', monthlyAmount: 450 },
+      },
+    ]);
+
+    expect(rejected).toHaveLength(0);
+    expect(actions).toEqual([
+      {
+        type: 'FINANCIAL',
+        action: 'UPDATE_BUDGET',
+        params: { category: 'groceries', monthlyAmount: 450 },
+        metadata: { isReversible: true, toolCallId: 'call_1' },
+      },
+    ]);
+  });
+
+  it('should reject calls with invalid input or unknown tools', () => {
+    const { actions, rejected } = toolRegistry.parseToolCalls([
+      {
+        id: 'call_1',
+        name: 'tax_submit_form',
+        input: { formId: '1040', taxYear: 'last year' },
+      },
+      { id: 'call_2', name: 'system_delete_file', input: { filePath: '/src' } },
+      { id: 'call_3', name: 'transfer_funds', input: {} },
+    ]);
+
+    expect(actions).toHaveLength(0);
+    expect(rejected.map((entry) => entry.call.id)).toEqual([
+      'call_1',
+      'call_2',
+      'call_3',
+    ]);
+    expect(rejected[0].error).toContain('taxYear');
+  });
+
+  it('should validate actions built outside the model', () => {
+    expect(
+      toolRegistry.validateAction({
+        type: 'SYSTEM',
+        action: 'CREATE_FILE',
+        params: { filePath: '/src/data/notes.txt', content: 'hola' },
+      })
+    ).toEqual({ filePath: '/src/data/notes.txt', content: 'hola' });
+
+    expect(() =>
+      toolRegistry.validateAction({
+        type: 'CREDIT',
+        action: 'DISPUTE_TRANSACTION',
+        params: { transactionId: 'tx_1', reason: 'no' },
+      })
+    ).toThrow(AppError);
+
+    expect(() =>
+      toolRegistry.validateAction({
+        type: 'TAX',
+        action: 'FILE_EXTENSION',
+        params: {},
+      })
+    ).toThrow('No tool registered for TAX.FILE_EXTENSION');
+  });
+});
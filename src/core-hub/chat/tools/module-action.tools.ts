@@ -0,0 +1,187 @@
+// src/core-hub/chat/tools/module-action.tools.ts
+
+import { z } from 'zod';
+import { ActionToolDefinition } from '../interfaces/tool.types';
+
+const taxYear = z.number().int().min(2000).max(2100);
+const amount = z.number().nonnegative();
+const relativePath = z
+  .string()
+  .min(1)
+  .describe('Path relative to the project root, under /data or /public, e.g. /data/file.json');
+const fileEncoding = z
+  .enum(['utf8', 'base64'])
+  .optional()
+  .describe('Encoding of content: base64 for binary files, utf8 by default');
+const dryRun = z
+  .boolean()
+  .optional()
+  .describe('Validate against the system policy without changing anything');
+
+export const MODULE_ACTION_TOOLS: ActionToolDefinition[] = [
+  // TAX
+  {
+    name: 'tax_submit_form',
+    description: 'Submit a completed IRS form for the user.',
+    module: 'TAX',
+    action: 'SUBMIT_FORM',
+    exposeToModel: true,
+    isReversible: false,
+    schema: z.object({
+      formId: z.string().min(1).describe('IRS form identifier, e.g. 1040'),
+      taxYear,
+      fields: z.record(z.union([z.string(), z.number(), z.boolean()])).optional(),
+    }),
+  },
+  {
+    name: 'tax_update_profile',
+    description: 'Update the user tax profile (filing status, dependents, state).',
+    module: 'TAX',
+    action: 'UPDATE_PROFILE',
+    exposeToModel: true,
+    isReversible: true,
+    schema: z
+      .object({
+        filingStatus: z
+          .enum(['SINGLE', 'MARRIED_JOINT', 'MARRIED_SEPARATE', 'HEAD_OF_HOUSEHOLD', 'QUALIFYING_SURVIVOR'])
+          .optional(),
+        dependents: z.number().int().nonnegative().optional(),
+        state: z.string().length(2).optional(),
+      })
+      .refine((params) => Object.keys(params).length > 0, {
+        message: 'At least one profile field is required',
+      }),
+  },
+  {
+    name: 'tax_calculate_deductions',
+    description: 'Calculate the deductions available to the user for a tax year.',
+    module: 'TAX',
+    action: 'CALCULATE_DEDUCTIONS',
+    exposeToModel: true,
+    isReversible: true,
+    readOnly: true,
+    schema: z.object({
+      taxYear,
+      categories: z.array(z.string()).optional(),
+    }),
+  },
+
+  // FINANCIAL
+  {
+    name: 'financial_update_budget',
+    description: 'Set the monthly budget for a spending category.',
+    module: 'FINANCIAL',
+    action: 'UPDATE_BUDGET',
+    exposeToModel: true,
+    isReversible: true,
+    schema: z.object({
+      category: z.string().min(1),
+      monthlyAmount: amount,
+    }),
+  },
+  {
+    name: 'financial_create_savings_goal',
+    description: 'Create a savings goal with a target amount and optional date.',
+    module: 'FINANCIAL',
+    action: 'CREATE_SAVINGS_GOAL',
+    exposeToModel: true,
+    isReversible: true,
+    schema: z.object({
+      name: z.string().min(1),
+      targetAmount: amount.positive(),
+      targetDate: z.string().date().optional().describe('YYYY-MM-DD'),
+    }),
+  },
+  {
+    name: 'financial_analyze_expenses',
+    description: 'Analyze the user expenses for a period and optional categories.',
+    module: 'FINANCIAL',
+    action: 'ANALYZE_EXPENSES',
+    exposeToModel: true,
+    isReversible: true,
+    readOnly: true,
+    schema: z.object({
+      from: z.string().date().optional(),
+      to: z.string().date().optional(),
+      categories: z.array(z.string()).optional(),
+    }),
+  },
+
+  // CREDIT
+  {
+    name: 'credit_dispute_transaction',
+    description: 'Open a dispute for a transaction on the user credit report.',
+    module: 'CREDIT',
+    action: 'DISPUTE_TRANSACTION',
+    exposeToModel: true,
+    isReversible: false,
+    schema: z.object({
+      transactionId: z.string().min(1),
+      reason: z.string().min(10),
+      amount: amount.optional(),
+    }),
+  },
+  {
+    name: 'credit_update_profile',
+    description: 'Update credit profile details such as card limits or balances.',
+    module: 'CREDIT',
+    action: 'UPDATE_CREDIT_PROFILE',
+    exposeToModel: true,
+    isReversible: true,
+    schema: z.object({
+      provider: z.string().min(1),
+      limit: amount.optional(),
+      balance: amount.optional(),
+    }),
+  },
+  {
+    name: 'credit_analyze_score',
+    description: 'Analyze the user credit score and the factors affecting it.',
+    module: 'CREDIT',
+    action: 'ANALYZE_SCORE',
+    exposeToModel: true,
+    isReversible: true,
+    readOnly: true,
+    schema: z.object({
+      bureau: z.enum(['EQUIFAX', 'EXPERIAN', 'TRANSUNION']).optional(),
+    }),
+  },
+
+  // SYSTEM
+  {
+    name: 'system_modify_file',
+    description: 'Overwrite the contents of a project file.',
+    module: 'SYSTEM',
+    action: 'MODIFY_FILE',
+    exposeToModel: false,
+    isReversible: true,
+    schema: z.object({ filePath: relativePath, content: z.string(), encoding: fileEncoding, dryRun }),
+  },
+  {
+    name: 'system_create_file',
+    description: 'Create a new project file.',
+    module: 'SYSTEM',
+    action: 'CREATE_FILE',
+    exposeToModel: false,
+    isReversible: true,
+    schema: z.object({ filePath: relativePath, content: z.string(), encoding: fileEncoding, dryRun }),
+  },
+  {
+    name: 'system_delete_file',
+    description: 'Move a project file to the trash.',
+    module: 'SYSTEM',
+    action: 'DELETE_FILE',
+    exposeToModel: false,
+    isReversible: false,
+    schema: z.object({ filePath: relativePath, dryRun }),
+  },
+  {
+    name: 'system_execute_command',
+    description: 'Run a command that matches an allowlisted command template.',
+    module: 'SYSTEM',
+    action: 'EXECUTE_COMMAND',
+    exposeToModel: false,
+    isReversible: false,
+    schema: z.object({ command: z.string().min(1), dryRun }),
+  },
+];
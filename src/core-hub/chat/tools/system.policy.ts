@@ -0,0 +1,79 @@
+// src/core-hub/chat/tools/system.policy.ts
+
+import { SystemPolicy } from '../interfaces/system-policy.types';
+
+const HOUR_MS = 60 * 60 * 1000;
+// Scripts de package.json que terminan solos y no reescriben el proyecto
+// (fuera quedan dev, start, format, test:watch, test:auto...)
+const RUNNABLE_SCRIPTS = ['lint', 'test:coverage', 'validate'];
+const scriptName = new RegExp(`^(?:${RUNNABLE_SCRIPTS.join('|')})$`);
+
+export const DEFAULT_SYSTEM_POLICY: SystemPolicy = {
+  // Solo datos: las plantillas de comandos ejecutan código de src y scripts,
+  // que por eso no se puede escribir (escribir y luego ejecutar)
+  allowedRoots: ['public', 'data'],
+  protectedPatterns: [
+    /(^|\/)\.env(\..*)?$/,
+    /(^|\/)package(-lock)?\.json$/,
+    /(^|\/)\.replit$/,
+    /(^|\/)\.git(\/|$)/,
+  ],
+  maxFileBytes: 512 * 1024,
+  commands: [
+    {
+      id: 'npm-install',
+      // Sin los scripts de ciclo de vida de las dependencias
+      description: 'Install project dependencies without running their install scripts',
+      executable: 'npm',
+      args: ['install', '--ignore-scripts'],
+      timeoutMs: 5 * 60 * 1000,
+    },
+    {
+      id: 'npm-test',
+      description: 'Run the test suite',
+      executable: 'npm',
+      args: ['test'],
+      timeoutMs: 2 * 60 * 1000,
+    },
+    {
+      id: 'npm-run',
+      description: 'Run a package.json script',
+      executable: 'npm',
+      args: ['run', '{script}'],
+      placeholders: { script: scriptName },
+      timeoutMs: 2 * 60 * 1000,
+    },
+    {
+      id: 'yarn-run',
+      description: 'Run a package.json script with yarn',
+      executable: 'yarn',
+      args: ['run', '{script}'],
+      placeholders: { script: scriptName },
+      timeoutMs: 2 * 60 * 1000,
+    },
+    {
+      id: 'pnpm-run',
+      description: 'Run a package.json script with pnpm',
+      executable: 'pnpm',
+      args: ['run', '{script}'],
+      placeholders: { script: scriptName },
+      timeoutMs: 2 * 60 * 1000,
+    },
+    {
+      id: 'node-script',
+      description: 'Run a script from /scripts with node',
+      executable: 'node',
+      args: ['{script}'],
+      // Relativa a la raíz del proyecto y sin segmentos '..': cada segmento es un nombre simple
+      placeholders: { script: /^scripts(\/[\w-]+)+\.(c|m)?js$/ },
+      timeoutMs: 60 * 1000,
+    },
+  ],
+  quotas: {
+    WRITE: { maxOperations: 50, windowMs: HOUR_MS },
+    DELETE: { maxOperations: 20, windowMs: HOUR_MS },
+    EXECUTE: { maxOperations: 10, windowMs: HOUR_MS },
+  },
+  trashDir: '.trash',
+  trashRetentionMs: 7 * 24 * HOUR_MS,
+};
@@ -0,0 +1,126 @@
+// src/core-hub/chat/tools/tool-registry.ts
+
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { ModuleAction } from '@/shared/types';
+import { AppError } from '@/shared/utils/error-handler';
+import {
+  LLMToolCall,
+  LLMToolDefinition,
+} from '@/core-hub/ai/interfaces/llm-provider.types';
+import {
+  ActionToolDefinition,
+  RejectedToolCall,
+  ToolCallParseResult,
+} from '../interfaces/tool.types';
+import { MODULE_ACTION_TOOLS } from './module-action.tools';
+
+export class ToolRegistry {
+  private static instance: ToolRegistry;
+  private tools: Map<string, ActionToolDefinition> = new Map();
+
+  private constructor() {
+    MODULE_ACTION_TOOLS.forEach((tool) => this.register(tool));
+  }
+
+  public static getInstance(): ToolRegistry {
+    if (!ToolRegistry.instance) {
+      ToolRegistry.instance = new ToolRegistry();
+    }
+    return ToolRegistry.instance;
+  }
+
+  register(tool: ActionToolDefinition): void {
+    this.tools.set(tool.name, tool);
+  }
+
+  get(name: string): ActionToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  findByAction(
+    type: ModuleAction['type'],
+    action: string
+  ): ActionToolDefinition | undefined {
+    return Array.from(this.tools.values()).find(
+      (tool) => tool.module === type && tool.action === action
+    );
+  }
+
+  // Definiciones en JSON Schema para los proveedores LLM
+  getModelTools(): LLMToolDefinition[] {
+    return Array.from(this.tools.values())
+      .filter((tool) => tool.exposeToModel)
+      .map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: this.toJsonSchema(tool),
+      }));
+  }
+
+  parseToolCalls(calls: LLMToolCall[] = []): ToolCallParseResult {
+    const actions: ModuleAction[] = [];
+    const rejected: RejectedToolCall[] = [];
+
+    for (const call of calls) {
+      const tool = this.tools.get(call.name);
+      if (!tool || !tool.exposeToModel) {
+        rejected.push({ call, error: `Unknown tool: ${call.name}` });
+        continue;
+      }
+
+      const result = tool.schema.safeParse(call.input);
+      if (!result.success) {
+        rejected.push({ call, error: this.formatIssues(result.error.issues) });
+        continue;
+      }
+
+      actions.push({
+        type: tool.module,
+        action: tool.action,
+        params: result.data,
+        metadata: { isReversible: tool.isReversible, toolCallId: call.id },
+      });
+    }
+
+    return { actions, rejected };
+  }
+
+  // Valida una acción ya construida; devuelve los parámetros normalizados
+  validateAction(action: ModuleAction): ModuleAction['params'] {
+    const tool = this.findByAction(action.type, action.action);
+    if (!tool) {
+      throw new AppError(
+        'INVALID_ACTION_PARAMS',
+        `No tool registered for ${action.type}.${action.action}`
+      );
+    }
+
+    const result = tool.schema.safeParse(action.params);
+    if (!result.success) {
+      throw new AppError(
+        'INVALID_ACTION_PARAMS',
+        `Invalid params for ${tool.name}: ${this.formatIssues(result.error.issues)}`
+      );
+    }
+    return result.data;
+  }
+
+  private toJsonSchema(tool: ActionToolDefinition): Record<string, unknown> {
+    const schema = zodToJsonSchema(tool.schema, { target: 'openApi3' });
+    return schema as Record<string, unknown>;
+  }
+
+  private formatIssues(
+    issues: { path: (string | number)[]; message: string }[]
+  ): string {
+    return issues
+      .map((issue) =>
+        issue.path.length > 0
+          ? `${issue.path.join('.')}: ${issue.message}`
+          : issue.message
+      )
+      .join('; ');
+  }
+}
+
+export const toolRegistry = ToolRegistry.getInstance();
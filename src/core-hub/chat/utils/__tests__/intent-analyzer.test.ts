@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { intentAnalyzer, isExplicitRequest } from '../intent-analyzer';
+import { extractEntities } from '../entity-extractor';
+import { NaiveBayesIntentClassifier } from '../intent-classifier';
+import { INTENT_UTTERANCES } from '../intent-dataset';
+
+describe('extractEntities', () => {
+  it('should extract amounts, years and form IDs without mixing them up', () => {
+    const entities = extractEntities('Submit my 1040-sr and W2 for 2023, I owe $1,250.50');
+
+    expect(entities.formIds).toEqual(['1040-SR', 'W-2']);
+    expect(entities.years).toEqual([2023]);
+    expect(entities.amounts).toEqual([1250.5]);
+  });
+
+  it('should understand shorthand and Spanish amounts', () => {
+    expect(extractEntities('save $12k for a car').amounts).toEqual([12000]);
+    expect(extractEntities('presupuesto de 400 dólares').amounts).toEqual([400]);
+  });
+
+  it('should extract domain entities', () => {
+    expect(extractEntities('dispute transaction TX-99812 on my Amex')).toMatchObject({
+      transactionId: 'TX-99812',
+      provider: 'Amex',
+    });
+    expect(
+      extractEntities('married filing jointly with 2 kids, we moved to CA')
+    ).toMatchObject({ filingStatus: 'MARRIED_JOINT', dependents: 2, state: 'CA' });
+  });
+});
+
+describe('NaiveBayesIntentClassifier', () => {
+  it('should generalise to utterances it was not trained on', () => {
+    // Validación simple: se deja fuera una de cada cuatro frases
+    const training = INTENT_UTTERANCES.filter((_, index) => index % 4 !== 0);
+    const heldOut = INTENT_UTTERANCES.filter((_, index) => index % 4 === 0);
+    const classifier = new NaiveBayesIntentClassifier();
+    classifier.train(training);
+
+    const correct = heldOut.filter(
+      (example) => classifier.predict(example.text).intent === example.intent
+    );
+    expect(correct.length / heldOut.length).toBeGreaterThan(0.7);
+  });
+
+  it('should return a calibrated probability distribution', () => {
+    const classifier = new NaiveBayesIntentClassifier();
+    classifier.train(INTENT_UTTERANCES);
+
+    const { scores, confidence } = classifier.predict('set my rent budget to $900');
+    const total = Object.values(scores).reduce((sum, score) => sum + score, 0);
+    expect(total).toBeCloseTo(1);
+    expect(confidence).toBeLessThan(1);
+    expect(classifier.getTemperature()).toBeGreaterThan(0);
+  });
+
+  it('should be less confident when it knows few of the words', () => {
+    const classifier = new NaiveBayesIntentClassifier();
+    classifier.train(INTENT_UTTERANCES);
+
+    expect(classifier.predict('budget').confidence).toBeLessThan(
+      classifier.predict('change my grocery budget to $400 a month').confidence
+    );
+  });
+});
+
+describe('IntentAnalyzer', () => {
+  it('should map intents to concrete module actions', async () => {
+    const analysis = await intentAnalyzer.analyzeIntent(
+      'Set my groceries budget to $350 a month'
+    );
+
+    expect(analysis).toMatchObject({
+      intent: 'financial.update_budget',
+      module: 'FINANCIAL',
+      requiresAction: true,
+      suggestedActions: [
+        {
+          type: 'FINANCIAL',
+          action: 'UPDATE_BUDGET',
+          params: { category: 'groceries', monthlyAmount: 350 },
+        },
+      ],
+    });
+  });
+
+  it('should handle Spanish requests', async () => {
+    const analysis = await intentAnalyzer.analyzeIntent('tengo 2 dependientes y me mudé a TX');
+
+    expect(analysis.suggestedActions).toEqual([
+      { type: 'TAX', action: 'UPDATE_PROFILE', params: { dependents: 2, state: 'TX' } },
+    ]);
+  });
+
+  it('should not propose actions when required entities are missing', async () => {
+    const analysis = await intentAnalyzer.analyzeIntent('update my budget');
+
+    expect(analysis.module).toBe('FINANCIAL');
+    expect(analysis.suggestedActions).toEqual([]);
+  });
+
+  it('should treat off-topic messages as general conversation', async () => {
+    const analysis = await intentAnalyzer.analyzeIntent('how do I get rich quick');
+
+    expect(analysis).toMatchObject({ intent: 'general', module: null, requiresAction: false });
+  });
+});
+
+describe('isExplicitRequest', () => {
+  it('should only accept commands, not questions or statements', () => {
+    expect(isExplicitRequest('Set my rent budget to $900')).toBe(true);
+    expect(isExplicitRequest('Please submit form 1040 for 2024')).toBe(true);
+    expect(isExplicitRequest('Añade una meta de ahorro de 5000 dólares')).toBe(true);
+    expect(isExplicitRequest('how do I file form 1040?')).toBe(false);
+    expect(isExplicitRequest('¿Puedo deducir mi oficina en casa')).toBe(false);
+    expect(isExplicitRequest('My rent is 1500 dollars a month')).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { FinancialMemory } from '../../interfaces/memory.types';
+import {
+  DEFAULT_LIFECYCLE_CONFIG,
+  buildConsolidatedMemory,
+  findConsolidationClusters,
+  inferFrequency,
+  memoryStrength,
+  planRetention,
+} from '../memory-lifecycle';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 5, 1);
+const config = { ...DEFAULT_LIFECYCLE_CONFIG, halfLifeDays: 30, maxMemoriesPerUser: 3 };
+
+function memory(id: string, overrides: Partial<FinancialMemory> = {}): FinancialMemory {
+  return {
+    id,
+    type: 'EXPENSE',
+    description: `memory ${id}`,
+    confidence: 0.8,
+    timestamp: NOW - 60 * DAY,
+    ...overrides,
+  };
+}
+
+describe('memory lifecycle', () => {
+  it('should decay slower for important and frequently used memories', () => {
+    const idle = memory('a', { lastAccessed: NOW - 30 * DAY });
+
+    expect(memoryStrength(idle, config, NOW)).toBeCloseTo(0.5, 5);
+    expect(memoryStrength({ ...idle, importance: 3 }, config, NOW)).toBeGreaterThan(2.3);
+    expect(memoryStrength({ ...idle, accessCount: 4 }, config, NOW)).toBeGreaterThan(
+      memoryStrength(idle, config, NOW)
+    );
+    expect(memoryStrength({ ...idle, pinned: true }, config, NOW)).toBe(Infinity);
+  });
+
+  it('should forget faded memories and cap the rest, never touching pinned ones', () => {
+    const memories = [
+      memory('faded', { lastAccessed: NOW - 400 * DAY }),
+      memory('pinned', { lastAccessed: NOW - 400 * DAY, pinned: true }),
+      memory('weak', { lastAccessed: NOW - 40 * DAY }),
+      memory('strong', { lastAccessed: NOW - DAY, importance: 4 }),
+      memory('fresh', { lastAccessed: NOW }),
+    ];
+
+    expect(planRetention(memories, config, NOW)).toEqual({
+      forget: ['faded'],
+      capped: ['weak'],
+    });
+  });
+
+  it('should cluster similar old episodic memories of the same type', () => {
+    const vector = (x: number, y: number) => [x, y];
+    const memories = [
+      memory('rent-1', { embedding: vector(1, 0), timestamp: NOW - 90 * DAY }),
+      memory('rent-2', { embedding: vector(0.95, 0.05), timestamp: NOW - 60 * DAY }),
+      memory('rent-3', { embedding: vector(0.9, 0.1), timestamp: NOW - 30 * DAY }),
+      memory('rent-new', { embedding: vector(1, 0), timestamp: NOW - DAY }),
+      memory('rent-pinned', { embedding: vector(1, 0), pinned: true }),
+      memory('rent-goal', { embedding: vector(1, 0), type: 'GOAL' }),
+      memory('travel', { embedding: vector(0, 1) }),
+    ];
+
+    const clusters = findConsolidationClusters(memories, config, NOW);
+
+    expect(clusters.map((cluster) => cluster.map((item) => item.id))).toEqual([
+      ['rent-1', 'rent-2', 'rent-3'],
+    ]);
+  });
+
+  it('should build a consolidated memory from a cluster', () => {
+    const cluster = [0, 1, 2].map((month) =>
+      memory(`rent-${month}`, {
+        amount: 1200 + month * 10,
+        category: 'housing',
+        importance: 2,
+        mentions: month === 0 ? 2 : 1,
+        timestamp: NOW - (90 - month * 30) * DAY,
+      })
+    );
+
+    const consolidated = buildConsolidatedMemory(
+      cluster,
+      { type: 'HABIT', description: 'Pays about 1,210 in rent every month' },
+      'habit-1',
+      NOW
+    );
+
+    expect(consolidated).toMatchObject({
+      id: 'habit-1',
+      type: 'HABIT',
+      amount: 1210,
+      category: 'housing',
+      frequency: 'MONTHLY',
+      importance: 3,
+      mentions: 4,
+      consolidatedFrom: 3,
+      firstSeen: NOW - 90 * DAY,
+    });
+    expect(inferFrequency([0, 365 * DAY, 730 * DAY])).toBe('YEARLY');
+    expect(inferFrequency([0, DAY])).toBeUndefined();
+  });
+});
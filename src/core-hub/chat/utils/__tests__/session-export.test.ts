@@ -0,0 +1,107 @@
+import { describe, beforeEach, it, expect } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import { contextService } from '../../services/context.service';
+import { InMemorySessionStore } from '../../stores/memory-session.store';
+import { ChatSession } from '../../interfaces/chat.types';
+import { renderMarkdown, toSessionExport } from '../session-export';
+import { AppError } from '@/shared/utils/error-handler';
+
+const EXPORTED_AT = Date.UTC(2025, 2, 1, 12, 0);
+
+async function seedSession(): Promise<ChatSession> {
+  const session = await contextService.createNewSession('user-1', 'general', 'W-2 review');
+  const seeded: ChatSession = {
+    ...session,
+    locale: 'en',
+    summary: { text: 'The user filed last year as single.', through: 1, updatedAt: 1 },
+    messages: [
+      {
+        id: 'm1',
+        role: 'user',
+        content: 'Here is my W-2, please categorize it',
+        timestamp: Date.UTC(2025, 2, 1, 10, 0),
+        metadata: { attachments: [{ name: 'w2.pdf', type: 'application/pdf', documentId: 'doc-42' }] },
+      },
+      {
+        id: 'm2',
+        role: 'assistant',
+        content: 'Done — I filed it under Taxes/2024.',
+        timestamp: Date.UTC(2025, 2, 1, 10, 1),
+        metadata: {
+          actions: [
+            { type: 'SYSTEM', action: 'moveFile', params: { to: 'Taxes/2024' }, status: 'executed' },
+            { type: 'SYSTEM', action: 'deleteFile', params: { path: 'w2.pdf' }, status: 'rejected' },
+          ],
+        },
+      },
+    ],
+  };
+  await contextService.saveSession(seeded);
+  return seeded;
+}
+
+describe('Session export and import', () => {
+  beforeEach(() => {
+    contextService.setRepository(new InMemorySessionStore());
+  });
+
+  it('should render attachments and executed actions to Markdown', async () => {
+    const session = await seedSession();
+    const markdown = renderMarkdown(session, 'en', EXPORTED_AT);
+
+    expect(markdown).toContain('# W-2 review');
+    expect(markdown).toContain('- **Exported:** 2025-03-01 12:00 UTC');
+    expect(markdown).toContain('> - w2.pdf (application/pdf, document doc-42)');
+    expect(markdown).toContain('> - `SYSTEM.deleteFile [rejected] {"path":"w2.pdf"}`');
+
+    const executed = markdown.slice(markdown.indexOf('## Executed actions'));
+    expect(executed).toContain('`SYSTEM.moveFile` {"to":"Taxes/2024"}');
+    expect(executed).not.toContain('deleteFile');
+  });
+
+  it('should export JSON and restore it into a new session', async () => {
+    const session = await seedSession();
+    const file = await contextService.exportSession(session.id, 'user-1', 'json');
+    expect(file).toMatchObject({ filename: 'w-2-review.json', contentType: 'application/json' });
+
+    const imported = await contextService.importSession('user-2', JSON.parse(file.body as string));
+
+    expect(imported.id).not.toBe(session.id);
+    expect(imported.userId).toBe('user-2');
+    expect(imported.title).toBe('W-2 review');
+    expect(imported.summary).toEqual(session.summary);
+    expect(imported.messages.map((message) => message.id)).not.toContain('m1');
+    expect(toSessionExport(imported, EXPORTED_AT).session).toEqual(
+      toSessionExport(session, EXPORTED_AT).session
+    );
+    expect(await contextService.listSessions('user-2')).toHaveLength(1);
+  });
+
+  it('should reject imports that do not match the export schema', async () => {
+    await expect(
+      contextService.importSession('user-1', { format: 'other', session: { messages: [] } })
+    ).rejects.toMatchObject({ code: 'INVALID_SESSION_EXPORT', status: 400 });
+    await expect(contextService.importSession('user-1', null)).rejects.toBeInstanceOf(AppError);
+    expect(await contextService.listSessions('user-1')).toEqual([]);
+  });
+
+  it('should render a PDF transcript', async () => {
+    const session = await seedSession();
+    const file = await contextService.exportSession(session.id, 'user-1', 'pdf', 'es');
+
+    expect(file.contentType).toBe('application/pdf');
+    const bytes = file.body as Uint8Array;
+    expect(Buffer.from(bytes.slice(0, 5)).toString()).toBe('%PDF-');
+
+    const pdf = await PDFDocument.load(bytes);
+    expect(pdf.getTitle()).toBe('W-2 review');
+    expect(pdf.getPageCount()).toBe(1);
+  });
+
+  it('should not export another user session', async () => {
+    const session = await seedSession();
+    await expect(
+      contextService.exportSession(session.id, 'user-2', 'markdown')
+    ).rejects.toMatchObject({ code: 'SESSION_NOT_FOUND' });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { FixtureProvider } from '@/core-hub/ai/providers/fixture.provider';
+import { TaxOptimizationService } from '@/modules/taxAdvisor/services/tax-optimization.service';
+import { parseChatCommand, parseWhatIfCommand } from '../chat-commands';
+import { formatWhatIfReport } from '../what-if-report';
+
+describe('parseWhatIfCommand', () => {
+  it('should parse retirement contributions, stock sales and income', () => {
+    expect(parseWhatIfCommand('What if I contribute 6000 to an IRA?')).toEqual([
+      { type: 'RETIREMENT_CONTRIBUTION', account: 'IRA', amount: 6000 },
+    ]);
+    expect(parseWhatIfCommand('what if I put $5,000 more in my 401(k) and sell 10k of stock')).toEqual([
+      { type: 'RETIREMENT_CONTRIBUTION', account: '401K', amount: 5000 },
+      { type: 'SELL_STOCK', proceeds: 10000, longTerm: true },
+    ]);
+    expect(parseWhatIfCommand('What if I earn 20k from freelance work?')).toEqual([
+      { type: 'INCOME', source: 'SELF_EMPLOYMENT', amount: 20000 },
+    ]);
+  });
+
+  it('should keep Roth contributions apart from deductible ones', () => {
+    expect(parseWhatIfCommand('What if I contribute 6000 to a Roth IRA?')).toEqual([
+      { type: 'RETIREMENT_CONTRIBUTION', account: 'IRA', amount: 6000, roth: true },
+    ]);
+    expect(parseWhatIfCommand('what if I put 5k in my roth 401(k)')).toEqual([
+      { type: 'RETIREMENT_CONTRIBUTION', account: '401K', amount: 5000, roth: true },
+    ]);
+  });
+
+  it('should parse filing status changes with the spouse income', () => {
+    expect(parseWhatIfCommand('what if we file jointly and my spouse earns 40,000')).toEqual([
+      { type: 'FILING_STATUS', filingStatus: 'MARRIED_FILING_JOINTLY', spouseWages: 40000 },
+    ]);
+  });
+
+  it('should parse Spanish questions', () => {
+    expect(parseWhatIfCommand('¿Y si aporto 6.000 a una IRA y tengo otro hijo?')).toEqual([
+      { type: 'RETIREMENT_CONTRIBUTION', account: 'IRA', amount: 6000 },
+      { type: 'DEPENDENTS', qualifyingChildren: 1 },
+    ]);
+    expect(parseWhatIfCommand('¿Qué pasa si vendo 10 mil en acciones a corto plazo?')).toEqual([
+      { type: 'SELL_STOCK', proceeds: 10000, longTerm: false },
+    ]);
+  });
+
+  it('should leave questions it cannot fully parse to the model', () => {
+    expect(parseWhatIfCommand('What if I move to Texas?')).toBeNull();
+    expect(parseWhatIfCommand('what if I contribute 6000 to an IRA and buy a house')).toBeNull();
+    expect(parseWhatIfCommand('How much can I contribute to an IRA?')).toBeNull();
+    expect(parseChatCommand('what if I contribute 6000 to an IRA')).toBe('WHAT_IF');
+  });
+});
+
+describe('formatWhatIfReport', () => {
+  it('should render the scenarios side by side with rates and notes', async () => {
+    const scenarios = await new TaxOptimizationService(new FixtureProvider()).simulateScenarios(
+      { taxYear: 2024, filingStatus: 'SINGLE', wages: 75000, federalWithholding: 8000 },
+      [{ type: 'SELL_STOCK', proceeds: 10000 }],
+      { explain: false }
+    );
+    const report = formatWhatIfReport(scenarios, 'en');
+
+    expect(report).toContain('Simulated 2024 federal income tax, filing as single');
+    expect(report).toContain('| Current situation | $8,347 | Owe $347 | 22% | 11.13% | — |');
+    expect(report).toContain('| Sell $10,000 of stock | $9,847 | Owe $1,847 | 22% | 11.58% | -$1,500 |');
+    expect(report).toContain('- Without a cost basis, the whole sale was treated as a gain.');
+    expect(formatWhatIfReport(scenarios, 'es')).toContain('| Situación actual |');
+  });
+});
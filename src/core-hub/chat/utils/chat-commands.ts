@@ -0,0 +1,159 @@
+// src/core-hub/chat/utils/chat-commands.ts
+
+import { FilingStatus, TaxDelta } from '@/modules/taxAdvisor/interfaces/tax-engine.types';
+
+export type ChatCommand = 'UNDO' | 'REDO' | 'WHAT_IF';
+
+// Comandos que se atienden sin pasar por el modelo
+const COMMAND_PATTERNS: Array<[ChatCommand, RegExp]> = [
+  ['UNDO', /^(undo( (the )?last action)?|deshacer( (la )?[uú]ltima acci[oó]n)?)$/],
+  ['REDO', /^(redo( (the )?last action)?|rehacer( (la )?[uú]ltima acci[oó]n)?)$/],
+];
+
+export function parseChatCommand(message: string): ChatCommand | null {
+  const normalized = message
+    .trim()
+    .toLowerCase()
+    .replace(/^\//, '')
+    .replace(/[.!¡]+/g, '')
+    .replace(/\s+/g, ' ');
+
+  const match = COMMAND_PATTERNS.find(([, pattern]) => pattern.test(normalized));
+  if (match) {
+    return match[0];
+  }
+  return parseWhatIfCommand(message) ? 'WHAT_IF' : null;
+}
+
+const WHAT_IF_PREFIX = /^(?:what if|what happens if|what would happen if|y si|que pasa si|que pasaria si)\s+(.+)$/;
+const AMOUNT = String.raw`\$?\s?(\d[\d.,]*)\s?(k|mil)?\b`;
+
+const CONTRIBUTION = new RegExp(
+  String.raw`\b(?:contribute|put|add|deposit|save|aporto|aportara|aportase|pongo|metiera|meto|ahorro)\b.*?${AMOUNT}.*?\b(401\s?\(?k\)?|ira)`
+);
+const STOCK_SALE = new RegExp(
+  String.raw`\b(?:sell|sold|vendo|vendiera|vendiese)\b.*?${AMOUNT}.*?\b(?:stocks?|shares|acciones)\b`
+);
+const SHORT_TERM = /short[- ]term|less than a year|corto plazo|menos de un ano/;
+const INCOME = new RegExp(
+  String.raw`\b(?:earn|make|get paid|get a raise of|gano|ganara|ganase|cobro|cobrara)\b.*?${AMOUNT}`
+);
+const SPOUSE_INCOME = new RegExp(
+  String.raw`\b(?:spouse|wife|husband|partner|conyuge|pareja|esposa|esposo|marido|mujer)\b.*?${AMOUNT}`
+);
+const SPOUSE_CLAUSE = /^(?:my |mi )?(?:spouse|wife|husband|partner|conyuge|pareja|esposa|esposo|marido|mujer)\b/;
+const CHILDREN = /\b(?:have|add|had|tengo|tuviera|tuviese)\b.*?\b(a|an|another|one|two|three|\d+|un|una|otro|otra|dos|tres)\s(?:more\s)?(?:child|children|kids?|baby|babies|hijos?|hijas?|bebes?)\b/;
+
+const COUNT_WORDS: Record<string, number> = {
+  a: 1, an: 1, another: 1, one: 1, un: 1, una: 1, otro: 1, otra: 1, two: 2, dos: 2, three: 3, tres: 3,
+};
+
+const FILING_STATUS_PATTERNS: Array<[FilingStatus, RegExp]> = [
+  ['MARRIED_FILING_JOINTLY', /\b(?:jointly|mfj|married filing joint|get married|en conjunto|conjuntamente|me caso|casado)\b/],
+  ['MARRIED_FILING_SEPARATELY', /\b(?:separately|mfs|por separado)\b/],
+  ['HEAD_OF_HOUSEHOLD', /\b(?:head of household|hoh|cabeza de familia)\b/],
+  ['SINGLE', /\b(?:single|soltero|soltera)\b/],
+];
+const FILING_VERB = /\b(?:file|filing|switch|change|get married|declaro|declarara|declarase|presento|me caso|cambio)\b/;
+
+// '6000', '6,000', '6.000' (es), '6k', '10 mil'
+function parseAmount(digits: string, multiplier?: string): number | null {
+  const normalized = /^\d{1,3}(\.\d{3})+$/.test(digits) ? digits.replace(/\./g, '') : digits.replace(/,/g, '');
+  const value = Number(normalized.replace(/\.$/, ''));
+  if (!Number.isFinite(value) || value <= 0) {
+    return null;
+  }
+  return multiplier ? value * 1000 : value;
+}
+
+function parseClause(clause: string): TaxDelta | null {
+  const contribution = clause.match(CONTRIBUTION);
+  if (contribution) {
+    const amount = parseAmount(contribution[1], contribution[2]);
+    const account = contribution[3].startsWith('401') ? '401K' : 'IRA';
+    // "a Roth IRA", "my roth 401(k)": después de impuestos, sin deducción
+    const roth = /\broth\b/.test(clause);
+    return amount ? { type: 'RETIREMENT_CONTRIBUTION', account, amount, ...(roth ? { roth } : {}) } : null;
+  }
+
+  const sale = clause.match(STOCK_SALE);
+  if (sale) {
+    const proceeds = parseAmount(sale[1], sale[2]);
+    return proceeds ? { type: 'SELL_STOCK', proceeds, longTerm: !SHORT_TERM.test(clause) } : null;
+  }
+
+  if (FILING_VERB.test(clause)) {
+    const status = FILING_STATUS_PATTERNS.find(([, pattern]) => pattern.test(clause));
+    if (status) {
+      const spouse = clause.match(SPOUSE_INCOME);
+      const spouseWages = spouse ? parseAmount(spouse[1], spouse[2]) : null;
+      return {
+        type: 'FILING_STATUS',
+        filingStatus: status[0],
+        ...(spouseWages ? { spouseWages } : {}),
+      };
+    }
+  }
+
+  const children = clause.match(CHILDREN);
+  if (children) {
+    const count = COUNT_WORDS[children[1]] ?? Number(children[1]);
+    return count > 0 ? { type: 'DEPENDENTS', qualifyingChildren: count } : null;
+  }
+
+  const income = clause.match(INCOME);
+  if (income) {
+    const amount = parseAmount(income[1], income[2]);
+    const source = /freelanc|self[- ]employ|side|consult|business|cuenta propia|autonomo|negocio/.test(clause)
+      ? 'SELF_EMPLOYMENT'
+      : /interest|intereses/.test(clause)
+        ? 'INTEREST'
+        : 'WAGES';
+    return amount ? { type: 'INCOME', source, amount } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Cambios de una pregunta "what if" ("what if I contribute 6000 to an IRA",
+ * "¿y si vendo 10k en acciones y declaro en conjunto?"). Si alguna parte no se
+ * entiende, devuelve null y el mensaje lo atiende el modelo.
+ */
+export function parseWhatIfCommand(message: string): TaxDelta[] | null {
+  const normalized = message
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase()
+    .replace(/^\//, '')
+    .replace(/[¿?!¡]+/g, '')
+    .replace(/\s+/g, ' ');
+
+  const match = normalized.match(WHAT_IF_PREFIX);
+  if (!match) {
+    return null;
+  }
+
+  const deltas: TaxDelta[] = [];
+  for (const clause of match[1].replace(/\.$/, '').split(/,?\s(?:and|y|e)\s(?:if\s|si\s)?/)) {
+    // "file jointly and my spouse earns 40k": el sueldo del cónyuge completa el cambio anterior
+    const previous = deltas[deltas.length - 1];
+    const spouse = SPOUSE_CLAUSE.test(clause) ? clause.match(SPOUSE_INCOME) : null;
+    if (spouse && previous?.type === 'FILING_STATUS') {
+      const spouseWages = parseAmount(spouse[1], spouse[2]);
+      if (!spouseWages) {
+        return null;
+      }
+      previous.spouseWages = spouseWages;
+      continue;
+    }
+
+    const delta = parseClause(clause.trim());
+    if (!delta) {
+      return null;
+    }
+    deltas.push(delta);
+  }
+  return deltas;
+}
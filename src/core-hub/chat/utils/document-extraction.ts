@@ -0,0 +1,139 @@
+// src/core-hub/chat/utils/document-extraction.ts
+
+import { z } from 'zod';
+import {
+  DOCUMENT_FIELD_LINES,
+  DocumentFieldSet,
+  ExtractedField,
+  ProcessedDocument,
+  ProfileDocumentType,
+} from '../interfaces/financial-profile.types';
+
+const PROFILE_DOCUMENT_TYPES: ProfileDocumentType[] = ['W2', '1099', 'BANK_STATEMENT'];
+
+const amount = z.union([
+  z.number(),
+  z
+    .string()
+    .transform((value) => Number(value.replace(/[$,\s]/g, '')))
+    .pipe(z.number()),
+]);
+
+export const documentExtractionSchema = z.object({
+  issuer: z.string().optional(),
+  taxYear: z.coerce.number().int().optional(),
+  variant: z.enum(['NEC', 'MISC', 'INT', 'DIV', 'OTHER']).optional(),
+  accountType: z.enum(['CHECKING', 'SAVINGS', 'CREDIT_CARD']).optional(),
+  periodStart: z.string().optional(),
+  periodEnd: z.string().optional(),
+  fields: z
+    .record(
+      z.object({
+        value: amount,
+        confidence: z.number().min(0).max(1).optional(),
+      })
+    )
+    .default({}),
+  transactions: z
+    .array(
+      z.object({
+        date: z.string(),
+        description: z.string(),
+        amount,
+        category: z.string().optional(),
+      })
+    )
+    .default([]),
+});
+
+export type DocumentExtraction = z.infer<typeof documentExtractionSchema>;
+
+// Tipos de DocumentService que alimentan el perfil financiero
+export function toProfileDocumentType(documentType?: string): ProfileDocumentType | null {
+  // 'w-2', 'Bank statement' -> 'W2', 'BANKSTATEMENT'
+  const normalized = documentType?.trim().toUpperCase().replace(/[\s_-]/g, '');
+  return PROFILE_DOCUMENT_TYPES.find((type) => type.replace('_', '') === normalized) ?? null;
+}
+
+export function buildExtractionPrompt(documentType: ProfileDocumentType, content: string): string {
+  const fieldSets: DocumentFieldSet[] =
+    documentType === '1099'
+      ? ['1099-NEC', '1099-MISC', '1099-INT', '1099-DIV']
+      : [documentType];
+  const fields = fieldSets
+    .map((set) =>
+      Object.entries(DOCUMENT_FIELD_LINES[set])
+        .map(([name, line]) => `- ${name}: ${line}`)
+        .join('\n')
+    )
+    .join('\n');
+  const extra =
+    documentType === '1099'
+      ? '"variant": "NEC" | "MISC" | "INT" | "DIV" | "OTHER", '
+      : documentType === 'BANK_STATEMENT'
+        ? '"accountType": "CHECKING" | "SAVINGS" | "CREDIT_CARD", ' +
+          '"periodStart": "YYYY-MM-DD", "periodEnd": "YYYY-MM-DD", ' +
+          '"transactions": [{"date": "YYYY-MM-DD", "description": "...", "amount": -12.5, "category": "groceries"}], '
+        : '';
+
+  return `Extract the amounts of this ${documentType} document. Only use these fields, and only when the document shows them:
+${fields}
+
+Give each field a confidence between 0 and 1. Outflows in transactions are negative; use "transfer" or "credit_card_payment" as the category for movements between the user's own accounts.
+Answer only with JSON: {"issuer": "...", "taxYear": 2024, ${extra}"fields": {"<field>": {"value": 0, "confidence": 0.9}}}
+
+Document content:
+${content}`;
+}
+
+// Solo se conservan los campos conocidos, con la casilla de la que salen;
+// meta.confidence se usa cuando el modelo no da la confianza de un campo
+export function toProcessedDocument(
+  documentType: ProfileDocumentType,
+  extraction: DocumentExtraction,
+  meta: { id: string; userId: string; fileName: string; processedAt: number; confidence: number }
+): ProcessedDocument {
+  const variant = extraction.variant ?? 'OTHER';
+  const fieldSet: DocumentFieldSet = documentType === '1099' ? `1099-${variant}` : documentType;
+  const lines: Record<string, string> = DOCUMENT_FIELD_LINES[fieldSet];
+
+  const fields: Record<string, ExtractedField> = {};
+  for (const [name, field] of Object.entries(extraction.fields)) {
+    if (lines[name] && Number.isFinite(field.value)) {
+      fields[name] = {
+        value: field.value,
+        line: lines[name],
+        confidence: field.confidence ?? meta.confidence,
+      };
+    }
+  }
+
+  const base = {
+    id: meta.id,
+    userId: meta.userId,
+    fileName: meta.fileName,
+    processedAt: meta.processedAt,
+    issuer: extraction.issuer,
+    taxYear: extraction.taxYear,
+    fields,
+  };
+  switch (documentType) {
+    case 'W2':
+      return { ...base, documentType };
+    case '1099':
+      return { ...base, documentType, variant };
+    case 'BANK_STATEMENT': {
+      // Sin periodo explícito, el de los movimientos o el día en que se procesó
+      const dates = extraction.transactions.map((transaction) => transaction.date).sort();
+      const processedOn = new Date(meta.processedAt).toISOString().slice(0, 10);
+      return {
+        ...base,
+        documentType,
+        accountType: extraction.accountType ?? 'CHECKING',
+        periodStart: extraction.periodStart ?? dates[0] ?? processedOn,
+        periodEnd: extraction.periodEnd ?? dates[dates.length - 1] ?? processedOn,
+        transactions: extraction.transactions,
+      };
+    }
+  }
+}
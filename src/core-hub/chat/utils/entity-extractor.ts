@@ -0,0 +1,129 @@
+// src/core-hub/chat/utils/entity-extractor.ts
+
+import { ExtractedEntities } from '../interfaces/intent.types';
+
+// Formularios del IRS: 1040 y variantes, W-2/W-4/W-9, 1099-*, anexos
+const FORM_PATTERN =
+  /\b(1040(?:-?(?:SR|NR|ES|X))?|W-?[249]|1099(?:-?(?:NEC|MISC|INT|DIV|B|R|K|G))?|schedule\s+(?:[A-F]|SE|EIC)|anexo\s+(?:[A-F]|SE)|8949|4868)\b/gi;
+const DATE_PATTERN = /\b(\d{4})-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])\b/g;
+// $1,500.00 | 1500 dólares | $1.5k | 400 usd
+const AMOUNT_PATTERN =
+  /(?:\$\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{1,2}))?\s*(k)?\b)|(?:\b(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{1,2}))?\s*(k)?\s*(?:dollars?|d[oó]lares|usd)\b)/gi;
+const YEAR_PATTERN = /\b(19[5-9]\d|20\d{2})\b/g;
+const TRANSACTION_PATTERN =
+  /\b(?:transaction|transacci[oó]n|txn|cargo|charge)\s*(?:id|#|n[uú]mero|number)?\s*[:#]?\s*([A-Z]{0,4}-?\d{4,}[A-Z0-9-]*)\b/i;
+const DEPENDENTS_PATTERN =
+  /\b(\d{1,2})\s+(?:dependents?|dependientes?|hijos?|children|kids)\b/i;
+const STATE_PATTERN =
+  /\b(?:to|in|a|en|state|estado)\s+([A-Z]{2})\b/;
+
+const CATEGORIES: Record<string, string[]> = {
+  rent: ['rent', 'alquiler', 'renta', 'mortgage', 'hipoteca'],
+  groceries: ['grocery', 'groceries', 'comida', 'supermercado', 'food'],
+  dining: ['dining', 'restaurant', 'restaurantes', 'restaurante'],
+  transportation: ['transportation', 'transport', 'transporte', 'gas', 'gasolina'],
+  utilities: ['utilities', 'servicios', 'electricity', 'luz'],
+  entertainment: ['entertainment', 'ocio', 'entretenimiento'],
+  travel: ['travel', 'viajes', 'viaje'],
+  healthcare: ['health', 'healthcare', 'salud', 'medical', 'médicos'],
+  education: ['education', 'educación', 'tuition', 'colegiatura'],
+};
+
+const PROVIDERS: Record<string, string[]> = {
+  Visa: ['visa'],
+  Mastercard: ['mastercard'],
+  Amex: ['amex', 'american express'],
+  Discover: ['discover'],
+  Chase: ['chase'],
+  'Capital One': ['capital one'],
+  Citi: ['citi', 'citibank'],
+};
+
+const FILING_STATUSES: Array<[string, RegExp]> = [
+  ['MARRIED_JOINT', /married filing joint|jointly|casad[oa].*conjunt/i],
+  ['MARRIED_SEPARATE', /married filing separate|separately|casad[oa].*separad/i],
+  ['HEAD_OF_HOUSEHOLD', /head of household|cabeza de familia/i],
+  ['QUALIFYING_SURVIVOR', /qualifying (?:surviving spouse|survivor|widow)|viud[oa]/i],
+  ['SINGLE', /\bsingle\b|solter[oa]/i],
+];
+
+const BUREAUS = ['EQUIFAX', 'EXPERIAN', 'TRANSUNION'];
+
+const US_STATES = new Set(
+  ('AL AK AZ AR CA CO CT DE DC FL GA HI ID IL IN IA KS KY LA ME MD MA MI MN MS MO ' +
+    'MT NE NV NH NJ NM NY NC ND OH OK OR PA RI SC SD TN TX UT VT VA WA WV WI WY').split(' ')
+);
+
+// Sustituye las entidades por marcadores para que el clasificador generalice
+export function maskEntities(text: string): string {
+  return text
+    .replace(FORM_PATTERN, ' __form__ ')
+    .replace(DATE_PATTERN, ' __date__ ')
+    .replace(AMOUNT_PATTERN, ' __amount__ ')
+    .replace(YEAR_PATTERN, ' __year__ ');
+}
+
+export function extractEntities(text: string): ExtractedEntities {
+  const formIds = Array.from(text.matchAll(FORM_PATTERN), (match) =>
+    normalizeFormId(match[1])
+  );
+  const dates = Array.from(text.matchAll(DATE_PATTERN), (match) => match[0]);
+
+  // Los importes y años se buscan después de quitar formularios y fechas
+  const withoutForms = text.replace(FORM_PATTERN, ' ').replace(DATE_PATTERN, ' ');
+  const amounts = Array.from(withoutForms.matchAll(AMOUNT_PATTERN), parseAmount);
+  const withoutAmounts = withoutForms.replace(AMOUNT_PATTERN, ' ');
+  const years = Array.from(withoutAmounts.matchAll(YEAR_PATTERN), (match) =>
+    Number(match[1])
+  );
+
+  const lowercase = text.toLowerCase();
+  const dependents = text.match(DEPENDENTS_PATTERN);
+
+  return {
+    amounts,
+    years,
+    formIds,
+    dates,
+    category: findKeyword(lowercase, CATEGORIES),
+    provider: findKeyword(lowercase, PROVIDERS),
+    transactionId: text.match(TRANSACTION_PATTERN)?.[1]?.toUpperCase(),
+    filingStatus: FILING_STATUSES.find(([, pattern]) => pattern.test(text))?.[0],
+    dependents: dependents ? Number(dependents[1]) : undefined,
+    state: findState(text),
+    bureau: BUREAUS.find((bureau) => lowercase.includes(bureau.toLowerCase())),
+  };
+}
+
+function findState(text: string): string | undefined {
+  const state = text.match(STATE_PATTERN)?.[1];
+  return state && US_STATES.has(state) ? state : undefined;
+}
+
+function parseAmount(match: RegExpMatchArray): number {
+  const whole = match[1] ?? match[4];
+  const cents = match[2] ?? match[5];
+  const thousands = match[3] ?? match[6];
+  const value = Number(`${whole.replace(/,/g, '')}${cents ? `.${cents}` : ''}`);
+  return thousands ? value * 1000 : value;
+}
+
+function normalizeFormId(raw: string): string {
+  const upper = raw.toUpperCase().replace(/\s+/g, ' ');
+  if (upper.startsWith('ANEXO')) {
+    return upper.replace('ANEXO', 'SCHEDULE');
+  }
+  // W2 -> W-2, 1099NEC -> 1099-NEC, 1040SR -> 1040-SR
+  return upper.replace(/^(W)-?(\d)$/, '$1-$2').replace(/^(1040|1099)-?([A-Z]+)$/, '$1-$2');
+}
+
+function findKeyword(
+  lowercase: string,
+  lexicon: Record<string, string[]>
+): string | undefined {
+  return Object.keys(lexicon).find((key) =>
+    lexicon[key].some((keyword) =>
+      new RegExp(`(^|[^\\p{L}])${keyword}($|[^\\p{L}])`, 'u').test(lowercase)
+    )
+  );
+}
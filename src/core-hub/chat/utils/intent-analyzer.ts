@@ -2,18 +2,160 @@
 
 import { ModuleAction } from '@/shared/types';
 import { logger } from '@/shared/utils/logger';
+import {
+  ExtractedEntities,
+  IntentDefinition,
+  IntentModule,
+  LabelledUtterance,
+} from '../interfaces/intent.types';
+import { extractEntities } from './entity-extractor';
+import { NaiveBayesIntentClassifier } from './intent-classifier';
+import { INTENT_UTTERANCES } from './intent-dataset';
 
 export interface IntentAnalysis {
-  module: 'TAX' | 'FINANCIAL' | 'CREDIT' | null;
+  intent: string;
+  module: IntentModule | null;
   confidence: number;
   requiresAction: boolean;
   suggestedActions: ModuleAction[];
+  entities: ExtractedEntities;
+}
+
+// Por debajo de este umbral la intención se trata como conversación general
+const MIN_CONFIDENCE = 0.5;
+
+// Sin año explícito se asume la declaración del ejercicio anterior
+const defaultTaxYear = () => new Date().getFullYear() - 1;
+
+const INTENT_DEFINITIONS: IntentDefinition[] = [
+  {
+    intent: 'tax.submit_form',
+    module: 'TAX',
+    action: 'SUBMIT_FORM',
+    buildParams: (entities) =>
+      entities.formIds.length > 0
+        ? { formId: entities.formIds[0], taxYear: entities.years[0] ?? defaultTaxYear() }
+        : null,
+  },
+  {
+    intent: 'tax.update_profile',
+    module: 'TAX',
+    action: 'UPDATE_PROFILE',
+    buildParams: (entities) => {
+      const params = {
+        ...(entities.filingStatus && { filingStatus: entities.filingStatus }),
+        ...(entities.dependents !== undefined && { dependents: entities.dependents }),
+        ...(entities.state && { state: entities.state }),
+      };
+      return Object.keys(params).length > 0 ? params : null;
+    },
+  },
+  {
+    intent: 'tax.calculate_deductions',
+    module: 'TAX',
+    action: 'CALCULATE_DEDUCTIONS',
+    buildParams: (entities) => ({ taxYear: entities.years[0] ?? defaultTaxYear() }),
+  },
+  { intent: 'tax.question', module: 'TAX' },
+  {
+    intent: 'financial.update_budget',
+    module: 'FINANCIAL',
+    action: 'UPDATE_BUDGET',
+    buildParams: (entities) =>
+      entities.category && entities.amounts.length > 0
+        ? { category: entities.category, monthlyAmount: entities.amounts[0] }
+        : null,
+  },
+  {
+    intent: 'financial.create_savings_goal',
+    module: 'FINANCIAL',
+    action: 'CREATE_SAVINGS_GOAL',
+    buildParams: (entities, message) =>
+      entities.amounts.length > 0
+        ? {
+            name: savingsGoalName(message),
+            targetAmount: entities.amounts[0],
+            ...(entities.dates[0] && { targetDate: entities.dates[0] }),
+          }
+        : null,
+  },
+  {
+    intent: 'financial.analyze_expenses',
+    module: 'FINANCIAL',
+    action: 'ANALYZE_EXPENSES',
+    buildParams: (entities) =>
+      entities.category ? { categories: [entities.category] } : {},
+  },
+  {
+    intent: 'credit.dispute_transaction',
+    module: 'CREDIT',
+    action: 'DISPUTE_TRANSACTION',
+    buildParams: (entities, message) =>
+      entities.transactionId
+        ? {
+            transactionId: entities.transactionId,
+            reason: message.trim(),
+            ...(entities.amounts[0] !== undefined && { amount: entities.amounts[0] }),
+          }
+        : null,
+  },
+  {
+    intent: 'credit.update_profile',
+    module: 'CREDIT',
+    action: 'UPDATE_CREDIT_PROFILE',
+    buildParams: (entities, message) => {
+      if (!entities.provider || entities.amounts.length === 0) {
+        return null;
+      }
+      const field = /limit|l[ií]mite/i.test(message) ? 'limit' : 'balance';
+      return { provider: entities.provider, [field]: entities.amounts[0] };
+    },
+  },
+  {
+    intent: 'credit.analyze_score',
+    module: 'CREDIT',
+    action: 'ANALYZE_SCORE',
+    buildParams: (entities) => (entities.bureau ? { bureau: entities.bureau } : {}),
+  },
+  { intent: 'general', module: null },
+];
+
+// Verbos con los que el usuario pide un cambio (sin tildes): "Set my rent budget to $900"
+const COMMAND_VERBS = new Set([
+  'set', 'change', 'update', 'raise', 'increase', 'lower', 'reduce', 'decrease', 'cut', 'adjust',
+  'create', 'start', 'open', 'add', 'make', 'submit', 'file', 'send', 'dispute', 'record', 'register',
+  'pon', 'ponme', 'cambia', 'actualiza', 'sube', 'aumenta', 'baja', 'reduce', 'ajusta', 'fija', 'establece',
+  'crea', 'abre', 'anade', 'agrega', 'presenta', 'envia', 'disputa', 'registra',
+]);
+
+// Una orden en imperativo; las preguntas y las afirmaciones no lo son
+export function isExplicitRequest(message: string): boolean {
+  const text = message.trim().replace(/^(?:please|por favor)[,\s]+/i, '');
+  if (text.startsWith('¿') || text.endsWith('?')) {
+    return false;
+  }
+  const [first = ''] = text.toLowerCase().normalize('NFD').replace(/\p{M}/gu, '').split(/[\s,]+/);
+  return COMMAND_VERBS.has(first);
+}
+
+function savingsGoalName(message: string): string {
+  const match = message.match(
+    /\b(?:for|para)\s+(?:(?:a|an|the|my|un|una|el|la|mi|las|los)\s+)?([\p{L}\s]{3,40}?)(?=\s*(?:$|[,.:]|\bof\b|\bde\b|\bby\b|\$|\d))/iu
+  );
+  const name = match?.[1]?.trim();
+  return name ? name.charAt(0).toUpperCase() + name.slice(1) : 'Savings goal';
 }
 
 export class IntentAnalyzer {
   private static instance: IntentAnalyzer;
+  private classifier = new NaiveBayesIntentClassifier();
+  private definitions = new Map(
+    INTENT_DEFINITIONS.map((definition) => [definition.intent, definition])
+  );
 
-  private constructor() {}
+  private constructor() {
+    this.classifier.train(INTENT_UTTERANCES);
+  }
 
   static getInstance(): IntentAnalyzer {
     if (!IntentAnalyzer.instance) {
@@ -22,75 +164,69 @@ export class IntentAnalyzer {
     return IntentAnalyzer.instance;
   }
 
+  // Reentrena con el conjunto base más frases adicionales (p. ej. correcciones)
+  train(additional: LabelledUtterance[] = []): void {
+    const unknown = additional.find((example) => !this.definitions.has(example.intent));
+    if (unknown) {
+      throw new Error(`Unknown intent: ${unknown.intent}`);
+    }
+    this.classifier.train([...INTENT_UTTERANCES, ...additional]);
+  }
+
   async analyzeIntent(message: string): Promise<IntentAnalysis> {
+    const entities = extractEntities(message);
+
     try {
-      // Palabras clave por módulo
-      const taxKeywords = ['impuestos', 'tax', '1040', 'W-2', 'declaración'];
-      const financialKeywords = [
-        'presupuesto',
-        'gastos',
-        'ahorros',
-        'inversión',
-      ];
-      const creditKeywords = ['crédito', 'score', 'disputa', 'reporte'];
-
-      const lowercaseMessage = message.toLowerCase();
-
-      // Determinar módulo
-      let moduleType: IntentAnalysis['module'] = null;
-      let confidence = 0;
-
-      if (this.containsKeywords(lowercaseMessage, taxKeywords)) {
-        moduleType = 'TAX';
-        confidence = 0.8;
-      } else if (this.containsKeywords(lowercaseMessage, financialKeywords)) {
-        moduleType = 'FINANCIAL';
-        confidence = 0.7;
-      } else if (this.containsKeywords(lowercaseMessage, creditKeywords)) {
-        moduleType = 'CREDIT';
-        confidence = 0.7;
-      }
+      const prediction = this.classifier.predict(message);
+      const definition =
+        prediction.confidence >= MIN_CONFIDENCE
+          ? this.definitions.get(prediction.intent)
+          : undefined;
 
-      // Determinar si requiere acción
-      const actionKeywords = [
-        'realizar',
-        'ejecutar',
-        'hacer',
-        'procesar',
-        'enviar',
-      ];
-      const requiresAction = this.containsKeywords(
-        lowercaseMessage,
-        actionKeywords
-      );
+      if (!definition) {
+        return this.generalIntent(prediction.confidence, entities);
+      }
 
+      const suggestedActions = this.getSuggestedActions(definition, entities, message);
       return {
-        module: moduleType,
-        confidence,
-        requiresAction,
-        suggestedActions: this.getSuggestedActions(moduleType, lowercaseMessage),
+        intent: definition.intent,
+        module: definition.module,
+        confidence: prediction.confidence,
+        requiresAction: suggestedActions.length > 0,
+        suggestedActions,
+        entities,
       };
     } catch (error) {
       logger.error('Error analyzing intent:', error);
-      return {
-        module: null,
-        confidence: 0,
-        requiresAction: false,
-        suggestedActions: [],
-      };
+      return this.generalIntent(0, entities);
     }
   }
 
-  private containsKeywords(message: string, keywords: string[]): boolean {
-    return keywords.some((keyword) => message.includes(keyword));
-  }
-
   private getSuggestedActions(
-    module: IntentAnalysis['module'],
+    definition: IntentDefinition,
+    entities: ExtractedEntities,
     message: string
   ): ModuleAction[] {
-    // Implementar lógica para sugerir acciones basadas en el módulo y mensaje
-    return [];
+    if (!definition.module || !definition.action || !definition.buildParams) {
+      return [];
+    }
+
+    // Sin los datos obligatorios no se propone nada; el modelo pedirá el resto
+    const params = definition.buildParams(entities, message);
+    return params
+      ? [{ type: definition.module, action: definition.action, params }]
+      : [];
+  }
+
+  private generalIntent(confidence: number, entities: ExtractedEntities): IntentAnalysis {
+    return {
+      intent: 'general',
+      module: null,
+      confidence,
+      requiresAction: false,
+      suggestedActions: [],
+      entities,
+    };
   }
 }
 
@@ -0,0 +1,190 @@
+// src/core-hub/chat/utils/intent-classifier.ts
+
+import { IntentPrediction, LabelledUtterance } from '../interfaces/intent.types';
+import { maskEntities } from './entity-extractor';
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'to', 'of', 'for', 'and', 'or', 'is', 'my', 'me', 'i', 'it',
+  'on', 'in', 'at', 'be', 'this', 'that', 'please', 'el', 'la', 'los', 'las', 'un',
+  'una', 'de', 'del', 'en', 'y', 'o', 'mi', 'mis', 'por', 'con', 'al', 'es', 'lo',
+]);
+
+// Rejilla de temperaturas candidatas para la calibración
+const TEMPERATURES = Array.from({ length: 25 }, (_, index) => 0.25 * 1.25 ** index);
+const CALIBRATION_FOLDS = 5;
+// Peso del prior frente a cada palabra conocida del mensaje
+const PRIOR_STRENGTH = 1;
+
+interface NaiveBayesModel {
+  classes: string[];
+  logPriors: Record<string, number>;
+  logLikelihoods: Record<string, Map<string, number>>;
+  // Probabilidad suavizada de un token visto en otra clase pero no en esta
+  unseenLogLikelihood: Record<string, number>;
+  vocabulary: Set<string>;
+}
+
+// Normaliza, enmascara entidades y genera unigramas y bigramas
+export function tokenize(text: string): string[] {
+  const words = maskEntities(text)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9_]+/)
+    .filter((word) => word.length > 0 && !STOPWORDS.has(word))
+    .map(stem);
+
+  const bigrams = words.slice(1).map((word, index) => `${words[index]} ${word}`);
+  return [...words, ...bigrams];
+}
+
+function stem(word: string): string {
+  if (word.startsWith('__') || word.length <= 4) {
+    return word;
+  }
+  return word.replace(/(es|s)$/, '');
+}
+
+/**
+ * Clasificador naive Bayes multinomial con suavizado de Laplace. Las
+ * probabilidades se calibran con temperature scaling: la temperatura se
+ * ajusta minimizando la log-verosimilitud negativa en validación cruzada,
+ * porque naive Bayes tiende a dar probabilidades demasiado extremas. Con
+ * pocas palabras conocidas, además, la probabilidad se acerca al prior.
+ */
+export class NaiveBayesIntentClassifier {
+  private model: NaiveBayesModel | null = null;
+  private temperature = 1;
+
+  constructor(private readonly alpha = 1) {}
+
+  train(examples: LabelledUtterance[]): void {
+    const tokenized = examples.map((example) => ({
+      intent: example.intent,
+      tokens: tokenize(example.text),
+    }));
+
+    this.model = this.fit(tokenized);
+    this.temperature = this.calibrate(tokenized);
+  }
+
+  getTemperature(): number {
+    return this.temperature;
+  }
+
+  predict(text: string): IntentPrediction {
+    if (!this.model) {
+      throw new Error('Intent classifier has not been trained');
+    }
+
+    const tokens = tokenize(text);
+    const posterior = this.softmax(this.logScores(this.model, tokens), this.temperature);
+    const evidence = tokens.filter(
+      (token) => !token.includes(' ') && this.model!.vocabulary.has(token)
+    ).length;
+
+    const scores = Object.fromEntries(
+      Object.entries(posterior).map(([intent, probability]) => [
+        intent,
+        (evidence * probability + PRIOR_STRENGTH * Math.exp(this.model!.logPriors[intent])) /
+          (evidence + PRIOR_STRENGTH),
+      ])
+    );
+    const [intent, confidence] = Object.entries(scores).sort((a, b) => b[1] - a[1])[0];
+    return { intent, confidence, scores };
+  }
+
+  private fit(examples: Array<{ intent: string; tokens: string[] }>): NaiveBayesModel {
+    const classes = Array.from(new Set(examples.map((example) => example.intent)));
+    const vocabulary = new Set(examples.flatMap((example) => example.tokens));
+    const model: NaiveBayesModel = {
+      classes,
+      logPriors: {},
+      logLikelihoods: {},
+      unseenLogLikelihood: {},
+      vocabulary,
+    };
+
+    for (const intent of classes) {
+      const classExamples = examples.filter((example) => example.intent === intent);
+      const counts = new Map<string, number>();
+      classExamples
+        .flatMap((example) => example.tokens)
+        .forEach((token) => counts.set(token, (counts.get(token) || 0) + 1));
+
+      const total = Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+      const denominator = total + this.alpha * vocabulary.size;
+
+      model.logPriors[intent] = Math.log(classExamples.length / examples.length);
+      model.unseenLogLikelihood[intent] = Math.log(this.alpha / denominator);
+      model.logLikelihoods[intent] = new Map(
+        Array.from(counts, ([token, count]) => [
+          token,
+          Math.log((count + this.alpha) / denominator),
+        ])
+      );
+    }
+
+    return model;
+  }
+
+  private logScores(model: NaiveBayesModel, tokens: string[]): Record<string, number> {
+    // Los tokens fuera del vocabulario no aportan información
+    const known = tokens.filter((token) => model.vocabulary.has(token));
+
+    return Object.fromEntries(
+      model.classes.map((intent) => [
+        intent,
+        known.reduce(
+          (score, token) =>
+            score +
+            (model.logLikelihoods[intent].get(token) ?? model.unseenLogLikelihood[intent]),
+          model.logPriors[intent]
+        ),
+      ])
+    );
+  }
+
+  private calibrate(examples: Array<{ intent: string; tokens: string[] }>): number {
+    // Puntuaciones fuera de muestra: cada ejemplo se evalúa con el modelo
+    // entrenado sin su pliegue (uno por pliegue, no por ejemplo)
+    const foldModels = Array.from({ length: Math.min(CALIBRATION_FOLDS, examples.length) }, (_, fold) =>
+      this.fit(examples.filter((_, index) => index % CALIBRATION_FOLDS !== fold))
+    );
+    const heldOut = examples.flatMap((example, index) => {
+      const foldModel = foldModels[index % CALIBRATION_FOLDS];
+      return foldModel.classes.includes(example.intent)
+        ? [{ intent: example.intent, scores: this.logScores(foldModel, example.tokens) }]
+        : [];
+    });
+
+    if (heldOut.length === 0) {
+      return 1;
+    }
+
+    let best = { temperature: 1, loss: Infinity };
+    for (const temperature of TEMPERATURES) {
+      const loss =
+        heldOut.reduce((sum, { intent, scores }) => {
+          const probability = this.softmax(scores, temperature)[intent];
+          return sum - Math.log(Math.max(probability, 1e-12));
+        }, 0) / heldOut.length;
+
+      if (loss < best.loss) {
+        best = { temperature, loss };
+      }
+    }
+    return best.temperature;
+  }
+
+  private softmax(scores: Record<string, number>, temperature: number): Record<string, number> {
+    const entries = Object.entries(scores);
+    const max = Math.max(...entries.map(([, score]) => score));
+    const exps = entries.map(([intent, score]) => [
+      intent,
+      Math.exp((score - max) / temperature),
+    ] as const);
+    const total = exps.reduce((sum, [, value]) => sum + value, 0);
+    return Object.fromEntries(exps.map(([intent, value]) => [intent, value / total]));
+  }
+}
@@ -0,0 +1,177 @@
+// src/core-hub/chat/utils/intent-dataset.ts
+
+import { LabelledUtterance } from '../interfaces/intent.types';
+
+// Frases etiquetadas para entrenar el clasificador de intenciones.
+// Las cantidades, años y formularios se enmascaran antes de entrenar, así
+// que los valores concretos de cada frase no importan.
+const examples: Record<string, string[]> = {
+  'tax.submit_form': [
+    'submit my 1040 for 2023',
+    'file my tax return',
+    'please file form 1040 for last year',
+    'send my W-2 information to the IRS',
+    'e-file my federal return',
+    'submit the 1040-SR form',
+    'I want to file my taxes now',
+    'presentar mi declaración de impuestos',
+    'enviar el formulario 1040 del 2023',
+    'quiero presentar mi declaración',
+    'envía mi declaración al IRS',
+    'presenta el formulario 1099 de este año',
+  ],
+  'tax.update_profile': [
+    'change my filing status to married filing jointly',
+    'I am single now, update my tax profile',
+    'I have 2 dependents',
+    'add a dependent to my tax profile',
+    'update my state to CA',
+    'I moved to TX, update my tax state',
+    'set my filing status to head of household',
+    'cambia mi estado civil a casado declarando en conjunto',
+    'tengo 3 dependientes',
+    'actualiza mi perfil fiscal, ahora soy soltero',
+    'me mudé a FL, actualiza mi estado',
+    'agrega un dependiente a mi perfil de impuestos',
+  ],
+  'tax.calculate_deductions': [
+    'calculate my deductions for 2023',
+    'what deductions can I claim this year',
+    'how much can I deduct for my home office',
+    'estimate my itemized deductions',
+    'can I deduct my student loan interest',
+    'compute my tax deductions',
+    'should I itemize or take the standard deduction',
+    'calcula mis deducciones del 2023',
+    'qué deducciones puedo aplicar',
+    'cuánto puedo deducir por gastos médicos',
+    'calcular deducciones de impuestos',
+    'puedo deducir los intereses de mi hipoteca',
+  ],
+  'tax.question': [
+    'when is the tax deadline',
+    'what is the difference between a W-2 and a 1099',
+    'how do tax brackets work',
+    'what is my marginal tax rate',
+    'do I need to pay quarterly taxes',
+    'how long does a refund take',
+    'explain capital gains tax',
+    'cuándo es la fecha límite de impuestos',
+    'cómo funcionan los tramos de impuestos',
+    'qué es un formulario W-2',
+    'cuánto tarda el reembolso de impuestos',
+    'tengo que pagar impuestos por mis inversiones',
+  ],
+  'financial.update_budget': [
+    'set my rent budget to $1500',
+    'change my grocery budget to 400 dollars',
+    'increase my dining budget to $300 a month',
+    'lower my entertainment budget to $100',
+    'update budget for transportation to $250',
+    'budget $200 per month for utilities',
+    'my monthly travel budget should be $500',
+    'pon mi presupuesto de alquiler en $1500',
+    'cambia el presupuesto de comida a 400 dólares',
+    'aumenta mi presupuesto de transporte a $250',
+    'reduce el presupuesto de ocio a $100 al mes',
+    'actualiza el presupuesto de servicios a $200',
+  ],
+  'financial.create_savings_goal': [
+    'create a savings goal for a car of $10000',
+    'I want to save $5000 for a vacation',
+    'start an emergency fund of $3000',
+    'new savings goal: house down payment $40000',
+    'help me save $2000 by 2025-12-31',
+    'set a goal to save for college',
+    'save $800 for a new laptop',
+    'crea una meta de ahorro para un coche de $10000',
+    'quiero ahorrar $5000 para vacaciones',
+    'nueva meta de ahorro de $3000 para emergencias',
+    'ahorrar $2000 para la entrada de una casa',
+    'ayúdame a ahorrar para la universidad',
+  ],
+  'financial.analyze_expenses': [
+    'analyze my expenses',
+    'where is my money going',
+    'show my spending this month',
+    'how much did I spend on groceries',
+    'break down my expenses by category',
+    'review my monthly spending',
+    'am I overspending on dining',
+    'analiza mis gastos',
+    'en qué gasto mi dinero',
+    'muéstrame mis gastos de este mes',
+    'cuánto gasté en comida',
+    'revisa mis gastos mensuales',
+  ],
+  'credit.dispute_transaction': [
+    'dispute transaction TX-12345, I never made this purchase',
+    'I want to dispute a charge on my card',
+    'there is a fraudulent charge of $250 on my account',
+    'report an unauthorized transaction',
+    'this charge is wrong, please dispute it',
+    'open a dispute for transaction 88231',
+    'I was charged twice for the same purchase',
+    'disputar la transacción TX-12345, no reconozco este cargo',
+    'quiero disputar un cargo de mi tarjeta',
+    'hay un cargo fraudulento de $250 en mi cuenta',
+    'reportar una transacción no autorizada',
+    'me cobraron dos veces la misma compra',
+  ],
+  'credit.update_profile': [
+    'my Visa limit is now $5000',
+    'update my Chase card balance to $1200',
+    'my Amex credit limit increased to $8000',
+    'add my Discover card with a $3000 limit',
+    'set my Mastercard balance to $450',
+    'update my credit card limit',
+    'I paid off my Capital One card, the balance is 0',
+    'el límite de mi Visa ahora es $5000',
+    'actualiza el saldo de mi tarjeta Chase a $1200',
+    'mi límite de crédito de Amex subió a $8000',
+    'agrega mi tarjeta Discover con límite de $3000',
+    'el saldo de mi Mastercard es $450',
+  ],
+  'credit.analyze_score': [
+    'analyze my credit score',
+    'why did my credit score drop',
+    'how can I improve my credit score',
+    'what is affecting my credit',
+    'check my Experian score',
+    'review my credit report',
+    'what factors hurt my score',
+    'analiza mi puntaje de crédito',
+    'por qué bajó mi score de crédito',
+    'cómo puedo mejorar mi historial crediticio',
+    'revisa mi reporte de crédito de Equifax',
+    'qué afecta mi puntaje crediticio',
+  ],
+  general: [
+    'hello',
+    'hi there, how are you',
+    'thanks for your help',
+    'what can you do',
+    'tell me a joke',
+    'good morning',
+    'who are you',
+    'hola',
+    'buenos días',
+    'gracias por tu ayuda',
+    'qué puedes hacer',
+    'cuéntame un chiste',
+    'how do I cook pasta',
+    'what is the weather today',
+    'recommend a good movie',
+    'how do I get more followers',
+    'write a poem about the sea',
+    'cómo hago una pizza',
+    'qué tiempo hace hoy',
+    'recomiéndame una película',
+    'cómo consigo más seguidores',
+    'escribe un poema sobre el mar',
+  ],
+};
+
+export const INTENT_UTTERANCES: LabelledUtterance[] = Object.entries(examples).flatMap(
+  ([intent, texts]) => texts.map((text) => ({ text, intent }))
+);
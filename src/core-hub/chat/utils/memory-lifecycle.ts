@@ -0,0 +1,183 @@
+// src/core-hub/chat/utils/memory-lifecycle.ts
+
+import { cosineSimilarity } from '@/core-hub/ai/utils/vector';
+import {
+  EPISODIC_MEMORY_TYPES,
+  FinancialMemory,
+  MemoryLifecycleConfig,
+  MemoryType,
+} from '../interfaces/memory.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_LIFECYCLE_CONFIG: MemoryLifecycleConfig = {
+  halfLifeDays: Number(process.env.MEMORY_HALF_LIFE_DAYS) || 30,
+  forgetThreshold: 0.05,
+  maxMemoriesPerUser: Number(process.env.MEMORY_MAX_PER_USER) || 200,
+  consolidationMinAgeDays: 7,
+  consolidationMinCluster: 3,
+  consolidationSimilarity: 0.75,
+  maintenanceIntervalHours: Number(process.env.MEMORY_MAINTENANCE_HOURS) || 24,
+};
+
+export interface ConsolidationSummary {
+  type: Extract<MemoryType, 'HABIT' | 'GOAL'>;
+  description: string;
+}
+
+/**
+ * Fuerza actual de un recuerdo: decae exponencialmente desde su último uso.
+ * La importancia, las consultas y las repeticiones alargan la vida media.
+ */
+export function memoryStrength(
+  memory: FinancialMemory,
+  config: MemoryLifecycleConfig,
+  now = Date.now()
+): number {
+  if (memory.pinned) {
+    return Infinity;
+  }
+  const importance = Math.min(5, Math.max(1, memory.importance ?? 1));
+  const reinforcement = 1 + Math.log1p((memory.accessCount ?? 0) + (memory.mentions ?? 1) - 1);
+  const halfLifeDays = config.halfLifeDays * importance * reinforcement;
+  const idleDays = Math.max(0, now - (memory.lastAccessed ?? memory.timestamp)) / DAY_MS;
+  return importance * Math.pow(0.5, idleDays / halfLifeDays);
+}
+
+// Grupos de recuerdos episódicos del mismo tipo que repiten lo mismo
+export function findConsolidationClusters(
+  memories: FinancialMemory[],
+  config: MemoryLifecycleConfig,
+  now = Date.now()
+): FinancialMemory[][] {
+  const cutoff = now - config.consolidationMinAgeDays * DAY_MS;
+  const candidates = memories
+    .filter(
+      (memory) =>
+        !memory.pinned &&
+        memory.embedding &&
+        EPISODIC_MEMORY_TYPES.includes(memory.type) &&
+        memory.timestamp <= cutoff
+    )
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const assigned = new Set<string>();
+  const clusters: FinancialMemory[][] = [];
+  for (const seed of candidates) {
+    if (assigned.has(seed.id)) {
+      continue;
+    }
+    const cluster = candidates.filter(
+      (memory) =>
+        !assigned.has(memory.id) &&
+        memory.type === seed.type &&
+        (memory.id === seed.id ||
+          cosineSimilarity(seed.embedding!, memory.embedding!) >= config.consolidationSimilarity)
+    );
+    if (cluster.length >= config.consolidationMinCluster) {
+      cluster.forEach((memory) => assigned.add(memory.id));
+      clusters.push(cluster);
+    }
+  }
+  return clusters;
+}
+
+// Frecuencia deducida del intervalo mediano entre los recuerdos
+export function inferFrequency(timestamps: number[]): FinancialMemory['frequency'] {
+  const sorted = [...timestamps].sort((a, b) => a - b);
+  const intervals = sorted.slice(1).map((timestamp, index) => (timestamp - sorted[index]) / DAY_MS);
+  if (intervals.length === 0) {
+    return undefined;
+  }
+  const median = [...intervals].sort((a, b) => a - b)[Math.floor(intervals.length / 2)];
+  if (median >= 20 && median <= 40) {
+    return 'MONTHLY';
+  }
+  if (median >= 300 && median <= 430) {
+    return 'YEARLY';
+  }
+  return undefined;
+}
+
+// Sin LLM: los gastos e ingresos repetidos son hábitos; el contexto repetido, una meta
+export function fallbackConsolidation(cluster: FinancialMemory[]): ConsolidationSummary {
+  const latest = cluster.reduce((a, b) => (b.timestamp > a.timestamp ? b : a));
+  return {
+    type: latest.type === 'CONTEXT' ? 'GOAL' : 'HABIT',
+    description: latest.description,
+  };
+}
+
+export function buildConsolidatedMemory(
+  cluster: FinancialMemory[],
+  summary: ConsolidationSummary,
+  id: string,
+  now = Date.now()
+): FinancialMemory {
+  const amounts = cluster
+    .map((memory) => memory.amount)
+    .filter((amount): amount is number => typeof amount === 'number');
+  const categories = cluster
+    .map((memory) => memory.category)
+    .filter((category): category is string => Boolean(category));
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+  return {
+    id,
+    type: summary.type,
+    description: summary.description,
+    category: mostCommon(categories),
+    // Solo si todos los recuerdos traen importe; si no, la media engañaría
+    amount:
+      amounts.length === cluster.length
+        ? Math.round((sum(amounts) / amounts.length) * 100) / 100
+        : undefined,
+    frequency: inferFrequency(cluster.map((memory) => memory.timestamp)),
+    confidence: Math.max(...cluster.map((memory) => memory.confidence ?? 0)),
+    importance: Math.min(5, Math.max(...cluster.map((memory) => memory.importance ?? 1)) + 1),
+    timestamp: now,
+    lastAccessed: now,
+    firstSeen: Math.min(...cluster.map((memory) => memory.firstSeen ?? memory.timestamp)),
+    mentions: sum(cluster.map((memory) => memory.mentions ?? 1)),
+    accessCount: sum(cluster.map((memory) => memory.accessCount ?? 0)),
+    consolidatedFrom: cluster.length,
+  };
+}
+
+/**
+ * Qué recuerdos descartar: los que han decaído por debajo del umbral y,
+ * si aun así se supera el tope por usuario, los más débiles. Los fijados nunca.
+ */
+export function planRetention(
+  memories: FinancialMemory[],
+  config: MemoryLifecycleConfig,
+  now = Date.now()
+): { forget: string[]; capped: string[] } {
+  const scored = memories
+    .filter((memory) => !memory.pinned)
+    .map((memory) => ({ id: memory.id, strength: memoryStrength(memory, config, now) }));
+  const forget = scored
+    .filter((entry) => entry.strength < config.forgetThreshold)
+    .map((entry) => entry.id);
+  const survivors = scored
+    .filter((entry) => entry.strength >= config.forgetThreshold)
+    .sort((a, b) => a.strength - b.strength);
+
+  const excess = memories.length - forget.length - config.maxMemoriesPerUser;
+  return {
+    forget,
+    capped: excess > 0 ? survivors.slice(0, excess).map((entry) => entry.id) : [],
+  };
+}
+
+function mostCommon(values: string[]): string | undefined {
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) || 0) + 1));
+  let best: string | undefined;
+  counts.forEach((count, value) => {
+    if (!best || count > counts.get(best)!) {
+      best = value;
+    }
+  });
+  return best;
+}
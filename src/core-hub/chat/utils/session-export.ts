@@ -0,0 +1,186 @@
+// src/core-hub/chat/utils/session-export.ts
+
+import { z } from 'zod';
+import { Locale, SUPPORTED_LOCALES, t } from '@/shared/i18n/i18n';
+import {
+  ChatSession,
+  Message,
+  MessageAction,
+  MessageAttachment,
+} from '../interfaces/chat.types';
+
+export const SESSION_EXPORT_FORMAT = 'andy.chat-session';
+export const SESSION_EXPORT_VERSION = 1;
+
+// Estados que cuentan como acción aplicada (bucle agente y plan automático)
+const EXECUTED_STATUSES: MessageAction['status'][] = ['executed', 'succeeded'];
+
+const attachmentSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  documentId: z.string().optional(),
+});
+
+const actionSchema = z.object({
+  type: z.enum(['TAX', 'FINANCIAL', 'CREDIT', 'SYSTEM']),
+  action: z.string().min(1),
+  params: z.record(z.unknown()),
+  status: z.enum([
+    'executed',
+    'failed',
+    'rejected',
+    'pending_approval',
+    'not_executed',
+    'succeeded',
+    'skipped',
+    'requires_approval',
+    'rolled_back',
+    'rollback_failed',
+  ]),
+});
+
+// Esquema canónico del JSON exportado; también valida lo que se importa
+export const sessionExportSchema = z.object({
+  format: z.literal(SESSION_EXPORT_FORMAT),
+  version: z.literal(SESSION_EXPORT_VERSION),
+  exportedAt: z.string().datetime(),
+  session: z.object({
+    title: z.string(),
+    locale: z.enum(SUPPORTED_LOCALES as [Locale, ...Locale[]]).optional(),
+    createdAt: z.number(),
+    summary: z
+      .object({ text: z.string(), through: z.number(), updatedAt: z.number() })
+      .optional(),
+    messages: z.array(
+      z.object({
+        role: z.enum(['user', 'assistant']),
+        content: z.string(),
+        timestamp: z.number(),
+        attachments: z.array(attachmentSchema).optional(),
+        actions: z.array(actionSchema).optional(),
+      })
+    ),
+  }),
+});
+
+export type SessionExport = z.infer<typeof sessionExportSchema>;
+
+export function toSessionExport(session: ChatSession, exportedAt = Date.now()): SessionExport {
+  return {
+    format: SESSION_EXPORT_FORMAT,
+    version: SESSION_EXPORT_VERSION,
+    exportedAt: new Date(exportedAt).toISOString(),
+    session: {
+      title: session.title,
+      ...(session.locale && { locale: session.locale }),
+      createdAt: session.metadata.createdAt,
+      ...(session.summary && { summary: session.summary }),
+      messages: session.messages.map((message) => ({
+        role: message.role,
+        content: message.content,
+        timestamp: message.timestamp,
+        ...(message.metadata?.attachments?.length && {
+          attachments: message.metadata.attachments,
+        }),
+        ...(message.metadata?.actions?.length && { actions: message.metadata.actions }),
+      })),
+    },
+  };
+}
+
+// Marca de tiempo legible y estable (UTC), igual en Markdown y PDF
+export function formatTimestamp(timestamp: number): string {
+  return `${new Date(timestamp).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+export function formatAttachment(attachment: MessageAttachment, locale: Locale): string {
+  const reference = attachment.documentId
+    ? `, ${t(locale, 'export.document', { id: attachment.documentId })}`
+    : '';
+  return `${attachment.name} (${attachment.type}${reference})`;
+}
+
+export function formatAction(action: MessageAction): string {
+  return `${action.type}.${action.action} [${action.status}] ${JSON.stringify(action.params)}`;
+}
+
+export function executedActions(
+  session: ChatSession
+): Array<{ message: Message; action: MessageAction }> {
+  return session.messages.flatMap((message) =>
+    (message.metadata?.actions || [])
+      .filter((action) => EXECUTED_STATUSES.includes(action.status))
+      .map((action) => ({ message, action }))
+  );
+}
+
+export function attachedDocuments(session: ChatSession): MessageAttachment[] {
+  return session.messages.flatMap((message) => message.metadata?.attachments || []);
+}
+
+export function renderMarkdown(
+  session: ChatSession,
+  locale: Locale,
+  exportedAt = Date.now()
+): string {
+  const lines: string[] = [
+    `# ${session.title || t(locale, 'ui.sessions.untitled')}`,
+    '',
+    `- **${t(locale, 'export.exportedAt')}:** ${formatTimestamp(exportedAt)}`,
+    `- **${t(locale, 'export.language')}:** ${session.locale ?? locale}`,
+    `- **${t(locale, 'export.messages')}:** ${session.messages.length}`,
+    '',
+  ];
+
+  if (session.summary) {
+    lines.push(`## ${t(locale, 'export.summary')}`, '', session.summary.text, '');
+  }
+
+  lines.push(`## ${t(locale, 'export.conversation')}`, '');
+  for (const message of session.messages) {
+    lines.push(
+      `### ${t(locale, `export.role.${message.role}`)} · ${formatTimestamp(message.timestamp)}`,
+      '',
+      message.content,
+      ''
+    );
+    const attachments = message.metadata?.attachments || [];
+    if (attachments.length) {
+      lines.push(
+        `> ${t(locale, 'export.attachments')}:`,
+        ...attachments.map((attachment) => `> - ${formatAttachment(attachment, locale)}`),
+        ''
+      );
+    }
+    const actions = message.metadata?.actions || [];
+    if (actions.length) {
+      lines.push(
+        `> ${t(locale, 'export.actions')}:`,
+        ...actions.map((action) => `> - \`${formatAction(action)}\``),
+        ''
+      );
+    }
+  }
+
+  const executed = executedActions(session);
+  lines.push(`## ${t(locale, 'export.executedActions')}`, '');
+  lines.push(
+    ...(executed.length
+      ? executed.map(
+          ({ message, action }) =>
+            `- ${formatTimestamp(message.timestamp)} — \`${action.type}.${action.action}\` ${JSON.stringify(action.params)}`
+        )
+      : [`- ${t(locale, 'export.none')}`]),
+    ''
+  );
+
+  const documents = attachedDocuments(session);
+  lines.push(`## ${t(locale, 'export.documents')}`, '');
+  lines.push(
+    ...(documents.length
+      ? documents.map((attachment) => `- ${formatAttachment(attachment, locale)}`)
+      : [`- ${t(locale, 'export.none')}`])
+  );
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,179 @@
+// src/core-hub/chat/utils/session-pdf.ts
+
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import { Locale, t } from '@/shared/i18n/i18n';
+import { ChatSession } from '../interfaces/chat.types';
+import {
+  attachedDocuments,
+  executedActions,
+  formatAction,
+  formatAttachment,
+  formatTimestamp,
+} from './session-export';
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const TEXT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const STYLES = {
+  title: { size: 16, lineHeight: 22, bold: true, color: rgb(0, 0, 0) },
+  heading: { size: 12, lineHeight: 18, bold: true, color: rgb(0, 0, 0) },
+  author: { size: 10, lineHeight: 14, bold: true, color: rgb(0.15, 0.25, 0.5) },
+  body: { size: 10, lineHeight: 14, bold: false, color: rgb(0, 0, 0) },
+  note: { size: 8.5, lineHeight: 12, bold: false, color: rgb(0.35, 0.35, 0.35) },
+};
+
+type Style = keyof typeof STYLES;
+
+// Las fuentes estándar solo codifican WinAnsi: el resto se sustituye
+function toWinAnsi(text: string): string {
+  return text
+    .replace(/\t/g, '    ')
+    .replace(/[^\x20-\x7e\u00a0-\u00ff\u20ac\u2013\u2014\u2018\u2019\u201c\u201d\u2022\u2026]/g, '?');
+}
+
+class TranscriptWriter {
+  private page!: PDFPage;
+  private y = 0;
+
+  constructor(
+    private readonly pdf: PDFDocument,
+    private readonly regular: PDFFont,
+    private readonly bold: PDFFont
+  ) {
+    this.addPage();
+  }
+
+  write(text: string, style: Style, indent = 0): void {
+    const { size, lineHeight, bold, color } = STYLES[style];
+    const font = bold ? this.bold : this.regular;
+    for (const paragraph of toWinAnsi(text).split('\n')) {
+      for (const line of this.wrap(paragraph, font, size, TEXT_WIDTH - indent)) {
+        if (this.y - lineHeight < MARGIN) {
+          this.addPage();
+        }
+        this.y -= lineHeight;
+        this.page.drawText(line, { x: MARGIN + indent, y: this.y, size, font, color });
+      }
+    }
+  }
+
+  space(points = 8): void {
+    this.y -= points;
+  }
+
+  private addPage(): void {
+    this.page = this.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  private wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+    if (!text.trim()) {
+      return [''];
+    }
+    const fits = (candidate: string) => font.widthOfTextAtSize(candidate, size) <= width;
+    const lines: string[] = [];
+    let current = '';
+
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (fits(candidate)) {
+        current = candidate;
+        continue;
+      }
+      if (current) {
+        lines.push(current);
+      }
+      // Palabras más anchas que la línea (URLs, JSON) se cortan por caracteres
+      current = '';
+      for (const char of word) {
+        if (!fits(current + char)) {
+          lines.push(current);
+          current = '';
+        }
+        current += char;
+      }
+    }
+    lines.push(current);
+    return lines;
+  }
+}
+
+export async function renderPdf(
+  session: ChatSession,
+  locale: Locale,
+  exportedAt = Date.now()
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const title = session.title || t(locale, 'ui.sessions.untitled');
+  pdf.setTitle(toWinAnsi(title));
+  pdf.setCreator('Andy AI');
+  pdf.setCreationDate(new Date(exportedAt));
+
+  const writer = new TranscriptWriter(
+    pdf,
+    await pdf.embedFont(StandardFonts.Helvetica),
+    await pdf.embedFont(StandardFonts.HelveticaBold)
+  );
+
+  writer.write(title, 'title');
+  writer.write(
+    [
+      `${t(locale, 'export.exportedAt')}: ${formatTimestamp(exportedAt)}`,
+      `${t(locale, 'export.language')}: ${session.locale ?? locale}`,
+      `${t(locale, 'export.messages')}: ${session.messages.length}`,
+    ].join('\n'),
+    'note'
+  );
+  writer.space(12);
+
+  if (session.summary) {
+    writer.write(t(locale, 'export.summary'), 'heading');
+    writer.write(session.summary.text, 'body');
+    writer.space(12);
+  }
+
+  writer.write(t(locale, 'export.conversation'), 'heading');
+  for (const message of session.messages) {
+    writer.space();
+    writer.write(
+      `${t(locale, `export.role.${message.role}`)} · ${formatTimestamp(message.timestamp)}`,
+      'author'
+    );
+    writer.write(message.content, 'body');
+    for (const attachment of message.metadata?.attachments || []) {
+      writer.write(`${t(locale, 'export.attachments')}: ${formatAttachment(attachment, locale)}`, 'note', 12);
+    }
+    for (const action of message.metadata?.actions || []) {
+      writer.write(`${t(locale, 'export.actions')}: ${formatAction(action)}`, 'note', 12);
+    }
+  }
+
+  const executed = executedActions(session);
+  writer.space(12);
+  writer.write(t(locale, 'export.executedActions'), 'heading');
+  writer.write(
+    executed.length
+      ? executed
+          .map(
+            ({ message, action }) =>
+              `${formatTimestamp(message.timestamp)}  ${action.type}.${action.action} ${JSON.stringify(action.params)}`
+          )
+          .join('\n')
+      : t(locale, 'export.none'),
+    'body'
+  );
+
+  const documents = attachedDocuments(session);
+  writer.space(12);
+  writer.write(t(locale, 'export.documents'), 'heading');
+  writer.write(
+    documents.length
+      ? documents.map((attachment) => formatAttachment(attachment, locale)).join('\n')
+      : t(locale, 'export.none'),
+    'body'
+  );
+
+  return pdf.save();
+}
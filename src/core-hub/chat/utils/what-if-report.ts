@@ -0,0 +1,62 @@
+// src/core-hub/chat/utils/what-if-report.ts
+
+import { TaxScenario } from '@/modules/taxAdvisor/services/tax-optimization.service';
+import { describeTaxDelta } from '@/modules/taxAdvisor/engine/what-if';
+import { formatMoney, formatPercent, Locale, t } from '@/shared/i18n/i18n';
+
+function scenarioLabel(scenario: TaxScenario, locale: Locale): string {
+  if (scenario.deltas.length === 0) {
+    return t(locale, 'chat.whatIf.current');
+  }
+  return scenario.deltas.length === 1
+    ? describeTaxDelta(scenario.deltas[0], locale)
+    : t(locale, 'chat.whatIf.combined');
+}
+
+/**
+ * Tabla Markdown con los escenarios de simulateScenarios uno al lado del otro
+ * (el primero es la situación actual) y las notas de los ajustes aplicados.
+ */
+export function formatWhatIfReport(scenarios: TaxScenario[], locale: Locale): string {
+  const [base] = scenarios;
+  const rows = scenarios.map((scenario) => {
+    const { lines, marginalRate, effectiveRate } = scenario.computation;
+    const balance =
+      lines.amountOwed > 0
+        ? t(locale, 'chat.whatIf.owed', { amount: formatMoney(lines.amountOwed, locale) })
+        : t(locale, 'chat.whatIf.refund', { amount: formatMoney(lines.refund, locale) });
+    return [
+      scenarioLabel(scenario, locale),
+      formatMoney(lines.totalTax, locale),
+      balance,
+      formatPercent(marginalRate, locale),
+      formatPercent(effectiveRate, locale),
+      scenario === base ? '—' : formatMoney(scenario.potentialSavings, locale),
+    ].join(' | ');
+  });
+
+  const notes = Array.from(
+    new Map(
+      scenarios
+        .flatMap(({ notes }) => notes)
+        .map((note) => [
+          note.code,
+          t(locale, `chat.whatIf.note.${note.code}`, {
+            amount: note.amount === undefined ? '' : formatMoney(note.amount, locale),
+          }),
+        ])
+    ).values()
+  );
+
+  return [
+    t(locale, 'chat.whatIf.title', {
+      year: base.computation.taxYear,
+      status: t(locale, `chat.whatIf.status.${base.computation.filingStatus}`),
+    }),
+    '',
+    t(locale, 'chat.whatIf.header'),
+    `|${' --- |'.repeat(6)}`,
+    ...rows.map((row) => `| ${row} |`),
+    ...(notes.length > 0 ? ['', ...notes.map((note) => `- ${note}`)] : []),
+  ].join('\n');
+}
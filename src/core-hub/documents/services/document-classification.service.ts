@@ -1,6 +1,7 @@
 import fs from 'fs';
 import path from 'path';
 import OpenAI from 'openai';
+import { DEFAULT_LOCALE, Locale, t } from '@/shared/i18n/i18n';
 
 interface ClassifiedDocument {
   name: string;
@@ -27,9 +28,10 @@ export default class DocumentClassificationService {
   /**
    * Clasifica un documento basado en su contenido.
    * @param filePath Ruta del archivo.
+   * @param locale Idioma de la clasificación.
    * @returns Tipo de documento y nivel de confianza.
    */
-  public async classifyDocument(filePath: string): Promise<ClassifiedDocument> {
+  public async classifyDocument(filePath: string, locale: Locale = DEFAULT_LOCALE): Promise<ClassifiedDocument> {
     if (!fs.existsSync(filePath)) {
       throw new Error(`El archivo ${filePath} no existe.`);
     }
@@ -41,11 +43,7 @@ export default class DocumentClassificationService {
       messages: [
         {
           role: 'system',
-          content: `Analiza y clasifica el siguiente documento. Proporciona:
-          1. Tipo de documento (Factura, Contrato, Reporte, etc.)
-          2. Propósito principal
-          3. Nivel de confidencialidad estimado (Bajo/Medio/Alto)
-          4. Campos clave identificados`,
+          content: t(locale, 'prompts.documents.classify'),
         },
         { role: 'user', content: content },
       ],
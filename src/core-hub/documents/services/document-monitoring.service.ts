@@ -1,6 +1,7 @@
 
 import { Logger } from '../../../shared/utils/logger';
 import { Anthropic } from '@anthropic-ai/sdk';
+import { DEFAULT_LOCALE, Locale, t } from '@/shared/i18n/i18n';
 
 export class DocumentMonitoringService {
   private static instance: DocumentMonitoringService;
@@ -28,7 +29,7 @@ export class DocumentMonitoringService {
     });
   }
 
-  public async analyzeSensitiveContent(content: string): Promise<{
+  public async analyzeSensitiveContent(content: string, locale: Locale = DEFAULT_LOCALE): Promise<{
     hasSensitiveData: boolean;
     details: string[];
   }> {
@@ -37,19 +38,15 @@ export class DocumentMonitoringService {
       max_tokens: 1024,
       messages: [{
         role: 'user',
-        content: `Analiza este documento en busca de información sensible como:
-        - Datos personales
-        - Información financiera
-        - Datos médicos
-        - Información confidencial
-        
-        Documento: ${content}`
+        content: t(locale, 'prompts.documents.sensitive', { content })
       }]
     });
 
+    // Primera línea YES/NO en cualquier idioma; después, lo encontrado
+    const [answer = '', ...details] = response.content[0].text.split('\n') as string[];
     return {
-      hasSensitiveData: response.content[0].text.toLowerCase().includes('sensible'),
-      details: response.content[0].text.split('\n')
+      hasSensitiveData: /^\s*yes\b/i.test(answer),
+      details: details.filter((line) => line.trim())
     };
   }
 }
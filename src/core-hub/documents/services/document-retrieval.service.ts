@@ -3,6 +3,7 @@ import path from 'path';
 import { PDFDocument } from 'pdf-lib';
 import OpenAI from 'openai';
 import { createWorker } from 'tesseract.js';
+import { DEFAULT_LOCALE, Locale, t } from '@/shared/i18n/i18n';
 
 interface DocumentMetadata {
   name: string;
@@ -81,15 +82,16 @@ export default class DocumentRetrievalService {
   /**
    * Analiza un documento con IA para generar un resumen.
    * @param documentText Texto del documento
+   * @param locale Idioma del resumen
    * @returns Resumen del documento
    */
-  public async analyzeDocument(documentText: string): Promise<string> {
+  public async analyzeDocument(documentText: string, locale: Locale = DEFAULT_LOCALE): Promise<string> {
     const response = await this.openai.chat.completions.create({
       model: 'gpt-4',
       messages: [
         {
           role: 'system',
-          content: 'Resume el siguiente documento de manera concisa y clara.',
+          content: t(locale, 'prompts.documents.summarize'),
         },
         { role: 'user', content: documentText },
       ],
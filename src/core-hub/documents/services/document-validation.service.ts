@@ -1,6 +1,7 @@
 import fs from 'fs';
 import path from 'path';
 import OpenAI from 'openai';
+import { DEFAULT_LOCALE, Locale, t } from '@/shared/i18n/i18n';
 
 interface ValidationResult {
   name: string;
@@ -29,7 +30,7 @@ export default class DocumentValidationService {
    * @param filePath Ruta del archivo.
    * @returns Resultado de la validación.
    */
-  public async validateDocument(filePath: string): Promise<ValidationResult> {
+  public async validateDocument(filePath: string, locale: Locale = DEFAULT_LOCALE): Promise<ValidationResult> {
     if (!fs.existsSync(filePath)) {
       throw new Error(`El archivo ${filePath} no existe.`);
     }
@@ -40,17 +41,15 @@ export default class DocumentValidationService {
       messages: [
         {
           role: 'system',
-          content:
-            'Revisa el siguiente documento en busca de errores estructurales, datos faltantes o inconsistencias.',
+          content: t(locale, 'prompts.documents.validate'),
         },
         { role: 'user', content: content },
       ],
     });
 
     const validationFeedback = response.choices[0].message.content.split('\n');
-    const isValid =
-      validationFeedback.length === 1 &&
-      validationFeedback[0].toLowerCase().includes('no errores detectados');
+    // El prompt pide NO_ERRORS en cualquier idioma cuando no hay problemas
+    const isValid = validationFeedback.length === 1 && validationFeedback[0].trim() === 'NO_ERRORS';
 
     return {
       name: path.basename(filePath),
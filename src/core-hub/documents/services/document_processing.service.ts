@@ -1,10 +1,14 @@
 import fs from 'fs';
 import path from 'path';
 import { PDFDocument } from 'pdf-lib';
-import OpenAI from 'openai';
 import { createWorker } from 'tesseract.js';
 import csv from 'csv-parser';
 import * as XLSX from 'xlsx';
+import { z } from 'zod';
+import { LLMProvider } from '@/core-hub/ai/interfaces/llm-provider.types';
+import { providerRegistry } from '@/core-hub/ai/services/provider-registry.service';
+import { completeStructured } from '@/core-hub/ai/utils/structured-output';
+import { DEFAULT_LOCALE, Locale, t } from '@/shared/i18n/i18n';
 
 interface ProcessedDocument {
   text: string;
@@ -16,13 +20,27 @@ interface ProcessedDocument {
   };
 }
 
+const extractedDataSchema = z.object({
+  dates: z.array(z.string()),
+  amounts: z.array(z.object({ description: z.string(), amount: z.number(), currency: z.string().optional() })),
+  entities: z.array(z.string()),
+  figures: z.array(z.object({ description: z.string(), value: z.number() })),
+  references: z.array(z.string()),
+});
+
+export type ExtractedData = z.infer<typeof extractedDataSchema>;
+
+const complianceSchema = z.object({
+  compliant: z.boolean(),
+  issues: z.array(z.string()),
+});
+
 export default class DocumentProcessingService {
   private static instance: DocumentProcessingService;
-  private openai: OpenAI;
+  private llm: LLMProvider = providerRegistry.resolve();
   private ocrWorker: any;
 
   private constructor() {
-    this.openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
     this.ocrWorker = createWorker();
   }
 
@@ -123,18 +141,62 @@ export default class DocumentProcessingService {
   /**
    * Utiliza IA para extraer información clave del texto procesado.
    */
-  public async analyzeDocument(documentText: string): Promise<string> {
-    const response = await this.openai.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: 'Extrae información clave del siguiente documento.',
-        },
-        { role: 'user', content: documentText },
-      ],
+  public async analyzeDocument(documentText: string, locale: Locale = DEFAULT_LOCALE): Promise<string> {
+    const response = await this.llm.complete({
+      system: t(locale, 'prompts.documents.keyInformation'),
+      messages: [{ role: 'user', content: documentText }],
     });
-    return response.choices[0].message.content;
+    return response.text;
+  }
+
+  /**
+   * Extrae fechas, importes, entidades, cifras y referencias del documento.
+   */
+  public async extractStructuredData(content: string, locale: Locale = DEFAULT_LOCALE): Promise<ExtractedData> {
+    return completeStructured(
+      this.llm,
+      {
+        maxTokens: 4096,
+        messages: [{
+          role: 'user',
+          content: t(locale, 'prompts.documents.extract', { content })
+        }]
+      },
+      extractedDataSchema,
+      { name: 'document data extraction' }
+    );
+  }
+
+  public async suggestModifications(content: string, locale: Locale = DEFAULT_LOCALE): Promise<string> {
+    const response = await this.llm.complete({
+      maxTokens: 4096,
+      messages: [{
+        role: 'user',
+        content: t(locale, 'prompts.documents.improvements', { content })
+      }]
+    });
+
+    return response.text;
+  }
+
+  public async validateCompliance(
+    content: string,
+    documentType: string,
+    locale: Locale = DEFAULT_LOCALE
+  ): Promise<boolean> {
+    const { compliant } = await completeStructured(
+      this.llm,
+      {
+        maxTokens: 2048,
+        messages: [{
+          role: 'user',
+          content: t(locale, 'prompts.documents.compliance', { documentType, content })
+        }]
+      },
+      complianceSchema,
+      { name: 'document compliance check' }
+    );
+    return compliant;
   }
 
   /**
@@ -156,61 +218,3 @@ export default class DocumentProcessingService {
     };
   }
 }
-
-
-  public async extractStructuredData(content: string): Promise<any> {
-    const response = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
-      max_tokens: 4096,
-      messages: [{
-        role: 'user',
-        content: `Extrae todos los datos estructurados de este documento, incluyendo:
-        - Fechas y timestamps
-        - Cantidades monetarias
-        - Nombres y entidades
-        - Datos numéricos
-        - Referencias o IDs
-        
-        Documento:
-        ${content}`
-      }]
-    });
-    
-    return JSON.parse(response.content[0].text);
-  }
-
-  public async suggestModifications(content: string): Promise<string> {
-    const response = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
-      max_tokens: 4096,
-      messages: [{
-        role: 'user',
-        content: `Analiza este documento y sugiere mejoras potenciales en:
-        - Formato y estructura
-        - Claridad del lenguaje
-        - Completitud de información
-        - Cumplimiento normativo
-        
-        Documento:
-        ${content}`
-      }]
-    });
-    
-    return response.content[0].text;
-  }
-
-  public async validateCompliance(content: string, documentType: string): Promise<boolean> {
-    const response = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
-      max_tokens: 2048,
-      messages: [{
-        role: 'user',
-        content: `Verifica si este ${documentType} cumple con todos los requisitos legales y regulatorios necesarios.
-        
-        Documento:
-        ${content}`
-      }]
-    });
-    
-    return response.content[0].text.toLowerCase().includes('cumple con todos los requisitos');
-  }
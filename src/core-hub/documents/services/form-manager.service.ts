@@ -1,11 +1,15 @@
 import fs from 'fs';
 import path from 'path';
 import { PDFDocument } from 'pdf-lib';
-import OpenAI from 'openai';
+import { z } from 'zod';
+import { providerRegistry } from '@/core-hub/ai/services/provider-registry.service';
+import { completeStructured } from '@/core-hub/ai/utils/structured-output';
 import { FormType } from '../interfaces/form.types';
 
-// Configuración de OpenAI
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+const formAnalysisSchema = z.object({
+  suggestions: z.array(z.string()),
+  errors: z.array(z.string()),
+});
 
 // Servicio para gestionar formularios
 export default {
@@ -106,19 +110,16 @@ export default {
         throw new Error('El contenido del formulario no es válido.');
       }
 
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content:
-              'Eres un experto en formularios financieros. Analiza el siguiente formulario y devuelve un JSON con dos arrays: "suggestions" (mejoras sugeridas) y "errors" (errores encontrados).',
-          },
-          { role: 'user', content: formContent },
-        ],
-      });
-
-      return JSON.parse(response.choices[0].message.content);
+      return await completeStructured(
+        providerRegistry.resolve('openai'),
+        {
+          system:
+            'Eres un experto en formularios financieros. Analiza el siguiente formulario y devuelve un JSON con dos arrays: "suggestions" (mejoras sugeridas) y "errors" (errores encontrados).',
+          messages: [{ role: 'user', content: formContent }],
+        },
+        formAnalysisSchema,
+        { name: 'form analysis' }
+      );
     } catch (error) {
       console.error('Error al analizar el formulario con IA:', error);
       throw new Error('No se pudo analizar el formulario.');
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { PeriodIncome, TaxReturnInput } from '../../interfaces/tax-engine.types';
+import { computeForm1040 } from '../form-1040';
+import { planEstimatedTax } from '../estimated-tax';
+import { getTaxYearTable } from '../tables';
+
+const table = getTaxYearTable(2024);
+
+const FREELANCER: TaxReturnInput = { taxYear: 2024, filingStatus: 'SINGLE', selfEmploymentIncome: 80000 };
+
+describe('planEstimatedTax', () => {
+  it('should split 90% of the projected tax into four equal installments', () => {
+    const projectedTax = computeForm1040(FREELANCER, table).lines.totalTax;
+
+    const plan = planEstimatedTax({ taxReturn: FREELANCER }, table);
+
+    expect(plan.method).toBe('REGULAR');
+    expect(plan.projectedTax).toBe(projectedTax);
+    expect(plan.safeHarbor).toEqual({ currentYear: Math.round(projectedTax * 90) / 100, priorYear: null });
+    expect(plan.requiredAnnualPayment).toBe(plan.safeHarbor.currentYear);
+    expect(plan.paymentsRequired).toBe(true);
+    expect(plan.installments.map(({ deadlineId, dueDate }) => [deadlineId, dueDate])).toEqual([
+      ['ESTIMATED_Q1', '2024-04-15'],
+      ['ESTIMATED_Q2', '2024-06-17'],
+      ['ESTIMATED_Q3', '2024-09-16'],
+      ['ESTIMATED_Q4', '2025-01-15'],
+    ]);
+    // Los plazos se redondean sobre lo acumulado: el último recoge los céntimos sobrantes
+    expect(plan.requiredAnnualPayment).toBe(17546.98);
+    expect(plan.installments.map((installment) => installment.amount)).toEqual([4386.75, 4386.75, 4386.75, 4386.74]);
+  });
+
+  it('should use 110% of the prior-year tax when it is lower and the prior AGI exceeds $150,000', () => {
+    const plan = planEstimatedTax(
+      {
+        taxReturn: { ...FREELANCER, selfEmploymentIncome: 250000 },
+        priorYear: { totalTax: 40000, adjustedGrossIncome: 160000 },
+      },
+      table
+    );
+
+    expect(plan.safeHarbor.priorYear).toBe(44000);
+    expect(plan.requiredAnnualPayment).toBe(44000);
+    expect(plan.installments.every((installment) => installment.amount === 11000)).toBe(true);
+  });
+
+  it('should spread the withholding over the installments and credit the payments already made', () => {
+    const plan = planEstimatedTax(
+      {
+        taxReturn: { ...FREELANCER, federalWithholding: 4000 },
+        priorYear: { totalTax: 12000, adjustedGrossIncome: 90000 },
+        paymentsMade: [3000],
+      },
+      table
+    );
+
+    // 12.000 al año: 3.000 por plazo menos 1.000 de retención; el primer pago cubre también el segundo plazo
+    expect(plan.requiredAnnualPayment).toBe(12000);
+    expect(plan.installments.map((installment) => installment.amount)).toEqual([0, 1000, 2000, 2000]);
+  });
+
+  it('should not require payments when the balance after withholding is under $1,000', () => {
+    const plan = planEstimatedTax(
+      { taxReturn: { taxYear: 2024, filingStatus: 'SINGLE', wages: 60000, federalWithholding: 6500 } },
+      table
+    );
+
+    expect(plan.paymentsRequired).toBe(false);
+    expect(plan.installments.every((installment) => installment.amount === 0)).toBe(true);
+  });
+
+  it('should defer the installments when the income arrives late in the year with the annualized method', () => {
+    const period = (selfEmploymentIncome: number): PeriodIncome => ({ selfEmploymentIncome });
+    const regular = planEstimatedTax({ taxReturn: FREELANCER }, table);
+
+    const plan = planEstimatedTax(
+      { taxReturn: FREELANCER, periods: [period(0), period(5000), period(20000), period(80000)] },
+      table
+    );
+
+    expect(plan.method).toBe('ANNUALIZED');
+    expect(plan.installments[0].amount).toBe(0);
+    expect(plan.installments[1].amount).toBeLessThan(regular.installments[1].amount);
+    // Lo que no se exigió antes se recupera en el último plazo
+    const total = plan.installments.reduce((sum, installment) => sum + installment.amount, 0);
+    expect(total).toBeCloseTo(plan.requiredAnnualPayment, 2);
+    expect(plan.installments[3].amount).toBeGreaterThan(regular.installments[3].amount);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { computeForm1040 } from '../form-1040';
+import { computeSelfEmploymentTax } from '../self-employment-tax';
+import { getTaxYearTable } from '../tables';
+
+describe('computeForm1040', () => {
+  it('should use the Tax Table midpoint below 100,000 of taxable income', () => {
+    const result = computeForm1040({
+      taxYear: 2024,
+      filingStatus: 'SINGLE',
+      wages: 75000,
+      federalWithholding: 8000,
+    });
+
+    expect(result.lines.taxableIncome).toBe(60400);
+    // Fila 60.400-60.450: impuesto sobre 60.425
+    expect(result.lines.tax).toBe(8347);
+    expect(result.lines.amountOwed).toBe(347);
+    expect(result.marginalRate).toBe(0.22);
+    expect(result.effectiveRate).toBe(0.1113);
+  });
+
+  it('should use the exact brackets from 100,000 of taxable income', () => {
+    const result = computeForm1040({ taxYear: 2024, filingStatus: 'SINGLE', wages: 164600 });
+    expect(result.lines.taxableIncome).toBe(150000);
+    expect(result.lines.tax).toBe(29042.5);
+  });
+
+  it('should tax qualified dividends and long-term gains with the worksheet', () => {
+    const result = computeForm1040({
+      taxYear: 2024,
+      filingStatus: 'SINGLE',
+      wages: 40000,
+      ordinaryDividends: 5000,
+      qualifiedDividends: 5000,
+      longTermCapitalGains: 20000,
+    });
+
+    expect(result.lines.taxableIncome).toBe(50400);
+    // 21.625 al 0 %, 3.375 al 15 % y el impuesto ordinario sobre 25.400
+    expect(result.lines.tax).toBe(3325.25);
+    expect(result.marginalRate).toBe(0.12);
+  });
+
+  it('should limit a net capital loss to 3,000', () => {
+    const result = computeForm1040({
+      taxYear: 2023,
+      filingStatus: 'SINGLE',
+      wages: 50000,
+      shortTermCapitalGains: -10000,
+    });
+    expect(result.lines.capitalGainOrLoss).toBe(-3000);
+    expect(result.lines.adjustedGrossIncome).toBe(47000);
+  });
+
+  it('should add self-employment tax and deduct half of it', () => {
+    const result = computeForm1040({
+      taxYear: 2024,
+      filingStatus: 'SINGLE',
+      selfEmploymentIncome: 40000,
+    });
+
+    expect(result.selfEmploymentTax).toEqual({
+      netEarnings: 36940,
+      socialSecurityTax: 4580.56,
+      medicareTax: 1071.26,
+      total: 5651.82,
+      deductiblePart: 2825.91,
+    });
+    expect(result.lines.adjustedGrossIncome).toBe(37174.09);
+    expect(result.lines.tax).toBe(2477);
+    expect(result.lines.totalTax).toBe(8128.82);
+    expect(result.lines.earnedIncomeCredit).toBe(0);
+  });
+
+  it('should not charge Social Security tax above the wage base', () => {
+    const table = getTaxYearTable(2024);
+    const se = computeSelfEmploymentTax(20000, 170000, table);
+    expect(se.socialSecurityTax).toBe(0);
+    expect(se.medicareTax).toBe(535.63);
+  });
+
+  it('should split the child tax credit and add the EITC for a family', () => {
+    const result = computeForm1040({
+      taxYear: 2024,
+      filingStatus: 'MARRIED_FILING_JOINTLY',
+      wages: 60000,
+      qualifyingChildren: 2,
+      federalWithholding: 2000,
+    });
+
+    expect(result.lines.tax).toBe(3235);
+    expect(result.childTaxCredit).toEqual({
+      initialCredit: 4000,
+      phaseOutReduction: 0,
+      nonrefundable: 3235,
+      refundable: 765,
+    });
+    expect(result.lines.totalTax).toBe(0);
+    // 6.960 - (60.000 - 29.640) x 21,06 %
+    expect(result.lines.earnedIncomeCredit).toBe(566);
+    expect(result.lines.refund).toBe(3331);
+  });
+
+  it('should phase out the child tax credit and add Additional Medicare Tax', () => {
+    const result = computeForm1040({
+      taxYear: 2024,
+      filingStatus: 'MARRIED_FILING_JOINTLY',
+      wages: 430500,
+      qualifyingChildren: 2,
+    });
+
+    expect(result.childTaxCredit.phaseOutReduction).toBe(1550);
+    expect(result.lines.childTaxCredit).toBe(2450);
+    expect(result.additionalMedicareTax).toBe(1624.5);
+    expect(result.lines.earnedIncomeCredit).toBe(0);
+  });
+
+  it('should reject tax years without tables', () => {
+    expect(() => computeForm1040({ taxYear: 2019, filingStatus: 'SINGLE' })).toThrow(
+      expect.objectContaining({ code: 'UNSUPPORTED_TAX_YEAR' })
+    );
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import { ScheduleCInput } from '../../interfaces/schedule-c.types';
+import { computeForm1040 } from '../form-1040';
+import { computeQbiDeduction } from '../qbi';
+import { buildScheduleC, categorizeExpense, returnInputWithScheduleC } from '../schedule-c';
+import { getTaxYearTable } from '../tables';
+
+const table = getTaxYearTable(2024);
+
+const FREELANCER: ScheduleCInput = {
+  taxYear: 2024,
+  businessName: 'Doe Design',
+  grossReceipts: 90000,
+  expenses: [
+    { description: 'Adobe software subscription', amount: 600 },
+    { description: 'Client dinners', amount: 800 },
+    { description: 'Gas for car', amount: 1200 },
+    { description: 'Coworking membership', amount: 2400 },
+    { description: 'Stripe processing fees', amount: 350 },
+    { description: 'Professional liability insurance', amount: 500 },
+    { description: 'Conference registration', amount: 300 },
+  ],
+  vehicle: { businessMiles: 6000, totalMiles: 15000, actualExpenses: 7500, parkingAndTolls: 150 },
+  homeOffice: { method: 'SIMPLIFIED', officeSquareFeet: 250 },
+};
+
+describe('categorizeExpense', () => {
+  it('should map ledger accounts to Schedule C lines', () => {
+    expect(categorizeExpense('Car insurance')).toBe('CAR_AND_TRUCK');
+    expect(categorizeExpense('Tax preparation fee')).toBe('LEGAL_AND_PROFESSIONAL');
+    expect(categorizeExpense('City business license')).toBe('TAXES_AND_LICENSES');
+    expect(categorizeExpense('Camera equipment rental')).toBe('RENT_VEHICLES_EQUIPMENT');
+    expect(categorizeExpense('Miscellaneous')).toBe('OTHER_EXPENSES');
+  });
+});
+
+describe('buildScheduleC', () => {
+  it('should total the expense lines, the vehicle and the simplified home office', () => {
+    const scheduleC = buildScheduleC(FREELANCER, table);
+
+    expect(scheduleC.expenses).toMatchObject({
+      OFFICE_EXPENSE: 600,
+      MEALS: 400,
+      RENT_OTHER_PROPERTY: 2400,
+      COMMISSIONS_AND_FEES: 350,
+      INSURANCE: 500,
+      OTHER_EXPENSES: 300,
+      // 6.000 millas x 0,67 + 150 de aparcamiento, por encima del 40 % de los gastos reales
+      CAR_AND_TRUCK: 4170,
+    });
+    expect(scheduleC.vehicle).toEqual({
+      method: 'STANDARD_MILEAGE',
+      standardMileage: 4170,
+      actual: 3150,
+      deduction: 4170,
+    });
+    expect(scheduleC.totalExpenses).toBe(8720);
+    expect(scheduleC.tentativeProfit).toBe(81280);
+    expect(scheduleC.homeOffice).toMatchObject({ method: 'SIMPLIFIED', deduction: 1250, carryover: 0 });
+    expect(scheduleC.netProfit).toBe(80030);
+    expect(scheduleC.notes).toEqual([
+      { code: 'MEALS_LIMITED', amount: 400 },
+      { code: 'VEHICLE_EXPENSES_REPLACED', amount: 1200 },
+    ]);
+  });
+
+  it('should limit the regular home office to the business profit and carry the rest over', () => {
+    const scheduleC = buildScheduleC(
+      {
+        taxYear: 2024,
+        grossReceipts: 1500,
+        expenses: [],
+        homeOffice: {
+          method: 'REGULAR',
+          officeSquareFeet: 200,
+          homeSquareFeet: 2000,
+          homeExpenses: {
+            mortgageInterest: 12000,
+            realEstateTaxes: 4000,
+            utilities: 3600,
+            insurance: 1200,
+            depreciation: 8000,
+          },
+        },
+      },
+      table
+    );
+
+    // Intereses e impuestos (10 %) siempre; funcionamiento y amortización no caben en el beneficio
+    expect(scheduleC.homeOffice).toEqual({
+      method: 'REGULAR',
+      businessPercentage: 0.1,
+      deduction: 1600,
+      carryover: 1280,
+    });
+    expect(scheduleC.netProfit).toBe(-100);
+    expect(scheduleC.notes).toEqual([
+      { code: 'HOME_OFFICE_LIMITED', amount: 1280 },
+      { code: 'NET_LOSS', amount: -100 },
+    ]);
+  });
+
+  it('should reject the regular method without the home square footage', () => {
+    expect(() =>
+      buildScheduleC({ ...FREELANCER, homeOffice: { method: 'REGULAR', officeSquareFeet: 250 } }, table)
+    ).toThrow(expect.objectContaining({ code: 'INVALID_SCHEDULE_C', status: 400 }));
+  });
+});
+
+describe('computeQbiDeduction', () => {
+  it('should allow 20% of QBI below the threshold', () => {
+    const qbi = computeQbiDeduction(
+      { qualifiedBusinessIncome: 50000, taxableIncome: 60000, netCapitalGain: 0, filingStatus: 'SINGLE' },
+      table
+    );
+    expect(qbi).toEqual({ qualifiedBusinessIncome: 50000, component: 10000, incomeLimit: 12000, deduction: 10000 });
+  });
+
+  it('should phase out a specified service business inside the phase-in range', () => {
+    const qbi = computeQbiDeduction(
+      {
+        qualifiedBusinessIncome: 100000,
+        taxableIncome: 216950,
+        netCapitalGain: 0,
+        filingStatus: 'SINGLE',
+        business: { specifiedService: true },
+      },
+      table
+    );
+    // A mitad del tramo: cuenta la mitad de la QBI y se pierde la mitad del exceso sobre el límite salarial
+    expect(qbi.component).toBe(5000);
+    expect(qbi.deduction).toBe(5000);
+  });
+
+  it('should apply the W-2 wage limit above the phase-in range', () => {
+    const qbi = computeQbiDeduction(
+      {
+        qualifiedBusinessIncome: 200000,
+        taxableIncome: 300000,
+        netCapitalGain: 20000,
+        filingStatus: 'SINGLE',
+        business: { w2Wages: 30000 },
+      },
+      table
+    );
+    expect(qbi.component).toBe(15000);
+    expect(qbi.incomeLimit).toBe(56000);
+    expect(qbi.deduction).toBe(15000);
+  });
+});
+
+describe('returnInputWithScheduleC', () => {
+  it('should replace self-employment income with the net profit and add the QBI deduction', () => {
+    const scheduleC = buildScheduleC(FREELANCER, table);
+    const input = returnInputWithScheduleC(
+      { taxYear: 2024, filingStatus: 'SINGLE', selfEmploymentIncome: 90000 },
+      scheduleC,
+      table
+    );
+    const computation = computeForm1040(input, table);
+
+    expect(input.selfEmploymentIncome).toBe(80030);
+    // El 20 % de la QBI (beneficio menos la mitad del SE tax) supera el 20 % de la renta imponible
+    expect(input.qbiDeduction).toBe(11955.21);
+    expect(computation.lines.qbiDeduction).toBe(11955.21);
+    expect(computation.lines.taxableIncome).toBe(47820.85);
+    expect(computation.selfEmploymentTax.total).toBe(11307.88);
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest';
+import { ProcessedDocument } from '@/core-hub/chat/interfaces/financial-profile.types';
+import { applyTaxDeltas, describeTaxDelta } from '../what-if';
+import { computeForm1040 } from '../form-1040';
+import { taxReturnInputFromIncomeRecords } from '../return-input';
+import { incomeRecordsFromDocuments } from '../../extraction/income-records';
+import { IncomeRecord } from '../../interfaces/tax-extraction.types';
+
+const field = (value: number, line: string) => ({ value, line, confidence: 0.9 });
+
+describe('applyTaxDeltas', () => {
+  it('should move 401(k) deferrals out of box 1 but keep payroll wages', () => {
+    const { input, notes } = applyTaxDeltas(
+      { taxYear: 2024, filingStatus: 'SINGLE', wages: 60000, electiveDeferrals: 20000 },
+      [{ type: 'RETIREMENT_CONTRIBUTION', account: '401K', amount: 5000 }]
+    );
+
+    // Solo quedan 3.000 hasta el límite de 23.000
+    expect(input).toMatchObject({
+      wages: 57000,
+      electiveDeferrals: 23000,
+      socialSecurityWages: 80000,
+      medicareWages: 80000,
+    });
+    expect(notes).toEqual([{ code: 'CONTRIBUTION_LIMITED', amount: 3000 }]);
+  });
+
+  it('should apply filing status, spouse wages, stock sales and children in order', () => {
+    const { input, notes } = applyTaxDeltas(
+      { taxYear: 2024, filingStatus: 'SINGLE', wages: 50000 },
+      [
+        { type: 'FILING_STATUS', filingStatus: 'MARRIED_FILING_JOINTLY', spouseWages: 30000 },
+        { type: 'SELL_STOCK', proceeds: 10000 },
+        { type: 'SELL_STOCK', proceeds: 4000, costBasis: 5000, longTerm: false },
+        { type: 'DEPENDENTS', qualifyingChildren: 1 },
+        { type: 'RETIREMENT_CONTRIBUTION', account: 'IRA', amount: 6000 },
+      ]
+    );
+
+    expect(input).toMatchObject({
+      filingStatus: 'MARRIED_FILING_JOINTLY',
+      wages: 80000,
+      longTermCapitalGains: 10000,
+      shortTermCapitalGains: -1000,
+      qualifyingChildren: 1,
+      adjustments: { iraDeduction: 6000 },
+    });
+    expect(notes).toEqual([{ code: 'NO_COST_BASIS' }]);
+  });
+
+  it('should leave the return unchanged for Roth contributions', () => {
+    const base = { taxYear: 2024, filingStatus: 'SINGLE' as const, wages: 60000 };
+    const { input, notes } = applyTaxDeltas(base, [
+      { type: 'RETIREMENT_CONTRIBUTION', account: 'IRA', amount: 6000, roth: true },
+      { type: 'RETIREMENT_CONTRIBUTION', account: '401K', amount: 5000, roth: true },
+    ]);
+
+    expect(input).toEqual(base);
+    expect(notes).toEqual([{ code: 'ROTH_NOT_DEDUCTIBLE' }, { code: 'ROTH_NOT_DEDUCTIBLE' }]);
+  });
+});
+
+describe('describeTaxDelta', () => {
+  it('should describe changes in the requested language', () => {
+    const roth = { type: 'RETIREMENT_CONTRIBUTION', account: 'IRA', amount: 6000, roth: true } as const;
+
+    expect(describeTaxDelta(roth)).toBe('Contribute $6,000 to a Roth IRA');
+    expect(describeTaxDelta(roth, 'es')).toBe('Aportar $6,000 a una Roth IRA');
+    expect(describeTaxDelta({ type: 'INCOME', source: 'SELF_EMPLOYMENT', amount: 20000 }, 'en')).toBe(
+      'Earn $20,000 more from self-employment'
+    );
+  });
+});
+
+describe('applyTaxDeltas with a spouse', () => {
+  it('should keep the spouse wages out of the taxpayer Social Security wage base', () => {
+    const taxReturn = { taxYear: 2024, filingStatus: 'SINGLE' as const, wages: 150000, selfEmploymentIncome: 40000 };
+    const { input } = applyTaxDeltas(taxReturn, [
+      { type: 'FILING_STATUS', filingStatus: 'MARRIED_FILING_JOINTLY', spouseWages: 100000 },
+    ]);
+
+    expect(input).toMatchObject({ wages: 250000, socialSecurityWages: 150000, medicareWages: 250000 });
+    // El autónomo sigue cotizando a Social Security hasta la base máxima
+    const single = computeForm1040(taxReturn);
+    const joint = computeForm1040(input);
+    expect(joint.selfEmploymentTax.socialSecurityTax).toBe(single.selfEmploymentTax.socialSecurityTax);
+    expect(joint.selfEmploymentTax.socialSecurityTax).toBeGreaterThan(0);
+  });
+});
+
+describe('incomeRecordsFromDocuments', () => {
+  const base = { userId: 'user-1', fileName: 'doc.pdf', processedAt: 0 };
+
+  it('should build the return of the latest tax year from the profile documents', () => {
+    const documents: ProcessedDocument[] = [
+      {
+        ...base,
+        id: 'w2',
+        documentType: 'W2',
+        taxYear: 2024,
+        fields: {
+          wages: field(70000, 'W-2 box 1'),
+          federalWithholding: field(7000, 'W-2 box 2'),
+          socialSecurityWages: field(76000, 'W-2 box 3'),
+        },
+      },
+      {
+        ...base,
+        id: 'div',
+        documentType: '1099',
+        variant: 'DIV',
+        taxYear: 2024,
+        fields: {
+          ordinaryDividends: field(1200, '1099-DIV box 1a'),
+          qualifiedDividends: field(900, '1099-DIV box 1b'),
+        },
+      },
+      {
+        ...base,
+        id: 'old',
+        documentType: '1099',
+        variant: 'NEC',
+        taxYear: 2023,
+        fields: { nonemployeeCompensation: field(9000, '1099-NEC box 1') },
+      },
+    ];
+
+    const records = incomeRecordsFromDocuments(documents);
+    expect(records.find((record) => record.category === 'SOCIAL_SECURITY_WAGES')).toMatchObject({
+      id: 'w2:3',
+      form: 'W-2',
+      box: '3',
+      amount: 76000,
+    });
+    expect(taxReturnInputFromIncomeRecords(records, { filingStatus: 'MARRIED_JOINT', dependents: 2 })).toEqual({
+      taxYear: 2024,
+      filingStatus: 'MARRIED_FILING_JOINTLY',
+      qualifyingChildren: 2,
+      wages: 70000,
+      federalWithholding: 7000,
+      ordinaryDividends: 1200,
+      qualifiedDividends: 900,
+      socialSecurityWages: 76000,
+    });
+  });
+
+  it('should return null without income documents', () => {
+    expect(taxReturnInputFromIncomeRecords(incomeRecordsFromDocuments([]))).toBeNull();
+  });
+});
+
+describe('taxReturnInputFromIncomeRecords', () => {
+  const record = (category: IncomeRecord['category'], amount: number, taxYear = 2024): IncomeRecord => ({
+    id: `${category}:${taxYear}`,
+    category,
+    amount,
+    taxYear,
+    form: '1099',
+    box: '1',
+    confidence: 1,
+  });
+
+  it('should add up the records of the latest year by return line', () => {
+    const records = [
+      record('WAGES', 50000),
+      record('FEDERAL_WITHHOLDING', 5000),
+      record('FEDERAL_WITHHOLDING', 41),
+      record('ORDINARY_DIVIDENDS', 1250),
+      record('QUALIFIED_DIVIDENDS', 980),
+      record('CAPITAL_GAIN_DISTRIBUTIONS', 300),
+      record('LONG_TERM_CAPITAL_GAIN', 1200),
+      record('SHORT_TERM_CAPITAL_GAIN', -400),
+      record('UNEMPLOYMENT_COMPENSATION', 3000),
+      record('TAX_EXEMPT_INTEREST', 75),
+      record('PAYMENT_CARD_RECEIPTS', 9000),
+      record('WAGES', 45000, 2023),
+    ];
+
+    expect(taxReturnInputFromIncomeRecords(records, { filingStatus: 'SINGLE' })).toEqual({
+      taxYear: 2024,
+      filingStatus: 'SINGLE',
+      qualifyingChildren: 0,
+      wages: 50000,
+      federalWithholding: 5041,
+      ordinaryDividends: 1250,
+      qualifiedDividends: 980,
+      longTermCapitalGains: 1500,
+      shortTermCapitalGains: -400,
+      otherIncome: 3000,
+    });
+    expect(taxReturnInputFromIncomeRecords(records, {}, 2023)).toMatchObject({ taxYear: 2023, wages: 45000 });
+    expect(taxReturnInputFromIncomeRecords(records, {}, 2022)).toBeNull();
+  });
+});
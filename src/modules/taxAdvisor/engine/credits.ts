@@ -0,0 +1,84 @@
+import { ChildTaxCredit, FilingStatus, TaxYearTable } from '../interfaces/tax-engine.types';
+import { roundCents } from './tax-computation';
+
+const PHASE_OUT_STEP = 1000;
+const PHASE_OUT_PER_STEP = 50;
+const REFUNDABLE_EARNED_INCOME_RATE = 0.15;
+
+/**
+ * Schedule 8812: crédito por hijos y por otros dependientes. La parte no
+ * reembolsable se limita al impuesto; el resto de la parte de hijos puede
+ * devolverse como ACTC. No contempla el cálculo alternativo con cotizaciones
+ * a Social Security para familias con tres o más hijos.
+ */
+export function computeChildTaxCredit(
+  qualifyingChildren: number,
+  otherDependents: number,
+  adjustedGrossIncome: number,
+  taxLiability: number,
+  earnedIncome: number,
+  filingStatus: FilingStatus,
+  table: TaxYearTable
+): ChildTaxCredit {
+  const { perChild, refundablePerChild, otherDependent, phaseOutStart, refundableEarnedIncomeThreshold } =
+    table.childTaxCredit;
+  const initialCredit = qualifyingChildren * perChild + otherDependents * otherDependent;
+  const excess = adjustedGrossIncome - phaseOutStart[filingStatus];
+  // 50 $ por cada 1.000 $ (o fracción) por encima del umbral
+  const phaseOutReduction =
+    excess > 0 ? Math.ceil(excess / PHASE_OUT_STEP) * PHASE_OUT_PER_STEP : 0;
+  const credit = Math.max(0, initialCredit - phaseOutReduction);
+
+  const nonrefundable = roundCents(Math.min(credit, Math.max(0, taxLiability)));
+  const refundable =
+    qualifyingChildren > 0
+      ? roundCents(
+          Math.min(
+            credit - nonrefundable,
+            qualifyingChildren * refundablePerChild,
+            Math.max(0, earnedIncome - refundableEarnedIncomeThreshold) * REFUNDABLE_EARNED_INCOME_RATE
+          )
+        )
+      : 0;
+
+  return { initialCredit, phaseOutReduction, nonrefundable, refundable };
+}
+
+/**
+ * EITC con las fórmulas de la sección 32 redondeadas al dólar; la tabla del
+ * IRS trabaja por tramos de 50 $ y puede diferir en unos pocos dólares. Se
+ * asume que se cumplen los requisitos de edad y residencia.
+ */
+export function computeEarnedIncomeCredit(
+  earnedIncome: number,
+  adjustedGrossIncome: number,
+  investmentIncome: number,
+  qualifyingChildren: number,
+  filingStatus: FilingStatus,
+  table: TaxYearTable
+): number {
+  if (
+    filingStatus === 'MARRIED_FILING_SEPARATELY' ||
+    earnedIncome <= 0 ||
+    investmentIncome > table.eitc.investmentIncomeLimit
+  ) {
+    return 0;
+  }
+
+  const params = table.eitc.byChildren[Math.min(3, Math.max(0, qualifyingChildren))];
+  const phaseOutStart =
+    filingStatus === 'MARRIED_FILING_JOINTLY' ? params.phaseOutStartJoint : params.phaseOutStart;
+  const creditFor = (income: number) =>
+    Math.max(
+      0,
+      Math.min(income * params.creditRate, params.maxCredit) -
+        Math.max(0, income - phaseOutStart) * params.phaseOutRate
+    );
+
+  // Si la AGI supera el inicio de la reducción, se aplica el menor de los dos cálculos
+  const credit =
+    adjustedGrossIncome >= phaseOutStart
+      ? Math.min(creditFor(earnedIncome), creditFor(adjustedGrossIncome))
+      : creditFor(earnedIncome);
+  return Math.round(credit);
+}
@@ -0,0 +1,132 @@
+import {
+  EstimatedInstallment,
+  EstimatedTaxInput,
+  EstimatedTaxPlan,
+  PeriodIncome,
+  TaxComputation,
+  TaxReturnInput,
+  TaxYearTable,
+} from '../interfaces/tax-engine.types';
+import { taxRules } from '../rules/tax-rules.service';
+import { getTaxYearTable } from './tables';
+import { computeForm1040 } from './form-1040';
+import { roundCents } from './tax-computation';
+
+// Sección 6654: 90 % del impuesto del año o 100 % del anterior (110 % con AGI alta)
+const CURRENT_YEAR_RATE = 0.9;
+const PRIOR_YEAR_RATE = 1;
+const HIGH_INCOME_PRIOR_YEAR_RATE = 1.1;
+const HIGH_INCOME_AGI = 150000;
+const HIGH_INCOME_AGI_SEPARATE = 75000;
+// Por debajo de este saldo tras la retención no hay pagos estimados obligatorios
+const MINIMUM_BALANCE_DUE = 1000;
+
+const INSTALLMENT_DEADLINES = ['ESTIMATED_Q1', 'ESTIMATED_Q2', 'ESTIMATED_Q3', 'ESTIMATED_Q4'];
+// Form 2210, Schedule AI: factores de anualización y porcentaje exigido acumulado de cada periodo
+const ANNUALIZATION_FACTORS = [4, 2.4, 1.5, 1];
+const APPLICABLE_PERCENTAGES = [0.225, 0.45, 0.675, 0.9];
+
+const amount = (value?: number) => (Number.isFinite(value) ? (value as number) : 0);
+
+// Los créditos reembolsables cuentan como pagos en el 1040-ES
+function netTax({ lines }: TaxComputation): number {
+  return Math.max(0, lines.totalTax - lines.earnedIncomeCredit - lines.additionalChildTaxCredit);
+}
+
+// Sin tocar los importes que faltan: los salarios de Social Security y Medicare tienen valor por defecto
+function annualize({ adjustments, ...income }: PeriodIncome, factor: number): PeriodIncome {
+  const scale = <T extends object>(values: T) =>
+    Object.fromEntries(
+      Object.entries(values)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => [key, value * factor])
+    ) as T;
+  return { ...scale(income), adjustments: adjustments && scale(adjustments) };
+}
+
+// Impuesto anualizado de cada periodo con los datos personales de la declaración del año
+function annualizedInstallments(
+  taxReturn: TaxReturnInput,
+  periods: PeriodIncome[],
+  table: TaxYearTable
+): number[] {
+  return periods.map((period, index) => {
+    const input: TaxReturnInput = {
+      taxYear: taxReturn.taxYear,
+      filingStatus: taxReturn.filingStatus,
+      additionalDeductionCount: taxReturn.additionalDeductionCount,
+      qualifyingChildren: taxReturn.qualifyingChildren,
+      eitcQualifyingChildren: taxReturn.eitcQualifyingChildren,
+      otherDependents: taxReturn.otherDependents,
+      coveredByWorkplacePlan: taxReturn.coveredByWorkplacePlan,
+      ...annualize(period, ANNUALIZATION_FACTORS[index]),
+    };
+    return roundCents(netTax(computeForm1040(input, table)) * APPLICABLE_PERCENTAGES[index]);
+  });
+}
+
+/**
+ * Pagos estimados del año (Form 1040-ES). El pago anual exigido es el menor
+ * de los dos safe harbors; con el método regular se reparte en cuatro
+ * cuartos y, con periodos, cada plazo es el menor entre el impuesto
+ * anualizado pendiente y el cuarto regular más lo que no se exigió antes
+ * (Schedule AI, líneas 24 a 27). La retención cuenta repartida a partes
+ * iguales y lo pagado de más en un plazo se aplica a los siguientes.
+ */
+export function planEstimatedTax(
+  { taxReturn, priorYear, periods, paymentsMade = [] }: EstimatedTaxInput,
+  table: TaxYearTable = getTaxYearTable(taxReturn.taxYear)
+): EstimatedTaxPlan {
+  const projectedTax = roundCents(netTax(computeForm1040(taxReturn, table)));
+  const withholding = amount(taxReturn.federalWithholding);
+
+  const currentYear = roundCents(projectedTax * CURRENT_YEAR_RATE);
+  const highIncomeAgi =
+    taxReturn.filingStatus === 'MARRIED_FILING_SEPARATELY' ? HIGH_INCOME_AGI_SEPARATE : HIGH_INCOME_AGI;
+  const priorYearRate =
+    priorYear && priorYear.adjustedGrossIncome > highIncomeAgi ? HIGH_INCOME_PRIOR_YEAR_RATE : PRIOR_YEAR_RATE;
+  const priorYearSafeHarbor = priorYear ? roundCents(priorYear.totalTax * priorYearRate) : null;
+  const requiredAnnualPayment =
+    priorYearSafeHarbor === null ? currentYear : Math.min(currentYear, priorYearSafeHarbor);
+
+  const regularInstallment = requiredAnnualPayment / 4;
+  const annualized = periods ? annualizedInstallments(taxReturn, periods, table) : null;
+  let required = 0;
+  let unrequired = 0;
+  let paid = 0;
+
+  const installments = INSTALLMENT_DEADLINES.map((deadlineId, index): EstimatedInstallment => {
+    let requiredInstallment = regularInstallment;
+    if (annualized) {
+      const regular = regularInstallment + unrequired;
+      requiredInstallment = Math.min(Math.max(0, annualized[index] - required), regular);
+      unrequired = regular - requiredInstallment;
+    }
+    required += requiredInstallment;
+
+    // Lo exigido hasta este plazo menos la retención imputada y lo ya ingresado
+    const due = Math.max(0, required - (withholding * (index + 1)) / 4 - paid - amount(paymentsMade[index]));
+    paid += due + amount(paymentsMade[index]);
+    return {
+      quarter: (index + 1) as EstimatedInstallment['quarter'],
+      deadlineId,
+      dueDate: taxRules.getDeadline(deadlineId, taxReturn.taxYear).date,
+      requiredInstallment: roundCents(requiredInstallment),
+      amount: roundCents(due),
+    };
+  });
+
+  const paymentsRequired = projectedTax - withholding >= MINIMUM_BALANCE_DUE && requiredAnnualPayment > withholding;
+  return {
+    taxYear: taxReturn.taxYear,
+    method: annualized ? 'ANNUALIZED' : 'REGULAR',
+    projectedTax,
+    withholding,
+    safeHarbor: { currentYear, priorYear: priorYearSafeHarbor },
+    requiredAnnualPayment,
+    paymentsRequired,
+    installments: paymentsRequired
+      ? installments
+      : installments.map((installment) => ({ ...installment, amount: 0 })),
+  };
+}
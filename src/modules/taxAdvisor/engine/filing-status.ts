@@ -0,0 +1,17 @@
+import { FilingStatus } from '../interfaces/tax-engine.types';
+
+// Valores del motor y de filingStatus de la herramienta tax_update_profile
+const FILING_STATUS_ALIASES: Record<string, FilingStatus> = {
+  SINGLE: 'SINGLE',
+  MARRIED_FILING_JOINTLY: 'MARRIED_FILING_JOINTLY',
+  MARRIED_FILING_SEPARATELY: 'MARRIED_FILING_SEPARATELY',
+  HEAD_OF_HOUSEHOLD: 'HEAD_OF_HOUSEHOLD',
+  QUALIFYING_SURVIVING_SPOUSE: 'QUALIFYING_SURVIVING_SPOUSE',
+  MARRIED_JOINT: 'MARRIED_FILING_JOINTLY',
+  MARRIED_SEPARATE: 'MARRIED_FILING_SEPARATELY',
+  QUALIFYING_SURVIVOR: 'QUALIFYING_SURVIVING_SPOUSE',
+};
+
+export function toFilingStatus(value: unknown): FilingStatus | undefined {
+  return typeof value === 'string' ? FILING_STATUS_ALIASES[value.trim().toUpperCase()] : undefined;
+}
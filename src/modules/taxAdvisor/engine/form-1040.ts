@@ -0,0 +1,170 @@
+import {
+  FilingStatus,
+  TaxComputation,
+  TaxReturnInput,
+  TaxYearTable,
+} from '../interfaces/tax-engine.types';
+import { getTaxYearTable } from './tables';
+import { computeChildTaxCredit, computeEarnedIncomeCredit } from './credits';
+import { computeAdditionalMedicareTax, computeSelfEmploymentTax } from './self-employment-tax';
+import {
+  marginalRate,
+  ordinaryIncomeTax,
+  qualifiedDividendsAndCapitalGainTax,
+  roundCents,
+} from './tax-computation';
+
+const MARRIED_STATUSES: FilingStatus[] = [
+  'MARRIED_FILING_JOINTLY',
+  'MARRIED_FILING_SEPARATELY',
+  'QUALIFYING_SURVIVING_SPOUSE',
+];
+
+const amount = (value?: number) => (Number.isFinite(value) ? (value as number) : 0);
+
+function standardDeduction(input: TaxReturnInput, table: TaxYearTable): number {
+  const additional = MARRIED_STATUSES.includes(input.filingStatus)
+    ? table.additionalStandardDeduction.married
+    : table.additionalStandardDeduction.unmarried;
+  return table.standardDeduction[input.filingStatus] + amount(input.additionalDeductionCount) * additional;
+}
+
+/**
+ * Calcula el Form 1040 de forma determinista con las cifras del año fiscal:
+ * renta total, AGI, deducción, impuesto (Tax Table o worksheet de ganancias),
+ * créditos por hijos y EITC, Schedule SE y Additional Medicare Tax. No cubre
+ * AMT, NIIT ni créditos del Schedule 3.
+ */
+export function computeForm1040(
+  input: TaxReturnInput,
+  table: TaxYearTable = getTaxYearTable(input.taxYear)
+): TaxComputation {
+  const { filingStatus } = input;
+  const wages = amount(input.wages);
+  const deferrals = amount(input.electiveDeferrals);
+  const socialSecurityWages = input.socialSecurityWages ?? wages + deferrals;
+  const medicareWages = input.medicareWages ?? wages + deferrals;
+  const selfEmploymentIncome = amount(input.selfEmploymentIncome);
+
+  // Línea 7: las pérdidas netas solo se deducen hasta el límite anual
+  const capitalGains = amount(input.shortTermCapitalGains) + amount(input.longTermCapitalGains);
+  const lossLimit =
+    filingStatus === 'MARRIED_FILING_SEPARATELY'
+      ? table.capitalLossLimit.marriedFilingSeparately
+      : table.capitalLossLimit.standard;
+  const capitalGainOrLoss = Math.max(capitalGains, -lossLimit);
+  const netCapitalGain = Math.max(0, Math.min(amount(input.longTermCapitalGains), capitalGains));
+
+  const selfEmploymentTax = computeSelfEmploymentTax(selfEmploymentIncome, socialSecurityWages, table);
+  const additionalIncome = selfEmploymentIncome + amount(input.otherIncome);
+  const totalIncome = roundCents(
+    wages +
+      amount(input.taxableInterest) +
+      amount(input.ordinaryDividends) +
+      amount(input.taxableRetirementDistributions) +
+      capitalGainOrLoss +
+      additionalIncome
+  );
+
+  const adjustments = roundCents(
+    Object.values(input.adjustments ?? {}).reduce((sum, value) => sum + amount(value), 0) +
+      selfEmploymentTax.deductiblePart
+  );
+  const adjustedGrossIncome = roundCents(totalIncome - adjustments);
+
+  const standard = standardDeduction(input, table);
+  const itemized = amount(input.itemizedDeductions);
+  const deduction = Math.max(standard, itemized);
+  const qbiDeduction = amount(input.qbiDeduction);
+  const taxableIncome = roundCents(Math.max(0, adjustedGrossIncome - deduction - qbiDeduction));
+
+  const qualifiedDividends = Math.min(amount(input.qualifiedDividends), amount(input.ordinaryDividends));
+  const preferentialIncome = qualifiedDividends + netCapitalGain;
+  const tax =
+    preferentialIncome > 0
+      ? qualifiedDividendsAndCapitalGainTax(
+          taxableIncome,
+          qualifiedDividends,
+          netCapitalGain,
+          filingStatus,
+          table
+        )
+      : ordinaryIncomeTax(taxableIncome, table.brackets[filingStatus]);
+
+  const earnedIncome = roundCents(wages + selfEmploymentIncome - selfEmploymentTax.deductiblePart);
+  const childTaxCredit = computeChildTaxCredit(
+    amount(input.qualifyingChildren),
+    amount(input.otherDependents),
+    adjustedGrossIncome,
+    tax,
+    earnedIncome,
+    filingStatus,
+    table
+  );
+  const taxAfterCredits = roundCents(Math.max(0, tax - childTaxCredit.nonrefundable));
+
+  const additionalMedicareTax = computeAdditionalMedicareTax(
+    medicareWages,
+    selfEmploymentTax.netEarnings,
+    filingStatus,
+    table
+  );
+  const otherTaxes = roundCents(selfEmploymentTax.total + additionalMedicareTax);
+  const totalTax = roundCents(taxAfterCredits + otherTaxes);
+
+  const earnedIncomeCredit = computeEarnedIncomeCredit(
+    earnedIncome,
+    adjustedGrossIncome,
+    amount(input.taxableInterest) + amount(input.ordinaryDividends) + Math.max(0, capitalGainOrLoss),
+    input.eitcQualifyingChildren ?? amount(input.qualifyingChildren),
+    filingStatus,
+    table
+  );
+  const federalWithholding = amount(input.federalWithholding);
+  const estimatedTaxPayments = amount(input.estimatedTaxPayments);
+  const totalPayments = roundCents(
+    federalWithholding + estimatedTaxPayments + earnedIncomeCredit + childTaxCredit.refundable
+  );
+
+  return {
+    taxYear: table.year,
+    filingStatus,
+    lines: {
+      wages,
+      taxableInterest: amount(input.taxableInterest),
+      qualifiedDividends,
+      ordinaryDividends: amount(input.ordinaryDividends),
+      taxableRetirementDistributions: amount(input.taxableRetirementDistributions),
+      capitalGainOrLoss,
+      additionalIncome,
+      totalIncome,
+      adjustments,
+      adjustedGrossIncome,
+      deduction,
+      qbiDeduction,
+      taxableIncome,
+      tax,
+      childTaxCredit: childTaxCredit.nonrefundable,
+      taxAfterCredits,
+      otherTaxes,
+      totalTax,
+      federalWithholding,
+      estimatedTaxPayments,
+      earnedIncomeCredit,
+      additionalChildTaxCredit: childTaxCredit.refundable,
+      totalPayments,
+      refund: roundCents(Math.max(0, totalPayments - totalTax)),
+      amountOwed: roundCents(Math.max(0, totalTax - totalPayments)),
+    },
+    deductionType: itemized > standard ? 'ITEMIZED' : 'STANDARD',
+    selfEmploymentTax,
+    additionalMedicareTax,
+    childTaxCredit,
+    earnedIncome,
+    marginalRate: marginalRate(
+      Math.max(0, taxableIncome - preferentialIncome),
+      table.brackets[filingStatus]
+    ),
+    effectiveRate: totalIncome > 0 ? Math.round((totalTax / totalIncome) * 10000) / 10000 : 0,
+  };
+}
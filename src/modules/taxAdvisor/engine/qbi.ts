@@ -0,0 +1,58 @@
+import { FilingStatus, TaxYearTable } from '../interfaces/tax-engine.types';
+import { QbiDeduction, QualifiedBusinessInfo } from '../interfaces/schedule-c.types';
+import { roundCents } from './tax-computation';
+
+const QBI_RATE = 0.2;
+const WAGE_LIMIT_RATE = 0.5;
+const WAGE_AND_PROPERTY_WAGE_RATE = 0.25;
+const WAGE_AND_PROPERTY_PROPERTY_RATE = 0.025;
+
+const amount = (value?: number) => (Number.isFinite(value) ? (value as number) : 0);
+
+export interface QbiParameters {
+  // Beneficio neto menos la mitad deducible del SE tax y las aportaciones de autónomo
+  qualifiedBusinessIncome: number;
+  // Renta imponible antes de la deducción QBI
+  taxableIncome: number;
+  // Dividendos cualificados más la ganancia neta a largo plazo
+  netCapitalGain: number;
+  filingStatus: FilingStatus;
+  business?: QualifiedBusinessInfo;
+}
+
+/**
+ * Deducción QBI de una actividad (Form 8995-A). Por debajo del umbral es el
+ * 20 % de la QBI; en el tramo de entrada se aplican de forma proporcional el
+ * límite por salarios W-2 y UBIA y, si es una SSTB, la reducción de la QBI.
+ * Una QBI negativa no genera deducción (el arrastre de pérdidas no se calcula).
+ */
+export function computeQbiDeduction(
+  { qualifiedBusinessIncome, taxableIncome, netCapitalGain, filingStatus, business = {} }: QbiParameters,
+  table: TaxYearTable
+): QbiDeduction {
+  const incomeLimit = roundCents(Math.max(0, taxableIncome - netCapitalGain) * QBI_RATE);
+  const threshold = table.qbi.threshold[filingStatus];
+  const range = table.qbi.phaseInRange[filingStatus];
+  const phaseIn = Math.min(1, Math.max(0, (taxableIncome - threshold) / range));
+
+  // Una SSTB solo cuenta por la parte que queda fuera del tramo de entrada
+  const applicable = business.specifiedService ? 1 - phaseIn : 1;
+  const qbi = Math.max(0, qualifiedBusinessIncome) * applicable;
+  const wages = amount(business.w2Wages) * applicable;
+  const property = amount(business.qualifiedProperty) * applicable;
+
+  const tentative = qbi * QBI_RATE;
+  const wageLimit = Math.max(
+    wages * WAGE_LIMIT_RATE,
+    wages * WAGE_AND_PROPERTY_WAGE_RATE + property * WAGE_AND_PROPERTY_PROPERTY_RATE
+  );
+  const reduction = Math.max(0, tentative - wageLimit) * phaseIn;
+  const component = roundCents(tentative - reduction);
+
+  return {
+    qualifiedBusinessIncome: roundCents(qualifiedBusinessIncome),
+    component,
+    incomeLimit,
+    deduction: Math.min(component, incomeLimit),
+  };
+}
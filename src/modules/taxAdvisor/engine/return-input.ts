@@ -0,0 +1,78 @@
+import { TaxReturnInput } from '../interfaces/tax-engine.types';
+import { IncomeCategory, IncomeRecord } from '../interfaces/tax-extraction.types';
+import { SUPPORTED_TAX_YEARS } from './tables';
+import { toFilingStatus } from './filing-status';
+
+export interface TaxProfileFields {
+  filingStatus?: unknown;
+  dependents?: unknown;
+}
+
+type IncomeRecordField =
+  | 'wages'
+  | 'socialSecurityWages'
+  | 'medicareWages'
+  | 'federalWithholding'
+  | 'selfEmploymentIncome'
+  | 'otherIncome'
+  | 'taxableInterest'
+  | 'ordinaryDividends'
+  | 'qualifiedDividends'
+  | 'shortTermCapitalGains'
+  | 'longTermCapitalGains'
+  | 'taxableRetirementDistributions';
+
+// Campo de la declaración de cada categoría. Los dividendos cualificados ya
+// están en los ordinarios, y el interés exento, el reembolso estatal (solo
+// tributa si se detalló el año anterior) y el bruto del 1099-K no entran.
+const INCOME_RECORD_FIELDS: Partial<Record<IncomeCategory, IncomeRecordField>> = {
+  WAGES: 'wages',
+  SOCIAL_SECURITY_WAGES: 'socialSecurityWages',
+  MEDICARE_WAGES: 'medicareWages',
+  SELF_EMPLOYMENT_INCOME: 'selfEmploymentIncome',
+  RENTS: 'otherIncome',
+  ROYALTIES: 'otherIncome',
+  OTHER_INCOME: 'otherIncome',
+  UNEMPLOYMENT_COMPENSATION: 'otherIncome',
+  INTEREST: 'taxableInterest',
+  ORDINARY_DIVIDENDS: 'ordinaryDividends',
+  QUALIFIED_DIVIDENDS: 'qualifiedDividends',
+  CAPITAL_GAIN_DISTRIBUTIONS: 'longTermCapitalGains',
+  SHORT_TERM_CAPITAL_GAIN: 'shortTermCapitalGains',
+  LONG_TERM_CAPITAL_GAIN: 'longTermCapitalGains',
+  RETIREMENT_DISTRIBUTION: 'taxableRetirementDistributions',
+  FEDERAL_WITHHOLDING: 'federalWithholding',
+};
+
+const profileFields = (taxProfile: TaxProfileFields) => ({
+  filingStatus: toFilingStatus(taxProfile.filingStatus) ?? 'SINGLE',
+  qualifyingChildren: typeof taxProfile.dependents === 'number' ? taxProfile.dependents : 0,
+});
+
+/**
+ * Declaración base a partir de los registros de ingresos normalizados de los
+ * W-2 y 1099 (ver extraction/income-records) del año indicado o del más
+ * reciente, y del perfil fiscal del usuario (estado civil y dependientes).
+ * Sin registros del año devuelve null. Sin estado civil se asume SINGLE.
+ */
+export function taxReturnInputFromIncomeRecords(
+  records: IncomeRecord[],
+  taxProfile: TaxProfileFields = {},
+  taxYear?: number
+): TaxReturnInput | null {
+  const latestYear = Math.max(0, ...records.map((record) => record.taxYear ?? 0));
+  const year = taxYear ?? (latestYear || Math.max(...SUPPORTED_TAX_YEARS));
+  const yearRecords = records.filter((record) => !record.taxYear || record.taxYear === year);
+  if (yearRecords.length === 0) {
+    return null;
+  }
+
+  const totals: Partial<Record<IncomeRecordField, number>> = {};
+  for (const { category, amount } of yearRecords) {
+    const field = INCOME_RECORD_FIELDS[category];
+    if (field) {
+      totals[field] = (totals[field] ?? 0) + amount;
+    }
+  }
+  return { ...totals, taxYear: year, ...profileFields(taxProfile) };
+}
@@ -0,0 +1,238 @@
+import { AppError } from '@/shared/utils/error-handler';
+import { TaxReturnInput, TaxYearTable } from '../interfaces/tax-engine.types';
+import {
+  HomeOfficeDeduction,
+  HomeOfficeInput,
+  SCHEDULE_C_EXPENSE_LINES,
+  ScheduleC,
+  ScheduleCExpenseLine,
+  ScheduleCInput,
+  ScheduleCNote,
+  VehicleDeduction,
+  VehicleInput,
+} from '../interfaces/schedule-c.types';
+import { getTaxYearTable } from './tables';
+import { computeForm1040 } from './form-1040';
+import { computeQbiDeduction } from './qbi';
+import { roundCents } from './tax-computation';
+
+const MEALS_DEDUCTIBLE_PART = 0.5;
+
+const amount = (value?: number) => (Number.isFinite(value) ? (value as number) : 0);
+
+// Por orden: la primera coincidencia decide ("car insurance" es del coche, no seguro)
+const EXPENSE_RULES: Array<[ScheduleCExpenseLine, RegExp]> = [
+  ['MEALS', /\b(meals?|restaurants?|dinners?|lunch(es)?|breakfasts?|catering)\b/],
+  ['TRAVEL', /\b(travel|flights?|airfare|hotels?|lodging|airbnb)\b/],
+  ['CAR_AND_TRUCK', /\b(car|truck|vehicle|auto|mileage|gas|gasoline|fuel|parking|tolls?)\b/],
+  ['LEGAL_AND_PROFESSIONAL', /\b(legal|lawyer|attorney|accountant|accounting|bookkeeping|cpa|tax prep(aration)?)\b/],
+  ['ADVERTISING', /\b(advertising|ads|marketing|promotion)\b/],
+  ['COMMISSIONS_AND_FEES', /\b(commissions?|fees?)\b/],
+  ['CONTRACT_LABOR', /\b(contractors?|subcontractors?|freelancers?|contract labor)\b/],
+  ['WAGES', /\b(wages?|salar(y|ies)|payroll)\b/],
+  ['EMPLOYEE_BENEFITS', /\b(employee benefits?|health plan)\b/],
+  ['PENSION_AND_PROFIT_SHARING', /\b(pension|profit[- ]sharing)\b/],
+  ['RENT_VEHICLES_EQUIPMENT', /\b(equipment|machinery) (rental|lease)\b/],
+  ['RENT_OTHER_PROPERTY', /\b(rent|rental|lease|coworking|co-working|office space|storage unit)\b/],
+  ['INSURANCE', /\binsurance\b/],
+  ['MORTGAGE_INTEREST', /\bmortgage\b/],
+  ['OTHER_INTEREST', /\binterest\b/],
+  ['REPAIRS_AND_MAINTENANCE', /\b(repairs?|maintenance)\b/],
+  ['DEPRECIATION', /\b(depreciation|section 179)\b/],
+  ['TAXES_AND_LICENSES', /\b(tax|taxes|licen[cs]es?|permits?)\b/],
+  ['UTILITIES', /\b(utilities|electric(ity)?|water|internet|phone|cell ?phone|telephone)\b/],
+  ['OFFICE_EXPENSE', /\b(office|postage|shipping|stationery|printer|software|subscriptions?)\b/],
+  ['SUPPLIES', /\b(supplies|materials|tools)\b/],
+];
+
+// Línea del Schedule C para un concepto del libro de gastos; sin coincidencia, otros gastos (27a)
+export function categorizeExpense(description: string): ScheduleCExpenseLine {
+  const text = description.toLowerCase();
+  return EXPENSE_RULES.find(([, pattern]) => pattern.test(text))?.[0] ?? 'OTHER_EXPENSES';
+}
+
+function invalidScheduleC(message: string): AppError {
+  return new AppError('INVALID_SCHEDULE_C', message, 400);
+}
+
+/**
+ * Vehículo: tarifa estándar por milla o gastos reales en proporción a las
+ * millas de negocio. Sin método se elige el que más deduce; el IRS solo deja
+ * usar la tarifa estándar si se eligió el primer año del vehículo.
+ */
+export function computeVehicleDeduction(vehicle: VehicleInput, table: TaxYearTable): VehicleDeduction {
+  const parkingAndTolls = amount(vehicle.parkingAndTolls);
+  const standardMileage = roundCents(vehicle.businessMiles * table.standardMileageRate + parkingAndTolls);
+  const totalMiles = amount(vehicle.totalMiles);
+  const actual =
+    vehicle.actualExpenses !== undefined && totalMiles > 0
+      ? roundCents(vehicle.actualExpenses * Math.min(1, vehicle.businessMiles / totalMiles) + parkingAndTolls)
+      : null;
+
+  const method = vehicle.method ?? (actual !== null && actual > standardMileage ? 'ACTUAL' : 'STANDARD_MILEAGE');
+  if (method === 'ACTUAL' && actual === null) {
+    throw invalidScheduleC('The actual expense method requires the actual expenses and total miles');
+  }
+  return { method, standardMileage, actual, deduction: method === 'ACTUAL' ? (actual as number) : standardMileage };
+}
+
+/**
+ * Oficina en casa (línea 30). El método simplificado no pasa del beneficio y
+ * no arrastra nada. El regular sigue el Form 8829: los intereses hipotecarios
+ * y los impuestos sobre la vivienda se deducen siempre; los gastos de
+ * funcionamiento y después la amortización, solo hasta el beneficio que
+ * queda, y el resto pasa al año siguiente.
+ */
+export function computeHomeOfficeDeduction(
+  homeOffice: HomeOfficeInput,
+  tentativeProfit: number,
+  table: TaxYearTable
+): HomeOfficeDeduction {
+  const homeSquareFeet = amount(homeOffice.homeSquareFeet);
+  if (homeSquareFeet > 0 && homeOffice.officeSquareFeet > homeSquareFeet) {
+    throw invalidScheduleC('The office cannot be larger than the home');
+  }
+  const businessPercentage = homeSquareFeet > 0 ? homeOffice.officeSquareFeet / homeSquareFeet : 0;
+  const profit = Math.max(0, tentativeProfit);
+
+  if (homeOffice.method === 'SIMPLIFIED') {
+    const { simplifiedRate, simplifiedLimit } = table.homeOffice;
+    const deduction = Math.min(homeOffice.officeSquareFeet * simplifiedRate, simplifiedLimit, profit);
+    return { method: 'SIMPLIFIED', businessPercentage, deduction: roundCents(deduction), carryover: 0 };
+  }
+
+  if (homeSquareFeet === 0) {
+    throw invalidScheduleC('The regular home office method requires the home square footage');
+  }
+  const home = homeOffice.homeExpenses ?? {};
+  const share = (value?: number) => amount(value) * businessPercentage;
+  const mortgageAndTaxes = share(home.mortgageInterest) + share(home.realEstateTaxes);
+  const operating =
+    share(home.insurance) +
+    share(home.utilities) +
+    share(home.repairs) +
+    share(home.rent) +
+    amount(homeOffice.directExpenses) +
+    amount(homeOffice.priorYearCarryover);
+  const depreciation = share(home.depreciation);
+
+  const operatingAllowed = Math.min(operating, Math.max(0, profit - mortgageAndTaxes));
+  const depreciationAllowed = Math.min(depreciation, Math.max(0, profit - mortgageAndTaxes - operatingAllowed));
+  return {
+    method: 'REGULAR',
+    businessPercentage,
+    deduction: roundCents(mortgageAndTaxes + operatingAllowed + depreciationAllowed),
+    carryover: roundCents(operating - operatingAllowed + depreciation - depreciationAllowed),
+  };
+}
+
+/**
+ * Schedule C de una actividad: ingresos (parte I), gastos por línea (parte
+ * II), oficina en casa y beneficio neto. Con datos del vehículo, la línea 9
+ * sale del calculador y los gastos de coche del libro se descartan para no
+ * deducirlos dos veces.
+ */
+export function buildScheduleC(
+  input: ScheduleCInput,
+  table: TaxYearTable = getTaxYearTable(input.taxYear)
+): ScheduleC {
+  const notes: ScheduleCNote[] = [];
+  const expenses = Object.fromEntries(SCHEDULE_C_EXPENSE_LINES.map((line) => [line, 0])) as ScheduleC['expenses'];
+  let replacedVehicleExpenses = 0;
+  let meals = 0;
+
+  for (const expense of input.expenses) {
+    const line = expense.line ?? categorizeExpense(expense.description);
+    if (line === 'CAR_AND_TRUCK' && input.vehicle) {
+      replacedVehicleExpenses += expense.amount;
+    } else if (line === 'MEALS') {
+      meals += expense.amount;
+    } else {
+      expenses[line] += expense.amount;
+    }
+  }
+
+  if (meals > 0) {
+    expenses.MEALS = meals * MEALS_DEDUCTIBLE_PART;
+    notes.push({ code: 'MEALS_LIMITED', amount: roundCents(expenses.MEALS) });
+  }
+  const vehicle = input.vehicle ? computeVehicleDeduction(input.vehicle, table) : undefined;
+  if (vehicle) {
+    expenses.CAR_AND_TRUCK = vehicle.deduction;
+    if (replacedVehicleExpenses > 0) {
+      notes.push({ code: 'VEHICLE_EXPENSES_REPLACED', amount: roundCents(replacedVehicleExpenses) });
+    }
+  }
+  for (const line of SCHEDULE_C_EXPENSE_LINES) {
+    expenses[line] = roundCents(expenses[line]);
+  }
+
+  const returnsAndAllowances = amount(input.returnsAndAllowances);
+  const costOfGoodsSold = amount(input.costOfGoodsSold);
+  const otherIncome = amount(input.otherIncome);
+  const grossProfit = roundCents(input.grossReceipts - returnsAndAllowances - costOfGoodsSold);
+  const grossIncome = roundCents(grossProfit + otherIncome);
+  const totalExpenses = roundCents(Object.values(expenses).reduce((sum, value) => sum + value, 0));
+  const tentativeProfit = roundCents(grossIncome - totalExpenses);
+
+  const homeOffice = input.homeOffice
+    ? computeHomeOfficeDeduction(input.homeOffice, tentativeProfit, table)
+    : undefined;
+  if (homeOffice?.carryover) {
+    notes.push({ code: 'HOME_OFFICE_LIMITED', amount: homeOffice.carryover });
+  }
+  const netProfit = roundCents(tentativeProfit - (homeOffice?.deduction ?? 0));
+  if (netProfit < 0) {
+    notes.push({ code: 'NET_LOSS', amount: netProfit });
+  }
+
+  return {
+    taxYear: input.taxYear,
+    businessName: input.businessName,
+    businessCode: input.businessCode,
+    grossReceipts: input.grossReceipts,
+    returnsAndAllowances,
+    costOfGoodsSold,
+    grossProfit,
+    otherIncome,
+    grossIncome,
+    expenses,
+    totalExpenses,
+    tentativeProfit,
+    homeOffice,
+    vehicle,
+    netProfit,
+    qualifiedBusiness: input.qualifiedBusiness,
+    notes,
+  };
+}
+
+/**
+ * Lleva el Schedule C a la declaración: el beneficio neto sustituye a
+ * selfEmploymentIncome y se calcula la deducción QBI con la renta imponible
+ * que resulta antes de ella (incluida la mitad deducible del SE tax).
+ */
+export function returnInputWithScheduleC(
+  input: TaxReturnInput,
+  scheduleC: ScheduleC,
+  table: TaxYearTable = getTaxYearTable(input.taxYear)
+): TaxReturnInput {
+  const withBusiness: TaxReturnInput = { ...input, selfEmploymentIncome: scheduleC.netProfit, qbiDeduction: 0 };
+  const { lines, selfEmploymentTax } = computeForm1040(withBusiness, table);
+
+  const capitalGains = amount(input.shortTermCapitalGains) + amount(input.longTermCapitalGains);
+  const netCapitalGain =
+    amount(input.qualifiedDividends) + Math.max(0, Math.min(amount(input.longTermCapitalGains), capitalGains));
+  const qbi = computeQbiDeduction(
+    {
+      qualifiedBusinessIncome:
+        scheduleC.netProfit - selfEmploymentTax.deductiblePart - amount(input.adjustments?.selfEmployedRetirement),
+      taxableIncome: lines.taxableIncome,
+      netCapitalGain,
+      filingStatus: input.filingStatus,
+      business: scheduleC.qualifiedBusiness,
+    },
+    table
+  );
+  return { ...withBusiness, qbiDeduction: qbi.deduction };
+}
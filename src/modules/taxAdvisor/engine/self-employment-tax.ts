@@ -0,0 +1,42 @@
+import { FilingStatus, SelfEmploymentTax, TaxYearTable } from '../interfaces/tax-engine.types';
+import { roundCents } from './tax-computation';
+
+const NET_EARNINGS_FACTOR = 0.9235;
+const SOCIAL_SECURITY_RATE = 0.124;
+const MEDICARE_RATE = 0.029;
+const ADDITIONAL_MEDICARE_RATE = 0.009;
+const MINIMUM_NET_EARNINGS = 400;
+
+// Schedule SE; socialSecurityWages (W-2 casilla 3) consume primero la base máxima de Social Security
+export function computeSelfEmploymentTax(
+  netProfit: number,
+  socialSecurityWages: number,
+  table: TaxYearTable
+): SelfEmploymentTax {
+  const netEarnings = roundCents(Math.max(0, netProfit) * NET_EARNINGS_FACTOR);
+  if (netEarnings < MINIMUM_NET_EARNINGS) {
+    return { netEarnings: 0, socialSecurityTax: 0, medicareTax: 0, total: 0, deductiblePart: 0 };
+  }
+
+  const remainingWageBase = Math.max(0, table.socialSecurityWageBase - socialSecurityWages);
+  const socialSecurityTax = roundCents(Math.min(netEarnings, remainingWageBase) * SOCIAL_SECURITY_RATE);
+  const medicareTax = roundCents(netEarnings * MEDICARE_RATE);
+  const total = roundCents(socialSecurityTax + medicareTax);
+  return { netEarnings, socialSecurityTax, medicareTax, total, deductiblePart: roundCents(total / 2) };
+}
+
+// Form 8959: salarios por encima del umbral y, con lo que quede de umbral, ingresos por cuenta propia
+export function computeAdditionalMedicareTax(
+  medicareWages: number,
+  selfEmploymentEarnings: number,
+  filingStatus: FilingStatus,
+  table: TaxYearTable
+): number {
+  const threshold = table.additionalMedicareThreshold[filingStatus];
+  const wagesOver = Math.max(0, medicareWages - threshold);
+  const selfEmploymentOver = Math.max(
+    0,
+    selfEmploymentEarnings - Math.max(0, threshold - medicareWages)
+  );
+  return roundCents((wagesOver + selfEmploymentOver) * ADDITIONAL_MEDICARE_RATE);
+}
@@ -0,0 +1,30 @@
+import { TaxYearTable } from '../../interfaces/tax-engine.types';
+import { brackets, byStatus, ruleParameters } from './helpers';
+
+// Rev. Proc. 2022-38
+export const TAX_YEAR_2023: TaxYearTable = {
+  year: 2023,
+  brackets: {
+    SINGLE: brackets([11000, 44725, 95375, 182100, 231250, 578125]),
+    MARRIED_FILING_JOINTLY: brackets([22000, 89450, 190750, 364200, 462500, 693750]),
+    MARRIED_FILING_SEPARATELY: brackets([11000, 44725, 95375, 182100, 231250, 346875]),
+    HEAD_OF_HOUSEHOLD: brackets([15700, 59850, 95350, 182100, 231250, 578100]),
+    QUALIFYING_SURVIVING_SPOUSE: brackets([22000, 89450, 190750, 364200, 462500, 693750]),
+  },
+  standardDeduction: byStatus(13850, 27700, 20800),
+  additionalStandardDeduction: { unmarried: 1850, married: 1500 },
+  capitalGains: {
+    zeroRateMax: byStatus(44625, 89250, 59750),
+    fifteenRateMax: byStatus(492300, 553850, 523050, 276900),
+  },
+  socialSecurityWageBase: 160200,
+  additionalMedicareThreshold: byStatus(200000, 250000, 200000, 125000, 200000),
+  // Notice 2023-03
+  standardMileageRate: 0.655,
+  qbi: {
+    threshold: byStatus(182100, 364200, 182100),
+    phaseInRange: byStatus(50000, 100000, 50000),
+  },
+  // Créditos, límites de aportación y de pérdidas: rules/data/2023.json
+  ...ruleParameters(2023),
+};
@@ -0,0 +1,30 @@
+import { TaxYearTable } from '../../interfaces/tax-engine.types';
+import { brackets, byStatus, ruleParameters } from './helpers';
+
+// Rev. Proc. 2023-34
+export const TAX_YEAR_2024: TaxYearTable = {
+  year: 2024,
+  brackets: {
+    SINGLE: brackets([11600, 47150, 100525, 191950, 243725, 609350]),
+    MARRIED_FILING_JOINTLY: brackets([23200, 94300, 201050, 383900, 487450, 731200]),
+    MARRIED_FILING_SEPARATELY: brackets([11600, 47150, 100525, 191950, 243725, 365600]),
+    HEAD_OF_HOUSEHOLD: brackets([16550, 63100, 100500, 191950, 243700, 609350]),
+    QUALIFYING_SURVIVING_SPOUSE: brackets([23200, 94300, 201050, 383900, 487450, 731200]),
+  },
+  standardDeduction: byStatus(14600, 29200, 21900),
+  additionalStandardDeduction: { unmarried: 1950, married: 1550 },
+  capitalGains: {
+    zeroRateMax: byStatus(47025, 94050, 63000),
+    fifteenRateMax: byStatus(518900, 583750, 551350, 291850),
+  },
+  socialSecurityWageBase: 168600,
+  additionalMedicareThreshold: byStatus(200000, 250000, 200000, 125000, 200000),
+  // Notice 2024-08
+  standardMileageRate: 0.67,
+  qbi: {
+    threshold: byStatus(191950, 383900, 191950),
+    phaseInRange: byStatus(50000, 100000, 50000),
+  },
+  // Créditos, límites de aportación y de pérdidas: rules/data/2024.json
+  ...ruleParameters(2024),
+};
@@ -0,0 +1,30 @@
+import { TaxYearTable } from '../../interfaces/tax-engine.types';
+import { brackets, byStatus, ruleParameters } from './helpers';
+
+// Rev. Proc. 2024-40, con la deducción estándar y el crédito por hijos de la Pub. L. 119-21
+export const TAX_YEAR_2025: TaxYearTable = {
+  year: 2025,
+  brackets: {
+    SINGLE: brackets([11925, 48475, 103350, 197300, 250525, 626350]),
+    MARRIED_FILING_JOINTLY: brackets([23850, 96950, 206700, 394600, 501050, 751600]),
+    MARRIED_FILING_SEPARATELY: brackets([11925, 48475, 103350, 197300, 250525, 375800]),
+    HEAD_OF_HOUSEHOLD: brackets([17000, 64850, 103350, 197300, 250500, 626350]),
+    QUALIFYING_SURVIVING_SPOUSE: brackets([23850, 96950, 206700, 394600, 501050, 751600]),
+  },
+  standardDeduction: byStatus(15750, 31500, 23625),
+  additionalStandardDeduction: { unmarried: 2000, married: 1600 },
+  capitalGains: {
+    zeroRateMax: byStatus(48350, 96700, 64750),
+    fifteenRateMax: byStatus(533400, 600050, 566700, 300000),
+  },
+  socialSecurityWageBase: 176100,
+  additionalMedicareThreshold: byStatus(200000, 250000, 200000, 125000, 200000),
+  // Notice 2025-5
+  standardMileageRate: 0.7,
+  qbi: {
+    threshold: byStatus(197300, 394600, 197300),
+    phaseInRange: byStatus(50000, 100000, 50000),
+  },
+  // Créditos, límites de aportación y de pérdidas: rules/data/2025.json
+  ...ruleParameters(2025),
+};
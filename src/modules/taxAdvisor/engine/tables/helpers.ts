@@ -0,0 +1,54 @@
+import { ByFilingStatus, FilingStatus, TaxBracket, TaxYearTable } from '../../interfaces/tax-engine.types';
+import { taxRules } from '../../rules/tax-rules.service';
+
+const ORDINARY_RATES = [0.1, 0.12, 0.22, 0.24, 0.32, 0.35, 0.37];
+// Rev. Proc. 2013-13: 5 $ por pie cuadrado, hasta 300
+const HOME_OFFICE_SIMPLIFIED_RATE = 5;
+
+// Límites superiores de los seis primeros tramos -> tarifa completa
+export function brackets(limits: number[]): TaxBracket[] {
+  return ORDINARY_RATES.map((rate, index) => ({ rate, upTo: limits[index] ?? null }));
+}
+
+// Casado por separado igual que soltero y viudo igual que conjunta, salvo que se indique
+export function byStatus(
+  single: number,
+  joint: number,
+  head: number,
+  separate: number = single,
+  survivingSpouse: number = joint
+): ByFilingStatus<number> {
+  return {
+    SINGLE: single,
+    MARRIED_FILING_JOINTLY: joint,
+    MARRIED_FILING_SEPARATELY: separate,
+    HEAD_OF_HOUSEHOLD: head,
+    QUALIFYING_SURVIVING_SPOUSE: survivingSpouse,
+  };
+}
+
+// Parámetros que comparten las tablas y las reglas fiscales del año
+export function ruleParameters(
+  year: number
+): Pick<TaxYearTable, 'capitalLossLimit' | 'childTaxCredit' | 'eitc' | 'contributionLimits' | 'homeOffice'> {
+  const { credits, contributionLimits } = taxRules.getRules(year);
+  const lossLimit = (filingStatus: FilingStatus) =>
+    taxRules.getDeductionLimit('CAPITAL_LOSS', year, { filingStatus }) ?? 0;
+
+  return {
+    capitalLossLimit: {
+      standard: lossLimit('SINGLE'),
+      marriedFilingSeparately: lossLimit('MARRIED_FILING_SEPARATELY'),
+    },
+    childTaxCredit: credits.childTaxCredit,
+    eitc: credits.earnedIncomeCredit,
+    contributionLimits: {
+      electiveDeferral: contributionLimits.ELECTIVE_DEFERRAL?.limit ?? 0,
+      ira: contributionLimits.IRA?.limit ?? 0,
+    },
+    homeOffice: {
+      simplifiedRate: HOME_OFFICE_SIMPLIFIED_RATE,
+      simplifiedLimit: taxRules.getDeductionLimit('HOME_OFFICE_SIMPLIFIED', year) ?? 0,
+    },
+  };
+}
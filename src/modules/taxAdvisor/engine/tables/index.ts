@@ -0,0 +1,26 @@
+import { AppError } from '@/shared/utils/error-handler';
+import { TaxYearTable } from '../../interfaces/tax-engine.types';
+import { TAX_YEAR_2023 } from './2023';
+import { TAX_YEAR_2024 } from './2024';
+import { TAX_YEAR_2025 } from './2025';
+
+const TABLES: Record<number, TaxYearTable> = {
+  2023: TAX_YEAR_2023,
+  2024: TAX_YEAR_2024,
+  2025: TAX_YEAR_2025,
+};
+
+export const SUPPORTED_TAX_YEARS = Object.keys(TABLES).map(Number);
+
+export function getTaxYearTable(year: number): TaxYearTable {
+  const table = TABLES[year];
+  if (!table) {
+    throw new AppError(
+      'UNSUPPORTED_TAX_YEAR',
+      `Tax year ${year} is not supported (${SUPPORTED_TAX_YEARS.join(', ')})`,
+      400,
+      { year }
+    );
+  }
+  return table;
+}
@@ -0,0 +1,82 @@
+import { FilingStatus, TaxBracket, TaxYearTable } from '../interfaces/tax-engine.types';
+
+// La Tax Table del IRS se usa por debajo de este importe; por encima, el Tax Computation Worksheet
+const TAX_TABLE_LIMIT = 100000;
+
+export const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export function bracketTax(income: number, brackets: TaxBracket[]): number {
+  let tax = 0;
+  let lower = 0;
+  for (const { rate, upTo } of brackets) {
+    const upper = upTo ?? Infinity;
+    if (income <= lower) {
+      break;
+    }
+    tax += (Math.min(income, upper) - lower) * rate;
+    lower = upper;
+  }
+  return tax;
+}
+
+export function marginalRate(income: number, brackets: TaxBracket[]): number {
+  return brackets.find(({ upTo }) => upTo === null || income < upTo)?.rate ?? 0;
+}
+
+// La Tax Table grava el punto medio de filas de 25 $ (hasta 3.000) o de 50 $, redondeado al dólar
+function taxTableIncome(income: number): number {
+  if (income < 5) {
+    return 0;
+  }
+  if (income < 15) {
+    return 10;
+  }
+  if (income < 25) {
+    return 20;
+  }
+  const row = income < 3000 ? 25 : 50;
+  return Math.floor(income / row) * row + row / 2;
+}
+
+export function ordinaryIncomeTax(taxableIncome: number, brackets: TaxBracket[]): number {
+  if (taxableIncome <= 0) {
+    return 0;
+  }
+  if (taxableIncome < TAX_TABLE_LIMIT) {
+    return Math.round(bracketTax(taxTableIncome(taxableIncome), brackets));
+  }
+  return roundCents(bracketTax(taxableIncome, brackets));
+}
+
+/**
+ * Qualified Dividends and Capital Gain Tax Worksheet (instrucciones de la línea 16).
+ * No contempla la ganancia del 25 % (sección 1250) ni la del 28 % (coleccionables).
+ */
+export function qualifiedDividendsAndCapitalGainTax(
+  taxableIncome: number,
+  qualifiedDividends: number,
+  netCapitalGain: number,
+  filingStatus: FilingStatus,
+  table: TaxYearTable
+): number {
+  const brackets = table.brackets[filingStatus];
+  const line1 = taxableIncome;
+  const line4 = Math.max(0, qualifiedDividends) + Math.max(0, netCapitalGain);
+  const line5 = Math.max(0, line1 - line4);
+  const line7 = Math.min(line1, table.capitalGains.zeroRateMax[filingStatus]);
+  const line8 = Math.min(line5, line7);
+  const line9 = line7 - line8;
+  const line10 = Math.min(line1, line4);
+  const line12 = line10 - line9;
+  const line14 = Math.min(line1, table.capitalGains.fifteenRateMax[filingStatus]);
+  const line15 = line5 + line9;
+  const line16 = Math.max(0, line14 - line15);
+  const line17 = Math.min(line12, line16);
+  const line18 = line17 * 0.15;
+  const line20 = line10 - (line9 + line17);
+  const line21 = line20 * 0.2;
+  const line22 = ordinaryIncomeTax(line5, brackets);
+  const line23 = line18 + line21 + line22;
+  const line24 = ordinaryIncomeTax(line1, brackets);
+  return roundCents(Math.min(line23, line24));
+}
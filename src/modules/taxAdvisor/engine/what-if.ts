@@ -0,0 +1,198 @@
+import {
+  SimulationNote,
+  TaxDelta,
+  TaxReturnInput,
+  TaxYearTable,
+} from '../interfaces/tax-engine.types';
+import { getTaxYearTable } from './tables';
+import { DEFAULT_LOCALE, formatMoney, Locale, t } from '@/shared/i18n/i18n';
+
+export interface SimulatedInput {
+  input: TaxReturnInput;
+  notes: SimulationNote[];
+}
+
+const amount = (value?: number) => (Number.isFinite(value) ? (value as number) : 0);
+
+// Los salarios de Social Security y Medicare se fijan antes de tocar la casilla 1
+function withPayrollWages(input: TaxReturnInput): TaxReturnInput {
+  const payrollWages = amount(input.wages) + amount(input.electiveDeferrals);
+  return {
+    ...input,
+    socialSecurityWages: input.socialSecurityWages ?? payrollWages,
+    medicareWages: input.medicareWages ?? payrollWages,
+  };
+}
+
+function addWages(input: TaxReturnInput, extra: number): TaxReturnInput {
+  const current = withPayrollWages(input);
+  return {
+    ...current,
+    wages: amount(current.wages) + extra,
+    socialSecurityWages: amount(current.socialSecurityWages) + extra,
+    medicareWages: amount(current.medicareWages) + extra,
+  };
+}
+
+// El salario del cónyuge suma en la casilla 1 y, en conjunta, para el Medicare
+// adicional, pero no consume la base de Social Security del contribuyente
+function addSpouseWages(input: TaxReturnInput, extra: number): TaxReturnInput {
+  const current = withPayrollWages(input);
+  return {
+    ...current,
+    wages: amount(current.wages) + extra,
+    medicareWages: amount(current.medicareWages) + extra,
+  };
+}
+
+function contribute(
+  input: TaxReturnInput,
+  delta: Extract<TaxDelta, { type: 'RETIREMENT_CONTRIBUTION' }>,
+  table: TaxYearTable
+): SimulatedInput {
+  const notes: SimulationNote[] = [];
+
+  // Una Roth se paga con dinero ya tributado: ni deduce ni sale de la casilla 1
+  if (delta.roth) {
+    const compensation = amount(input.wages) + Math.max(0, amount(input.selfEmploymentIncome));
+    return {
+      input,
+      notes: compensation === 0 ? [{ code: 'NO_COMPENSATION' }] : [{ code: 'ROTH_NOT_DEDUCTIBLE' }],
+    };
+  }
+
+  if (delta.account === '401K') {
+    const wages = amount(input.wages);
+    const room = Math.max(0, table.contributionLimits.electiveDeferral - amount(input.electiveDeferrals));
+    const deferral = Math.min(delta.amount, room, wages);
+    if (wages === 0) {
+      notes.push({ code: 'NO_COMPENSATION' });
+    } else if (deferral < delta.amount) {
+      notes.push({ code: 'CONTRIBUTION_LIMITED', amount: deferral });
+    }
+    // Las aportaciones diferidas salen de la casilla 1 pero siguen cotizando
+    const current = withPayrollWages(input);
+    return {
+      input: {
+        ...current,
+        wages: wages - deferral,
+        electiveDeferrals: amount(input.electiveDeferrals) + deferral,
+      },
+      notes,
+    };
+  }
+
+  const compensation = amount(input.wages) + Math.max(0, amount(input.selfEmploymentIncome));
+  const current = amount(input.adjustments?.iraDeduction);
+  const contribution = Math.max(0, Math.min(delta.amount, table.contributionLimits.ira - current, compensation));
+  if (compensation === 0) {
+    notes.push({ code: 'NO_COMPENSATION' });
+  } else if (contribution < delta.amount) {
+    notes.push({ code: 'CONTRIBUTION_LIMITED', amount: contribution });
+  }
+  // Con plan de empresa la deducción se reduce según la MAGI; el motor no lo calcula
+  if (input.coveredByWorkplacePlan && contribution > 0) {
+    notes.push({ code: 'IRA_DEDUCTION_MAY_BE_LIMITED' });
+  }
+  return {
+    input: {
+      ...input,
+      adjustments: { ...input.adjustments, iraDeduction: current + contribution },
+    },
+    notes,
+  };
+}
+
+function addIncome(input: TaxReturnInput, delta: Extract<TaxDelta, { type: 'INCOME' }>): TaxReturnInput {
+  switch (delta.source) {
+    case 'WAGES':
+      return addWages(input, delta.amount);
+    case 'SELF_EMPLOYMENT':
+      return { ...input, selfEmploymentIncome: amount(input.selfEmploymentIncome) + delta.amount };
+    case 'INTEREST':
+      return { ...input, taxableInterest: amount(input.taxableInterest) + delta.amount };
+    case 'OTHER':
+      return { ...input, otherIncome: amount(input.otherIncome) + delta.amount };
+  }
+}
+
+export function applyTaxDelta(
+  input: TaxReturnInput,
+  delta: TaxDelta,
+  table: TaxYearTable = getTaxYearTable(input.taxYear)
+): SimulatedInput {
+  switch (delta.type) {
+    case 'RETIREMENT_CONTRIBUTION':
+      return contribute(input, delta, table);
+
+    case 'FILING_STATUS': {
+      const joint = delta.filingStatus === 'MARRIED_FILING_JOINTLY';
+      const spouseWages = amount(delta.spouseWages);
+      return {
+        input: { ...(spouseWages > 0 ? addSpouseWages(input, spouseWages) : input), filingStatus: delta.filingStatus },
+        notes: joint && delta.spouseWages === undefined ? [{ code: 'SPOUSE_INCOME_MISSING' }] : [],
+      };
+    }
+
+    case 'SELL_STOCK': {
+      const gain = delta.proceeds - amount(delta.costBasis);
+      const field = delta.longTerm === false ? 'shortTermCapitalGains' : 'longTermCapitalGains';
+      return {
+        input: { ...input, [field]: amount(input[field]) + gain },
+        notes: delta.costBasis === undefined ? [{ code: 'NO_COST_BASIS' }] : [],
+      };
+    }
+
+    case 'INCOME':
+      return { input: addIncome(input, delta), notes: [] };
+
+    case 'DEPENDENTS': {
+      const children = (count?: number) => Math.max(0, amount(count) + delta.qualifyingChildren);
+      return {
+        input: {
+          ...input,
+          qualifyingChildren: children(input.qualifyingChildren),
+          eitcQualifyingChildren:
+            input.eitcQualifyingChildren === undefined ? undefined : children(input.eitcQualifyingChildren),
+        },
+        notes: [],
+      };
+    }
+  }
+}
+
+// Aplica los cambios en orden; cada uno parte del resultado del anterior
+export function applyTaxDeltas(
+  input: TaxReturnInput,
+  deltas: TaxDelta[],
+  table: TaxYearTable = getTaxYearTable(input.taxYear)
+): SimulatedInput {
+  return deltas.reduce<SimulatedInput>(
+    (result, delta) => {
+      const next = applyTaxDelta(result.input, delta, table);
+      return { input: next.input, notes: [...result.notes, ...next.notes] };
+    },
+    { input, notes: [] }
+  );
+}
+
+export function describeTaxDelta(delta: TaxDelta, locale: Locale = DEFAULT_LOCALE): string {
+  switch (delta.type) {
+    case 'RETIREMENT_CONTRIBUTION':
+      return t(locale, `chat.whatIf.delta.${delta.roth ? 'ROTH_' : ''}${delta.account}`, {
+        amount: formatMoney(delta.amount, locale),
+      });
+    case 'FILING_STATUS':
+      return t(locale, 'chat.whatIf.delta.FILING_STATUS', {
+        status: t(locale, `chat.whatIf.status.${delta.filingStatus}`),
+      });
+    case 'SELL_STOCK':
+      return t(locale, 'chat.whatIf.delta.SELL_STOCK', { amount: formatMoney(delta.proceeds, locale) });
+    case 'INCOME':
+      return t(locale, `chat.whatIf.delta.INCOME.${delta.source}`, { amount: formatMoney(delta.amount, locale) });
+    case 'DEPENDENTS':
+      return delta.qualifyingChildren >= 0
+        ? t(locale, 'chat.whatIf.delta.DEPENDENTS', { count: delta.qualifyingChildren })
+        : t(locale, 'chat.whatIf.delta.DEPENDENTS_REMOVED', { count: -delta.qualifyingChildren });
+  }
+}
@@ -0,0 +1,266 @@
+import { describe, it, expect } from 'vitest';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { TextItem } from '../../interfaces/tax-extraction.types';
+import { extract1099, extract1099FromItems } from '../form-1099-extractor';
+import { Form1099Of } from '../form-1099.schema';
+import { incomeRecordsFrom1099 } from '../income-records';
+
+const PAGE = { width: 612, height: 792 };
+const LABEL_SIZE = 6;
+const VALUE_SIZE = 8;
+
+type FixtureText = [text: string, x: number, y: number, size?: number];
+
+// Estado consolidado del bróker: 1099-DIV e INT en la primera página y lotes del 1099-B en la segunda
+const CONSOLIDATED: FixtureText[][] = [
+  [
+    ["PAYER'S name, street address", 20, 20],
+    ['BIG BROKERAGE LLC', 24, 30, VALUE_SIZE],
+    ["PAYER'S TIN", 300, 20],
+    ['98-7654321', 304, 30, VALUE_SIZE],
+    ["RECIPIENT'S TIN", 420, 20],
+    ['XXX-XX-4321', 424, 30, VALUE_SIZE],
+    ['Account number', 20, 50],
+    ['5550001234', 24, 60, VALUE_SIZE],
+    ['2024', 500, 45, 14],
+    ['Form 1099-DIV Dividends and Distributions', 20, 90, 10],
+    ['1a Total ordinary dividends', 20, 110],
+    ['1,250.00', 24, 120, VALUE_SIZE],
+    ['1b Qualified dividends', 200, 110],
+    ['980.00', 204, 120, VALUE_SIZE],
+    ['2a Total capital gain distr.', 380, 110],
+    ['300.00', 384, 120, VALUE_SIZE],
+    ['5 Section 199A dividends', 200, 140],
+    ['50.00', 204, 150, VALUE_SIZE],
+    ['Form 1099-INT Interest Income', 20, 180, 10],
+    ['1 Interest income', 20, 200],
+    ['410.25', 24, 210, VALUE_SIZE],
+    ['4 Federal income tax withheld', 200, 200],
+    ['41.00', 204, 210, VALUE_SIZE],
+    ['8 Tax-exempt interest', 380, 200],
+    ['75.00', 384, 210, VALUE_SIZE],
+  ],
+  [
+    ['Form 1099-B Proceeds From Broker and Barter Exchange Transactions', 20, 20, 10],
+    ['Short-term transactions for covered tax lots', 20, 50, VALUE_SIZE],
+    ['1a Description of property', 20, 70],
+    ['1b Date acquired', 150, 70],
+    ['1c Date sold or disposed', 210, 70],
+    ['1d Proceeds', 290, 70],
+    ['1e Cost or other basis', 350, 70],
+    ['1f Accrued market discount', 420, 70],
+    ['1g Wash sale loss disallowed', 490, 70],
+    ['Gain or (loss)', 560, 70],
+    ['100 sh ACME CORP', 20, 85, VALUE_SIZE],
+    ['01/10/24', 150, 85, VALUE_SIZE],
+    ['03/15/24', 215, 85, VALUE_SIZE],
+    ['5,000.00', 290, 85, VALUE_SIZE],
+    ['5,600.00', 355, 85, VALUE_SIZE],
+    ['200.00', 495, 85, VALUE_SIZE],
+    ['(400.00)', 560, 85, VALUE_SIZE],
+    ['50 sh WIDGET CO', 20, 97, VALUE_SIZE],
+    ['02/01/24', 150, 97, VALUE_SIZE],
+    ['06/30/24', 215, 97, VALUE_SIZE],
+    ['2,500.00', 290, 97, VALUE_SIZE],
+    ['2,000.00', 355, 97, VALUE_SIZE],
+    ['500.00', 560, 97, VALUE_SIZE],
+    ['Long-term transactions for covered tax lots', 20, 125, VALUE_SIZE],
+    ['10 sh BIGCO', 20, 140, VALUE_SIZE],
+    ['VARIOUS', 150, 140, VALUE_SIZE],
+    ['08/01/24', 215, 140, VALUE_SIZE],
+    ['3,000.00', 290, 140, VALUE_SIZE],
+    ['1,800.00', 355, 140, VALUE_SIZE],
+    ['1,200.00', 560, 140, VALUE_SIZE],
+  ],
+];
+
+async function buildPdf(pages: FixtureText[][]): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  for (const texts of pages) {
+    const page = pdf.addPage([PAGE.width, PAGE.height]);
+    for (const [text, x, y, size = LABEL_SIZE] of texts) {
+      page.drawText(text, { x, y: PAGE.height - y - size, size, font });
+    }
+  }
+  return pdf.save();
+}
+
+// Palabras ya agrupadas como las devolvería el OCR
+function ocrItems(texts: FixtureText[], confidence: number): TextItem[] {
+  return texts.map(([text, x, y, size = LABEL_SIZE]) => ({
+    text,
+    page: 1,
+    x,
+    y,
+    width: text.length * size * 0.5,
+    height: size,
+    confidence,
+  }));
+}
+
+function form1099R(code: string): FixtureText[] {
+  return [
+    ['1 Gross distribution', 20, 20],
+    ['20,000.00', 24, 30, VALUE_SIZE],
+    ['2a Taxable amount', 20, 50],
+    ['20,000.00', 24, 60, VALUE_SIZE],
+    ['2b Taxable amount not determined', 20, 80],
+    ['Total distribution', 150, 80],
+    ['X', 210, 90, VALUE_SIZE],
+    ['4 Federal income tax withheld', 300, 20],
+    ['4,000.00', 304, 30, VALUE_SIZE],
+    ['7 Distribution code(s)', 300, 50],
+    [code, 304, 60, VALUE_SIZE],
+    ['IRA/ SEP/ SIMPLE', 400, 50],
+    ['X', 404, 60, VALUE_SIZE],
+    ['Form 1099-R Distributions From Pensions, Annuities, Retirement 2024', 20, 120, 10],
+  ];
+}
+
+const values = (amounts: object) =>
+  Object.fromEntries(Object.entries(amounts).map(([field, { value }]) => [field, value]));
+
+describe('extract1099', () => {
+  it('should split a consolidated statement into its 1099 variants', async () => {
+    const forms = await extract1099(await buildPdf(CONSOLIDATED));
+
+    expect(forms.map(({ variant }) => variant)).toEqual(['INT', 'DIV', 'B']);
+    for (const form of forms) {
+      expect(form).toMatchObject({
+        source: 'PDF',
+        taxYear: { value: 2024 },
+        payerName: { value: 'BIG BROKERAGE LLC' },
+        payerTin: { value: '98-7654321' },
+        recipientTinLast4: { value: '4321', text: 'XXX-XX-4321' },
+        accountNumber: { value: '5550001234' },
+        confidence: 1,
+      });
+      expect(form.checks.every(({ passed }) => passed)).toBe(true);
+    }
+
+    const [int, div] = forms;
+    expect(values(div.amounts)).toEqual({
+      ordinaryDividends: 1250,
+      qualifiedDividends: 980,
+      capitalGainDistributions: 300,
+      section199ADividends: 50,
+    });
+    expect(values(int.amounts)).toEqual({ interestIncome: 410.25, federalWithholding: 41, taxExemptInterest: 75 });
+  });
+
+  it('should read 1099-B lots with their basis, wash sale adjustment and holding period', async () => {
+    const forms = await extract1099(await buildPdf(CONSOLIDATED));
+    const broker = forms.find((form): form is Form1099Of<'B'> => form.variant === 'B');
+
+    expect(broker?.lots).toEqual([
+      {
+        description: '100 sh ACME CORP',
+        dateAcquired: '2024-01-10',
+        dateSold: '2024-03-15',
+        proceeds: 5000,
+        costBasis: 5600,
+        washSaleLossDisallowed: 200,
+        gainOrLoss: -400,
+        term: 'SHORT',
+        covered: true,
+        page: 2,
+        confidence: 1,
+      },
+      {
+        description: '50 sh WIDGET CO',
+        dateAcquired: '2024-02-01',
+        dateSold: '2024-06-30',
+        proceeds: 2500,
+        costBasis: 2000,
+        gainOrLoss: 500,
+        term: 'SHORT',
+        covered: true,
+        page: 2,
+        confidence: 1,
+      },
+      {
+        description: '10 sh BIGCO',
+        dateAcquired: 'VARIOUS',
+        dateSold: '2024-08-01',
+        proceeds: 3000,
+        costBasis: 1800,
+        gainOrLoss: 1200,
+        term: 'LONG',
+        covered: true,
+        page: 2,
+        confidence: 1,
+      },
+    ]);
+  });
+
+  it('should read 1099-R distribution codes and flag a taxable direct rollover', () => {
+    const [rollover] = extract1099FromItems(ocrItems(form1099R('G'), 0.9), 'OCR');
+
+    expect(rollover).toMatchObject({
+      variant: 'R',
+      taxYear: { value: 2024 },
+      distributionCodes: ['G'],
+      iraSepSimple: true,
+      taxableAmountNotDetermined: false,
+      totalDistribution: true,
+    });
+    expect(rollover.checks.filter(({ passed }) => !passed)).toEqual([
+      { code: 'TAXABLE_ROLLOVER', passed: false, fields: ['taxableAmount'], actual: 20000 },
+    ]);
+    expect(rollover.amounts).toMatchObject({
+      grossDistribution: { value: 20000, confidence: 0.9 },
+      taxableAmount: { value: 20000, confidence: 0.54 },
+    });
+    expect(rollover.confidence).toBe(0.54);
+
+    const [unknown] = extract1099FromItems(ocrItems(form1099R('7Z'), 0.9), 'OCR');
+    expect(unknown).toMatchObject({ distributionCodes: ['7'] });
+    expect(unknown.checks.find(({ passed }) => !passed)?.code).toBe('UNKNOWN_DISTRIBUTION_CODE');
+  });
+
+  it('should use the expected variant when the document has no form title', async () => {
+    const text = '1 Nonemployee compensation   12,500.00   4 Federal income tax withheld   1,000.00';
+
+    expect(await extract1099(text)).toEqual([]);
+    const [nec] = await extract1099(text, 'NEC');
+    expect(nec.source).toBe('TEXT');
+    expect(values(nec.amounts)).toEqual({ nonemployeeCompensation: 12500, federalWithholding: 1000 });
+  });
+});
+
+describe('incomeRecordsFrom1099', () => {
+  it('should normalise each form into income records', async () => {
+    const forms = await extract1099(await buildPdf(CONSOLIDATED));
+    const records = forms.flatMap(incomeRecordsFrom1099);
+
+    expect(records.map(({ category, amount, form, box }) => [category, amount, form, box])).toEqual([
+      ['INTEREST', 410.25, '1099-INT', '1'],
+      ['FEDERAL_WITHHOLDING', 41, '1099-INT', '4'],
+      ['TAX_EXEMPT_INTEREST', 75, '1099-INT', '8'],
+      ['ORDINARY_DIVIDENDS', 1250, '1099-DIV', '1a'],
+      ['QUALIFIED_DIVIDENDS', 980, '1099-DIV', '1b'],
+      ['CAPITAL_GAIN_DISTRIBUTIONS', 300, '1099-DIV', '2a'],
+      ['SHORT_TERM_CAPITAL_GAIN', 100, '1099-B', 'short-term lots'],
+      ['LONG_TERM_CAPITAL_GAIN', 1200, '1099-B', 'long-term lots'],
+    ]);
+    expect(records[0]).toMatchObject({
+      id: '1099-INT:98-7654321:5550001234:1',
+      taxYear: 2024,
+      payer: 'BIG BROKERAGE LLC',
+      confidence: 1,
+    });
+  });
+
+  it('should not report a direct rollover as a taxable distribution', () => {
+    const [rollover] = extract1099FromItems(ocrItems(form1099R('G'), 0.9), 'OCR');
+    const [distribution] = extract1099FromItems(ocrItems(form1099R('7'), 0.9), 'OCR');
+
+    expect(incomeRecordsFrom1099(rollover).map(({ category }) => category)).toEqual(['FEDERAL_WITHHOLDING']);
+    expect(incomeRecordsFrom1099(distribution).find(({ category }) => category === 'RETIREMENT_DISTRIBUTION')).toMatchObject({
+      amount: 20000,
+      box: '2a',
+      confidence: 0.9,
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect } from 'vitest';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { TextItem } from '../../interfaces/tax-extraction.types';
+import { extractW2, extractW2FromItems } from '../w2-extractor';
+
+const PAGE = { width: 612, height: 396 };
+const LABEL_SIZE = 6;
+const VALUE_SIZE = 9;
+
+type FixtureText = [text: string, x: number, y: number, size?: number];
+
+// W-2 sintético: etiquetas de las casillas y valores debajo, con y medida desde arriba
+function w2Layout(values: Record<string, string>): FixtureText[] {
+  const value = (key: string, x: number, y: number): FixtureText[] =>
+    values[key] ? [[values[key], x, y, VALUE_SIZE]] : [];
+  return [
+    ["a Employee's social security number", 150, 20],
+    ...value('ssn', 155, 30),
+    ['b Employer identification number (EIN)', 20, 50],
+    ...value('ein', 24, 60),
+    ['1 Wages, tips, other compensation', 320, 50],
+    ...value('box1', 330, 60),
+    ['2 Federal income tax withheld', 460, 50],
+    ...value('box2', 470, 60),
+    ["c Employer's name, address, and ZIP code", 20, 80],
+    ...value('employer', 24, 90),
+    ['100 Main St, Springfield', 24, 100, VALUE_SIZE],
+    ['3 Social security wages', 320, 80],
+    ...value('box3', 330, 90),
+    ['4 Social security tax withheld', 460, 80],
+    ...value('box4', 470, 90),
+    ['5 Medicare wages and tips', 320, 110],
+    ...value('box5', 330, 120),
+    ['6 Medicare tax withheld', 460, 110],
+    ...value('box6', 470, 120),
+    ['d Control number', 20, 140],
+    ['7 Social security tips', 320, 140],
+    ['8 Allocated tips', 460, 140],
+    ["e Employee's first name and initial", 20, 170],
+    ['JANE A DOE', 24, 180, VALUE_SIZE],
+    ['10 Dependent care benefits', 460, 170],
+    ...value('box10', 470, 180),
+    ['11 Nonqualified plans', 320, 200],
+    ['12a See instructions for box 12', 460, 200],
+    ['D', 465, 210, VALUE_SIZE],
+    ...value('box12a', 490, 210),
+    ['13 Statutory employee', 320, 230],
+    ['Retirement plan', 375, 230],
+    ['Third-party sick pay', 415, 230],
+    ['X', 385, 240, VALUE_SIZE],
+    ['12b', 460, 230],
+    ['14 Other', 320, 260],
+    ['CASDI', 325, 270, VALUE_SIZE],
+    ['1089.00', 370, 270, VALUE_SIZE],
+    ['12c', 460, 260],
+    ['15 State', 20, 320],
+    ["Employer's state ID number", 55, 320],
+    ['16 State wages, tips, etc.', 200, 320],
+    ['17 State income tax', 290, 320],
+    ['18 Local wages, tips, etc.', 370, 320],
+    ['19 Local income tax', 460, 320],
+    ['20 Locality name', 540, 320],
+    ['CA', 22, 332, VALUE_SIZE],
+    ['123-4567-8', 60, 332, VALUE_SIZE],
+    ...value('box16', 205, 332),
+    ...value('box17', 295, 332),
+    ['OR', 22, 346, VALUE_SIZE],
+    ['98765432', 60, 346, VALUE_SIZE],
+    ['5000.00', 205, 346, VALUE_SIZE],
+    ['250.00', 295, 346, VALUE_SIZE],
+    ['5000.00', 375, 346, VALUE_SIZE],
+    ['50.00', 465, 346, VALUE_SIZE],
+    ['PORTLAND', 542, 346, VALUE_SIZE],
+    ['Form W-2 Wage and Tax Statement', 20, 370, 10],
+    ['2024', 220, 368, 14],
+  ];
+}
+
+const CONSISTENT_W2 = {
+  ssn: '123-45-6789',
+  ein: '12-3456789',
+  employer: 'ACME WIDGETS INC',
+  box1: '70,000.00',
+  box2: '8,000.00',
+  box3: '75,000.00',
+  box4: '4,650.00',
+  box5: '75,000.00',
+  box6: '1,087.50',
+  box10: '2,000.00',
+  box12a: '5,000.00',
+  box16: '70,000.00',
+  box17: '3,200.00',
+};
+
+async function buildW2Pdf(values: Record<string, string>): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const page = pdf.addPage([PAGE.width, PAGE.height]);
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  for (const [text, x, y, size = LABEL_SIZE] of w2Layout(values)) {
+    page.drawText(text, { x, y: PAGE.height - y - size, size, font });
+  }
+  return pdf.save();
+}
+
+// Palabras ya agrupadas como las devolvería el OCR
+function ocrItems(values: Record<string, string>, confidence: number): TextItem[] {
+  return w2Layout(values).map(([text, x, y, size = LABEL_SIZE]) => ({
+    text,
+    page: 1,
+    x,
+    y,
+    width: text.length * size * 0.5,
+    height: size,
+    confidence,
+  }));
+}
+
+describe('extractW2', () => {
+  it('should map the text of a PDF W-2 to its boxes', async () => {
+    const w2 = await extractW2(await buildW2Pdf(CONSISTENT_W2));
+
+    expect(w2.source).toBe('PDF');
+    expect(w2.taxYear?.value).toBe(2024);
+    expect(w2.employerEin?.value).toBe('12-3456789');
+    expect(w2.employerName?.value).toBe('ACME WIDGETS INC');
+    expect(w2.employeeSsnLast4).toMatchObject({ value: '6789', text: 'XXX-XX-6789' });
+    expect(Object.fromEntries(Object.entries(w2.amounts).map(([field, { value }]) => [field, value]))).toEqual({
+      wages: 70000,
+      federalWithholding: 8000,
+      socialSecurityWages: 75000,
+      socialSecurityTax: 4650,
+      medicareWages: 75000,
+      medicareTax: 1087.5,
+      dependentCareBenefits: 2000,
+    });
+    expect(w2.box12).toEqual([{ slot: 'a', code: 'D', amount: 5000, confidence: 1 }]);
+    expect(w2.box13).toEqual({ statutoryEmployee: false, retirementPlan: true, thirdPartySickPay: false });
+    expect(w2.box14).toEqual([{ description: 'CASDI', amount: 1089 }]);
+    expect(w2.states).toEqual([
+      { state: 'CA', employerStateId: '123-4567-8', stateWages: 70000, stateIncomeTax: 3200, confidence: 1 },
+      {
+        state: 'OR',
+        employerStateId: '98765432',
+        stateWages: 5000,
+        stateIncomeTax: 250,
+        localWages: 5000,
+        localIncomeTax: 50,
+        locality: 'PORTLAND',
+        confidence: 1,
+      },
+    ]);
+    expect(w2.checks.every(({ passed }) => passed)).toBe(true);
+    expect(w2.confidence).toBe(1);
+  });
+
+  it('should lower the confidence of boxes that fail the cross-checks', () => {
+    // El OCR lee 4.850 en lugar de 4.650 en la casilla 4
+    const w2 = extractW2FromItems(ocrItems({ ...CONSISTENT_W2, box4: '4,850.00' }, 0.9), 'OCR');
+
+    expect(w2.checks.find(({ code }) => code === 'SOCIAL_SECURITY_TAX_RATE')).toEqual({
+      code: 'SOCIAL_SECURITY_TAX_RATE',
+      passed: false,
+      fields: ['socialSecurityWages', 'socialSecurityTax'],
+      expected: 4650,
+      actual: 4850,
+    });
+    expect(w2.amounts.socialSecurityTax?.confidence).toBe(0.54);
+    expect(w2.amounts.medicareTax?.confidence).toBe(0.9);
+    expect(w2.confidence).toBe(0.54);
+  });
+
+  it('should flag wages above the Social Security wage base and unknown box 12 codes', () => {
+    const items = ocrItems(
+      {
+        ...CONSISTENT_W2,
+        box1: '180,000.00',
+        box3: '180,000.00',
+        box4: '11,160.00',
+        box5: '180,000.00',
+        box6: '2,610.00',
+      },
+      0.95
+    ).map((item) => (item.text === 'D' ? { ...item, text: 'O' } : item));
+    const w2 = extractW2FromItems(items, 'OCR');
+
+    expect(w2.checks.filter(({ passed }) => !passed).map(({ code }) => code)).toEqual([
+      'SOCIAL_SECURITY_WAGE_BASE',
+      'UNKNOWN_BOX_12_CODE',
+    ]);
+    expect(w2.box12[0]).toMatchObject({ code: 'O', confidence: 0.57 });
+  });
+
+  it('should read values printed next to their label in extracted text', async () => {
+    const w2 = await extractW2(
+      [
+        'Form W-2 Wage and Tax Statement 2023',
+        '1 Wages, tips, other compensation   52,000.00   2 Federal income tax withheld   4,100.00',
+      ].join('\n')
+    );
+
+    expect(w2.source).toBe('TEXT');
+    expect(w2.taxYear?.value).toBe(2023);
+    expect(w2.amounts.wages).toMatchObject({ value: 52000, confidence: 0.855 });
+    expect(w2.amounts.federalWithholding?.value).toBe(4100);
+    expect(w2.amounts.socialSecurityWages).toBeUndefined();
+  });
+});
@@ -0,0 +1,537 @@
+import { AppError } from '@/shared/utils/error-handler';
+import { ExtractedValue, ExtractionCheck, ExtractionSource, TextItem } from '../interfaces/tax-extraction.types';
+import { roundCents } from '../engine/tax-computation';
+import {
+  amountInCell,
+  EIN_PATTERN,
+  FieldLabel,
+  findIdentifier,
+  findTaxYear,
+  groupRows,
+  isChecked,
+  LabelLayout,
+  layoutOf,
+  maskSsn,
+  penalize,
+  sameRow,
+  SSN_PATTERN,
+  textInCell,
+} from './form-layout';
+import {
+  BrokerLot,
+  DISTRIBUTION_CODES,
+  FORM_1099_AMOUNT_FIELDS,
+  FORM_1099_VARIANTS,
+  Form1099AmountField,
+  Form1099CheckCode,
+  Form1099Extraction,
+  form1099Schema,
+  Form1099Variant,
+} from './form-1099.schema';
+import { normalizeLabel, parseAmount, readTextItems } from './text-layout';
+
+type Check = ExtractionCheck<Form1099CheckCode>;
+type Amounts = Partial<Record<string, ExtractedValue<number>>>;
+
+type Form1099Label =
+  | Form1099AmountField<Form1099Variant>
+  | 'payerName'
+  | 'payerTin'
+  | 'recipientTin'
+  | 'accountNumber'
+  | 'distributionCodes'
+  | 'iraSepSimple'
+  | 'taxableAmountNotDetermined'
+  | 'totalDistribution';
+
+const TITLE_PATTERN = /\b1099-?(NEC|MISC|INT|DIV|B|R|G|K)\b/i;
+// Cualquiera de los dos formatos de TIN: EIN del pagador o SSN
+const TIN_PATTERN = new RegExp(`${EIN_PATTERN.source}|${SSN_PATTERN.source}`, 'i');
+
+const COMMON_LABELS: FieldLabel<Form1099Label>[] = [
+  { key: 'payerTin', pattern: /payer'?s (tin|federal identification)/ },
+  { key: 'payerName', pattern: /payer'?s name/ },
+  { key: 'recipientTin', pattern: /recipient'?s (tin|identification)/ },
+  { key: 'accountNumber', pattern: /account number/ },
+  { key: 'federalWithholding', pattern: /federal income tax withheld/ },
+  { key: 'stateTaxWithheld', pattern: /state tax withheld/ },
+];
+
+// Textos de las casillas de cada variante, de los más concretos a los más genéricos
+const VARIANT_LABELS: Record<Form1099Variant, FieldLabel<Form1099Label>[]> = {
+  NEC: [
+    { key: 'nonemployeeCompensation', pattern: /^(1 )?nonemployee compensation$/ },
+    { key: 'stateIncome', pattern: /state income$/ },
+  ],
+  MISC: [
+    { key: 'rents', pattern: /^(1 )?rents$/ },
+    { key: 'royalties', pattern: /^(2 )?royalties$/ },
+    { key: 'otherIncome', pattern: /other income/ },
+    { key: 'fishingBoatProceeds', pattern: /fishing boat proceeds/ },
+    { key: 'medicalPayments', pattern: /medical and health care payments/ },
+    { key: 'substitutePayments', pattern: /substitute payments/ },
+    { key: 'cropInsurance', pattern: /crop insurance/ },
+    { key: 'grossAttorneyProceeds', pattern: /gross proceeds paid to an attorney/ },
+    { key: 'section409ADeferrals', pattern: /section 409a deferrals/ },
+    { key: 'nonqualifiedDeferredCompensation', pattern: /nonqualified deferred comp/ },
+    { key: 'stateIncome', pattern: /state income$/ },
+  ],
+  INT: [
+    { key: 'interestIncome', pattern: /^(1 )?interest income$/ },
+    { key: 'earlyWithdrawalPenalty', pattern: /early withdrawal penalty/ },
+    { key: 'savingsBondInterest', pattern: /interest on u\.?s\.? savings bonds/ },
+    { key: 'investmentExpenses', pattern: /investment expenses/ },
+    { key: 'foreignTaxPaid', pattern: /foreign tax paid/ },
+    { key: 'taxExemptInterest', pattern: /tax-exempt interest/ },
+    { key: 'privateActivityBondInterest', pattern: /specified private activity bond/ },
+    { key: 'marketDiscount', pattern: /market discount/ },
+    { key: 'bondPremium', pattern: /^(11 )?bond premium$/ },
+  ],
+  DIV: [
+    { key: 'ordinaryDividends', pattern: /total ordinary dividends/ },
+    { key: 'qualifiedDividends', pattern: /qualified dividends/ },
+    { key: 'capitalGainDistributions', pattern: /total capital gain distr/ },
+    { key: 'unrecapturedSection1250Gain', pattern: /unrecap(\.|tured)? sec(\.|tion)? 1250 gain/ },
+    { key: 'section1202Gain', pattern: /section 1202 gain/ },
+    { key: 'collectiblesGain', pattern: /collectibles \(28%\) gain/ },
+    { key: 'nondividendDistributions', pattern: /nondividend distributions/ },
+    { key: 'section199ADividends', pattern: /section 199a dividends/ },
+    { key: 'investmentExpenses', pattern: /investment expenses/ },
+    { key: 'foreignTaxPaid', pattern: /foreign tax paid/ },
+    { key: 'cashLiquidation', pattern: /cash liquidation/ },
+    { key: 'exemptInterestDividends', pattern: /exempt-interest dividends/ },
+  ],
+  B: [],
+  R: [
+    { key: 'grossDistribution', pattern: /gross distribution/ },
+    { key: 'taxableAmountNotDetermined', pattern: /taxable amount not determined/ },
+    { key: 'taxableAmount', pattern: /taxable amount/ },
+    { key: 'totalDistribution', pattern: /total distribution/ },
+    { key: 'capitalGain', pattern: /capital gain/ },
+    { key: 'employeeContributions', pattern: /employee contributions/ },
+    { key: 'unrealizedAppreciation', pattern: /net unrealized appreciation/ },
+    { key: 'distributionCodes', pattern: /distribution code/ },
+    { key: 'iraSepSimple', pattern: /ira\/ ?sep\/ ?simple/ },
+  ],
+  G: [
+    { key: 'unemploymentCompensation', pattern: /unemployment compensation/ },
+    { key: 'stateLocalRefund', pattern: /state or local income tax refunds/ },
+    { key: 'rtaaPayments', pattern: /rtaa payments/ },
+    { key: 'taxableGrants', pattern: /taxable grants/ },
+    { key: 'agriculturePayments', pattern: /agriculture payments/ },
+    { key: 'marketGain', pattern: /market gain/ },
+  ],
+  K: [
+    { key: 'grossPayments', pattern: /gross amount of payment card/ },
+    { key: 'cardNotPresent', pattern: /card not present/ },
+  ],
+};
+
+// Casillas de ingresos de cada variante: de ellas sale la confianza global
+const INCOME_FIELDS: Record<Form1099Variant, string[]> = {
+  NEC: ['nonemployeeCompensation'],
+  MISC: ['rents', 'royalties', 'otherIncome', 'fishingBoatProceeds', 'medicalPayments', 'substitutePayments'],
+  INT: ['interestIncome', 'savingsBondInterest', 'taxExemptInterest'],
+  DIV: ['ordinaryDividends', 'qualifiedDividends', 'capitalGainDistributions', 'exemptInterestDividends'],
+  B: [],
+  R: ['grossDistribution', 'taxableAmount'],
+  G: ['unemploymentCompensation', 'stateLocalRefund', 'taxableGrants'],
+  K: ['grossPayments'],
+};
+
+const INCLUDED_IN_OTHER_BOX = ['qualifiedDividends', 'taxableAmount'];
+
+type LotColumn =
+  | 'description'
+  | 'dateAcquired'
+  | 'dateSold'
+  | 'proceeds'
+  | 'costBasis'
+  | 'accruedMarketDiscount'
+  | 'washSaleLossDisallowed'
+  | 'gainOrLoss';
+
+// Cabeceras de la tabla de lotes del 1099-B (1a a 1g)
+const DATE_SOLD_HEADER = /date sold/;
+const LOT_COLUMNS: FieldLabel<LotColumn>[] = [
+  { key: 'description', pattern: /description/ },
+  { key: 'dateAcquired', pattern: /date acquired/ },
+  { key: 'dateSold', pattern: DATE_SOLD_HEADER },
+  { key: 'proceeds', pattern: /proceeds/ },
+  { key: 'costBasis', pattern: /cost (or other )?basis/ },
+  { key: 'accruedMarketDiscount', pattern: /accrued market discount/ },
+  { key: 'washSaleLossDisallowed', pattern: /wash sale loss disallowed/ },
+  { key: 'gainOrLoss', pattern: /gain or \(?loss\)?|gain\/loss/ },
+];
+
+const LOT_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/;
+const TERM_HEADING = /\b(short|long)[- ]term\b/i;
+const KNOWN_DISTRIBUTION_CODES = new Set<string>(DISTRIBUTION_CODES);
+
+// Diferencia admitida por los redondeos del pagador
+const withinTolerance = (actual: number, expected: number) => Math.abs(actual - expected) <= 1;
+
+interface Region {
+  variant: Form1099Variant;
+  items: TextItem[];
+}
+
+/**
+ * Parte el documento por variante. Cada página se asigna a los títulos
+ * "1099-XXX" que contiene; si tiene varios (estados consolidados del bróker)
+ * se parte en franjas horizontales, y las páginas sin título continúan la
+ * variante anterior. Sin ningún título se usa la variante esperada.
+ */
+function splitByVariant(items: TextItem[], expected?: Form1099Variant): Region[] {
+  const pages = [...new Set(items.map((item) => item.page))].sort((a, b) => a - b);
+  const regions = new Map<Form1099Variant, TextItem[]>();
+  const add = (variant: Form1099Variant, regionItems: TextItem[]) =>
+    regions.set(variant, [...(regions.get(variant) ?? []), ...regionItems]);
+  let current = expected;
+
+  for (const page of pages) {
+    const pageItems = items.filter((item) => item.page === page);
+    const titles: Array<{ variant: Form1099Variant; y: number }> = [];
+    for (const item of [...pageItems].sort((a, b) => a.y - b.y)) {
+      const match = item.text.match(TITLE_PATTERN);
+      const variant = match?.[1].toUpperCase() as Form1099Variant | undefined;
+      if (variant && !titles.some((title) => title.variant === variant)) {
+        titles.push({ variant, y: item.y - item.height });
+      }
+    }
+
+    if (titles.length === 0) {
+      if (current) {
+        add(current, pageItems);
+      }
+      continue;
+    }
+    if (titles.length === 1) {
+      add(titles[0].variant, pageItems);
+    } else {
+      titles.forEach(({ variant }, index) => {
+        const top = index === 0 ? -Infinity : titles[index].y;
+        const bottom = titles[index + 1]?.y ?? Infinity;
+        add(variant, pageItems.filter((item) => item.y >= top && item.y < bottom));
+      });
+    }
+    current = titles[titles.length - 1].variant;
+  }
+
+  return FORM_1099_VARIANTS.filter((variant) => regions.has(variant)).map((variant) => ({
+    variant,
+    items: regions.get(variant) as TextItem[],
+  }));
+}
+
+function readAmounts(
+  items: TextItem[],
+  layout: LabelLayout<Form1099Label>,
+  fields: readonly string[]
+): Amounts {
+  const amounts: Amounts = {};
+  for (const field of fields) {
+    const cell = layout.cell(field as Form1099Label);
+    const amount = cell && amountInCell(items, cell, layout.labelItems);
+    if (amount) {
+      amounts[field] = amount;
+    }
+  }
+  return amounts;
+}
+
+// "03/15/24" -> "2024-03-15"
+function toIsoDate(text: string): string | undefined {
+  const match = text.trim().match(LOT_DATE);
+  if (!match) {
+    return undefined;
+  }
+  const [, month, day, year] = match;
+  return `${year.length === 2 ? `20${year}` : year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+// Más de un año entre la compra y la venta: largo plazo
+function termFromDates(dateAcquired?: string, dateSold?: string): BrokerLot['term'] {
+  if (!dateAcquired || dateAcquired === 'VARIOUS' || !dateSold) {
+    return 'UNKNOWN';
+  }
+  const anniversary = new Date(`${dateAcquired}T00:00:00Z`);
+  anniversary.setUTCFullYear(anniversary.getUTCFullYear() + 1);
+  return new Date(`${dateSold}T00:00:00Z`) > anniversary ? 'LONG' : 'SHORT';
+}
+
+/**
+ * Lotes del 1099-B: cada fila bajo la cabecera de la tabla con fecha de venta
+ * e importe de venta es un lote. Cada fragmento va a la columna cuya cabecera
+ * le queda más cerca en horizontal, y el plazo (y si es "covered") sale del
+ * último título "Short-term"/"Long-term" por encima de la fila.
+ */
+function readLots(items: TextItem[]): { lots: BrokerLot[]; checks: Check[] } {
+  const lots: BrokerLot[] = [];
+  const checks: Check[] = [];
+  let columns: Array<{ key: LotColumn; center: number }> = [];
+  let heading: TextItem | undefined;
+
+  const pages = [...new Set(items.map((item) => item.page))].sort((a, b) => a - b);
+  for (const page of pages) {
+    const pageItems = items.filter((item) => item.page === page);
+    const header = pageItems.find((item) => DATE_SOLD_HEADER.test(normalizeLabel(item.text)));
+    const headerRow = header ? pageItems.filter((item) => sameRow(item, header)) : [];
+    if (headerRow.length > 0) {
+      const labels = [...layoutOf(headerRow, LOT_COLUMNS).labels];
+      columns = labels.map(([key, label]) => ({ key, center: label.x + label.width / 2 }));
+    }
+    if (columns.length === 0) {
+      continue;
+    }
+
+    const headings = pageItems.filter((item) => TERM_HEADING.test(item.text) && !headerRow.includes(item));
+    const body = pageItems.filter(
+      (item) => !headerRow.includes(item) && !headings.includes(item) && (!header || item.y > header.y)
+    );
+
+    for (const row of groupRows(body)) {
+      const cells = new Map<LotColumn, TextItem[]>();
+      for (const item of row) {
+        const center = item.x + item.width / 2;
+        const { key } = columns.reduce((nearest, column) =>
+          Math.abs(column.center - center) < Math.abs(nearest.center - center) ? column : nearest
+        );
+        cells.set(key, [...(cells.get(key) ?? []), item]);
+      }
+      const text = (key: LotColumn) => cells.get(key)?.map((item) => item.text).join(' ');
+      const amount = (key: LotColumn) => {
+        const value = text(key);
+        return value === undefined ? undefined : parseAmount(value) ?? undefined;
+      };
+
+      const dateSold = toIsoDate(text('dateSold') ?? '');
+      const proceeds = amount('proceeds');
+      if (!dateSold || proceeds === undefined) {
+        continue;
+      }
+      const acquired = text('dateAcquired');
+      const dateAcquired = acquired && /^various$/i.test(acquired.trim()) ? 'VARIOUS' : toIsoDate(acquired ?? '');
+      const costBasis = amount('costBasis');
+      const accruedMarketDiscount = amount('accruedMarketDiscount');
+      const washSaleLossDisallowed = amount('washSaleLossDisallowed');
+
+      // Sin título encima en la página sigue valiendo el de la página anterior
+      heading = headings.filter((candidate) => candidate.y < row[0].y).sort((a, b) => b.y - a.y)[0] ?? heading;
+      const headingTerm = heading?.text.match(TERM_HEADING)?.[1].toUpperCase() as 'SHORT' | 'LONG' | undefined;
+      const covered = heading && /\bcovered\b/i.test(heading.text) ? !/noncovered/i.test(heading.text) : undefined;
+
+      const gainOrLoss = roundCents(
+        proceeds - (costBasis ?? 0) - (accruedMarketDiscount ?? 0) + (washSaleLossDisallowed ?? 0)
+      );
+      const reported = amount('gainOrLoss');
+      if (reported !== undefined) {
+        checks.push({
+          code: 'LOT_GAIN_MISMATCH',
+          passed: withinTolerance(reported, gainOrLoss),
+          fields: [`lots.${lots.length}`],
+          expected: gainOrLoss,
+          actual: reported,
+        });
+      }
+      lots.push({
+        description: text('description') ?? '',
+        dateAcquired,
+        dateSold,
+        proceeds,
+        costBasis,
+        accruedMarketDiscount,
+        washSaleLossDisallowed,
+        gainOrLoss,
+        term: headingTerm ?? termFromDates(dateAcquired, dateSold),
+        covered,
+        page,
+        confidence: Math.min(...row.map((item) => item.confidence)),
+      });
+    }
+  }
+
+  return { lots, checks };
+}
+
+// Casilla 7 del 1099-R: "7", "G", "4D", "1, B"...
+function readDistributionCodes(items: TextItem[], layout: LabelLayout<Form1099Label>): string[] {
+  const cell = layout.cell('distributionCodes');
+  const codes = cell && textInCell(items, cell, layout.labelItems, /^[0-9A-Z][0-9A-Z ,]{0,4}$/);
+  return codes ? codes.value.replace(/[\s,]/g, '').split('') : [];
+}
+
+function crossCheck(form: Form1099Extraction): Check[] {
+  const amounts: Amounts = form.amounts;
+  const value = (field: string) => amounts[field]?.value;
+  const checks: Check[] = [];
+  const notAbove = (code: Form1099CheckCode, field: string, limitFields: string[]) => {
+    const actual = value(field);
+    const present = limitFields.filter((limitField) => value(limitField) !== undefined);
+    if (actual !== undefined && present.length > 0) {
+      const expected = roundCents(present.reduce((sum, limitField) => sum + (value(limitField) as number), 0));
+      checks.push({ code, passed: actual <= expected + 1, fields: [field, ...present], expected, actual });
+    }
+  };
+
+  if (form.variant === 'B') {
+    const withholding = value('federalWithholding');
+    if (withholding !== undefined && form.lots.length > 0) {
+      const proceeds = roundCents(form.lots.reduce((sum, lot) => sum + lot.proceeds, 0));
+      checks.push({
+        code: 'WITHHOLDING_ABOVE_INCOME',
+        passed: withholding <= proceeds,
+        fields: ['federalWithholding'],
+        expected: proceeds,
+        actual: withholding,
+      });
+    }
+    form.lots.forEach((lot, index) => {
+      const fields = [`lots.${index}`];
+      if (lot.washSaleLossDisallowed) {
+        // Solo se rechaza la pérdida de una venta con pérdida
+        const gain = roundCents(lot.proceeds - (lot.costBasis ?? 0));
+        checks.push({ code: 'WASH_SALE_ON_GAIN', passed: gain < 0, fields, actual: gain });
+      }
+      checks.push({ code: 'UNKNOWN_HOLDING_PERIOD', passed: lot.term !== 'UNKNOWN', fields });
+    });
+    return checks;
+  }
+
+  // Sin las casillas que ya están incluidas en otra
+  const income = INCOME_FIELDS[form.variant].filter((field) => !INCLUDED_IN_OTHER_BOX.includes(field));
+  notAbove('WITHHOLDING_ABOVE_INCOME', 'federalWithholding', income);
+  switch (form.variant) {
+    case 'DIV':
+      notAbove('QUALIFIED_ABOVE_ORDINARY_DIVIDENDS', 'qualifiedDividends', ['ordinaryDividends']);
+      notAbove('SECTION_199A_ABOVE_ORDINARY_DIVIDENDS', 'section199ADividends', ['ordinaryDividends']);
+      for (const field of ['unrecapturedSection1250Gain', 'section1202Gain', 'collectiblesGain']) {
+        notAbove('CAPITAL_GAIN_DETAIL_ABOVE_TOTAL', field, ['capitalGainDistributions']);
+      }
+      break;
+    case 'INT':
+      notAbove('PRIVATE_ACTIVITY_ABOVE_TAX_EXEMPT_INTEREST', 'privateActivityBondInterest', ['taxExemptInterest']);
+      break;
+    case 'K':
+      notAbove('CARD_NOT_PRESENT_ABOVE_GROSS', 'cardNotPresent', ['grossPayments']);
+      break;
+    case 'R': {
+      notAbove('TAXABLE_ABOVE_GROSS_DISTRIBUTION', 'taxableAmount', ['grossDistribution']);
+      const taxable = value('taxableAmount');
+      if (form.distributionCodes.includes('G') && taxable !== undefined) {
+        // Un rollover directo (código G) no tributa
+        checks.push({ code: 'TAXABLE_ROLLOVER', passed: taxable === 0, fields: ['taxableAmount'], actual: taxable });
+      }
+      break;
+    }
+  }
+  return checks;
+}
+
+// Cada comprobación fallida resta confianza a los campos que relaciona
+function withChecks<F extends Form1099Extraction>(form: F, checks: Check[]): F {
+  const amounts: Amounts = {};
+  for (const [field, extracted] of Object.entries(form.amounts as Amounts)) {
+    if (extracted) {
+      amounts[field] = { ...extracted, confidence: penalize(extracted.confidence, field, checks) };
+    }
+  }
+  const lots =
+    form.variant === 'B'
+      ? form.lots.map((lot, index) => ({ ...lot, confidence: penalize(lot.confidence, `lots.${index}`, checks) }))
+      : undefined;
+
+  const incomeConfidences = lots
+    ? lots.map((lot) => lot.confidence)
+    : INCOME_FIELDS[form.variant].flatMap((field) => (amounts[field] ? [amounts[field].confidence] : []));
+  return {
+    ...form,
+    ...(lots && { lots }),
+    amounts,
+    checks,
+    confidence: incomeConfidences.length > 0 ? Math.min(...incomeConfidences) : 0,
+  } as F;
+}
+
+function extractRegion({ variant, items }: Region, source: ExtractionSource): Form1099Extraction {
+  const layout = layoutOf(items, [...COMMON_LABELS, ...VARIANT_LABELS[variant]]);
+  const recipientTin = findIdentifier(items, layout, 'recipientTin', SSN_PATTERN);
+  const payerNameCell = layout.cell('payerName');
+  const accountCell = layout.cell('accountNumber');
+  const found: Check[] = [];
+  let details = {};
+
+  switch (variant) {
+    case 'B': {
+      const { lots, checks } = readLots(items);
+      found.push(...checks);
+      details = { lots };
+      break;
+    }
+    case 'R': {
+      const codes = readDistributionCodes(items, layout);
+      if (codes.some((code) => !KNOWN_DISTRIBUTION_CODES.has(code))) {
+        found.push({ code: 'UNKNOWN_DISTRIBUTION_CODE', passed: false, fields: ['distributionCodes'] });
+      }
+      details = {
+        distributionCodes: codes.filter((code) => KNOWN_DISTRIBUTION_CODES.has(code)),
+        iraSepSimple: isChecked(items, layout, 'iraSepSimple'),
+        taxableAmountNotDetermined: isChecked(items, layout, 'taxableAmountNotDetermined'),
+        totalDistribution: isChecked(items, layout, 'totalDistribution'),
+      };
+      break;
+    }
+  }
+
+  const parsed = form1099Schema.safeParse({
+    variant,
+    source,
+    taxYear: findTaxYear(items, TITLE_PATTERN),
+    payerName: payerNameCell && textInCell(items, payerNameCell, layout.labelItems, /[a-z]/i),
+    payerTin: findIdentifier(items, layout, 'payerTin', TIN_PATTERN),
+    recipientTinLast4: recipientTin && maskSsn(recipientTin),
+    accountNumber: accountCell && textInCell(items, accountCell, layout.labelItems),
+    amounts: readAmounts(items, layout, FORM_1099_AMOUNT_FIELDS[variant]),
+    checks: [],
+    confidence: 0,
+    ...details,
+  });
+  if (!parsed.success) {
+    throw new AppError('INVALID_EXTRACTION', `Invalid 1099-${variant} extraction: ${parsed.error.message}`, 500);
+  }
+  return withChecks(parsed.data, [...found, ...crossCheck(parsed.data)]);
+}
+
+/**
+ * Lleva el texto posicionado de uno o varios 1099 a sus casillas, un
+ * resultado por variante encontrada. En los estados consolidados el pagador
+ * suele aparecer solo en la primera página, así que las variantes sin él lo
+ * toman de las demás.
+ */
+export function extract1099FromItems(
+  items: TextItem[],
+  source: ExtractionSource,
+  expected?: Form1099Variant
+): Form1099Extraction[] {
+  const forms = splitByVariant(items, expected).map((region) => extractRegion(region, source));
+  const shared = <K extends 'taxYear' | 'payerName' | 'payerTin' | 'recipientTinLast4' | 'accountNumber'>(
+    key: K
+  ): Form1099Extraction[K] => forms.find((form) => form[key])?.[key];
+  return forms.map((form) => ({
+    ...form,
+    taxYear: form.taxYear ?? shared('taxYear'),
+    payerName: form.payerName ?? shared('payerName'),
+    payerTin: form.payerTin ?? shared('payerTin'),
+    recipientTinLast4: form.recipientTinLast4 ?? shared('recipientTinLast4'),
+    accountNumber: form.accountNumber ?? shared('accountNumber'),
+  }));
+}
+
+// 1099 en PDF (capa de texto), imagen (OCR) o texto ya extraído
+export async function extract1099(
+  data: Buffer | Uint8Array | string,
+  expected?: Form1099Variant
+): Promise<Form1099Extraction[]> {
+  const { items, source } = await readTextItems(data);
+  return extract1099FromItems(items, source, expected);
+}
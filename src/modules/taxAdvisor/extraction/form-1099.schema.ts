@@ -0,0 +1,182 @@
+import { z } from 'zod';
+
+export const FORM_1099_VARIANTS = ['NEC', 'MISC', 'INT', 'DIV', 'B', 'R', 'G', 'K'] as const;
+
+// Importes de cada variante, con el nombre de la casilla en el formulario del IRS
+export const FORM_1099_AMOUNT_FIELDS = {
+  NEC: ['nonemployeeCompensation', 'federalWithholding', 'stateTaxWithheld', 'stateIncome'],
+  MISC: [
+    'rents',
+    'royalties',
+    'otherIncome',
+    'federalWithholding',
+    'fishingBoatProceeds',
+    'medicalPayments',
+    'substitutePayments',
+    'cropInsurance',
+    'grossAttorneyProceeds',
+    'section409ADeferrals',
+    'nonqualifiedDeferredCompensation',
+    'stateTaxWithheld',
+    'stateIncome',
+  ],
+  INT: [
+    'interestIncome',
+    'earlyWithdrawalPenalty',
+    'savingsBondInterest',
+    'federalWithholding',
+    'investmentExpenses',
+    'foreignTaxPaid',
+    'taxExemptInterest',
+    'privateActivityBondInterest',
+    'marketDiscount',
+    'bondPremium',
+    'stateTaxWithheld',
+  ],
+  DIV: [
+    'ordinaryDividends',
+    'qualifiedDividends',
+    'capitalGainDistributions',
+    'unrecapturedSection1250Gain',
+    'section1202Gain',
+    'collectiblesGain',
+    'nondividendDistributions',
+    'federalWithholding',
+    'section199ADividends',
+    'investmentExpenses',
+    'foreignTaxPaid',
+    'cashLiquidation',
+    'exemptInterestDividends',
+    'stateTaxWithheld',
+  ],
+  B: ['federalWithholding', 'stateTaxWithheld'],
+  R: [
+    'grossDistribution',
+    'taxableAmount',
+    'capitalGain',
+    'federalWithholding',
+    'employeeContributions',
+    'unrealizedAppreciation',
+    'stateTaxWithheld',
+  ],
+  G: [
+    'unemploymentCompensation',
+    'stateLocalRefund',
+    'federalWithholding',
+    'rtaaPayments',
+    'taxableGrants',
+    'agriculturePayments',
+    'marketGain',
+    'stateTaxWithheld',
+  ],
+  K: ['grossPayments', 'cardNotPresent', 'federalWithholding', 'stateTaxWithheld'],
+} as const satisfies Record<(typeof FORM_1099_VARIANTS)[number], readonly string[]>;
+
+// Códigos de la casilla 7 del 1099-R según sus instrucciones
+export const DISTRIBUTION_CODES = [
+  '1', '2', '3', '4', '5', '6', '7', '8', '9',
+  'A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'J', 'K', 'L', 'M', 'N', 'P', 'Q', 'R', 'S', 'T', 'U', 'W', 'Y',
+] as const;
+
+export const FORM_1099_CHECK_CODES = [
+  'WITHHOLDING_ABOVE_INCOME',
+  'QUALIFIED_ABOVE_ORDINARY_DIVIDENDS',
+  'SECTION_199A_ABOVE_ORDINARY_DIVIDENDS',
+  'CAPITAL_GAIN_DETAIL_ABOVE_TOTAL',
+  'PRIVATE_ACTIVITY_ABOVE_TAX_EXEMPT_INTEREST',
+  'TAXABLE_ABOVE_GROSS_DISTRIBUTION',
+  'TAXABLE_ROLLOVER',
+  'UNKNOWN_DISTRIBUTION_CODE',
+  'CARD_NOT_PRESENT_ABOVE_GROSS',
+  'LOT_GAIN_MISMATCH',
+  'WASH_SALE_ON_GAIN',
+  'UNKNOWN_HOLDING_PERIOD',
+] as const;
+
+const confidence = z.number().min(0).max(1);
+
+const extractedValue = <T extends z.ZodTypeAny>(value: T) =>
+  z.object({ value, confidence, page: z.number().int().positive(), text: z.string() });
+
+const extractedAmount = extractedValue(z.number().finite());
+const extractedText = extractedValue(z.string());
+
+const checkSchema = z.object({
+  code: z.enum(FORM_1099_CHECK_CODES),
+  passed: z.boolean(),
+  fields: z.array(z.string()),
+  expected: z.number().optional(),
+  actual: z.number().optional(),
+});
+
+const amountsOf = <K extends string>(fields: readonly K[]) =>
+  z.object(
+    Object.fromEntries(fields.map((field) => [field, extractedAmount.optional()])) as Record<
+      K,
+      z.ZodOptional<typeof extractedAmount>
+    >
+  );
+
+const base = {
+  source: z.enum(['PDF', 'OCR', 'TEXT']),
+  taxYear: extractedValue(z.number().int()).optional(),
+  payerName: extractedText.optional(),
+  payerTin: extractedText.optional(),
+  // Solo los cuatro últimos dígitos del TIN del perceptor
+  recipientTinLast4: extractedText.optional(),
+  accountNumber: extractedText.optional(),
+  checks: z.array(checkSchema),
+  // Menor confianza entre las casillas de ingresos encontradas; 0 si no hay ninguna
+  confidence,
+};
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+export const brokerLotSchema = z.object({
+  description: z.string(),
+  // Fecha ISO o 'VARIOUS' cuando el lote agrupa varias compras
+  dateAcquired: z.union([isoDate, z.literal('VARIOUS')]).optional(),
+  dateSold: isoDate,
+  proceeds: z.number().finite(),
+  costBasis: z.number().finite().optional(),
+  accruedMarketDiscount: z.number().finite().nonnegative().optional(),
+  washSaleLossDisallowed: z.number().finite().nonnegative().optional(),
+  // (1d) - (1e) - (1f) + (1g), como la columna (h) del Form 8949
+  gainOrLoss: z.number().finite(),
+  term: z.enum(['SHORT', 'LONG', 'UNKNOWN']),
+  // Lote "covered": el bróker comunica el coste al IRS
+  covered: z.boolean().optional(),
+  page: z.number().int().positive(),
+  confidence,
+});
+
+export const form1099Schema = z.discriminatedUnion('variant', [
+  z.object({ variant: z.literal('NEC'), ...base, amounts: amountsOf(FORM_1099_AMOUNT_FIELDS.NEC) }),
+  z.object({ variant: z.literal('MISC'), ...base, amounts: amountsOf(FORM_1099_AMOUNT_FIELDS.MISC) }),
+  z.object({ variant: z.literal('INT'), ...base, amounts: amountsOf(FORM_1099_AMOUNT_FIELDS.INT) }),
+  z.object({ variant: z.literal('DIV'), ...base, amounts: amountsOf(FORM_1099_AMOUNT_FIELDS.DIV) }),
+  z.object({
+    variant: z.literal('B'),
+    ...base,
+    amounts: amountsOf(FORM_1099_AMOUNT_FIELDS.B),
+    lots: z.array(brokerLotSchema),
+  }),
+  z.object({
+    variant: z.literal('R'),
+    ...base,
+    amounts: amountsOf(FORM_1099_AMOUNT_FIELDS.R),
+    distributionCodes: z.array(z.enum(DISTRIBUTION_CODES)),
+    iraSepSimple: z.boolean(),
+    taxableAmountNotDetermined: z.boolean(),
+    totalDistribution: z.boolean(),
+  }),
+  z.object({ variant: z.literal('G'), ...base, amounts: amountsOf(FORM_1099_AMOUNT_FIELDS.G) }),
+  z.object({ variant: z.literal('K'), ...base, amounts: amountsOf(FORM_1099_AMOUNT_FIELDS.K) }),
+]);
+
+export type Form1099Variant = (typeof FORM_1099_VARIANTS)[number];
+export type Form1099CheckCode = (typeof FORM_1099_CHECK_CODES)[number];
+export type Form1099Extraction = z.infer<typeof form1099Schema>;
+export type Form1099Of<V extends Form1099Variant> = Extract<Form1099Extraction, { variant: V }>;
+export type Form1099AmountField<V extends Form1099Variant> = (typeof FORM_1099_AMOUNT_FIELDS)[V][number];
+export type BrokerLot = z.infer<typeof brokerLotSchema>;
@@ -0,0 +1,204 @@
+import { ExtractedValue, ExtractionCheck, TextItem } from '../interfaces/tax-extraction.types';
+import { normalizeLabel, parseAmount } from './text-layout';
+
+// Profundidad de una casilla sin otra etiqueta debajo, en alturas de la etiqueta
+const DEFAULT_CELL_DEPTH = 6;
+const SAME_ROW_FACTOR = 0.95;
+const AMBIGUOUS_FACTOR = 0.8;
+const MERGED_LABEL_FACTOR = 0.9;
+// Confianza de un identificador encontrado fuera de su casilla
+const OUTSIDE_CELL_FACTOR = 0.8;
+const FAILED_CHECK_FACTOR = 0.6;
+
+export const EIN_PATTERN = /\b\d{2}-?\d{7}\b/;
+export const SSN_PATTERN = /\b(?:\d{3}|[X*]{3})-?(?:\d{2}|[X*]{2})-?(\d{4})\b/i;
+const CHECK_MARK = /^[x✓✔☒]$/i;
+
+export interface FieldLabel<K extends string> {
+  key: K;
+  pattern: RegExp;
+}
+
+// Zona de la página que corresponde a una etiqueta: hasta la siguiente etiqueta a la derecha y debajo
+export interface Cell {
+  label: TextItem;
+  page: number;
+  x0: number;
+  x1: number;
+  y0: number;
+  y1: number;
+}
+
+export const sameRow = (a: TextItem, b: TextItem) => Math.abs(a.y - b.y) < Math.max(a.height, b.height) * 0.6;
+
+/**
+ * Primera etiqueta de cada campo. Se recorren las definiciones en orden y un
+ * fragmento solo puede ser etiqueta de un campo, así que las más concretas
+ * ("state income tax") deben ir antes que las genéricas ("state").
+ */
+export function findLabels<K extends string>(items: TextItem[], definitions: FieldLabel<K>[]): Map<K, TextItem> {
+  const labels = new Map<K, TextItem>();
+  const used = new Set<TextItem>();
+  for (const { key, pattern } of definitions) {
+    const label = items.find((item) => !used.has(item) && pattern.test(normalizeLabel(item.text)));
+    if (label) {
+      labels.set(key, label);
+      used.add(label);
+    }
+  }
+  return labels;
+}
+
+export interface LabelLayout<K extends string> {
+  labels: Map<K, TextItem>;
+  labelItems: Set<TextItem>;
+  cell(key: K, depth?: number): Cell | undefined;
+}
+
+export function layoutOf<K extends string>(items: TextItem[], definitions: FieldLabel<K>[]): LabelLayout<K> {
+  const labels = findLabels(items, definitions);
+  const labelItems = new Set(labels.values());
+  const all = [...labelItems];
+  return {
+    labels,
+    labelItems,
+    cell: (key, depth) => {
+      const label = labels.get(key);
+      return label ? cellOf(label, all, depth) : undefined;
+    },
+  };
+}
+
+export function cellOf(label: TextItem, labels: TextItem[], depth = DEFAULT_CELL_DEPTH): Cell {
+  const others = labels.filter((other) => other !== label && other.page === label.page);
+  const x0 = label.x - label.height * 0.5;
+  const x1 = Math.min(
+    Infinity,
+    ...others.filter((other) => sameRow(label, other) && other.x > label.x).map((other) => other.x)
+  );
+  const y1 = Math.min(
+    label.y + label.height * depth,
+    ...others
+      .filter((other) => other.y > label.y + label.height * 0.5 && other.x < x1 && other.x + other.width > x0)
+      .map((other) => other.y)
+  );
+  return { label, page: label.page, x0, x1, y0: label.y - label.height * 0.5, y1 };
+}
+
+// Fragmentos dentro de la casilla, sin etiquetas, de arriba abajo y de izquierda a derecha
+export function itemsInCell(items: TextItem[], cell: Cell, labels: Set<TextItem>): TextItem[] {
+  return items
+    .filter((item) => {
+      const center = item.x + item.width / 2;
+      return (
+        !labels.has(item) &&
+        item.page === cell.page &&
+        center >= cell.x0 &&
+        center < cell.x1 &&
+        item.y >= cell.y0 &&
+        item.y < cell.y1
+      );
+    })
+    .sort((a, b) => (sameRow(a, b) ? a.x - b.x : a.y - b.y));
+}
+
+// Agrupa fragmentos en filas por su posición vertical
+export function groupRows(items: TextItem[]): TextItem[][] {
+  const rows: TextItem[][] = [];
+  for (const item of [...items].sort((a, b) => a.y - b.y)) {
+    const row = rows.find((candidate) => sameRow(candidate[0], item));
+    if (row) {
+      row.push(item);
+    } else {
+      rows.push([item]);
+    }
+  }
+  return rows.map((row) => row.sort((a, b) => a.x - b.x));
+}
+
+export function valueOf<T>(value: T, item: TextItem, confidence = item.confidence): ExtractedValue<T> {
+  return { value, confidence: Math.round(confidence * 1000) / 1000, page: item.page, text: item.text };
+}
+
+/**
+ * Importe de una casilla: el más cercano a la etiqueta, preferiblemente debajo.
+ * Pierde confianza si está en la misma línea que la etiqueta, si hay varios
+ * candidatos o si venía pegado a la etiqueta en el mismo fragmento.
+ */
+export function amountInCell(
+  items: TextItem[],
+  cell: Cell,
+  labels: Set<TextItem>
+): ExtractedValue<number> | undefined {
+  const candidates = itemsInCell(items, cell, labels).filter((item) => parseAmount(item.text) !== null);
+  const [nearest] = candidates;
+  if (nearest) {
+    const confidence =
+      nearest.confidence *
+      (sameRow(nearest, cell.label) ? SAME_ROW_FACTOR : 1) *
+      (candidates.length > 1 ? AMBIGUOUS_FACTOR : 1);
+    return valueOf(parseAmount(nearest.text) as number, nearest, confidence);
+  }
+
+  const trailing = cell.label.text.match(/\s(\$?\s?[\d,]+(?:\.\d{2})?)$/);
+  const amount = trailing ? parseAmount(trailing[1]) : null;
+  return amount === null ? undefined : valueOf(amount, cell.label, cell.label.confidence * MERGED_LABEL_FACTOR);
+}
+
+// Primer texto de la casilla que cumple el patrón
+export function textInCell(
+  items: TextItem[],
+  cell: Cell,
+  labels: Set<TextItem>,
+  pattern: RegExp = /\S/
+): ExtractedValue<string> | undefined {
+  const item = itemsInCell(items, cell, labels).find((candidate) => pattern.test(candidate.text));
+  return item ? valueOf(item.text, item) : undefined;
+}
+
+// Casilla marcada con una X (o similar) junto a su etiqueta
+export function isChecked<K extends string>(items: TextItem[], layout: LabelLayout<K>, key: K): boolean {
+  const cell = layout.cell(key, 4);
+  return !!cell && itemsInCell(items, cell, layout.labelItems).some((item) => CHECK_MARK.test(item.text.trim()));
+}
+
+// El año suele ir en grande junto al título del formulario
+export function findTaxYear(items: TextItem[], title: RegExp): ExtractedValue<number> | undefined {
+  const [year] = items
+    .filter((item) => /^(19|20)\d{2}$/.test(item.text.trim()))
+    .sort((a, b) => b.height - a.height);
+  if (year) {
+    return valueOf(Number(year.text.trim()), year);
+  }
+  const titleItem = items.find((item) => title.test(item.text) && /\b(19|20)\d{2}\b/.test(item.text));
+  const match = titleItem?.text.match(/\b((?:19|20)\d{2})\b/);
+  return titleItem && match ? valueOf(Number(match[1]), titleItem) : undefined;
+}
+
+// Identificador en su casilla o, con menos confianza, en cualquier parte del documento
+export function findIdentifier<K extends string>(
+  items: TextItem[],
+  layout: LabelLayout<K>,
+  key: K,
+  pattern: RegExp
+): ExtractedValue<string> | undefined {
+  const cell = layout.cell(key);
+  const inCell = cell && textInCell(items, cell, layout.labelItems, pattern);
+  if (inCell) {
+    return inCell;
+  }
+  const anywhere = items.find((item) => !layout.labelItems.has(item) && pattern.test(item.text));
+  return anywhere ? valueOf(anywhere.text, anywhere, anywhere.confidence * OUTSIDE_CELL_FACTOR) : undefined;
+}
+
+// De un SSN solo se guardan los cuatro últimos dígitos
+export function maskSsn(ssn: ExtractedValue<string>): ExtractedValue<string> {
+  const last4 = (ssn.value.match(SSN_PATTERN) as RegExpMatchArray)[1];
+  return { ...ssn, value: last4, text: `XXX-XX-${last4}` };
+}
+
+// Cada comprobación fallida que afecta al campo resta confianza
+export function penalize(confidence: number, field: string, checks: ExtractionCheck<string>[]): number {
+  const failures = checks.filter((check) => !check.passed && check.fields.includes(field)).length;
+  return Math.round(confidence * FAILED_CHECK_FACTOR ** failures * 1000) / 1000;
+}
@@ -0,0 +1,191 @@
+import { ProcessedDocument } from '@/core-hub/chat/interfaces/financial-profile.types';
+import { ExtractedValue, IncomeCategory, IncomeRecord, W2Extraction } from '../interfaces/tax-extraction.types';
+import { roundCents } from '../engine/tax-computation';
+import { Form1099AmountField, Form1099Extraction, Form1099Variant } from './form-1099.schema';
+
+type RecordBoxes<V extends Form1099Variant> = Array<[field: Form1099AmountField<V>, IncomeCategory, box: string]>;
+
+// Casillas de cada variante que se llevan a un registro; las demás son informativas
+const RECORD_BOXES: { [V in Form1099Variant]: RecordBoxes<V> } = {
+  NEC: [
+    ['nonemployeeCompensation', 'SELF_EMPLOYMENT_INCOME', '1'],
+    ['federalWithholding', 'FEDERAL_WITHHOLDING', '4'],
+  ],
+  MISC: [
+    ['rents', 'RENTS', '1'],
+    ['royalties', 'ROYALTIES', '2'],
+    ['otherIncome', 'OTHER_INCOME', '3'],
+    ['federalWithholding', 'FEDERAL_WITHHOLDING', '4'],
+    ['fishingBoatProceeds', 'SELF_EMPLOYMENT_INCOME', '5'],
+    ['medicalPayments', 'SELF_EMPLOYMENT_INCOME', '6'],
+    ['substitutePayments', 'OTHER_INCOME', '8'],
+    ['cropInsurance', 'SELF_EMPLOYMENT_INCOME', '9'],
+  ],
+  INT: [
+    ['interestIncome', 'INTEREST', '1'],
+    ['savingsBondInterest', 'INTEREST', '3'],
+    ['federalWithholding', 'FEDERAL_WITHHOLDING', '4'],
+    ['taxExemptInterest', 'TAX_EXEMPT_INTEREST', '8'],
+  ],
+  DIV: [
+    ['ordinaryDividends', 'ORDINARY_DIVIDENDS', '1a'],
+    ['qualifiedDividends', 'QUALIFIED_DIVIDENDS', '1b'],
+    ['capitalGainDistributions', 'CAPITAL_GAIN_DISTRIBUTIONS', '2a'],
+    ['federalWithholding', 'FEDERAL_WITHHOLDING', '4'],
+    ['exemptInterestDividends', 'TAX_EXEMPT_INTEREST', '12'],
+  ],
+  B: [['federalWithholding', 'FEDERAL_WITHHOLDING', '4']],
+  R: [['federalWithholding', 'FEDERAL_WITHHOLDING', '4']],
+  G: [
+    ['unemploymentCompensation', 'UNEMPLOYMENT_COMPENSATION', '1'],
+    ['stateLocalRefund', 'STATE_TAX_REFUND', '2'],
+    ['federalWithholding', 'FEDERAL_WITHHOLDING', '4'],
+    ['taxableGrants', 'OTHER_INCOME', '6'],
+    ['agriculturePayments', 'SELF_EMPLOYMENT_INCOME', '7'],
+  ],
+  K: [
+    ['grossPayments', 'PAYMENT_CARD_RECEIPTS', '1a'],
+    ['federalWithholding', 'FEDERAL_WITHHOLDING', '4'],
+  ],
+};
+
+// La distribución bruta sustituye a la base imponible cuando el pagador no la determina
+const UNDETERMINED_TAXABLE_FACTOR = 0.5;
+
+interface RecordSource {
+  form: string;
+  taxYear?: ExtractedValue<number>;
+  payerId?: ExtractedValue<string>;
+  payerName?: ExtractedValue<string>;
+  accountNumber?: ExtractedValue<string>;
+}
+
+function recordFactory({ form, taxYear, payerId, payerName, accountNumber }: RecordSource) {
+  const issuer = payerId?.value ?? payerName?.value ?? 'unknown';
+  const account = accountNumber ? `:${accountNumber.value}` : '';
+  return (category: IncomeCategory, box: string, amount: number, confidence: number): IncomeRecord => ({
+    id: `${form}:${issuer}${account}:${box}`,
+    category,
+    amount: roundCents(amount),
+    taxYear: taxYear?.value,
+    form,
+    box,
+    payer: payerName?.value,
+    confidence,
+  });
+}
+
+// Casillas 1, 2, 3 y 5 del W-2
+export function incomeRecordsFromW2(w2: W2Extraction): IncomeRecord[] {
+  const record = recordFactory({
+    form: 'W-2',
+    taxYear: w2.taxYear,
+    payerId: w2.employerEin,
+    payerName: w2.employerName,
+  });
+  const { wages, federalWithholding, socialSecurityWages, medicareWages } = w2.amounts;
+  return [
+    ...(wages ? [record('WAGES', '1', wages.value, wages.confidence)] : []),
+    ...(federalWithholding
+      ? [record('FEDERAL_WITHHOLDING', '2', federalWithholding.value, federalWithholding.confidence)]
+      : []),
+    ...(socialSecurityWages
+      ? [record('SOCIAL_SECURITY_WAGES', '3', socialSecurityWages.value, socialSecurityWages.confidence)]
+      : []),
+    ...(medicareWages ? [record('MEDICARE_WAGES', '5', medicareWages.value, medicareWages.confidence)] : []),
+  ];
+}
+
+/**
+ * Registros de ingresos de un 1099. Los lotes del 1099-B se agregan por plazo
+ * (los de plazo desconocido cuentan como corto plazo, que tributa más) y del
+ * 1099-R solo se lleva la parte imponible; un rollover directo (código G) no
+ * genera registro. Los importes a 0 se omiten.
+ */
+export function incomeRecordsFrom1099(form: Form1099Extraction): IncomeRecord[] {
+  const record = recordFactory({ ...form, form: `1099-${form.variant}`, payerId: form.payerTin });
+  const amounts: Partial<Record<string, ExtractedValue<number>>> = form.amounts;
+  const boxes = RECORD_BOXES[form.variant] as RecordBoxes<Form1099Variant>;
+  const records = boxes.flatMap(([field, category, box]) => {
+    const extracted = amounts[field];
+    return extracted ? [record(category, box, extracted.value, extracted.confidence)] : [];
+  });
+
+  if (form.variant === 'B') {
+    const terms = [
+      ['SHORT_TERM_CAPITAL_GAIN', 'short-term lots', form.lots.filter((lot) => lot.term !== 'LONG')],
+      ['LONG_TERM_CAPITAL_GAIN', 'long-term lots', form.lots.filter((lot) => lot.term === 'LONG')],
+    ] as const;
+    for (const [category, box, lots] of terms) {
+      if (lots.length > 0) {
+        const gain = lots.reduce((sum, lot) => sum + lot.gainOrLoss, 0);
+        records.push(record(category, box, gain, Math.min(...lots.map((lot) => lot.confidence))));
+      }
+    }
+  }
+
+  if (form.variant === 'R' && !form.distributionCodes.includes('G')) {
+    const { taxableAmount, grossDistribution } = form.amounts;
+    if (taxableAmount) {
+      records.push(record('RETIREMENT_DISTRIBUTION', '2a', taxableAmount.value, taxableAmount.confidence));
+    } else if (grossDistribution) {
+      records.push(
+        record(
+          'RETIREMENT_DISTRIBUTION',
+          '1',
+          grossDistribution.value,
+          grossDistribution.confidence * UNDETERMINED_TAXABLE_FACTOR
+        )
+      );
+    }
+  }
+
+  return records.filter((incomeRecord) => incomeRecord.amount !== 0);
+}
+
+// Campo de un documento procesado del perfil (ver DOCUMENT_FIELD_LINES) -> categoría
+const PROCESSED_FIELD_CATEGORIES: Record<string, IncomeCategory> = {
+  wages: 'WAGES',
+  federalWithholding: 'FEDERAL_WITHHOLDING',
+  socialSecurityWages: 'SOCIAL_SECURITY_WAGES',
+  medicareWages: 'MEDICARE_WAGES',
+  nonemployeeCompensation: 'SELF_EMPLOYMENT_INCOME',
+  rents: 'RENTS',
+  royalties: 'ROYALTIES',
+  otherIncome: 'OTHER_INCOME',
+  interestIncome: 'INTEREST',
+  ordinaryDividends: 'ORDINARY_DIVIDENDS',
+  qualifiedDividends: 'QUALIFIED_DIVIDENDS',
+};
+
+/**
+ * Registros de ingresos de los W-2 y 1099 que el chat guardó en el perfil
+ * financiero. Los extractos bancarios y los campos sin categoría (casilla 16
+ * del W-2) no generan registro.
+ */
+export function incomeRecordsFromDocuments(documents: ProcessedDocument[]): IncomeRecord[] {
+  return documents.flatMap((document) => {
+    if (document.documentType === 'BANK_STATEMENT') {
+      return [];
+    }
+    const form = document.documentType === 'W2' ? 'W-2' : `1099-${document.variant}`;
+    return Object.entries(document.fields).flatMap(([name, field]): IncomeRecord[] => {
+      const category = PROCESSED_FIELD_CATEGORIES[name];
+      const box = field.line.split(' box ')[1] ?? field.line;
+      return category
+        ? [
+            {
+              id: `${document.id}:${box}`,
+              category,
+              amount: roundCents(field.value),
+              taxYear: document.taxYear,
+              form,
+              box,
+              payer: document.issuer,
+              confidence: field.confidence,
+            },
+          ]
+        : [];
+    });
+  });
+}
@@ -0,0 +1,153 @@
+import { createWorker } from 'tesseract.js';
+import { AppError } from '@/shared/utils/error-handler';
+import { ExtractionSource, TextItem } from '../interfaces/tax-extraction.types';
+
+// Separación máxima entre palabras de una misma frase, en alturas de letra
+const WORD_GAP = 1.2;
+// Rejilla con la que se sitúa el texto plano (una columna por carácter, una fila por línea)
+const CHAR_WIDTH = 5;
+const LINE_HEIGHT = 10;
+const PLAIN_TEXT_CONFIDENCE = 0.9;
+
+const AMOUNT_PATTERN = /^-?(\d{1,3}(,\d{3})+(\.\d{2})?|\d+\.\d{2}|\d{3,})$/;
+
+export function isPdf(data: Uint8Array): boolean {
+  return data.length > 4 && String.fromCharCode(...data.subarray(0, 4)) === '%PDF';
+}
+
+/**
+ * Importe de una casilla: "75,000.00", "$ 1234.56" o "1234"; las pérdidas
+ * pueden venir entre paréntesis, "(150.00)". Los números de una o dos cifras
+ * sin decimales se descartan porque son números de casilla.
+ */
+export function parseAmount(text: string): number | null {
+  const normalized = text.replace(/[$\s]/g, '');
+  const negative = normalized.match(/^\((.*)\)$/);
+  const amount = negative ? negative[1] : normalized;
+  if (!AMOUNT_PATTERN.test(amount)) {
+    return null;
+  }
+  const value = Number(amount.replace(/,/g, ''));
+  return negative ? -value : value;
+}
+
+export function normalizeLabel(text: string): string {
+  return text.toLowerCase().replace(/[’`]/g, "'").replace(/\s+/g, ' ').trim();
+}
+
+// Une las palabras contiguas de una línea de OCR en frases
+export function mergeWords(words: TextItem[]): TextItem[] {
+  const phrases: TextItem[] = [];
+  for (const word of [...words].sort((a, b) => a.x - b.x)) {
+    const previous = phrases[phrases.length - 1];
+    if (previous && word.x - (previous.x + previous.width) <= Math.max(previous.height, word.height) * WORD_GAP) {
+      const top = Math.min(previous.y, word.y);
+      phrases[phrases.length - 1] = {
+        ...previous,
+        text: `${previous.text} ${word.text}`,
+        y: top,
+        width: word.x + word.width - previous.x,
+        height: Math.max(previous.y + previous.height, word.y + word.height) - top,
+        confidence: Math.min(previous.confidence, word.confidence),
+      };
+    } else {
+      phrases.push({ ...word });
+    }
+  }
+  return phrases;
+}
+
+export async function readPdfText(data: Uint8Array): Promise<TextItem[]> {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  // pdfjs se queda con el buffer que recibe
+  const pdf = await pdfjs.getDocument({
+    data: new Uint8Array(data),
+    isEvalSupported: false,
+    disableFontFace: true,
+    verbosity: 0,
+  }).promise;
+
+  try {
+    const items: TextItem[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const pageHeight = page.getViewport({ scale: 1 }).height;
+      const content = await page.getTextContent();
+      for (const item of content.items) {
+        if (!('str' in item) || !item.str.trim()) {
+          continue;
+        }
+        const size = item.height || Math.abs(item.transform[3]);
+        items.push({
+          text: item.str.trim(),
+          page: pageNumber,
+          x: item.transform[4],
+          // pdfjs mide desde abajo y hasta la línea base
+          y: pageHeight - item.transform[5] - size,
+          width: item.width,
+          height: size,
+          confidence: 1,
+        });
+      }
+    }
+    return items;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+export async function readImageText(image: Buffer): Promise<TextItem[]> {
+  const worker = await createWorker('eng');
+  try {
+    const { data } = await worker.recognize(image, {}, { blocks: true });
+    const lines = (data.blocks ?? []).flatMap((block) => block.paragraphs).flatMap((paragraph) => paragraph.lines);
+    return lines.flatMap((line) =>
+      mergeWords(
+        line.words.map((word) => ({
+          text: word.text,
+          page: 1,
+          x: word.bbox.x0,
+          y: word.bbox.y0,
+          width: word.bbox.x1 - word.bbox.x0,
+          height: word.bbox.y1 - word.bbox.y0,
+          confidence: word.confidence / 100,
+        }))
+      )
+    );
+  } finally {
+    await worker.terminate();
+  }
+}
+
+// Texto ya extraído: cada grupo separado por dos o más espacios es un fragmento
+export function readPlainText(text: string): TextItem[] {
+  return text.split(/\r?\n/).flatMap((line, index) =>
+    Array.from(line.matchAll(/\S+(?: \S+)*/g), (match) => ({
+      text: match[0],
+      page: 1,
+      x: (match.index ?? 0) * CHAR_WIDTH,
+      y: index * LINE_HEIGHT,
+      width: match[0].length * CHAR_WIDTH,
+      height: LINE_HEIGHT * 0.8,
+      confidence: PLAIN_TEXT_CONFIDENCE,
+    }))
+  );
+}
+
+// PDF con capa de texto, imagen (OCR) o texto plano
+export async function readTextItems(data: Buffer | Uint8Array | string): Promise<{
+  items: TextItem[];
+  source: ExtractionSource;
+}> {
+  if (typeof data === 'string') {
+    return { items: readPlainText(data), source: 'TEXT' };
+  }
+  if (isPdf(data)) {
+    const items = await readPdfText(data);
+    if (items.length === 0) {
+      throw new AppError('PDF_WITHOUT_TEXT', 'The PDF has no text layer; upload a photo or scan of the form', 422);
+    }
+    return { items, source: 'PDF' };
+  }
+  return { items: await readImageText(Buffer.from(data)), source: 'OCR' };
+}
@@ -0,0 +1,348 @@
+import {
+  ExtractedValue,
+  ExtractionCheck,
+  ExtractionSource,
+  TextItem,
+  W2AmountField,
+  W2Box12Entry,
+  W2Extraction,
+  W2StateRow,
+} from '../interfaces/tax-extraction.types';
+import { getTaxYearTable, SUPPORTED_TAX_YEARS } from '../engine/tables';
+import { roundCents } from '../engine/tax-computation';
+import {
+  amountInCell,
+  EIN_PATTERN,
+  FieldLabel,
+  findIdentifier,
+  findTaxYear,
+  groupRows,
+  isChecked,
+  itemsInCell,
+  LabelLayout,
+  layoutOf,
+  maskSsn,
+  penalize,
+  SSN_PATTERN,
+  textInCell,
+} from './form-layout';
+import { parseAmount, readTextItems } from './text-layout';
+
+const BOX_12_SLOTS = ['a', 'b', 'c', 'd'] as const;
+const STATE_COLUMNS = [
+  'state',
+  'employerStateId',
+  'stateWages',
+  'stateIncomeTax',
+  'localWages',
+  'localIncomeTax',
+  'locality',
+] as const;
+
+type W2Label =
+  | W2AmountField
+  | 'employeeSsn'
+  | 'employerEin'
+  | 'employerName'
+  | 'employeeName'
+  | 'controlNumber'
+  | `box12${(typeof BOX_12_SLOTS)[number]}`
+  | 'statutoryEmployee'
+  | 'retirementPlan'
+  | 'thirdPartySickPay'
+  | 'other'
+  | (typeof STATE_COLUMNS)[number];
+
+// Textos de las casillas del W-2 (Copy B/C/2), de los más concretos a los más genéricos
+const W2_LABELS: FieldLabel<W2Label>[] = [
+  { key: 'employeeSsn', pattern: /employee'?s social security (number|no)/ },
+  { key: 'employerEin', pattern: /employer identification number|employer'?s fed(eral)? id/ },
+  { key: 'employerName', pattern: /employer'?s name/ },
+  { key: 'controlNumber', pattern: /control number/ },
+  { key: 'employeeName', pattern: /employee'?s (first )?name/ },
+  { key: 'wages', pattern: /wages,? tips,? other comp/ },
+  { key: 'federalWithholding', pattern: /federal income tax withheld/ },
+  { key: 'socialSecurityWages', pattern: /social security wages/ },
+  { key: 'socialSecurityTax', pattern: /social security tax withheld/ },
+  { key: 'medicareWages', pattern: /medicare wages/ },
+  { key: 'medicareTax', pattern: /medicare tax withheld/ },
+  { key: 'socialSecurityTips', pattern: /social security tips/ },
+  { key: 'allocatedTips', pattern: /allocated tips/ },
+  { key: 'dependentCareBenefits', pattern: /dependent care/ },
+  { key: 'nonqualifiedPlans', pattern: /nonqualified plans/ },
+  ...BOX_12_SLOTS.map((slot) => ({ key: `box12${slot}` as const, pattern: new RegExp(`^12${slot}\\b`) })),
+  { key: 'statutoryEmployee', pattern: /statutory employee/ },
+  { key: 'retirementPlan', pattern: /retirement plan/ },
+  { key: 'thirdPartySickPay', pattern: /third-?party sick pay/ },
+  { key: 'other', pattern: /^(14 )?other$/ },
+  { key: 'stateWages', pattern: /state wages/ },
+  { key: 'stateIncomeTax', pattern: /state income tax/ },
+  { key: 'localWages', pattern: /local wages/ },
+  { key: 'localIncomeTax', pattern: /local income tax/ },
+  { key: 'locality', pattern: /locality name/ },
+  { key: 'employerStateId', pattern: /employer'?s state id/ },
+  { key: 'state', pattern: /^(15 )?state$/ },
+];
+
+const AMOUNT_FIELDS: W2AmountField[] = [
+  'wages',
+  'federalWithholding',
+  'socialSecurityWages',
+  'socialSecurityTax',
+  'medicareWages',
+  'medicareTax',
+  'socialSecurityTips',
+  'allocatedTips',
+  'dependentCareBenefits',
+  'nonqualifiedPlans',
+];
+
+// Casillas de las que sale la confianza global de la extracción
+const KEY_FIELDS: W2AmountField[] = ['wages', 'federalWithholding', 'socialSecurityWages', 'medicareWages'];
+
+// Códigos de la casilla 12 según las instrucciones del W-2
+const BOX_12_CODES = new Set([
+  'A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'J', 'K', 'L', 'M', 'N', 'P', 'Q', 'R', 'S', 'T', 'V', 'W', 'Y', 'Z',
+  'AA', 'BB', 'DD', 'EE', 'FF', 'GG', 'HH', 'II',
+]);
+
+
+const SOCIAL_SECURITY_RATE = 0.062;
+const MEDICARE_RATE = 0.0145;
+// El empleador retiene el 0,9 % adicional sobre lo que supera 200.000 en cualquier estado civil
+const ADDITIONAL_MEDICARE_RATE = 0.009;
+const ADDITIONAL_MEDICARE_WITHHOLDING_THRESHOLD = 200000;
+
+// Diferencia admitida por los redondeos del empleador
+const withinTolerance = (actual: number, expected: number) =>
+  Math.abs(actual - expected) <= Math.max(1, expected * 0.005);
+
+function readBox12(items: TextItem[], layout: LabelLayout<W2Label>): W2Box12Entry[] {
+  return BOX_12_SLOTS.flatMap((slot) => {
+    const cell = layout.cell(`box12${slot}`);
+    const content = cell ? itemsInCell(items, cell, layout.labelItems) : [];
+    const match = content
+      .map((item) => item.text)
+      .join(' ')
+      .match(/\b([A-Z]{1,2})\b\s*[|:]?\s*(\$?\s?[\d,]+(?:\.\d{2})?)/);
+    const amount = match ? parseAmount(match[2]) : null;
+    if (!match || amount === null) {
+      return [];
+    }
+    return [{ slot, code: match[1], amount, confidence: Math.min(...content.map((item) => item.confidence)) }];
+  });
+}
+
+function readBox13(items: TextItem[], layout: LabelLayout<W2Label>): W2Extraction['box13'] {
+  return {
+    statutoryEmployee: isChecked(items, layout, 'statutoryEmployee'),
+    retirementPlan: isChecked(items, layout, 'retirementPlan'),
+    thirdPartySickPay: isChecked(items, layout, 'thirdPartySickPay'),
+  };
+}
+
+function readBox14(items: TextItem[], layout: LabelLayout<W2Label>): W2Extraction['box14'] {
+  const cell = layout.cell('other');
+  if (!cell) {
+    return [];
+  }
+  return groupRows(itemsInCell(items, cell, layout.labelItems)).map((row) => {
+    const amountItem = row.find((item) => parseAmount(item.text) !== null);
+    const description = row
+      .filter((item) => item !== amountItem)
+      .map((item) => item.text)
+      .join(' ');
+    return amountItem ? { description, amount: parseAmount(amountItem.text) as number } : { description };
+  });
+}
+
+// Casillas 15 a 20: una fila por estado o localidad
+function readStateRows(items: TextItem[], layout: LabelLayout<W2Label>): W2StateRow[] {
+  const columnOf = new Map<TextItem, (typeof STATE_COLUMNS)[number]>();
+  for (const column of STATE_COLUMNS) {
+    const cell = layout.cell(column, 8);
+    for (const item of cell ? itemsInCell(items, cell, layout.labelItems) : []) {
+      columnOf.set(item, column);
+    }
+  }
+
+  return groupRows([...columnOf.keys()]).flatMap((row) => {
+    const state: W2StateRow = { confidence: Math.min(...row.map((item) => item.confidence)) };
+    for (const item of row) {
+      const column = columnOf.get(item);
+      const amount = parseAmount(item.text);
+      if (column === 'state' || column === 'employerStateId') {
+        // "CA 123-4567-8" cuando el estado y el número de empleador comparten casilla
+        const [, code, rest] = item.text.match(/^([A-Z]{2})\b\s*(.*)$/) ?? [];
+        if (code && !state.state) {
+          state.state = code;
+          state.employerStateId = rest || state.employerStateId;
+        } else {
+          state.employerStateId = item.text;
+        }
+      } else if (column === 'locality') {
+        state.locality = item.text;
+      } else if (column && amount !== null) {
+        state[column] = amount;
+      }
+    }
+    const hasAmounts = [state.stateWages, state.stateIncomeTax, state.localWages, state.localIncomeTax].some(
+      (value) => value !== undefined
+    );
+    return hasAmounts || state.state ? [state] : [];
+  });
+}
+
+function crossCheck(extraction: W2Extraction): ExtractionCheck[] {
+  const value = (field: W2AmountField) => extraction.amounts[field]?.value;
+  const checks: ExtractionCheck[] = [];
+  const socialSecurityWages = value('socialSecurityWages');
+  const socialSecurityTax = value('socialSecurityTax');
+  const medicareWages = value('medicareWages');
+  const medicareTax = value('medicareTax');
+  const wages = value('wages');
+  const federalWithholding = value('federalWithholding');
+  // Las propinas de la casilla 7 también cotizan a Social Security
+  const socialSecurityBase = (socialSecurityWages ?? 0) + (value('socialSecurityTips') ?? 0);
+
+  if (socialSecurityWages !== undefined && socialSecurityTax !== undefined) {
+    const expected = roundCents(socialSecurityBase * SOCIAL_SECURITY_RATE);
+    checks.push({
+      code: 'SOCIAL_SECURITY_TAX_RATE',
+      passed: withinTolerance(socialSecurityTax, expected),
+      fields: ['socialSecurityWages', 'socialSecurityTax'],
+      expected,
+      actual: socialSecurityTax,
+    });
+  }
+  if (medicareWages !== undefined && medicareTax !== undefined) {
+    const expected = roundCents(
+      medicareWages * MEDICARE_RATE +
+        Math.max(0, medicareWages - ADDITIONAL_MEDICARE_WITHHOLDING_THRESHOLD) * ADDITIONAL_MEDICARE_RATE
+    );
+    checks.push({
+      code: 'MEDICARE_TAX_RATE',
+      passed: withinTolerance(medicareTax, expected),
+      fields: ['medicareWages', 'medicareTax'],
+      expected,
+      actual: medicareTax,
+    });
+  }
+
+  const taxYear = extraction.taxYear?.value;
+  if (socialSecurityWages !== undefined && taxYear !== undefined && SUPPORTED_TAX_YEARS.includes(taxYear)) {
+    const wageBase = getTaxYearTable(taxYear).socialSecurityWageBase;
+    checks.push({
+      code: 'SOCIAL_SECURITY_WAGE_BASE',
+      passed: socialSecurityBase <= wageBase,
+      fields: ['socialSecurityWages'],
+      expected: wageBase,
+      actual: socialSecurityBase,
+    });
+  }
+  if (wages !== undefined && federalWithholding !== undefined) {
+    checks.push({
+      code: 'WITHHOLDING_ABOVE_WAGES',
+      passed: federalWithholding <= wages,
+      fields: ['wages', 'federalWithholding'],
+      expected: wages,
+      actual: federalWithholding,
+    });
+  }
+  if (medicareWages !== undefined && socialSecurityWages !== undefined) {
+    // Los salarios de Medicare no tienen tope, nunca son menores que los de Social Security
+    checks.push({
+      code: 'MEDICARE_BELOW_SOCIAL_SECURITY_WAGES',
+      passed: medicareWages + 1 >= socialSecurityWages,
+      fields: ['medicareWages', 'socialSecurityWages'],
+      expected: socialSecurityWages,
+      actual: medicareWages,
+    });
+  }
+
+  extraction.states.forEach((row, index) => {
+    if (row.stateWages !== undefined && row.stateIncomeTax !== undefined) {
+      checks.push({
+        code: 'STATE_TAX_ABOVE_WAGES',
+        passed: row.stateIncomeTax <= row.stateWages,
+        fields: [`states.${index}`],
+        expected: row.stateWages,
+        actual: row.stateIncomeTax,
+      });
+    }
+  });
+  extraction.box12.forEach((entry) => {
+    checks.push({ code: 'UNKNOWN_BOX_12_CODE', passed: BOX_12_CODES.has(entry.code), fields: [`box12${entry.slot}`] });
+  });
+
+  return checks;
+}
+
+// Cada comprobación fallida resta confianza a los campos que relaciona
+function applyChecks(extraction: W2Extraction): W2Extraction {
+  const checks = crossCheck(extraction);
+
+  const amounts: W2Extraction['amounts'] = {};
+  for (const [field, extracted] of Object.entries(extraction.amounts) as [W2AmountField, ExtractedValue<number>][]) {
+    amounts[field] = { ...extracted, confidence: penalize(extracted.confidence, field, checks) };
+  }
+  const keyConfidences = KEY_FIELDS.flatMap((field) => (amounts[field] ? [amounts[field].confidence] : []));
+
+  return {
+    ...extraction,
+    amounts,
+    box12: extraction.box12.map((entry) => ({
+      ...entry,
+      confidence: penalize(entry.confidence, `box12${entry.slot}`, checks),
+    })),
+    states: extraction.states.map((row, index) => ({
+      ...row,
+      confidence: penalize(row.confidence, `states.${index}`, checks),
+    })),
+    checks,
+    confidence: amounts.wages ? Math.min(...keyConfidences) : 0,
+  };
+}
+
+/**
+ * Lleva el texto posicionado de un W-2 a sus casillas: la etiqueta impresa
+ * de cada casilla delimita la zona en la que se busca su valor. Las casillas
+ * que no aparecen se omiten en lugar de valer 0.
+ */
+export function extractW2FromItems(items: TextItem[], source: ExtractionSource): W2Extraction {
+  const layout = layoutOf(items, W2_LABELS);
+  const amounts: W2Extraction['amounts'] = {};
+  for (const field of AMOUNT_FIELDS) {
+    const cell = layout.cell(field);
+    const amount = cell && amountInCell(items, cell, layout.labelItems);
+    if (amount) {
+      amounts[field] = amount;
+    }
+  }
+
+  const ssn = findIdentifier(items, layout, 'employeeSsn', SSN_PATTERN);
+  const employerNameCell = layout.cell('employerName');
+  const controlNumberCell = layout.cell('controlNumber');
+
+  return applyChecks({
+    source,
+    taxYear: findTaxYear(items, /wage and tax statement/i),
+    employerEin: findIdentifier(items, layout, 'employerEin', EIN_PATTERN),
+    employerName: employerNameCell && textInCell(items, employerNameCell, layout.labelItems, /[a-z]/i),
+    employeeSsnLast4: ssn && maskSsn(ssn),
+    controlNumber: controlNumberCell && textInCell(items, controlNumberCell, layout.labelItems),
+    amounts,
+    box12: readBox12(items, layout),
+    box13: readBox13(items, layout),
+    box14: readBox14(items, layout),
+    states: readStateRows(items, layout),
+    checks: [],
+    confidence: 0,
+  });
+}
+
+// W-2 en PDF (capa de texto), imagen (OCR) o texto ya extraído
+export async function extractW2(data: Buffer | Uint8Array | string): Promise<W2Extraction> {
+  const { items, source } = await readTextItems(data);
+  return extractW2FromItems(items, source);
+}
@@ -0,0 +1,224 @@
+import { describe, it, expect } from 'vitest';
+import { PDFCheckBox, PDFDocument, PDFRadioGroup, PDFTextField } from 'pdf-lib';
+import { LLMProvider } from '@/core-hub/ai/interfaces/llm-provider.types';
+import { FormMapping, TaxpayerInfo } from '../../interfaces/tax-forms.types';
+import { computeForm1040 } from '../../engine/form-1040';
+import { planEstimatedTax } from '../../engine/estimated-tax';
+import { buildScheduleC, returnInputWithScheduleC } from '../../engine/schedule-c';
+import { readPdfText } from '../../extraction/text-layout';
+import { TaxFormProcessorService } from '../../services/tax-form-processor.service';
+import { fillForm } from '../form-filler';
+import { form1040Values } from '../form-values';
+import { getFormMapping } from '../mappings';
+import { buildTemplate, templateSource } from './synthetic-templates';
+
+// En jsdom un Buffer de Node no pasa por Uint8Array para pdf-lib
+const load = (pdf: Buffer) => PDFDocument.load(new Uint8Array(pdf));
+
+const TAXPAYER: TaxpayerInfo = {
+  firstName: 'Jane',
+  lastName: 'Doe',
+  ssn: '123-45-6789',
+  spouseFirstName: 'John',
+  spouseLastName: 'Doe',
+  spouseSsn: '987-65-4321',
+  address: '100 Main St',
+  city: 'Austin',
+  state: 'TX',
+  zip: '78701',
+};
+
+const CUSTOM: FormMapping = {
+  form: 'F1040',
+  year: 2024,
+  template: 'custom.pdf',
+  fields: {
+    ein: { kind: 'COMB', field: 'form[0].Page1[0].ein[0]', length: 9 },
+    digitalAssets: { kind: 'RADIO', field: 'form[0].Page1[0].c1_1', options: { YES: '1', NO: '2' } },
+    deceased: { kind: 'CHECKBOX', field: 'form[0].Page1[0].c1_2[0]' },
+    capitalGain: { kind: 'AMOUNT', field: 'form[0].Page2[0].f2_01[0]' },
+  },
+};
+
+describe('fillForm', () => {
+  it('should fill the 2024 Form 1040 and read the values back', async () => {
+    const mapping = getFormMapping('F1040', 2024);
+    const computation = computeForm1040({
+      taxYear: 2024,
+      filingStatus: 'MARRIED_FILING_JOINTLY',
+      wages: 120000,
+      taxableInterest: 410.25,
+      federalWithholding: 14000,
+      qualifyingChildren: 1,
+    });
+
+    const filled = await fillForm(await buildTemplate(mapping), mapping, form1040Values(computation, TAXPAYER));
+    const form = (await load(filled)).getForm();
+    const text = (key: string) => {
+      const field = mapping.fields[key];
+      return 'field' in field ? form.getTextField(field.field).getText() : undefined;
+    };
+
+    expect(text('firstName')).toBe('Jane');
+    expect(text('ssn')).toBe('123456789');
+    expect(text('spouseSsn')).toBe('987654321');
+    expect(text('line1z')).toBe('120,000.00');
+    expect(text('line2b')).toBe('410.25');
+    expect(text('line11')).toBe('120,410.25');
+    expect(text('line24')).toBe(computation.lines.totalTax.toLocaleString('en-US', { minimumFractionDigits: 2 }));
+    // Líneas a 0 en blanco
+    expect(text('line7')).toBeUndefined();
+
+    const filingStatus = mapping.fields.filingStatus;
+    if (filingStatus.kind !== 'CHECKBOX_GROUP') throw new Error('filingStatus is not a checkbox group');
+    const checked = Object.entries(filingStatus.fields)
+      .filter(([, name]) => form.getCheckBox(name).isChecked())
+      .map(([status]) => status);
+    expect(checked).toEqual(['MARRIED_FILING_JOINTLY']);
+  });
+
+  it('should set comb, radio, checkbox and second-page amount fields', async () => {
+    const filled = await fillForm(await buildTemplate(CUSTOM), CUSTOM, {
+      ein: '12-3456789',
+      digitalAssets: 'NO',
+      deceased: true,
+      capitalGain: -3000,
+    });
+    const pdf = await load(filled);
+    const form = pdf.getForm();
+
+    expect(pdf.getPageCount()).toBe(2);
+    expect(form.getField('form[0].Page1[0].ein[0]')).toBeInstanceOf(PDFTextField);
+    expect(form.getTextField('form[0].Page1[0].ein[0]').getText()).toBe('123456789');
+    expect(form.getField('form[0].Page1[0].c1_1')).toBeInstanceOf(PDFRadioGroup);
+    expect(form.getRadioGroup('form[0].Page1[0].c1_1').getSelected()).toBe('2');
+    expect(form.getField('form[0].Page1[0].c1_2[0]')).toBeInstanceOf(PDFCheckBox);
+    expect(form.getCheckBox('form[0].Page1[0].c1_2[0]').isChecked()).toBe(true);
+    expect(form.getTextField('form[0].Page2[0].f2_01[0]').getText()).toBe('(3,000.00)');
+  });
+
+  it('should reject values that do not fit their field', async () => {
+    const template = await buildTemplate(CUSTOM);
+
+    await expect(fillForm(template, CUSTOM, { ein: '12-345' })).rejects.toMatchObject({
+      code: 'INVALID_FORM_VALUE',
+      params: { field: 'ein' },
+    });
+    await expect(fillForm(template, CUSTOM, { digitalAssets: 'MAYBE' })).rejects.toMatchObject({
+      code: 'INVALID_FORM_VALUE',
+    });
+  });
+
+  it('should fail when the template lacks a mapped field', async () => {
+    const template = await buildTemplate({ ...CUSTOM, fields: { ein: CUSTOM.fields.ein } });
+
+    await expect(fillForm(template, CUSTOM, { ein: '123456789' })).rejects.toMatchObject({
+      code: 'FORM_TEMPLATE_MISMATCH',
+      params: { form: 'F1040', fields: 'form[0].Page1[0].c1_1, form[0].Page1[0].c1_2[0], form[0].Page2[0].f2_01[0]' },
+    });
+  });
+
+  it('should flatten the fields into page text', async () => {
+    const filled = await fillForm(
+      await buildTemplate(CUSTOM),
+      CUSTOM,
+      { ein: '123456789', capitalGain: 1250.5 },
+      { flatten: true }
+    );
+
+    expect((await load(filled)).getForm().getFields()).toEqual([]);
+    const texts = (await readPdfText(new Uint8Array(filled))).map((item) => [item.text, item.page]);
+    expect(texts).toEqual(expect.arrayContaining([['1,250.50', 2]]));
+  });
+});
+
+const fieldName = (mapping: FormMapping['fields'], key: string) => {
+  const fieldMapping = mapping[key];
+  return 'field' in fieldMapping ? fieldMapping.field : '';
+};
+
+describe('TaxFormProcessorService.fillForms', () => {
+  it('should fill the 1040, Schedule 2 and Schedule SE for self-employment income', async () => {
+    const service = new TaxFormProcessorService({} as LLMProvider, await templateSource());
+    const computation = computeForm1040({ taxYear: 2024, filingStatus: 'SINGLE', selfEmploymentIncome: 50000 });
+
+    const forms = await service.fillForms(computation, { taxpayer: TAXPAYER });
+
+    expect(forms).toHaveLength(3);
+    const [, schedule2, scheduleSE] = await Promise.all(forms.map(load));
+    const se = getFormMapping('SCHEDULE_SE', 2024).fields;
+    expect(scheduleSE.getForm().getTextField(fieldName(se, 'line12')).getText()).toBe('7,064.78');
+    expect(scheduleSE.getForm().getTextField(fieldName(se, 'name')).getText()).toBe('Jane Doe');
+    const schedule2Fields = getFormMapping('SCHEDULE_2', 2024).fields;
+    expect(schedule2.getForm().getTextField(fieldName(schedule2Fields, 'line4')).getText()).toBe('7,064.78');
+  });
+
+  it('should add the Schedule C and carry its net profit to the Schedule SE', async () => {
+    const service = new TaxFormProcessorService({} as LLMProvider, await templateSource());
+    const scheduleC = buildScheduleC({
+      taxYear: 2024,
+      businessName: 'Doe Design',
+      businessCode: '541430',
+      grossReceipts: 60000,
+      expenses: [
+        { description: 'Software subscriptions', amount: 1200 },
+        { description: 'Client lunches', amount: 500 },
+      ],
+      homeOffice: { method: 'SIMPLIFIED', officeSquareFeet: 200 },
+    });
+    const input = returnInputWithScheduleC({ taxYear: 2024, filingStatus: 'SINGLE' }, scheduleC);
+
+    const forms = await service.fillForms(computeForm1040(input), { taxpayer: TAXPAYER, scheduleC });
+
+    expect(forms).toHaveLength(4);
+    const [f1040, , scheduleCPdf, scheduleSE] = await Promise.all(forms.map(load));
+    const c = getFormMapping('SCHEDULE_C', 2024).fields;
+    const text = (pdf: PDFDocument, key: string, mapping = c) =>
+      pdf.getForm().getTextField(fieldName(mapping, key)).getText();
+    expect(text(scheduleCPdf, 'businessCode')).toBe('541430');
+    expect(text(scheduleCPdf, 'line1')).toBe('60,000.00');
+    expect(text(scheduleCPdf, 'line18')).toBe('1,200.00');
+    expect(text(scheduleCPdf, 'line24b')).toBe('250.00');
+    expect(text(scheduleCPdf, 'line28')).toBe('1,450.00');
+    expect(text(scheduleCPdf, 'line30')).toBe('1,000.00');
+    expect(text(scheduleCPdf, 'line31')).toBe('57,550.00');
+    expect(text(scheduleSE, 'line2', getFormMapping('SCHEDULE_SE', 2024).fields)).toBe('57,550.00');
+    expect(text(f1040, 'line13', getFormMapping('F1040', 2024).fields)).toBe(
+      input.qbiDeduction?.toLocaleString('en-US', { minimumFractionDigits: 2 })
+    );
+  });
+
+  it('should not fill forms for a year without a field mapping', async () => {
+    const service = new TaxFormProcessorService({} as LLMProvider, { load: async () => new Uint8Array() });
+    const computation = computeForm1040({ taxYear: 2023, filingStatus: 'SINGLE', wages: 50000 });
+
+    await expect(service.fillForms(computation)).rejects.toMatchObject({
+      code: 'UNSUPPORTED_FORM_YEAR',
+      status: 400,
+    });
+  });
+});
+
+describe('TaxFormProcessorService.fillEstimatedTaxVouchers', () => {
+  it('should fill one voucher per installment with an amount due', async () => {
+    const service = new TaxFormProcessorService({} as LLMProvider, await templateSource());
+    const plan = planEstimatedTax({
+      taxReturn: { taxYear: 2024, filingStatus: 'MARRIED_FILING_JOINTLY', selfEmploymentIncome: 90000 },
+      priorYear: { totalTax: 16000, adjustedGrossIncome: 85000 },
+      paymentsMade: [4000],
+    });
+
+    const vouchers = await load(await service.fillEstimatedTaxVouchers(plan, { taxpayer: TAXPAYER }));
+
+    const fields = getFormMapping('F1040ES', 2024).fields;
+    const text = (key: string) => vouchers.getForm().getTextField(fieldName(fields, key)).getText();
+    // El primer plazo ya está pagado: su voucher queda en blanco
+    expect(text('voucher1.amount')).toBeUndefined();
+    expect(text('voucher1.ssn')).toBeUndefined();
+    expect(text('voucher2.amount')).toBe('4,000.00');
+    expect(text('voucher4.amount')).toBe('4,000.00');
+    expect(text('voucher2.ssn')).toBe('123456789');
+    expect(text('voucher2.spouseSsn')).toBe('987654321');
+    expect(text('voucher3.cityStateZip')).toBe('Austin, TX 78701');
+  });
+});
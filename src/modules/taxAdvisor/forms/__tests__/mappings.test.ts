@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { PDFCheckBox, PDFDocument, PDFField, PDFRadioGroup, PDFTextField } from 'pdf-lib';
+import { FormFieldMapping, IrsFormId } from '../../interfaces/tax-forms.types';
+import { SUPPORTED_FORM_YEARS, getFormMapping } from '../mappings';
+
+type TemplateField = { type: 'TEXT'; maxLength?: number } | { type: 'CHECKBOX' } | { type: 'RADIO'; options: string[] };
+
+const FORMS: IrsFormId[] = ['F1040', 'SCHEDULE_2', 'SCHEDULE_C', 'SCHEDULE_SE', 'F1040ES'];
+// Listas de campos sacadas de los PDF del IRS con scripts/extract-form-fields.mjs
+const FIELD_LISTS_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'mappings', 'fields');
+const FORMS_DIR = process.env.IRS_FORMS_DIR ?? path.join(process.cwd(), 'data', 'irs-forms');
+
+function describeField(field: PDFField): TemplateField | undefined {
+  if (field instanceof PDFTextField) return { type: 'TEXT', maxLength: field.getMaxLength() };
+  if (field instanceof PDFCheckBox) return { type: 'CHECKBOX' };
+  if (field instanceof PDFRadioGroup) return { type: 'RADIO', options: field.getOptions() };
+  return undefined;
+}
+
+// El PDF del IRS si está descargado; si no, la lista de campos versionada
+async function templateFields(template: string): Promise<Record<string, TemplateField | undefined>> {
+  const pdfPath = path.join(FORMS_DIR, template);
+  if (existsSync(pdfPath)) {
+    const pdf = await PDFDocument.load(new Uint8Array(readFileSync(pdfPath)));
+    return Object.fromEntries(pdf.getForm().getFields().map((field) => [field.getName(), describeField(field)]));
+  }
+  const list = path.join(FIELD_LISTS_DIR, template.replace(/\.pdf$/, '.json'));
+  return JSON.parse(readFileSync(list, 'utf8')).fields;
+}
+
+const hasTemplate = (template: string) =>
+  existsSync(path.join(FORMS_DIR, template)) ||
+  existsSync(path.join(FIELD_LISTS_DIR, template.replace(/\.pdf$/, '.json')));
+
+// Campos del mapeo que no existen en la plantilla o no son del tipo esperado
+function mismatches(
+  fields: Record<string, FormFieldMapping>,
+  template: Record<string, TemplateField | undefined>
+): string[] {
+  return Object.entries(fields).flatMap(([key, mapping]): string[] => {
+    if (mapping.kind === 'CHECKBOX_GROUP') {
+      return Object.values(mapping.fields)
+        .filter((name) => template[name]?.type !== 'CHECKBOX')
+        .map((name) => `${key}: ${name}`);
+    }
+    const field = template[mapping.field];
+    const expected = mapping.kind === 'CHECKBOX' || mapping.kind === 'RADIO' ? mapping.kind : 'TEXT';
+    if (field?.type !== expected) return [`${key}: ${mapping.field}`];
+    if (mapping.kind === 'COMB' && field.type === 'TEXT' && field.maxLength !== mapping.length) {
+      return [`${key}: ${mapping.field} holds ${field.maxLength} characters`];
+    }
+    if (mapping.kind === 'RADIO' && field.type === 'RADIO') {
+      const missing = Object.values(mapping.options).filter((option) => !field.options.includes(option));
+      return missing.length > 0 ? [`${key}: ${mapping.field} lacks options ${missing.join(', ')}`] : [];
+    }
+    return [];
+  });
+}
+
+describe('IRS form mappings', () => {
+  for (const year of SUPPORTED_FORM_YEARS) {
+    for (const form of FORMS) {
+      const mapping = getFormMapping(form, year);
+      // Sin el PDF ni su lista de campos no hay con qué comparar
+      it.skipIf(!hasTemplate(mapping.template))(
+        `should match the field names of ${mapping.template}`,
+        async () => {
+          expect(mismatches(mapping.fields, await templateFields(mapping.template))).toEqual([]);
+        }
+      );
+    }
+  }
+});
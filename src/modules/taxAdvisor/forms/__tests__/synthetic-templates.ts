@@ -0,0 +1,57 @@
+import { PDFDocument } from 'pdf-lib';
+import { FormMapping } from '../../interfaces/tax-forms.types';
+import { FormTemplateSource } from '../templates';
+import { getFormMapping } from '../mappings';
+
+const ROW_HEIGHT = 14;
+
+// Plantilla sintética con los campos del mapeo; los de Page2 van en la segunda página
+export async function buildTemplate(mapping: FormMapping): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const pages = [pdf.addPage([612, 792]), pdf.addPage([612, 792])];
+  const rows = [0, 0];
+  const form = pdf.getForm();
+  const place = (name: string, width = 150) => {
+    const index = name.includes('Page2') ? 1 : 0;
+    rows[index] += 1;
+    return { page: pages[index], box: { x: 40, y: 780 - rows[index] * ROW_HEIGHT, width, height: 12 } };
+  };
+
+  for (const field of Object.values(mapping.fields)) {
+    if (field.kind === 'CHECKBOX_GROUP') {
+      for (const name of Object.values(field.fields)) {
+        const { page, box } = place(name, 10);
+        form.createCheckBox(name).addToPage(page, box);
+      }
+    } else if (field.kind === 'CHECKBOX') {
+      const { page, box } = place(field.field, 10);
+      form.createCheckBox(field.field).addToPage(page, box);
+    } else if (field.kind === 'RADIO') {
+      const group = form.createRadioGroup(field.field);
+      for (const option of Object.values(field.options)) {
+        const { page, box } = place(field.field, 10);
+        group.addOptionToPage(option, page, box);
+      }
+    } else {
+      const { page, box } = place(field.field);
+      const textField = form.createTextField(field.field);
+      if (field.kind === 'COMB') {
+        textField.setMaxLength(field.length);
+        textField.enableCombing();
+      }
+      textField.addToPage(page, box);
+    }
+  }
+  return pdf.save();
+}
+
+// Plantillas sintéticas de todos los formularios de 2024
+export async function templateSource(): Promise<FormTemplateSource> {
+  const templates = await Promise.all(
+    (['F1040', 'SCHEDULE_2', 'SCHEDULE_C', 'SCHEDULE_SE', 'F1040ES'] as const).map(async (form) => {
+      const mapping = getFormMapping(form, 2024);
+      return [mapping.template, await buildTemplate(mapping)] as const;
+    })
+  );
+  return { load: async (template: string) => new Map(templates).get(template) as Uint8Array };
+}
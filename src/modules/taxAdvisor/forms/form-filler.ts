@@ -0,0 +1,100 @@
+import { PDFDocument, PDFForm } from 'pdf-lib';
+import { AppError } from '@/shared/utils/error-handler';
+import { FormFieldMapping, FormMapping, FormValues } from '../interfaces/tax-forms.types';
+
+const AMOUNT_FORMAT = new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export function formatAmount(value: number): string {
+  const formatted = AMOUNT_FORMAT.format(Math.abs(value));
+  return value < 0 ? `(${formatted})` : formatted;
+}
+
+function fieldNames(mapping: FormFieldMapping): string[] {
+  return mapping.kind === 'CHECKBOX_GROUP' ? Object.values(mapping.fields) : [mapping.field];
+}
+
+function invalidValue(field: string, message: string): AppError {
+  return new AppError('INVALID_FORM_VALUE', message, 400, { field });
+}
+
+function setField(form: PDFForm, key: string, mapping: FormFieldMapping, value: string | number | boolean) {
+  switch (mapping.kind) {
+    case 'TEXT':
+      form.getTextField(mapping.field).setText(String(value));
+      break;
+    case 'AMOUNT':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw invalidValue(key, `${key} must be an amount`);
+      }
+      form.getTextField(mapping.field).setText(formatAmount(value));
+      break;
+    case 'COMB': {
+      const digits = String(value).replace(/\D/g, '');
+      if (digits.length !== mapping.length) {
+        throw invalidValue(key, `${key} must have ${mapping.length} digits`);
+      }
+      form.getTextField(mapping.field).setText(digits);
+      break;
+    }
+    case 'CHECKBOX': {
+      const checkBox = form.getCheckBox(mapping.field);
+      if (value) checkBox.check();
+      else checkBox.uncheck();
+      break;
+    }
+    case 'RADIO': {
+      const option = mapping.options[String(value)];
+      if (!option) throw invalidValue(key, `${key} has no option ${value}`);
+      form.getRadioGroup(mapping.field).select(option);
+      break;
+    }
+    case 'CHECKBOX_GROUP': {
+      if (!mapping.fields[String(value)]) throw invalidValue(key, `${key} has no box ${value}`);
+      for (const [option, name] of Object.entries(mapping.fields)) {
+        const checkBox = form.getCheckBox(name);
+        if (option === String(value)) checkBox.check();
+        else checkBox.uncheck();
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Rellena el PDF del IRS con los valores de la declaración según el mapeo del
+ * año. Antes de escribir nada comprueba que la plantilla tenga todos los
+ * campos del mapeo: si el IRS publica una revisión con otros nombres, falla en
+ * vez de devolver un formulario a medias. Los valores sin definir se dejan en
+ * blanco.
+ */
+export async function fillForm(
+  template: Uint8Array | ArrayBuffer,
+  mapping: FormMapping,
+  values: FormValues,
+  { flatten = false }: { flatten?: boolean } = {}
+): Promise<Buffer> {
+  const pdf = await PDFDocument.load(template);
+  const form = pdf.getForm();
+
+  const missing = Object.values(mapping.fields)
+    .flatMap(fieldNames)
+    .filter((name) => !form.getFieldMaybe(name));
+  if (missing.length > 0) {
+    throw new AppError(
+      'FORM_TEMPLATE_MISMATCH',
+      `Template ${mapping.template} is missing ${missing.length} mapped fields`,
+      500,
+      { form: mapping.form, fields: missing.join(', ') }
+    );
+  }
+
+  for (const [key, value] of Object.entries(values)) {
+    const fieldMapping = mapping.fields[key];
+    if (fieldMapping && value !== undefined && value !== '') {
+      setField(form, key, fieldMapping, value);
+    }
+  }
+
+  if (flatten) form.flatten();
+  return Buffer.from(await pdf.save());
+}
@@ -0,0 +1,178 @@
+import { EstimatedTaxPlan, TaxComputation } from '../interfaces/tax-engine.types';
+import { FillFormsOptions, FormValues, ReturnFormId, TaxpayerInfo } from '../interfaces/tax-forms.types';
+import { ScheduleC, ScheduleCExpenseLine } from '../interfaces/schedule-c.types';
+
+// Los importes a 0 se dejan en blanco, como indican las instrucciones del IRS
+const nonZero = (value: number) => (value === 0 ? undefined : value);
+
+function taxpayerValues(taxpayer?: TaxpayerInfo): FormValues {
+  return taxpayer ? { ...taxpayer } : {};
+}
+
+function scheduleHeader(taxpayer?: TaxpayerInfo): FormValues {
+  return taxpayer ? { name: `${taxpayer.firstName} ${taxpayer.lastName}`, ssn: taxpayer.ssn } : {};
+}
+
+// Líneas del Form 1040 con las cifras del motor; la retención va entera a la 25d
+export function form1040Values(computation: TaxComputation, taxpayer?: TaxpayerInfo): FormValues {
+  const { lines } = computation;
+  const credits = lines.earnedIncomeCredit + lines.additionalChildTaxCredit;
+  return {
+    ...taxpayerValues(taxpayer),
+    filingStatus: computation.filingStatus,
+    line1a: nonZero(lines.wages),
+    line1z: nonZero(lines.wages),
+    line2b: nonZero(lines.taxableInterest),
+    line3a: nonZero(lines.qualifiedDividends),
+    line3b: nonZero(lines.ordinaryDividends),
+    line4b: nonZero(lines.taxableRetirementDistributions),
+    line7: nonZero(lines.capitalGainOrLoss),
+    line8: nonZero(lines.additionalIncome),
+    line9: lines.totalIncome,
+    line10: nonZero(lines.adjustments),
+    line11: lines.adjustedGrossIncome,
+    line12: lines.deduction,
+    line13: nonZero(lines.qbiDeduction),
+    line14: lines.deduction + lines.qbiDeduction,
+    line15: lines.taxableIncome,
+    line16: lines.tax,
+    line18: lines.tax,
+    line19: nonZero(lines.childTaxCredit),
+    line21: nonZero(lines.childTaxCredit),
+    line22: lines.taxAfterCredits,
+    line23: nonZero(lines.otherTaxes),
+    line24: lines.totalTax,
+    line25d: nonZero(lines.federalWithholding),
+    line26: nonZero(lines.estimatedTaxPayments),
+    line27: nonZero(lines.earnedIncomeCredit),
+    line28: nonZero(lines.additionalChildTaxCredit),
+    line32: nonZero(credits),
+    line33: lines.totalPayments,
+    line34: nonZero(lines.refund),
+    line35a: nonZero(lines.refund),
+    line37: nonZero(lines.amountOwed),
+  };
+}
+
+// Schedule 2, parte II: impuesto de autónomos y Additional Medicare Tax
+export function schedule2Values(computation: TaxComputation, taxpayer?: TaxpayerInfo): FormValues {
+  return {
+    ...scheduleHeader(taxpayer),
+    line4: nonZero(computation.selfEmploymentTax.total),
+    line11: nonZero(computation.additionalMedicareTax),
+    line21: computation.lines.otherTaxes,
+  };
+}
+
+const EXPENSE_FORM_LINES: Record<ScheduleCExpenseLine, string> = {
+  ADVERTISING: 'line8',
+  CAR_AND_TRUCK: 'line9',
+  COMMISSIONS_AND_FEES: 'line10',
+  CONTRACT_LABOR: 'line11',
+  DEPRECIATION: 'line13',
+  EMPLOYEE_BENEFITS: 'line14',
+  INSURANCE: 'line15',
+  MORTGAGE_INTEREST: 'line16a',
+  OTHER_INTEREST: 'line16b',
+  LEGAL_AND_PROFESSIONAL: 'line17',
+  OFFICE_EXPENSE: 'line18',
+  PENSION_AND_PROFIT_SHARING: 'line19',
+  RENT_VEHICLES_EQUIPMENT: 'line20a',
+  RENT_OTHER_PROPERTY: 'line20b',
+  REPAIRS_AND_MAINTENANCE: 'line21',
+  SUPPLIES: 'line22',
+  TAXES_AND_LICENSES: 'line23',
+  TRAVEL: 'line24a',
+  MEALS: 'line24b',
+  UTILITIES: 'line25',
+  WAGES: 'line26',
+  OTHER_EXPENSES: 'line27a',
+};
+
+// Schedule C, partes I y II
+export function scheduleCValues(scheduleC: ScheduleC, taxpayer?: TaxpayerInfo): FormValues {
+  const expenses = Object.entries(scheduleC.expenses).map(([line, value]) => [
+    EXPENSE_FORM_LINES[line as ScheduleCExpenseLine],
+    nonZero(value),
+  ]);
+  return {
+    ...scheduleHeader(taxpayer),
+    businessName: scheduleC.businessName,
+    businessCode: scheduleC.businessCode,
+    line1: scheduleC.grossReceipts,
+    line2: nonZero(scheduleC.returnsAndAllowances),
+    line3: scheduleC.grossReceipts - scheduleC.returnsAndAllowances,
+    line4: nonZero(scheduleC.costOfGoodsSold),
+    line5: scheduleC.grossProfit,
+    line6: nonZero(scheduleC.otherIncome),
+    line7: scheduleC.grossIncome,
+    ...Object.fromEntries(expenses),
+    line28: scheduleC.totalExpenses,
+    line29: scheduleC.tentativeProfit,
+    line30: nonZero(scheduleC.homeOffice?.deduction ?? 0),
+    line31: scheduleC.netProfit,
+  };
+}
+
+// Schedule SE, parte I (sin ingresos agrícolas ni de iglesias); las líneas 2 y 3 salen del Schedule C
+export function scheduleSEValues(
+  computation: TaxComputation,
+  taxpayer?: TaxpayerInfo,
+  scheduleC?: ScheduleC
+): FormValues {
+  const { netEarnings, socialSecurityTax, medicareTax, total, deductiblePart } = computation.selfEmploymentTax;
+  return {
+    ...scheduleHeader(taxpayer),
+    line2: scheduleC?.netProfit,
+    line3: scheduleC?.netProfit,
+    line4a: netEarnings,
+    line4c: netEarnings,
+    line6: netEarnings,
+    line10: socialSecurityTax,
+    line11: medicareTax,
+    line12: total,
+    line13: deductiblePart,
+  };
+}
+
+export const FORM_VALUES: Record<
+  ReturnFormId,
+  (computation: TaxComputation, options: FillFormsOptions) => FormValues
+> = {
+  F1040: (computation, { taxpayer }) => form1040Values(computation, taxpayer),
+  SCHEDULE_2: (computation, { taxpayer }) => schedule2Values(computation, taxpayer),
+  // requiredForms solo pide el Schedule C si hay uno
+  SCHEDULE_C: (_, { taxpayer, scheduleC }) => scheduleCValues(scheduleC as ScheduleC, taxpayer),
+  SCHEDULE_SE: (computation, { taxpayer, scheduleC }) => scheduleSEValues(computation, taxpayer, scheduleC),
+};
+
+// Formularios que hay que presentar, en el orden de adjuntarlos a la declaración
+export function requiredForms(computation: TaxComputation, scheduleC?: ScheduleC): ReturnFormId[] {
+  return [
+    'F1040',
+    ...(computation.lines.otherTaxes > 0 ? (['SCHEDULE_2'] as const) : []),
+    ...(scheduleC ? (['SCHEDULE_C'] as const) : []),
+    ...(computation.selfEmploymentTax.total > 0 ? (['SCHEDULE_SE'] as const) : []),
+  ];
+}
+
+// Vouchers del 1040-ES: uno por plazo con su importe; los plazos sin nada que pagar quedan en blanco
+export function estimatedVoucherValues(plan: EstimatedTaxPlan, taxpayer: TaxpayerInfo): FormValues {
+  const cityStateZip = [taxpayer.city, [taxpayer.state, taxpayer.zip].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+  const vouchers = plan.installments
+    .filter((installment) => installment.amount > 0)
+    .map(({ quarter, amount }) => ({
+      [`voucher${quarter}.amount`]: amount,
+      [`voucher${quarter}.firstName`]: taxpayer.firstName,
+      [`voucher${quarter}.lastName`]: taxpayer.lastName,
+      [`voucher${quarter}.ssn`]: taxpayer.ssn,
+      [`voucher${quarter}.spouseFirstName`]: taxpayer.spouseFirstName,
+      [`voucher${quarter}.spouseLastName`]: taxpayer.spouseLastName,
+      [`voucher${quarter}.spouseSsn`]: taxpayer.spouseSsn,
+      [`voucher${quarter}.address`]: [taxpayer.address, taxpayer.apartment].filter(Boolean).join(' ') || undefined,
+      [`voucher${quarter}.cityStateZip`]: cityStateZip || undefined,
+    }));
+  return Object.assign({}, ...vouchers);
+}
@@ -0,0 +1,181 @@
+import { FormFieldMapping, FormMapping } from '../../interfaces/tax-forms.types';
+import { amounts } from './helpers';
+
+const PAGE_1 = 'topmostSubform[0].Page1[0]';
+const PAGE_2 = 'topmostSubform[0].Page2[0]';
+
+// Form 1040 (2024): nombres de los campos del PDF rellenable f1040--2024.pdf
+export const F1040_2024: FormMapping = {
+  form: 'F1040',
+  year: 2024,
+  template: 'f1040--2024.pdf',
+  fields: {
+    firstName: { kind: 'TEXT', field: `${PAGE_1}.f1_04[0]` },
+    lastName: { kind: 'TEXT', field: `${PAGE_1}.f1_05[0]` },
+    ssn: { kind: 'COMB', field: `${PAGE_1}.f1_06[0]`, length: 9 },
+    spouseFirstName: { kind: 'TEXT', field: `${PAGE_1}.f1_07[0]` },
+    spouseLastName: { kind: 'TEXT', field: `${PAGE_1}.f1_08[0]` },
+    spouseSsn: { kind: 'COMB', field: `${PAGE_1}.f1_09[0]`, length: 9 },
+    address: { kind: 'TEXT', field: `${PAGE_1}.Address_ReadOrder[0].f1_10[0]` },
+    apartment: { kind: 'TEXT', field: `${PAGE_1}.Address_ReadOrder[0].f1_11[0]` },
+    city: { kind: 'TEXT', field: `${PAGE_1}.Address_ReadOrder[0].f1_12[0]` },
+    state: { kind: 'TEXT', field: `${PAGE_1}.Address_ReadOrder[0].f1_13[0]` },
+    zip: { kind: 'TEXT', field: `${PAGE_1}.Address_ReadOrder[0].f1_14[0]` },
+    filingStatus: {
+      kind: 'CHECKBOX_GROUP',
+      fields: {
+        SINGLE: `${PAGE_1}.FilingStatus_ReadOrder[0].c1_3[0]`,
+        MARRIED_FILING_JOINTLY: `${PAGE_1}.FilingStatus_ReadOrder[0].c1_3[1]`,
+        MARRIED_FILING_SEPARATELY: `${PAGE_1}.FilingStatus_ReadOrder[0].c1_3[2]`,
+        HEAD_OF_HOUSEHOLD: `${PAGE_1}.c1_3[0]`,
+        QUALIFYING_SURVIVING_SPOUSE: `${PAGE_1}.c1_3[1]`,
+      },
+    },
+    ...amounts(PAGE_1, {
+      line1a: 'f1_32',
+      line1z: 'f1_41',
+      line2b: 'f1_43',
+      line3a: 'f1_44',
+      line3b: 'f1_45',
+      line4b: 'f1_47',
+      line7: 'f1_52',
+      line8: 'f1_53',
+      line9: 'f1_54',
+      line10: 'f1_55',
+      line11: 'f1_56',
+      line12: 'f1_57',
+      line13: 'f1_58',
+      line14: 'f1_59',
+      line15: 'f1_60',
+    }),
+    ...amounts(PAGE_2, {
+      line16: 'f2_02',
+      line18: 'f2_04',
+      line19: 'f2_05',
+      line21: 'f2_07',
+      line22: 'f2_08',
+      line23: 'f2_09',
+      line24: 'f2_10',
+      line25a: 'f2_11',
+      line25d: 'f2_14',
+      line26: 'f2_15',
+      line27: 'f2_16',
+      line28: 'f2_17',
+      line32: 'f2_20',
+      line33: 'f2_21',
+      line34: 'f2_22',
+      line35a: 'f2_23',
+      line37: 'f2_27',
+    }),
+  },
+};
+
+// Schedule 2 (2024), Additional Taxes
+export const SCHEDULE_2_2024: FormMapping = {
+  form: 'SCHEDULE_2',
+  year: 2024,
+  template: 'f1040s2--2024.pdf',
+  fields: {
+    name: { kind: 'TEXT', field: `${PAGE_1}.f1_01[0]` },
+    ssn: { kind: 'COMB', field: `${PAGE_1}.f1_02[0]`, length: 9 },
+    ...amounts(PAGE_2, { line4: 'f2_01', line11: 'f2_08', line21: 'f2_24' }),
+  },
+};
+
+// Schedule C (2024), Profit or Loss From Business
+export const SCHEDULE_C_2024: FormMapping = {
+  form: 'SCHEDULE_C',
+  year: 2024,
+  template: 'f1040sc--2024.pdf',
+  fields: {
+    name: { kind: 'TEXT', field: `${PAGE_1}.f1_1[0]` },
+    ssn: { kind: 'COMB', field: `${PAGE_1}.f1_2[0]`, length: 9 },
+    businessCode: { kind: 'COMB', field: `${PAGE_1}.BComb[0].f1_4[0]`, length: 6 },
+    businessName: { kind: 'TEXT', field: `${PAGE_1}.f1_5[0]` },
+    ...amounts(PAGE_1, {
+      line1: 'f1_10',
+      line2: 'f1_11',
+      line3: 'f1_12',
+      line4: 'f1_13',
+      line5: 'f1_14',
+      line6: 'f1_15',
+      line7: 'f1_16',
+      line8: 'f1_17',
+      line9: 'f1_18',
+      line10: 'f1_19',
+      line11: 'f1_20',
+      line13: 'f1_22',
+      line14: 'f1_23',
+      line15: 'f1_24',
+      line16a: 'f1_25',
+      line16b: 'f1_26',
+      line17: 'f1_27',
+      line18: 'f1_28',
+      line19: 'f1_29',
+      line20a: 'f1_30',
+      line20b: 'f1_31',
+      line21: 'f1_32',
+      line22: 'f1_33',
+      line23: 'f1_34',
+      line24a: 'f1_35',
+      line24b: 'f1_36',
+      line25: 'f1_37',
+      line26: 'f1_38',
+      line27a: 'f1_39',
+      line28: 'f1_41',
+      line29: 'f1_42',
+      line30: 'f1_45',
+      line31: 'f1_46',
+    }),
+  },
+};
+
+// Schedule SE (2024), Self-Employment Tax
+export const SCHEDULE_SE_2024: FormMapping = {
+  form: 'SCHEDULE_SE',
+  year: 2024,
+  template: 'f1040sse--2024.pdf',
+  fields: {
+    name: { kind: 'TEXT', field: `${PAGE_1}.f1_1[0]` },
+    ssn: { kind: 'COMB', field: `${PAGE_1}.f1_2[0]`, length: 9 },
+    ...amounts(PAGE_1, {
+      line2: 'f1_5',
+      line3: 'f1_6',
+      line4a: 'f1_7',
+      line4c: 'f1_9',
+      line6: 'f1_12',
+      line10: 'f1_19',
+      line11: 'f1_20',
+      line12: 'f1_21',
+      line13: 'f1_22',
+    }),
+  },
+};
+
+// Vouchers de la última página del 1040-ES (f1040es--2024.pdf), del 4 al 1 como en el PDF
+function voucher(quarter: number, group: string): Record<string, FormFieldMapping> {
+  const field = (name: string) => `topmostSubform[0].Page11[0].${group}[0].${name}[0]`;
+  return {
+    [`voucher${quarter}.amount`]: { kind: 'AMOUNT', field: field('f1_01') },
+    [`voucher${quarter}.firstName`]: { kind: 'TEXT', field: field('f1_02') },
+    [`voucher${quarter}.lastName`]: { kind: 'TEXT', field: field('f1_03') },
+    [`voucher${quarter}.ssn`]: { kind: 'COMB', field: field('f1_04'), length: 9 },
+    [`voucher${quarter}.spouseFirstName`]: { kind: 'TEXT', field: field('f1_05') },
+    [`voucher${quarter}.spouseLastName`]: { kind: 'TEXT', field: field('f1_06') },
+    [`voucher${quarter}.spouseSsn`]: { kind: 'COMB', field: field('f1_07'), length: 9 },
+    [`voucher${quarter}.address`]: { kind: 'TEXT', field: field('f1_08') },
+    [`voucher${quarter}.cityStateZip`]: { kind: 'TEXT', field: field('f1_09') },
+  };
+}
+
+export const F1040ES_2024: FormMapping = {
+  form: 'F1040ES',
+  year: 2024,
+  template: 'f1040es--2024.pdf',
+  fields: {
+    ...voucher(4, 'Voucher4'),
+    ...voucher(3, 'Voucher3'),
+    ...voucher(2, 'Voucher2'),
+    ...voucher(1, 'Voucher1'),
+  },
+};
@@ -0,0 +1,8 @@
+import { FormFieldMapping } from '../../interfaces/tax-forms.types';
+
+// Campos de importe de una página: clave -> nombre corto del campo (f1_32)
+export function amounts(page: string, fields: Record<string, string>): Record<string, FormFieldMapping> {
+  return Object.fromEntries(
+    Object.entries(fields).map(([key, name]) => [key, { kind: 'AMOUNT', field: `${page}.${name}[0]` }])
+  );
+}
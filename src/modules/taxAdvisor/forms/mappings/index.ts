@@ -0,0 +1,29 @@
+import { AppError } from '@/shared/utils/error-handler';
+import { FormMapping, IrsFormId } from '../../interfaces/tax-forms.types';
+import { F1040_2024, F1040ES_2024, SCHEDULE_2_2024, SCHEDULE_C_2024, SCHEDULE_SE_2024 } from './2024';
+
+// Los nombres de los campos cambian con cada revisión del PDF del IRS
+const MAPPINGS: Record<number, Record<IrsFormId, FormMapping>> = {
+  2024: {
+    F1040: F1040_2024,
+    SCHEDULE_2: SCHEDULE_2_2024,
+    SCHEDULE_C: SCHEDULE_C_2024,
+    SCHEDULE_SE: SCHEDULE_SE_2024,
+    F1040ES: F1040ES_2024,
+  },
+};
+
+export const SUPPORTED_FORM_YEARS = Object.keys(MAPPINGS).map(Number);
+
+export function getFormMapping(form: IrsFormId, year: number): FormMapping {
+  const mapping = MAPPINGS[year]?.[form];
+  if (!mapping) {
+    throw new AppError(
+      'UNSUPPORTED_FORM_YEAR',
+      `Form ${form} is not available for ${year} (${SUPPORTED_FORM_YEARS.join(', ')})`,
+      400,
+      { form, year }
+    );
+  }
+  return mapping;
+}
@@ -0,0 +1,28 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { AppError } from '@/shared/utils/error-handler';
+
+// De dónde salen los PDF rellenables del IRS (disco, bucket...)
+export interface FormTemplateSource {
+  load(template: string): Promise<Uint8Array>;
+}
+
+// Los PDF no se versionan en el repositorio: se descargan de irs.gov a IRS_FORMS_DIR
+export function fileTemplateSource(
+  dir: string = process.env.IRS_FORMS_DIR ?? path.join(process.cwd(), 'data', 'irs-forms')
+): FormTemplateSource {
+  return {
+    async load(template: string) {
+      try {
+        return await readFile(path.join(dir, template));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          throw new AppError('FORM_TEMPLATE_NOT_FOUND', `IRS form template ${template} not found in ${dir}`, 500, {
+            template,
+          });
+        }
+        throw error;
+      }
+    },
+  };
+}
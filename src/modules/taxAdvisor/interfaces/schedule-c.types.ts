@@ -0,0 +1,156 @@
+// Líneas de gastos de la parte II del Schedule C (8 a 27a)
+export const SCHEDULE_C_EXPENSE_LINES = [
+  'ADVERTISING', // 8
+  'CAR_AND_TRUCK', // 9
+  'COMMISSIONS_AND_FEES', // 10
+  'CONTRACT_LABOR', // 11
+  'DEPRECIATION', // 13
+  'EMPLOYEE_BENEFITS', // 14
+  'INSURANCE', // 15
+  'MORTGAGE_INTEREST', // 16a
+  'OTHER_INTEREST', // 16b
+  'LEGAL_AND_PROFESSIONAL', // 17
+  'OFFICE_EXPENSE', // 18
+  'PENSION_AND_PROFIT_SHARING', // 19
+  'RENT_VEHICLES_EQUIPMENT', // 20a
+  'RENT_OTHER_PROPERTY', // 20b
+  'REPAIRS_AND_MAINTENANCE', // 21
+  'SUPPLIES', // 22
+  'TAXES_AND_LICENSES', // 23
+  'TRAVEL', // 24a
+  'MEALS', // 24b
+  'UTILITIES', // 25
+  'WAGES', // 26
+  'OTHER_EXPENSES', // 27a
+] as const;
+
+export type ScheduleCExpenseLine = (typeof SCHEDULE_C_EXPENSE_LINES)[number];
+
+export interface BusinessExpense {
+  description: string;
+  amount: number;
+  // Sin línea, se deduce de la descripción (ver categorizeExpense)
+  line?: ScheduleCExpenseLine;
+}
+
+// Gastos de toda la vivienda; la parte deducible es la proporción de la oficina
+export interface HomeExpenses {
+  mortgageInterest?: number;
+  realEstateTaxes?: number;
+  insurance?: number;
+  utilities?: number;
+  repairs?: number;
+  rent?: number;
+  depreciation?: number;
+}
+
+export interface HomeOfficeInput {
+  method: 'SIMPLIFIED' | 'REGULAR';
+  officeSquareFeet: number;
+  // Solo método REGULAR (Form 8829)
+  homeSquareFeet?: number;
+  homeExpenses?: HomeExpenses;
+  // Gastos exclusivos de la oficina (pintura, reparaciones de esa habitación)
+  directExpenses?: number;
+  // Gastos no deducidos el año anterior por el límite de beneficio (Form 8829, línea 43)
+  priorYearCarryover?: number;
+}
+
+export interface HomeOfficeDeduction {
+  method: HomeOfficeInput['method'];
+  // Porcentaje de la vivienda dedicado al negocio (0 a 1)
+  businessPercentage: number;
+  deduction: number;
+  // Gastos que superan el beneficio y pasan al año siguiente (solo método REGULAR)
+  carryover: number;
+}
+
+export type VehicleMethod = 'STANDARD_MILEAGE' | 'ACTUAL';
+
+export interface VehicleInput {
+  businessMiles: number;
+  totalMiles?: number;
+  // Gasolina, reparaciones, seguro, matrícula, leasing y amortización del año
+  actualExpenses?: number;
+  // Aparcamiento y peajes de negocio: se suman con cualquiera de los dos métodos
+  parkingAndTolls?: number;
+  // Sin método se elige el que más deduce
+  method?: VehicleMethod;
+}
+
+export interface VehicleDeduction {
+  method: VehicleMethod;
+  standardMileage: number;
+  // null si faltan los gastos reales o el kilometraje total
+  actual: number | null;
+  deduction: number;
+}
+
+// Datos para calcular la deducción QBI de la actividad (Form 8995-A)
+export interface QualifiedBusinessInfo {
+  // Actividad de servicios profesionales (SSTB): pierde la deducción por encima del umbral
+  specifiedService?: boolean;
+  // Salarios W-2 pagados por la actividad
+  w2Wages?: number;
+  // Base no amortizada de los bienes afectos (UBIA)
+  qualifiedProperty?: number;
+}
+
+export interface ScheduleCInput {
+  taxYear: number;
+  businessName?: string;
+  // Código de actividad NAICS de 6 dígitos (línea B)
+  businessCode?: string;
+  grossReceipts: number;
+  returnsAndAllowances?: number;
+  costOfGoodsSold?: number;
+  otherIncome?: number;
+  expenses: BusinessExpense[];
+  homeOffice?: HomeOfficeInput;
+  vehicle?: VehicleInput;
+  qualifiedBusiness?: QualifiedBusinessInfo;
+}
+
+export type ScheduleCNoteCode =
+  // El calculador del vehículo sustituye a los gastos de coche del libro
+  | 'VEHICLE_EXPENSES_REPLACED'
+  // Solo se deduce el 50 % de las comidas de negocio
+  | 'MEALS_LIMITED'
+  // Gastos de la oficina en casa que pasan al año siguiente
+  | 'HOME_OFFICE_LIMITED'
+  | 'NET_LOSS';
+
+export interface ScheduleCNote {
+  code: ScheduleCNoteCode;
+  amount?: number;
+}
+
+export interface ScheduleC {
+  taxYear: number;
+  businessName?: string;
+  businessCode?: string;
+  grossReceipts: number; // 1
+  returnsAndAllowances: number; // 2
+  costOfGoodsSold: number; // 4
+  grossProfit: number; // 5
+  otherIncome: number; // 6
+  grossIncome: number; // 7
+  expenses: Record<ScheduleCExpenseLine, number>; // 8 a 27a
+  totalExpenses: number; // 28
+  tentativeProfit: number; // 29
+  homeOffice?: HomeOfficeDeduction; // 30
+  vehicle?: VehicleDeduction;
+  netProfit: number; // 31
+  qualifiedBusiness?: QualifiedBusinessInfo;
+  notes: ScheduleCNote[];
+}
+
+// Form 8995-A, parte II, para una sola actividad
+export interface QbiDeduction {
+  qualifiedBusinessIncome: number;
+  // 20 % de la QBI después de los límites por salarios y por SSTB
+  component: number;
+  // 20 % de la renta imponible antes de la deducción, sin ganancias de capital netas
+  incomeLimit: number;
+  deduction: number;
+}
@@ -0,0 +1,259 @@
+export type FilingStatus =
+  | 'SINGLE'
+  | 'MARRIED_FILING_JOINTLY'
+  | 'MARRIED_FILING_SEPARATELY'
+  | 'HEAD_OF_HOUSEHOLD'
+  | 'QUALIFYING_SURVIVING_SPOUSE';
+
+export const FILING_STATUSES: FilingStatus[] = [
+  'SINGLE',
+  'MARRIED_FILING_JOINTLY',
+  'MARRIED_FILING_SEPARATELY',
+  'HEAD_OF_HOUSEHOLD',
+  'QUALIFYING_SURVIVING_SPOUSE',
+];
+
+export type ByFilingStatus<T> = Record<FilingStatus, T>;
+
+// Tramo de la tarifa: `upTo` es el límite superior (null en el último tramo)
+export interface TaxBracket {
+  rate: number;
+  upTo: number | null;
+}
+
+export interface EitcParameters {
+  creditRate: number;
+  earnedIncomeAmount: number;
+  maxCredit: number;
+  phaseOutRate: number;
+  phaseOutStart: number;
+  phaseOutStartJoint: number;
+}
+
+// Cifras de un año fiscal (Rev. Proc. del IRS correspondiente)
+export interface TaxYearTable {
+  year: number;
+  brackets: ByFilingStatus<TaxBracket[]>;
+  standardDeduction: ByFilingStatus<number>;
+  // Por contribuyente de 65 años o más o ciego
+  additionalStandardDeduction: { unmarried: number; married: number };
+  // Límites superiores de los tramos del 0 % y del 15 % para ganancias a largo plazo
+  capitalGains: {
+    zeroRateMax: ByFilingStatus<number>;
+    fifteenRateMax: ByFilingStatus<number>;
+  };
+  capitalLossLimit: { standard: number; marriedFilingSeparately: number };
+  socialSecurityWageBase: number;
+  additionalMedicareThreshold: ByFilingStatus<number>;
+  childTaxCredit: {
+    perChild: number;
+    refundablePerChild: number;
+    otherDependent: number;
+    phaseOutStart: ByFilingStatus<number>;
+    refundableEarnedIncomeThreshold: number;
+  };
+  eitc: {
+    investmentIncomeLimit: number;
+    // Índice = número de hijos que cualifican (0 a 3 o más)
+    byChildren: [EitcParameters, EitcParameters, EitcParameters, EitcParameters];
+  };
+  contributionLimits: {
+    electiveDeferral: number;
+    ira: number;
+  };
+  // Schedule C: tarifa estándar por milla de negocio (Notice del IRS del año)
+  standardMileageRate: number;
+  // Método simplificado de la oficina en casa: tarifa por pie cuadrado y tope anual
+  homeOffice: { simplifiedRate: number; simplifiedLimit: number };
+  // Deducción QBI (sección 199A): umbral de renta imponible y tramo de entrada de los límites
+  qbi: { threshold: ByFilingStatus<number>; phaseInRange: ByFilingStatus<number> };
+}
+
+export interface TaxAdjustments {
+  iraDeduction?: number;
+  studentLoanInterest?: number;
+  hsaDeduction?: number;
+  selfEmployedRetirement?: number;
+  other?: number;
+}
+
+// Datos de la declaración; los importes que faltan cuentan como 0
+export interface TaxReturnInput {
+  taxYear: number;
+  filingStatus: FilingStatus;
+  // W-2 casilla 1 (ya sin las aportaciones al 401(k))
+  wages?: number;
+  // W-2 casillas 3 y 5; por defecto, las de la casilla 1 más las aportaciones diferidas
+  socialSecurityWages?: number;
+  medicareWages?: number;
+  // W-2 casilla 12, código D
+  electiveDeferrals?: number;
+  coveredByWorkplacePlan?: boolean;
+  taxableInterest?: number;
+  ordinaryDividends?: number;
+  qualifiedDividends?: number;
+  shortTermCapitalGains?: number;
+  longTermCapitalGains?: number;
+  taxableRetirementDistributions?: number;
+  // Beneficio neto del Schedule C
+  selfEmploymentIncome?: number;
+  otherIncome?: number;
+  adjustments?: TaxAdjustments;
+  itemizedDeductions?: number;
+  qbiDeduction?: number;
+  // Contribuyente y cónyuge con 65 años o más o ciegos (una unidad por condición)
+  additionalDeductionCount?: number;
+  // Menores de 17 para el crédito por hijos
+  qualifyingChildren?: number;
+  // Hijos que cualifican para el EITC; por defecto, qualifyingChildren
+  eitcQualifyingChildren?: number;
+  otherDependents?: number;
+  federalWithholding?: number;
+  estimatedTaxPayments?: number;
+}
+
+export interface SelfEmploymentTax {
+  netEarnings: number;
+  socialSecurityTax: number;
+  medicareTax: number;
+  total: number;
+  deductiblePart: number;
+}
+
+export interface ChildTaxCredit {
+  initialCredit: number;
+  phaseOutReduction: number;
+  nonrefundable: number;
+  refundable: number;
+}
+
+// Líneas del Form 1040 que calcula el motor
+export interface Form1040Lines {
+  wages: number; // 1z
+  taxableInterest: number; // 2b
+  qualifiedDividends: number; // 3a
+  ordinaryDividends: number; // 3b
+  taxableRetirementDistributions: number; // 4b + 5b
+  capitalGainOrLoss: number; // 7
+  additionalIncome: number; // 8 (Schedule 1, parte I)
+  totalIncome: number; // 9
+  adjustments: number; // 10 (Schedule 1, parte II)
+  adjustedGrossIncome: number; // 11
+  deduction: number; // 12
+  qbiDeduction: number; // 13
+  taxableIncome: number; // 15
+  tax: number; // 16
+  childTaxCredit: number; // 19
+  taxAfterCredits: number; // 22
+  otherTaxes: number; // 23 (Schedule 2: SE y Additional Medicare)
+  totalTax: number; // 24
+  federalWithholding: number; // 25d
+  estimatedTaxPayments: number; // 26
+  earnedIncomeCredit: number; // 27
+  additionalChildTaxCredit: number; // 28
+  totalPayments: number; // 33
+  refund: number; // 34
+  amountOwed: number; // 37
+}
+
+export interface TaxComputation {
+  taxYear: number;
+  filingStatus: FilingStatus;
+  lines: Form1040Lines;
+  deductionType: 'STANDARD' | 'ITEMIZED';
+  selfEmploymentTax: SelfEmploymentTax;
+  additionalMedicareTax: number;
+  childTaxCredit: ChildTaxCredit;
+  earnedIncome: number;
+  // Tipo de la tarifa ordinaria que grava el siguiente dólar de renta ordinaria
+  marginalRate: number;
+  // Impuesto total sobre la renta total (línea 24 / línea 9)
+  effectiveRate: number;
+}
+
+export type RetirementAccount = '401K' | 'IRA';
+
+export type IncomeSource = 'WAGES' | 'SELF_EMPLOYMENT' | 'INTEREST' | 'OTHER';
+
+// Cambios que el simulador aplica sobre la declaración base
+export type TaxDelta =
+  // roth: aportación después de impuestos, que no cambia la AGI
+  | { type: 'RETIREMENT_CONTRIBUTION'; account: RetirementAccount; amount: number; roth?: boolean }
+  | { type: 'FILING_STATUS'; filingStatus: FilingStatus; spouseWages?: number }
+  // Sin costBasis, todo el importe de la venta cuenta como ganancia
+  | { type: 'SELL_STOCK'; proceeds: number; costBasis?: number; longTerm?: boolean }
+  | { type: 'INCOME'; source: IncomeSource; amount: number }
+  // Variación del número de hijos (+1, -1)
+  | { type: 'DEPENDENTS'; qualifyingChildren: number };
+
+export type SimulationNoteCode =
+  | 'CONTRIBUTION_LIMITED'
+  | 'NO_COMPENSATION'
+  | 'IRA_DEDUCTION_MAY_BE_LIMITED'
+  | 'ROTH_NOT_DEDUCTIBLE'
+  | 'NO_COST_BASIS'
+  | 'SPOUSE_INCOME_MISSING';
+
+// Ajustes que hizo el simulador para que el cambio sea posible
+export interface SimulationNote {
+  code: SimulationNoteCode;
+  amount?: number;
+}
+
+// Ingresos acumulados desde el 1 de enero hasta el cierre de un periodo del método anualizado
+export type PeriodIncome = Pick<
+  TaxReturnInput,
+  | 'wages'
+  | 'socialSecurityWages'
+  | 'medicareWages'
+  | 'taxableInterest'
+  | 'ordinaryDividends'
+  | 'qualifiedDividends'
+  | 'shortTermCapitalGains'
+  | 'longTermCapitalGains'
+  | 'taxableRetirementDistributions'
+  | 'selfEmploymentIncome'
+  | 'otherIncome'
+  | 'adjustments'
+  | 'itemizedDeductions'
+  | 'qbiDeduction'
+>;
+
+export interface EstimatedTaxInput {
+  // Declaración prevista del año completo (con la retención prevista en federalWithholding)
+  taxReturn: TaxReturnInput;
+  // Línea 24 menos créditos reembolsables y AGI de la declaración del año anterior
+  priorYear?: { totalTax: number; adjustedGrossIncome: number };
+  // Periodos que cierran el 31/3, 31/5, 31/8 y 31/12: activa el método anualizado (Form 2210, Schedule AI)
+  periods?: [PeriodIncome, PeriodIncome, PeriodIncome, PeriodIncome];
+  // Pagos estimados ya hechos, por trimestre
+  paymentsMade?: number[];
+}
+
+export interface EstimatedInstallment {
+  quarter: 1 | 2 | 3 | 4;
+  // id de la fecha límite en las reglas fiscales (ESTIMATED_Q1...)
+  deadlineId: string;
+  dueDate: string;
+  // Parte del pago anual exigida en el trimestre, antes de descontar retención y pagos
+  requiredInstallment: number;
+  // Lo que queda por ingresar en ese plazo
+  amount: number;
+}
+
+export interface EstimatedTaxPlan {
+  taxYear: number;
+  method: 'REGULAR' | 'ANNUALIZED';
+  // Impuesto previsto del año menos los créditos reembolsables
+  projectedTax: number;
+  withholding: number;
+  safeHarbor: {
+    currentYear: number;
+    // 100 % o 110 % del impuesto del año anterior; null sin declaración anterior
+    priorYear: number | null;
+  };
+  requiredAnnualPayment: number;
+  // Sin pagos obligatorios si lo que queda por pagar tras la retención no llega al mínimo
+  paymentsRequired: boolean;
+  installments: EstimatedInstallment[];
+}
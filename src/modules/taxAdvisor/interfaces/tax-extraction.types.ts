@@ -0,0 +1,126 @@
+// Fragmento de texto con su posición en la página (puntos, origen arriba a la izquierda)
+export interface TextItem {
+  text: string;
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // 1 para texto de un PDF; la confianza del OCR para imágenes
+  confidence: number;
+}
+
+export type ExtractionSource = 'PDF' | 'OCR' | 'TEXT';
+
+export interface ExtractedValue<T> {
+  value: T;
+  confidence: number;
+  page: number;
+  // Texto del que sale el valor, tal como aparece en el documento
+  text: string;
+}
+
+export type W2AmountField =
+  | 'wages'
+  | 'federalWithholding'
+  | 'socialSecurityWages'
+  | 'socialSecurityTax'
+  | 'medicareWages'
+  | 'medicareTax'
+  | 'socialSecurityTips'
+  | 'allocatedTips'
+  | 'dependentCareBenefits'
+  | 'nonqualifiedPlans';
+
+export interface W2Box12Entry {
+  // 12a a 12d
+  slot: 'a' | 'b' | 'c' | 'd';
+  code: string;
+  amount: number;
+  confidence: number;
+}
+
+export interface W2StateRow {
+  state?: string;
+  employerStateId?: string;
+  stateWages?: number;
+  stateIncomeTax?: number;
+  localWages?: number;
+  localIncomeTax?: number;
+  locality?: string;
+  confidence: number;
+}
+
+export type W2CheckCode =
+  | 'SOCIAL_SECURITY_TAX_RATE'
+  | 'MEDICARE_TAX_RATE'
+  | 'SOCIAL_SECURITY_WAGE_BASE'
+  | 'WITHHOLDING_ABOVE_WAGES'
+  | 'MEDICARE_BELOW_SOCIAL_SECURITY_WAGES'
+  | 'STATE_TAX_ABOVE_WAGES'
+  | 'UNKNOWN_BOX_12_CODE';
+
+export interface ExtractionCheck<Code extends string = W2CheckCode> {
+  code: Code;
+  passed: boolean;
+  // Campos afectados; si la comprobación falla pierden confianza
+  fields: string[];
+  expected?: number;
+  actual?: number;
+}
+
+export interface W2Extraction {
+  source: ExtractionSource;
+  taxYear?: ExtractedValue<number>;
+  employerEin?: ExtractedValue<string>;
+  employerName?: ExtractedValue<string>;
+  // Solo los cuatro últimos dígitos del SSN del empleado
+  employeeSsnLast4?: ExtractedValue<string>;
+  controlNumber?: ExtractedValue<string>;
+  amounts: Partial<Record<W2AmountField, ExtractedValue<number>>>;
+  box12: W2Box12Entry[];
+  box13: { statutoryEmployee: boolean; retirementPlan: boolean; thirdPartySickPay: boolean };
+  box14: Array<{ description: string; amount?: number }>;
+  states: W2StateRow[];
+  checks: ExtractionCheck[];
+  // Menor confianza entre las casillas 1, 2, 3 y 5; 0 si no se encuentra la casilla 1
+  confidence: number;
+}
+
+export type IncomeCategory =
+  | 'WAGES'
+  // Casillas 3 y 5 del W-2: bases de Social Security y Medicare, no se suman a los ingresos
+  | 'SOCIAL_SECURITY_WAGES'
+  | 'MEDICARE_WAGES'
+  | 'SELF_EMPLOYMENT_INCOME'
+  | 'RENTS'
+  | 'ROYALTIES'
+  | 'OTHER_INCOME'
+  | 'INTEREST'
+  | 'TAX_EXEMPT_INTEREST'
+  | 'ORDINARY_DIVIDENDS'
+  // Parte de ORDINARY_DIVIDENDS, no se suma aparte
+  | 'QUALIFIED_DIVIDENDS'
+  | 'CAPITAL_GAIN_DISTRIBUTIONS'
+  | 'SHORT_TERM_CAPITAL_GAIN'
+  | 'LONG_TERM_CAPITAL_GAIN'
+  | 'RETIREMENT_DISTRIBUTION'
+  | 'UNEMPLOYMENT_COMPENSATION'
+  | 'STATE_TAX_REFUND'
+  // Importe bruto cobrado con tarjeta (1099-K); no es renta neta
+  | 'PAYMENT_CARD_RECEIPTS'
+  | 'FEDERAL_WITHHOLDING';
+
+// Importe de un formulario informativo llevado a una categoría común
+export interface IncomeRecord {
+  // Estable para el mismo formulario y casilla, así reprocesar un documento no duplica importes
+  id: string;
+  category: IncomeCategory;
+  amount: number;
+  taxYear?: number;
+  // 'W-2', '1099-DIV'...
+  form: string;
+  box: string;
+  payer?: string;
+  confidence: number;
+}
@@ -0,0 +1,57 @@
+import { ScheduleC } from './schedule-c.types';
+
+// Formularios que se adjuntan a la declaración
+export type ReturnFormId = 'F1040' | 'SCHEDULE_2' | 'SCHEDULE_C' | 'SCHEDULE_SE';
+
+// El 1040-ES se presenta aparte, con cada pago estimado
+export type IrsFormId = ReturnFormId | 'F1040ES';
+
+// Cómo se escribe un valor en un campo AcroForm del PDF rellenable del IRS
+export type FormFieldMapping =
+  | { kind: 'TEXT'; field: string }
+  // Dólares con centavos; las cifras negativas van entre paréntesis
+  | { kind: 'AMOUNT'; field: string }
+  // Una casilla por carácter (SSN, EIN): solo se escriben los dígitos
+  | { kind: 'COMB'; field: string; length: number }
+  | { kind: 'CHECKBOX'; field: string }
+  // Valor -> opción del grupo de botones
+  | { kind: 'RADIO'; field: string; options: Record<string, string> }
+  // Valor -> casilla que se marca; las demás del grupo se desmarcan
+  | { kind: 'CHECKBOX_GROUP'; fields: Record<string, string> };
+
+export interface FormMapping {
+  form: IrsFormId;
+  year: number;
+  // PDF rellenable del IRS para ese año, p. ej. f1040--2024.pdf
+  template: string;
+  fields: Record<string, FormFieldMapping>;
+}
+
+export type FormValues = Record<string, string | number | boolean | undefined>;
+
+export interface TaxpayerInfo {
+  firstName: string;
+  lastName: string;
+  ssn: string;
+  spouseFirstName?: string;
+  spouseLastName?: string;
+  spouseSsn?: string;
+  address?: string;
+  apartment?: string;
+  city?: string;
+  state?: string;
+  zip?: string;
+}
+
+export interface FillVouchersOptions {
+  taxpayer: TaxpayerInfo;
+  flatten?: boolean;
+}
+
+export interface FillFormsOptions {
+  taxpayer?: TaxpayerInfo;
+  // Convierte los campos en texto fijo: el PDF deja de ser editable
+  flatten?: boolean;
+  // Actividad por cuenta propia: añade el Schedule C y completa el Schedule SE
+  scheduleC?: ScheduleC;
+}
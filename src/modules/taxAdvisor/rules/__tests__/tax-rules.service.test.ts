@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { getTaxYearTable } from '../../engine/tables';
+import { loadTaxRules } from '../rules-loader';
+import { taxRules } from '../tax-rules.service';
+import rules2024 from '../data/2024.json';
+
+describe('taxRules', () => {
+  it('should answer deduction caps by year and filing status', () => {
+    expect(taxRules.getDeductionLimit('SALT', 2023)).toBe(10000);
+    expect(taxRules.getDeductionLimit('state and local taxes', 2023, { filingStatus: 'MARRIED_FILING_SEPARATELY' }))
+      .toBe(5000);
+    expect(taxRules.getDeductionLimit('SALT', 2025)).toBe(40000);
+    expect(taxRules.getDeductionLimit('MEDICAL', 2024)).toBeNull();
+    expect(taxRules.getDeductionLimit('UNKNOWN', 2024)).toBeNull();
+  });
+
+  it('should not cap mortgage interest or a regular-method home office', () => {
+    expect(taxRules.getDeductionLimit('MORTGAGE_INTEREST', 2024)).toBeNull();
+    expect(taxRules.getDeductionLimit('HOME_OFFICE', 2024)).toBeNull();
+    expect(taxRules.getDeductionLimit('HOME_OFFICE_SIMPLIFIED', 2024)).toBe(1500);
+  });
+
+  it('should apply income phase-outs and AGI percentages', () => {
+    // 40.000 - 30 % de lo que supera 500.000, con un mínimo de 10.000
+    expect(taxRules.getDeductionLimit('SALT', 2025, { agi: 550000 })).toBe(25000);
+    expect(taxRules.getDeductionLimit('SALT', 2025, { agi: 700000 })).toBe(10000);
+    expect(taxRules.getDeductionLimit('STUDENT_LOAN_INTEREST', 2024, { agi: 87500 })).toBe(1250);
+    expect(taxRules.getDeductionLimit('STUDENT_LOAN_INTEREST', 2024, { agi: 95000 })).toBe(0);
+    expect(taxRules.getDeductionLimit('CHARITABLE', 2024, { agi: 100000 })).toBe(60000);
+  });
+
+  it('should add catch-up contributions from the catch-up age', () => {
+    expect(taxRules.getContributionLimit('IRA', 2024)).toBe(7000);
+    expect(taxRules.getContributionLimit('IRA', 2024, { age: 52 })).toBe(8000);
+    expect(taxRules.getContributionLimit('HSA_SELF', 2024, { age: 52 })).toBe(4150);
+  });
+
+  it('should list deadlines and form requirements of the tax year', () => {
+    expect(taxRules.getDeadline('FORM_1040', 2024).date).toBe('2025-04-15');
+    expect(taxRules.getDeadlines(2024, 'PAYMENT').map(({ id }) => id)).toEqual([
+      'ESTIMATED_Q1',
+      'ESTIMATED_Q2',
+      'ESTIMATED_Q3',
+      'ESTIMATED_Q4',
+    ]);
+    expect(taxRules.getFormRequirements(2024, 'EMPLOYMENT')).toEqual([
+      { formId: 'W-2', description: expect.any(String), deadline: '2025-01-31', required: true },
+      { formId: '1099-NEC', description: expect.any(String), deadline: '2025-01-31', required: true },
+    ]);
+  });
+
+  it('should feed the engine tables from the same rules', () => {
+    const table = getTaxYearTable(2025);
+    expect(table.contributionLimits).toEqual({ electiveDeferral: 23500, ira: 7000 });
+    expect(table.capitalLossLimit).toEqual({ standard: 3000, marriedFilingSeparately: 1500 });
+    expect(table.childTaxCredit).toBe(taxRules.getCredits(2025).childTaxCredit);
+  });
+
+  it('should reject tax years without rules', () => {
+    expect(taxRules.hasRules(2019)).toBe(false);
+    expect(() => taxRules.getRules(2019)).toThrow(
+      expect.objectContaining({ code: 'UNSUPPORTED_TAX_YEAR', params: { year: 2019 } })
+    );
+  });
+});
+
+describe('loadTaxRules', () => {
+  it('should reject rules that do not match the schema', () => {
+    expect(() => loadTaxRules({ ...rules2024, contributionLimits: { IRA: { limit: -1 } } })).toThrow(
+      expect.objectContaining({ code: 'INVALID_TAX_RULES', message: expect.stringContaining('contributionLimits.IRA') })
+    );
+  });
+
+  it('should reject forms pointing to unknown deadlines and impossible dates', () => {
+    const deadlines = rules2024.deadlines.map((deadline) =>
+      deadline.id === 'ESTIMATED_Q2' ? { ...deadline, date: '2024-06-31' } : deadline
+    );
+    const forms = [...rules2024.forms, { ...rules2024.forms[0], formId: 'W-2G', deadline: 'MISSING' }];
+
+    expect(() => loadTaxRules({ ...rules2024, deadlines })).toThrow(/ESTIMATED_Q2: 2024-06-31 is not a valid date/);
+    expect(() => loadTaxRules({ ...rules2024, forms })).toThrow(/forms.W-2G: unknown deadline MISSING/);
+  });
+});
@@ -0,0 +1,84 @@
+import { AppError } from '@/shared/utils/error-handler';
+import { PhaseOut, TaxRules, taxRulesSchema } from './tax-rules.schema';
+
+const FILING_STATUSES = [
+  'SINGLE',
+  'MARRIED_FILING_JOINTLY',
+  'MARRIED_FILING_SEPARATELY',
+  'HEAD_OF_HOUSEHOLD',
+  'QUALIFYING_SURVIVING_SPOUSE',
+] as const;
+
+function isCalendarDate(value: string): boolean {
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+function phaseOutProblems(path: string, phaseOut?: PhaseOut): string[] {
+  if (phaseOut?.method !== 'LINEAR') {
+    return [];
+  }
+  const value = (amount: typeof phaseOut.start, status: (typeof FILING_STATUSES)[number]) =>
+    typeof amount === 'number' ? amount : amount[status];
+  return FILING_STATUSES.filter((status) => value(phaseOut.end, status) < value(phaseOut.start, status)).map(
+    (status) => `${path}.phaseOut: end is below start for ${status}`
+  );
+}
+
+// Comprobaciones que el esquema no expresa: fechas reales, referencias y rangos
+function consistencyProblems(rules: TaxRules): string[] {
+  const problems: string[] = [];
+  const deadlineIds = new Set<string>();
+
+  for (const deadline of rules.deadlines) {
+    if (deadlineIds.has(deadline.id)) {
+      problems.push(`deadlines: duplicated id ${deadline.id}`);
+    }
+    deadlineIds.add(deadline.id);
+    if (!isCalendarDate(deadline.date)) {
+      problems.push(`deadlines.${deadline.id}: ${deadline.date} is not a valid date`);
+    }
+  }
+
+  const filing = rules.deadlines.find(({ id }) => id === 'FORM_1040');
+  if (!filing) {
+    problems.push('deadlines: FORM_1040 is required');
+  } else if (!filing.date.startsWith(String(rules.taxYear + 1))) {
+    problems.push(`deadlines.FORM_1040: expected a date in ${rules.taxYear + 1}`);
+  }
+
+  for (const form of rules.forms) {
+    if (!deadlineIds.has(form.deadline)) {
+      problems.push(`forms.${form.formId}: unknown deadline ${form.deadline}`);
+    }
+  }
+
+  for (const [type, rule] of Object.entries(rules.deductions)) {
+    if (rule && rule.limit === undefined && rule.agiPercent === undefined && rule.agiFloorPercent === undefined) {
+      problems.push(`deductions.${type}: a limit, agiPercent or agiFloorPercent is required`);
+    }
+    problems.push(...phaseOutProblems(`deductions.${type}`, rule?.phaseOut));
+  }
+  problems.push(
+    ...phaseOutProblems('credits.americanOpportunityCredit', rules.credits.americanOpportunityCredit.phaseOut),
+    ...phaseOutProblems('credits.lifetimeLearningCredit', rules.credits.lifetimeLearningCredit.phaseOut)
+  );
+
+  return problems;
+}
+
+/**
+ * Valida un conjunto de reglas fiscales de un año (el contenido de un JSON de
+ * rules/data u otra fuente ya parseada) y lo devuelve tipado.
+ */
+export function loadTaxRules(raw: unknown, source = 'tax rules'): TaxRules {
+  const parsed = taxRulesSchema.safeParse(raw);
+  const problems = parsed.success
+    ? consistencyProblems(parsed.data)
+    : parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+
+  if (!parsed.success || problems.length > 0) {
+    throw new AppError('INVALID_TAX_RULES', `Invalid ${source}: ${problems.join('; ')}`, 500);
+  }
+  return parsed.data;
+}
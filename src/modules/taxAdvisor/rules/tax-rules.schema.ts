@@ -0,0 +1,132 @@
+import { z } from 'zod';
+
+export const DEDUCTION_TYPES = [
+  'SALT',
+  'MORTGAGE_DEBT',
+  'STUDENT_LOAN_INTEREST',
+  'EDUCATOR_EXPENSES',
+  'CAPITAL_LOSS',
+  'CHARITABLE_CASH',
+  'MEDICAL',
+  'HOME_OFFICE_SIMPLIFIED',
+  'SECTION_179',
+] as const;
+
+export const CONTRIBUTION_ACCOUNTS = [
+  'ELECTIVE_DEFERRAL',
+  'IRA',
+  'SIMPLE_IRA',
+  'HSA_SELF',
+  'HSA_FAMILY',
+] as const;
+
+export const INCOME_TYPES = ['EMPLOYMENT', 'INVESTMENTS', 'BUSINESS', 'RENTAL', 'RETIREMENT'] as const;
+
+const amount = z.number().finite().nonnegative();
+const rate = z.number().min(0).max(1);
+
+const byFilingStatusSchema = z.object({
+  SINGLE: amount,
+  MARRIED_FILING_JOINTLY: amount,
+  MARRIED_FILING_SEPARATELY: amount,
+  HEAD_OF_HOUSEHOLD: amount,
+  QUALIFYING_SURVIVING_SPOUSE: amount,
+});
+
+// Un importe único o uno por estado civil
+const ruleAmountSchema = z.union([amount, byFilingStatusSchema]);
+
+const phaseOutSchema = z.discriminatedUnion('method', [
+  // Se reduce proporcionalmente entre start y end
+  z.object({ method: z.literal('LINEAR'), start: ruleAmountSchema, end: ruleAmountSchema }),
+  // Se reduce rate por cada dólar por encima de start, sin bajar de floor
+  z.object({
+    method: z.literal('RATE'),
+    start: ruleAmountSchema,
+    rate,
+    floor: ruleAmountSchema.optional(),
+  }),
+]);
+
+const deductionRuleSchema = z.object({
+  description: z.string().min(1),
+  limit: ruleAmountSchema.optional(),
+  // Tope como porcentaje de la AGI
+  agiPercent: rate.optional(),
+  // Solo se deduce lo que supera este porcentaje de la AGI
+  agiFloorPercent: rate.optional(),
+  phaseOut: phaseOutSchema.optional(),
+});
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+const deadlineSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(['FILING', 'EXTENSION', 'PAYMENT', 'INFORMATION_RETURN']),
+  date: isoDate,
+  description: z.string().min(1),
+});
+
+const formRequirementSchema = z.object({
+  formId: z.string().min(1),
+  description: z.string().min(1),
+  incomeType: z.enum(INCOME_TYPES),
+  // id de la fecha límite en deadlines
+  deadline: z.string().min(1),
+  required: z.boolean().optional(),
+});
+
+const eitcParametersSchema = z.object({
+  creditRate: rate,
+  earnedIncomeAmount: amount,
+  maxCredit: amount,
+  phaseOutRate: rate,
+  phaseOutStart: amount,
+  phaseOutStartJoint: amount,
+});
+
+export const taxRulesSchema = z.object({
+  taxYear: z.number().int(),
+  source: z.string().min(1),
+  deductions: z.record(z.enum(DEDUCTION_TYPES), deductionRuleSchema),
+  contributionLimits: z.record(
+    z.enum(CONTRIBUTION_ACCOUNTS),
+    z.object({ limit: amount, catchUp: amount, catchUpAge: z.number().int().positive() })
+  ),
+  deadlines: z.array(deadlineSchema).min(1),
+  forms: z.array(formRequirementSchema),
+  credits: z.object({
+    childTaxCredit: z.object({
+      perChild: amount,
+      refundablePerChild: amount,
+      otherDependent: amount,
+      phaseOutStart: byFilingStatusSchema,
+      refundableEarnedIncomeThreshold: amount,
+    }),
+    earnedIncomeCredit: z.object({
+      investmentIncomeLimit: amount,
+      // Sin hijos, uno, dos, tres o más
+      byChildren: z.tuple([eitcParametersSchema, eitcParametersSchema, eitcParametersSchema, eitcParametersSchema]),
+    }),
+    americanOpportunityCredit: z.object({
+      maxCredit: amount,
+      refundablePercent: rate,
+      phaseOut: phaseOutSchema,
+    }),
+    lifetimeLearningCredit: z.object({ maxCredit: amount, phaseOut: phaseOutSchema }),
+    saversCredit: z.object({
+      maxContribution: amount,
+      tiers: z.array(z.object({ rate, agiLimit: byFilingStatusSchema })).min(1),
+    }),
+  }),
+});
+
+export type TaxRules = z.infer<typeof taxRulesSchema>;
+export type DeductionType = (typeof DEDUCTION_TYPES)[number];
+export type ContributionAccount = (typeof CONTRIBUTION_ACCOUNTS)[number];
+export type IncomeType = (typeof INCOME_TYPES)[number];
+export type DeductionRule = z.infer<typeof deductionRuleSchema>;
+export type RuleAmount = z.infer<typeof ruleAmountSchema>;
+export type PhaseOut = z.infer<typeof phaseOutSchema>;
+export type TaxDeadline = z.infer<typeof deadlineSchema>;
+export type FormRequirement = z.infer<typeof formRequirementSchema>;
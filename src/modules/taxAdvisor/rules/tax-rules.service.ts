@@ -0,0 +1,192 @@
+import { AppError } from '@/shared/utils/error-handler';
+import { FilingStatus } from '../interfaces/tax-engine.types';
+import { IRSRequirement } from '../interfaces/tax-documentation.types';
+import { loadTaxRules } from './rules-loader';
+import {
+  ContributionAccount,
+  DEDUCTION_TYPES,
+  DeductionRule,
+  DeductionType,
+  IncomeType,
+  PhaseOut,
+  RuleAmount,
+  TaxDeadline,
+  TaxRules,
+} from './tax-rules.schema';
+import rules2023 from './data/2023.json';
+import rules2024 from './data/2024.json';
+import rules2025 from './data/2025.json';
+
+// Un JSON por año fiscal en rules/data
+const RULE_FILES: Record<number, unknown> = {
+  2023: rules2023,
+  2024: rules2024,
+  2025: rules2025,
+};
+
+// Nombres con los que otros servicios se refieren a cada deducción. Los intereses
+// hipotecarios y la oficina en casa no tienen alias: su tope no limita lo deducido
+const DEDUCTION_ALIASES: Record<string, DeductionType> = {
+  STATE_AND_LOCAL_TAXES: 'SALT',
+  STATE_LOCAL_TAXES: 'SALT',
+  STUDENT_LOAN: 'STUDENT_LOAN_INTEREST',
+  EDUCATOR: 'EDUCATOR_EXPENSES',
+  CHARITABLE: 'CHARITABLE_CASH',
+  CHARITABLE_CONTRIBUTIONS: 'CHARITABLE_CASH',
+  MEDICAL_EXPENSES: 'MEDICAL',
+};
+
+export interface RuleContext {
+  // Sin estado civil se usan los importes de SINGLE
+  filingStatus?: FilingStatus;
+  // AGI (o MAGI) para topes porcentuales y reducciones por renta
+  agi?: number;
+  age?: number;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export function resolveAmount(amount: RuleAmount, filingStatus: FilingStatus = 'SINGLE'): number {
+  return typeof amount === 'number' ? amount : amount[filingStatus];
+}
+
+function applyPhaseOut(limit: number, phaseOut: PhaseOut, agi: number, filingStatus?: FilingStatus): number {
+  const start = resolveAmount(phaseOut.start, filingStatus);
+  if (agi <= start) {
+    return limit;
+  }
+  if (phaseOut.method === 'RATE') {
+    const floor = phaseOut.floor === undefined ? 0 : resolveAmount(phaseOut.floor, filingStatus);
+    return Math.max(floor, limit - (agi - start) * phaseOut.rate);
+  }
+  const end = resolveAmount(phaseOut.end, filingStatus);
+  return agi >= end ? 0 : (limit * (end - agi)) / (end - start);
+}
+
+/**
+ * Reglas fiscales versionadas por año (topes de deducciones, límites de
+ * aportación, plazos, formularios y umbrales de créditos). Cada año se valida
+ * la primera vez que se consulta.
+ */
+export class TaxRulesService {
+  private static instance: TaxRulesService;
+  private sources: Record<number, unknown> = { ...RULE_FILES };
+  private loaded = new Map<number, TaxRules>();
+
+  private constructor() {}
+
+  static getInstance(): TaxRulesService {
+    if (!TaxRulesService.instance) {
+      TaxRulesService.instance = new TaxRulesService();
+    }
+    return TaxRulesService.instance;
+  }
+
+  // Añade o sustituye las reglas de un año (otra fuente, pruebas)
+  register(raw: unknown, source = 'registered tax rules'): TaxRules {
+    const rules = loadTaxRules(raw, source);
+    this.sources[rules.taxYear] = raw;
+    this.loaded.set(rules.taxYear, rules);
+    return rules;
+  }
+
+  supportedYears(): number[] {
+    return Object.keys(this.sources).map(Number).sort((a, b) => a - b);
+  }
+
+  hasRules(year: number): boolean {
+    return year in this.sources;
+  }
+
+  getRules(year: number): TaxRules {
+    const cached = this.loaded.get(year);
+    if (cached) {
+      return cached;
+    }
+    if (!this.hasRules(year)) {
+      throw new AppError(
+        'UNSUPPORTED_TAX_YEAR',
+        `Tax year ${year} is not supported (${this.supportedYears().join(', ')})`,
+        400,
+        { year }
+      );
+    }
+
+    const rules = loadTaxRules(this.sources[year], `tax rules for ${year}`);
+    if (rules.taxYear !== year) {
+      throw new AppError('INVALID_TAX_RULES', `Tax rules for ${year} declare tax year ${rules.taxYear}`, 500);
+    }
+    this.loaded.set(year, rules);
+    return rules;
+  }
+
+  getDeductionRule(type: string, year: number): DeductionRule | null {
+    const key = type.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+    const deductionType =
+      DEDUCTION_ALIASES[key] ?? (DEDUCTION_TYPES as readonly string[]).find((known) => known === key);
+    return deductionType ? this.getRules(year).deductions[deductionType as DeductionType] ?? null : null;
+  }
+
+  /**
+   * Importe máximo deducible ("limit for SALT in 2023"). Devuelve null si la
+   * deducción no tiene tope conocido o el tope depende de una AGI no indicada.
+   */
+  getDeductionLimit(type: string, year: number, context: RuleContext = {}): number | null {
+    const rule = this.getDeductionRule(type, year);
+    if (!rule) {
+      return null;
+    }
+
+    const { filingStatus, agi } = context;
+    let limit = rule.limit === undefined ? Infinity : resolveAmount(rule.limit, filingStatus);
+    if (rule.agiPercent !== undefined && agi !== undefined) {
+      limit = Math.min(limit, Math.max(0, agi) * rule.agiPercent);
+    }
+    if (rule.phaseOut && agi !== undefined && Number.isFinite(limit)) {
+      limit = applyPhaseOut(limit, rule.phaseOut, agi, filingStatus);
+    }
+    return Number.isFinite(limit) ? roundCents(limit) : null;
+  }
+
+  // Límite anual con la aportación adicional si se alcanza la edad de catch-up
+  getContributionLimit(account: ContributionAccount, year: number, context: RuleContext = {}): number {
+    const rule = this.getRules(year).contributionLimits[account];
+    if (!rule) {
+      throw new AppError('UNKNOWN_TAX_RULE', `No contribution limit for ${account} in ${year}`, 404);
+    }
+    return rule.limit + (context.age !== undefined && context.age >= rule.catchUpAge ? rule.catchUp : 0);
+  }
+
+  getDeadlines(year: number, type?: TaxDeadline['type']): TaxDeadline[] {
+    return this.getRules(year)
+      .deadlines.filter((deadline) => !type || deadline.type === type)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  getDeadline(id: string, year: number): TaxDeadline {
+    const deadline = this.getRules(year).deadlines.find((candidate) => candidate.id === id);
+    if (!deadline) {
+      throw new AppError('UNKNOWN_TAX_RULE', `No deadline ${id} in ${year}`, 404);
+    }
+    return deadline;
+  }
+
+  // Formularios que deben recibirse por cada tipo de ingreso, con su fecha límite
+  getFormRequirements(year: number, incomeType?: IncomeType): IRSRequirement[] {
+    const rules = this.getRules(year);
+    return rules.forms
+      .filter((form) => !incomeType || form.incomeType === incomeType)
+      .map((form) => ({
+        formId: form.formId,
+        description: form.description,
+        deadline: this.getDeadline(form.deadline, year).date,
+        required: form.required ?? true,
+      }));
+  }
+
+  getCredits(year: number): TaxRules['credits'] {
+    return this.getRules(year).credits;
+  }
+}
+
+export const taxRules = TaxRulesService.getInstance();
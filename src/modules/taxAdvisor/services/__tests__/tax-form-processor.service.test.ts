@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import { FixtureProvider } from '@/core-hub/ai/providers/fixture.provider';
+import { getFormMapping } from '../../forms/mappings';
+import { templateSource } from '../../forms/__tests__/synthetic-templates';
+import { TaxFormProcessorService } from '../tax-form-processor.service';
+
+const NEC_TEXT = '1 Nonemployee compensation   50,000.00   4 Federal income tax withheld   2,000.00';
+
+const documents = [
+  {
+    type: '1099-NEC' as const,
+    year: '2024',
+    content: {
+      data: NEC_TEXT,
+      metadata: { formType: '1099-NEC', year: 2024, source: 'upload', documentId: 'nec-1' },
+    },
+  },
+];
+
+function llm(): FixtureProvider {
+  return new FixtureProvider([
+    { match: 'Assess audit risk', response: '{"riskLevel": "LOW", "riskFactors": []}' },
+    { match: 'recommendations', response: '{"recommendations": ["Open a SEP-IRA"]}' },
+    { match: 'tax summary', response: 'You owe self-employment tax on $50,000.' },
+  ]);
+}
+
+describe('TaxFormProcessorService.processAndFillForms', () => {
+  it('should compute the return from the documents and return the filled forms', async () => {
+    const provider = llm();
+    const service = new TaxFormProcessorService(provider, await templateSource());
+
+    const result = await service.processAndFillForms(documents, 'en', {
+      taxpayer: { firstName: 'Jane', lastName: 'Doe', ssn: '123-45-6789' },
+    });
+
+    expect(result.success).toBe(true);
+    // 1040, Schedule 2 y Schedule SE por los ingresos de autónomo
+    expect(result.forms).toHaveLength(3);
+    const f1040 = await PDFDocument.load(new Uint8Array(result.forms[0]));
+    const fields = getFormMapping('F1040', 2024).fields;
+    const text = (key: string) => {
+      const field = fields[key];
+      return 'field' in field ? f1040.getForm().getTextField(field.field).getText() : undefined;
+    };
+    expect(text('firstName')).toBe('Jane');
+    expect(text('line25d')).toBe('2,000.00');
+    expect(result.validationResults).toEqual({ 'nec-1:1099-NEC:WITHHOLDING_ABOVE_INCOME': true });
+    expect(result.warnings).toEqual([]);
+    expect(result.potentialCredits).toEqual([]);
+    expect(result.auditRisk).toEqual({ level: 'LOW', factors: [] });
+    expect(result.recommendations).toEqual(['Open a SEP-IRA']);
+    expect(result.summary).toBe('You owe self-employment tax on $50,000.');
+    // El modelo recibe las líneas calculadas, no los documentos en bruto
+    expect(provider.calls[0].messages[0].content).toContain('"adjustedGrossIncome"');
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { FixtureProvider } from '@/core-hub/ai/providers/fixture.provider';
+import { TaxOptimizationService } from '../tax-optimization.service';
+
+const input = {
+  taxYear: 2024,
+  filingStatus: 'SINGLE' as const,
+  wages: 75000,
+  federalWithholding: 8000,
+};
+
+describe('TaxOptimizationService.calculateTaxScenarios', () => {
+  it('should take the figures from the engine and only the wording from the model', async () => {
+    const llm = new FixtureProvider([
+      {
+        match: 'Explain these tax scenarios',
+        response: JSON.stringify([
+          {
+            name: 'Maximize 401(k) contributions',
+            description: 'Deferring more salary lowers your taxable wages.',
+            projectedTax: 1,
+            risks: [{ description: 'Less cash now', severity: 'LOW', mitigation: 'Keep a cash buffer' }],
+          },
+        ]),
+      },
+    ]);
+    const scenarios = await new TaxOptimizationService(llm).calculateTaxScenarios(input);
+
+    expect(scenarios.map(({ name, projectedTax, potentialSavings }) => ({ name, projectedTax, potentialSavings })))
+      .toEqual([
+        { name: 'Current situation', projectedTax: 8347, potentialSavings: 0 },
+        { name: 'Maximize 401(k) contributions', projectedTax: 4259, potentialSavings: 4088 },
+        { name: 'Contribute to a traditional IRA', projectedTax: 6807, potentialSavings: 1540 },
+      ]);
+    expect(scenarios[1].description).toBe('Deferring more salary lowers your taxable wages.');
+    expect(scenarios[1].strategies[0].impact).toBe(4088);
+    // Las aportaciones al 401(k) se hacen por nómina dentro del año; la IRA puede esperar a abril
+    expect(scenarios[1].strategies[0].timeline).toBe('Implement by 2024-12-31');
+    expect(scenarios[2].strategies[0].timeline).toBe('Plan by 2024-12-31, implement by 2025-04-15');
+    expect(scenarios[1].computation.lines.wages).toBe(52000);
+    expect(scenarios[0].description).toContain('$8,347');
+  });
+
+  it('should keep deterministic descriptions when the model fails', async () => {
+    const scenarios = await new TaxOptimizationService(new FixtureProvider([], 'not json'))
+      .calculateTaxScenarios({ ...input, coveredByWorkplacePlan: true, electiveDeferrals: 23000 });
+
+    expect(scenarios).toHaveLength(1);
+    expect(scenarios[0].risks).toEqual([]);
+    expect(scenarios[0].description).toContain('marginal rate 22%');
+  });
+
+  it('should name, describe and explain the scenarios in the user language', async () => {
+    const llm = new FixtureProvider([], 'not json');
+    const scenarios = await new TaxOptimizationService(llm).calculateTaxScenarios(input, 'es');
+
+    expect(scenarios.map(({ name }) => name)).toEqual([
+      'Situación actual',
+      'Aportar el máximo al 401(k)',
+      'Aportar a una IRA tradicional',
+    ]);
+    expect(scenarios[0].description).toContain('tipo marginal 22');
+    expect(scenarios[2].strategies[0].timeline).toBe('Planificar antes del 2024-12-31 y aplicar antes del 2025-04-15');
+    expect(llm.calls[0].messages[0].content).toContain('Explica al contribuyente en español');
+  });
+});
+
+describe('TaxOptimizationService.simulateScenarios', () => {
+  it('should compute each change alone and all of them together', async () => {
+    const scenarios = await new TaxOptimizationService(new FixtureProvider()).simulateScenarios(
+      input,
+      [
+        { type: 'RETIREMENT_CONTRIBUTION', account: 'IRA', amount: 6000 },
+        { type: 'SELL_STOCK', proceeds: 10000, costBasis: 4000 },
+      ],
+      { explain: false }
+    );
+
+    expect(scenarios.map(({ name, projectedTax, potentialSavings }) => ({ name, projectedTax, potentialSavings })))
+      .toEqual([
+        { name: 'Current situation', projectedTax: 8347, potentialSavings: 0 },
+        { name: 'Contribute $6,000 to a traditional IRA', projectedTax: 7027, potentialSavings: 1320 },
+        { name: 'Sell $10,000 of stock', projectedTax: 9247, potentialSavings: -900 },
+        { name: 'All changes', projectedTax: 7927, potentialSavings: 420 },
+      ]);
+    expect(scenarios[3].strategies.map(({ impact }) => impact)).toEqual([1320, -900]);
+    expect(scenarios[2].computation.marginalRate).toBe(0.22);
+  });
+
+  it('should reject a simulation without changes', async () => {
+    await expect(
+      new TaxOptimizationService(new FixtureProvider()).simulateScenarios(input, [])
+    ).rejects.toMatchObject({ code: 'INVALID_SIMULATION', status: 400 });
+  });
+});
+
+describe('TaxOptimizationService.compareScheduleCMethods', () => {
+  it('should keep only the home office and vehicle methods that lower the tax', async () => {
+    const scenarios = await new TaxOptimizationService(new FixtureProvider()).compareScheduleCMethods(
+      { taxYear: 2024, filingStatus: 'SINGLE' },
+      {
+        taxYear: 2024,
+        grossReceipts: 60000,
+        expenses: [{ description: 'Software subscriptions', amount: 1200 }],
+        homeOffice: {
+          method: 'SIMPLIFIED',
+          officeSquareFeet: 250,
+          homeSquareFeet: 1250,
+          homeExpenses: { rent: 24000, utilities: 3000 },
+        },
+        vehicle: { businessMiles: 3000, totalMiles: 12000, actualExpenses: 6000, method: 'STANDARD_MILEAGE' },
+      },
+      { explain: false }
+    );
+
+    expect(scenarios.map(({ name }) => name)).toEqual(['Current situation', 'Use the regular home office method']);
+    const [current, regular] = scenarios;
+    expect(current.scheduleC?.homeOffice?.deduction).toBe(1250);
+    // 20 % del alquiler y los suministros
+    expect(regular.scheduleC?.homeOffice?.deduction).toBe(5400);
+    expect(regular.computation.lines.qbiDeduction).toBeLessThan(current.computation.lines.qbiDeduction);
+    expect(regular.potentialSavings).toBeGreaterThan(0);
+    expect(regular.strategies).toEqual([
+      {
+        action: 'Use the regular home office method',
+        impact: regular.potentialSavings,
+        timeline: 'Plan by 2024-12-31, implement by 2025-04-15',
+      },
+    ]);
+  });
+});
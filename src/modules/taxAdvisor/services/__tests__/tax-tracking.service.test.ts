@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { FixtureProvider } from '@/core-hub/ai/providers/fixture.provider';
+import { EstimatedTaxPlan } from '../../interfaces/tax-engine.types';
+import { TaxTrackingService } from '../tax-tracking.service';
+
+// Firestore en memoria: cada documento por su ruta
+const firestore = vi.hoisted(() => ({ docs: new Map<string, Record<string, unknown>>() }));
+
+vi.mock('firebase/firestore', () => ({
+  getFirestore: () => ({}),
+  doc: (_db: unknown, ...segments: string[]) => segments.join('/'),
+  getDoc: async (path: string) => ({
+    exists: () => firestore.docs.has(path),
+    data: () => firestore.docs.get(path),
+  }),
+  setDoc: async (path: string, data: Record<string, unknown>, options?: { merge?: boolean }) => {
+    firestore.docs.set(path, options?.merge ? { ...firestore.docs.get(path), ...data } : data);
+  },
+  updateDoc: async () => {
+    throw new Error('updateDoc should not be used');
+  },
+  Timestamp: { now: () => new Date() },
+}));
+
+const USER = 'tracking-user';
+const NOW = new Date('2025-03-01T12:00:00');
+
+const installment = (quarter: 1 | 2 | 3 | 4, dueDate: string, amount: number) => ({
+  quarter,
+  deadlineId: `ESTIMATED_Q${quarter}`,
+  dueDate,
+  requiredInstallment: amount,
+  amount,
+});
+
+const plan: EstimatedTaxPlan = {
+  taxYear: 2025,
+  method: 'ANNUALIZED',
+  projectedTax: 12000,
+  withholding: 0,
+  safeHarbor: { currentYear: 10800, priorYear: null },
+  requiredAnnualPayment: 10800,
+  paymentsRequired: true,
+  installments: [
+    installment(1, '2025-04-15', 0),
+    installment(2, '2025-06-16', 1800),
+    installment(3, '2025-09-15', 3600),
+    installment(4, '2026-01-15', 5400),
+  ],
+};
+
+describe('TaxTrackingService.monitorDeadlines', () => {
+  beforeEach(() => {
+    firestore.docs.clear();
+    firestore.docs.set(`users/${USER}`, {});
+  });
+
+  it('should register every installment of the plan as a payment deadline', async () => {
+    const service = new TaxTrackingService(new FixtureProvider([]));
+
+    const deadlines = await service.monitorDeadlines(USER, plan, NOW);
+
+    const payments2025 = deadlines.filter(
+      (deadline) => deadline.type === 'PAYMENT' && deadline.description.includes('2025')
+    );
+    // Los plazos genéricos de las reglas no se duplican con los del plan
+    expect(payments2025.map(({ amount, status }) => ({ amount, status }))).toEqual([
+      { amount: 0, status: 'UPCOMING' },
+      { amount: 1800, status: 'UPCOMING' },
+      { amount: 3600, status: 'UPCOMING' },
+      { amount: 5400, status: 'UPCOMING' },
+    ]);
+    expect(deadlines.find(({ type }) => type === 'FILING')?.dueDate).toEqual(new Date('2025-04-15T23:59:59'));
+    expect(firestore.docs.get(`reminders/${USER}`)).toMatchObject({ deadlines, estimatedTaxPlan: plan });
+  });
+
+  it('should keep the amounts of the saved plan on later checks', async () => {
+    const service = new TaxTrackingService(new FixtureProvider([]));
+    await service.monitorDeadlines(USER, plan, NOW);
+
+    const deadlines = await service.monitorDeadlines(USER, undefined, NOW);
+
+    expect(deadlines.filter(({ amount }) => amount !== undefined)).toHaveLength(4);
+  });
+
+  it('should describe the deadlines in the user language', async () => {
+    const service = new TaxTrackingService(new FixtureProvider([]));
+
+    const deadlines = await service.monitorDeadlines(USER, plan, NOW, 'es');
+
+    expect(deadlines.find(({ type }) => type === 'FILING')?.description).toBe(
+      'Presentación del Form 1040 y pago del saldo pendiente'
+    );
+    expect(deadlines.map(({ description }) => description)).toContain(
+      'Pago de impuesto estimado T2 2025 (Form 1040-ES)'
+    );
+  });
+
+  it('should fail for an unknown user', async () => {
+    const service = new TaxTrackingService(new FixtureProvider([]));
+    await expect(service.monitorDeadlines('nobody', plan, NOW)).rejects.toMatchObject({ code: 'DEADLINE_ERROR' });
+  });
+});
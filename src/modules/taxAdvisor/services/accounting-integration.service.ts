@@ -1,8 +1,10 @@
 
 import { logger } from '@/shared/utils/logger';
 import { AppError } from '@/shared/utils/error-handler';
+import { ScheduleCInput } from '../interfaces/schedule-c.types';
+import { roundCents } from '../engine/tax-computation';
 
-interface AccountingData {
+export interface AccountingData {
   income: Record<string, number>;
   expenses: Record<string, number>;
   assets: Record<string, number>;
@@ -21,6 +23,24 @@ export class AccountingIntegrationService {
     }
   }
 
+  /**
+   * Schedule C a partir del libro contable: los ingresos son los ingresos
+   * brutos y cada cuenta de gastos se clasifica por su nombre (ver
+   * categorizeExpense). Oficina en casa, vehículo y datos QBI van aparte.
+   */
+  scheduleCInput(
+    data: AccountingData,
+    taxYear: number,
+    details: Omit<ScheduleCInput, 'taxYear' | 'grossReceipts' | 'expenses'> = {}
+  ): ScheduleCInput {
+    return {
+      ...details,
+      taxYear,
+      grossReceipts: roundCents(Object.values(data.income ?? {}).reduce((sum, value) => sum + value, 0)),
+      expenses: Object.entries(data.expenses ?? {}).map(([description, amount]) => ({ description, amount })),
+    };
+  }
+
   private async fetchAccountingData(userId: string): Promise<AccountingData> {
     // Implementar obtención de datos contables
     return {} as AccountingData;
@@ -1,7 +1,9 @@
-import { Anthropic } from '@anthropic-ai/sdk';
+import { z } from 'zod';
+import { LLMProvider } from '@/core-hub/ai/interfaces/llm-provider.types';
+import { providerRegistry } from '@/core-hub/ai/services/provider-registry.service';
+import { completeStructured } from '@/core-hub/ai/utils/structured-output';
 import { logger } from '@/shared/utils/logger';
 import { AppError } from '@/shared/utils/error-handler';
-import { retry } from '@/shared/utils/retry';
 import { getFirestore, doc, setDoc, Timestamp } from "firebase/firestore"; // Added Firebase imports
 import { firebaseApp } from '@/shared/firebase'; // Assuming firebaseApp is defined elsewhere
 
@@ -43,13 +45,8 @@ interface AuditPackage {
 }
 
 export class IRSCommunicationService {
-  private anthropic: Anthropic;
-  private readonly MAX_RETRIES = 3;
 
-  constructor() {
-    this.anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
+  constructor(private llm: LLMProvider = providerRegistry.resolve()) {
     this.initializeTaxLawUpdates();
   }
 
@@ -65,8 +62,7 @@ export class IRSCommunicationService {
   }
 
   private async fetchLatestTaxLawUpdates() {
-    const response = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
+    const response = await this.llm.complete({
       messages: [{
         role: 'user',
         content: 'Analyze and summarize the latest IRS tax law changes and updates from irs.gov'
@@ -76,7 +72,7 @@ export class IRSCommunicationService {
     // Almacenar actualizaciones en Firebase
     const db = getFirestore(firebaseApp);
     await setDoc(doc(db, 'taxLawUpdates', new Date().toISOString()), {
-      content: response.content[0].text,
+      content: response.text,
       timestamp: Timestamp.now()
     });
   }
@@ -133,24 +129,21 @@ export class IRSCommunicationService {
     }
   }
 
-  private async analyzeNoticeWithAI(notice: IRSNotice): Promise<any> {
-    const response = await retry(
-      async () => {
-        return await this.anthropic.messages.create({
-          model: 'claude-3-opus-20240229',
-          messages: [{
-            role: 'user',
-            content: `Analyze this IRS notice and provide recommendations for response:
-              Notice Type: ${notice.type}
-              Content: ${notice.content}
-              Due Date: ${notice.dueDate}`
-          }]
-        });
+  private async analyzeNoticeWithAI(notice: IRSNotice): Promise<Record<string, unknown>> {
+    return completeStructured(
+      this.llm,
+      {
+        messages: [{
+          role: 'user',
+          content: `Analyze this IRS notice and provide recommendations for response:
+            Notice Type: ${notice.type}
+            Content: ${notice.content}
+            Due Date: ${notice.dueDate}`
+        }]
       },
-      this.MAX_RETRIES
+      z.record(z.unknown()),
+      { name: 'IRS notice analysis' }
     );
-
-    return JSON.parse(response.content[0].text);
   }
 
   private async prepareResponseDocuments(notice: IRSNotice, analysis: any): Promise<Buffer[]> {
@@ -159,8 +152,7 @@ export class IRSCommunicationService {
   }
 
   private async generateDetailedExplanation(notice: IRSNotice, analysis: any): Promise<string> {
-    const response = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
+    const response = await this.llm.complete({
       messages: [{
         role: 'user',
         content: `Generate a detailed explanation for this IRS notice response:
@@ -169,7 +161,7 @@ export class IRSCommunicationService {
       }]
     });
 
-    return response.content[0].text;
+    return response.text;
   }
 
   private calculateDeadlines(notice: IRSNotice): {
@@ -197,15 +189,14 @@ export class IRSCommunicationService {
     const explanations = new Map<string, string>();
 
     for (const [docId, content] of documents) {
-      const response = await this.anthropic.messages.create({
-        model: 'claude-3-opus-20240229',
+      const response = await this.llm.complete({
         messages: [{
           role: 'user',
           content: `Generate explanation for tax document ${docId}`
         }]
       });
 
-      explanations.set(docId, response.content[0].text);
+      explanations.set(docId, response.text);
     }
 
     return explanations;
@@ -215,8 +206,7 @@ export class IRSCommunicationService {
     request: AuditRequest,
     documents: Map<string, Buffer>
   ): Promise<string> {
-    const response = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
+    const response = await this.llm.complete({
       messages: [{
         role: 'user',
         content: `Create executive summary for audit:
@@ -226,7 +216,7 @@ export class IRSCommunicationService {
       }]
     });
 
-    return response.content[0].text;
+    return response.text;
   }
 
   private createAuditTimeline(request: AuditRequest): {
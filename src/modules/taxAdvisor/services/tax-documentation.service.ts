@@ -1,32 +1,14 @@
 
-import { Anthropic } from '@anthropic-ai/sdk';
+import { LLMProvider } from '@/core-hub/ai/interfaces/llm-provider.types';
+import { providerRegistry } from '@/core-hub/ai/services/provider-registry.service';
 import { logger } from '@/shared/utils/logger';
 import { AppError } from '@/shared/utils/error-handler';
 import { TaxYear, DocumentationType, IRSRequirement } from '../interfaces/tax-documentation.types';
+import { taxRules } from '../rules/tax-rules.service';
+import { INCOME_TYPES } from '../rules/tax-rules.schema';
 
 export class TaxDocumentationService {
-  private anthropic: Anthropic;
-  private readonly REQUIRED_DOCS_BY_TYPE = new Map<string, IRSRequirement[]>();
-
-  constructor() {
-    this.anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
-    this.initializeRequirements();
-  }
-
-  private initializeRequirements() {
-    // Actualizado para 2024
-    this.REQUIRED_DOCS_BY_TYPE.set('EMPLOYMENT', [
-      { formId: 'W-2', description: 'Wage and Tax Statement', deadline: '01/31/2024' },
-      { formId: '1099-NEC', description: 'Nonemployee Compensation', deadline: '01/31/2024' },
-    ]);
-    
-    this.REQUIRED_DOCS_BY_TYPE.set('INVESTMENTS', [
-      { formId: '1099-B', description: 'Proceeds from Broker Transactions', deadline: '02/15/2024' },
-      { formId: '1099-DIV', description: 'Dividends and Distributions', deadline: '02/15/2024' },
-      { formId: '1099-INT', description: 'Interest Income', deadline: '02/15/2024' },
-    ]);
+  constructor(private llm: LLMProvider = providerRegistry.resolve()) {}
 
   private validateDocument(doc: any): boolean {
     const validations = {
@@ -57,8 +39,6 @@ export class TaxDocumentationService {
            false;
   }
 
-  }
-
   async generateSupportingDocuments(taxData: any): Promise<{
     documents: Document[];
     explanations: Map<string, string>;
@@ -121,8 +101,7 @@ export class TaxDocumentationService {
   }
 
   private async analyzeWithAI(taxData: any) {
-    const response = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
+    const response = await this.llm.complete({
       messages: [{
         role: 'user',
         content: `Analyze this tax data comprehensively:
@@ -137,7 +116,7 @@ export class TaxDocumentationService {
       }]
     });
 
-    const analysis = this.parseAIResponse(response.content[0].text);
+    const analysis = this.parseAIResponse(response.text);
     
     // Verificación adicional de documentos
     const requiredDocs = await this.validateRequiredDocuments(analysis.requiredDocs);
@@ -193,18 +172,17 @@ export class TaxDocumentationService {
     };
   }
 
+  // Formularios que el IRS exige para cada tipo de ingreso del año declarado
   private async checkMissingDocumentation(taxData: any): Promise<IRSRequirement[]> {
-    const missingDocs = [];
-    for (const [type, requirements] of this.REQUIRED_DOCS_BY_TYPE) {
-      if (this.hasIncomeType(taxData, type)) {
-        for (const req of requirements) {
-          if (!this.hasDocument(taxData, req.formId)) {
-            missingDocs.push(req);
-          }
-        }
-      }
+    const taxYear = Number(taxData?.taxYear) || new Date().getFullYear() - 1;
+    if (!taxRules.hasRules(taxYear)) {
+      logger.warn(`No tax rules for ${taxYear}; skipping the required documents check`);
+      return [];
     }
-    return missingDocs;
+
+    return INCOME_TYPES.filter((type) => this.hasIncomeType(taxData, type))
+      .flatMap((type) => taxRules.getFormRequirements(taxYear, type))
+      .filter((req) => req.required && !this.hasDocument(taxData, req.formId));
   }
 
   private hasIncomeType(taxData: any, type: string): boolean {
@@ -230,6 +208,5 @@ export class TaxDocumentationService {
       if (!doc.formId || !doc.status) return false;
       return doc.formId === formId && doc.status === 'VERIFIED';
     });
-  };
   }
 }
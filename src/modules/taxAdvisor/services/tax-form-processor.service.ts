@@ -1,14 +1,30 @@
 
-import { Anthropic } from '@anthropic-ai/sdk';
-import { PDFDocument } from 'pdf-lib';
+import { z } from 'zod';
+import { LLMProvider } from '@/core-hub/ai/interfaces/llm-provider.types';
+import { providerRegistry } from '@/core-hub/ai/services/provider-registry.service';
+import { completeStructured } from '@/core-hub/ai/utils/structured-output';
 import { logger } from '@/shared/utils/logger';
 import { AppError } from '@/shared/utils/error-handler';
-import { retry } from '@/shared/utils/retry';
 import { Cache } from '@/shared/utils/cache';
-import { Timeout } from '@/shared/utils/timeout';
+import { DEFAULT_LOCALE, Locale, t } from '@/shared/i18n/i18n';
+import { extractW2 } from '../extraction/w2-extractor';
+import { extract1099 } from '../extraction/form-1099-extractor';
+import { Form1099Extraction, Form1099Variant } from '../extraction/form-1099.schema';
+import { incomeRecordsFrom1099, incomeRecordsFromW2 } from '../extraction/income-records';
+import { ExtractionCheck, IncomeRecord, W2Extraction } from '../interfaces/tax-extraction.types';
+import { EstimatedTaxPlan, TaxComputation } from '../interfaces/tax-engine.types';
+import { FillFormsOptions, FillVouchersOptions } from '../interfaces/tax-forms.types';
+import { computeForm1040 } from '../engine/form-1040';
+import { TaxProfileFields, taxReturnInputFromIncomeRecords } from '../engine/return-input';
+import { returnInputWithScheduleC } from '../engine/schedule-c';
+import { FORM_VALUES, estimatedVoucherValues, requiredForms } from '../forms/form-values';
+import { fillForm } from '../forms/form-filler';
+import { getFormMapping } from '../forms/mappings';
+import { FormTemplateSource, fileTemplateSource } from '../forms/templates';
 
 interface TaxDocument {
-  type: 'W2' | '1099' | 'OTHER';
+  // '1099' sin variante: se detecta en el documento
+  type: 'W2' | '1099' | `1099-${Form1099Variant}` | 'OTHER';
   year: string;
   content: {
     data: string | Buffer;
@@ -26,20 +42,17 @@ interface TaxDocument {
   raw?: Buffer;
 }
 
-interface FormField {
-  id: string;
-  value: string;
-  line: number;
-  description: string;
-  source?: TaxDocument;
-  irsValidation?: {
-    isValid: boolean;
-    message?: string;
-    lastChecked: Date;
-    warningLevel?: 'LOW' | 'MEDIUM' | 'HIGH';
-  };
+// Lo que se extrae de cada documento, en el orden de los documentos
+type ExtractedDocument = W2Extraction | Form1099Extraction[] | Record<string, never>;
+
+// Datos de la declaración que se pasan al modelo para el resumen, las recomendaciones y el riesgo
+interface ReturnData {
+  incomeRecords: IncomeRecord[];
+  form1040?: TaxComputation['lines'];
 }
 
+type AuditRisk = ProcessingResult['auditRisk'];
+
 interface ProcessingResult {
   success: boolean;
   forms: Buffer[];
@@ -55,52 +68,56 @@ interface ProcessingResult {
 }
 
 export class TaxFormProcessorService {
-  private anthropic: Anthropic;
   private cache: Cache<string, ProcessingResult>;
-  private readonly MAX_RETRIES = 3;
-  private readonly TIMEOUT_MS = 30000;
 
-  constructor() {
-    this.anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
+  constructor(
+    private llm: LLMProvider = providerRegistry.resolve(),
+    private templates: FormTemplateSource = fileTemplateSource()
+  ) {
     this.cache = new Cache({ maxSize: 1000, ttl: 3600000 });
   }
 
-  async processAndFillForms(documents: TaxDocument[]): Promise<ProcessingResult> {
+  /**
+   * El resumen y las recomendaciones se generan en el idioma del usuario. Los
+   * formularios se rellenan con el Form 1040 calculado a partir de los
+   * ingresos de los documentos (y del Schedule C, si lo hay); el perfil aporta
+   * el estado civil y los hijos. La validación son las comprobaciones cruzadas
+   * de cada W-2 y 1099, y las que fallan salen como avisos.
+   */
+  async processAndFillForms(
+    documents: TaxDocument[],
+    locale: Locale = DEFAULT_LOCALE,
+    options: FillFormsOptions & { taxProfile?: TaxProfileFields } = {}
+  ): Promise<ProcessingResult> {
     try {
-      const cacheKey = this.generateCacheKey(documents);
+      const cacheKey = `${locale}:${JSON.stringify(options)}:${this.generateCacheKey(documents)}`;
       const cached = this.cache.get(cacheKey);
       if (cached) return cached;
 
       const extractedData = await this.extractDocumentData(documents);
-      const aiAnalysis = await this.performAIAnalysis(extractedData);
-      
-      const validatedData = await retry(
-        () => this.validateTaxData(extractedData, aiAnalysis),
-        this.MAX_RETRIES
-      );
+      const incomeRecords = this.incomeRecordsOf(documents, extractedData);
+      const checks = this.checksOf(documents, extractedData);
 
-      const validationResults = await Timeout.wrap(
-        this.performDetailedValidation(validatedData),
-        this.TIMEOUT_MS
-      );
+      const recordsInput = taxReturnInputFromIncomeRecords(incomeRecords, options.taxProfile);
+      // El Schedule C ya incluye los 1099-NEC: su beneficio neto sustituye a esos ingresos
+      const input = recordsInput && options.scheduleC
+        ? returnInputWithScheduleC(recordsInput, options.scheduleC)
+        : recordsInput;
+      const computation = input ? computeForm1040(input) : undefined;
 
-      const requiredForms = await this.determineRequiredForms(validatedData);
-      const formData = await this.prepareFormData(validatedData, requiredForms);
-      
-      const irsCompliance = await this.verifyIRSCompliance(formData);
-      const potentialCredits = await this.analyzePotentialCredits(validatedData);
+      const formData: ReturnData = { incomeRecords, form1040: computation?.lines };
+      const validationResults = Object.fromEntries(checks.map(({ id, check }) => [id, check.passed]));
       const auditRisk = await this.assessAuditRisk(formData, validationResults);
-      
       const result: ProcessingResult = {
         success: true,
-        forms: await this.fillForms(formData),
-        summary: await this.generateTaxSummary(formData),
-        potentialCredits,
-        warnings: irsCompliance.warnings,
+        forms: computation ? await this.fillForms(computation, options) : [],
+        summary: await this.generateTaxSummary(formData, locale),
+        potentialCredits: computation ? this.creditsOf(computation) : [],
+        warnings: checks
+          .filter(({ check }) => !check.passed)
+          .map(({ id, check }) => `${id} failed (${check.fields.join(', ')})`),
         validationResults,
-        recommendations: await this.generateRecommendations(validatedData, auditRisk),
+        recommendations: await this.generateRecommendations(formData, auditRisk, locale),
         auditRisk
       };
 
@@ -111,6 +128,9 @@ export class TaxFormProcessorService {
         error: error instanceof Error ? error.message : 'Unknown error',
         documents: documents.map(d => d.content.metadata.formType)
       });
+      if (error instanceof AppError) {
+        throw error;
+      }
       throw new AppError('TAX_PROCESSING_ERROR', 'Error processing tax documents');
     }
   }
@@ -122,97 +142,182 @@ export class TaxFormProcessorService {
       .join('|');
   }
 
-  private async extractDocumentData(documents: TaxDocument[]): Promise<any> {
+  private async extractDocumentData(documents: TaxDocument[]): Promise<ExtractedDocument[]> {
     const extractionPromises = documents.map(async (doc) => {
       if (doc.type === 'W2') {
         return this.extractW2Data(doc);
-      } else if (doc.type === '1099') {
+      } else if (doc.type.startsWith('1099')) {
         return this.extract1099Data(doc);
       }
-      return this.extractGenericData(doc);
+      return this.extractGenericData();
     });
 
     return Promise.all(extractionPromises);
   }
 
-  private async performAIAnalysis(data: any): Promise<any> {
-    const response = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
-      max_tokens: 2048,
-      messages: [{
-        role: 'user',
-        content: `Analyze these tax documents for consistency, completeness, and potential issues:
-          ${JSON.stringify(data, null, 2)}`
-      }]
-    });
-
-    return JSON.parse(response.content[0].text);
-  }
-
-  private async assessAuditRisk(formData: any, validationResults: any): Promise<{
-    level: 'LOW' | 'MEDIUM' | 'HIGH';
-    factors: string[];
-  }> {
-    const response = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
-      messages: [{
-        role: 'user',
-        content: `Assess audit risk based on these tax documents and validation results:
-          Form Data: ${JSON.stringify(formData)}
-          Validation: ${JSON.stringify(validationResults)}`
-      }]
-    });
-
-    const analysis = JSON.parse(response.content[0].text);
+  private async assessAuditRisk(formData: ReturnData, validationResults: Record<string, boolean>): Promise<AuditRisk> {
+    const analysis = await completeStructured(
+      this.llm,
+      {
+        messages: [{
+          role: 'user',
+          content: `Assess audit risk based on these tax documents and validation results:
+            Form Data: ${JSON.stringify(formData)}
+            Validation: ${JSON.stringify(validationResults)}`
+        }]
+      },
+      z.object({
+        riskLevel: z.enum(['LOW', 'MEDIUM', 'HIGH']),
+        riskFactors: z.array(z.string()),
+      }),
+      { name: 'audit risk assessment' }
+    );
     return {
       level: analysis.riskLevel,
       factors: analysis.riskFactors
     };
   }
 
-  private async generateRecommendations(data: any, auditRisk: any): Promise<string[]> {
-    const response = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
-      messages: [{
-        role: 'user',
-        content: `Generate tax optimization recommendations based on:
-          Tax Data: ${JSON.stringify(data)}
-          Audit Risk: ${JSON.stringify(auditRisk)}`
-      }]
+  private async generateRecommendations(
+    data: ReturnData,
+    auditRisk: AuditRisk,
+    locale: Locale
+  ): Promise<string[]> {
+    const { recommendations } = await completeStructured(
+      this.llm,
+      {
+        messages: [{
+          role: 'user',
+          content: t(locale, 'prompts.tax.recommendations', {
+            data: JSON.stringify(data),
+            auditRisk: JSON.stringify(auditRisk),
+          })
+        }]
+      },
+      z.object({ recommendations: z.array(z.string()) }),
+      { name: 'tax recommendations' }
+    );
+
+    return recommendations;
+  }
+
+  private async extractW2Data(doc: TaxDocument): Promise<W2Extraction> {
+    const w2 = await extractW2(doc.raw ?? doc.content.data);
+    const failedChecks = w2.checks.filter(check => !check.passed);
+    if (failedChecks.length > 0) {
+      logger.warn('W-2 boxes failed cross-checks:', {
+        documentId: doc.content.metadata.documentId,
+        checks: failedChecks.map(check => check.code)
+      });
+    }
+    return w2;
+  }
+
+  /**
+   * Registros de ingresos normalizados de los W-2 y 1099, listos para
+   * TaxHistoryService.recordIncome y taxReturnInputFromIncomeRecords. Sin año
+   * en el formulario se usa el del documento.
+   */
+  async extractIncomeRecords(documents: TaxDocument[]): Promise<IncomeRecord[]> {
+    return this.incomeRecordsOf(documents, await this.extractDocumentData(documents));
+  }
+
+  // extractedData va en el orden de documents (ver extractDocumentData)
+  private incomeRecordsOf(documents: TaxDocument[], extractedData: ExtractedDocument[]): IncomeRecord[] {
+    return documents.flatMap((doc, index) => {
+      let docRecords: IncomeRecord[] = [];
+      if (doc.type === 'W2') {
+        docRecords = incomeRecordsFromW2(extractedData[index] as W2Extraction);
+      } else if (doc.type.startsWith('1099')) {
+        docRecords = (extractedData[index] as Form1099Extraction[]).flatMap(incomeRecordsFrom1099);
+      }
+      return docRecords.map(record => ({ ...record, taxYear: record.taxYear ?? doc.content.metadata.year }));
     });
+  }
 
-    return JSON.parse(response.content[0].text).recommendations;
+  // Comprobaciones cruzadas de cada formulario, con un id estable por documento y código
+  private checksOf(
+    documents: TaxDocument[],
+    extractedData: ExtractedDocument[]
+  ): Array<{ id: string; check: ExtractionCheck<string> }> {
+    return documents.flatMap((doc, index) => {
+      const documentId = doc.content.metadata.documentId ?? String(index);
+      const forms: Array<{ form: string; checks: ExtractionCheck<string>[] }> = [];
+      if (doc.type === 'W2') {
+        forms.push({ form: 'W-2', checks: (extractedData[index] as W2Extraction).checks });
+      } else if (doc.type.startsWith('1099')) {
+        for (const form of extractedData[index] as Form1099Extraction[]) {
+          forms.push({ form: `1099-${form.variant}`, checks: form.checks });
+        }
+      }
+      return forms.flatMap(({ form, checks }) =>
+        checks.map((check) => ({ id: `${documentId}:${form}:${check.code}`, check }))
+      );
+    });
   }
 
-  private async extractW2Data(doc: TaxDocument): Promise<any> {
-    // Implementar extracción específica de W2
-    return {};
+  // Créditos que aplica el Form 1040 calculado
+  private creditsOf({ lines }: TaxComputation): string[] {
+    return [
+      ...(lines.childTaxCredit > 0 ? ['CHILD_TAX_CREDIT'] : []),
+      ...(lines.earnedIncomeCredit > 0 ? ['EARNED_INCOME_CREDIT'] : []),
+      ...(lines.additionalChildTaxCredit > 0 ? ['ADDITIONAL_CHILD_TAX_CREDIT'] : []),
+    ];
   }
 
-  private async extract1099Data(doc: TaxDocument): Promise<any> {
-    // Implementar extracción específica de 1099
-    return {};
+  private async extract1099Data(doc: TaxDocument): Promise<Form1099Extraction[]> {
+    const expected = doc.type === '1099' ? undefined : (doc.type.slice('1099-'.length) as Form1099Variant);
+    const forms = await extract1099(doc.raw ?? doc.content.data, expected);
+    if (forms.length === 0) {
+      logger.warn('No 1099 variant detected:', { documentId: doc.content.metadata.documentId });
+    }
+    for (const form of forms) {
+      const failedChecks = form.checks.filter(check => !check.passed);
+      if (failedChecks.length > 0) {
+        logger.warn(`1099-${form.variant} boxes failed cross-checks:`, {
+          documentId: doc.content.metadata.documentId,
+          checks: failedChecks.map(check => check.code)
+        });
+      }
+    }
+    return forms;
   }
 
-  private async extractGenericData(doc: TaxDocument): Promise<any> {
+  private async extractGenericData(): Promise<Record<string, never>> {
     // Implementar extracción genérica
     return {};
   }
 
-  private async fillForms(formData: any): Promise<Buffer[]> {
-    // Implementar llenado de formularios
-    return [];
+  /**
+   * Un PDF por formulario necesario (1040 y, según la declaración, Schedule 2,
+   * C y SE), rellenado con el mapeo de campos del año de la declaración.
+   */
+  async fillForms(computation: TaxComputation, options: FillFormsOptions = {}): Promise<Buffer[]> {
+    return Promise.all(
+      requiredForms(computation, options.scheduleC).map(async (formId) => {
+        const mapping = getFormMapping(formId, computation.taxYear);
+        const template = await this.templates.load(mapping.template);
+        const values = FORM_VALUES[formId](computation, options);
+        return fillForm(template, mapping, values, { flatten: options.flatten });
+      })
+    );
+  }
+
+  // Vouchers 1040-ES del año del plan con el importe de cada plazo
+  async fillEstimatedTaxVouchers(plan: EstimatedTaxPlan, options: FillVouchersOptions): Promise<Buffer> {
+    const mapping = getFormMapping('F1040ES', plan.taxYear);
+    const template = await this.templates.load(mapping.template);
+    return fillForm(template, mapping, estimatedVoucherValues(plan, options.taxpayer), { flatten: options.flatten });
   }
 
-  private async generateTaxSummary(formData: any): Promise<string> {
-    const response = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
+  private async generateTaxSummary(formData: ReturnData, locale: Locale): Promise<string> {
+    const response = await this.llm.complete({
       messages: [{
         role: 'user',
-        content: `Generate a comprehensive tax summary for: ${JSON.stringify(formData)}`
+        content: t(locale, 'prompts.tax.summary', { data: JSON.stringify(formData) })
       }]
     });
 
-    return response.content[0].text;
+    return response.text;
   }
 }
@@ -1,12 +1,55 @@
 
-import { Anthropic } from '@anthropic-ai/sdk';
+import { z } from 'zod';
+import { LLMProvider } from '@/core-hub/ai/interfaces/llm-provider.types';
+import { providerRegistry } from '@/core-hub/ai/services/provider-registry.service';
+import { completeStructured } from '@/core-hub/ai/utils/structured-output';
 import { logger } from '@/shared/utils/logger';
 import { AppError } from '@/shared/utils/error-handler';
+import { DEFAULT_LOCALE, Locale, t } from '@/shared/i18n/i18n';
 import { retry } from '@/shared/utils/retry';
 import { Cache } from '@/shared/utils/cache';
 import { firebaseApp } from '@/shared/config/firebase.config';
+import { toFilingStatus } from '../engine/filing-status';
+import { taxRules } from '../rules/tax-rules.service';
+import { IncomeCategory, IncomeRecord } from '../interfaces/tax-extraction.types';
 import { getFirestore, doc, getDoc, setDoc, query, collection, where, orderBy, limit, Timestamp } from 'firebase/firestore';
 
+const eligibleCreditSchema = z.object({
+  type: z.string(),
+  estimatedAmount: z.number(),
+  confidence: z.number().min(0).max(1),
+  requirements: z.array(z.string()),
+});
+
+const historicalPatternSchema = z.object({
+  type: z.enum(['DEDUCTION_OPPORTUNITY', 'CREDIT_OPPORTUNITY', 'OTHER']),
+  description: z.string(),
+  estimatedBenefit: z.number(),
+  steps: z.array(z.string()),
+});
+
+type EligibleCredit = z.infer<typeof eligibleCreditSchema>;
+
+type HistoricalPattern = z.infer<typeof historicalPatternSchema>;
+
+type HistoryIncomeField = 'wages' | 'selfEmployment' | 'investments' | 'other';
+
+// Partida del historial de cada categoría de ingresos; el resto no se suma
+const HISTORY_INCOME_FIELDS: Partial<Record<IncomeCategory, HistoryIncomeField>> = {
+  WAGES: 'wages',
+  SELF_EMPLOYMENT_INCOME: 'selfEmployment',
+  INTEREST: 'investments',
+  ORDINARY_DIVIDENDS: 'investments',
+  CAPITAL_GAIN_DISTRIBUTIONS: 'investments',
+  SHORT_TERM_CAPITAL_GAIN: 'investments',
+  LONG_TERM_CAPITAL_GAIN: 'investments',
+  RENTS: 'other',
+  ROYALTIES: 'other',
+  OTHER_INCOME: 'other',
+  RETIREMENT_DISTRIBUTION: 'other',
+  UNEMPLOYMENT_COMPENSATION: 'other',
+};
+
 interface TaxAnalysisResult {
   errors: Array<{
     type: 'CALCULATION' | 'DOCUMENTATION' | 'REPORTING';
@@ -46,6 +89,8 @@ interface TaxHistory {
         investments?: number;
         other?: number;
       };
+      // Importes de W-2 y 1099 procesados, por id de registro
+      incomeRecords?: Record<string, IncomeRecord>;
       deductions: {
         type: string;
         amount: number;
@@ -79,19 +124,16 @@ interface TaxHistory {
 }
 
 export class TaxHistoryService {
-  private anthropic: Anthropic;
   private db = getFirestore(firebaseApp);
   private cache: Cache<string, any>;
   private readonly MAX_RETRIES = 3;
 
-  constructor() {
-    this.anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
+  constructor(private llm: LLMProvider = providerRegistry.resolve()) {
     this.cache = new Cache({ maxSize: 1000, ttl: 3600000 });
   }
 
-  async analyzeHistoricalReturns(userId: string): Promise<TaxAnalysisResult> {
+  // Descripciones, problemas y mejoras en el idioma del usuario
+  async analyzeHistoricalReturns(userId: string, locale: Locale = DEFAULT_LOCALE): Promise<TaxAnalysisResult> {
     try {
       const history = await this.maintainTaxHistory(userId);
       const years = Object.keys(history.years).sort();
@@ -101,16 +143,16 @@ export class TaxHistoryService {
       }
 
       // Analizar errores de cálculo
-      const calculationErrors = await this.detectCalculationErrors(history);
+      const calculationErrors = await this.detectCalculationErrors(history, locale);
       
       // Buscar créditos no reclamados
-      const unclaimedCredits = await this.findUnclaimedCredits(history);
+      const unclaimedCredits = await this.findUnclaimedCredits(history, locale);
       
       // Verificar problemas de documentación
-      const documentationIssues = await this.checkDocumentationIssues(history);
+      const documentationIssues = await this.checkDocumentationIssues(history, locale);
       
       // Identificar oportunidades de mejora
-      const improvements = await this.identifyImprovements(history);
+      const improvements = await this.identifyImprovements(history, locale);
 
       const analysis: TaxAnalysisResult = {
         errors: calculationErrors,
@@ -129,7 +171,7 @@ export class TaxHistoryService {
     }
   }
 
-  private async detectCalculationErrors(history: TaxHistory): Promise<any[]> {
+  private async detectCalculationErrors(history: TaxHistory, locale: Locale): Promise<any[]> {
     const errors = [];
     
     for (const [year, yearData] of Object.entries(history.years)) {
@@ -140,7 +182,7 @@ export class TaxHistoryService {
       if (Math.abs(reportedTotal - documentedTotal) > 0.01) {
         errors.push({
           type: 'CALCULATION',
-          description: `Income total mismatch in ${year}`,
+          description: t(locale, 'tax.history.incomeMismatch', { year }),
           severity: 'HIGH',
           yearAffected: parseInt(year),
           potentialImpact: Math.abs(reportedTotal - documentedTotal)
@@ -149,11 +191,11 @@ export class TaxHistoryService {
 
       // Verificar límites de deducciones
       for (const deduction of yearData.deductions) {
-        const deductionLimit = await this.getDeductionLimit(deduction.type, year);
-        if (deduction.amount > deductionLimit) {
+        const deductionLimit = this.getDeductionLimit(deduction.type, year, yearData);
+        if (deductionLimit !== null && deduction.amount > deductionLimit) {
           errors.push({
             type: 'CALCULATION',
-            description: `Deduction exceeds limit for ${deduction.type}`,
+            description: t(locale, 'tax.history.deductionOverLimit', { type: deduction.type }),
             severity: 'MEDIUM',
             yearAffected: parseInt(year),
             potentialImpact: deduction.amount - deductionLimit
@@ -165,12 +207,12 @@ export class TaxHistoryService {
     return errors;
   }
 
-  private async findUnclaimedCredits(history: TaxHistory): Promise<any[]> {
+  private async findUnclaimedCredits(history: TaxHistory, locale: Locale): Promise<any[]> {
     const unclaimedCredits = [];
     
     for (const [year, yearData] of Object.entries(history.years)) {
       // Analizar elegibilidad para créditos comunes
-      const eligibleCredits = await this.analyzeEligibleCredits(yearData);
+      const eligibleCredits = await this.analyzeEligibleCredits(yearData, locale);
       
       // Comparar con créditos reclamados
       const claimedCreditTypes = yearData.credits.map(c => c.type);
@@ -191,7 +233,7 @@ export class TaxHistoryService {
     return unclaimedCredits;
   }
 
-  private async checkDocumentationIssues(history: TaxHistory): Promise<any[]> {
+  private async checkDocumentationIssues(history: TaxHistory, locale: Locale): Promise<any[]> {
     const issues = [];
 
     for (const [year, yearData] of Object.entries(history.years)) {
@@ -204,7 +246,7 @@ export class TaxHistoryService {
           issues.push({
             documentType: doc.type,
             yearAffected: parseInt(year),
-            issue: 'Missing required document',
+            issue: t(locale, 'tax.history.missingDocument'),
             recommendation: doc.recommendation
           });
         }
@@ -216,8 +258,8 @@ export class TaxHistoryService {
         issues.push({
           documentType: doc.type,
           yearAffected: parseInt(year),
-          issue: 'Document not verified',
-          recommendation: 'Submit for verification'
+          issue: t(locale, 'tax.history.unverifiedDocument'),
+          recommendation: t(locale, 'tax.history.submitForVerification')
         });
       }
     }
@@ -225,24 +267,24 @@ export class TaxHistoryService {
     return issues;
   }
 
-  private async identifyImprovements(history: TaxHistory): Promise<any[]> {
+  private async identifyImprovements(history: TaxHistory, locale: Locale): Promise<any[]> {
     const improvements = [];
     
     // Analizar patrones históricos
-    const patterns = await this.analyzeHistoricalPatterns(history);
+    const patterns = await this.analyzeHistoricalPatterns(history, locale);
     
     // Identificar oportunidades de optimización
     for (const pattern of patterns) {
       if (pattern.type === 'DEDUCTION_OPPORTUNITY') {
         improvements.push({
-          category: 'Deductions',
+          category: t(locale, 'tax.history.deductions'),
           description: pattern.description,
           potentialBenefit: pattern.estimatedBenefit,
           implementationSteps: pattern.steps
         });
       } else if (pattern.type === 'CREDIT_OPPORTUNITY') {
         improvements.push({
-          category: 'Credits',
+          category: t(locale, 'tax.history.credits'),
           description: pattern.description,
           potentialBenefit: pattern.estimatedBenefit,
           implementationSteps: pattern.steps
@@ -253,6 +295,62 @@ export class TaxHistoryService {
     return improvements;
   }
 
+  /**
+   * Guarda los registros de ingresos de W-2 y 1099 procesados en su año y
+   * recalcula los ingresos del año a partir de ellos. Un registro con el mismo
+   * id sustituye al anterior; los que no tienen año se descartan.
+   */
+  async recordIncome(userId: string, records: IncomeRecord[]): Promise<void> {
+    const withYear = records.filter((record) => record.taxYear !== undefined);
+    if (withYear.length < records.length) {
+      logger.warn('Income records without tax year skipped:', {
+        userId,
+        records: records.filter((record) => record.taxYear === undefined).map((record) => record.id)
+      });
+    }
+    if (withYear.length === 0) {
+      return;
+    }
+
+    const historyRef = doc(this.db, 'taxHistory', userId);
+    const snapshot = await getDoc(historyRef);
+    const history: TaxHistory = snapshot.exists()
+      ? (snapshot.data() as TaxHistory)
+      : { userId, years: {}, lastUpdated: new Date() };
+
+    for (const record of withYear) {
+      const year = String(record.taxYear);
+      const yearData = history.years[year] ?? {
+        income: { wages: 0 },
+        deductions: [],
+        credits: [],
+        filingStatus: '',
+        totalTax: 0,
+        documents: []
+      };
+      const incomeRecords = { ...yearData.incomeRecords, [record.id]: record };
+      history.years[year] = {
+        ...yearData,
+        incomeRecords,
+        income: { ...yearData.income, ...this.incomeFromRecords(Object.values(incomeRecords)) }
+      };
+    }
+
+    await setDoc(historyRef, { ...history, lastUpdated: Timestamp.now() });
+  }
+
+  // Solo las partidas con algún registro; las demás conservan su valor
+  private incomeFromRecords(records: IncomeRecord[]): Partial<Record<HistoryIncomeField, number>> {
+    const income: Partial<Record<HistoryIncomeField, number>> = {};
+    for (const { category, amount } of records) {
+      const field = HISTORY_INCOME_FIELDS[category];
+      if (field) {
+        income[field] = Math.round(((income[field] ?? 0) + amount) * 100) / 100;
+      }
+    }
+    return income;
+  }
+
   private calculateTotalIncome(income: any): number {
     return (
       income.wages +
@@ -268,24 +366,37 @@ export class TaxHistoryService {
       .reduce((sum, doc) => sum + (doc.amount || 0), 0);
   }
 
-  private async getDeductionLimit(type: string, year: string): Promise<number> {
-    // Implementar lógica de límites de deducciones
-    return 0;
-  }
-
-  private async analyzeEligibleCredits(yearData: any): Promise<any[]> {
-    const response = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
-      messages: [{
-        role: 'user',
-        content: `Analyze tax data for eligible credits:
-          Income: ${JSON.stringify(yearData.income)}
-          Filing Status: ${yearData.filingStatus}
-          Documents: ${JSON.stringify(yearData.documents)}`
-      }]
+  // null si la deducción no tiene tope o no hay reglas para el año: no se puede comprobar
+  private getDeductionLimit(type: string, year: string, yearData: TaxHistory['years'][string]): number | null {
+    const taxYear = parseInt(year);
+    if (!taxRules.hasRules(taxYear)) {
+      return null;
+    }
+    return taxRules.getDeductionLimit(type, taxYear, {
+      filingStatus: toFilingStatus(yearData.filingStatus),
+      agi: this.calculateTotalIncome(yearData.income),
     });
+  }
 
-    return JSON.parse(response.content[0].text);
+  private async analyzeEligibleCredits(
+    yearData: TaxHistory['years'][string],
+    locale: Locale
+  ): Promise<EligibleCredit[]> {
+    return completeStructured(
+      this.llm,
+      {
+        messages: [{
+          role: 'user',
+          content: t(locale, 'prompts.tax.eligibleCredits', {
+            income: JSON.stringify(yearData.income),
+            filingStatus: yearData.filingStatus,
+            documents: JSON.stringify(yearData.documents),
+          })
+        }]
+      },
+      z.array(eligibleCreditSchema),
+      { name: 'eligible credits' }
+    );
   }
 
   private async getRequiredDocuments(yearData: any): Promise<any[]> {
@@ -293,17 +404,18 @@ export class TaxHistoryService {
     return [];
   }
 
-  private async analyzeHistoricalPatterns(history: TaxHistory): Promise<any[]> {
-    const response = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
-      messages: [{
-        role: 'user',
-        content: `Analyze historical tax patterns and identify opportunities:
-          ${JSON.stringify(history)}`
-      }]
-    });
-
-    return JSON.parse(response.content[0].text);
+  private async analyzeHistoricalPatterns(history: TaxHistory, locale: Locale): Promise<HistoricalPattern[]> {
+    return completeStructured(
+      this.llm,
+      {
+        messages: [{
+          role: 'user',
+          content: t(locale, 'prompts.tax.historicalPatterns', { history: JSON.stringify(history) })
+        }]
+      },
+      z.array(historicalPatternSchema),
+      { name: 'historical tax patterns' }
+    );
   }
 
   private async updateHistoryAnalysis(
@@ -1,49 +1,103 @@
 
-import { Anthropic } from '@anthropic-ai/sdk';
+import { z } from 'zod';
+import { LLMProvider } from '@/core-hub/ai/interfaces/llm-provider.types';
+import { providerRegistry } from '@/core-hub/ai/services/provider-registry.service';
+import { completeStructured } from '@/core-hub/ai/utils/structured-output';
 import { logger } from '@/shared/utils/logger';
 import { AppError } from '@/shared/utils/error-handler';
-import { retry } from '@/shared/utils/retry';
-
-interface DeductionSuggestion {
-  category: string;
-  description: string;
-  estimatedSaving: number;
-  requirements: string[];
-  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
+import { DEFAULT_LOCALE, formatMoney, formatPercent, Locale, t } from '@/shared/i18n/i18n';
+import {
+  SimulationNote,
+  TaxComputation,
+  TaxDelta,
+  TaxReturnInput,
+  TaxYearTable,
+} from '../interfaces/tax-engine.types';
+import { ScheduleC, ScheduleCInput } from '../interfaces/schedule-c.types';
+import { computeForm1040 } from '../engine/form-1040';
+import { buildScheduleC, returnInputWithScheduleC } from '../engine/schedule-c';
+import { getTaxYearTable } from '../engine/tables';
+import { roundCents } from '../engine/tax-computation';
+import { applyTaxDelta, applyTaxDeltas, describeTaxDelta } from '../engine/what-if';
+import { taxRules } from '../rules/tax-rules.service';
+
+const riskLevelSchema = z.enum(['LOW', 'MEDIUM', 'HIGH']);
+
+const eligibleDeductionSchema = z.object({
+  category: z.string(),
+  description: z.string(),
+  estimatedSaving: z.number(),
+  requirements: z.array(z.string()),
+});
+
+const scenarioExplanationSchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  risks: z.array(
+    z.object({
+      description: z.string(),
+      severity: riskLevelSchema,
+      mitigation: z.string(),
+    })
+  ),
+});
+
+type EligibleDeduction = z.infer<typeof eligibleDeductionSchema>;
+
+interface DeductionSuggestion extends EligibleDeduction {
+  riskLevel: z.infer<typeof riskLevelSchema>;
 }
 
-interface TaxScenario {
-  name: string;
-  description: string;
+type ScenarioExplanation = z.infer<typeof scenarioExplanationSchema>;
+
+// Datos del usuario que el modelo analiza tal cual
+interface DeductionProfile {
+  income?: unknown;
+  expenses?: unknown;
+  currentDeductions?: unknown;
+}
+
+// Las cifras salen de computeForm1040; el modelo solo redacta description y risks
+export interface TaxScenario extends ScenarioExplanation {
   projectedTax: number;
+  // Negativo si el cambio aumenta el impuesto
   potentialSavings: number;
-  strategies: Array<{
-    action: string;
-    impact: number;
-    timeline: string;
-  }>;
-  risks: Array<{
-    description: string;
-    severity: 'LOW' | 'MEDIUM' | 'HIGH';
-    mitigation: string;
-  }>;
+  strategies: Array<{ action: string; impact: number; timeline: string }>;
+  deltas: TaxDelta[];
+  notes: SimulationNote[];
+  computation: TaxComputation;
+  // Escenarios del Schedule C: la actividad con el método de cada variante
+  scheduleC?: ScheduleC;
 }
 
-export class TaxOptimizationService {
-  private anthropic: Anthropic;
-  private readonly MAX_RETRIES = 3;
+interface ScenarioVariant {
+  name: string;
+  deltas: TaxDelta[];
+}
 
-  constructor() {
-    this.anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
-  }
+interface ScheduleCVariant {
+  name: string;
+  business: ScheduleCInput;
+}
+
+export interface SimulationOptions {
+  // false: sin llamada al modelo, con las descripciones deterministas
+  explain?: boolean;
+  // Idioma de los nombres, descripciones y estrategias de los escenarios
+  locale?: Locale;
+}
+
+export class TaxOptimizationService {
+  constructor(private llm: LLMProvider = providerRegistry.resolve()) {}
 
-  async findDeductionOpportunities(userData: any): Promise<DeductionSuggestion[]> {
+  async findDeductionOpportunities(
+    userData: DeductionProfile,
+    locale: Locale = DEFAULT_LOCALE
+  ): Promise<DeductionSuggestion[]> {
     try {
-      const analysis = await this.analyzeUserProfile(userData);
-      const eligibleDeductions = await this.identifyEligibleDeductions(analysis);
-      const riskAssessment = await this.assessDeductionRisks(eligibleDeductions);
+      const analysis = await this.analyzeUserProfile(userData, locale);
+      const eligibleDeductions = await this.identifyEligibleDeductions(analysis, locale);
+      const riskAssessment = await this.assessDeductionRisks(eligibleDeductions, locale);
 
       return eligibleDeductions.map((deduction, index) => ({
         ...deduction,
@@ -55,111 +109,345 @@ export class TaxOptimizationService {
     }
   }
 
-  async calculateTaxScenarios(userData: any): Promise<TaxScenario[]> {
+  async calculateTaxScenarios(input: TaxReturnInput, locale: Locale = DEFAULT_LOCALE): Promise<TaxScenario[]> {
+    const scenarios = this.computeScenarios(input, (table) => this.buildVariants(input, table, locale), locale).filter(
+      (scenario, index) => index === 0 || scenario.potentialSavings > 0
+    );
+    const explained = await this.explainScenarios(scenarios, locale);
+    return explained.map(scenario => this.enrichScenarioWithStrategies(scenario, locale));
+  }
+
+  // Escenario base y, al lado, cada cambio por separado y (si hay varios) todos juntos
+  async simulateScenarios(
+    input: TaxReturnInput,
+    deltas: TaxDelta[],
+    options: SimulationOptions = {}
+  ): Promise<TaxScenario[]> {
+    if (deltas.length === 0) {
+      throw new AppError('INVALID_SIMULATION', 'At least one change is required to simulate', 400);
+    }
+
+    const { locale = DEFAULT_LOCALE } = options;
+    const variants: ScenarioVariant[] = deltas.map(delta => ({
+      name: describeTaxDelta(delta, locale),
+      deltas: [delta],
+    }));
+    if (deltas.length > 1) {
+      variants.push({ name: t(locale, 'tax.scenario.combined'), deltas });
+    }
+    const scenarios = this.computeScenarios(input, () => variants, locale);
+    const explained = options.explain === false ? scenarios : await this.explainScenarios(scenarios, locale);
+    return explained.map(scenario => this.enrichScenarioWithStrategies(scenario, locale));
+  }
+
+  /**
+   * Compara los métodos de la oficina en casa (simplificado o Form 8829) y del
+   * vehículo (tarifa por milla o gastos reales) con la declaración completa:
+   * el Schedule C cambia el SE tax, la AGI y la deducción QBI. Solo se
+   * devuelven las variantes que ahorran respecto a los métodos indicados.
+   */
+  async compareScheduleCMethods(
+    input: TaxReturnInput,
+    business: ScheduleCInput,
+    options: SimulationOptions = {}
+  ): Promise<TaxScenario[]> {
+    const { locale = DEFAULT_LOCALE } = options;
+    let scenarios: TaxScenario[];
     try {
-      const baseScenario = await this.calculateBaseScenario(userData);
-      const alternativeScenarios = await this.generateAlternativeScenarios(userData, baseScenario);
-      
-      return [baseScenario, ...alternativeScenarios].map(scenario => 
-        this.enrichScenarioWithStrategies(scenario)
-      );
+      const table = getTaxYearTable(input.taxYear);
+      const current = t(locale, 'tax.scenario.current');
+      const baseScenario = this.buildScheduleCScenario(current, input, business, table, undefined, locale);
+      const baseTax = this.netTax(baseScenario.computation);
+      scenarios = [
+        baseScenario,
+        ...this.buildScheduleCVariants(business, locale).map(({ name, business: variant }) =>
+          this.buildScheduleCScenario(name, input, variant, table, baseTax, locale)
+        ),
+      ].filter((scenario, index) => index === 0 || scenario.potentialSavings > 0);
     } catch (error) {
-      logger.error('Error calculating tax scenarios:', error);
+      logger.error('Error comparing Schedule C methods:', error);
+      if (error instanceof AppError) {
+        throw error;
+      }
       throw new AppError('SCENARIO_ERROR', 'Failed to calculate tax scenarios');
     }
+    const explained = options.explain === false ? scenarios : await this.explainScenarios(scenarios, locale);
+    return explained.map(scenario => this.enrichScenarioWithStrategies(scenario, locale));
   }
 
-  private async analyzeUserProfile(userData: any): Promise<any> {
-    const response = await retry(
-      async () => {
-        return await this.anthropic.messages.create({
-          model: 'claude-3-opus-20240229',
-          messages: [{
-            role: 'user',
-            content: `Analyze this tax profile for optimization opportunities:
-              Income: ${JSON.stringify(userData.income)}
-              Expenses: ${JSON.stringify(userData.expenses)}
-              Current Deductions: ${JSON.stringify(userData.currentDeductions)}`
-          }]
-        });
+  private async analyzeUserProfile(userData: DeductionProfile, locale: Locale): Promise<Record<string, unknown>> {
+    return completeStructured(
+      this.llm,
+      {
+        messages: [{
+          role: 'user',
+          content: t(locale, 'prompts.tax.profileAnalysis', {
+            income: JSON.stringify(userData.income),
+            expenses: JSON.stringify(userData.expenses),
+            deductions: JSON.stringify(userData.currentDeductions),
+          })
+        }]
       },
-      this.MAX_RETRIES
+      z.record(z.unknown()),
+      { name: 'tax profile analysis' }
     );
+  }
 
-    return JSON.parse(response.content[0].text);
+  private async identifyEligibleDeductions(
+    analysis: Record<string, unknown>,
+    locale: Locale
+  ): Promise<EligibleDeduction[]> {
+    return completeStructured(
+      this.llm,
+      {
+        messages: [{
+          role: 'user',
+          content: t(locale, 'prompts.tax.eligibleDeductions', { analysis: JSON.stringify(analysis) })
+        }]
+      },
+      z.array(eligibleDeductionSchema),
+      { name: 'eligible deductions' }
+    );
   }
 
-  private async identifyEligibleDeductions(analysis: any): Promise<DeductionSuggestion[]> {
-    const response = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
-      messages: [{
-        role: 'user',
-        content: `Based on this analysis, identify eligible tax deductions:
-          ${JSON.stringify(analysis)}`
-      }]
-    });
+  private async assessDeductionRisks(
+    deductions: EligibleDeduction[],
+    locale: Locale
+  ): Promise<Array<{ level: DeductionSuggestion['riskLevel'] }>> {
+    const risks = await completeStructured(
+      this.llm,
+      {
+        messages: [{
+          role: 'user',
+          content: t(locale, 'prompts.tax.deductionRisks', { deductions: JSON.stringify(deductions) })
+        }]
+      },
+      z.array(z.object({ level: riskLevelSchema })),
+      { name: 'deduction risks' }
+    );
+    // Sin evaluación para una deducción, se trata como de riesgo medio
+    return deductions.map((_, index) => risks[index] ?? { level: 'MEDIUM' });
+  }
 
-    return JSON.parse(response.content[0].text);
+  private computeScenarios(
+    input: TaxReturnInput,
+    variantsFor: (table: TaxYearTable) => ScenarioVariant[],
+    locale: Locale = DEFAULT_LOCALE
+  ): TaxScenario[] {
+    try {
+      const table = getTaxYearTable(input.taxYear);
+      const baseScenario = this.buildScenario(t(locale, 'tax.scenario.current'), input, [], table, undefined, locale);
+      const baseTax = this.netTax(baseScenario.computation);
+      return [
+        baseScenario,
+        ...variantsFor(table).map(({ name, deltas }) =>
+          this.buildScenario(name, input, deltas, table, baseTax, locale)
+        ),
+      ];
+    } catch (error) {
+      logger.error('Error calculating tax scenarios:', error);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new AppError('SCENARIO_ERROR', 'Failed to calculate tax scenarios');
+    }
   }
 
-  private async assessDeductionRisks(deductions: DeductionSuggestion[]): Promise<Array<{ level: 'LOW' | 'MEDIUM' | 'HIGH' }>> {
-    const response = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
-      messages: [{
-        role: 'user',
-        content: `Assess the audit risk for these deductions:
-          ${JSON.stringify(deductions)}`
-      }]
-    });
+  private buildScenario(
+    name: string,
+    input: TaxReturnInput,
+    deltas: TaxDelta[],
+    table: TaxYearTable,
+    baseTax?: number,
+    locale: Locale = DEFAULT_LOCALE
+  ): TaxScenario {
+    const simulated = applyTaxDeltas(input, deltas, table);
+    const computation = computeForm1040(simulated.input, table);
+    const savings = baseTax === undefined ? 0 : roundCents(baseTax - this.netTax(computation));
+    // Con varios cambios, el impacto de cada estrategia es el que tendría por sí sola
+    const impactOf = (delta: TaxDelta) =>
+      deltas.length === 1 || baseTax === undefined
+        ? savings
+        : roundCents(baseTax - this.netTax(computeForm1040(applyTaxDelta(input, delta, table).input, table)));
 
-    return JSON.parse(response.content[0].text);
+    return {
+      name,
+      description: this.describeScenario(computation, locale),
+      projectedTax: computation.lines.totalTax,
+      potentialSavings: savings,
+      strategies: deltas.map(delta => ({
+        action: describeTaxDelta(delta, locale),
+        impact: impactOf(delta),
+        timeline: '',
+      })),
+      risks: [],
+      deltas,
+      notes: simulated.notes,
+      computation,
+    };
   }
 
-  private async calculateBaseScenario(userData: any): Promise<TaxScenario> {
-    const response = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
-      messages: [{
-        role: 'user',
-        content: `Calculate base tax scenario for:
-          ${JSON.stringify(userData)}`
-      }]
-    });
+  private buildScheduleCScenario(
+    name: string,
+    input: TaxReturnInput,
+    business: ScheduleCInput,
+    table: TaxYearTable,
+    baseTax?: number,
+    locale: Locale = DEFAULT_LOCALE
+  ): TaxScenario {
+    const scheduleC = buildScheduleC(business, table);
+    const scenario = this.buildScenario(
+      name,
+      returnInputWithScheduleC(input, scheduleC, table),
+      [],
+      table,
+      baseTax,
+      locale
+    );
+    const strategies =
+      baseTax === undefined ? [] : [{ action: name, impact: scenario.potentialSavings, timeline: '' }];
+    return { ...scenario, strategies, scheduleC };
+  }
+
+  // El otro método de la oficina en casa y del vehículo, cuando hay datos para calcularlo
+  private buildScheduleCVariants(business: ScheduleCInput, locale: Locale): ScheduleCVariant[] {
+    const variants: ScheduleCVariant[] = [];
+    const { homeOffice, vehicle } = business;
+
+    if (homeOffice?.method === 'REGULAR') {
+      variants.push({
+        name: t(locale, 'tax.scenario.simplifiedHomeOffice'),
+        business: { ...business, homeOffice: { ...homeOffice, method: 'SIMPLIFIED' } },
+      });
+    } else if (homeOffice?.homeSquareFeet && homeOffice.homeExpenses) {
+      variants.push({
+        name: t(locale, 'tax.scenario.regularHomeOffice'),
+        business: { ...business, homeOffice: { ...homeOffice, method: 'REGULAR' } },
+      });
+    }
+
+    if (vehicle && vehicle.method !== 'STANDARD_MILEAGE') {
+      variants.push({
+        name: t(locale, 'tax.scenario.standardMileage'),
+        business: { ...business, vehicle: { ...vehicle, method: 'STANDARD_MILEAGE' } },
+      });
+    }
+    if (vehicle && vehicle.method !== 'ACTUAL' && vehicle.actualExpenses !== undefined && vehicle.totalMiles) {
+      variants.push({
+        name: t(locale, 'tax.scenario.actualVehicle'),
+        business: { ...business, vehicle: { ...vehicle, method: 'ACTUAL' } },
+      });
+    }
 
-    return JSON.parse(response.content[0].text);
+    return variants;
   }
 
-  private async generateAlternativeScenarios(userData: any, baseScenario: TaxScenario): Promise<TaxScenario[]> {
-    const response = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
-      messages: [{
-        role: 'user',
-        content: `Generate alternative tax scenarios considering:
-          User Data: ${JSON.stringify(userData)}
-          Base Scenario: ${JSON.stringify(baseScenario)}`
-      }]
+  // Estrategias que el motor puede calcular con los datos de la declaración
+  private buildVariants(input: TaxReturnInput, table: TaxYearTable, locale: Locale): ScenarioVariant[] {
+    const variants: ScenarioVariant[] = [];
+    const wages = input.wages ?? 0;
+
+    const extraDeferral = Math.min(table.contributionLimits.electiveDeferral - (input.electiveDeferrals ?? 0), wages);
+    if (extraDeferral > 0) {
+      variants.push({
+        name: t(locale, 'tax.scenario.maximize401k'),
+        deltas: [{ type: 'RETIREMENT_CONTRIBUTION', account: '401K', amount: extraDeferral }],
+      });
+    }
+
+    const compensation = wages + Math.max(0, input.selfEmploymentIncome ?? 0);
+    const extraIra = Math.min(table.contributionLimits.ira - (input.adjustments?.iraDeduction ?? 0), compensation);
+    // Con plan de empresa la deducción depende de la MAGI; no se propone
+    if (!input.coveredByWorkplacePlan && extraIra > 0) {
+      variants.push({
+        name: t(locale, 'tax.scenario.traditionalIra'),
+        deltas: [{ type: 'RETIREMENT_CONTRIBUTION', account: 'IRA', amount: extraIra }],
+      });
+    }
+
+    return variants;
+  }
+
+  // Impuesto neto de los créditos reembolsables, que el 1040 cuenta como pagos
+  private netTax(computation: TaxComputation): number {
+    const { totalTax, earnedIncomeCredit, additionalChildTaxCredit } = computation.lines;
+    return totalTax - earnedIncomeCredit - additionalChildTaxCredit;
+  }
+
+  private describeScenario(computation: TaxComputation, locale: Locale): string {
+    const { lines, marginalRate, effectiveRate } = computation;
+    return t(locale, 'tax.scenario.description', {
+      taxableIncome: formatMoney(lines.taxableIncome, locale),
+      totalTax: formatMoney(lines.totalTax, locale),
+      marginalRate: formatPercent(marginalRate, locale),
+      effectiveRate: formatPercent(effectiveRate, locale),
     });
+  }
 
-    return JSON.parse(response.content[0].text);
+  // Si el modelo falla, se mantienen las descripciones deterministas
+  private async explainScenarios(scenarios: TaxScenario[], locale: Locale): Promise<TaxScenario[]> {
+    try {
+      const explanations = await completeStructured(
+        this.llm,
+        {
+          messages: [{
+            role: 'user',
+            content: t(locale, 'prompts.tax.explainScenarios', {
+              scenarios: JSON.stringify(
+                scenarios.map(({ name, projectedTax, potentialSavings, strategies, computation }) => ({
+                  name,
+                  projectedTax,
+                  potentialSavings,
+                  strategies: strategies.map(({ action, impact }) => ({ action, impact })),
+                  lines: computation.lines,
+                  marginalRate: computation.marginalRate,
+                  effectiveRate: computation.effectiveRate,
+                }))
+              ),
+            })
+          }]
+        },
+        z.array(scenarioExplanationSchema),
+        { name: 'tax scenario explanations' }
+      );
+
+      return scenarios.map(scenario => {
+        const explanation = explanations.find(({ name }) => name === scenario.name);
+        return explanation
+          ? { ...scenario, description: explanation.description, risks: explanation.risks }
+          : scenario;
+      });
+    } catch (error) {
+      logger.warn('Could not explain tax scenarios:', error);
+      return scenarios;
+    }
   }
 
-  private enrichScenarioWithStrategies(scenario: TaxScenario): TaxScenario {
+  private enrichScenarioWithStrategies(scenario: TaxScenario, locale: Locale): TaxScenario {
     return {
       ...scenario,
-      strategies: scenario.strategies.map(strategy => ({
+      strategies: scenario.strategies.map((strategy, index) => ({
         ...strategy,
-        timeline: this.generateImplementationTimeline(strategy)
+        timeline: this.generateImplementationTimeline(scenario.computation.taxYear, locale, scenario.deltas[index])
       }))
     };
   }
 
-  private generateImplementationTimeline(strategy: any): string {
-    const currentDate = new Date();
-    const taxYear = currentDate.getFullYear();
-    const deadlines = {
-      planning: `${taxYear}-12-31`,
-      implementation: `${taxYear + 1}-04-15`
-    };
-    
-    return `Plan by ${deadlines.planning}, implement by ${deadlines.implementation}`;
+  // Casi todo tiene que hacerse dentro del año fiscal (las aportaciones al 401(k) van por nómina);
+  // la IRA y lo que se elige en la propia declaración pueden esperar a la fecha límite del Form 1040
+  private generateImplementationTimeline(taxYear: number, locale: Locale, delta?: TaxDelta): string {
+    const yearEnd = `${taxYear}-12-31`;
+    const byFilingDeadline =
+      !delta ||
+      delta.type === 'FILING_STATUS' ||
+      (delta.type === 'RETIREMENT_CONTRIBUTION' && delta.account === 'IRA');
+    if (!byFilingDeadline) {
+      return t(locale, 'tax.timeline.yearEnd', { yearEnd });
+    }
+
+    return t(locale, 'tax.timeline.filingDeadline', {
+      yearEnd,
+      deadline: taxRules.getDeadline('FORM_1040', taxYear).date,
+    });
   }
 }
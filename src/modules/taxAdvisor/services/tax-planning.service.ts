@@ -1,5 +1,6 @@
 
-import { Anthropic } from '@anthropic-ai/sdk';
+import { LLMProvider } from '@/core-hub/ai/interfaces/llm-provider.types';
+import { providerRegistry } from '@/core-hub/ai/services/provider-registry.service';
 import { logger } from '@/shared/utils/logger';
 import { AppError } from '@/shared/utils/error-handler';
 
@@ -20,13 +21,8 @@ interface TaxPlan {
 }
 
 export class TaxPlanningService {
-  private anthropic: Anthropic;
 
-  constructor() {
-    this.anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
-  }
+  constructor(private llm: LLMProvider = providerRegistry.resolve()) {}
 
   async createAnnualPlan(userId: string, year: number): Promise<TaxPlan> {
     try {
@@ -1,10 +1,16 @@
 
-import { Anthropic } from '@anthropic-ai/sdk';
+import { z } from 'zod';
+import { LLMProvider } from '@/core-hub/ai/interfaces/llm-provider.types';
+import { providerRegistry } from '@/core-hub/ai/services/provider-registry.service';
+import { completeStructured } from '@/core-hub/ai/utils/structured-output';
 import { logger } from '@/shared/utils/logger';
 import { AppError } from '@/shared/utils/error-handler';
-import { retry } from '@/shared/utils/retry';
+import { DEFAULT_LOCALE, hasMessage, Locale, t } from '@/shared/i18n/i18n';
 import { firebaseApp } from '@/shared/config/firebase.config';
-import { getFirestore, doc, getDoc, updateDoc, Timestamp } from 'firebase/firestore';
+import { getFirestore, doc, getDoc, setDoc, updateDoc, Timestamp } from 'firebase/firestore';
+import { taxRules } from '../rules/tax-rules.service';
+import { TaxDeadline } from '../rules/tax-rules.schema';
+import { EstimatedTaxPlan } from '../interfaces/tax-engine.types';
 
 interface SubmissionStatus {
   id: string;
@@ -20,27 +26,48 @@ interface SubmissionStatus {
   }>;
 }
 
-interface DeadlineInfo {
-  type: 'FILING' | 'PAYMENT' | 'EXTENSION' | 'AMENDMENT';
+const statusUpdateSchema = z.object({
+  status: z.enum(['PENDING', 'PROCESSING', 'ACCEPTED', 'REJECTED', 'REFUND_ISSUED']).optional(),
+  estimatedCompletionDate: z.coerce.date().optional(),
+  refundAmount: z.number().optional(),
+  messages: z
+    .array(
+      z.object({
+        date: z.coerce.date(),
+        content: z.string(),
+        type: z.enum(['INFO', 'WARNING', 'ERROR']),
+      })
+    )
+    .optional(),
+});
+
+export interface DeadlineInfo {
+  type: TaxDeadline['type'] | 'AMENDMENT';
   dueDate: Date;
   description: string;
   status: 'UPCOMING' | 'DUE_SOON' | 'OVERDUE' | 'COMPLETED';
   importance: 'HIGH' | 'MEDIUM' | 'LOW';
   reminderDates: Date[];
+  // Importe a ingresar (pagos estimados calculados para el usuario)
+  amount?: number;
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DUE_SOON_DAYS = 30;
+
+const DEADLINE_IMPORTANCE: Record<TaxDeadline['type'], DeadlineInfo['importance']> = {
+  FILING: 'HIGH',
+  PAYMENT: 'HIGH',
+  EXTENSION: 'MEDIUM',
+  INFORMATION_RETURN: 'LOW',
+};
+
 export class TaxTrackingService {
-  private anthropic: Anthropic;
   private db = getFirestore(firebaseApp);
-  private readonly MAX_RETRIES = 3;
 
-  constructor() {
-    this.anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
-  }
+  constructor(private llm: LLMProvider = providerRegistry.resolve()) {}
 
-  async trackSubmissionStatus(submissionId: string): Promise<SubmissionStatus> {
+  async trackSubmissionStatus(submissionId: string, locale: Locale = DEFAULT_LOCALE): Promise<SubmissionStatus> {
     try {
       const submissionRef = doc(this.db, 'submissions', submissionId);
       const submission = await getDoc(submissionRef);
@@ -50,7 +77,7 @@ export class TaxTrackingService {
       }
 
       const status = submission.data() as SubmissionStatus;
-      const updatedStatus = await this.analyzeSubmissionStatus(status);
+      const updatedStatus = await this.analyzeSubmissionStatus(status, locale);
       
       await updateDoc(submissionRef, {
         ...updatedStatus,
@@ -64,7 +91,18 @@ export class TaxTrackingService {
     }
   }
 
-  async monitorDeadlines(userId: string): Promise<DeadlineInfo[]> {
+  /**
+   * Calcula y guarda con sus recordatorios los plazos del usuario. Con un plan
+   * de pagos estimados (o, sin él, el último que se guardó) los plazos de pago
+   * de su año llevan el importe de cada trimestre, también los que quedan a 0.
+   * Las descripciones se guardan en el idioma del usuario.
+   */
+  async monitorDeadlines(
+    userId: string,
+    estimatedTaxPlan?: EstimatedTaxPlan,
+    now: Date = new Date(),
+    locale: Locale = DEFAULT_LOCALE
+  ): Promise<DeadlineInfo[]> {
     try {
       const userRef = doc(this.db, 'users', userId);
       const user = await getDoc(userRef);
@@ -73,10 +111,11 @@ export class TaxTrackingService {
         throw new AppError('USER_NOT_FOUND', 'User not found');
       }
 
-      const deadlines = await this.calculateDeadlines(user.data());
+      const plan = estimatedTaxPlan ?? (await this.getEstimatedTaxPlan(userId));
+      const deadlines = this.calculateDeadlines(now, locale, plan);
       const prioritizedDeadlines = this.prioritizeDeadlines(deadlines);
       
-      await this.scheduleReminders(userId, prioritizedDeadlines);
+      await this.scheduleReminders(userId, prioritizedDeadlines, estimatedTaxPlan);
       
       return prioritizedDeadlines;
     } catch (error) {
@@ -85,38 +124,74 @@ export class TaxTrackingService {
     }
   }
 
-  private async analyzeSubmissionStatus(status: SubmissionStatus): Promise<SubmissionStatus> {
-    const response = await retry(
-      async () => {
-        return await this.anthropic.messages.create({
-          model: 'claude-3-opus-20240229',
-          messages: [{
-            role: 'user',
-            content: `Analyze tax submission status and provide recommendations:
-              ${JSON.stringify(status)}`
-          }]
-        });
+  private async analyzeSubmissionStatus(status: SubmissionStatus, locale: Locale): Promise<SubmissionStatus> {
+    const update = await completeStructured(
+      this.llm,
+      {
+        messages: [{
+          role: 'user',
+          content: t(locale, 'prompts.tax.submissionStatus', { status: JSON.stringify(status) })
+        }]
       },
-      this.MAX_RETRIES
+      statusUpdateSchema,
+      { name: 'submission status analysis' }
     );
 
     return {
       ...status,
-      ...JSON.parse(response.content[0].text)
+      ...update
     };
   }
 
-  private async calculateDeadlines(userData: any): Promise<DeadlineInfo[]> {
-    const response = await this.anthropic.messages.create({
-      model: 'claude-3-opus-20240229',
-      messages: [{
-        role: 'user',
-        content: `Calculate tax deadlines based on user profile:
-          ${JSON.stringify(userData)}`
-      }]
-    });
+  // Plazos de la declaración del año anterior y pagos estimados del año en
+  // curso; los pagos del año del plan salen del plan, con su importe
+  private calculateDeadlines(now: Date, locale: Locale, plan?: EstimatedTaxPlan): DeadlineInfo[] {
+    const filingYear = now.getFullYear() - 1;
+    const ruleDeadlines = (year: number, type?: TaxDeadline['type']) =>
+      taxRules.hasRules(year)
+        ? taxRules
+            .getDeadlines(year, type)
+            .filter((deadline) => deadline.type !== 'PAYMENT' || year !== plan?.taxYear)
+        : [];
+    const deadlines = [...ruleDeadlines(filingYear), ...ruleDeadlines(filingYear + 1, 'PAYMENT')];
+    const installments = plan
+      ? plan.installments.map((installment) => ({
+          ...this.deadlineInfo(
+            'PAYMENT',
+            installment.dueDate,
+            t(locale, 'tax.deadline.installment', { quarter: installment.quarter, year: plan.taxYear }),
+            now
+          ),
+          amount: installment.amount,
+        }))
+      : [];
+
+    return [
+      ...deadlines.map((deadline) =>
+        this.deadlineInfo(deadline.type, deadline.date, this.describeDeadline(deadline, locale), now)
+      ),
+      ...installments,
+    ];
+  }
+
+  // Las reglas solo traen la descripción en inglés; la traducción va por id
+  private describeDeadline(deadline: TaxDeadline, locale: Locale): string {
+    const key = `tax.deadline.${deadline.id}`;
+    return hasMessage(key) ? t(locale, key) : deadline.description;
+  }
 
-    return JSON.parse(response.content[0].text);
+  private deadlineInfo(type: TaxDeadline['type'], date: string, description: string, now: Date): DeadlineInfo {
+    // Se puede cumplir hasta el final del día
+    const dueDate = new Date(`${date}T23:59:59`);
+    const daysLeft = (dueDate.getTime() - now.getTime()) / DAY_MS;
+    return {
+      type,
+      dueDate,
+      description,
+      status: daysLeft < 0 ? 'OVERDUE' : daysLeft <= DUE_SOON_DAYS ? 'DUE_SOON' : 'UPCOMING',
+      importance: DEADLINE_IMPORTANCE[type],
+      reminderDates: this.calculateReminderDates(dueDate),
+    };
   }
 
   private prioritizeDeadlines(deadlines: DeadlineInfo[]): DeadlineInfo[] {
@@ -131,15 +206,30 @@ export class TaxTrackingService {
     });
   }
 
-  private async scheduleReminders(userId: string, deadlines: DeadlineInfo[]): Promise<void> {
+  private async getEstimatedTaxPlan(userId: string): Promise<EstimatedTaxPlan | undefined> {
+    const reminders = await getDoc(doc(this.db, 'reminders', userId));
+    return reminders.exists() ? reminders.data().estimatedTaxPlan : undefined;
+  }
+
+  // El plan se guarda para que las siguientes revisiones conserven los importes
+  private async scheduleReminders(
+    userId: string,
+    deadlines: DeadlineInfo[],
+    estimatedTaxPlan?: EstimatedTaxPlan
+  ): Promise<void> {
     const reminderRef = doc(this.db, 'reminders', userId);
-    await updateDoc(reminderRef, {
-      deadlines: deadlines.map(deadline => ({
-        ...deadline,
-        reminderDates: this.calculateReminderDates(deadline.dueDate)
-      })),
-      lastUpdated: Timestamp.now()
-    });
+    await setDoc(
+      reminderRef,
+      {
+        deadlines: deadlines.map(deadline => ({
+          ...deadline,
+          reminderDates: this.calculateReminderDates(deadline.dueDate)
+        })),
+        ...(estimatedTaxPlan && { estimatedTaxPlan }),
+        lastUpdated: Timestamp.now()
+      },
+      { merge: true }
+    );
   }
 
   private calculateReminderDates(dueDate: Date): Date[] {
@@ -1,63 +1,72 @@
 
-import { Anthropic } from '@anthropic-ai/sdk';
+import { z } from 'zod';
+import { LLMProvider } from '@/core-hub/ai/interfaces/llm-provider.types';
+import { providerRegistry } from '@/core-hub/ai/services/provider-registry.service';
+import { completeStructured } from '@/core-hub/ai/utils/structured-output';
 import { logger } from '@/shared/utils/logger';
 import { AppError } from '@/shared/utils/error-handler';
+import { DEFAULT_LOCALE, Locale, t } from '@/shared/i18n/i18n';
 
-interface ValidationResult {
-  isValid: boolean;
-  errors: Array<{
-    field: string;
-    message: string;
-    severity: 'HIGH' | 'MEDIUM' | 'LOW'
-  }>;
-  recommendations: string[];
-}
+const severitySchema = z.enum(['HIGH', 'MEDIUM', 'LOW']);
 
-interface AuditRiskResult {
-  riskLevel: 'HIGH' | 'MEDIUM' | 'LOW';
-  flags: string[];
-  recommendations: string[];
-}
+const validationResultSchema = z.object({
+  isValid: z.boolean(),
+  errors: z.array(
+    z.object({
+      field: z.string(),
+      message: z.string(),
+      severity: severitySchema,
+    })
+  ),
+  recommendations: z.array(z.string()),
+});
+
+const auditRiskResultSchema = z.object({
+  riskLevel: severitySchema,
+  flags: z.array(z.string()),
+  recommendations: z.array(z.string()),
+});
+
+type ValidationResult = z.infer<typeof validationResultSchema>;
+
+type AuditRiskResult = z.infer<typeof auditRiskResultSchema>;
 
 export class TaxVerificationService {
-  private anthropic: Anthropic;
 
-  constructor() {
-    this.anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
-  }
+  constructor(private llm: LLMProvider = providerRegistry.resolve()) {}
 
-  async validateCalculations(formData: any): Promise<ValidationResult> {
+  async validateCalculations(formData: any, locale: Locale = DEFAULT_LOCALE): Promise<ValidationResult> {
     try {
-      const response = await this.anthropic.messages.create({
-        model: 'claude-3-opus-20240229',
-        messages: [{
-          role: 'user',
-          content: `Validate these tax calculations and identify any errors:
-            ${JSON.stringify(formData)}`
-        }]
-      });
-
-      return JSON.parse(response.content[0].text);
+      return await completeStructured(
+        this.llm,
+        {
+          messages: [{
+            role: 'user',
+            content: t(locale, 'prompts.tax.validateCalculations', { formData: JSON.stringify(formData) })
+          }]
+        },
+        validationResultSchema,
+        { name: 'calculation validation' }
+      );
     } catch (error) {
       logger.error('Error validating calculations:', error);
       throw new AppError('VALIDATION_ERROR', 'Failed to validate calculations');
     }
   }
 
-  async checkForAuditorTriggers(taxReturn: any): Promise<AuditRiskResult> {
+  async checkForAuditorTriggers(taxReturn: any, locale: Locale = DEFAULT_LOCALE): Promise<AuditRiskResult> {
     try {
-      const response = await this.anthropic.messages.create({
-        model: 'claude-3-opus-20240229',
-        messages: [{
-          role: 'user',
-          content: `Analyze this tax return for potential audit triggers:
-            ${JSON.stringify(taxReturn)}`
-        }]
-      });
-
-      return JSON.parse(response.content[0].text);
+      return await completeStructured(
+        this.llm,
+        {
+          messages: [{
+            role: 'user',
+            content: t(locale, 'prompts.tax.auditTriggers', { taxReturn: JSON.stringify(taxReturn) })
+          }]
+        },
+        auditRiskResultSchema,
+        { name: 'audit trigger check' }
+      );
     } catch (error) {
       logger.error('Error checking audit triggers:', error);
       throw new AppError('AUDIT_CHECK_ERROR', 'Failed to check audit triggers');
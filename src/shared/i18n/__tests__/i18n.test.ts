@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CATALOGUES,
+  DEFAULT_LOCALE,
+  SUPPORTED_LOCALES,
+  localizeError,
+  normalizeLocale,
+  placeholdersOf,
+  t,
+} from '../i18n';
+import { detectLanguage } from '../language-detector';
+import { AppError } from '@/shared/utils/error-handler';
+
+const reference = CATALOGUES[DEFAULT_LOCALE];
+
+describe('message catalogues', () => {
+  it.each(SUPPORTED_LOCALES)('should define the same keys in %s', (locale) => {
+    expect(Object.keys(CATALOGUES[locale]).sort()).toEqual(Object.keys(reference).sort());
+  });
+
+  it.each(SUPPORTED_LOCALES)('should use the same placeholders in %s', (locale) => {
+    for (const [key, template] of Object.entries(reference)) {
+      const translated = CATALOGUES[locale][key as keyof typeof reference];
+      expect({ key, placeholders: placeholdersOf(translated) }).toEqual({
+        key,
+        placeholders: placeholdersOf(template),
+      });
+    }
+  });
+
+  it.each(SUPPORTED_LOCALES)('should not leave messages empty in %s', (locale) => {
+    const empty = Object.entries(CATALOGUES[locale]).filter(([, text]) => !text.trim());
+    expect(empty).toEqual([]);
+  });
+
+  it('should interpolate parameters', () => {
+    expect(t('es', 'chat.command.undone', { action: 'FINANCIAL.UPDATE_BUDGET' })).toBe(
+      'Se deshizo FINANCIAL.UPDATE_BUDGET.'
+    );
+  });
+
+  it('should map browser locales to supported ones', () => {
+    expect(normalizeLocale('es-MX')).toBe('es');
+    expect(normalizeLocale('fr-FR')).toBe(DEFAULT_LOCALE);
+    expect(normalizeLocale(undefined)).toBe(DEFAULT_LOCALE);
+  });
+});
+
+describe('localizeError', () => {
+  it('should translate AppErrors by code', () => {
+    const error = new AppError('NOTHING_TO_UNDO', 'There is no action to undo', 404);
+    expect(localizeError(error, 'es')).toBe('No hay ninguna acción que deshacer.');
+  });
+
+  it('should interpolate error parameters', () => {
+    const error = new AppError('ACTION_NOT_REVERSIBLE', 'TAX.SUBMIT_FORM cannot be undone', 409, {
+      action: 'TAX.SUBMIT_FORM',
+    });
+    expect(localizeError(error, 'es')).toBe('TAX.SUBMIT_FORM no se puede deshacer.');
+  });
+
+  it('should fall back to the original message for untranslated codes', () => {
+    const error = new AppError('SOMETHING_NEW', 'Something new happened');
+    expect(localizeError(error, 'es')).toBe('Something new happened');
+    expect(localizeError(new Error('boom'), 'es')).toBe('Ocurrió un error inesperado');
+  });
+});
+
+describe('detectLanguage', () => {
+  it('should detect Spanish and English messages', () => {
+    expect(detectLanguage('¿Cuánto puedo deducir por mis gastos médicos?')).toBe('es');
+    expect(detectLanguage('quiero presentar mi declración de impuestos')).toBe('es');
+    expect(detectLanguage('How much can I deduct for my home office?')).toBe('en');
+    expect(detectLanguage('set my rent budget to $1500')).toBe('en');
+  });
+
+  it('should return null when there is not enough evidence', () => {
+    expect(detectLanguage('1040')).toBeNull();
+    expect(detectLanguage('OK')).toBeNull();
+  });
+});
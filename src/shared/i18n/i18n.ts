@@ -0,0 +1,78 @@
+// src/shared/i18n/i18n.ts
+
+import { AppError } from '@/shared/utils/error-handler';
+import { en, MessageKey } from './locales/en';
+import { es } from './locales/es';
+
+export type { MessageKey };
+export type Locale = 'en' | 'es';
+export type MessageParams = Record<string, string | number>;
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const CATALOGUES: Record<Locale, Record<MessageKey, string>> = { en, es };
+
+export const SUPPORTED_LOCALES = Object.keys(CATALOGUES) as Locale[];
+
+// Formato de números de cada idioma (importes siempre en dólares)
+export const NUMBER_LOCALES: Record<Locale, string> = { en: 'en-US', es: 'es-US' };
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && SUPPORTED_LOCALES.includes(value as Locale);
+}
+
+// 'es-MX' -> 'es'; cualquier otro idioma cae en el predeterminado
+export function normalizeLocale(value: string | null | undefined): Locale {
+  const language = value?.toLowerCase().split(/[-_]/)[0];
+  return isLocale(language) ? language : DEFAULT_LOCALE;
+}
+
+export function placeholdersOf(template: string): string[] {
+  return Array.from(template.matchAll(/\{(\w+)\}/g), (match) => match[1]).sort();
+}
+
+export function t(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  const template = CATALOGUES[locale][key] ?? CATALOGUES[DEFAULT_LOCALE][key];
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+export function formatMoney(value: number, locale: Locale): string {
+  return new Intl.NumberFormat(NUMBER_LOCALES[locale], {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0,
+  }).format(value);
+}
+
+export function formatPercent(value: number, locale: Locale): string {
+  return new Intl.NumberFormat(NUMBER_LOCALES[locale], {
+    style: 'percent',
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+export function hasMessage(key: string): key is MessageKey {
+  return key in CATALOGUES[DEFAULT_LOCALE];
+}
+
+/**
+ * Mensaje de error para el usuario. Los AppError se buscan en el catálogo
+ * por código (errors.<CODE>); si el código no está traducido o faltan
+ * parámetros, se usa el mensaje original del error.
+ */
+export function localizeError(error: unknown, locale: Locale): string {
+  if (!(error instanceof AppError)) {
+    return t(locale, 'errors.UNKNOWN_ERROR');
+  }
+
+  const key = `errors.${error.code}`;
+  if (!hasMessage(key)) {
+    return error.message;
+  }
+
+  const params = error.params || {};
+  const missing = placeholdersOf(CATALOGUES[locale][key]).some((name) => !(name in params));
+  return missing ? error.message : t(locale, key, params);
+}
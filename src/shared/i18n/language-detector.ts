@@ -0,0 +1,43 @@
+// src/shared/i18n/language-detector.ts
+
+import { Locale } from './i18n';
+
+// Palabras frecuentes que casi no se comparten entre los dos idiomas
+const MARKERS: Record<Locale, Set<string>> = {
+  es: new Set([
+    'el', 'la', 'los', 'las', 'de', 'del', 'que', 'y', 'en', 'un', 'una', 'por', 'para',
+    'con', 'mi', 'mis', 'es', 'son', 'como', 'cómo', 'qué', 'cuánto', 'cuándo', 'dónde',
+    'quiero', 'tengo', 'puedo', 'necesito', 'hola', 'gracias', 'sí', 'pero', 'este',
+    'esta', 'ahora', 'también', 'muy', 'hacer', 'ayuda', 'impuestos', 'declaración',
+    'presupuesto', 'gastos', 'ahorro', 'deshacer', 'rehacer', 'buenos', 'días', 'año',
+  ]),
+  en: new Set([
+    'the', 'and', 'to', 'of', 'is', 'are', 'it', 'you', 'that', 'for', 'my', 'i', 'what',
+    'how', 'when', 'where', 'can', 'with', 'this', 'do', 'does', 'please', 'hello', 'hi',
+    'thanks', 'want', 'have', 'need', 'help', 'me', 'your', 'should', 'tax', 'taxes',
+    'budget', 'expenses', 'savings', 'undo', 'redo', 'year', 'file', 'return',
+  ]),
+};
+
+const SPANISH_CHARACTERS = /[ñáéíóú¿¡]/g;
+
+/**
+ * Detecta el idioma de un mensaje contando palabras marcadoras y signos
+ * propios del español. Devuelve null si no hay evidencia suficiente (p. ej.
+ * "OK" o "1040"), para que quien llama conserve el idioma de la sesión.
+ */
+export function detectLanguage(text: string): Locale | null {
+  const words = text.toLowerCase().match(/[\p{L}]+/gu) || [];
+  const score: Record<Locale, number> = { en: 0, es: 0 };
+
+  for (const word of words) {
+    if (MARKERS.es.has(word)) score.es += 1;
+    if (MARKERS.en.has(word)) score.en += 1;
+  }
+  score.es += (text.toLowerCase().match(SPANISH_CHARACTERS) || []).length;
+
+  if (Math.abs(score.es - score.en) < 1) {
+    return null;
+  }
+  return score.es > score.en ? 'es' : 'en';
+}
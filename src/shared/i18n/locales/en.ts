@@ -0,0 +1,272 @@
+// src/shared/i18n/locales/en.ts
+
+// Catálogo de referencia: el resto de idiomas debe tener las mismas claves
+export const en = {
+  // Chat
+  'chat.rateLimited': 'Too many requests. Please wait a moment.',
+  'chat.timeout': 'Request timed out. Please try again.',
+  'chat.automation.completed': 'Automated actions completed: {summary}',
+  'chat.automation.incomplete': 'Automated actions did not complete: {summary}',
+  'chat.command.undone': 'Undid {action}.',
+  'chat.command.redone': 'Redid {action}.',
+  'chat.whatIf.title': 'Simulated {year} federal income tax, filing as {status}, from your uploaded documents:',
+  'chat.whatIf.noIncome': 'I need your W-2 or 1099 forms to simulate your taxes. Upload them and ask again.',
+  'chat.whatIf.header': '| Scenario | Total tax | Refund or balance due | Marginal rate | Effective rate | Savings |',
+  'chat.whatIf.current': 'Current situation',
+  'chat.whatIf.combined': 'All changes',
+  'chat.whatIf.refund': 'Refund {amount}',
+  'chat.whatIf.owed': 'Owe {amount}',
+  'chat.whatIf.delta.401K': 'Contribute {amount} more to a 401(k)',
+  'chat.whatIf.delta.IRA': 'Contribute {amount} to a traditional IRA',
+  'chat.whatIf.delta.ROTH_401K': 'Contribute {amount} more to a Roth 401(k)',
+  'chat.whatIf.delta.ROTH_IRA': 'Contribute {amount} to a Roth IRA',
+  'chat.whatIf.delta.FILING_STATUS': 'File as {status}',
+  'chat.whatIf.delta.SELL_STOCK': 'Sell {amount} of stock',
+  'chat.whatIf.delta.INCOME.WAGES': 'Earn {amount} more in wages',
+  'chat.whatIf.delta.INCOME.SELF_EMPLOYMENT': 'Earn {amount} more from self-employment',
+  'chat.whatIf.delta.INCOME.INTEREST': 'Earn {amount} more in interest',
+  'chat.whatIf.delta.INCOME.OTHER': 'Earn {amount} more in other income',
+  'chat.whatIf.delta.DEPENDENTS': '{count} more qualifying child(ren)',
+  'chat.whatIf.delta.DEPENDENTS_REMOVED': '{count} fewer qualifying child(ren)',
+  'chat.whatIf.status.SINGLE': 'single',
+  'chat.whatIf.status.MARRIED_FILING_JOINTLY': 'married filing jointly',
+  'chat.whatIf.status.MARRIED_FILING_SEPARATELY': 'married filing separately',
+  'chat.whatIf.status.HEAD_OF_HOUSEHOLD': 'head of household',
+  'chat.whatIf.status.QUALIFYING_SURVIVING_SPOUSE': 'qualifying surviving spouse',
+  'chat.whatIf.note.CONTRIBUTION_LIMITED': 'The contribution was limited to {amount} by the annual limit and your earned income.',
+  'chat.whatIf.note.NO_COMPENSATION': 'Retirement contributions need earned income, and none was found.',
+  'chat.whatIf.note.ROTH_NOT_DEDUCTIBLE': "Roth contributions are made after tax, so they don't lower this year's tax.",
+  'chat.whatIf.note.IRA_DEDUCTION_MAY_BE_LIMITED': 'If you are covered by a workplace plan, the IRA deduction may be reduced.',
+  'chat.whatIf.note.NO_COST_BASIS': 'Without a cost basis, the whole sale was treated as a gain.',
+  'chat.whatIf.note.SPOUSE_INCOME_MISSING': "Your spouse's income was not included. Tell me how much they earn for a closer estimate.",
+
+  // Prompts
+  'prompts.system.claude': `You are Andy AI, an advanced autonomous financial assistant with deep automation capabilities.
+        Core Capabilities:
+        1. Proactive Decision Making: Analyze user context and autonomously suggest/execute beneficial actions
+        2. Advanced Automation: Execute complex financial workflows without user intervention when appropriate
+        3. Contextual Memory: Build and maintain detailed user financial profiles
+        4. Predictive Analysis: Anticipate user needs and potential financial opportunities
+        5. Multi-step Planning: Break down complex financial tasks into automated sequences
+
+        Authorization Levels:
+        - LOW: Information and suggestions only
+        - MEDIUM: Execute simple, reversible actions
+        - HIGH: Execute complex financial operations with user confirmation
+
+        Use the provided tools to propose TAX, FINANCIAL or CREDIT actions; every tool call is validated and queued for user approval.
+        Always maintain security and seek explicit confirmation for sensitive operations.
+        Always answer in English.`,
+  'prompts.system.gpt4':
+    'You are Andy AI, a sophisticated financial assistant specializing in tax preparation, financial analysis, and document processing. Prioritize accuracy in financial calculations and tax-related advice. Provide step-by-step explanations when analyzing complex financial scenarios. Use the provided tools to propose actions; they are validated and require user approval. Always answer in English.',
+  'prompts.context.previous': 'Previous Context',
+  'prompts.context.documents': 'Document Analysis',
+  'prompts.context.request': 'Current Request',
+  'prompts.context.summary': 'Earlier Conversation (summary)',
+  'prompts.context.memories': 'Relevant Memories',
+  'prompts.context.profile': 'Financial Profile',
+  'prompts.context.summarize': `Update the running summary of a conversation between a user and a financial assistant.
+Keep amounts, dates, decisions, pending questions and user preferences. Drop greetings and repetition. Answer with the summary only, in English, in at most {maxWords} words.
+
+Current summary:
+{summary}
+
+New turns:
+{turns}`,
+  'prompts.context.guidance':
+    'Focus on providing specific, actionable financial guidance based on the complete context. If analyzing documents, highlight key financial implications and tax considerations.',
+  'prompts.memory.consolidate': `These notes were recorded about the same user on different dates and describe the same recurring fact:
+{memories}
+
+Merge them into one long-term memory. Use "HABIT" for a recurring behaviour (spending, income, routines) or "GOAL" for something the user wants to achieve. Keep amounts and dates that still matter, and write the description in the language of the notes.
+Answer only with JSON: {"type": "HABIT" | "GOAL", "description": "..."}`,
+  'prompts.tax.summary':
+    'Generate a comprehensive tax summary in English for: {data}',
+  'prompts.tax.recommendations': `Generate tax optimization recommendations in English based on:
+          Tax Data: {data}
+          Audit Risk: {auditRisk}`,
+  'prompts.tax.profileAnalysis': `Analyze this tax profile for optimization opportunities:
+            Income: {income}
+            Expenses: {expenses}
+            Current Deductions: {deductions}`,
+  'prompts.tax.eligibleDeductions': `Based on this analysis, identify eligible tax deductions. Write the descriptions and requirements in English:
+            {analysis}`,
+  'prompts.tax.deductionRisks': `Assess the audit risk for these deductions, one entry per deduction in the same order:
+            {deductions}`,
+  'prompts.tax.explainScenarios': `Explain these tax scenarios to the taxpayer in English, one entry per scenario with the same name.
+              The figures were computed from the Form 1040 and must not be changed or recalculated:
+              {scenarios}`,
+  'prompts.tax.validateCalculations': `Validate these tax calculations and identify any errors. Write the messages and recommendations in English:
+              {formData}`,
+  'prompts.tax.auditTriggers': `Analyze this tax return for potential audit triggers. Write the flags and recommendations in English:
+              {taxReturn}`,
+  'prompts.tax.submissionStatus': `Analyze tax submission status and provide recommendations. Write the messages in English:
+            {status}`,
+  'prompts.tax.eligibleCredits': `Analyze tax data for eligible credits. Write the requirements in English:
+            Income: {income}
+            Filing Status: {filingStatus}
+            Documents: {documents}`,
+  'prompts.tax.historicalPatterns': `Analyze historical tax patterns and identify opportunities. Write the descriptions and steps in English:
+            {history}`,
+  'prompts.documents.classify': `Analyze and classify the following document. Answer in English with:
+          1. Document type (invoice, contract, report, etc.)
+          2. Main purpose
+          3. Estimated confidentiality level (Low/Medium/High)
+          4. Key fields identified`,
+  'prompts.documents.summarize': 'Summarize the following document concisely and clearly, in English.',
+  'prompts.documents.validate':
+    'Review the following document for structural errors, missing data or inconsistencies. List each problem on its own line, in English. If there are none, answer only NO_ERRORS.',
+  'prompts.documents.sensitive': `Analyze this document for sensitive information such as:
+        - Personal data
+        - Financial information
+        - Medical data
+        - Confidential information
+
+        Answer YES or NO on the first line, then list what you found, one item per line, in English.
+
+        Document: {content}`,
+  'prompts.documents.keyInformation': 'Extract the key information from the following document, in English.',
+  'prompts.documents.extract': `Extract all structured data from this document, including:
+          - Dates and timestamps
+          - Monetary amounts
+          - Names and entities
+          - Numeric data
+          - References or IDs
+          Write the descriptions in English.
+
+          Document:
+          {content}`,
+  'prompts.documents.improvements': `Analyze this document and suggest potential improvements, in English, to:
+        - Format and structure
+        - Clarity of language
+        - Completeness of information
+        - Regulatory compliance
+
+        Document:
+        {content}`,
+  'prompts.documents.compliance': `Check whether this {documentType} meets all the necessary legal and regulatory requirements. Write the issues in English.
+
+          Document:
+          {content}`,
+  'prompts.documents.analyze': `Analyze this {documentType} document and answer in English. Extract and validate all relevant financial/tax information. For W2/1099: verify income amounts, tax withholdings, and employer details. For ID/PASSPORT: verify expiration and document validity. For bank statements: analyze transactions and balances.
+
+Document content:
+{content}`,
+
+  // Servicios fiscales
+  'tax.scenario.current': 'Current situation',
+  'tax.scenario.combined': 'All changes',
+  'tax.scenario.maximize401k': 'Maximize 401(k) contributions',
+  'tax.scenario.traditionalIra': 'Contribute to a traditional IRA',
+  'tax.scenario.simplifiedHomeOffice': 'Use the simplified home office method',
+  'tax.scenario.regularHomeOffice': 'Use the regular home office method',
+  'tax.scenario.standardMileage': 'Use the standard mileage rate',
+  'tax.scenario.actualVehicle': 'Deduct actual vehicle expenses',
+  'tax.scenario.description':
+    'Taxable income of {taxableIncome} with a total tax of {totalTax} (marginal rate {marginalRate}, effective rate {effectiveRate}).',
+  'tax.timeline.yearEnd': 'Implement by {yearEnd}',
+  'tax.timeline.filingDeadline': 'Plan by {yearEnd}, implement by {deadline}',
+  'tax.deadline.FORM_1040': 'Form 1040 filing and payment of the balance due',
+  'tax.deadline.FORM_1040_EXTENDED': 'Form 1040 filing with an approved Form 4868 extension',
+  'tax.deadline.ESTIMATED_Q1': 'First estimated tax payment (Form 1040-ES)',
+  'tax.deadline.ESTIMATED_Q2': 'Second estimated tax payment (Form 1040-ES)',
+  'tax.deadline.ESTIMATED_Q3': 'Third estimated tax payment (Form 1040-ES)',
+  'tax.deadline.ESTIMATED_Q4': 'Fourth estimated tax payment (Form 1040-ES)',
+  'tax.deadline.INFORMATION_STATEMENTS': 'W-2 and most 1099 statements due to recipients',
+  'tax.deadline.BROKER_STATEMENTS': 'Consolidated broker statements (1099-B, 1099-DIV, 1099-INT) due to recipients',
+  'tax.deadline.installment': 'Estimated tax payment Q{quarter} {year} (Form 1040-ES)',
+  'tax.history.incomeMismatch': 'Income total mismatch in {year}',
+  'tax.history.deductionOverLimit': 'Deduction exceeds limit for {type}',
+  'tax.history.missingDocument': 'Missing required document',
+  'tax.history.unverifiedDocument': 'Document not verified',
+  'tax.history.submitForVerification': 'Submit for verification',
+  'tax.history.deductions': 'Deductions',
+  'tax.history.credits': 'Credits',
+
+  // Errores (AppError.code)
+  'errors.UNKNOWN_ERROR': 'An unexpected error occurred',
+  'errors.CHAT_ERROR': 'The message could not be processed. Please try again.',
+  'errors.CHAT_TIMEOUT': 'Request timed out. Please try again.',
+  'errors.ACTION_UNAUTHORIZED': 'This action is awaiting your approval.',
+  'errors.INVALID_ACTION_PARAMS': 'The action has invalid or missing details.',
+  'errors.NOTHING_TO_UNDO': 'There is no action to undo.',
+  'errors.NOTHING_TO_REDO': 'There is no action to redo.',
+  'errors.ACTION_NOT_REVERSIBLE': '{action} cannot be undone.',
+  'errors.ACTION_NOT_APPLIED': 'Only applied actions can be undone.',
+  'errors.SNAPSHOT_UNAVAILABLE': 'Cannot keep a copy of {path} to undo this action.',
+  'errors.JOURNAL_ENTRY_NOT_FOUND': 'That action was not found in your history.',
+  'errors.APPROVAL_NOT_FOUND': 'Approval request not found.',
+  'errors.APPROVAL_ALREADY_DECIDED': 'This approval request has already been decided.',
+  'errors.APPROVAL_EXPIRED': 'This approval request has expired.',
+  'errors.INVALID_PATH': 'That file path is not allowed.',
+  'errors.INVALID_COMMAND': 'That command is not allowed.',
+  'errors.SYSTEM_QUOTA_EXCEEDED': 'You have reached the limit for this kind of operation. Try again later.',
+  'errors.SESSION_NOT_FOUND': 'This conversation no longer exists.',
+  'errors.INVALID_SESSION_TITLE': 'The conversation name cannot be empty.',
+  'errors.INVALID_SESSION_EXPORT': 'The file is not a valid conversation export.',
+  'errors.MEMORY_NOT_FOUND': 'That memory no longer exists.',
+  'errors.INVALID_MEMORY': 'The memory has invalid details.',
+  'errors.UNSUPPORTED_TAX_YEAR': 'Tax year {year} is not supported yet.',
+  'errors.INVALID_SIMULATION': 'Tell me at least one change to simulate.',
+  'errors.PDF_WITHOUT_TEXT': 'This PDF is a scan without text. Upload a photo or image of the form instead.',
+  'errors.UNSUPPORTED_FORM_YEAR': 'IRS forms for {year} cannot be filled in yet.',
+  'errors.INVALID_FORM_VALUE': 'The value for {field} cannot be written on the form.',
+  'errors.INVALID_SCHEDULE_C': 'The business details are incomplete: check the home office and vehicle data.',
+
+  // Interfaz
+  'ui.chat.title': 'Andy AI Tax Assistant',
+  'ui.chat.placeholder': 'Type your message...',
+  'ui.chat.send': 'Send',
+  'ui.chat.cancel': 'Cancel',
+  'ui.chat.error': 'Error processing the message',
+  'ui.chat.cancelled': 'Message cancelled',
+  'ui.approval.required': 'Approval required',
+  'ui.approval.expires': 'Expires: {date}',
+  'ui.approval.approve': 'Approve',
+  'ui.approval.reject': 'Reject',
+  'ui.approval.executed': 'Action approved and executed.',
+  'ui.approval.rejected': 'Action rejected.',
+  'ui.approval.failed': 'The action failed: {error}',
+  'ui.approval.decisionFailed': 'The decision could not be saved: {message}',
+  'ui.sessions.title': 'Conversations',
+  'ui.sessions.new': 'New conversation',
+  'ui.sessions.untitled': 'New conversation',
+  'ui.sessions.rename': 'Rename',
+  'ui.sessions.delete': 'Delete',
+  'ui.sessions.confirmDelete': 'Delete "{title}"? This cannot be undone.',
+  'ui.sessions.empty': 'No conversations yet',
+  'ui.sessions.export': 'Export',
+  'ui.sessions.import': 'Import',
+  'ui.sessions.importFailed': 'The conversation could not be imported: {message}',
+  'ui.memories.title': 'What Andy remembers',
+  'ui.memories.intro': 'Andy keeps notes from your conversations to give better answers. Unused notes fade over time and repeated ones are combined into habits and goals. Pin a note to keep it, or forget it.',
+  'ui.memories.empty': 'Andy has no memories about you yet.',
+  'ui.memories.pin': 'Pin',
+  'ui.memories.unpin': 'Unpin',
+  'ui.memories.pinned': 'Pinned',
+  'ui.memories.edit': 'Edit',
+  'ui.memories.save': 'Save',
+  'ui.memories.cancel': 'Cancel',
+  'ui.memories.forget': 'Forget',
+  'ui.memories.confirmForget': 'Forget this memory? Andy will not use it again.',
+  'ui.memories.mentions': 'Mentioned {count} times',
+  'ui.memories.consolidated': 'Combined from {count} notes',
+  'ui.memories.updateFailed': 'The memory could not be updated: {message}',
+
+  // Exportaciones de conversaciones
+  'export.exportedAt': 'Exported',
+  'export.language': 'Language',
+  'export.messages': 'Messages',
+  'export.summary': 'Summary of earlier conversation',
+  'export.conversation': 'Conversation',
+  'export.role.user': 'User',
+  'export.role.assistant': 'Andy',
+  'export.attachments': 'Attachments',
+  'export.actions': 'Actions',
+  'export.executedActions': 'Executed actions',
+  'export.documents': 'Documents',
+  'export.none': 'None',
+  'export.document': 'document {id}',
+} as const;
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,271 @@
+// src/shared/i18n/locales/es.ts
+
+import { MessageKey } from './en';
+
+export const es: Record<MessageKey, string> = {
+  // Chat
+  'chat.rateLimited': 'Demasiadas solicitudes. Espera un momento.',
+  'chat.timeout': 'La solicitud tardó demasiado. Inténtalo de nuevo.',
+  'chat.automation.completed': 'Acciones automáticas completadas: {summary}',
+  'chat.automation.incomplete': 'Las acciones automáticas no se completaron: {summary}',
+  'chat.command.undone': 'Se deshizo {action}.',
+  'chat.command.redone': 'Se rehízo {action}.',
+  'chat.whatIf.title': 'Impuesto federal simulado de {year}, declarando como {status}, a partir de tus documentos:',
+  'chat.whatIf.noIncome': 'Necesito tus formularios W-2 o 1099 para simular tus impuestos. Súbelos y vuelve a preguntar.',
+  'chat.whatIf.header': '| Escenario | Impuesto total | Reembolso o saldo a pagar | Tipo marginal | Tipo efectivo | Ahorro |',
+  'chat.whatIf.current': 'Situación actual',
+  'chat.whatIf.combined': 'Todos los cambios',
+  'chat.whatIf.refund': 'Reembolso de {amount}',
+  'chat.whatIf.owed': 'A pagar {amount}',
+  'chat.whatIf.delta.401K': 'Aportar {amount} más a un 401(k)',
+  'chat.whatIf.delta.IRA': 'Aportar {amount} a una IRA tradicional',
+  'chat.whatIf.delta.ROTH_401K': 'Aportar {amount} más a un Roth 401(k)',
+  'chat.whatIf.delta.ROTH_IRA': 'Aportar {amount} a una Roth IRA',
+  'chat.whatIf.delta.FILING_STATUS': 'Declarar como {status}',
+  'chat.whatIf.delta.SELL_STOCK': 'Vender {amount} en acciones',
+  'chat.whatIf.delta.INCOME.WAGES': 'Ganar {amount} más de salario',
+  'chat.whatIf.delta.INCOME.SELF_EMPLOYMENT': 'Ganar {amount} más por cuenta propia',
+  'chat.whatIf.delta.INCOME.INTEREST': 'Ganar {amount} más en intereses',
+  'chat.whatIf.delta.INCOME.OTHER': 'Ganar {amount} más en otros ingresos',
+  'chat.whatIf.delta.DEPENDENTS': '{count} hijo(s) más que cualifican',
+  'chat.whatIf.delta.DEPENDENTS_REMOVED': '{count} hijo(s) menos que cualifican',
+  'chat.whatIf.status.SINGLE': 'soltero',
+  'chat.whatIf.status.MARRIED_FILING_JOINTLY': 'casados en declaración conjunta',
+  'chat.whatIf.status.MARRIED_FILING_SEPARATELY': 'casado en declaración separada',
+  'chat.whatIf.status.HEAD_OF_HOUSEHOLD': 'cabeza de familia',
+  'chat.whatIf.status.QUALIFYING_SURVIVING_SPOUSE': 'cónyuge sobreviviente calificado',
+  'chat.whatIf.note.CONTRIBUTION_LIMITED': 'La aportación se limitó a {amount} por el límite anual y tus ingresos del trabajo.',
+  'chat.whatIf.note.NO_COMPENSATION': 'Las aportaciones para la jubilación requieren ingresos del trabajo y no se encontraron.',
+  'chat.whatIf.note.ROTH_NOT_DEDUCTIBLE': 'Las aportaciones Roth se hacen después de impuestos, así que no bajan el impuesto de este año.',
+  'chat.whatIf.note.IRA_DEDUCTION_MAY_BE_LIMITED': 'Si tienes un plan de jubilación de empresa, la deducción de la IRA puede reducirse.',
+  'chat.whatIf.note.NO_COST_BASIS': 'Sin el costo de compra, toda la venta se trató como ganancia.',
+  'chat.whatIf.note.SPOUSE_INCOME_MISSING': 'No se incluyeron los ingresos de tu cónyuge. Dime cuánto gana para afinar el cálculo.',
+
+  // Prompts
+  'prompts.system.claude': `Eres Andy AI, un asistente financiero autónomo avanzado con amplias capacidades de automatización.
+        Capacidades principales:
+        1. Decisión proactiva: analiza el contexto del usuario y sugiere o ejecuta acciones beneficiosas
+        2. Automatización avanzada: ejecuta flujos financieros complejos sin intervención cuando sea apropiado
+        3. Memoria contextual: construye y mantiene perfiles financieros detallados del usuario
+        4. Análisis predictivo: anticipa necesidades y oportunidades financieras
+        5. Planificación en varios pasos: divide las tareas financieras complejas en secuencias automatizadas
+
+        Niveles de autorización:
+        - LOW: solo información y sugerencias
+        - MEDIUM: ejecutar acciones simples y reversibles
+        - HIGH: ejecutar operaciones financieras complejas con confirmación del usuario
+
+        Usa las herramientas disponibles para proponer acciones TAX, FINANCIAL o CREDIT; cada llamada se valida y queda pendiente de aprobación del usuario.
+        Mantén siempre la seguridad y pide confirmación explícita para operaciones sensibles.
+        Responde siempre en español.`,
+  'prompts.system.gpt4':
+    'Eres Andy AI, un asistente financiero especializado en preparación de impuestos, análisis financiero y procesamiento de documentos. Prioriza la exactitud en los cálculos financieros y en los consejos fiscales. Explica paso a paso cuando analices escenarios financieros complejos. Usa las herramientas disponibles para proponer acciones; se validan y requieren la aprobación del usuario. Responde siempre en español.',
+  'prompts.context.previous': 'Contexto anterior',
+  'prompts.context.documents': 'Análisis de documentos',
+  'prompts.context.request': 'Solicitud actual',
+  'prompts.context.summary': 'Conversación anterior (resumen)',
+  'prompts.context.memories': 'Recuerdos relevantes',
+  'prompts.context.profile': 'Perfil financiero',
+  'prompts.context.summarize': `Actualiza el resumen de una conversación entre un usuario y un asistente financiero.
+Conserva importes, fechas, decisiones, preguntas pendientes y preferencias del usuario. Omite saludos y repeticiones. Responde solo con el resumen, en español, en un máximo de {maxWords} palabras.
+
+Resumen actual:
+{summary}
+
+Turnos nuevos:
+{turns}`,
+  'prompts.context.guidance':
+    'Ofrece orientación financiera concreta y accionable basada en todo el contexto. Si analizas documentos, destaca las implicaciones financieras y fiscales clave.',
+  'prompts.memory.consolidate': `Estas notas se registraron sobre el mismo usuario en fechas distintas y describen el mismo hecho recurrente:
+{memories}
+
+Combínalas en un único recuerdo a largo plazo. Usa "HABIT" para un comportamiento recurrente (gastos, ingresos, rutinas) o "GOAL" para algo que el usuario quiere conseguir. Conserva los importes y fechas que sigan siendo relevantes y escribe la descripción en el idioma de las notas.
+Responde solo con JSON: {"type": "HABIT" | "GOAL", "description": "..."}`,
+  'prompts.tax.summary':
+    'Genera en español un resumen fiscal completo para: {data}',
+  'prompts.tax.recommendations': `Genera en español recomendaciones de optimización fiscal basadas en:
+          Datos fiscales: {data}
+          Riesgo de auditoría: {auditRisk}`,
+  'prompts.tax.profileAnalysis': `Analiza este perfil fiscal en busca de oportunidades de optimización:
+            Ingresos: {income}
+            Gastos: {expenses}
+            Deducciones actuales: {deductions}`,
+  'prompts.tax.eligibleDeductions': `A partir de este análisis, identifica las deducciones fiscales aplicables. Escribe las descripciones y los requisitos en español:
+            {analysis}`,
+  'prompts.tax.deductionRisks': `Evalúa el riesgo de auditoría de estas deducciones, una entrada por deducción y en el mismo orden:
+            {deductions}`,
+  'prompts.tax.explainScenarios': `Explica al contribuyente en español estos escenarios fiscales, una entrada por escenario con el mismo nombre.
+              Las cifras salen del Form 1040 y no se deben cambiar ni recalcular:
+              {scenarios}`,
+  'prompts.tax.validateCalculations': `Valida estos cálculos fiscales e identifica cualquier error. Escribe los mensajes y las recomendaciones en español:
+              {formData}`,
+  'prompts.tax.auditTriggers': `Analiza esta declaración en busca de posibles motivos de auditoría. Escribe las alertas y las recomendaciones en español:
+              {taxReturn}`,
+  'prompts.tax.submissionStatus': `Analiza el estado de la presentación de la declaración y da recomendaciones. Escribe los mensajes en español:
+            {status}`,
+  'prompts.tax.eligibleCredits': `Analiza los datos fiscales en busca de créditos aplicables. Escribe los requisitos en español:
+            Ingresos: {income}
+            Estado civil: {filingStatus}
+            Documentos: {documents}`,
+  'prompts.tax.historicalPatterns': `Analiza los patrones fiscales históricos e identifica oportunidades. Escribe las descripciones y los pasos en español:
+            {history}`,
+  'prompts.documents.classify': `Analiza y clasifica el siguiente documento. Responde en español con:
+          1. Tipo de documento (Factura, Contrato, Reporte, etc.)
+          2. Propósito principal
+          3. Nivel de confidencialidad estimado (Bajo/Medio/Alto)
+          4. Campos clave identificados`,
+  'prompts.documents.summarize': 'Resume el siguiente documento de manera concisa y clara, en español.',
+  'prompts.documents.validate':
+    'Revisa el siguiente documento en busca de errores estructurales, datos faltantes o inconsistencias. Escribe cada problema en una línea, en español. Si no hay ninguno, responde solo NO_ERRORS.',
+  'prompts.documents.sensitive': `Analiza este documento en busca de información sensible como:
+        - Datos personales
+        - Información financiera
+        - Datos médicos
+        - Información confidencial
+
+        Responde YES o NO en la primera línea y después enumera lo que encuentres, uno por línea, en español.
+
+        Documento: {content}`,
+  'prompts.documents.keyInformation': 'Extrae la información clave del siguiente documento, en español.',
+  'prompts.documents.extract': `Extrae todos los datos estructurados de este documento, incluyendo:
+          - Fechas y timestamps
+          - Cantidades monetarias
+          - Nombres y entidades
+          - Datos numéricos
+          - Referencias o IDs
+          Escribe las descripciones en español.
+
+          Documento:
+          {content}`,
+  'prompts.documents.improvements': `Analiza este documento y sugiere, en español, mejoras potenciales en:
+        - Formato y estructura
+        - Claridad del lenguaje
+        - Completitud de información
+        - Cumplimiento normativo
+
+        Documento:
+        {content}`,
+  'prompts.documents.compliance': `Verifica si este {documentType} cumple con todos los requisitos legales y regulatorios necesarios. Escribe los problemas en español.
+
+          Documento:
+          {content}`,
+  'prompts.documents.analyze': `Analiza este documento {documentType} y responde en español. Extrae y valida toda la información financiera y fiscal relevante. En W2/1099: verifica los ingresos, las retenciones y los datos del empleador. En ID/PASSPORT: verifica la caducidad y la validez del documento. En extractos bancarios: analiza los movimientos y los saldos.
+
+Contenido del documento:
+{content}`,
+
+  // Servicios fiscales
+  'tax.scenario.current': 'Situación actual',
+  'tax.scenario.combined': 'Todos los cambios',
+  'tax.scenario.maximize401k': 'Aportar el máximo al 401(k)',
+  'tax.scenario.traditionalIra': 'Aportar a una IRA tradicional',
+  'tax.scenario.simplifiedHomeOffice': 'Usar el método simplificado de oficina en casa',
+  'tax.scenario.regularHomeOffice': 'Usar el método normal de oficina en casa',
+  'tax.scenario.standardMileage': 'Usar la tarifa estándar por milla',
+  'tax.scenario.actualVehicle': 'Deducir los gastos reales del vehículo',
+  'tax.scenario.description':
+    'Ingresos sujetos a impuesto de {taxableIncome} con un impuesto total de {totalTax} (tipo marginal {marginalRate}, tipo efectivo {effectiveRate}).',
+  'tax.timeline.yearEnd': 'Aplicar antes del {yearEnd}',
+  'tax.timeline.filingDeadline': 'Planificar antes del {yearEnd} y aplicar antes del {deadline}',
+  'tax.deadline.FORM_1040': 'Presentación del Form 1040 y pago del saldo pendiente',
+  'tax.deadline.FORM_1040_EXTENDED': 'Presentación del Form 1040 con una prórroga (Form 4868) aprobada',
+  'tax.deadline.ESTIMATED_Q1': 'Primer pago de impuesto estimado (Form 1040-ES)',
+  'tax.deadline.ESTIMATED_Q2': 'Segundo pago de impuesto estimado (Form 1040-ES)',
+  'tax.deadline.ESTIMATED_Q3': 'Tercer pago de impuesto estimado (Form 1040-ES)',
+  'tax.deadline.ESTIMATED_Q4': 'Cuarto pago de impuesto estimado (Form 1040-ES)',
+  'tax.deadline.INFORMATION_STATEMENTS': 'Entrega a los destinatarios de los W-2 y de la mayoría de los 1099',
+  'tax.deadline.BROKER_STATEMENTS': 'Entrega a los destinatarios de los extractos consolidados del bróker (1099-B, 1099-DIV, 1099-INT)',
+  'tax.deadline.installment': 'Pago de impuesto estimado T{quarter} {year} (Form 1040-ES)',
+  'tax.history.incomeMismatch': 'Los ingresos totales de {year} no cuadran',
+  'tax.history.deductionOverLimit': 'La deducción supera el límite de {type}',
+  'tax.history.missingDocument': 'Falta un documento obligatorio',
+  'tax.history.unverifiedDocument': 'Documento sin verificar',
+  'tax.history.submitForVerification': 'Envíalo para su verificación',
+  'tax.history.deductions': 'Deducciones',
+  'tax.history.credits': 'Créditos',
+
+  // Errores (AppError.code)
+  'errors.UNKNOWN_ERROR': 'Ocurrió un error inesperado',
+  'errors.CHAT_ERROR': 'No se pudo procesar el mensaje. Inténtalo de nuevo.',
+  'errors.CHAT_TIMEOUT': 'La solicitud tardó demasiado. Inténtalo de nuevo.',
+  'errors.ACTION_UNAUTHORIZED': 'Esta acción está pendiente de tu aprobación.',
+  'errors.INVALID_ACTION_PARAMS': 'A la acción le faltan datos o tiene datos no válidos.',
+  'errors.NOTHING_TO_UNDO': 'No hay ninguna acción que deshacer.',
+  'errors.NOTHING_TO_REDO': 'No hay ninguna acción que rehacer.',
+  'errors.ACTION_NOT_REVERSIBLE': '{action} no se puede deshacer.',
+  'errors.ACTION_NOT_APPLIED': 'Solo se pueden deshacer acciones aplicadas.',
+  'errors.SNAPSHOT_UNAVAILABLE': 'No se puede guardar una copia de {path} para deshacer esta acción.',
+  'errors.JOURNAL_ENTRY_NOT_FOUND': 'No se encontró esa acción en tu historial.',
+  'errors.APPROVAL_NOT_FOUND': 'No se encontró la solicitud de aprobación.',
+  'errors.APPROVAL_ALREADY_DECIDED': 'Esta solicitud de aprobación ya fue resuelta.',
+  'errors.APPROVAL_EXPIRED': 'Esta solicitud de aprobación ha caducado.',
+  'errors.INVALID_PATH': 'Esa ruta de archivo no está permitida.',
+  'errors.INVALID_COMMAND': 'Ese comando no está permitido.',
+  'errors.SYSTEM_QUOTA_EXCEEDED': 'Alcanzaste el límite para este tipo de operación. Inténtalo más tarde.',
+  'errors.SESSION_NOT_FOUND': 'Esta conversación ya no existe.',
+  'errors.INVALID_SESSION_TITLE': 'El nombre de la conversación no puede estar vacío.',
+  'errors.INVALID_SESSION_EXPORT': 'El archivo no es una exportación de conversación válida.',
+  'errors.MEMORY_NOT_FOUND': 'Ese recuerdo ya no existe.',
+  'errors.INVALID_MEMORY': 'El recuerdo tiene datos no válidos.',
+  'errors.UNSUPPORTED_TAX_YEAR': 'El año fiscal {year} todavía no está disponible.',
+  'errors.INVALID_SIMULATION': 'Indícame al menos un cambio que simular.',
+  'errors.PDF_WITHOUT_TEXT': 'Este PDF es un escaneo sin texto. Sube una foto o imagen del formulario.',
+  'errors.UNSUPPORTED_FORM_YEAR': 'Todavía no se pueden rellenar los formularios del IRS de {year}.',
+  'errors.INVALID_FORM_VALUE': 'El valor de {field} no se puede escribir en el formulario.',
+  'errors.INVALID_SCHEDULE_C': 'Faltan datos de la actividad: revisa los de la oficina en casa y el vehículo.',
+
+  // Interfaz
+  'ui.chat.title': 'Andy AI, asistente fiscal',
+  'ui.chat.placeholder': 'Escribe tu mensaje...',
+  'ui.chat.send': 'Enviar',
+  'ui.chat.cancel': 'Cancelar',
+  'ui.chat.error': 'Error al procesar el mensaje',
+  'ui.chat.cancelled': 'Mensaje cancelado',
+  'ui.approval.required': 'Aprobación requerida',
+  'ui.approval.expires': 'Expira: {date}',
+  'ui.approval.approve': 'Aprobar',
+  'ui.approval.reject': 'Rechazar',
+  'ui.approval.executed': 'Acción aprobada y ejecutada.',
+  'ui.approval.rejected': 'Acción rechazada.',
+  'ui.approval.failed': 'La acción falló: {error}',
+  'ui.approval.decisionFailed': 'No se pudo registrar la decisión: {message}',
+  'ui.sessions.title': 'Conversaciones',
+  'ui.sessions.new': 'Nueva conversación',
+  'ui.sessions.untitled': 'Nueva conversación',
+  'ui.sessions.rename': 'Renombrar',
+  'ui.sessions.delete': 'Eliminar',
+  'ui.sessions.confirmDelete': '¿Eliminar "{title}"? No se puede deshacer.',
+  'ui.sessions.empty': 'Todavía no hay conversaciones',
+  'ui.sessions.export': 'Exportar',
+  'ui.sessions.import': 'Importar',
+  'ui.sessions.importFailed': 'No se pudo importar la conversación: {message}',
+  'ui.memories.title': 'Lo que Andy recuerda',
+  'ui.memories.intro': 'Andy guarda notas de tus conversaciones para responderte mejor. Las notas que no se usan se desvanecen con el tiempo y las repetidas se combinan en hábitos y metas. Fija una nota para conservarla u olvídala.',
+  'ui.memories.empty': 'Andy todavía no tiene recuerdos sobre ti.',
+  'ui.memories.pin': 'Fijar',
+  'ui.memories.unpin': 'Desfijar',
+  'ui.memories.pinned': 'Fijado',
+  'ui.memories.edit': 'Editar',
+  'ui.memories.save': 'Guardar',
+  'ui.memories.cancel': 'Cancelar',
+  'ui.memories.forget': 'Olvidar',
+  'ui.memories.confirmForget': '¿Olvidar este recuerdo? Andy no volverá a usarlo.',
+  'ui.memories.mentions': 'Mencionado {count} veces',
+  'ui.memories.consolidated': 'Combinado a partir de {count} notas',
+  'ui.memories.updateFailed': 'No se pudo actualizar el recuerdo: {message}',
+
+  // Exportaciones de conversaciones
+  'export.exportedAt': 'Exportado',
+  'export.language': 'Idioma',
+  'export.messages': 'Mensajes',
+  'export.summary': 'Resumen de la conversación anterior',
+  'export.conversation': 'Conversación',
+  'export.role.user': 'Usuario',
+  'export.role.assistant': 'Andy',
+  'export.attachments': 'Adjuntos',
+  'export.actions': 'Acciones',
+  'export.executedActions': 'Acciones ejecutadas',
+  'export.documents': 'Documentos',
+  'export.none': 'Ninguno',
+  'export.document': 'documento {id}',
+};
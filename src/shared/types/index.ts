@@ -15,7 +15,13 @@ export interface UserContext {
 
 // Tipos para módulos
 export interface ModuleAction {
-  type: 'TAX' | 'FINANCIAL' | 'CREDIT';
+  type: 'TAX' | 'FINANCIAL' | 'CREDIT' | 'SYSTEM';
   action: string;
   params: Record<string, any>;
+  metadata?: {
+    isReversible?: boolean;
+    riskLevel?: number;
+    toolCallId?: string;
+    [key: string]: unknown;
+  };
 }
@@ -2,7 +2,9 @@ export class AppError extends Error {
   constructor(
     public code: string,
     message: string,
-    public status: number = 500
+    public status: number = 500,
+    // Valores para interpolar en el mensaje traducido (ver shared/i18n)
+    public params?: Record<string, string | number>
   ) {
     super(message);
     this.name = 'AppError';
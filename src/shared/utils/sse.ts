@@ -0,0 +1,58 @@
+// Utilidades para Server-Sent Events sobre fetch (EventSource no admite POST)
+
+export interface SSEMessage<T = unknown> {
+  event: string;
+  data: T;
+}
+
+export function encodeSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export async function* parseSSE<T = unknown>(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<SSEMessage<T>> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      let separator = buffer.indexOf('\n\n');
+
+      while (separator !== -1) {
+        const message = parseBlock<T>(buffer.slice(0, separator));
+        buffer = buffer.slice(separator + 2);
+        if (message) {
+          yield message;
+        }
+        separator = buffer.indexOf('\n\n');
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseBlock<T>(block: string): SSEMessage<T> | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (dataLines.length === 0) {
+    return null;
+  }
+
+  return { event, data: JSON.parse(dataLines.join('\n')) as T };
+}